@@ -0,0 +1,38 @@
+/**
+ * Property Comparison Page
+ *
+ * ROUTE: /comparar?ids=<uuid>,<uuid>[,<uuid>,<uuid>]
+ *
+ * FEATURES:
+ * - Side-by-side comparison of 2–4 properties
+ * - The URL is the source of truth: links can be shared
+ * - Price, price/m², area, rooms, amenities diff, shared mini-map
+ * - Estimated monthly payment (same logic as MortgageCalculator)
+ *
+ * Invalid or missing IDs are dropped; the view shows an empty state
+ * when fewer than 2 properties remain
+ */
+
+import { PropertyRepository } from "@repo/database";
+import type { Metadata } from "next";
+import { CompareView } from "@/components/compare/compare-view";
+import { parseCompareIds } from "@/lib/utils/compare";
+
+export const metadata: Metadata = {
+  title: "Comparar propiedades",
+  description: "Compara propiedades lado a lado en InmoApp.",
+};
+
+interface ComparePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function ComparePage(props: ComparePageProps) {
+  const searchParams = await props.searchParams;
+  const ids = parseCompareIds(searchParams.ids);
+
+  const propertyRepository = new PropertyRepository();
+  const properties = await propertyRepository.findManyByIds(ids);
+
+  return <CompareView properties={properties} />;
+}
@@ -1,3 +1,4 @@
+import { CompareTray } from "@/components/compare/compare-tray";
 import { BodyStyleManager } from "@/components/layout/body-style-manager";
 import { ConditionalFooter } from "@/components/layout/conditional-footer";
 import { PublicHeader } from "@/components/layout/public-header";
@@ -40,6 +41,7 @@ export default function PublicLayout({
         <ConditionalFooter />
       </Suspense>
 
+      <CompareTray />
       <ResponsiveToaster />
     </div>
   );
@@ -1,4 +1,5 @@
 import { db, getPropertiesList } from "@repo/database";
+import { getTrendingProperties } from "@/app/actions/social";
 import { AgentCTASection } from "@/components/home/agent-cta-section";
 import { FeaturedPropertiesCarousel } from "@/components/home/featured-properties-carousel";
 import { HeroSection } from "@/components/home/hero-section";
@@ -69,23 +70,26 @@ export default async function HomePage() {
    * - Consolidated stats query (groupBy instead of 3 separate counts)
    * - Reduces database round-trips from 4 to 2 (~50% reduction)
    */
-  const [propertiesResult, stats] = await Promise.all([
+  const [propertiesResult, trendingProperties, stats] = await Promise.all([
     // Properties for both Featured and Recent sections
     getPropertiesList({
       filters: { status: "AVAILABLE" },
       take: 9,
     }),
 
+    // Trending: precomputed time-decayed score (property_trending_scores)
+    getTrendingProperties(9),
+
     // Consolidated stats query (replaces 3 separate queries)
     Promise.all([
       // Property count
       db.property.count({
-        where: { status: "AVAILABLE" },
+        where: { status: "AVAILABLE", visibility: "PUBLISHED" },
       }),
       // Distinct cities (one query instead of findMany + .length)
       db.property.groupBy({
         by: ["city"],
-        where: { status: "AVAILABLE" },
+        where: { status: "AVAILABLE", visibility: "PUBLISHED" },
         _count: { city: true },
       }),
       // Agent count
@@ -115,8 +119,8 @@ export default async function HomePage() {
       )}
 
       {/* Trending Properties (Social Commerce) */}
-      {propertiesResult.properties.length > 0 && (
-        <TrendingPropertiesSection properties={propertiesResult.properties} />
+      {trendingProperties.length > 0 && (
+        <TrendingPropertiesSection properties={trendingProperties} />
       )}
 
       {/* Recent Listings Grid */}
@@ -8,11 +8,13 @@
  * - Server Component for SEO
  * - Fetches full property details via PropertyRepository
  * - Validates slug for SEO redirects
- * - Shows 404 if property not found
+ * - Shows 404 if property not found (or not published, except for its
+ *   agent and admins, who can preview scheduled/archived listings)
  * - Redirects to correct slug if user provides incorrect one (SEO best practice)
  * - Modern minimalist design with GSAP animations
  * - Embla carousel for image gallery with lightbox
  * - Responsive sticky sidebar with floating CTA card
+ * - "También te puede interesar" carousel (personalized when logged in)
  */
 
 import { checkIfFavoriteAction } from "@/app/actions/favorites";
@@ -23,9 +25,14 @@ import { PropertyHeroCarouselWrapper } from "@/components/property-detail/proper
 import { PropertyLocationCard } from "@/components/property-detail/property-location-card";
 import { PropertyStatsCard } from "@/components/property-detail/property-stats-card";
 import { PropertyVideoPlayer } from "@/components/property-detail/property-video-player";
+import { SimilarPropertiesCarousel } from "@/components/property-detail/similar-properties-carousel";
 import { getCurrentUser } from "@/lib/auth";
 import { generateSlug, parseIdSlugParam } from "@/lib/utils/slug-generator";
-import { PropertyRepository } from "@repo/database";
+import {
+  getSimilarProperties,
+  PropertyRepository,
+  priceHistoryRepository,
+} from "@repo/database";
 import type { Metadata } from "next";
 import { notFound, redirect } from "next/navigation";
 
@@ -69,6 +76,14 @@ export async function generateMetadata(
     };
   }
 
+  // Scheduled/archived listings are only previewed by their agent
+  if (property.visibility !== "PUBLISHED") {
+    return {
+      title: property.title,
+      robots: { index: false, follow: false },
+    };
+  }
+
   // Format price for display
   const formattedPrice = new Intl.NumberFormat("es-EC", {
     style: "currency",
@@ -164,6 +179,19 @@ export default async function PropertyDetailPage(
     notFound();
   }
 
+  // Get current user for appointment button
+  const user = await getCurrentUser();
+
+  // Scheduled/archived listings: 404 except for their agent and admins
+  const isPublished = property.visibility === "PUBLISHED";
+  if (
+    !isPublished &&
+    user?.id !== property.agentId &&
+    user?.role !== "ADMIN"
+  ) {
+    notFound();
+  }
+
   // Validate and redirect if slug is incorrect (SEO redirect)
   const correctSlug = generateSlug(property.title);
   if (providedSlug !== correctSlug) {
@@ -171,13 +199,19 @@ export default async function PropertyDetailPage(
     redirect(`/propiedades/${id}-${correctSlug}`);
   }
 
-  // Get current user for appointment button
-  const user = await getCurrentUser();
-
   // Check if user has favorited this property
   const favoriteResult = await checkIfFavoriteAction(id);
   const isFavorite = favoriteResult.success && favoriteResult.isFavorite;
 
+  // Price changes for the timeline in the stats card
+  const priceHistory = await priceHistoryRepository.listByProperty(id);
+
+  // Recommendations (weighted by the user's favorites/views when logged in)
+  const similarProperties = await getSimilarProperties({
+    propertyId: id,
+    userId: user?.id,
+  });
+
   // Format price
   // Note: property is already serialized (Decimal → number) by findByIdCached
   const formattedPrice = new Intl.NumberFormat("es-EC", {
@@ -244,6 +278,7 @@ export default async function PropertyDetailPage(
                 bedrooms={bedrooms}
                 bathrooms={bathrooms}
                 area={area}
+                priceHistory={priceHistory}
               />
             </div>
 
@@ -292,6 +327,9 @@ export default async function PropertyDetailPage(
             />
           </div>
         </div>
+
+        {/* Similar Properties */}
+        <SimilarPropertiesCarousel properties={similarProperties} />
       </div>
     </div>
   );
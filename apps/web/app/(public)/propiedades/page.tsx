@@ -33,6 +33,7 @@ import dynamic from "next/dynamic";
 import MapStoreInitializer from "@/components/map/map-store-initializer";
 import { PropertyGridPage } from "@/components/properties/property-grid-page";
 import { getCurrentUser } from "@/lib/auth";
+import { PROPERTY_GRID_PAGE_SIZE } from "@/lib/constants/property-grid";
 
 // Lazy load map components (only needed when view=map)
 // Reduces initial bundle size by ~400KB (Mapbox GL JS)
@@ -148,7 +149,9 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
   const isMapView = view === "map";
 
   // Parse filters from URL (used by both views)
-  const filters: PropertyFilters = parseFilterParams(searchParams);
+  // sort/near only affect the order of the paginated list
+  const { sort, near, ...parsedFilters } = parseFilterParams(searchParams);
+  const filters: PropertyFilters = parsedFilters;
 
   // Convert PropertyFilters to FilterState (for map store)
   const filterState: import("@/stores/map-store").FilterState = {
@@ -167,6 +170,10 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
         ? [filters.transactionType]
         : undefined,
     city: filters.city,
+    amenities: filters.amenities,
+    amenitiesMatch: filters.amenitiesMatch,
+    sort,
+    near,
   };
 
   // Fetch current user (needed for auth state)
@@ -174,7 +181,7 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
 
   // Common params
   const page = Math.max(1, Number(searchParams.page) || 1);
-  const pageSize = 12;
+  const pageSize = PROPERTY_GRID_PAGE_SIZE;
   const displayBounds = isMapView ? parseBoundsParams(searchParams) : null;
 
   // Unified Data Fetching
@@ -183,7 +190,7 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
   // 2. Map/Filter properties (for map pins OR client-side filter stats)
   // 3. Price stats (for filter sliders)
   const [
-    { properties: listProperties, total },
+    { properties: listProperties, total, nextCursor },
     { properties: mapOrFilterProperties },
     { minPrice: priceRangeMin, maxPrice: priceRangeMax },
     priceDistribution,
@@ -196,6 +203,8 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
       },
       skip: (page - 1) * pageSize,
       take: pageSize,
+      sort,
+      origin: near,
     }),
     // 2. Map/Filter data (context dependent)
     isMapView && displayBounds
@@ -251,6 +260,7 @@ export default async function PropiedadesPage(props: PropiedadesPageProps) {
         currentPage={page}
         totalPages={totalPages}
         pageSize={pageSize}
+        nextCursor={nextCursor}
         filters={filters}
       />
 
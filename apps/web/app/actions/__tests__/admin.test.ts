@@ -139,6 +139,8 @@ describe("Admin Server Actions", () => {
       expect(mockRequireRole).toHaveBeenCalledWith(["ADMIN"]);
       expect(result.users).toEqual(mockUsers);
       expect(result.total).toBe(2);
+      expect(result.totalIsEstimate).toBe(false);
+      expect(result.nextCursor).toBeNull();
       expect(mockDbUserFindMany).toHaveBeenCalledWith({
         where: {},
         select: expect.objectContaining({
@@ -148,8 +150,8 @@ describe("Admin Server Actions", () => {
           role: true,
         }),
         skip: 0,
-        take: 20,
-        orderBy: { createdAt: "desc" },
+        take: 21,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       });
     });
 
@@ -196,11 +198,81 @@ describe("Admin Server Actions", () => {
       expect(mockDbUserFindMany).toHaveBeenCalledWith(
         expect.objectContaining({
           skip: 40,
-          take: 20,
+          take: 21,
         })
       );
     });
 
+    it("should return a cursor and page by keyset after it", async () => {
+      const first = {
+        ...createMockUser({ id: "user-2" }),
+        createdAt: new Date("2024-02-02"),
+      };
+      const second = {
+        ...createMockUser({ id: "user-1" }),
+        createdAt: new Date("2024-02-01"),
+      };
+      mockDbUserFindMany.mockResolvedValueOnce([first, second]);
+      mockDbUserCount.mockResolvedValue(2);
+
+      const page1 = await getUsersAction({ take: 1 });
+
+      expect(page1.users).toEqual([first]);
+      expect(page1.nextCursor).toEqual(expect.any(String));
+
+      mockDbUserFindMany.mockResolvedValueOnce([second]);
+      const page2 = await getUsersAction({
+        take: 1,
+        skip: 1,
+        cursor: page1.nextCursor,
+      });
+
+      expect(page2.nextCursor).toBeNull();
+      expect(mockDbUserFindMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {},
+              {
+                OR: [
+                  { createdAt: { lt: first.createdAt } },
+                  { createdAt: first.createdAt, id: { lt: "user-2" } },
+                ],
+              },
+            ],
+          },
+        })
+      );
+      expect(mockDbUserFindMany).toHaveBeenLastCalledWith(
+        expect.not.objectContaining({ skip: expect.anything() })
+      );
+    });
+
+    it("should estimate the total of large unfiltered tables", async () => {
+      mockDbUserFindMany.mockResolvedValue([]);
+      (db.$queryRaw as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { estimate: 25_000 },
+      ]);
+
+      const result = await getUsersAction();
+
+      expect(result).toMatchObject({ total: 25_000, totalIsEstimate: true });
+      expect(mockDbUserCount).not.toHaveBeenCalled();
+    });
+
+    it("should cap the count of filtered queries", async () => {
+      mockDbUserFindMany.mockResolvedValue([]);
+      mockDbUserCount.mockResolvedValue(1001);
+
+      const result = await getUsersAction({ role: "CLIENT" });
+
+      expect(result).toMatchObject({ total: 1000, totalIsEstimate: true });
+      expect(mockDbUserCount).toHaveBeenCalledWith({
+        where: { role: "CLIENT" },
+        take: 1001,
+      });
+    });
+
     it("should require ADMIN role", async () => {
       mockRequireRole.mockRejectedValue(new Error("Unauthorized"));
 
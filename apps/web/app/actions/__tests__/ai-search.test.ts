@@ -374,7 +374,7 @@ describe("AI Search Action", () => {
       const result = await aiSearchAction("casa 3 habitaciones en Cuenca bajo 200k");
 
       expect(mockDbPropertyFindMany).toHaveBeenCalledWith({
-        where: mockParse.filters, // filtersToWhereClause passthrough
+        where: { ...mockParse.filters, visibility: "PUBLISHED" }, // filtersToWhereClause passthrough
         select: expect.objectContaining({
           id: true,
           title: true,
@@ -478,6 +478,7 @@ describe("AI Search Action", () => {
         priceRange: "$100k - $200k",
         bedrooms: 2,
         features: ["piscina", "garaje"],
+        amenities: ["pool", "garage"],
       });
     });
 
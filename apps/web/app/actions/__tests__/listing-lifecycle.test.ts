@@ -0,0 +1,188 @@
+/**
+ * TESTS - Listing lifecycle actions
+ *
+ * Tests for renewListingAction, archiveListingAction, publishListingNowAction
+ * and setKeepOnDowngradeAction
+ */
+
+// Import mocked modules to get access to their mocked functions
+import {
+  listingLifecycleRepository,
+  planDowngradeRepository,
+  propertyRepository,
+} from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockUser } from "@/__tests__/utils/test-helpers";
+import { requireRole } from "@/lib/auth";
+import {
+  canCreateProperty,
+  getPropertyLimit,
+} from "@/lib/permissions/property-limits";
+import {
+  archiveListingAction,
+  publishListingNowAction,
+  renewListingAction,
+  setKeepOnDowngradeAction,
+} from "../properties";
+
+// Get mocked functions
+const mockRequireRole = vi.mocked(requireRole);
+const mockRevalidatePath = vi.mocked(revalidatePath);
+const mockCanCreateProperty = vi.mocked(canCreateProperty);
+const mockFindById = vi.mocked(propertyRepository.findById);
+const mockLifecycle = vi.mocked(listingLifecycleRepository);
+const mockDowngrades = vi.mocked(planDowngradeRepository);
+const mockGetPropertyLimit = vi.mocked(getPropertyLimit);
+
+describe("Listing lifecycle actions", () => {
+  const mockUser = createMockUser({ role: "AGENT" });
+  const propertyId = "property-123";
+
+  function mockProperty(visibility: "DRAFT" | "PUBLISHED" | "ARCHIVED") {
+    mockFindById.mockResolvedValue({
+      id: propertyId,
+      agentId: mockUser.id,
+      visibility,
+    } as never);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Default behavior: user is authenticated as AGENT under the plan limit
+    mockRequireRole.mockResolvedValue(mockUser);
+    mockCanCreateProperty.mockResolvedValue({ allowed: true, limit: 10 });
+  });
+
+  describe("renewListingAction", () => {
+    it("should renew a published listing without checking the plan", async () => {
+      mockProperty("PUBLISHED");
+
+      const result = await renewListingAction(propertyId);
+
+      expect(result).toEqual({ success: true });
+      expect(mockCanCreateProperty).not.toHaveBeenCalled();
+      expect(mockLifecycle.renew).toHaveBeenCalledWith(propertyId, mockUser.id);
+      expect(mockRevalidatePath).not.toHaveBeenCalledWith("/mapa");
+    });
+
+    it("should block republishing an archived listing over the plan limit", async () => {
+      mockProperty("ARCHIVED");
+      mockCanCreateProperty.mockResolvedValue({
+        allowed: false,
+        reason: "Has alcanzado el límite de 1 propiedad.",
+        limit: 1,
+      });
+
+      const result = await renewListingAction(propertyId);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Has alcanzado el límite de 1 propiedad.",
+        upgradeRequired: true,
+      });
+      expect(mockLifecycle.renew).not.toHaveBeenCalled();
+    });
+
+    it("should republish an archived listing within the plan limit", async () => {
+      mockProperty("ARCHIVED");
+
+      const result = await renewListingAction(propertyId);
+
+      expect(result.success).toBe(true);
+      expect(mockCanCreateProperty).toHaveBeenCalledWith(mockUser.id);
+      expect(mockRevalidatePath).toHaveBeenCalledWith("/mapa");
+    });
+
+    it("should return an error when the property does not exist", async () => {
+      mockFindById.mockResolvedValue(null);
+
+      const result = await renewListingAction(propertyId);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Propiedad no encontrada",
+      });
+    });
+  });
+
+  describe("archiveListingAction", () => {
+    it("should surface ownership errors from the repository", async () => {
+      mockLifecycle.archive.mockRejectedValue(
+        new Error(
+          "Unauthorized: Only the property owner or admins can manage the listing",
+        ),
+      );
+
+      const result = await archiveListingAction(propertyId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Unauthorized");
+    });
+  });
+
+  describe("publishListingNowAction", () => {
+    it("should publish the scheduled listing", async () => {
+      mockProperty("PUBLISHED");
+
+      const result = await publishListingNowAction(propertyId);
+
+      expect(result).toEqual({ success: true });
+      expect(mockLifecycle.schedule).toHaveBeenCalledWith(
+        propertyId,
+        null,
+        mockUser.id,
+      );
+    });
+  });
+
+  describe("setKeepOnDowngradeAction", () => {
+    beforeEach(() => {
+      mockGetPropertyLimit.mockReturnValue(1);
+      mockDowngrades.setKeepOnDowngrade.mockResolvedValue(true);
+    });
+
+    it("should keep a listing while the plan allows it", async () => {
+      mockDowngrades.countKept.mockResolvedValue(0);
+
+      const result = await setKeepOnDowngradeAction(propertyId, true);
+
+      expect(result).toEqual({ success: true });
+      expect(mockDowngrades.setKeepOnDowngrade).toHaveBeenCalledWith(
+        propertyId,
+        mockUser.id,
+        true,
+      );
+    });
+
+    it("should not keep more listings than the plan allows", async () => {
+      mockDowngrades.countKept.mockResolvedValue(1);
+
+      const result = await setKeepOnDowngradeAction(propertyId, true);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Quita otra");
+      expect(mockDowngrades.setKeepOnDowngrade).not.toHaveBeenCalled();
+    });
+
+    it("should always allow removing a pick", async () => {
+      const result = await setKeepOnDowngradeAction(propertyId, false);
+
+      expect(result).toEqual({ success: true });
+      expect(mockDowngrades.countKept).not.toHaveBeenCalled();
+    });
+
+    it("should reject listings of other agents", async () => {
+      mockDowngrades.countKept.mockResolvedValue(0);
+      mockDowngrades.setKeepOnDowngrade.mockResolvedValue(false);
+
+      const result = await setKeepOnDowngradeAction(propertyId, true);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Propiedad no encontrada",
+      });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * TESTS - startFreeTrial action
+ *
+ * - Solo agentes en el plan FREE, para PLUS/BUSINESS
+ * - Una prueba por usuario (startTrial rechaza la segunda)
+ * - Refresca las páginas que dependen del plan
+ */
+
+import type { SafeUser } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockUser } from "@/__tests__/utils/test-helpers";
+import { getCurrentUser } from "@/lib/auth";
+import { startTrial } from "@/lib/subscription/trial";
+import { startFreeTrial } from "../subscription";
+
+vi.mock("@/lib/subscription/trial", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/subscription/trial")>()),
+  startTrial: vi.fn(),
+}));
+
+const mockGetCurrentUser = vi.mocked(getCurrentUser);
+const mockStartTrial = vi.mocked(startTrial);
+const mockRevalidatePath = vi.mocked(revalidatePath);
+
+function buildUser(overrides: Partial<SafeUser> = {}): SafeUser {
+  return {
+    ...createMockUser({ id: "user-1", role: "AGENT" }),
+    subscriptionTier: "FREE",
+    bio: null,
+    licenseId: null,
+    website: null,
+    brandColor: null,
+    logoUrl: null,
+    ...overrides,
+  };
+}
+
+describe("startFreeTrial", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetCurrentUser.mockResolvedValue(buildUser());
+  });
+
+  it("should start the trial for an agent on the free plan", async () => {
+    mockStartTrial.mockResolvedValue(true);
+
+    const result = await startFreeTrial("PLUS");
+
+    expect(result).toEqual({ success: true });
+    expect(mockStartTrial).toHaveBeenCalledWith("user-1", "PLUS");
+    expect(mockRevalidatePath).toHaveBeenCalledWith("/dashboard/suscripcion");
+  });
+
+  it("should reject a second trial", async () => {
+    mockStartTrial.mockResolvedValue(false);
+
+    const result = await startFreeTrial("BUSINESS");
+
+    expect(result).toEqual({
+      success: false,
+      error: "Ya usaste tu prueba gratis de 14 días",
+    });
+    expect(mockRevalidatePath).not.toHaveBeenCalled();
+  });
+
+  it("should reject tiers without a trial", async () => {
+    const result = await startFreeTrial("PRO");
+
+    expect(result.success).toBe(false);
+    expect(mockStartTrial).not.toHaveBeenCalled();
+  });
+
+  it("should reject unauthenticated users and clients", async () => {
+    mockGetCurrentUser
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(buildUser({ role: "CLIENT" }));
+
+    expect(await startFreeTrial("PLUS")).toEqual({
+      success: false,
+      error: "No autenticado",
+    });
+    expect((await startFreeTrial("PLUS")).success).toBe(false);
+    expect(mockStartTrial).not.toHaveBeenCalled();
+  });
+
+  it("should reject agents already on a paid plan", async () => {
+    mockGetCurrentUser.mockResolvedValue(
+      buildUser({ subscriptionTier: "PLUS" }),
+    );
+
+    const result = await startFreeTrial("BUSINESS");
+
+    expect(result).toEqual({ success: false, error: "Ya tienes un plan pago" });
+    expect(mockStartTrial).not.toHaveBeenCalled();
+  });
+});
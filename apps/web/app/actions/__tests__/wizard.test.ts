@@ -0,0 +1,188 @@
+/**
+ * TESTS - Wizard draft actions
+ *
+ * Tests for saveWizardDraftAction and deleteWizardDraftAction
+ */
+
+// Import mocked modules to get access to their mocked functions
+import { propertyDraftRepository } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockUser } from "@/__tests__/utils/test-helpers";
+import { requireRole } from "@/lib/auth";
+import { deletePropertyImage } from "@/lib/storage/client";
+import { deleteWizardDraftAction, saveWizardDraftAction } from "../wizard";
+
+// Get mocked functions
+const mockRequireRole = vi.mocked(requireRole);
+const mockRevalidatePath = vi.mocked(revalidatePath);
+const mockDeletePropertyImage = vi.mocked(deletePropertyImage);
+const mockDraftRepository = vi.mocked(propertyDraftRepository);
+
+describe("Wizard draft actions", () => {
+  const mockUser = createMockUser({ role: "AGENT" });
+  const draftId = "123e4567-e89b-12d3-a456-426614174000";
+
+  const mockDraft = {
+    id: draftId,
+    agentId: mockUser.id,
+    title: "Casa moderna",
+    data: { title: "Casa moderna" },
+    imageUrls: [
+      `https://test.supabase.co/storage/v1/object/public/property-images/${mockUser.id}/1-a.webp`,
+      "https://test.supabase.co/storage/v1/object/public/property-images/other-agent/2-b.webp",
+    ],
+    currentStep: 4,
+    createdAt: new Date("2026-01-10T10:00:00Z"),
+    updatedAt: new Date("2026-01-10T12:00:00Z"),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Default behavior: user is authenticated as AGENT with no drafts
+    mockRequireRole.mockResolvedValue(mockUser as never);
+    mockDraftRepository.countByAgent.mockResolvedValue(0);
+  });
+
+  describe("saveWizardDraftAction", () => {
+    it("should create a draft on the first save", async () => {
+      mockDraftRepository.save.mockResolvedValue(mockDraft);
+
+      const result = await saveWizardDraftAction({
+        currentStep: 2,
+        imageUrls: [],
+        data: { title: "Casa", price: 150000, latitude: null },
+      });
+
+      expect(mockRequireRole).toHaveBeenCalledWith(["AGENT", "ADMIN"]);
+      expect(mockDraftRepository.save).toHaveBeenCalledWith({
+        id: undefined,
+        agentId: mockUser.id,
+        data: {
+          title: "Casa",
+          price: 150000,
+          latitude: undefined,
+          longitude: undefined,
+        },
+        imageUrls: [],
+        currentStep: 2,
+      });
+      expect(result).toEqual({
+        success: true,
+        draftId,
+        updatedAt: mockDraft.updatedAt.toISOString(),
+      });
+      expect(mockRevalidatePath).toHaveBeenCalledWith("/dashboard/propiedades");
+    });
+
+    it("should enforce the maximum number of drafts for new drafts", async () => {
+      mockDraftRepository.countByAgent.mockResolvedValue(20);
+
+      const result = await saveWizardDraftAction({
+        currentStep: 1,
+        imageUrls: [],
+        data: { title: "Casa" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockDraftRepository.save).not.toHaveBeenCalled();
+    });
+
+    it("should not check the limit when updating an existing draft", async () => {
+      mockDraftRepository.save.mockResolvedValue(mockDraft);
+
+      await saveWizardDraftAction({
+        draftId,
+        currentStep: 3,
+        imageUrls: [],
+        data: { title: "Casa" },
+      });
+
+      expect(mockDraftRepository.countByAgent).not.toHaveBeenCalled();
+      expect(mockDraftRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: draftId }),
+      );
+    });
+
+    it("should flag drafts deleted elsewhere", async () => {
+      mockDraftRepository.save.mockRejectedValue(
+        new Error("Borrador no encontrado"),
+      );
+
+      const result = await saveWizardDraftAction({
+        draftId,
+        currentStep: 3,
+        imageUrls: [],
+        data: { title: "Casa" },
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: "Borrador no encontrado",
+        draftNotFound: true,
+      });
+    });
+
+    it("should reject invalid image URLs", async () => {
+      const result = await saveWizardDraftAction({
+        currentStep: 4,
+        imageUrls: ["not-a-url"],
+        data: {},
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockDraftRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteWizardDraftAction", () => {
+    it("should reject invalid UUID format", async () => {
+      const result = await deleteWizardDraftAction("invalid-id");
+
+      expect(result).toEqual({
+        success: false,
+        error: "ID de borrador inválido",
+      });
+      expect(mockDraftRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it("should delete the draft and only the agent's own uploads", async () => {
+      mockDraftRepository.findByIdForAgent.mockResolvedValue(mockDraft);
+      mockDraftRepository.delete.mockResolvedValue({ count: 1 });
+
+      const result = await deleteWizardDraftAction(draftId);
+
+      expect(result).toEqual({ success: true });
+      expect(mockDraftRepository.delete).toHaveBeenCalledWith(
+        draftId,
+        mockUser.id,
+      );
+      expect(mockDeletePropertyImage).toHaveBeenCalledTimes(1);
+      expect(mockDeletePropertyImage).toHaveBeenCalledWith(
+        mockDraft.imageUrls[0],
+      );
+    });
+
+    it("should still succeed when an image cannot be removed", async () => {
+      mockDraftRepository.findByIdForAgent.mockResolvedValue(mockDraft);
+      mockDraftRepository.delete.mockResolvedValue({ count: 1 });
+      mockDeletePropertyImage.mockRejectedValue(new Error("Storage down"));
+
+      const result = await deleteWizardDraftAction(draftId);
+
+      expect(result).toEqual({ success: true });
+    });
+
+    it("should return an error when the draft does not exist", async () => {
+      mockDraftRepository.findByIdForAgent.mockResolvedValue(null);
+
+      const result = await deleteWizardDraftAction(draftId);
+
+      expect(result).toEqual({
+        success: false,
+        error: "Borrador no encontrado",
+      });
+    });
+  });
+});
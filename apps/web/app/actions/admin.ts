@@ -14,11 +14,24 @@ import type {
   PropertyStatus,
   SubscriptionTier,
   UserRole,
+  WebhookEventStatus,
 } from "@prisma/client";
-import { db, propertyRepository, userRepository } from "@repo/database";
+import {
+  createdAtKeysetWhere,
+  createdAtNextCursor,
+  db,
+  decodeCursor,
+  type EstimatedTotal,
+  estimateTotal,
+  propertyRepository,
+  userRepository,
+  type WebhookEventRecord,
+  webhookEventRepository,
+} from "@repo/database";
 import { revalidatePath } from "next/cache";
 import { requireRole } from "@/lib/auth";
 import { validateCSRFToken, isCSRFError } from "@/lib/csrf";
+import { processWebhookEvent } from "@/lib/payments/lemonsqueezy-webhooks";
 import { logger } from "@/lib/utils/logger";
 
 // ==================== TYPES ====================
@@ -72,22 +85,33 @@ export interface PropertyWithAgent {
   };
 }
 
+/**
+ * Página de una tabla admin: número de página + cursor keyset
+ * - total estimado (ver estimateTotal) en lugar de count() exacto
+ * - nextCursor: siguiente página por (createdAt, id), null en la última
+ */
+export type AdminPage<TKey extends string, TItem> = Record<TKey, TItem[]> &
+  EstimatedTotal & { nextCursor: string | null };
+
 // ==================== USER MANAGEMENT ====================
 
 /**
  * Obtiene lista de usuarios con conteos
  * Solo ADMIN puede acceder
+ *
+ * Con cursor (botón "Siguiente") pagina por keyset e ignora skip
  */
 export async function getUsersAction(params?: {
   role?: UserRole;
   search?: string;
   skip?: number;
   take?: number;
-}): Promise<{ users: UserWithCounts[]; total: number }> {
+  cursor?: string | null;
+}): Promise<AdminPage<"users", UserWithCounts>> {
   // Verificar permisos
   await requireRole(["ADMIN"]);
 
-  const { role, search, skip = 0, take = 20 } = params || {};
+  const { role, search, skip = 0, take = 20, cursor } = params || {};
 
   const where = {
     ...(role && { role }),
@@ -99,9 +123,12 @@ export async function getUsersAction(params?: {
     }),
   };
 
-  const [users, total] = await Promise.all([
+  const cursorValues = decodeCursor(cursor, "newest");
+  const keysetWhere = cursorValues && createdAtKeysetWhere(cursorValues);
+
+  const [rows, estimate] = await Promise.all([
     db.user.findMany({
-      where,
+      where: keysetWhere ? { AND: [where, keysetWhere] } : where,
       select: {
         id: true,
         email: true,
@@ -119,14 +146,24 @@ export async function getUsersAction(params?: {
           },
         },
       },
-      skip,
-      take,
-      orderBy: { createdAt: "desc" },
+      ...(!keysetWhere && { skip }),
+      take: take + 1,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    }),
+    estimateTotal({
+      table: "users",
+      filtered: Boolean(role || search),
+      countUpTo: (limit) => db.user.count({ where, take: limit }),
     }),
-    db.user.count({ where }),
   ]);
 
-  return { users, total };
+  const users = rows.slice(0, take);
+
+  return {
+    users,
+    ...estimate,
+    nextCursor: createdAtNextCursor(users, rows.length > take),
+  };
 }
 
 /**
@@ -305,6 +342,8 @@ export async function deleteUserAction(
 /**
  * Obtiene todas las propiedades con información del agente
  * Solo ADMIN puede acceder
+ *
+ * Con cursor (botón "Siguiente") pagina por keyset e ignora skip
  */
 export async function getAllPropertiesAction(params?: {
   status?: PropertyStatus;
@@ -312,10 +351,11 @@ export async function getAllPropertiesAction(params?: {
   agentId?: string;
   skip?: number;
   take?: number;
-}): Promise<{ properties: PropertyWithAgent[]; total: number }> {
+  cursor?: string | null;
+}): Promise<AdminPage<"properties", PropertyWithAgent>> {
   await requireRole(["ADMIN"]);
 
-  const { status, search, agentId, skip = 0, take = 20 } = params || {};
+  const { status, search, agentId, skip = 0, take = 20, cursor } = params || {};
 
   const where = {
     ...(status && { status }),
@@ -329,9 +369,12 @@ export async function getAllPropertiesAction(params?: {
     }),
   };
 
-  const [properties, total] = await Promise.all([
+  const cursorValues = decodeCursor(cursor, "newest");
+  const keysetWhere = cursorValues && createdAtKeysetWhere(cursorValues);
+
+  const [rows, estimate] = await Promise.all([
     db.property.findMany({
-      where,
+      where: keysetWhere ? { AND: [where, keysetWhere] } : where,
       select: {
         id: true,
         title: true,
@@ -356,20 +399,30 @@ export async function getAllPropertiesAction(params?: {
           },
         },
       },
-      skip,
-      take,
-      orderBy: { createdAt: "desc" },
+      ...(!keysetWhere && { skip }),
+      take: take + 1,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    }),
+    estimateTotal({
+      table: "properties",
+      filtered: Boolean(status || search || agentId),
+      countUpTo: (limit) => db.property.count({ where, take: limit }),
     }),
-    db.property.count({ where }),
   ]);
 
+  const properties = rows.slice(0, take);
+
   // Convertir Decimal a number para serialización
   const serializedProperties = properties.map((p) => ({
     ...p,
     price: Number(p.price),
   }));
 
-  return { properties: serializedProperties, total };
+  return {
+    properties: serializedProperties,
+    ...estimate,
+    nextCursor: createdAtNextCursor(properties, rows.length > take),
+  };
 }
 
 /**
@@ -570,3 +623,83 @@ export async function getAdminMetricsByPeriodAction(
     appointments: groupByDate(appointments),
   };
 }
+
+// ==================== WEBHOOKS ====================
+
+/**
+ * Lista los webhooks de pagos recibidos (ledger) con conteo por estado
+ * Solo ADMIN puede acceder
+ */
+export async function getWebhookEventsAction(params?: {
+  status?: WebhookEventStatus;
+  search?: string;
+}): Promise<{
+  events: WebhookEventRecord[];
+  counts: Record<WebhookEventStatus, number>;
+}> {
+  await requireRole(["ADMIN"]);
+
+  const [events, counts] = await Promise.all([
+    webhookEventRepository.list({
+      status: params?.status,
+      search: params?.search,
+    }),
+    webhookEventRepository.countByStatus(),
+  ]);
+
+  return { events, counts };
+}
+
+/**
+ * Reintenta un webhook fallido
+ * Solo ADMIN puede acceder
+ *
+ * A diferencia del replay automático, ignora el límite de intentos
+ */
+export async function replayWebhookEventAction(
+  eventId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const admin = await requireRole(["ADMIN"]);
+
+  try {
+    const event = await webhookEventRepository.findById(eventId);
+    if (!event) {
+      return { success: false, error: "Evento no encontrado" };
+    }
+
+    if (event.status !== "FAILED" && event.status !== "PENDING") {
+      return {
+        success: false,
+        error: "Solo se pueden reintentar eventos pendientes o fallidos",
+      };
+    }
+
+    const result = await processWebhookEvent(event);
+
+    revalidatePath("/admin/webhooks");
+
+    if (result === "busy") {
+      return { success: false, error: "El evento ya se está procesando" };
+    }
+    if (result === "failed") {
+      return { success: false, error: "El evento volvió a fallar" };
+    }
+
+    logger.info(
+      { webhookEventId: eventId, result, adminId: admin.id },
+      "[Admin] Webhook event replayed",
+    );
+
+    return { success: true };
+  } catch (error) {
+    logger.error(
+      { err: error, webhookEventId: eventId, adminId: admin.id },
+      "[Admin] Error replaying webhook event",
+    );
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Error al reintentar evento",
+    };
+  }
+}
@@ -17,6 +17,7 @@ import {
   parseSearchQuery,
 } from "@/lib/ai/search-parser";
 import { getCurrentUser } from "@/lib/auth";
+import { type AmenityId, parseAmenities } from "@/lib/constants/amenities";
 import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
 import { logger } from "@/lib/utils/logger";
 
@@ -52,6 +53,7 @@ export interface AISearchResult {
     priceRange?: string;
     bedrooms?: number;
     features?: string[];
+    amenities?: AmenityId[]; // Canonical ids applied as filters
   };
   totalResults?: number;
   confidence?: number;
@@ -185,8 +187,9 @@ export async function aiSearchAction(query: string): Promise<AISearchResult> {
     logger.debug({ whereClause }, "🔧 Prisma WHERE clause");
 
     // Query the database
+    // Only published listings (scheduled and archived ones are not public)
     const properties = await db.property.findMany({
-      where: whereClause,
+      where: { ...whereClause, visibility: "PUBLISHED" },
       select: {
         id: true,
         title: true,
@@ -243,6 +246,11 @@ export async function aiSearchAction(query: string): Promise<AISearchResult> {
       filterSummary.bedrooms = parseResult.filters.bedrooms;
     if (parseResult.filters.features)
       filterSummary.features = parseResult.filters.features;
+    const amenities = parseAmenities([
+      ...(parseResult.filters.features ?? []),
+      ...(parseResult.filters.amenities ?? []),
+    ]);
+    if (amenities.length > 0) filterSummary.amenities = amenities;
 
     // Generate suggestions for no-results or low-confidence cases
     const suggestions: string[] = [];
@@ -10,17 +10,27 @@
 
 "use server";
 
-import { getCurrentUser } from "@/lib/auth";
-import { validateAppointmentDateTime } from "@/lib/constants/availability";
+import { getCurrentUser, requireRole } from "@/lib/auth";
+import { getCalendarFeedUrl } from "@/lib/calendar/ics";
+import {
+    getHoursForDate,
+    validateAppointmentDateTime,
+} from "@/lib/constants/availability";
 import { isCSRFError, validateCSRFToken } from "@/lib/csrf";
 import {
     sendAppointmentCancelledEmail,
     sendAppointmentConfirmedEmail,
     sendAppointmentCreatedEmail,
+    sendAppointmentRescheduledEmail,
 } from "@/lib/email/appointment-emails";
 import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
 import { logger } from "@/lib/utils/logger";
-import { AppointmentRepository, PropertyRepository } from "@repo/database";
+import {
+    AppointmentRepository,
+    availabilityRepository,
+    PropertyRepository,
+    userRepository,
+} from "@repo/database";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
@@ -28,15 +38,8 @@ import { z } from "zod";
 
 const createAppointmentSchema = z.object({
   propertyId: z.string().uuid("Invalid property ID format"),
-  scheduledAt: z.coerce.date().refine(
-    (date) => {
-      const validation = validateAppointmentDateTime(date);
-      return validation.valid;
-    },
-    {
-      message: "Invalid appointment date or time",
-    },
-  ),
+  // El horario se valida contra la disponibilidad del agente (ver paso 4.5)
+  scheduledAt: z.coerce.date(),
   notes: z.string().max(500).optional(),
   // UTM Tracking (optional)
   utmSource: z.string().max(100).optional(),
@@ -49,6 +52,13 @@ const updateAppointmentStatusSchema = z.object({
   status: z.enum(["CONFIRMED", "CANCELLED"]),
 });
 
+const rescheduleAppointmentSchema = z.object({
+  id: z.string().uuid("Invalid appointment ID format"),
+  // El nuevo horario se valida contra la disponibilidad del agente
+  scheduledAt: z.coerce.date(),
+  reason: z.string().max(500).optional(),
+});
+
 const getAvailableSlotsSchema = z.object({
   propertyId: z.string().uuid("Invalid property ID format"),
   date: z.coerce.date(),
@@ -134,11 +144,27 @@ export async function createAppointmentAction(formData: {
       throw new Error("Property not found");
     }
 
+    // 4.5 Validar contra el horario del agente (reglas semanales + días bloqueados)
+    const schedule = await availabilityRepository.getScheduleForProperty(
+      validatedData.propertyId,
+    );
+    if (!schedule) {
+      throw new Error("Property not found");
+    }
+    const dateValidation = validateAppointmentDateTime(
+      validatedData.scheduledAt,
+      schedule,
+    );
+    if (!dateValidation.valid) {
+      throw new Error(dateValidation.error || "Invalid appointment date or time");
+    }
+
     // 5. Verificar disponibilidad del horario
     const appointmentRepository = new AppointmentRepository();
     const isAvailable = await appointmentRepository.isSlotAvailable(
       validatedData.propertyId,
       validatedData.scheduledAt,
+      { durationMinutes: schedule.visitDurationMinutes },
     );
     if (!isAvailable) {
       throw new Error(
@@ -153,6 +179,7 @@ export async function createAppointmentAction(formData: {
       agentId: property.agentId,
       scheduledAt: validatedData.scheduledAt,
       notes: validatedData.notes,
+      durationMinutes: schedule.visitDurationMinutes,
     });
 
     // 6.5 Create or update AgentClient for CRM tracking
@@ -183,7 +210,10 @@ export async function createAppointmentAction(formData: {
       propertyTitle: property.title,
       propertyAddress: property.address || "Address not specified",
       appointmentDate: validatedData.scheduledAt,
+      durationMinutes: appointment.durationMinutes,
       notes: validatedData.notes,
+      appointmentId: appointment.id,
+      propertyId: validatedData.propertyId,
     });
 
     // Log if email failed (but don't fail the appointment creation)
@@ -342,6 +372,10 @@ export async function updateAppointmentStatusAction(data: {
         propertyAddress:
           appointment.property.address || "Address not specified",
         appointmentDate: appointment.scheduledAt,
+        durationMinutes: appointment.durationMinutes,
+        notes: appointment.notes ?? undefined,
+        appointmentId: appointment.id,
+        propertyId: appointment.propertyId,
       });
     } else {
       emailResult = await sendAppointmentCancelledEmail(
@@ -402,10 +436,265 @@ export async function updateAppointmentStatusAction(data: {
   }
 }
 
+/**
+ * RESCHEDULE APPOINTMENT ACTION
+ * Cliente o agente cambia el horario de una cita pendiente o confirmada
+ * - Si la reprograma el cliente, la cita vuelve a PENDING (el agente confirma de nuevo)
+ * - Si la reprograma el agente, se mantiene el estado actual
+ *
+ * @param id ID de la cita
+ * @param scheduledAt Nuevo horario (ISO string)
+ * @param reason Motivo opcional (se incluye en el email)
+ * @returns { success: boolean, error?: string, warning?: string }
+ *
+ * @example
+ * const { success } = await rescheduleAppointmentAction({
+ *   id: 'apt-id',
+ *   scheduledAt: '2024-01-16T15:00:00.000Z',
+ * });
+ */
+export async function rescheduleAppointmentAction(data: {
+  id: string;
+  scheduledAt: string;
+  reason?: string;
+  csrfToken?: string | null;
+}) {
+  try {
+    // 1. CSRF Protection (critical state-changing operation)
+    if (data.csrfToken) {
+      try {
+        await validateCSRFToken(data.csrfToken);
+      } catch (error) {
+        if (isCSRFError(error)) {
+          throw new Error(error.message);
+        }
+        throw error;
+      }
+    } else {
+      logger.warn(
+        { appointmentId: data.id },
+        "rescheduleAppointmentAction called without CSRF token"
+      );
+    }
+
+    // 2. Validar input
+    const validatedData = rescheduleAppointmentSchema.parse({
+      id: data.id,
+      scheduledAt: new Date(data.scheduledAt),
+      reason: data.reason?.trim() || undefined,
+    });
+
+    // 3. Obtener usuario actual
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new Error("Authentication required");
+    }
+
+    // 3.5 Rate limiting (mismo límite que agendar)
+    try {
+      await enforceRateLimit({ userId: user.id, tier: "appointment" });
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        logger.warn({ userId: user.id, tier: "appointment" }, "[Appointment] Rate limit exceeded");
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+
+    // 4. Obtener cita
+    const appointmentRepository = new AppointmentRepository();
+    const appointment = await appointmentRepository.getAppointmentById(
+      validatedData.id,
+    );
+    if (!appointment) {
+      throw new Error("Appointment not found");
+    }
+
+    // 5. Verificar autorización: usuario debe ser agente o cliente de la cita
+    const isAgent = appointment.agentId === user.id;
+    const isClient = appointment.userId === user.id;
+
+    if (!isAgent && !isClient) {
+      // Logging de seguridad
+      logger.warn({
+        userId: user.id,
+        appointmentId: validatedData.id,
+        appointmentAgentId: appointment.agentId,
+        appointmentClientId: appointment.userId,
+        layer: "server-action",
+      }, "[SECURITY] Unauthorized appointment access attempt");
+      throw new Error("You are not authorized to manage this appointment");
+    }
+
+    // 6. Solo citas activas
+    if (appointment.status !== "PENDING" && appointment.status !== "CONFIRMED") {
+      throw new Error(
+        `Cannot reschedule an appointment with status ${appointment.status}`,
+      );
+    }
+
+    // 7. Validar contra el horario del agente (reglas semanales + días bloqueados)
+    const schedule = await availabilityRepository.getScheduleForProperty(
+      appointment.propertyId,
+    );
+    if (!schedule) {
+      throw new Error("Property not found");
+    }
+    // La cita conserva la duración con la que se agendó
+    const dateValidation = validateAppointmentDateTime(
+      validatedData.scheduledAt,
+      { ...schedule, visitDurationMinutes: appointment.durationMinutes },
+    );
+    if (!dateValidation.valid) {
+      throw new Error(dateValidation.error || "Invalid appointment date or time");
+    }
+
+    // 8. Verificar disponibilidad del nuevo horario (sin contar la propia cita)
+    const isAvailable = await appointmentRepository.isSlotAvailable(
+      appointment.propertyId,
+      validatedData.scheduledAt,
+      {
+        excludeAppointmentId: appointment.id,
+        durationMinutes: appointment.durationMinutes,
+      },
+    );
+    if (!isAvailable) {
+      throw new Error(
+        "This time slot is no longer available. Please choose another time.",
+      );
+    }
+
+    // 9. Reprogramar (guarda el horario anterior en el historial)
+    const rescheduledBy = isClient && !isAgent ? "client" : "agent";
+    const newStatus =
+      rescheduledBy === "client" ? "PENDING" : appointment.status;
+
+    const updated = await appointmentRepository.rescheduleAppointment(
+      validatedData.id,
+      {
+        scheduledAt: validatedData.scheduledAt,
+        rescheduledById: user.id,
+        reason: validatedData.reason,
+        status: newStatus,
+      },
+    );
+
+    // 10. Enviar email de notificación
+    const emailResult = await sendAppointmentRescheduledEmail(
+      {
+        clientName: appointment.user.name || "Cliente",
+        clientEmail: appointment.user.email,
+        agentName: appointment.agent.name || "Agente",
+        agentEmail: appointment.agent.email,
+        propertyTitle: appointment.property.title,
+        propertyAddress:
+          appointment.property.address || "Address not specified",
+        appointmentDate: updated.scheduledAt,
+        durationMinutes: updated.durationMinutes,
+        notes: appointment.notes ?? undefined,
+        appointmentId: appointment.id,
+        propertyId: appointment.propertyId,
+      },
+      {
+        previousDate: appointment.scheduledAt,
+        rescheduledBy,
+        status: newStatus,
+        // Motivo ya sanitizado por el repositorio
+        reason: updated.reschedules[0]?.reason ?? undefined,
+      },
+    );
+
+    // Log if email failed (but don't fail the reschedule)
+    if (!emailResult.success) {
+      logger.warn({
+        appointmentId: validatedData.id,
+        error: emailResult.error,
+      }, "[rescheduleAppointmentAction] Email notification failed");
+    }
+
+    // 11. Revalidar rutas
+    revalidatePath("/dashboard/citas");
+    revalidatePath("/perfil/citas");
+
+    return {
+      success: true,
+      status: newStatus,
+      // Include warning if email failed
+      warning: !emailResult.success
+        ? "Appointment rescheduled but email notification failed"
+        : undefined,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: "Invalid input data",
+      };
+    }
+
+    if (error instanceof Error) {
+      logger.error({ err: error }, "[rescheduleAppointmentAction] Failed");
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: false,
+      error: "Failed to reschedule appointment",
+    };
+  }
+}
+
+/**
+ * Parsear la fecha del calendario
+ * "yyyy-MM-dd" se interpreta como medianoche local (no UTC) para que
+ * el día de la semana coincida con el que eligió el usuario
+ */
+function parseCalendarDate(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+}
+
+/**
+ * GET AVAILABILITY SCHEDULE ACTION
+ * Obtener el horario efectivo del agente para una propiedad
+ * Sin autenticación requerida (es público)
+ * Usado por el formulario de citas para deshabilitar días sin visitas
+ *
+ * @returns { success: boolean, schedule?: AvailabilitySchedule, error?: string }
+ */
+export async function getAvailabilityScheduleAction(propertyId: string) {
+  try {
+    const validatedId = z
+      .string()
+      .uuid("Invalid property ID format")
+      .parse(propertyId);
+
+    const schedule =
+      await availabilityRepository.getScheduleForProperty(validatedId);
+    if (!schedule) {
+      return { success: false, error: "Property not found" };
+    }
+
+    return { success: true, schedule };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid property ID" };
+    }
+
+    logger.error({ err: error }, "[getAvailabilityScheduleAction] Failed");
+    return { success: false, error: "Failed to fetch availability" };
+  }
+}
+
 /**
  * GET AVAILABLE SLOTS ACTION
  * Obtener horarios disponibles para una fecha específica
  * Sin autenticación requerida (es público)
+ * Respeta el horario del agente (reglas semanales, overrides y días bloqueados)
  *
  * @param propertyId ID de la propiedad
  * @param date Fecha a consultar
@@ -420,20 +709,33 @@ export async function updateAppointmentStatusAction(data: {
  */
 export async function getAvailableSlotsAction(data: {
   propertyId: string;
-  date: string; // ISO string
+  date: string; // yyyy-MM-dd o ISO string
 }) {
   try {
     // 1. Validar input
     const validatedData = getAvailableSlotsSchema.parse({
       propertyId: data.propertyId,
-      date: new Date(data.date),
+      date: parseCalendarDate(data.date),
     });
 
-    // 2. Obtener slots disponibles
+    // 2. Horas que ofrece el agente ese día
+    const schedule = await availabilityRepository.getScheduleForProperty(
+      validatedData.propertyId,
+    );
+    if (!schedule) {
+      return {
+        success: false,
+        slots: [],
+        error: "Property not found",
+      };
+    }
+
+    // 3. Obtener slots disponibles (sin las horas ya reservadas)
     const appointmentRepository = new AppointmentRepository();
     const slots = await appointmentRepository.getAvailableSlots(
       validatedData.propertyId,
       validatedData.date,
+      getHoursForDate(validatedData.date, schedule),
     );
 
     return {
@@ -575,3 +877,31 @@ export async function getUserAppointmentsAction() {
     };
   }
 }
+
+/**
+ * REGENERATE CALENDAR FEED ACTION
+ * Genera (o regenera) el token secreto del feed ICS del agente
+ * Regenerar invalida las suscripciones existentes
+ *
+ * @returns { success: boolean, feedUrl?: string, error?: string }
+ */
+export async function regenerateCalendarFeedAction() {
+  try {
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    const token = await userRepository.rotateCalendarFeedToken(user.id);
+
+    revalidatePath("/dashboard/citas");
+
+    return {
+      success: true,
+      feedUrl: getCalendarFeedUrl(token),
+    };
+  } catch (error) {
+    logger.error({ err: error }, "[regenerateCalendarFeedAction] Failed");
+    return {
+      success: false,
+      error: "No se pudo generar el enlace del calendario",
+    };
+  }
+}
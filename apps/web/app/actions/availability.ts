@@ -0,0 +1,212 @@
+/**
+ * SERVER ACTIONS - Availability
+ *
+ * Server Actions para el horario de visitas del agente
+ * - Reglas semanales generales y overrides por propiedad
+ * - Días bloqueados (vacaciones, feriados)
+ * - Solo AGENT/ADMIN, siempre sobre sus propios datos
+ */
+
+"use server";
+
+import { availabilityRepository } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import { logger } from "@/lib/utils/logger";
+
+// ==================== SCHEMAS ====================
+
+const weeklyRuleSchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(1).max(24),
+  })
+  .refine((rule) => rule.startHour < rule.endHour, {
+    message: "La hora de inicio debe ser anterior a la hora de fin",
+  });
+
+const saveWeeklyRulesSchema = z.object({
+  propertyId: z.string().uuid("Invalid property ID format").nullable(),
+  rules: z.array(weeklyRuleSchema).max(50),
+});
+
+const addBlackoutDateSchema = z.object({
+  propertyId: z.string().uuid("Invalid property ID format").nullable(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida")
+    .refine((date) => !Number.isNaN(new Date(date).getTime()), {
+      message: "Fecha inválida",
+    }),
+  reason: z.string().trim().max(120).optional(),
+});
+
+const blackoutIdSchema = z.string().uuid("Invalid blackout date ID format");
+
+const saveVisitDurationSchema = z.object({
+  propertyId: z.string().uuid("Invalid property ID format"),
+  minutes: z
+    .number()
+    .int()
+    .min(15, "Duración de visita inválida")
+    .max(480, "Duración de visita inválida")
+    .refine((minutes) => minutes % 15 === 0, {
+      message: "Duración de visita inválida",
+    }),
+});
+
+// ==================== ACTIONS ====================
+
+/**
+ * SAVE WEEKLY RULES ACTION
+ * Reemplaza el horario semanal del agente (propertyId = null)
+ * o el override de una propiedad (rules vacío = usar horario general)
+ *
+ * @example
+ * await saveWeeklyRulesAction({
+ *   propertyId: null,
+ *   rules: [{ dayOfWeek: 6, startHour: 9, endHour: 14 }],
+ * });
+ */
+export async function saveWeeklyRulesAction(input: {
+  propertyId: string | null;
+  rules: { dayOfWeek: number; startHour: number; endHour: number }[];
+}) {
+  try {
+    const validatedData = saveWeeklyRulesSchema.parse(input);
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    const rules = await availabilityRepository.replaceWeeklyRules(
+      user.id,
+      validatedData.propertyId,
+      validatedData.rules,
+    );
+
+    revalidatePath("/dashboard/citas");
+
+    return { success: true, data: rules };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0]?.message ?? "Horario inválido",
+      };
+    }
+
+    logger.error({ err: error }, "[saveWeeklyRulesAction] Failed");
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Error al guardar el horario",
+    };
+  }
+}
+
+/**
+ * SAVE VISIT DURATION ACTION
+ * Duración de las visitas de una propiedad (minutos, múltiplo de 15)
+ * Las citas ya agendadas conservan su duración
+ */
+export async function saveVisitDurationAction(input: {
+  propertyId: string;
+  minutes: number;
+}) {
+  try {
+    const validatedData = saveVisitDurationSchema.parse(input);
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    await availabilityRepository.setVisitDuration(
+      user.id,
+      validatedData.propertyId,
+      validatedData.minutes,
+    );
+
+    revalidatePath("/dashboard/citas");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0]?.message ?? "Duración de visita inválida",
+      };
+    }
+
+    logger.error({ err: error }, "[saveVisitDurationAction] Failed");
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error al guardar la duración de la visita",
+    };
+  }
+}
+
+/**
+ * ADD BLACKOUT DATE ACTION
+ * Bloquea un día para todas las propiedades del agente o para una sola
+ */
+export async function addBlackoutDateAction(input: {
+  propertyId: string | null;
+  date: string; // yyyy-MM-dd
+  reason?: string;
+}) {
+  try {
+    const validatedData = addBlackoutDateSchema.parse(input);
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    const blackout = await availabilityRepository.addBlackoutDate({
+      agentId: user.id,
+      propertyId: validatedData.propertyId,
+      date: validatedData.date,
+      reason: validatedData.reason || null,
+    });
+
+    revalidatePath("/dashboard/citas");
+
+    return { success: true, data: blackout };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0]?.message ?? "Datos inválidos",
+      };
+    }
+
+    logger.error({ err: error }, "[addBlackoutDateAction] Failed");
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Error al bloquear el día",
+    };
+  }
+}
+
+/**
+ * DELETE BLACKOUT DATE ACTION
+ */
+export async function deleteBlackoutDateAction(id: string) {
+  try {
+    const validatedId = blackoutIdSchema.parse(id);
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    await availabilityRepository.deleteBlackoutDate(validatedId, user.id);
+
+    revalidatePath("/dashboard/citas");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid blackout date ID" };
+    }
+
+    logger.error({ err: error }, "[deleteBlackoutDateAction] Failed");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error al eliminar",
+    };
+  }
+}
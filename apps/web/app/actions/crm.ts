@@ -2,20 +2,74 @@
  * CRM SERVER ACTIONS
  * 
  * Actions for managing AgentClient records:
- * - Update client status
- * - Update client notes
+ * - Update client status (pipeline move, recorded in stage history)
+ * - Activity log (notes, calls, WhatsApp, emails) - append-only
+ * - Follow-up tasks with due dates
  * - Create new client (from appointment/favorite/manual)
+ * - Bulk import from CSV/XLSX (dry-run preview + import)
  */
 
 "use server";
 
 import { requireRole } from "@/lib/auth";
-import type { LeadStatus } from "@/lib/types/crm";
+import {
+  CONTACT_FIELD_KEYS,
+  type ColumnMapping,
+  type ContactImportOutcome,
+  IMPORT_SOURCE,
+  MAX_IMPORT_ROWS,
+  planContactImport,
+} from "@/lib/crm/contact-import";
+import { LEAD_STATUSES, type LeadStatus } from "@/lib/types/crm";
+import {
+  agentClientRepository,
+  type LeadActivityType,
+  leadActivityRepository,
+} from "@repo/database";
 import { db } from "@repo/database/src/client";
 import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+const addActivitySchema = z.object({
+  type: z.enum(["NOTE", "CALL", "WHATSAPP", "EMAIL"]),
+  content: z
+    .string()
+    .trim()
+    .min(1, "Escribe el detalle de la actividad")
+    .max(2000, "Máximo 2000 caracteres"),
+});
+
+const createTaskSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Escribe la tarea")
+    .max(200, "Máximo 200 caracteres"),
+  dueAt: z.coerce.date({ invalid_type_error: "Fecha inválida" }),
+});
+
+const importContactsSchema = z.object({
+  rows: z
+    .array(z.array(z.string().max(5000)))
+    .min(1, "El archivo no tiene filas de datos")
+    .max(MAX_IMPORT_ROWS, `Máximo ${MAX_IMPORT_ROWS} filas por importación`),
+  mapping: z
+    .record(z.enum(CONTACT_FIELD_KEYS), z.number().int().min(0))
+    .refine((mapping) => mapping.email !== undefined, {
+      message: "Selecciona la columna de email",
+    }),
+  dryRun: z.boolean(),
+});
+
+function revalidateLead(agentClientId: string) {
+  revalidatePath("/dashboard");
+  revalidatePath("/dashboard/clientes");
+  revalidatePath(`/dashboard/clientes/${agentClientId}`);
+}
 
 /**
  * Update client lead status
+ * Used by the status dropdown and the pipeline board (drag & drop)
  */
 export async function updateClientStatusAction(
   agentClientId: string,
@@ -24,71 +78,134 @@ export async function updateClientStatusAction(
   try {
     const user = await requireRole(["AGENT", "ADMIN"]);
 
-    // Verify ownership
-    const agentClient = await db.agentClient.findFirst({
-      where: {
-        id: agentClientId,
-        agentId: user.id,
-      },
-    });
-
-    if (!agentClient) {
-      return { success: false, error: "Cliente no encontrado" };
+    if (!LEAD_STATUSES.includes(newStatus)) {
+      return { success: false, error: "Estado inválido" };
     }
 
-    // Update status
-    await db.agentClient.update({
-      where: { id: agentClientId },
-      data: { status: newStatus },
-    });
+    // Verifies ownership and records the stage change
+    await agentClientRepository.changeStatus(
+      agentClientId,
+      user.id,
+      newStatus,
+      user.id
+    );
 
     revalidatePath("/dashboard/clientes");
     return { success: true };
   } catch (error) {
+    if (error instanceof Error && error.message === "Cliente no encontrado") {
+      return { success: false, error: error.message };
+    }
     console.error("Error updating client status:", error);
     return { success: false, error: "Error al actualizar estado" };
   }
 }
 
 /**
- * Update client notes
+ * Add a note to the client
+ * Notes are appended to the activity log (previous notes are kept)
  */
 export async function updateClientNotesAction(
   agentClientId: string,
   notes: string
+): Promise<{ success: boolean; error?: string }> {
+  return addLeadActivityAction(agentClientId, { type: "NOTE", content: notes });
+}
+
+/**
+ * Log an activity for the client (note, call, WhatsApp, email)
+ * Append-only: activities can't be edited or deleted
+ */
+export async function addLeadActivityAction(
+  agentClientId: string,
+  input: { type: LeadActivityType; content: string }
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const user = await requireRole(["AGENT", "ADMIN"]);
+    const validatedData = addActivitySchema.parse(input);
 
-    // Verify ownership
-    const agentClient = await db.agentClient.findFirst({
-      where: {
-        id: agentClientId,
-        agentId: user.id,
-      },
+    await leadActivityRepository.addActivity({
+      agentClientId,
+      agentId: user.id,
+      type: validatedData.type,
+      content: validatedData.content,
+      createdById: user.id,
     });
 
-    if (!agentClient) {
-      return { success: false, error: "Cliente no encontrado" };
+    revalidateLead(agentClientId);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0]?.message ?? "Actividad inválida" };
+    }
+    if (error instanceof Error && error.message === "Cliente no encontrado") {
+      return { success: false, error: error.message };
     }
+    console.error("Error adding lead activity:", error);
+    return { success: false, error: "Error al registrar actividad" };
+  }
+}
 
-    // Update notes
-    await db.agentClient.update({
-      where: { id: agentClientId },
-      data: { notes },
+/**
+ * Create a follow-up task for the client
+ * Pending tasks are shown on the dashboard until completed
+ */
+export async function createLeadTaskAction(
+  agentClientId: string,
+  input: { title: string; dueAt: string }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireRole(["AGENT", "ADMIN"]);
+    const validatedData = createTaskSchema.parse(input);
+
+    await leadActivityRepository.createTask({
+      agentClientId,
+      agentId: user.id,
+      title: validatedData.title,
+      dueAt: validatedData.dueAt,
     });
 
-    revalidatePath("/dashboard/clientes");
+    revalidateLead(agentClientId);
     return { success: true };
   } catch (error) {
-    console.error("Error updating client notes:", error);
-    return { success: false, error: "Error al actualizar notas" };
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0]?.message ?? "Tarea inválida" };
+    }
+    if (error instanceof Error && error.message === "Cliente no encontrado") {
+      return { success: false, error: error.message };
+    }
+    console.error("Error creating lead task:", error);
+    return { success: false, error: "Error al crear tarea" };
+  }
+}
+
+/**
+ * Mark a follow-up task as done
+ */
+export async function completeLeadTaskAction(
+  taskId: string,
+  agentClientId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    await leadActivityRepository.completeTask(taskId, user.id);
+
+    revalidateLead(agentClientId);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof Error && error.message === "Tarea no encontrada") {
+      return { success: false, error: error.message };
+    }
+    console.error("Error completing lead task:", error);
+    return { success: false, error: "Error al completar tarea" };
   }
 }
 
 /**
  * Create or get AgentClient record
  * Called when a client interacts with an agent (appointment, favorite, etc.)
+ * Claims a contact the agent imported before the client signed up
  * 
  * Note: UTM fields require manual migration (see migrations/manual_utm_tracking.sql)
  */
@@ -131,6 +248,22 @@ export async function getOrCreateAgentClient(
       return { success: true, agentClientId: existing.id };
     }
 
+    // A contact the agent imported before the client signed up becomes their lead
+    const client = await db.user.findUnique({
+      where: { id: clientId },
+      select: { email: true },
+    });
+    const claimed =
+      client &&
+      (await agentClientRepository.claimImportedContact(
+        agentId,
+        clientId,
+        client.email
+      ));
+    if (claimed) {
+      return { success: true, agentClientId: claimed.id };
+    }
+
     // Create new relationship with UTM data
     const agentClient = await db.agentClient.create({
       data: {
@@ -139,6 +272,8 @@ export async function getOrCreateAgentClient(
         source,
         propertyId,
         status: "NEW",
+        // First entry of the pipeline history
+        stageChanges: { create: { toStatus: "NEW" } },
         // UTM fields added via manual migration (manual_utm_tracking.sql)
         ...(utmParams?.utmSource && {
           utmSource: utmParams.utmSource,
@@ -187,3 +322,119 @@ export async function deleteAgentClientAction(
     return { success: false, error: "Error al eliminar cliente" };
   }
 }
+
+/**
+ * Import contacts from a spreadsheet (CSV/XLSX parsed on the client)
+ *
+ * - dryRun: only returns the plan (create / duplicate / invalid per row)
+ * - Otherwise creates each contact as a lead, linked to the registered user
+ *   with that email like getOrCreateAgentClient, or with the contact data
+ *   stored on the lead itself, then applies the imported stage and note
+ * - The plan is always rebuilt on the server (never trust the preview)
+ *
+ * @param rows - Data rows, without the header row
+ */
+export async function importClientsAction(input: {
+  rows: string[][];
+  mapping: ColumnMapping;
+  dryRun: boolean;
+}): Promise<{
+  success: boolean;
+  error?: string;
+  outcomes?: ContactImportOutcome[];
+  imported?: number;
+}> {
+  try {
+    const user = await requireRole(["AGENT", "ADMIN"]);
+
+    const parsed = importContactsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.errors[0]?.message };
+    }
+    const { rows, mapping, dryRun } = parsed.data;
+
+    const [leads, properties] = await Promise.all([
+      agentClientRepository.listByAgent(user.id),
+      db.property.findMany({
+        where: { agentId: user.id },
+        select: { id: true, title: true },
+      }),
+    ]);
+
+    const outcomes = planContactImport(
+      rows,
+      mapping,
+      leads.map((lead) => ({
+        email: lead.contact.email,
+        phone: lead.contact.phone,
+      })),
+      properties,
+    ).map((outcome): ContactImportOutcome =>
+      outcome.action === "create" &&
+      outcome.contact.email === user.email.toLowerCase()
+        ? { ...outcome, action: "invalid", reason: "Es tu propio email" }
+        : outcome,
+    );
+
+    if (dryRun) {
+      return { success: true, outcomes };
+    }
+
+    let imported = 0;
+
+    for (const [index, outcome] of outcomes.entries()) {
+      if (outcome.action !== "create") continue;
+      const { contact } = outcome;
+
+      try {
+        // Linked to the registered user with that email, if any (never creates users)
+        const lead = await agentClientRepository.createImported(user.id, {
+          name: contact.name,
+          email: contact.email,
+          phone: contact.phone,
+          source: contact.source ?? IMPORT_SOURCE,
+          propertyId: outcome.propertyId,
+          utmSource: contact.utmSource,
+          utmMedium: contact.utmMedium,
+          utmCampaign: contact.utmCampaign,
+        });
+
+        if (contact.status && contact.status !== "NEW") {
+          await agentClientRepository.changeStatus(
+            lead.id,
+            user.id,
+            contact.status,
+            user.id
+          );
+        }
+
+        if (contact.notes) {
+          await leadActivityRepository.addActivity({
+            agentClientId: lead.id,
+            agentId: user.id,
+            type: "NOTE",
+            content: contact.notes,
+            createdById: user.id,
+          });
+        }
+
+        imported++;
+      } catch (error) {
+        console.error(`Error importing contact (row ${outcome.rowNumber}):`, error);
+        outcomes[index] = {
+          rowNumber: outcome.rowNumber,
+          action: "invalid",
+          contact,
+          reason: "No se pudo importar",
+        };
+      }
+    }
+
+    revalidatePath("/dashboard");
+    revalidatePath("/dashboard/clientes");
+    return { success: true, outcomes, imported };
+  } catch (error) {
+    console.error("Error importing clients:", error);
+    return { success: false, error: "Error al importar contactos" };
+  }
+}
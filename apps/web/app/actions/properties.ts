@@ -10,20 +10,33 @@
 "use server";
 
 import { requireOwnership, requireRole } from "@/lib/auth";
+import { PROPERTY_GRID_PAGE_SIZE } from "@/lib/constants/property-grid";
 import { isCSRFError, validateCSRFToken } from "@/lib/csrf";
+import { notifyPriceDrop } from "@/lib/favorites/price-drop-alerts";
 import {
     canAddVideo,
     canCreateProperty,
     canUploadImage,
+    getPropertyLimit,
 } from "@/lib/permissions/property-limits";
 import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
 import { deletePropertyImage, uploadPropertyImage } from "@/lib/storage/client";
 import { logger } from "@/lib/utils/logger";
+import { parseFilterParams } from "@/lib/utils/url-helpers";
 import {
     createPropertySchema,
     updatePropertySchema,
 } from "@/lib/validations/property";
-import { db, propertyImageRepository, propertyRepository } from "@repo/database";
+import {
+    db,
+    getPropertiesCursorPage,
+    listingLifecycleRepository,
+    planDowngradeRepository,
+    propertyImageRepository,
+    propertyRepository,
+    type PropertyVideoInput,
+    type SerializedProperty,
+} from "@repo/database";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 
@@ -178,7 +191,7 @@ export async function updatePropertyAction(
 
   // Extract videos from FormData (sent as JSON string)
   const videosJson = formData.get("videos") as string | null;
-  let videosToSave: Array<{ url: string; platform: string; title?: string }> = [];
+  let videosToSave: PropertyVideoInput[] = [];
   
   if (videosJson) {
     try {
@@ -188,44 +201,40 @@ export async function updatePropertyAction(
     }
   }
 
-  try {
-    // 4. Actualizar propiedad y videos en transacción
-    await db.$transaction(async (tx) => {
-      // Update property data
-      await tx.property.update({
-        where: { id },
-        data: updateData as any, // Cast needed for Prisma types
-      });
+  // Validate video limits before touching the property
+  if (videosJson !== null && videosToSave.length > 0) {
+    const videoCheck = canAddVideo(user.subscriptionTier, videosToSave.length);
+    if (!videoCheck.allowed) {
+      return {
+        error: { general: videoCheck.reason || "Límite de videos excedido" },
+      };
+    }
+  }
 
-      // If videos were sent, replace all existing videos
-      if (videosJson !== null) {
-        // Validate video limits
-        if (videosToSave.length > 0) {
-          const videoCheck = canAddVideo(user.subscriptionTier, videosToSave.length);
-          if (!videoCheck.allowed) {
-            throw new Error(videoCheck.reason || "Límite de videos excedido");
-          }
-        }
+  let priceDrop: {
+    previousPrice: number;
+    newPrice: number;
+    title: string;
+  } | null = null;
 
-        // Delete existing videos
-        await tx.propertyVideo.deleteMany({
-          where: { propertyId: id },
-        });
-
-        // Create new videos
-        if (videosToSave.length > 0) {
-          await tx.propertyVideo.createMany({
-            data: videosToSave.map((video, index) => ({
-              url: video.url,
-              platform: video.platform as any, // Cast to VideoPlatform enum
-              title: video.title ?? null,
-              order: index,
-              propertyId: id,
-            })),
-          });
-        }
-      }
-    });
+  try {
+    // 4. Actualizar propiedad y videos en transacción usando el repository
+    // (verifica ownership, sanitiza y registra el historial de precios)
+    const { property: updated, previousPrice } =
+      await propertyRepository.updateWithVideos(
+        id,
+        updateData,
+        user.id,
+        videosJson !== null ? videosToSave : undefined,
+      );
+
+    if (updateData.price !== undefined && updateData.price < previousPrice) {
+      priceDrop = {
+        previousPrice,
+        newPrice: updateData.price,
+        title: updated.title,
+      };
+    }
   } catch (error) {
     logger.error({ err: error, propertyId: id }, "Error updating property");
     return {
@@ -238,13 +247,24 @@ export async function updatePropertyAction(
     };
   }
 
-  // 5. Revalidar caches
+  // 5. Avisar bajada de precio a quienes la tienen en favoritos (nunca lanza)
+  if (priceDrop) {
+    await notifyPriceDrop({
+      propertyId: id,
+      propertyTitle: priceDrop.title,
+      previousPrice: priceDrop.previousPrice,
+      newPrice: priceDrop.newPrice,
+      changedById: user.id,
+    });
+  }
+
+  // 6. Revalidar caches
   // Invalida el mapa, lista de propiedades y detail page
   revalidatePath("/mapa");
   revalidatePath("/dashboard/propiedades");
   revalidatePath(`/dashboard/propiedades/${id}/editar`);
 
-  // 6. Redirigir (fuera del try/catch para que funcione)
+  // 7. Redirigir (fuera del try/catch para que funcione)
   redirect("/dashboard/propiedades");
 }
 
@@ -299,6 +319,165 @@ export async function deletePropertyAction(
   }
 }
 
+/**
+ * RENEW LISTING ACTION
+ * "¿Sigue disponible?": reinicia la ventana de archivado automático
+ * Renovar una propiedad ARCHIVADA la vuelve a publicar, así que vuelve a
+ * contar para el límite del plan
+ */
+export async function renewListingAction(propertyId: string) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  try {
+    const property = await propertyRepository.findById(propertyId);
+    if (!property) {
+      return { success: false, error: "Propiedad no encontrada" };
+    }
+
+    if (property.visibility === "ARCHIVED") {
+      const permissionCheck = await canCreateProperty(property.agentId);
+      if (!permissionCheck.allowed) {
+        return {
+          success: false,
+          error: permissionCheck.reason,
+          upgradeRequired: true,
+        };
+      }
+    }
+
+    // Repository verifica ownership
+    await listingLifecycleRepository.renew(propertyId, user.id);
+
+    revalidateListingPaths(propertyId, property.visibility === "ARCHIVED");
+
+    return { success: true };
+  } catch (error) {
+    logger.error({ err: error, propertyId }, "Error renewing listing");
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error al renovar la publicación",
+    };
+  }
+}
+
+/**
+ * ARCHIVE LISTING ACTION
+ * Retira la propiedad del portal sin eliminarla (se puede renovar luego)
+ */
+export async function archiveListingAction(propertyId: string) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  try {
+    // Repository verifica ownership
+    await listingLifecycleRepository.archive(propertyId, user.id);
+
+    revalidateListingPaths(propertyId, true);
+
+    return { success: true };
+  } catch (error) {
+    logger.error({ err: error, propertyId }, "Error archiving listing");
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error al archivar la publicación",
+    };
+  }
+}
+
+/**
+ * PUBLISH SCHEDULED LISTING NOW ACTION
+ * Adelanta una publicación programada (DRAFT)
+ * Las alertas de búsquedas guardadas salen en el próximo digest
+ */
+export async function publishListingNowAction(propertyId: string) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  try {
+    // Repository verifica ownership
+    await listingLifecycleRepository.schedule(propertyId, null, user.id);
+
+    revalidateListingPaths(propertyId, true);
+
+    return { success: true };
+  } catch (error) {
+    logger.error({ err: error, propertyId }, "Error publishing listing");
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error al publicar la propiedad",
+    };
+  }
+}
+
+/**
+ * KEEP ON DOWNGRADE ACTION
+ * El agente elige qué publicaciones siguen publicadas si su plan vence
+ * (ver lib/subscription/downgrade.ts); sin elección quedan las más recientes
+ * Solo se pueden marcar tantas como permita el plan actual
+ */
+export async function setKeepOnDowngradeAction(
+  propertyId: string,
+  keep: boolean,
+) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  try {
+    if (keep) {
+      const limit = getPropertyLimit(user.subscriptionTier || "FREE");
+      const kept = await planDowngradeRepository.countKept(user.id);
+      if (kept >= limit) {
+        return {
+          success: false,
+          error: `Tu plan permite mantener ${limit} ${limit === 1 ? "propiedad" : "propiedades"}. Quita otra antes de elegir esta.`,
+        };
+      }
+    }
+
+    // Solo el agente dueño (condicional sobre agentId)
+    const updated = await planDowngradeRepository.setKeepOnDowngrade(
+      propertyId,
+      user.id,
+      keep,
+    );
+    if (!updated) {
+      return { success: false, error: "Propiedad no encontrada" };
+    }
+
+    revalidateListingPaths(propertyId, false);
+
+    return { success: true };
+  } catch (error) {
+    logger.error({ err: error, propertyId }, "Error updating downgrade choice");
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error al guardar tu elección",
+    };
+  }
+}
+
+/**
+ * Revalidar el dashboard y, si cambió la visibilidad pública, el portal
+ */
+function revalidateListingPaths(propertyId: string, visibilityChanged: boolean) {
+  revalidatePath("/dashboard/propiedades");
+
+  if (visibilityChanged) {
+    revalidatePath("/mapa");
+    revalidatePath("/propiedades");
+    revalidatePath(`/propiedades/${propertyId}`);
+  }
+}
+
 /**
  * SAVE UPLOADED PROPERTY IMAGES ACTION
  * Guarda referencias a imágenes ya subidas a Storage (Presigned URLs)
@@ -768,7 +947,8 @@ export async function getPropertyPreviewAction(propertyId: string): Promise<{
     // Obtener propiedad con datos básicos
     const property = await propertyRepository.findById(propertyId);
 
-    if (!property) {
+    // Programadas y archivadas no son públicas
+    if (!property || property.visibility !== "PUBLISHED") {
       return { success: false, error: "Propiedad no encontrada" };
     }
 
@@ -810,3 +990,44 @@ export async function getPropertyPreviewAction(propertyId: string): Promise<{
     };
   }
 }
+
+/**
+ * LOAD MORE PROPERTIES ACTION
+ * Siguiente página del listado para el scroll infinito (móvil)
+ * Esta action es pública (no requiere autenticación)
+ *
+ * Pagina por cursor keyset sin count(): los filtros y el orden se leen del
+ * mismo query string que /propiedades para que coincidan con la primera página
+ *
+ * @param query - Query string actual de /propiedades (sin "?")
+ * @param cursor - nextCursor de la última página cargada
+ */
+export async function loadMorePropertiesAction(
+  query: string,
+  cursor: string,
+): Promise<{
+  properties: SerializedProperty[];
+  nextCursor: string | null;
+  error?: string;
+}> {
+  try {
+    const { sort, near, ...filters } = parseFilterParams(
+      new URLSearchParams(query),
+    );
+
+    return await getPropertiesCursorPage({
+      filters: { ...filters, status: "AVAILABLE" },
+      sort,
+      origin: near,
+      cursor,
+      take: PROPERTY_GRID_PAGE_SIZE,
+    });
+  } catch (error) {
+    logger.error({ err: error, query }, "Error loading more properties");
+    return {
+      properties: [],
+      nextCursor: null,
+      error: "Error al cargar más propiedades",
+    };
+  }
+}
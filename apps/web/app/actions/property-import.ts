@@ -0,0 +1,224 @@
+/**
+ * SERVER ACTIONS - Property Import
+ *
+ * Importación masiva de propiedades desde CSV, Excel o feeds XML (Kyero)
+ * - El navegador parsea el archivo y envía lotes de filas
+ * - Cada fila se revalida con createPropertySchema en el servidor
+ * - Respeta el límite del plan (canCreateProperty) fila por fila
+ * - Geocodifica las filas sin coordenadas y descarga las imágenes remotas
+ * - Reporte por fila: creada, fallida u omitida
+ */
+
+"use server";
+
+import { propertyImageRepository, propertyRepository } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth";
+import {
+  canCreateProperty,
+  getImageLimit,
+} from "@/lib/permissions/property-limits";
+import {
+  MAX_IMPORT_IMAGES_PER_PROPERTY,
+  PROPERTY_IMPORT_BATCH_SIZE,
+  type PropertyImportResult,
+  validatePropertyImportRow,
+} from "@/lib/property-import/parse";
+import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
+import { uploadPropertyImageFromUrl } from "@/lib/storage/client";
+import { geocodeAddress } from "@/lib/utils/geocoding";
+import { logger } from "@/lib/utils/logger";
+
+const importRowSchema = z.object({
+  rowNumber: z.number().int().nonnegative(),
+  reference: z.string().max(100).nullable(),
+  data: z.record(z.unknown()),
+  imageUrls: z
+    .array(z.string().url())
+    .max(MAX_IMPORT_IMAGES_PER_PROPERTY)
+    .default([]),
+});
+
+const importBatchSchema = z
+  .array(importRowSchema)
+  .min(1, "No hay filas para importar")
+  .max(PROPERTY_IMPORT_BATCH_SIZE, "Demasiadas filas en un lote");
+
+/**
+ * IMPORT PROPERTIES ACTION
+ * Importa un lote de filas (máx. PROPERTY_IMPORT_BATCH_SIZE)
+ * El cliente llama en secuencia hasta terminar o hasta limitReached
+ *
+ * Las propiedades importadas como publicadas entran en las alertas de
+ * búsquedas guardadas como cualquier otra: el resumen periódico
+ * (app/api/cron/saved-search-alerts) las agrupa en un solo correo por
+ * usuario, así que un archivo con cientos de filas no genera cientos de correos
+ */
+export async function importPropertiesAction(
+  rows: z.input<typeof importBatchSchema>,
+) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  try {
+    await enforceRateLimit({ userId: user.id, tier: "property-import" });
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      logger.warn(
+        { userId: user.id, tier: "property-import" },
+        "[PropertyImport] Rate limit exceeded",
+      );
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+
+  const parsed = importBatchSchema.safeParse(rows);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.errors[0]?.message ?? "Datos inválidos",
+    };
+  }
+
+  const imageLimit = getImageLimit(user.subscriptionTier);
+  const results: PropertyImportResult[] = [];
+  let limitReached = false;
+  let limitReason: string | undefined;
+
+  for (const row of parsed.data) {
+    const title = typeof row.data.title === "string" ? row.data.title : null;
+    const base = { rowNumber: row.rowNumber, reference: row.reference, title };
+
+    if (limitReached) {
+      results.push({
+        ...base,
+        status: "skipped",
+        errors: [limitReason ?? "Límite de propiedades alcanzado"],
+        warnings: [],
+      });
+      continue;
+    }
+
+    const validated = validatePropertyImportRow(row);
+    if (!validated.success) {
+      results.push({
+        ...base,
+        status: "failed",
+        errors: validated.errors,
+        warnings: [],
+      });
+      continue;
+    }
+
+    const permission = await canCreateProperty(user.id);
+    if (!permission.allowed) {
+      limitReached = true;
+      limitReason = permission.reason;
+      results.push({
+        ...base,
+        status: "skipped",
+        errors: [permission.reason ?? "Límite de propiedades alcanzado"],
+        warnings: [],
+      });
+      continue;
+    }
+
+    const data = validated.data;
+    const warnings: string[] = [];
+
+    // Geocodificar si faltan coordenadas (nunca lanza)
+    if (data.latitude === undefined || data.longitude === undefined) {
+      const location = await geocodeAddress([
+        data.address,
+        data.zipCode,
+        data.city,
+        data.state,
+      ]);
+      if (location) {
+        data.latitude = location.latitude;
+        data.longitude = location.longitude;
+      } else if (data.city) {
+        warnings.push("No se pudo ubicar la dirección en el mapa");
+      }
+    }
+
+    let propertyId: string;
+    try {
+      const property = await propertyRepository.create(data, user.id);
+      propertyId = property.id;
+    } catch (error) {
+      logger.error(
+        { err: error, userId: user.id, rowNumber: row.rowNumber },
+        "[PropertyImport] Error creating property",
+      );
+      results.push({
+        ...base,
+        status: "failed",
+        errors: [
+          error instanceof Error
+            ? error.message
+            : "Error al crear la propiedad",
+        ],
+        warnings,
+      });
+      continue;
+    }
+
+    // Imágenes: un error en una imagen no invalida la propiedad
+    const imageUrls = row.imageUrls.slice(0, imageLimit);
+    if (row.imageUrls.length > imageLimit) {
+      warnings.push(
+        `Se importaron ${imageLimit} de ${row.imageUrls.length} imágenes (límite de tu plan)`,
+      );
+    }
+
+    let order = 0;
+    for (const imageUrl of imageUrls) {
+      try {
+        const url = await uploadPropertyImageFromUrl(imageUrl, propertyId);
+        await propertyImageRepository.create({
+          url,
+          alt: data.title,
+          order,
+          propertyId,
+        });
+        order++;
+      } catch (error) {
+        logger.warn(
+          { err: error, propertyId, imageUrl },
+          "[PropertyImport] Error importing image",
+        );
+        warnings.push(`Imagen omitida: ${imageUrl}`);
+      }
+    }
+
+    results.push({
+      ...base,
+      title: data.title,
+      status: "created",
+      propertyId,
+      errors: [],
+      warnings,
+    });
+  }
+
+  const created = results.filter((result) => result.status === "created");
+
+  if (created.length > 0) {
+    revalidatePath("/mapa");
+    revalidatePath("/dashboard/propiedades");
+  }
+
+  logger.info(
+    {
+      userId: user.id,
+      rows: results.length,
+      created: created.length,
+      limitReached,
+    },
+    "[PropertyImport] Batch processed",
+  );
+
+  return { success: true, results, limitReached };
+}
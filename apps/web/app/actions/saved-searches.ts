@@ -0,0 +1,198 @@
+/**
+ * SERVER ACTIONS - Saved Searches
+ *
+ * Server Actions para búsquedas guardadas y alertas de nuevas propiedades
+ * - Autenticación requerida
+ * - Filtros validados con el mismo schema que los URL params
+ * - Cache invalidation
+ */
+
+"use server";
+
+import { savedSearchRepository } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { getCurrentUser } from "@/lib/auth";
+import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger";
+import { parseBoundsParams, parseFilterParams } from "@/lib/utils/url-helpers";
+
+/**
+ * Máximo de búsquedas guardadas por usuario
+ * Evita que el matching de alertas crezca sin control
+ */
+const MAX_SAVED_SEARCHES = 20;
+
+const createSavedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "El nombre es requerido")
+    .max(80, "El nombre no puede exceder 80 caracteres"),
+  // Query string de la URL actual (ej: "city=Cuenca&minPrice=100000")
+  query: z.string().max(2000),
+});
+
+const savedSearchIdSchema = z.string().uuid("Invalid saved search ID format");
+
+/**
+ * CREATE SAVED SEARCH ACTION
+ * Guarda los filtros actuales (y bounds del mapa si existen)
+ *
+ * @example
+ * await createSavedSearchAction({
+ *   name: "Casas en Cuenca",
+ *   query: searchParams.toString(),
+ * });
+ */
+export async function createSavedSearchAction(input: {
+  name: string;
+  query: string;
+}) {
+  try {
+    const validatedData = createSavedSearchSchema.parse(input);
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return {
+        success: false,
+        error: "Debes iniciar sesión para guardar búsquedas",
+      };
+    }
+
+    try {
+      await enforceRateLimit({ userId: user.id, tier: "default" });
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        logger.warn(
+          { userId: user.id, tier: "default" },
+          "[SavedSearch] Rate limit exceeded",
+        );
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+
+    const count = await savedSearchRepository.countByUser(user.id);
+    if (count >= MAX_SAVED_SEARCHES) {
+      return {
+        success: false,
+        error: `Puedes guardar hasta ${MAX_SAVED_SEARCHES} búsquedas`,
+      };
+    }
+
+    // Reusar el parser de URL → mismo shape que usa el listado
+    const params = new URLSearchParams(validatedData.query);
+    const filters = parseFilterParams(params);
+    const bounds = parseBoundsParams(params);
+
+    const savedSearch = await savedSearchRepository.create({
+      userId: user.id,
+      name: validatedData.name,
+      filters,
+      bounds,
+    });
+
+    revalidatePath("/perfil/busquedas");
+
+    return { success: true, data: savedSearch };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: error.errors[0]?.message ?? "Datos inválidos",
+      };
+    }
+
+    logger.error({ err: error }, "[createSavedSearchAction] Failed");
+    return { success: false, error: "Error al guardar la búsqueda" };
+  }
+}
+
+/**
+ * GET SAVED SEARCHES ACTION
+ * Lista las búsquedas guardadas del usuario actual
+ */
+export async function getSavedSearchesAction() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: "Authentication required", data: [] };
+    }
+
+    const data = await savedSearchRepository.listByUser(user.id);
+
+    return { success: true, data };
+  } catch (error) {
+    logger.error({ err: error }, "[getSavedSearchesAction] Failed");
+    return { success: false, error: "Error al cargar búsquedas", data: [] };
+  }
+}
+
+/**
+ * TOGGLE SAVED SEARCH ALERTS ACTION
+ * Activa/desactiva el envío de emails para una búsqueda
+ */
+export async function toggleSavedSearchAlertsAction(
+  id: string,
+  alertsEnabled: boolean,
+) {
+  try {
+    const validatedId = savedSearchIdSchema.parse(id);
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: "Authentication required" };
+    }
+
+    const data = await savedSearchRepository.setAlertsEnabled(
+      validatedId,
+      alertsEnabled,
+      user.id,
+    );
+
+    revalidatePath("/perfil/busquedas");
+
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid saved search ID" };
+    }
+
+    logger.error({ err: error }, "[toggleSavedSearchAlertsAction] Failed");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error al actualizar",
+    };
+  }
+}
+
+/**
+ * DELETE SAVED SEARCH ACTION
+ */
+export async function deleteSavedSearchAction(id: string) {
+  try {
+    const validatedId = savedSearchIdSchema.parse(id);
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, error: "Authentication required" };
+    }
+
+    await savedSearchRepository.delete(validatedId, user.id);
+
+    revalidatePath("/perfil/busquedas");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: "Invalid saved search ID" };
+    }
+
+    logger.error({ err: error }, "[deleteSavedSearchAction] Failed");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error al eliminar",
+    };
+  }
+}
@@ -13,7 +13,7 @@
  * - Property shares (by platform)
  * - Property views (for analytics)
  * - Share counts (for social proof)
- * - Trending properties (by shares + views)
+ * - Trending properties (time-decayed engagement, computed in SQL)
  *
  * PRIVACY:
  * - IP address hashed (not stored raw)
@@ -27,7 +27,7 @@
 "use server";
 
 import type { SharePlatform } from "@prisma/client";
-import { db } from "@repo/database";
+import { db, propertyRepository } from "@repo/database";
 import { logger } from "@/lib/utils/logger";
 import { headers } from "next/headers";
 import { createClient } from "@/lib/supabase/server";
@@ -227,58 +227,19 @@ export async function getPropertySocialStats(propertyId: string): Promise<{
 /**
  * Get trending properties
  *
- * Returns properties sorted by social engagement
- * Formula: (shares * 3) + views (shares weighted more)
+ * Returns the hottest AVAILABLE properties right now
+ * Score: views (1), shares (3), favorites (4) and appointments (5) from the
+ * last 14 days, each halved every 48 hours
  *
- * WHY this formula?
- * - Shares indicate stronger interest than views
- * - Balances new properties (few views) vs old (many views)
- * - Prevents view-only properties from dominating
+ * WHY in the database?
+ * - Covers every property (no arbitrary first-N sample)
+ * - Recent activity wins over all-time totals
+ * - Precomputed in the property_trending_scores materialized view,
+ *   refreshed by /api/cron/trending-scores
  */
 export async function getTrendingProperties(limit = 10) {
   try {
-    // Get properties with share/view counts
-    const properties = await db.property.findMany({
-      where: { status: "AVAILABLE" },
-      include: {
-        images: {
-          take: 1,
-          orderBy: { order: "asc" },
-        },
-        agent: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-            phone: true,
-          },
-        },
-        _count: {
-          select: {
-            shares: true,
-            views: true,
-          },
-        },
-      },
-      take: 100, // Get top 100 to calculate engagement
-    });
-
-    // Calculate engagement score and sort
-    const trending = properties
-      .map((property) => {
-        const { _count, ...propertyData } = property;
-        return {
-          ...propertyData,
-          shareCount: _count.shares,
-          viewCount: _count.views,
-          engagementScore: _count.shares * 3 + _count.views,
-        };
-      })
-      .sort((a, b) => b.engagementScore - a.engagementScore)
-      .slice(0, limit);
-
-    return trending;
+    return await propertyRepository.findTrending(limit);
   } catch (error) {
     logger.error(
       { err: error, limit },
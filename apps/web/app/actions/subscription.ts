@@ -2,12 +2,13 @@
  * Subscription Server Actions
  *
  * Handles subscription checkout and customer portal access
- * using Lemon Squeezy.
+ * using Lemon Squeezy, and the platform-managed free trial.
  */
 
 "use server";
 
 import { createCheckout, getCustomer } from "@lemonsqueezy/lemonsqueezy.js";
+import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { db } from "@repo/database";
 import { env } from "@repo/env";
@@ -15,8 +16,10 @@ import { getCurrentUser } from "@/lib/auth";
 import {
 	configureLemonSqueezy,
 	getVariantIdForTier,
+	normalizePromoCode,
 	type SubscriptionTier,
 } from "@/lib/payments/lemonsqueezy";
+import { isTrialTier, startTrial, TRIAL_DAYS } from "@/lib/subscription/trial";
 
 /**
  * Create a subscription checkout session
@@ -25,9 +28,13 @@ import {
  * Only available for users with AGENT role.
  *
  * @param tier - The subscription tier (PLUS, BUSINESS, PRO)
- * @throws Error if user is not authenticated or not an agent
+ * @param promoCode - Optional Lemon Squeezy discount code (pre-filled in checkout)
+ * @throws Error if user is not authenticated, not an agent or the promo code is invalid
  */
-export async function createSubscriptionCheckout(tier: SubscriptionTier) {
+export async function createSubscriptionCheckout(
+	tier: SubscriptionTier,
+	promoCode?: string,
+) {
 	// 1. Verify authentication
 	const user = await getCurrentUser();
 
@@ -40,13 +47,16 @@ export async function createSubscriptionCheckout(tier: SubscriptionTier) {
 		throw new Error("Only agents can subscribe to paid plans");
 	}
 
-	// 3. Configure Lemon Squeezy SDK
+	// 3. Validate promo code (Lemon Squeezy checks that it exists and applies)
+	const discountCode = normalizePromoCode(promoCode);
+
+	// 4. Configure Lemon Squeezy SDK
 	configureLemonSqueezy();
 
-	// 4. Get variant ID for tier
+	// 5. Get variant ID for tier
 	const variantId = getVariantIdForTier(tier);
 
-	// 5. Create checkout session
+	// 6. Create checkout session
 	const checkout = await createCheckout(
 		Number(env.LEMONSQUEEZY_STORE_ID!),
 		Number(variantId),
@@ -54,6 +64,7 @@ export async function createSubscriptionCheckout(tier: SubscriptionTier) {
 			checkoutData: {
 				email: user.email,
 				name: user.name || undefined,
+				discountCode: discountCode ?? undefined,
 				custom: {
 					user_id: user.id,
 				},
@@ -73,17 +84,73 @@ export async function createSubscriptionCheckout(tier: SubscriptionTier) {
 		},
 	);
 
-	// 6. Get checkout URL
+	// 7. Get checkout URL
 	const checkoutUrl = checkout.data?.data.attributes.url;
 
 	if (!checkoutUrl) {
 		throw new Error("Failed to create checkout session");
 	}
 
-	// 7. Redirect to checkout
+	// 8. Redirect to checkout
 	redirect(checkoutUrl);
 }
 
+/**
+ * Start a free trial
+ *
+ * Platform-managed trial of PLUS or BUSINESS: no card, no checkout.
+ * One trial per user (not available after any previous subscription).
+ * Only available for users with AGENT role.
+ *
+ * @param tier - The trial tier (PLUS, BUSINESS)
+ * @returns Success flag, or the reason the trial could not start
+ */
+export async function startFreeTrial(
+	tier: SubscriptionTier,
+): Promise<{ success: boolean; error?: string }> {
+	// 1. Verify authentication
+	const user = await getCurrentUser();
+
+	if (!user) {
+		return { success: false, error: "No autenticado" };
+	}
+
+	// 2. Verify user is an agent on the free plan
+	if (user.role !== "AGENT") {
+		return {
+			success: false,
+			error: "Solo los agentes pueden probar los planes pagos",
+		};
+	}
+
+	if (!isTrialTier(tier)) {
+		return {
+			success: false,
+			error: "La prueba gratis solo está disponible para Plus y Business",
+		};
+	}
+
+	if (user.subscriptionTier !== "FREE") {
+		return { success: false, error: "Ya tienes un plan pago" };
+	}
+
+	// 3. Start the trial (fails if the user already had a subscription)
+	const started = await startTrial(user.id, tier);
+
+	if (!started) {
+		return {
+			success: false,
+			error: `Ya usaste tu prueba gratis de ${TRIAL_DAYS} días`,
+		};
+	}
+
+	// 4. Refresh plan-dependent pages
+	revalidatePath("/dashboard");
+	revalidatePath("/dashboard/suscripcion");
+
+	return { success: true };
+}
+
 /**
  * Get customer portal URL
  *
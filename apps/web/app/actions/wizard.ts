@@ -7,8 +7,9 @@ import {
     canUploadImage,
 } from "@/lib/permissions/property-limits";
 import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
+import { deletePropertyImage } from "@/lib/storage/client";
 import { logger } from "@/lib/utils/logger";
-import { db } from "@repo/database";
+import { db, propertyDraftRepository } from "@repo/database";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
@@ -44,6 +45,12 @@ const wizardPropertySchema = z.object({
     platform: z.string(),
     title: z.string().optional(),
   })).default([]),
+
+  // Server-side draft being published (deleted in the same transaction)
+  draftId: z.string().uuid().optional(),
+
+  // Step 5: Scheduled publication (ISO date; omitted = publish now)
+  publishAt: z.string().datetime({ offset: true }).optional(),
 });
 
 type WizardPropertyData = z.infer<typeof wizardPropertySchema>;
@@ -101,6 +108,13 @@ export async function createPropertyFromWizard(
     };
   }
 
+  // Scheduled listings stay DRAFT until the lifecycle job publishes them
+  const now = new Date();
+  const publishAt = validatedData.data.publishAt
+    ? new Date(validatedData.data.publishAt)
+    : null;
+  const isScheduled = publishAt !== null && publishAt > now;
+
   try {
     // 5-6. TRANSACTION: Create property + images atomically
     // ATOMICITY PROTECTION: All-or-nothing operation
@@ -135,6 +149,10 @@ export async function createPropertyFromWizard(
           area: validatedData.data.area,
           amenities: validatedData.data.amenities,
           agentId: user.id,
+          visibility: isScheduled ? "DRAFT" : "PUBLISHED",
+          publishAt: isScheduled ? publishAt : null,
+          publishedAt: isScheduled ? null : now,
+          refreshedAt: now,
         },
       });
 
@@ -199,6 +217,13 @@ export async function createPropertyFromWizard(
         );
       }
 
+      // Publishing consumes the draft: from now on it counts as a property
+      if (validatedData.data.draftId) {
+        await tx.propertyDraft.deleteMany({
+          where: { id: validatedData.data.draftId, agentId: user.id },
+        });
+      }
+
       return newProperty;
     });
 
@@ -214,6 +239,7 @@ export async function createPropertyFromWizard(
     return {
       success: true,
       propertyId: property.id,
+      scheduledFor: isScheduled ? publishAt.toISOString() : null,
     };
   } catch (error) {
     logger.error({ err: error, userId: user.id }, "[Wizard] Error creating property from wizard");
@@ -226,3 +252,157 @@ export async function createPropertyFromWizard(
     };
   }
 }
+
+/**
+ * Máximo de borradores por agente
+ * Los borradores no cuentan para el límite del plan, pero no deben crecer sin control
+ */
+const MAX_PROPERTY_DRAFTS = 20;
+
+// Draft data is validated loosely: steps can still be incomplete
+const wizardDraftSchema = z.object({
+  draftId: z.string().uuid().optional(),
+  currentStep: z.number().int().min(1).max(5),
+  imageUrls: z.array(z.string().url()).max(50).default([]),
+  data: z.object({
+    title: z.string().max(200).optional(),
+    description: z.string().max(10000).optional(),
+    price: z.number().nonnegative().optional(),
+    transactionType: z.enum(["SALE", "RENT"]).optional(),
+    category: z.string().max(50).optional(),
+    address: z.string().max(300).optional(),
+    city: z.string().max(100).optional(),
+    state: z.string().max(100).optional(),
+    zipCode: z.string().max(20).optional(),
+    latitude: z.number().min(-90).max(90).nullable().optional(),
+    longitude: z.number().min(-180).max(180).nullable().optional(),
+    bedrooms: z.number().nonnegative().optional(),
+    bathrooms: z.number().nonnegative().optional(),
+    area: z.number().nonnegative().optional(),
+    amenities: z.array(z.string().max(100)).max(100).optional(),
+    videos: z.array(z.object({
+      url: z.string().url(),
+      platform: z.string(),
+      title: z.string().optional(),
+    })).max(20).optional(),
+  }),
+});
+
+type WizardDraftInput = z.input<typeof wizardDraftSchema>;
+
+const draftIdSchema = z.string().uuid("Invalid draft ID format");
+
+/**
+ * SAVE WIZARD DRAFT
+ *
+ * Autosave server-side del wizard (cada cambio de paso + "Guardar Borrador").
+ * Crea el borrador la primera vez y luego lo actualiza con el draftId devuelto.
+ *
+ * Drafts are NOT properties: they don't count toward canCreateProperty
+ * until createPropertyFromWizard publishes them.
+ *
+ * @example
+ * const result = await saveWizardDraftAction({
+ *   draftId: "…", // omit on the first save
+ *   currentStep: 2,
+ *   imageUrls: [],
+ *   data: { title: "Casa moderna", price: 150000 },
+ * });
+ */
+export async function saveWizardDraftAction(input: WizardDraftInput) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  const validatedData = wizardDraftSchema.safeParse(input);
+  if (!validatedData.success) {
+    return {
+      success: false,
+      error: validatedData.error.errors[0]?.message ?? "Datos inválidos",
+    };
+  }
+
+  const { draftId, currentStep, imageUrls, data } = validatedData.data;
+
+  try {
+    if (!draftId) {
+      const count = await propertyDraftRepository.countByAgent(user.id);
+      if (count >= MAX_PROPERTY_DRAFTS) {
+        return {
+          success: false,
+          error: `Puedes tener hasta ${MAX_PROPERTY_DRAFTS} borradores. Elimina alguno para continuar.`,
+        };
+      }
+    }
+
+    const draft = await propertyDraftRepository.save({
+      id: draftId,
+      agentId: user.id,
+      data: {
+        ...data,
+        latitude: data.latitude ?? undefined,
+        longitude: data.longitude ?? undefined,
+      },
+      imageUrls,
+      currentStep,
+    });
+
+    revalidatePath("/dashboard/propiedades");
+
+    return {
+      success: true,
+      draftId: draft.id,
+      updatedAt: draft.updatedAt.toISOString(),
+    };
+  } catch (error) {
+    // Deleted from the dashboard or published from another device
+    if (error instanceof Error && error.message === "Borrador no encontrado") {
+      return { success: false, error: error.message, draftNotFound: true };
+    }
+
+    logger.error({ err: error, userId: user.id, draftId }, "[Wizard] Error saving draft");
+    return { success: false, error: "Error al guardar el borrador" };
+  }
+}
+
+/**
+ * DELETE WIZARD DRAFT
+ *
+ * Elimina un borrador y sus imágenes ya subidas a Storage
+ * (las imágenes aún no pertenecen a ninguna propiedad)
+ */
+export async function deleteWizardDraftAction(draftId: string) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+
+  const validatedId = draftIdSchema.safeParse(draftId);
+  if (!validatedId.success) {
+    return { success: false, error: "ID de borrador inválido" };
+  }
+
+  try {
+    const draft = await propertyDraftRepository.findByIdForAgent(validatedId.data, user.id);
+    if (!draft) {
+      return { success: false, error: "Borrador no encontrado" };
+    }
+
+    await propertyDraftRepository.delete(draft.id, user.id);
+
+    // Only the agent's own uploads ({userId}/... see generatePresignedUploadUrl)
+    // Best effort: an orphaned image must not block deleting the draft
+    const ownImageUrls = draft.imageUrls.filter((url) =>
+      url.includes(`property-images/${user.id}/`)
+    );
+    const results = await Promise.allSettled(
+      ownImageUrls.map((url) => deletePropertyImage(url))
+    );
+    const failed = results.filter((result) => result.status === "rejected").length;
+    if (failed > 0) {
+      logger.warn({ draftId: draft.id, failed }, "[Wizard] Could not delete some draft images");
+    }
+
+    revalidatePath("/dashboard/propiedades");
+
+    return { success: true };
+  } catch (error) {
+    logger.error({ err: error, userId: user.id, draftId }, "[Wizard] Error deleting draft");
+    return { success: false, error: "Error al eliminar el borrador" };
+  }
+}
@@ -14,6 +14,7 @@ interface PageProps {
     status?: string;
     search?: string;
     page?: string;
+    cursor?: string;
   }>;
 }
 
@@ -32,14 +33,21 @@ export default async function PropiedadesPage({ searchParams }: PageProps) {
   const take = 20;
   const skip = (page - 1) * take;
 
-  const { properties, total } = await getAllPropertiesAction({
-    status,
-    search,
-    skip,
-    take,
-  });
+  // "Siguiente" navega por cursor (keyset); saltos hacia atrás usan skip
+  const { properties, total, totalIsEstimate, nextCursor } =
+    await getAllPropertiesAction({
+      status,
+      search,
+      skip,
+      take,
+      cursor: params.cursor,
+    });
 
-  const totalPages = Math.ceil(total / take);
+  // Con total estimado, la página actual (y la siguiente) siempre existen
+  const totalPages = Math.max(
+    Math.ceil(total / take),
+    nextCursor ? page + 1 : page,
+  );
 
   return (
     <div className="p-6 space-y-6">
@@ -59,7 +67,10 @@ export default async function PropiedadesPage({ searchParams }: PageProps) {
       {/* Stats summary */}
       <div className="grid gap-4 md:grid-cols-4">
         <div className="rounded-lg border bg-card p-4">
-          <div className="text-2xl font-bold">{total}</div>
+          <div className="text-2xl font-bold">
+            {total}
+            {totalIsEstimate && "+"}
+          </div>
           <p className="text-xs text-muted-foreground">Total Propiedades</p>
         </div>
       </div>
@@ -71,6 +82,8 @@ export default async function PropiedadesPage({ searchParams }: PageProps) {
           currentPage={page}
           totalPages={totalPages}
           total={total}
+          totalIsEstimate={totalIsEstimate}
+          nextCursor={nextCursor}
         />
       </Suspense>
     </div>
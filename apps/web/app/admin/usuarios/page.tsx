@@ -14,6 +14,7 @@ interface PageProps {
     role?: string;
     search?: string;
     page?: string;
+    cursor?: string;
   }>;
 }
 
@@ -27,14 +28,20 @@ export default async function UsuariosPage({ searchParams }: PageProps) {
   const take = 20;
   const skip = (page - 1) * take;
 
-  const { users, total } = await getUsersAction({
+  // "Siguiente" navega por cursor (keyset); saltos hacia atrás usan skip
+  const { users, total, totalIsEstimate, nextCursor } = await getUsersAction({
     role,
     search,
     skip,
     take,
+    cursor: params.cursor,
   });
 
-  const totalPages = Math.ceil(total / take);
+  // Con total estimado, la página actual (y la siguiente) siempre existen
+  const totalPages = Math.max(
+    Math.ceil(total / take),
+    nextCursor ? page + 1 : page,
+  );
 
   return (
     <div className="p-6 space-y-6">
@@ -54,7 +61,10 @@ export default async function UsuariosPage({ searchParams }: PageProps) {
       {/* Stats summary */}
       <div className="grid gap-4 md:grid-cols-4">
         <div className="rounded-lg border bg-card p-4">
-          <div className="text-2xl font-bold">{total}</div>
+          <div className="text-2xl font-bold">
+            {total}
+            {totalIsEstimate && "+"}
+          </div>
           <p className="text-xs text-muted-foreground">Total Usuarios</p>
         </div>
       </div>
@@ -66,6 +76,8 @@ export default async function UsuariosPage({ searchParams }: PageProps) {
           currentPage={page}
           totalPages={totalPages}
           total={total}
+          totalIsEstimate={totalIsEstimate}
+          nextCursor={nextCursor}
         />
       </Suspense>
     </div>
@@ -0,0 +1,101 @@
+/**
+ * ADMIN - Webhooks de Pagos
+ * Ledger de eventos de Lemon Squeezy: estado, payload y reintentos
+ */
+
+import type { WebhookEventStatus } from "@repo/database";
+import Link from "next/link";
+import { getWebhookEventsAction } from "@/app/actions/admin";
+import { WebhookEventsTable } from "@/components/admin/webhook-events-table";
+import { requireRole } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+
+interface PageProps {
+  searchParams: Promise<{
+    status?: string;
+    search?: string;
+  }>;
+}
+
+const statusFilters: { value: WebhookEventStatus; label: string }[] = [
+  { value: "FAILED", label: "Fallidos" },
+  { value: "PENDING", label: "Pendientes" },
+  { value: "PROCESSING", label: "Procesando" },
+  { value: "PROCESSED", label: "Procesados" },
+  { value: "SKIPPED", label: "Omitidos" },
+];
+
+export default async function WebhooksPage({ searchParams }: PageProps) {
+  await requireRole(["ADMIN"]);
+
+  const params = await searchParams;
+  const status = statusFilters.some((f) => f.value === params.status)
+    ? (params.status as WebhookEventStatus)
+    : undefined;
+  const search = params.search?.trim() || undefined;
+
+  const { events, counts } = await getWebhookEventsAction({ status, search });
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Webhooks de Pagos</h1>
+        <p className="text-muted-foreground">
+          Eventos recibidos de Lemon Squeezy. Los fallidos se reintentan
+          automáticamente; también puedes reintentarlos a mano.
+        </p>
+      </div>
+
+      {/* Status summary (doubles as filter) */}
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {statusFilters.map((filter) => (
+          <Link
+            key={filter.value}
+            href={
+              status === filter.value
+                ? "/admin/webhooks"
+                : `/admin/webhooks?status=${filter.value}`
+            }
+            className={cn(
+              "rounded-lg border bg-card p-4 transition-colors hover:bg-accent",
+              status === filter.value && "border-primary",
+            )}
+          >
+            <div
+              className={cn(
+                "text-2xl font-bold",
+                filter.value === "FAILED" &&
+                  counts.FAILED > 0 &&
+                  "text-destructive",
+              )}
+            >
+              {counts[filter.value]}
+            </div>
+            <p className="text-xs text-muted-foreground">{filter.label}</p>
+          </Link>
+        ))}
+      </div>
+
+      {/* Search */}
+      <form className="flex gap-2">
+        {status && <input type="hidden" name="status" value={status} />}
+        <input
+          type="text"
+          name="search"
+          defaultValue={search}
+          placeholder="Buscar por ID de evento, suscripción o usuario..."
+          className="flex-1 px-4 py-2 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <button
+          type="submit"
+          className="px-3 py-2 rounded-md border border-input bg-background text-sm hover:bg-accent transition-colors"
+        >
+          Buscar
+        </button>
+      </form>
+
+      <WebhookEventsTable events={events} />
+    </div>
+  );
+}
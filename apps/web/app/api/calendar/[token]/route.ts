@@ -0,0 +1,105 @@
+/**
+ * Agent Calendar Feed (ICS)
+ *
+ * GET /api/calendar/<token>.ics
+ *
+ * PURPOSE:
+ * - Feed iCalendar suscribible desde Google Calendar / Apple Calendar / Outlook
+ * - Lista las citas PENDING/CONFIRMED del agente con dirección y contacto del cliente
+ *
+ * SECURITY:
+ * - Sin sesión (los calendarios no envían cookies): el token secreto ES la credencial
+ * - El agente puede regenerarlo desde /dashboard/citas (invalida el anterior)
+ * - Rate limit por IP para evitar fuerza bruta de tokens
+ */
+
+import { AppointmentRepository, userRepository } from "@repo/database";
+import { env } from "@repo/env";
+import { subDays } from "date-fns";
+import { type NextRequest, NextResponse } from "next/server";
+import { appointmentToICSEvent, buildICSCalendar } from "@/lib/calendar/ics";
+import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger";
+import { generateSlug } from "@/lib/utils/slug-generator";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Citas pasadas que siguen apareciendo en el feed
+ */
+const FEED_HISTORY_DAYS = 30;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    await enforceRateLimit({ tier: "default" });
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      return new NextResponse("Too many requests", { status: 429 });
+    }
+    throw error;
+  }
+
+  // Aceptar el token con o sin extensión (algunos clientes la requieren)
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/, "");
+
+  if (!TOKEN_PATTERN.test(token)) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  try {
+    const agent = await userRepository.findByCalendarFeedToken(token);
+    if (!agent || (agent.role !== "AGENT" && agent.role !== "ADMIN")) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const appointmentRepository = new AppointmentRepository();
+    const appointments =
+      await appointmentRepository.getAgentCalendarAppointments(
+        agent.id,
+        subDays(new Date(), FEED_HISTORY_DAYS),
+      );
+
+    const ics = buildICSCalendar({
+      name: `Citas Inmo App - ${agent.name || agent.email}`,
+      events: appointments.map((appointment) =>
+        appointmentToICSEvent({
+          appointmentId: appointment.id,
+          scheduledAt: appointment.scheduledAt,
+          durationMinutes: appointment.durationMinutes,
+          status: appointment.status,
+          propertyTitle: appointment.property.title,
+          propertyAddress: [
+            appointment.property.address,
+            appointment.property.city,
+          ]
+            .filter(Boolean)
+            .join(", "),
+          propertyUrl: `${env.NEXT_PUBLIC_SITE_URL}/propiedades/${appointment.property.id}-${generateSlug(appointment.property.title)}`,
+          contactLabel: "Cliente",
+          contactName: appointment.user.name,
+          contactEmail: appointment.user.email,
+          contactPhone: appointment.user.phone,
+          notes: appointment.notes,
+          updatedAt: appointment.updatedAt,
+        }),
+      ),
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="citas.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    logger.error({ err: error }, "[CalendarFeed] Failed to build feed");
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * CRM Contacts Export
+ *
+ * GET /api/crm/export?formato=csv|xlsx
+ *
+ * PURPOSE:
+ * - Descargar todos los leads del agente con estado, origen, UTM y propiedad de interés
+ * - Los encabezados coinciden con los de la importación (el archivo se puede re-importar)
+ *
+ * SECURITY:
+ * - Requiere sesión de AGENT o ADMIN; solo exporta los leads propios
+ */
+
+import { agentClientRepository } from "@repo/database";
+import { format } from "date-fns";
+import { type NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { buildContactExportRows } from "@/lib/crm/contact-import";
+import { logger } from "@/lib/utils/logger";
+import {
+  SPREADSHEET_MIME_TYPES,
+  type SpreadsheetFormat,
+  toCsv,
+  toXlsx,
+} from "@/lib/utils/spreadsheet";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+  if (user.role !== "AGENT" && user.role !== "ADMIN") {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const formatParam = request.nextUrl.searchParams.get("formato");
+  const fileFormat: SpreadsheetFormat = formatParam === "xlsx" ? "xlsx" : "csv";
+
+  try {
+    const leads = await agentClientRepository.listForExport(user.id);
+    const rows = buildContactExportRows(leads);
+    const body = fileFormat === "xlsx" ? toXlsx(rows, "Clientes") : toCsv(rows);
+    const fileName = `clientes-${format(new Date(), "yyyy-MM-dd")}.${fileFormat}`;
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": SPREADSHEET_MIME_TYPES[fileFormat],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, userId: user.id },
+      "[CrmExport] Failed to export contacts",
+    );
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Appointment Reminders Job
+ *
+ * GET|POST /api/cron/appointment-reminders
+ *
+ * PURPOSE:
+ * - Envía recordatorios 24h y 1h antes de las citas confirmadas
+ * - Ejecutar cada 10-15 minutos desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run reminders:send
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { sendDueAppointmentReminders } from "@/lib/appointments/reminders";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await sendDueAppointmentReminders();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Appointment reminders failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to send reminders" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
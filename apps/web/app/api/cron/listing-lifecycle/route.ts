@@ -0,0 +1,50 @@
+/**
+ * Listing Lifecycle Job
+ *
+ * GET|POST /api/cron/listing-lifecycle
+ *
+ * PURPOSE:
+ * - Publica las propiedades programadas, envía el email "¿sigue disponible?"
+ *   y archiva las publicaciones sin renovar
+ * - Ejecutar cada 10-15 minutos desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run listings:lifecycle
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { revalidatePath } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { runListingLifecycle } from "@/lib/listings/lifecycle";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runListingLifecycle();
+
+    // Public listings changed: refresh ISR pages without waiting for revalidate
+    if (summary.published > 0 || summary.archived > 0) {
+      revalidatePath("/");
+      revalidatePath("/propiedades");
+      revalidatePath("/mapa");
+    }
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Listing lifecycle failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to run listing lifecycle" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
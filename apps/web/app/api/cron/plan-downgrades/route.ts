@@ -0,0 +1,51 @@
+/**
+ * Plan Downgrades Job
+ *
+ * GET|POST /api/cron/plan-downgrades
+ *
+ * PURPOSE:
+ * - Aplica los límites del plan a las publicaciones de los agentes cuyo
+ *   período de gracia tras un downgrade terminó (archiva, quita destacados
+ *   y oculta imágenes sobre el límite)
+ * - Ejecutar cada hora desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run downgrades:enforce
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { revalidatePath } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { enforceDowngrades } from "@/lib/subscription/downgrade";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await enforceDowngrades();
+
+    // Public listings changed: refresh ISR pages without waiting for revalidate
+    if (summary.enforced > 0) {
+      revalidatePath("/");
+      revalidatePath("/propiedades");
+      revalidatePath("/mapa");
+    }
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Plan downgrades failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to enforce plan downgrades" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,41 @@
+/**
+ * Saved Search Alerts Job
+ *
+ * GET|POST /api/cron/saved-search-alerts
+ *
+ * PURPOSE:
+ * - Envía el digest de propiedades nuevas a los usuarios con alertas
+ *   activas en sus búsquedas guardadas (como mucho uno al día por búsqueda)
+ * - Ejecutar cada hora desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run alerts:digest
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { sendSavedSearchDigests } from "@/lib/saved-searches/alerts";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await sendSavedSearchDigests();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Saved search alerts failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to send saved search alerts" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,41 @@
+/**
+ * Subscription Trials Job
+ *
+ * GET|POST /api/cron/subscription-trials
+ *
+ * PURPOSE:
+ * - Envía el aviso de fin de la prueba gratis y baja a FREE las pruebas
+ *   terminadas (con el período de gracia del downgrade)
+ * - Ejecutar cada hora desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run trials:process
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { processTrials } from "@/lib/subscription/trial";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await processTrials();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Subscription trials failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to process subscription trials" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
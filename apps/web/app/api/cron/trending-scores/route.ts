@@ -0,0 +1,50 @@
+/**
+ * Trending Scores Job
+ *
+ * GET|POST /api/cron/trending-scores
+ *
+ * PURPOSE:
+ * - Recalcula la vista materializada property_trending_scores
+ *   (manual_trending_scores.sql) que alimenta "Propiedades Populares"
+ * - Ejecutar cada 15-30 minutos desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run trending:refresh
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { propertyRepository } from "@repo/database";
+import { revalidatePath } from "next/cache";
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const startedAt = Date.now();
+    await propertyRepository.refreshTrendingScores();
+
+    // Homepage is ISR: show the new ranking without waiting for revalidate
+    revalidatePath("/");
+
+    return NextResponse.json({
+      success: true,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Trending scores refresh failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to refresh trending scores" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,41 @@
+/**
+ * Webhook Replay Job
+ *
+ * GET|POST /api/cron/webhook-replay
+ *
+ * PURPOSE:
+ * - Reintenta los webhooks de pagos FAILED (o abandonados a mitad) del
+ *   ledger, en el orden en que ocurrieron
+ * - Ejecutar cada 15-30 minutos desde un scheduler externo (Vercel Cron,
+ *   GitHub Actions, crontab) o manualmente: bun run webhooks:replay
+ *
+ * SECURITY:
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado la ruta queda deshabilitada
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron/authorize";
+import { replayWebhookEvents } from "@/lib/payments/lemonsqueezy-webhooks";
+import { logger } from "@/lib/utils/logger";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await replayWebhookEvents();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    logger.error({ err: error }, "[Cron] Webhook replay failed");
+    return NextResponse.json(
+      { success: false, error: "Failed to replay webhook events" },
+      { status: 500 },
+    );
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,25 @@
+/**
+ * Global Listings Feed
+ *
+ * GET /api/feeds/propiedades.xml   (Kyero v3)
+ * GET /api/feeds/propiedades.json  (JSON Feed 1.1)
+ *
+ * PURPOSE:
+ * - Publicar todo el inventario disponible en portales y catálogos de Meta
+ * - ETag/Last-Modified: 304 si el inventario no cambió
+ *
+ * @see lib/syndication/response.ts
+ */
+
+import type { NextRequest } from "next/server";
+import { createFeedResponse } from "@/lib/syndication/response";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ file: string }> },
+) {
+  const { file } = await params;
+  return createFeedResponse(request, file);
+}
@@ -0,0 +1,25 @@
+/**
+ * Agent Listings Feed
+ *
+ * GET /api/feeds/agentes/<agentId>/propiedades.xml   (Kyero v3)
+ * GET /api/feeds/agentes/<agentId>/propiedades.json  (JSON Feed 1.1)
+ *
+ * PURPOSE:
+ * - El agente conecta sus portales una vez en lugar de cargar cada propiedad
+ * - Solo propiedades disponibles del agente; 404 si el usuario no es agente
+ *
+ * @see lib/syndication/response.ts
+ */
+
+import type { NextRequest } from "next/server";
+import { createFeedResponse } from "@/lib/syndication/response";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ agentId: string; file: string }> },
+) {
+  const { agentId, file } = await params;
+  return createFeedResponse(request, file, agentId);
+}
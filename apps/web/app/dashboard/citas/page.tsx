@@ -3,15 +3,26 @@
  *
  * Panel de citas para agentes
  * Muestra todas las citas pendientes y confirmadas
- * Permite confirmar o cancelar citas
+ * Permite confirmar, cancelar o reprogramar citas
+ * Configuración del horario de visitas (reglas, overrides y días bloqueados)
+ * Enlace ICS para sincronizar las citas con el calendario del agente
  */
 
-import { AppointmentRepository } from "@repo/database";
+import {
+  AppointmentRepository,
+  availabilityRepository,
+  DEFAULT_AVAILABILITY_RULES,
+  db,
+  userRepository,
+} from "@repo/database";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { AppointmentActions } from "@/components/appointments/appointment-actions";
 import { AppointmentCard } from "@/components/appointments/appointment-card";
+import { AvailabilitySettings } from "@/components/appointments/availability-settings";
+import { CalendarFeedCard } from "@/components/appointments/calendar-feed-card";
 import { requireRole } from "@/lib/auth";
+import { getCalendarFeedUrl } from "@/lib/calendar/ics";
 
 export default async function DashboardCitasPage() {
   // Requerir que sea agente
@@ -23,9 +34,23 @@ export default async function DashboardCitasPage() {
 
   // Obtener citas del agente
   const appointmentRepository = new AppointmentRepository();
-  const appointments = await appointmentRepository.getAgentAppointments(
-    user.id,
-  );
+  const [
+    appointments,
+    availabilityRules,
+    blackoutDates,
+    properties,
+    calendarFeedToken,
+  ] = await Promise.all([
+    appointmentRepository.getAgentAppointments(user.id),
+    availabilityRepository.listRules(user.id),
+    availabilityRepository.listBlackoutDates(user.id),
+    db.property.findMany({
+      where: { agentId: user.id },
+      select: { id: true, title: true, visitDurationMinutes: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    userRepository.getCalendarFeedToken(user.id),
+  ]);
 
   // Separar citas por estado
   const pending = appointments.filter((apt) => apt.status === "PENDING");
@@ -72,6 +97,21 @@ export default async function DashboardCitasPage() {
         </div>
       </div>
 
+      {/* Calendar sync */}
+      <CalendarFeedCard
+        initialFeedUrl={
+          calendarFeedToken ? getCalendarFeedUrl(calendarFeedToken) : null
+        }
+      />
+
+      {/* Availability */}
+      <AvailabilitySettings
+        initialRules={availabilityRules}
+        initialBlackouts={blackoutDates}
+        defaultRules={DEFAULT_AVAILABILITY_RULES}
+        properties={properties}
+      />
+
       {/* Pending Appointments */}
       {pending.length > 0 && (
         <section>
@@ -92,6 +132,18 @@ export default async function DashboardCitasPage() {
                     {appointment.user.name} -{" "}
                     {format(appointment.scheduledAt, "PPpp", { locale: es })}
                   </p>
+                  {appointment.reschedules[0] && (
+                    <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400 mt-1">
+                      Reprogramada · antes:{" "}
+                      {format(
+                        appointment.reschedules[0].previousScheduledAt,
+                        "PPpp",
+                        {
+                          locale: es,
+                        },
+                      )}
+                    </p>
+                  )}
                   {appointment.notes && (
                     <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400 mt-2 italic">
                       Notas: {appointment.notes}
@@ -100,6 +152,8 @@ export default async function DashboardCitasPage() {
                 </div>
                 <AppointmentActions
                   appointmentId={appointment.id}
+                  propertyId={appointment.propertyId}
+                  scheduledAt={appointment.scheduledAt}
                   status={appointment.status}
                 />
               </div>
@@ -116,7 +170,14 @@ export default async function DashboardCitasPage() {
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {confirmed.map((appointment) => (
-              <AppointmentCard key={appointment.id} appointment={appointment} />
+              <AppointmentCard key={appointment.id} appointment={appointment}>
+                <AppointmentActions
+                  appointmentId={appointment.id}
+                  propertyId={appointment.propertyId}
+                  scheduledAt={appointment.scheduledAt}
+                  status={appointment.status}
+                />
+              </AppointmentCard>
             ))}
           </div>
         </section>
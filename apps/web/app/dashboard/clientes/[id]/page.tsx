@@ -0,0 +1,126 @@
+/**
+ * CLIENT DETAIL PAGE - CRM
+ *
+ * Ficha de un lead:
+ * - Registrar actividad (nota, llamada, WhatsApp, email)
+ * - Tareas de seguimiento con fecha límite
+ * - Timeline: actividades, cambios de etapa y citas
+ */
+
+import { agentClientRepository, leadActivityRepository } from "@repo/database";
+import { Avatar, AvatarFallback, AvatarImage } from "@repo/ui";
+import { ChevronLeft, Home, Mail, Phone } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ClientActions } from "@/components/crm/client-actions";
+import { ClientStatusBadge } from "@/components/crm/client-status-badge";
+import { LeadActivityForm } from "@/components/crm/lead-activity-form";
+import { LeadTasks } from "@/components/crm/lead-tasks";
+import { LeadTimeline } from "@/components/crm/lead-timeline";
+import { requireRole } from "@/lib/auth";
+import { generateSlug } from "@/lib/utils/slug-generator";
+
+interface ClientDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function ClientDetailPage({
+  params,
+}: ClientDetailPageProps) {
+  const user = await requireRole(["AGENT", "ADMIN"]);
+  const { id } = await params;
+
+  const lead = await agentClientRepository.getById(id, user.id);
+
+  if (!lead) {
+    notFound();
+  }
+
+  const [timeline, tasks] = await Promise.all([
+    leadActivityRepository.getTimeline(lead.id, user.id),
+    leadActivityRepository.listTasksForLead(lead.id, user.id),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <Link
+        href="/dashboard/clientes"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Volver a clientes
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Avatar className="h-14 w-14">
+            <AvatarImage src={lead.contact.avatar || ""} />
+            <AvatarFallback>
+              {lead.contact.name?.substring(0, 2).toUpperCase() || "CL"}
+            </AvatarFallback>
+          </Avatar>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold tracking-tight">
+                {lead.contact.name || "Usuario"}
+              </h1>
+              <ClientStatusBadge status={lead.status} />
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+              {lead.contact.email && (
+                <a
+                  href={`mailto:${lead.contact.email}`}
+                  className="flex items-center gap-1 hover:text-foreground"
+                >
+                  <Mail className="h-3.5 w-3.5" />
+                  {lead.contact.email}
+                </a>
+              )}
+              {lead.contact.phone && (
+                <a
+                  href={`tel:${lead.contact.phone}`}
+                  className="flex items-center gap-1 hover:text-foreground"
+                >
+                  <Phone className="h-3.5 w-3.5" />
+                  {lead.contact.phone}
+                </a>
+              )}
+              {lead.property && (
+                <Link
+                  href={`/propiedades/${lead.property.id}-${generateSlug(lead.property.title)}`}
+                  className="flex items-center gap-1 text-primary hover:underline"
+                >
+                  <Home className="h-3.5 w-3.5" />
+                  {lead.property.title}
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+        <ClientActions clientId={lead.id} currentStatus={lead.status} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Activity */}
+        <div className="space-y-6 lg:col-span-2">
+          <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+            <h2 className="font-semibold">Registrar actividad</h2>
+            <LeadActivityForm agentClientId={lead.id} />
+          </div>
+          <div className="rounded-lg border border-border bg-card p-6 space-y-4">
+            <h2 className="font-semibold">Historial</h2>
+            <LeadTimeline entries={timeline} />
+          </div>
+        </div>
+
+        {/* Follow-up Tasks */}
+        <div className="rounded-lg border border-border bg-card p-6 space-y-4 h-fit">
+          <h2 className="font-semibold">Seguimiento</h2>
+          <LeadTasks agentClientId={lead.id} tasks={tasks} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,22 +3,30 @@
  * 
  * Manages agent's clients with:
  * - Lead status tracking (NEW → CLOSED)
- * - Notes per client
+ * - Notes per client (activity timeline + follow-up tasks in /dashboard/clientes/[id])
  * - Property interest
+ * - Pipeline view (?vista=pipeline): kanban with drag & drop between stages
+ * - Export to CSV/XLSX and bulk import with column mapping + dry-run preview
  * 
  * Available for AGENT tier and above.
  */
 
 import { ClientActions } from "@/components/crm/client-actions";
 import { ClientStatusBadge } from "@/components/crm/client-status-badge";
+import { ContactsImportDialog } from "@/components/crm/contacts-import-dialog";
+import { PipelineBoard } from "@/components/crm/pipeline-board";
 import { requireRole } from "@/lib/auth";
-import { db } from "@repo/database/src/client";
-import { Avatar, AvatarFallback, AvatarImage } from "@repo/ui";
+import { cn } from "@/lib/utils";
+import { agentClientRepository } from "@repo/database";
+import { Avatar, AvatarFallback, AvatarImage, Button } from "@repo/ui";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import {
     CheckCircle2,
     Clock,
+    Columns3,
+    Download,
+    List,
     Mail,
     MessageSquare,
     Phone,
@@ -27,6 +35,7 @@ import {
     Users,
     XCircle
 } from "lucide-react";
+import Link from "next/link";
 
 // Status configuration for display
 const STATUS_CONFIG = {
@@ -38,35 +47,17 @@ const STATUS_CONFIG = {
   CLOSED_LOST: { label: "Perdido", icon: XCircle, color: "bg-red-500" },
 } as const;
 
-export default async function ClientsPage() {
+interface ClientsPageProps {
+  searchParams: Promise<{ vista?: string }>;
+}
+
+export default async function ClientsPage({ searchParams }: ClientsPageProps) {
   const user = await requireRole(["AGENT", "ADMIN"]);
+  const { vista } = await searchParams;
+  const isPipelineView = vista === "pipeline";
 
-  // Fetch clients from AgentClient model
-  const agentClients = await db.agentClient.findMany({
-    where: {
-      agentId: user.id,
-    },
-    include: {
-      client: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-          avatar: true,
-        },
-      },
-      property: {
-        select: {
-          id: true,
-          title: true,
-        },
-      },
-    },
-    orderBy: {
-      updatedAt: "desc",
-    },
-  });
+  // Fetch clients (with pipeline history) from AgentClient model
+  const agentClients = await agentClientRepository.listByAgent(user.id);
 
   // Count by status for stats
   const statusCounts = agentClients.reduce((acc, client) => {
@@ -85,8 +76,51 @@ export default async function ClientsPage() {
           </p>
         </div>
         {/* TODO: Add manual client button */}
+        <div className="flex flex-wrap items-center gap-2 self-start">
+        <ContactsImportDialog />
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/crm/export?formato=csv" download>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </a>
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/crm/export?formato=xlsx" download>
+            <Download className="h-4 w-4 mr-2" />
+            Excel
+          </a>
+        </Button>
+        <div className="inline-flex rounded-lg border border-border p-1">
+          <Link
+            href="/dashboard/clientes"
+            className={cn(
+              "flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium",
+              !isPipelineView ? "bg-muted" : "text-muted-foreground"
+            )}
+            aria-current={!isPipelineView ? "page" : undefined}
+          >
+            <List className="h-4 w-4" />
+            Lista
+          </Link>
+          <Link
+            href="/dashboard/clientes?vista=pipeline"
+            className={cn(
+              "flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium",
+              isPipelineView ? "bg-muted" : "text-muted-foreground"
+            )}
+            aria-current={isPipelineView ? "page" : undefined}
+          >
+            <Columns3 className="h-4 w-4" />
+            Pipeline
+          </Link>
+        </div>
+        </div>
       </div>
 
+      {isPipelineView ? (
+        <PipelineBoard leads={agentClients} />
+      ) : (
+      <>
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
         {Object.entries(STATUS_CONFIG).map(([status, config]) => {
@@ -158,24 +192,27 @@ export default async function ClientsPage() {
                     <td className="p-4">
                       <div className="flex items-center gap-3">
                         <Avatar className="h-10 w-10">
-                          <AvatarImage src={agentClient.client.avatar || ""} />
+                          <AvatarImage src={agentClient.contact.avatar || ""} />
                           <AvatarFallback>
-                            {agentClient.client.name?.substring(0, 2).toUpperCase() || "CL"}
+                            {agentClient.contact.name?.substring(0, 2).toUpperCase() || "CL"}
                           </AvatarFallback>
                         </Avatar>
                         <div>
-                          <p className="font-medium">
-                            {agentClient.client.name || "Usuario"}
-                          </p>
+                          <Link
+                            href={`/dashboard/clientes/${agentClient.id}`}
+                            className="font-medium hover:underline"
+                          >
+                            {agentClient.contact.name || "Usuario"}
+                          </Link>
                           <div className="flex items-center gap-3 text-xs text-muted-foreground">
                             <span className="flex items-center gap-1">
                               <Mail className="h-3 w-3" />
-                              {agentClient.client.email}
+                              {agentClient.contact.email}
                             </span>
-                            {agentClient.client.phone && (
+                            {agentClient.contact.phone && (
                               <span className="hidden sm:flex items-center gap-1">
                                 <Phone className="h-3 w-3" />
-                                {agentClient.client.phone}
+                                {agentClient.contact.phone}
                               </span>
                             )}
                           </div>
@@ -228,7 +265,6 @@ export default async function ClientsPage() {
                       <ClientActions 
                         clientId={agentClient.id}
                         currentStatus={agentClient.status}
-                        currentNotes={agentClient.notes || ""}
                       />
                     </td>
                   </tr>
@@ -238,6 +274,8 @@ export default async function ClientsPage() {
           </div>
         )}
       </div>
+      </>
+      )}
     </div>
   );
 }
@@ -26,9 +26,9 @@ export default async function DashboardLayout({
   // Verificar que el usuario sea AGENT o ADMIN
   const user = await requireRole(["AGENT", "ADMIN"]);
 
-  // Fetch usage stats for Sidebar
+  // Fetch usage stats for Sidebar (archived listings don't use the plan)
   const propertyCount = await db.property.count({
-    where: { agentId: user.id },
+    where: { agentId: user.id, visibility: { not: "ARCHIVED" } },
   });
 
   const usageStats = {
@@ -8,6 +8,7 @@
  * - Real-time statistics from database
  * - Property count by status (active, draft, sold)
  * - Appointment tracking
+ * - Pending CRM follow-up tasks
  * - View statistics
  * - Responsive grid layout
  */
@@ -30,6 +31,7 @@ import {
 import { getUtmSourceStats } from "@/lib/dashboard/utm-analytics-helpers";
 import { canCreateProperty, getPropertyLimit } from "@/lib/permissions/property-limits";
 import { TIER_RANKS, type TierName } from "@/lib/pricing/tiers";
+import { leadActivityRepository } from "@repo/database";
 import { db } from "@repo/database/src/client";
 import { Building2, Calendar, Eye, Heart, TrendingUp, Users } from "lucide-react";
 
@@ -46,7 +48,7 @@ export default async function DashboardPage() {
   const propertyLimit = getPropertyLimit(userTier);
 
   // Fetch base data for all tiers in parallel
-  const [propertiesData, appointmentsData, recentFavorites, recentProperties, utmStats] = await Promise.all([
+  const [propertiesData, appointmentsData, recentFavorites, recentProperties, utmStats, pendingTasks] = await Promise.all([
     // Total properties and status breakdown
     db.property.findMany({
       where: { agentId: user.id },
@@ -90,6 +92,8 @@ export default async function DashboardPage() {
     }),
     // UTM Stats (only if advanced analytics allowed)
     hasAdvancedAnalytics ? getUtmSourceStats(user.id) : Promise.resolve([]),
+    // CRM follow-up tasks (overdue first)
+    leadActivityRepository.listPendingTasks(user.id),
   ]);
 
   // Fetch tier-specific analytics
@@ -321,7 +325,7 @@ export default async function DashboardPage() {
           />
 
           {/* Recent Activity */}
-          <RecentActivity activities={recentActivities} />
+          <RecentActivity activities={recentActivities} tasks={pendingTasks} />
           
           {/* UTM Source Analytics (AGENT/PRO only) */}
           {hasAdvancedAnalytics && (
@@ -1,10 +1,11 @@
 import { requireRole } from "@/lib/auth";
 import { canCreateProperty, getImageLimit } from "@/lib/permissions/property-limits";
-import { db } from "@repo/database";
+import { db, propertyDraftRepository } from "@repo/database";
 import { Button } from "@repo/ui";
 import { AlertCircle, CheckCircle, Sparkles } from "lucide-react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
+import { notFound } from "next/navigation";
 
 // Lazy load property form (heavy component with validation + image uploads)
 // Reduces initial bundle size by ~50-100KB
@@ -26,9 +27,14 @@ const NewPropertyClient = dynamic(
   }
 );
 
-export default async function NewPropertyPage() {
+interface NewPropertyPageProps {
+  searchParams: Promise<{ borrador?: string }>;
+}
+
+export default async function NewPropertyPage({ searchParams }: NewPropertyPageProps) {
   // 1. Verify Authentication & Role
   const user = await requireRole(["AGENT", "ADMIN"]);
+  const { borrador } = await searchParams;
 
   // 2. Check Limits
   const permission = await canCreateProperty(user.id);
@@ -146,6 +152,28 @@ export default async function NewPropertyPage() {
     );
   }
 
-  // 3. Render Wizard if allowed
-  return <NewPropertyClient maxImages={imageLimit} />;
+  // 3. Resume a server-side draft (/dashboard/propiedades/nueva?borrador=<id>)
+  // Drafts don't count toward the limit, so this runs after the check above
+  const draft = borrador
+    ? await propertyDraftRepository.findByIdForAgent(borrador, user.id)
+    : null;
+
+  if (borrador && !draft) {
+    notFound();
+  }
+
+  // 4. Render Wizard if allowed
+  return (
+    <NewPropertyClient
+      maxImages={imageLimit}
+      draft={
+        draft && {
+          id: draft.id,
+          data: draft.data,
+          imageUrls: draft.imageUrls,
+          currentStep: draft.currentStep,
+        }
+      }
+    />
+  );
 }
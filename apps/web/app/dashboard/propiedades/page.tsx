@@ -8,10 +8,23 @@
 
 import { AgentPropertyCard } from "@/components/dashboard/agent-property-card";
 import { NewPropertyButton } from "@/components/dashboard/new-property-button";
+import { PropertyDraftsList } from "@/components/dashboard/property-drafts-list";
+import { PropertyImportDialog } from "@/components/dashboard/property-import-dialog";
+import { SyndicationFeedCard } from "@/components/dashboard/syndication-feed-card";
 import { requireRole } from "@/lib/auth";
 import { canCreateProperty, getPropertyLimit } from "@/lib/permissions/property-limits";
 import type { TierName } from "@/lib/pricing/tiers";
+import { planDowngrade } from "@/lib/subscription/downgrade";
+import { getFeedUrl } from "@/lib/syndication/feed";
+import {
+  getListingArchiveDate,
+  getListingLifecycleCutoffs,
+  planDowngradeRepository,
+  propertyDraftRepository,
+} from "@repo/database";
 import { db } from "@repo/database/src/client";
+import { AlertTriangle } from "lucide-react";
+import Link from "next/link";
 
 export default async function PropiedadesPage() {
   // Verificar que el usuario es AGENT o ADMIN
@@ -45,6 +58,11 @@ export default async function PropiedadesPage() {
       longitude: true,
       agentId: true,
       isFeatured: true,
+      visibility: true,
+      publishAt: true,
+      refreshedAt: true,
+      keepOnDowngrade: true,
+      downgradedAt: true,
       createdAt: true,
       updatedAt: true,
       images: {
@@ -78,6 +96,19 @@ export default async function PropiedadesPage() {
     take: 100,
   });
 
+  // Wizard drafts (server-side autosave) - not counted by canCreateProperty
+  const drafts = await propertyDraftRepository.listByAgent(user.id);
+
+  // Archived listings stay in the list but don't use the plan
+  const activeCount = properties.filter((p) => p.visibility !== "ARCHIVED").length;
+  const { reminderCutoff } = getListingLifecycleCutoffs(new Date());
+
+  // Plan lapsed: preview which listings stay live when the grace period ends
+  const downgradeGraceEndsAt = await planDowngradeRepository.findGracePeriodEnd(user.id);
+  const downgradePlan = downgradeGraceEndsAt
+    ? planDowngrade(await planDowngradeRepository.findAgentListings(user.id), userTier)
+    : null;
+
   // Serialize Decimal values for client component compatibility
   // Also map isFeatured to featured for AgentPropertyCard compatibility
   const serializedProperties = properties.map((p) => ({
@@ -101,15 +132,47 @@ export default async function PropiedadesPage() {
           </p>
         </div>
 
-        {serializedProperties.length > 0 && (
-          <NewPropertyButton
-            canCreate={propertyPermission.allowed}
-            currentTier={userTier}
-            propertyLimit={propertyLimit}
+        <div className="flex items-center gap-2">
+          <PropertyImportDialog
+            remaining={Math.max(0, propertyLimit - activeCount)}
           />
-        )}
+          {serializedProperties.length > 0 && (
+            <NewPropertyButton
+              canCreate={propertyPermission.allowed}
+              currentTier={userTier}
+              propertyLimit={propertyLimit}
+            />
+          )}
+        </div>
       </div>
 
+      {/* Plan downgrade grace period */}
+      {downgradeGraceEndsAt && downgradePlan && (
+        <div className="flex items-start gap-3 rounded-xl border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+          <AlertTriangle className="h-5 w-5 shrink-0 text-amber-500" />
+          <div className="space-y-1">
+            <p className="font-semibold">
+              Tu plan venció. El{" "}
+              {downgradeGraceEndsAt.toLocaleDateString("es-ES", { day: "numeric", month: "long" })}{" "}
+              se aplicarán los límites de tu plan actual.
+            </p>
+            <p className="text-muted-foreground">
+              Seguirán publicadas {downgradePlan.keep.length} de {activeCount}{" "}
+              {activeCount === 1 ? "propiedad" : "propiedades"}: marca <strong>Mantener</strong> en
+              las que quieras conservar (si no eliges, quedan las más recientes). Nada se elimina y
+              todo vuelve a publicarse si{" "}
+              <Link href="/dashboard/suscripcion" className="font-medium text-primary hover:underline">
+                renuevas tu plan
+              </Link>
+              .
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Unpublished wizard drafts */}
+      <PropertyDraftsList drafts={drafts} />
+
       {/* Properties Grid */}
       {serializedProperties.length === 0 ? (
         <div className="text-center py-12">
@@ -126,7 +189,21 @@ export default async function PropiedadesPage() {
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 isolate">
           {serializedProperties.map((property) => (
-            <AgentPropertyCard key={property.id} property={property as any} />
+            <AgentPropertyCard
+              key={property.id}
+              property={property as any}
+              archivesAt={getListingArchiveDate(property.refreshedAt)}
+              renewalDue={property.refreshedAt <= reminderCutoff}
+              downgrade={
+                downgradeGraceEndsAt && downgradePlan && property.visibility !== "ARCHIVED"
+                  ? {
+                      appliesAt: downgradeGraceEndsAt,
+                      kept: property.keepOnDowngrade,
+                      willArchive: downgradePlan.archive.includes(property.id),
+                    }
+                  : undefined
+              }
+            />
           ))}
         </div>
       )}
@@ -140,6 +217,14 @@ export default async function PropiedadesPage() {
           </p>
         </div>
       )}
+
+      {/* Syndication feeds */}
+      {serializedProperties.length > 0 && (
+        <SyndicationFeedCard
+          xmlUrl={getFeedUrl("xml", user.id)}
+          jsonUrl={getFeedUrl("json", user.id)}
+        />
+      )}
     </div>
   );
 }
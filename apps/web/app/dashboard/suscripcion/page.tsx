@@ -7,6 +7,8 @@ import {
   getUserUsageStats,
   getUsageLimits,
 } from "@/lib/dashboard/subscription-helpers";
+import { getTrialDaysLeft, TRIAL_DAYS } from "@/lib/subscription/trial";
+import { subscriptionTrialRepository } from "@repo/database";
 import { Card, CardContent, CardHeader } from "@repo/ui";
 import { CreditCard, Receipt } from "lucide-react";
 import type { Metadata } from "next";
@@ -25,6 +27,20 @@ export default async function SubscriptionPage() {
   const limits = getUsageLimits(user.subscriptionTier);
   const usage = combineUsageWithLimits(stats, limits);
 
+  // Free trial: countdown while it runs, offer if the agent never subscribed
+  const activeTrial = await subscriptionTrialRepository.findActiveByUser(user.id);
+  const trial = activeTrial?.trialEndsAt
+    ? {
+        endsAt: activeTrial.trialEndsAt,
+        daysLeft: getTrialDaysLeft(activeTrial.trialEndsAt),
+        totalDays: TRIAL_DAYS,
+      }
+    : null;
+  const canStartTrial =
+    user.role === "AGENT" &&
+    user.subscriptionTier === "FREE" &&
+    !(await subscriptionTrialRepository.hasSubscription(user.id));
+
   return (
     <div className="max-w-7xl mx-auto space-y-8">
       {/* Page Header */}
@@ -40,7 +56,11 @@ export default async function SubscriptionPage() {
         {/* Left Column: Current Plan + Usage */}
         <div className="lg:col-span-2 space-y-6">
           {/* Current Plan */}
-          <CurrentPlanCard tier={user.subscriptionTier} />
+          <CurrentPlanCard
+            tier={user.subscriptionTier}
+            trial={trial}
+            trialOffer={canStartTrial ? { days: TRIAL_DAYS } : null}
+          />
 
           {/* Usage Stats */}
           <UsageStatsCard usage={usage} />
@@ -0,0 +1,78 @@
+/**
+ * PERFIL - BÚSQUEDAS GUARDADAS PAGE
+ *
+ * Lista de búsquedas guardadas del usuario
+ * Permite activar/desactivar alertas por email y eliminar búsquedas
+ */
+
+import { ArrowLeft, BellRing } from "lucide-react";
+import Link from "next/link";
+import { getSavedSearchesAction } from "@/app/actions/saved-searches";
+import { requireAuth } from "@/lib/auth";
+import { SavedSearchesList } from "./saved-searches-list";
+
+export default async function PerfilBusquedasPage() {
+  await requireAuth();
+
+  const { data: savedSearches, error } = await getSavedSearchesAction();
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/perfil"
+              className="p-2 rounded-lg hover:bg-accent transition-colors"
+              aria-label="Volver al perfil"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold">Mis Búsquedas</h1>
+              <p className="text-sm text-muted-foreground">
+                {savedSearches.length}{" "}
+                {savedSearches.length === 1
+                  ? "búsqueda guardada"
+                  : "búsquedas guardadas"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {error ? (
+            <div className="text-center py-12">
+              <p className="text-destructive">{error}</p>
+            </div>
+          ) : savedSearches.length === 0 ? (
+            <div className="text-center py-12 space-y-4">
+              <BellRing className="h-16 w-16 mx-auto text-muted-foreground/50" />
+              <div>
+                <h2 className="text-xl font-semibold mb-2">
+                  No tienes búsquedas guardadas
+                </h2>
+                <p className="text-muted-foreground mb-4">
+                  Aplica filtros en el listado y pulsa "Guardar búsqueda" para
+                  recibir alertas de nuevas propiedades
+                </p>
+                <Link
+                  href="/propiedades"
+                  className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors"
+                >
+                  Buscar Propiedades
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <SavedSearchesList initialSearches={savedSearches} />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * SAVED SEARCHES LIST - Client Component
+ *
+ * Handles interactive saved searches list with alert toggle and delete
+ */
+
+"use client";
+
+import type { SavedSearchWithFilters } from "@repo/database";
+import { Bell, BellOff, Search, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  deleteSavedSearchAction,
+  toggleSavedSearchAlertsAction,
+} from "@/app/actions/saved-searches";
+import { AMENITY_LABELS, isAmenityId } from "@/lib/constants/amenities";
+import { formatPrice } from "@/lib/utils/price-helpers";
+import {
+  CATEGORY_LABELS,
+  TRANSACTION_TYPE_LABELS,
+} from "@/lib/utils/property-formatters";
+import { buildFilterUrl } from "@/lib/utils/url-helpers";
+
+interface SavedSearchesListProps {
+  initialSearches: SavedSearchWithFilters[];
+}
+
+/**
+ * Build the listing URL that reproduces a saved search
+ */
+function buildSavedSearchHref(search: SavedSearchWithFilters): string {
+  const params = new URLSearchParams(
+    buildFilterUrl({
+      ...search.filters,
+      amenities: search.filters.amenities?.filter(isAmenityId),
+    }),
+  );
+
+  if (search.bounds) {
+    params.set("ne_lat", search.bounds.ne_lat.toString());
+    params.set("ne_lng", search.bounds.ne_lng.toString());
+    params.set("sw_lat", search.bounds.sw_lat.toString());
+    params.set("sw_lng", search.bounds.sw_lng.toString());
+  }
+
+  const query = params.toString();
+  return query ? `/propiedades?${query}` : "/propiedades";
+}
+
+/**
+ * Human-readable summary of the saved filters
+ */
+function describeFilters(search: SavedSearchWithFilters): string {
+  const { filters } = search;
+  const parts: string[] = [];
+
+  if (filters.transactionType?.length) {
+    parts.push(
+      filters.transactionType
+        .map((t) => TRANSACTION_TYPE_LABELS[t])
+        .join(" / "),
+    );
+  }
+  if (filters.category?.length) {
+    parts.push(filters.category.map((c) => CATEGORY_LABELS[c]).join(", "));
+  }
+  if (filters.city) {
+    parts.push(filters.city);
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const min =
+      filters.minPrice !== undefined ? formatPrice(filters.minPrice) : "$0";
+    const max =
+      filters.maxPrice !== undefined
+        ? formatPrice(filters.maxPrice)
+        : "Sin límite";
+    parts.push(`${min} - ${max}`);
+  }
+  if (filters.bedrooms) {
+    parts.push(`${filters.bedrooms}+ hab.`);
+  }
+  if (filters.bathrooms) {
+    parts.push(`${filters.bathrooms}+ baños`);
+  }
+  if (filters.search) {
+    parts.push(`"${filters.search}"`);
+  }
+  if (filters.amenities?.length) {
+    const labels = filters.amenities.map((amenity) =>
+      isAmenityId(amenity) ? AMENITY_LABELS[amenity] : amenity,
+    );
+    parts.push(labels.join(filters.amenitiesMatch === "any" ? " o " : " + "));
+  }
+  if (search.bounds) {
+    parts.push("Área del mapa");
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : "Todas las propiedades";
+}
+
+export function SavedSearchesList({ initialSearches }: SavedSearchesListProps) {
+  const [searches, setSearches] = useState(initialSearches);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggleAlerts = (search: SavedSearchWithFilters) => {
+    setPendingId(search.id);
+
+    startTransition(async () => {
+      try {
+        const result = await toggleSavedSearchAlertsAction(
+          search.id,
+          !search.alertsEnabled,
+        );
+
+        if (result.success) {
+          setSearches((prev) =>
+            prev.map((s) =>
+              s.id === search.id
+                ? { ...s, alertsEnabled: !s.alertsEnabled }
+                : s,
+            ),
+          );
+          toast.success(
+            search.alertsEnabled ? "Alertas desactivadas" : "Alertas activadas",
+          );
+        } else {
+          toast.error(result.error || "Error al actualizar alertas");
+        }
+      } catch {
+        toast.error("Error al actualizar alertas");
+      } finally {
+        setPendingId(null);
+      }
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm("¿Eliminar esta búsqueda guardada?")) return;
+
+    setPendingId(id);
+
+    startTransition(async () => {
+      try {
+        const result = await deleteSavedSearchAction(id);
+
+        if (result.success) {
+          setSearches((prev) => prev.filter((s) => s.id !== id));
+          toast.success("Búsqueda eliminada");
+        } else {
+          toast.error(result.error || "Error al eliminar búsqueda");
+        }
+      } catch {
+        toast.error("Error al eliminar búsqueda");
+      } finally {
+        setPendingId(null);
+      }
+    });
+  };
+
+  if (searches.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">
+          Has eliminado todas tus búsquedas guardadas
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {searches.map((search) => {
+        const isBusy = pendingId === search.id || isPending;
+
+        return (
+          <div
+            key={search.id}
+            className="flex items-center gap-4 rounded-lg border border-border bg-card p-4"
+          >
+            <Search className="h-5 w-5 shrink-0 text-primary" />
+
+            <Link
+              href={buildSavedSearchHref(search)}
+              className="min-w-0 flex-1"
+            >
+              <h3 className="font-semibold truncate">{search.name}</h3>
+              <p className="text-sm text-muted-foreground truncate">
+                {describeFilters(search)}
+              </p>
+            </Link>
+
+            <button
+              type="button"
+              onClick={() => handleToggleAlerts(search)}
+              disabled={isBusy}
+              className="p-2 rounded-lg hover:bg-accent transition-colors disabled:opacity-50"
+              aria-label={
+                search.alertsEnabled ? "Desactivar alertas" : "Activar alertas"
+              }
+              title={
+                search.alertsEnabled
+                  ? "Alertas por email activadas"
+                  : "Alertas por email desactivadas"
+              }
+            >
+              {search.alertsEnabled ? (
+                <Bell className="h-5 w-5 text-primary" />
+              ) : (
+                <BellOff className="h-5 w-5 text-muted-foreground" />
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => handleDelete(search.id)}
+              disabled={isBusy}
+              className="p-2 rounded-lg hover:bg-destructive/10 text-destructive transition-colors disabled:opacity-50"
+              aria-label="Eliminar búsqueda"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Mis citas para usuarios
  * Muestra todas las citas del usuario actual
- * Permite cancelar citas pendientes
+ * Permite cancelar citas pendientes y reprogramar citas activas
  */
 
 import { AppointmentRepository } from "@repo/database";
@@ -57,6 +57,8 @@ export default async function PerfilCitasPage() {
             renderActions={(appointment) => (
               <ClientAppointmentActions
                 appointmentId={appointment.id}
+                propertyId={appointment.propertyId}
+                scheduledAt={appointment.scheduledAt}
                 status={appointment.status}
               />
             )}
@@ -74,6 +76,14 @@ export default async function PerfilCitasPage() {
             appointments={confirmed}
             variant="user"
             emptyMessage="No tienes citas confirmadas"
+            renderActions={(appointment) => (
+              <ClientAppointmentActions
+                appointmentId={appointment.id}
+                propertyId={appointment.propertyId}
+                scheduledAt={appointment.scheduledAt}
+                status={appointment.status}
+              />
+            )}
           />
         </section>
       )}
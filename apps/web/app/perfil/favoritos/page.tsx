@@ -2,12 +2,13 @@
  * PERFIL - FAVORITOS PAGE
  *
  * Lista de propiedades favoritas del usuario
- * Permite ver y eliminar favoritos
+ * Permite ver y eliminar favoritos, y agregarlos a la comparación
  */
 
 import { ArrowLeft, Heart } from "lucide-react";
 import Link from "next/link";
 import { getFavoritesWithDetailsAction } from "@/app/actions/favorites";
+import { CompareTray } from "@/components/compare/compare-tray";
 import { requireAuth } from "@/lib/auth";
 import { FavoritesList } from "./favorites-list";
 
@@ -73,6 +74,9 @@ export default async function PerfilFavoritosPage() {
           )}
         </div>
       </main>
+
+      {/* Favorites can be added to the comparison from here */}
+      <CompareTray />
     </div>
   );
 }
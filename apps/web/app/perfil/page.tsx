@@ -6,7 +6,7 @@
  * (ej: guardar favorito sin estar autenticado)
  */
 
-import { Building2, Calendar, Heart } from "lucide-react";
+import { BellRing, Building2, Calendar, Heart } from "lucide-react";
 import Link from "next/link";
 import { AuthSuccessHandler } from "@/components/auth/auth-success-handler";
 import { requireAuth } from "@/lib/auth";
@@ -54,7 +54,7 @@ export default async function PerfilPage() {
           </div>
 
           {/* Quick Links */}
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
             <Link
               href="/propiedades"
               className="rounded-lg border border-border bg-card p-6 shadow-sm transition-colors hover:bg-accent"
@@ -85,6 +85,17 @@ export default async function PerfilPage() {
               <h3 className="font-semibold mb-2">Mis Citas</h3>
               <p className="text-sm text-muted-foreground">Citas programadas</p>
             </Link>
+
+            <Link
+              href="/perfil/busquedas"
+              className="rounded-lg border border-border bg-card p-6 shadow-sm transition-colors hover:bg-accent"
+            >
+              <BellRing className="h-8 w-8 text-primary mb-4" />
+              <h3 className="font-semibold mb-2">Mis Búsquedas</h3>
+              <p className="text-sm text-muted-foreground">
+                Alertas de nuevas propiedades
+              </p>
+            </Link>
           </div>
 
           {/* Info Message */}
@@ -12,6 +12,7 @@ import {
   LogOut,
   Shield,
   Users,
+  Webhook,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -50,6 +51,11 @@ const navItems: NavItem[] = [
     href: "/admin/analytics",
     icon: BarChart3,
   },
+  {
+    title: "Webhooks",
+    href: "/admin/webhooks",
+    icon: Webhook,
+  },
 ];
 
 export function AdminSidebar({ userName }: AdminSidebarProps) {
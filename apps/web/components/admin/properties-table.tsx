@@ -26,6 +26,10 @@ interface PropertiesTableProps {
   currentPage: number;
   totalPages: number;
   total: number;
+  /** total es una estimación (al menos `total` filas) */
+  totalIsEstimate: boolean;
+  /** Cursor keyset de la página siguiente (null en la última) */
+  nextCursor: string | null;
 }
 
 const statusLabels = {
@@ -70,6 +74,8 @@ export function PropertiesTable({
   currentPage,
   totalPages,
   total,
+  totalIsEstimate,
+  nextCursor,
 }: PropertiesTableProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -108,9 +114,15 @@ export function PropertiesTable({
     });
   };
 
-  const goToPage = (page: number) => {
+  // Siguiente página por cursor; el resto (p. ej. "Anterior") por número
+  const goToPage = (page: number, cursor?: string | null) => {
     const params = new URLSearchParams(window.location.search);
     params.set("page", page.toString());
+    if (cursor) {
+      params.set("cursor", cursor);
+    } else {
+      params.delete("cursor");
+    }
     router.push(`/admin/propiedades?${params.toString()}`);
   };
 
@@ -283,7 +295,8 @@ export function PropertiesTable({
         <div className="flex items-center justify-between">
           <p className="text-sm text-muted-foreground">
             Mostrando {(currentPage - 1) * 20 + 1} -{" "}
-            {Math.min(currentPage * 20, total)} de {total}
+            {(currentPage - 1) * 20 + properties.length} de {total}
+            {totalIsEstimate && "+"}
           </p>
           <div className="flex items-center gap-2">
             <button
@@ -296,11 +309,12 @@ export function PropertiesTable({
             </button>
             <span className="text-sm">
               {currentPage} / {totalPages}
+              {totalIsEstimate && "+"}
             </span>
             <button
               type="button"
-              onClick={() => goToPage(currentPage + 1)}
-              disabled={currentPage === totalPages || isPending}
+              onClick={() => goToPage(currentPage + 1, nextCursor)}
+              disabled={!nextCursor || isPending}
               className="p-2 rounded-md border hover:bg-accent transition-colors disabled:opacity-50"
             >
               <ChevronRight className="h-4 w-4" />
@@ -33,6 +33,7 @@ export function UsersFilters({
 
     // Reset to page 1 when filtering
     params.delete("page");
+    params.delete("cursor");
 
     startTransition(() => {
       router.push(`/admin/usuarios?${params.toString()}`);
@@ -24,6 +24,10 @@ interface UsersTableProps {
   currentPage: number;
   totalPages: number;
   total: number;
+  /** total es una estimación (al menos `total` filas) */
+  totalIsEstimate: boolean;
+  /** Cursor keyset de la página siguiente (null en la última) */
+  nextCursor: string | null;
 }
 
 const roleLabels = {
@@ -50,6 +54,8 @@ export function UsersTable({
   currentPage,
   totalPages,
   total,
+  totalIsEstimate,
+  nextCursor,
 }: UsersTableProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -88,9 +94,15 @@ export function UsersTable({
     });
   };
 
-  const goToPage = (page: number) => {
+  // Siguiente página por cursor; el resto (p. ej. "Anterior") por número
+  const goToPage = (page: number, cursor?: string | null) => {
     const params = new URLSearchParams(window.location.search);
     params.set("page", page.toString());
+    if (cursor) {
+      params.set("cursor", cursor);
+    } else {
+      params.delete("cursor");
+    }
     router.push(`/admin/usuarios?${params.toString()}`);
   };
 
@@ -225,7 +237,8 @@ export function UsersTable({
         <div className="flex items-center justify-between">
           <p className="text-sm text-muted-foreground">
             Mostrando {(currentPage - 1) * 20 + 1} -{" "}
-            {Math.min(currentPage * 20, total)} de {total}
+            {(currentPage - 1) * 20 + users.length} de {total}
+            {totalIsEstimate && "+"}
           </p>
           <div className="flex items-center gap-2">
             <button
@@ -238,11 +251,12 @@ export function UsersTable({
             </button>
             <span className="text-sm">
               {currentPage} / {totalPages}
+              {totalIsEstimate && "+"}
             </span>
             <button
               type="button"
-              onClick={() => goToPage(currentPage + 1)}
-              disabled={currentPage === totalPages || isPending}
+              onClick={() => goToPage(currentPage + 1, nextCursor)}
+              disabled={!nextCursor || isPending}
               className="p-2 rounded-md border hover:bg-accent transition-colors disabled:opacity-50"
             >
               <ChevronRight className="h-4 w-4" />
@@ -0,0 +1,122 @@
+"use client";
+
+/**
+ * WEBHOOK EVENTS TABLE - Ledger de webhooks con payload y reintento
+ */
+
+import type { WebhookEventRecord, WebhookEventStatus } from "@repo/database";
+import { RotateCcw } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { replayWebhookEventAction } from "@/app/actions/admin";
+
+interface WebhookEventsTableProps {
+  events: WebhookEventRecord[];
+}
+
+const statusLabels: Record<WebhookEventStatus, string> = {
+  PENDING: "Pendiente",
+  PROCESSING: "Procesando",
+  PROCESSED: "Procesado",
+  SKIPPED: "Omitido",
+  FAILED: "Fallido",
+};
+
+const statusColors: Record<WebhookEventStatus, string> = {
+  PENDING:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  PROCESSING: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  PROCESSED:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  SKIPPED: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  FAILED: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+function formatDate(date: Date | null) {
+  if (!date) return "—";
+  return new Date(date).toLocaleString("es-EC", {
+    dateStyle: "short",
+    timeStyle: "medium",
+  });
+}
+
+export function WebhookEventsTable({ events }: WebhookEventsTableProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleReplay = (eventId: string) => {
+    startTransition(async () => {
+      const result = await replayWebhookEventAction(eventId);
+      if (result.success) {
+        toast.success("Evento reintentado");
+      } else {
+        toast.error(result.error || "No se pudo reintentar el evento");
+      }
+      router.refresh();
+    });
+  };
+
+  if (events.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card p-8 text-center text-sm text-muted-foreground">
+        No hay eventos que coincidan con los filtros
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-card divide-y divide-border">
+      {events.map((event) => (
+        <details key={event.id} className="group">
+          <summary className="flex flex-wrap items-center gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors">
+            <span
+              className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${statusColors[event.status]}`}
+            >
+              {statusLabels[event.status]}
+            </span>
+            <span className="font-medium text-sm">{event.eventName}</span>
+            <span className="text-xs text-muted-foreground">
+              {event.resourceId && `#${event.resourceId}`}
+              {event.userId && ` · usuario ${event.userId}`}
+            </span>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {formatDate(event.createdAt)} · {event.attempts}{" "}
+              {event.attempts === 1 ? "intento" : "intentos"}
+            </span>
+            {(event.status === "FAILED" || event.status === "PENDING") && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleReplay(event.id);
+                }}
+                disabled={isPending}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-md border border-input text-xs hover:bg-accent transition-colors disabled:opacity-50"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Reintentar
+              </button>
+            )}
+          </summary>
+
+          <div className="px-4 pb-4 space-y-2 text-sm">
+            <div className="grid gap-1 text-xs text-muted-foreground sm:grid-cols-2">
+              <div>ID de evento: {event.eventId}</div>
+              <div>Ocurrido: {formatDate(event.occurredAt)}</div>
+              <div>Procesado: {formatDate(event.processedAt)}</div>
+            </div>
+            {event.lastError && (
+              <p className="rounded-md bg-destructive/10 p-2 text-xs text-destructive">
+                {event.lastError}
+              </p>
+            )}
+            <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {JSON.stringify(event.payload, null, 2)}
+            </pre>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -3,30 +3,64 @@
 /**
  * APPOINTMENT ACTIONS - Client Component
  *
- * Botones para confirmar/cancelar citas
+ * Botones para confirmar/cancelar/reprogramar citas
  * Solo visible para agentes en sus citas
+ * Las citas confirmadas solo se pueden reprogramar
  */
 
 import { Button } from "@repo/ui";
-import { Check, X } from "lucide-react";
+import { CalendarClock, Check, X } from "lucide-react";
 import { useState, useTransition } from "react";
 import { updateAppointmentStatusAction } from "@/app/actions/appointments";
+import { RescheduleDialog } from "./reschedule-dialog";
 
 interface AppointmentActionsProps {
   appointmentId: string;
+  propertyId: string;
+  scheduledAt: Date;
   status: string;
 }
 
 export function AppointmentActions({
   appointmentId,
+  propertyId,
+  scheduledAt,
   status,
 }: AppointmentActionsProps) {
   const [showConfirm, setShowConfirm] = useState<"confirm" | "cancel" | null>(
     null,
   );
+  const [showReschedule, setShowReschedule] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
 
+  const rescheduleDialog = (
+    <RescheduleDialog
+      appointmentId={appointmentId}
+      propertyId={propertyId}
+      scheduledAt={scheduledAt}
+      isOpen={showReschedule}
+      onClose={() => setShowReschedule(false)}
+      description="El cliente recibirá un email con el nuevo horario."
+    />
+  );
+
+  if (status === "CONFIRMED") {
+    return (
+      <>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setShowReschedule(true)}
+        >
+          <CalendarClock className="w-4 h-4 mr-1" />
+          Reprogramar
+        </Button>
+        {rescheduleDialog}
+      </>
+    );
+  }
+
   if (status !== "PENDING") {
     return (
       <div className="text-sm text-oslo-gray-500">
@@ -100,9 +134,19 @@ export function AppointmentActions({
             <X className="w-4 h-4 mr-1" />
             Cancelar
           </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowReschedule(true)}
+            disabled={isPending}
+          >
+            <CalendarClock className="w-4 h-4 mr-1" />
+            Reprogramar
+          </Button>
         </>
       )}
       {error && <p className="text-sm text-red-600">{error}</p>}
+      {rescheduleDialog}
     </div>
   );
 }
@@ -75,6 +75,15 @@ export function AppointmentCard({
             {formatAppointmentDate(appointment.scheduledAt)}
           </p>
 
+          {appointment.reschedules[0] && (
+            <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+              Reprogramada · antes:{" "}
+              {formatAppointmentDate(
+                appointment.reschedules[0].previousScheduledAt,
+              )}
+            </p>
+          )}
+
           {showAgent && appointment.agent && (
             <p className="text-sm flex items-center gap-2 text-oslo-gray-700 dark:text-oslo-gray-300">
               <User className="w-4 h-4" />
@@ -4,7 +4,7 @@
  * APPOINTMENT FORM COMPONENT
  *
  * Formulario para que clientes creen una nueva cita
- * - Calendar picker para seleccionar fecha
+ * - Calendar picker para seleccionar fecha (solo días que atiende el agente)
  * - Dropdown de horarios disponibles
  * - Textarea opcional para notas
  * - Validación inline en tiempo real
@@ -12,6 +12,7 @@
  * - Accesibilidad completa
  */
 
+import type { AvailabilitySchedule } from "@repo/database";
 import {
   Button,
   Calendar,
@@ -29,12 +30,15 @@ import { AlertCircle, CheckCircle2, X } from "lucide-react";
 import { useEffect, useState, useTransition } from "react";
 import {
   createAppointmentAction,
+  getAvailabilityScheduleAction,
   getAvailableSlotsAction,
 } from "@/app/actions/appointments";
 import {
   formatHour,
+  formatVisitDuration,
+  getHoursForDate,
   getValidDateRange,
-  isWorkday,
+  isAvailableDay,
   validateAppointmentDateTime,
 } from "@/lib/constants/availability";
 
@@ -53,6 +57,9 @@ export function AppointmentForm({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  // Horario del agente para esta propiedad
+  const [schedule, setSchedule] = useState<AvailabilitySchedule | null>(null);
+
   // Form state
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
   const [selectedHour, setSelectedHour] = useState<string>("");
@@ -74,11 +81,22 @@ export function AppointmentForm({
     if (isBefore(date, startOfDay(minDate))) return true;
     // Deshabilitar fechas después del rango
     if (isBefore(maxDate, startOfDay(date))) return true;
-    // Deshabilitar fines de semana
-    if (!isWorkday(date)) return true;
+    // Deshabilitar días que el agente no atiende (o todos mientras carga)
+    if (!schedule || !isAvailableDay(date, schedule)) return true;
     return false;
   };
 
+  // Cargar horario del agente (reglas semanales + días bloqueados)
+  useEffect(() => {
+    getAvailabilityScheduleAction(propertyId).then((result) => {
+      if (result.success && result.schedule) {
+        setSchedule(result.schedule);
+      } else {
+        setError(result.error || "Error al cargar el horario del agente");
+      }
+    });
+  }, [propertyId]);
+
   // Notify parent of form changes
   useEffect(() => {
     if (selectedDate || selectedHour || notes) {
@@ -88,15 +106,17 @@ export function AppointmentForm({
 
   // Cargar slots disponibles cuando cambia la fecha
   useEffect(() => {
-    if (!selectedDate) {
+    if (!selectedDate || !schedule) {
       setAvailableSlots([]);
       return;
     }
 
     // Validar preventivamente que la fecha sea válida
     const tempDate = new Date(selectedDate);
-    tempDate.setHours(10, 0, 0, 0); // Usar 10am para validación (hora de negocio válida)
-    const validation = validateAppointmentDateTime(tempDate);
+    // Usar la primera hora que ofrece el agente ese día
+    const firstHour = getHoursForDate(selectedDate, schedule)[0] ?? 0;
+    tempDate.setHours(firstHour, 0, 0, 0);
+    const validation = validateAppointmentDateTime(tempDate, schedule);
     if (!validation.valid) {
       setSlotsError(validation.error || "Fecha inválida");
       setAvailableSlots([]);
@@ -123,7 +143,7 @@ export function AppointmentForm({
         setAvailableSlots([]);
       }
     });
-  }, [selectedDate, propertyId]);
+  }, [selectedDate, propertyId, schedule]);
 
   // Manejo de submit con UI optimista
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -132,7 +152,7 @@ export function AppointmentForm({
     // Marcar todos los campos como touched
     setTouched({ date: true, hour: true });
 
-    if (!selectedDate || !selectedHour) {
+    if (!selectedDate || !selectedHour || !schedule) {
       setError("Por favor selecciona una fecha y hora");
       return;
     }
@@ -142,7 +162,7 @@ export function AppointmentForm({
     appointmentDate.setHours(hour, 0, 0, 0);
 
     // Validar fecha/hora una vez más
-    const validation = validateAppointmentDateTime(appointmentDate);
+    const validation = validateAppointmentDateTime(appointmentDate, schedule);
     if (!validation.valid) {
       setError(validation.error || "Fecha o hora inválida");
       return;
@@ -294,6 +314,12 @@ export function AppointmentForm({
                   ))}
                 </SelectContent>
               </Select>
+              {schedule && (
+                <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+                  Duración de la visita:{" "}
+                  {formatVisitDuration(schedule.visitDurationMinutes)}
+                </p>
+              )}
               {touched.hour && !selectedHour && (
                 <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
                   <AlertCircle className="w-3 h-3" aria-hidden="true" />
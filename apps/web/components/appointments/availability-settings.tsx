@@ -0,0 +1,551 @@
+"use client";
+
+/**
+ * AVAILABILITY SETTINGS - Client Component
+ *
+ * Horario de visitas del agente en /dashboard/citas
+ * - Reglas semanales con varios bloques por día (permite pausas)
+ * - Override por propiedad (reemplaza el horario general)
+ * - Duración de la visita por propiedad
+ * - Días bloqueados para todas las propiedades o para una sola
+ */
+
+import type {
+  AvailabilityRule,
+  BlackoutDate,
+  WeeklyAvailabilityRule,
+} from "@repo/database";
+import {
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CalendarOff, Clock, Plus, Trash2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  addBlackoutDateAction,
+  deleteBlackoutDateAction,
+  saveVisitDurationAction,
+  saveWeeklyRulesAction,
+} from "@/app/actions/availability";
+import {
+  DAY_LABELS,
+  formatHour,
+  formatVisitDuration,
+  VISIT_DURATION_OPTIONS,
+  WEEK_DAYS_ORDER,
+} from "@/lib/constants/availability";
+
+const GENERAL_SCOPE = "general";
+
+const START_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const END_HOURS = Array.from({ length: 24 }, (_, hour) => hour + 1);
+
+interface AvailabilitySettingsProps {
+  initialRules: AvailabilityRule[];
+  initialBlackouts: BlackoutDate[];
+  /** Horario usado mientras el agente no configure el suyo */
+  defaultRules: WeeklyAvailabilityRule[];
+  properties: { id: string; title: string; visitDurationMinutes: number }[];
+}
+
+function toPropertyId(scope: string): string | null {
+  return scope === GENERAL_SCOPE ? null : scope;
+}
+
+function toWeeklyRules(rules: AvailabilityRule[]): WeeklyAvailabilityRule[] {
+  return rules.map(({ dayOfWeek, startHour, endHour }) => ({
+    dayOfWeek,
+    startHour,
+    endHour,
+  }));
+}
+
+/**
+ * Columna DATE (medianoche UTC) → fecha local para mostrar
+ */
+function formatBlackoutDate(date: Date): string {
+  const localDate = new Date(`${date.toISOString().slice(0, 10)}T00:00:00`);
+  return format(localDate, "EEEE d 'de' MMMM yyyy", { locale: es });
+}
+
+export function AvailabilitySettings({
+  initialRules,
+  initialBlackouts,
+  defaultRules,
+  properties,
+}: AvailabilitySettingsProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [blackouts, setBlackouts] = useState(initialBlackouts);
+  const [scope, setScope] = useState(GENERAL_SCOPE);
+  const [durations, setDurations] = useState<Record<string, number>>(() =>
+    Object.fromEntries(
+      properties.map((property) => [
+        property.id,
+        property.visitDurationMinutes,
+      ]),
+    ),
+  );
+  const [isPending, startTransition] = useTransition();
+
+  const generalRules = rules.filter((rule) => rule.propertyId === null);
+  const effectiveGeneralRules =
+    generalRules.length > 0 ? toWeeklyRules(generalRules) : defaultRules;
+
+  const rulesForScope = (value: string): WeeklyAvailabilityRule[] => {
+    if (value === GENERAL_SCOPE) return effectiveGeneralRules;
+    return toWeeklyRules(rules.filter((rule) => rule.propertyId === value));
+  };
+
+  const [draft, setDraft] = useState<WeeklyAvailabilityRule[]>(() =>
+    rulesForScope(GENERAL_SCOPE),
+  );
+
+  // Blackout form
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutScope, setBlackoutScope] = useState(GENERAL_SCOPE);
+  const [blackoutReason, setBlackoutReason] = useState("");
+
+  const isPropertyScope = scope !== GENERAL_SCOPE;
+  const hasOverride =
+    isPropertyScope && rules.some((rule) => rule.propertyId === scope);
+  // Propiedad sin override y sin edición en curso → usa el horario general
+  const usesGeneralSchedule =
+    isPropertyScope && !hasOverride && draft.length === 0;
+
+  const handleScopeChange = (value: string) => {
+    setScope(value);
+    setDraft(rulesForScope(value));
+  };
+
+  const updateBlock = (
+    index: number,
+    field: "startHour" | "endHour",
+    value: number,
+  ) => {
+    setDraft((prev) =>
+      prev.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)),
+    );
+  };
+
+  const addBlock = (dayOfWeek: number) => {
+    setDraft((prev) => [...prev, { dayOfWeek, startHour: 9, endHour: 13 }]);
+  };
+
+  const removeBlock = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const saveRules = (rulesToSave: WeeklyAvailabilityRule[]) => {
+    const propertyId = toPropertyId(scope);
+
+    // Sin reglas generales se volvería al horario por defecto
+    if (propertyId === null && rulesToSave.length === 0) {
+      toast.error("Agrega al menos un bloque horario");
+      return;
+    }
+    if (rulesToSave.some((rule) => rule.startHour >= rule.endHour)) {
+      toast.error("La hora de inicio debe ser anterior a la hora de fin");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const result = await saveWeeklyRulesAction({
+          propertyId,
+          rules: rulesToSave,
+        });
+
+        if (result.success && result.data) {
+          const saved = result.data;
+          setRules((prev) => [
+            ...prev.filter((rule) => rule.propertyId !== propertyId),
+            ...saved,
+          ]);
+          setDraft(toWeeklyRules(saved));
+          toast.success(
+            rulesToSave.length === 0
+              ? "La propiedad usará tu horario general"
+              : "Horario guardado",
+          );
+        } else {
+          toast.error(result.error || "Error al guardar el horario");
+        }
+      } catch {
+        toast.error("Error al guardar el horario");
+      }
+    });
+  };
+
+  const handleDurationChange = (minutes: number) => {
+    const propertyId = scope;
+
+    startTransition(async () => {
+      try {
+        const result = await saveVisitDurationAction({ propertyId, minutes });
+
+        if (result.success) {
+          setDurations((prev) => ({ ...prev, [propertyId]: minutes }));
+          toast.success("Duración de la visita guardada");
+        } else {
+          toast.error(result.error || "Error al guardar la duración");
+        }
+      } catch {
+        toast.error("Error al guardar la duración");
+      }
+    });
+  };
+
+  const handleAddBlackout = () => {
+    if (!blackoutDate) {
+      toast.error("Selecciona una fecha");
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const result = await addBlackoutDateAction({
+          propertyId: toPropertyId(blackoutScope),
+          date: blackoutDate,
+          reason: blackoutReason,
+        });
+
+        if (result.success && result.data) {
+          const created = result.data;
+          setBlackouts((prev) =>
+            [...prev, created].sort(
+              (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+            ),
+          );
+          setBlackoutDate("");
+          setBlackoutReason("");
+          toast.success("Día bloqueado");
+        } else {
+          toast.error(result.error || "Error al bloquear el día");
+        }
+      } catch {
+        toast.error("Error al bloquear el día");
+      }
+    });
+  };
+
+  const handleDeleteBlackout = (id: string) => {
+    startTransition(async () => {
+      try {
+        const result = await deleteBlackoutDateAction(id);
+
+        if (result.success) {
+          setBlackouts((prev) => prev.filter((b) => b.id !== id));
+          toast.success("Día desbloqueado");
+        } else {
+          toast.error(result.error || "Error al eliminar");
+        }
+      } catch {
+        toast.error("Error al eliminar");
+      }
+    });
+  };
+
+  return (
+    <section className="bg-white dark:bg-oslo-gray-900 rounded-lg border border-oslo-gray-200 dark:border-oslo-gray-800 p-6 space-y-8">
+      {/* Weekly rules */}
+      <div className="space-y-4">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-oslo-gray-950 dark:text-white flex items-center gap-2">
+              <Clock className="w-5 h-5" aria-hidden="true" />
+              Horario de visitas
+            </h2>
+            <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400 mt-1">
+              Los clientes solo podrán agendar citas dentro de estos horarios
+            </p>
+          </div>
+
+          <div className="w-full md:w-72 space-y-1">
+            <Label htmlFor="availability-scope">Aplicar a</Label>
+            <Select value={scope} onValueChange={handleScopeChange}>
+              <SelectTrigger id="availability-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GENERAL_SCOPE}>
+                  Todas mis propiedades
+                </SelectItem>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isPropertyScope && (
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <Label htmlFor="visit-duration" className="md:w-48">
+              Duración de la visita
+            </Label>
+            <Select
+              value={(durations[scope] ?? 60).toString()}
+              onValueChange={(value) => handleDurationChange(Number(value))}
+              disabled={isPending}
+            >
+              <SelectTrigger id="visit-duration" className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIT_DURATION_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {formatVisitDuration(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-oslo-gray-500">
+              Las citas ya agendadas conservan su duración
+            </p>
+          </div>
+        )}
+
+        {!isPropertyScope && generalRules.length === 0 && (
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            Aún no configuraste tu horario: se usa el horario por defecto (Lunes
+            a Viernes). Agrega bloques para atender también los fines de semana.
+          </p>
+        )}
+
+        {usesGeneralSchedule ? (
+          <div className="rounded-lg border border-dashed border-oslo-gray-300 dark:border-oslo-gray-700 p-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400">
+              Esta propiedad usa tu horario general.
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(effectiveGeneralRules)}
+            >
+              Personalizar horario
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-oslo-gray-200 dark:divide-oslo-gray-800">
+              {WEEK_DAYS_ORDER.map((dayOfWeek) => {
+                const blocks = draft
+                  .map((rule, index) => ({ rule, index }))
+                  .filter(({ rule }) => rule.dayOfWeek === dayOfWeek);
+
+                return (
+                  <div
+                    key={dayOfWeek}
+                    className="flex flex-col gap-2 py-3 md:flex-row md:items-start"
+                  >
+                    <p className="w-28 shrink-0 pt-2 font-medium text-oslo-gray-950 dark:text-white">
+                      {DAY_LABELS[dayOfWeek]}
+                    </p>
+
+                    <div className="flex-1 space-y-2">
+                      {blocks.length === 0 && (
+                        <p className="pt-2 text-sm text-oslo-gray-500">
+                          Sin visitas
+                        </p>
+                      )}
+                      {blocks.map(({ rule, index }) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select
+                            value={rule.startHour.toString()}
+                            onValueChange={(value) =>
+                              updateBlock(index, "startHour", Number(value))
+                            }
+                          >
+                            <SelectTrigger
+                              className="w-28"
+                              aria-label="Hora de inicio"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {START_HOURS.map((hour) => (
+                                <SelectItem key={hour} value={hour.toString()}>
+                                  {formatHour(hour)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="text-oslo-gray-500">a</span>
+                          <Select
+                            value={rule.endHour.toString()}
+                            onValueChange={(value) =>
+                              updateBlock(index, "endHour", Number(value))
+                            }
+                          >
+                            <SelectTrigger
+                              className="w-28"
+                              aria-label="Hora de fin"
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {END_HOURS.map((hour) => (
+                                <SelectItem key={hour} value={hour.toString()}>
+                                  {formatHour(hour)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <button
+                            type="button"
+                            onClick={() => removeBlock(index)}
+                            className="p-2 rounded-lg hover:bg-destructive/10 text-destructive transition-colors"
+                            aria-label="Eliminar bloque"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => addBlock(dayOfWeek)}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Bloque
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {hasOverride && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => saveRules([])}
+                >
+                  Usar horario general
+                </Button>
+              )}
+              <Button
+                type="button"
+                disabled={isPending}
+                onClick={() => saveRules(draft)}
+              >
+                {isPending ? "Guardando…" : "Guardar horario"}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Blackout dates */}
+      <div className="space-y-4 border-t border-oslo-gray-200 dark:border-oslo-gray-800 pt-6">
+        <div>
+          <h3 className="text-lg font-semibold text-oslo-gray-950 dark:text-white flex items-center gap-2">
+            <CalendarOff className="w-5 h-5" aria-hidden="true" />
+            Días bloqueados
+          </h3>
+          <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400 mt-1">
+            Vacaciones, feriados o días sin visitas
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-[auto_1fr_1fr_auto] md:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="blackout-date">Fecha</Label>
+            <Input
+              id="blackout-date"
+              type="date"
+              value={blackoutDate}
+              min={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setBlackoutDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="blackout-scope">Propiedad</Label>
+            <Select value={blackoutScope} onValueChange={setBlackoutScope}>
+              <SelectTrigger id="blackout-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GENERAL_SCOPE}>
+                  Todas mis propiedades
+                </SelectItem>
+                {properties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="blackout-reason">Motivo (opcional)</Label>
+            <Input
+              id="blackout-reason"
+              value={blackoutReason}
+              maxLength={120}
+              placeholder="Feriado, vacaciones…"
+              onChange={(e) => setBlackoutReason(e.target.value)}
+            />
+          </div>
+          <Button
+            type="button"
+            disabled={isPending || !blackoutDate}
+            onClick={handleAddBlackout}
+          >
+            Bloquear día
+          </Button>
+        </div>
+
+        {blackouts.length === 0 ? (
+          <p className="text-sm text-oslo-gray-500">
+            No tienes días bloqueados próximamente
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {blackouts.map((blackout) => (
+              <li
+                key={blackout.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-oslo-gray-200 dark:border-oslo-gray-800 px-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium capitalize text-oslo-gray-950 dark:text-white">
+                    {formatBlackoutDate(new Date(blackout.date))}
+                  </p>
+                  <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400 truncate">
+                    {blackout.property?.title ?? "Todas las propiedades"}
+                    {blackout.reason ? ` · ${blackout.reason}` : ""}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteBlackout(blackout.id)}
+                  disabled={isPending}
+                  className="p-2 rounded-lg hover:bg-destructive/10 text-destructive transition-colors disabled:opacity-50"
+                  aria-label="Desbloquear día"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+/**
+ * CALENDAR FEED CARD - Client Component
+ *
+ * Enlace de suscripción ICS para ver las citas en Google/Apple Calendar
+ * - Genera el enlace la primera vez
+ * - Copiar al portapapeles / abrir con webcal://
+ * - Regenerar invalida el enlace anterior
+ */
+
+import { Button, Input } from "@repo/ui";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { regenerateCalendarFeedAction } from "@/app/actions/appointments";
+
+interface CalendarFeedCardProps {
+  initialFeedUrl: string | null;
+}
+
+export function CalendarFeedCard({ initialFeedUrl }: CalendarFeedCardProps) {
+  const [feedUrl, setFeedUrl] = useState(initialFeedUrl);
+  const [isPending, startTransition] = useTransition();
+
+  const handleGenerate = () => {
+    if (
+      feedUrl &&
+      !confirm(
+        "El enlace actual dejará de funcionar en los calendarios donde lo agregaste. ¿Continuar?",
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result = await regenerateCalendarFeedAction();
+      if (result.success && result.feedUrl) {
+        setFeedUrl(result.feedUrl);
+        toast.success(feedUrl ? "Enlace regenerado" : "Enlace generado");
+      } else {
+        toast.error(result.error || "Error al generar el enlace");
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Enlace copiado");
+    } catch {
+      toast.error("No se pudo copiar el enlace");
+    }
+  };
+
+  return (
+    <section className="bg-white dark:bg-oslo-gray-900 rounded-lg border border-oslo-gray-200 dark:border-oslo-gray-800 p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-oslo-gray-950 dark:text-white flex items-center gap-2">
+          <CalendarPlus className="w-5 h-5" aria-hidden="true" />
+          Sincronizar con tu calendario
+        </h2>
+        <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400 mt-1">
+          Suscríbete desde Google Calendar, Apple Calendar u Outlook para ver
+          tus citas pendientes y confirmadas. Este enlace es privado: no lo
+          compartas.
+        </p>
+      </div>
+
+      {feedUrl ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={feedUrl}
+              aria-label="Enlace del calendario"
+              onFocus={(e) => e.target.select()}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCopy}
+              aria-label="Copiar enlace"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="outline" size="sm">
+              <a href={feedUrl.replace(/^https?:\/\//, "webcal://")}>
+                Abrir en Apple Calendar
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(feedUrl.replace(/^https?:\/\//, "webcal://"))}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Agregar a Google Calendar
+              </a>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={isPending}
+              onClick={handleGenerate}
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Regenerar enlace
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" disabled={isPending} onClick={handleGenerate}>
+          {isPending ? "Generando…" : "Generar enlace de calendario"}
+        </Button>
+      )}
+    </section>
+  );
+}
@@ -3,30 +3,37 @@
 /**
  * CLIENT APPOINTMENT ACTIONS - Client Component
  *
- * Botón de cancelación para clientes
- * Permite a los usuarios cancelar sus propias citas pendientes
+ * Botones de reprogramación y cancelación para clientes
+ * - Reprogramar citas pendientes o confirmadas (el agente confirma de nuevo)
+ * - Cancelar sus propias citas pendientes
  */
 
 import { Button } from "@repo/ui";
-import { X } from "lucide-react";
+import { CalendarClock, X } from "lucide-react";
 import { useState, useTransition } from "react";
 import { updateAppointmentStatusAction } from "@/app/actions/appointments";
+import { RescheduleDialog } from "./reschedule-dialog";
 
 interface ClientAppointmentActionsProps {
   appointmentId: string;
+  propertyId: string;
+  scheduledAt: Date;
   status: string;
 }
 
 export function ClientAppointmentActions({
   appointmentId,
+  propertyId,
+  scheduledAt,
   status,
 }: ClientAppointmentActionsProps) {
   const [showConfirm, setShowConfirm] = useState(false);
+  const [showReschedule, setShowReschedule] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
 
-  // Solo mostrar botón para citas pendientes
-  if (status !== "PENDING") {
+  // Solo mostrar botones para citas activas
+  if (status !== "PENDING" && status !== "CONFIRMED") {
     return null;
   }
 
@@ -73,20 +80,42 @@ export function ClientAppointmentActions({
           </div>
         </div>
       ) : (
-        <Button
-          size="sm"
-          variant="outline"
-          onClick={() => setShowConfirm(true)}
-          disabled={isPending}
-          className="w-full text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300 dark:text-red-400 dark:border-red-900 dark:hover:bg-red-950"
-        >
-          <X className="w-4 h-4 mr-1" />
-          Cancelar cita
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowReschedule(true)}
+            disabled={isPending}
+            className="flex-1"
+          >
+            <CalendarClock className="w-4 h-4 mr-1" />
+            Reprogramar
+          </Button>
+          {status === "PENDING" && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowConfirm(true)}
+              disabled={isPending}
+              className="flex-1 text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300 dark:text-red-400 dark:border-red-900 dark:hover:bg-red-950"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancelar cita
+            </Button>
+          )}
+        </div>
       )}
       {error && (
         <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>
       )}
+      <RescheduleDialog
+        appointmentId={appointmentId}
+        propertyId={propertyId}
+        scheduledAt={scheduledAt}
+        isOpen={showReschedule}
+        onClose={() => setShowReschedule(false)}
+        description="El agente deberá confirmar el nuevo horario."
+      />
     </div>
   );
 }
@@ -0,0 +1,267 @@
+"use client";
+
+/**
+ * RESCHEDULE DIALOG - Client Component
+ *
+ * Modal para cambiar el horario de una cita (cliente o agente)
+ * - Mismo calendario y horarios disponibles que al agendar
+ * - Motivo opcional (se incluye en el email de reprogramación)
+ * - El horario anterior queda en el historial de la cita
+ */
+
+import type { AvailabilitySchedule } from "@repo/database";
+import {
+  Button,
+  Calendar,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@repo/ui";
+import { format, isBefore, startOfDay } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertCircle } from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  getAvailabilityScheduleAction,
+  getAvailableSlotsAction,
+  rescheduleAppointmentAction,
+} from "@/app/actions/appointments";
+import {
+  formatHour,
+  getValidDateRange,
+  isAvailableDay,
+} from "@/lib/constants/availability";
+import { formatAppointmentDate } from "@/lib/utils/appointment-helpers";
+
+interface RescheduleDialogProps {
+  appointmentId: string;
+  propertyId: string;
+  scheduledAt: Date;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Texto extra bajo el título (ej: "El agente deberá confirmar el nuevo horario") */
+  description?: string;
+}
+
+export function RescheduleDialog({
+  appointmentId,
+  propertyId,
+  scheduledAt,
+  isOpen,
+  onClose,
+  description,
+}: RescheduleDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<AvailabilitySchedule | null>(null);
+
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedHour, setSelectedHour] = useState("");
+  const [availableSlots, setAvailableSlots] = useState<number[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const { min: minDate, max: maxDate } = getValidDateRange(30);
+  const disabledDates = (date: Date) => {
+    if (isBefore(date, startOfDay(minDate))) return true;
+    if (isBefore(maxDate, startOfDay(date))) return true;
+    if (!schedule || !isAvailableDay(date, schedule)) return true;
+    return false;
+  };
+
+  // Cargar horario del agente al abrir
+  useEffect(() => {
+    if (!isOpen || schedule) return;
+
+    getAvailabilityScheduleAction(propertyId).then((result) => {
+      if (result.success && result.schedule) {
+        setSchedule(result.schedule);
+      } else {
+        setError(result.error || "Error al cargar el horario del agente");
+      }
+    });
+  }, [isOpen, propertyId, schedule]);
+
+  // Cargar horarios libres del día elegido
+  useEffect(() => {
+    if (!selectedDate) {
+      setAvailableSlots([]);
+      return;
+    }
+
+    setLoadingSlots(true);
+    getAvailableSlotsAction({
+      propertyId,
+      date: format(selectedDate, "yyyy-MM-dd"),
+    }).then((result) => {
+      setLoadingSlots(false);
+      setAvailableSlots(result.success ? result.slots : []);
+      if (!result.success) {
+        setError(result.error || "Error al cargar horarios");
+      }
+    });
+  }, [selectedDate, propertyId]);
+
+  const resetForm = () => {
+    setSelectedDate(undefined);
+    setSelectedHour("");
+    setReason("");
+    setError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && !isPending) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!selectedDate || !selectedHour) {
+      setError("Por favor selecciona una fecha y hora");
+      return;
+    }
+
+    const newDate = new Date(selectedDate);
+    newDate.setHours(parseInt(selectedHour, 10), 0, 0, 0);
+
+    setError(null);
+    startTransition(async () => {
+      const result = await rescheduleAppointmentAction({
+        id: appointmentId,
+        scheduledAt: newDate.toISOString(),
+        reason,
+      });
+
+      if (!result.success) {
+        setError(result.error || "Error al reprogramar la cita");
+        return;
+      }
+
+      toast.success("Cita reprogramada");
+      resetForm();
+      onClose();
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reprogramar cita</DialogTitle>
+          <DialogDescription>
+            Horario actual: {formatAppointmentDate(scheduledAt)}
+            {description && (
+              <>
+                <br />
+                {description}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded-lg flex items-start gap-3">
+              <AlertCircle
+                className="w-5 h-5 flex-shrink-0 mt-0.5"
+                aria-hidden="true"
+              />
+              <p>{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Nueva fecha</Label>
+            <div className="bg-oslo-gray-50 dark:bg-oslo-gray-900 rounded-lg border border-oslo-gray-200 dark:border-oslo-gray-800 p-4">
+              <Calendar
+                mode="single"
+                selected={selectedDate}
+                onSelect={(date) => {
+                  setSelectedDate(date);
+                  setSelectedHour("");
+                }}
+                disabled={disabledDates}
+                defaultMonth={minDate}
+                locale={es}
+              />
+            </div>
+          </div>
+
+          {selectedDate && (
+            <div className="space-y-2">
+              <Label htmlFor={`reschedule-hour-${appointmentId}`}>
+                Nueva hora
+              </Label>
+              {loadingSlots ? (
+                <div
+                  className="h-10 bg-oslo-gray-200 dark:bg-oslo-gray-800 rounded-md motion-safe:animate-pulse"
+                  role="status"
+                  aria-label="Cargando horarios disponibles"
+                />
+              ) : availableSlots.length === 0 ? (
+                <p className="text-sm text-oslo-gray-600 dark:text-oslo-gray-400">
+                  No hay horarios disponibles para esta fecha. Por favor elige
+                  otra fecha.
+                </p>
+              ) : (
+                <Select value={selectedHour} onValueChange={setSelectedHour}>
+                  <SelectTrigger id={`reschedule-hour-${appointmentId}`}>
+                    <SelectValue placeholder="Selecciona una hora" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableSlots.map((hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>
+                        {formatHour(hour)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`reschedule-reason-${appointmentId}`}>
+              Motivo (opcional)
+            </Label>
+            <Textarea
+              id={`reschedule-reason-${appointmentId}`}
+              placeholder="Me surgió un compromiso…"
+              className="min-h-20 text-base"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isPending}
+            >
+              Volver
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!selectedDate || !selectedHour || isPending}
+            >
+              {isPending ? "Reprogramando…" : "Reprogramar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
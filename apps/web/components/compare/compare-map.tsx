@@ -0,0 +1,99 @@
+"use client";
+
+/**
+ * CompareMap - Shared mini-map for the comparison page
+ *
+ * One numbered marker per property (same number as its column), fitted
+ * to show all of them. Properties without coordinates are skipped
+ */
+
+import { env } from "@repo/env";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { useMemo, useState } from "react";
+import Map, { Marker, NavigationControl } from "react-map-gl/mapbox";
+import { MapSpinner } from "@/components/map/map-spinner";
+
+export interface CompareMapPoint {
+  id: string;
+  title: string;
+  latitude: number;
+  longitude: number;
+  /** 1-based column number */
+  index: number;
+}
+
+interface CompareMapProps {
+  points: CompareMapPoint[];
+}
+
+/**
+ * Padding around the markers when fitting bounds (px)
+ */
+const FIT_PADDING = 60;
+
+export function CompareMap({ points }: CompareMapProps) {
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const mapboxToken = env.NEXT_PUBLIC_MAPBOX_TOKEN;
+
+  const initialViewState = useMemo(() => {
+    const longitudes = points.map((point) => point.longitude);
+    const latitudes = points.map((point) => point.latitude);
+
+    // A single point (or identical points) has no area to fit
+    if (points.length === 1) {
+      return {
+        longitude: longitudes[0] ?? 0,
+        latitude: latitudes[0] ?? 0,
+        zoom: 14,
+      };
+    }
+
+    return {
+      bounds: [
+        [Math.min(...longitudes), Math.min(...latitudes)],
+        [Math.max(...longitudes), Math.max(...latitudes)],
+      ] as [[number, number], [number, number]],
+      fitBoundsOptions: { padding: FIT_PADDING, maxZoom: 15 },
+    };
+  }, [points]);
+
+  if (!mapboxToken || points.length === 0) {
+    return (
+      <div className="w-full h-full bg-muted flex items-center justify-center rounded-xl border border-border">
+        <p className="text-muted-foreground text-sm">Mapa no disponible</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full relative rounded-xl overflow-hidden border border-border/50 shadow-sm">
+      {!isMapLoaded && <MapSpinner />}
+      <Map
+        initialViewState={initialViewState}
+        style={{ width: "100%", height: "100%" }}
+        mapStyle="mapbox://styles/mapbox/dark-v11"
+        mapboxAccessToken={mapboxToken}
+        onLoad={() => setIsMapLoaded(true)}
+        attributionControl={false}
+      >
+        <NavigationControl position="bottom-right" showCompass={false} />
+
+        {points.map((point) => (
+          <Marker
+            key={point.id}
+            latitude={point.latitude}
+            longitude={point.longitude}
+            anchor="bottom"
+          >
+            <div
+              className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-indigo-600 text-sm font-bold text-white shadow-xl"
+              title={point.title}
+            >
+              {point.index}
+            </div>
+          </Marker>
+        ))}
+      </Map>
+    </div>
+  );
+}
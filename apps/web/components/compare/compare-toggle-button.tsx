@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * CompareToggleButton - Add/remove a property from the comparison
+ *
+ * Reads useCompareStore directly, so memoized parents (PropertyCard)
+ * don't need extra props to re-render when the selection changes
+ *
+ * VARIANTS:
+ * - "overlay": round glass button over images (cards, map popup)
+ * - "compact": small icon button on light surfaces (favorites)
+ */
+
+import { cn } from "@repo/ui";
+import { GitCompareArrows } from "lucide-react";
+import type React from "react";
+import { useCompareStore } from "@/stores/compare-store";
+
+interface CompareToggleButtonProps {
+  propertyId: string;
+  title: string;
+  variant?: "overlay" | "compact";
+  className?: string;
+}
+
+export function CompareToggleButton({
+  propertyId,
+  title,
+  variant = "overlay",
+  className,
+}: CompareToggleButtonProps) {
+  const isSelected = useCompareStore((state) => state.isSelected(propertyId));
+  const toggle = useCompareStore((state) => state.toggle);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards and favorites items are links/gallery click targets
+    e.preventDefault();
+    e.stopPropagation();
+    toggle({ id: propertyId, title });
+  };
+
+  const label = isSelected ? "Quitar de comparación" : "Agregar a comparación";
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={isSelected}
+      aria-label={label}
+      title={label}
+      className={cn(
+        variant === "overlay"
+          ? "w-10 h-10 md:w-9 md:h-9 rounded-full backdrop-blur-md border flex items-center justify-center transition-all hover:scale-110 active:scale-95"
+          : "p-1.5 rounded-lg flex items-center justify-center transition-all duration-200",
+        variant === "overlay" &&
+          (isSelected
+            ? "bg-indigo-600 border-indigo-400"
+            : "bg-white/20 border-white/30"),
+        variant === "compact" &&
+          (isSelected
+            ? "text-indigo-600 bg-indigo-50 dark:text-indigo-400 dark:bg-indigo-950"
+            : "text-oslo-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-950"),
+        className,
+      )}
+    >
+      <GitCompareArrows
+        className={cn(variant === "overlay" ? "w-5 h-5 text-white" : "w-4 h-4")}
+      />
+    </button>
+  );
+}
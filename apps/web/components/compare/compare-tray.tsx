@@ -0,0 +1,89 @@
+"use client";
+
+/**
+ * CompareTray - Floating bar with the properties selected to compare
+ *
+ * - Visible while at least one property is selected (hidden on /comparar)
+ * - "Comparar" opens the shareable /comparar?ids=… page (2+ properties)
+ * - Sits above the mobile bottom bar of /propiedades
+ */
+
+import { cn } from "@repo/ui";
+import { GitCompareArrows, X } from "lucide-react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+  buildCompareUrl,
+  MAX_COMPARE_PROPERTIES,
+  MIN_COMPARE_PROPERTIES,
+} from "@/lib/utils/compare";
+import { useCompareStore } from "@/stores/compare-store";
+
+export function CompareTray() {
+  const pathname = usePathname();
+  const items = useCompareStore((state) => state.items);
+  const remove = useCompareStore((state) => state.remove);
+  const clear = useCompareStore((state) => state.clear);
+
+  // Selection comes from localStorage: render only after hydration
+  const [isMounted, setIsMounted] = useState(false);
+  useEffect(() => setIsMounted(true), []);
+
+  if (!isMounted || items.length === 0 || pathname === "/comparar") {
+    return null;
+  }
+
+  const canCompare = items.length >= MIN_COMPARE_PROPERTIES;
+
+  return (
+    <div className="fixed inset-x-3 bottom-20 lg:bottom-6 z-40 mx-auto max-w-3xl rounded-2xl border border-oslo-gray-700 bg-oslo-gray-900/95 p-3 shadow-2xl backdrop-blur-md">
+      <div className="flex items-center gap-3">
+        <GitCompareArrows className="hidden sm:block h-5 w-5 flex-shrink-0 text-indigo-400" />
+
+        <ul className="flex flex-1 gap-2 overflow-x-auto">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="flex max-w-[12rem] flex-shrink-0 items-center gap-1 rounded-full bg-oslo-gray-800 py-1 pl-3 pr-1 text-xs text-oslo-gray-100"
+            >
+              <span className="truncate">{item.title}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                className="rounded-full p-1 text-oslo-gray-400 hover:bg-oslo-gray-700 hover:text-white"
+                aria-label={`Quitar ${item.title} de la comparación`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <button
+          type="button"
+          onClick={clear}
+          className="hidden sm:block text-xs text-oslo-gray-400 hover:text-white"
+        >
+          Limpiar
+        </button>
+
+        <Link
+          href={buildCompareUrl(items.map((item) => item.id))}
+          aria-disabled={!canCompare}
+          onClick={(e) => {
+            if (!canCompare) e.preventDefault();
+          }}
+          className={cn(
+            "flex-shrink-0 rounded-lg px-4 py-2 text-sm font-semibold transition-colors",
+            canCompare
+              ? "bg-indigo-600 text-white hover:bg-indigo-500"
+              : "cursor-not-allowed bg-oslo-gray-700 text-oslo-gray-400",
+          )}
+        >
+          Comparar ({items.length}/{MAX_COMPARE_PROPERTIES})
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+/**
+ * CompareView - Side-by-side comparison of 2–4 properties
+ *
+ * - Properties come from the URL (/comparar?ids=…); the store is synced
+ *   to them so a shared link becomes the visitor's selection
+ * - Best value per row is highlighted (lowest price, largest area…)
+ * - Monthly payment uses the same loan types as MortgageCalculator
+ * - Amenities: differences first, then the ones all properties share
+ */
+
+import type { SerializedProperty } from "@repo/database";
+import { cn } from "@repo/ui";
+import { Check, GitCompareArrows, Minus, Share2, X } from "lucide-react";
+import dynamic from "next/dynamic";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { PropertyImageFallback } from "@/components/map/property-image-fallback";
+import { AMENITY_LABELS } from "@/lib/constants/amenities";
+import {
+  buildCompareUrl,
+  getAmenityComparison,
+  getBestValueIndexes,
+  getPricePerSquareMeter,
+  MAX_COMPARE_PROPERTIES,
+  MIN_COMPARE_PROPERTIES,
+} from "@/lib/utils/compare";
+import {
+  calculateMonthlyPayment,
+  LOAN_TYPES,
+  type LoanType,
+} from "@/lib/utils/mortgage";
+import {
+  formatPropertyPrice,
+  getCategoryLabel,
+  TRANSACTION_TYPE_LABELS,
+} from "@/lib/utils/property-formatters";
+import { generateSlug } from "@/lib/utils/slug-generator";
+import { useCompareStore } from "@/stores/compare-store";
+import type { CompareMapPoint } from "./compare-map";
+
+// Mapbox GL is only needed once the comparison is rendered
+const CompareMap = dynamic(
+  () => import("./compare-map").then((mod) => ({ default: mod.CompareMap })),
+  {
+    loading: () => (
+      <div className="w-full h-full rounded-xl bg-oslo-gray-100 dark:bg-oslo-gray-800 animate-pulse" />
+    ),
+  },
+);
+
+interface CompareViewProps {
+  properties: SerializedProperty[];
+}
+
+interface CompareRow {
+  label: string;
+  values: (number | null)[];
+  format: (value: number) => string;
+  best?: "min" | "max";
+}
+
+const formatArea = (value: number) =>
+  `${new Intl.NumberFormat("es-EC", { maximumFractionDigits: 0 }).format(value)} m²`;
+
+const formatCount = (value: number) => String(value);
+
+export function CompareView({ properties }: CompareViewProps) {
+  const router = useRouter();
+  const replaceSelection = useCompareStore((state) => state.replaceSelection);
+  const [loanType, setLoanType] = useState<LoanType>("private");
+  const [isSharing, setIsSharing] = useState(false);
+
+  // The URL wins over whatever was stored locally
+  useEffect(() => {
+    if (properties.length === 0) return;
+    replaceSelection(
+      properties.map((property) => ({
+        id: property.id,
+        title: property.title,
+      })),
+    );
+  }, [properties, replaceSelection]);
+
+  if (properties.length < MIN_COMPARE_PROPERTIES) {
+    return <CompareEmptyState />;
+  }
+
+  const loan = LOAN_TYPES[loanType];
+
+  const handleRemove = (propertyId: string) => {
+    const remaining = properties.filter(
+      (property) => property.id !== propertyId,
+    );
+    useCompareStore.getState().remove(propertyId);
+    router.replace(buildCompareUrl(remaining.map((property) => property.id)));
+  };
+
+  const handleShare = async () => {
+    if (isSharing) return;
+
+    const compareUrl = `${window.location.origin}${buildCompareUrl(
+      properties.map((property) => property.id),
+    )}`;
+    setIsSharing(true);
+
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: "Comparación de propiedades",
+          text: properties.map((property) => property.title).join(" vs "),
+          url: compareUrl,
+        });
+      } else {
+        await navigator.clipboard.writeText(compareUrl);
+        toast.success("Enlace copiado al portapapeles!");
+      }
+    } catch (error) {
+      if ((error as DOMException).name !== "AbortError") {
+        toast.error("Error al compartir la comparación.");
+        console.error("Error sharing:", error);
+      }
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const rows: CompareRow[] = [
+    {
+      label: "Precio",
+      values: properties.map((property) => property.price),
+      format: formatPropertyPrice,
+      best: "min",
+    },
+    {
+      label: "Precio por m²",
+      values: properties.map((property) =>
+        getPricePerSquareMeter(property.price, property.area),
+      ),
+      format: formatPropertyPrice,
+      best: "min",
+    },
+    {
+      label: "Área",
+      values: properties.map((property) => property.area ?? null),
+      format: formatArea,
+      best: "max",
+    },
+    {
+      label: "Habitaciones",
+      values: properties.map((property) => property.bedrooms ?? null),
+      format: formatCount,
+      best: "max",
+    },
+    {
+      label: "Baños",
+      values: properties.map((property) => property.bathrooms ?? null),
+      format: formatCount,
+      best: "max",
+    },
+    {
+      // Rentals are not financed: no payment for them
+      label: "Cuota mensual estimada",
+      values: properties.map((property) =>
+        property.transactionType === "SALE"
+          ? calculateMonthlyPayment({
+              price: property.price,
+              downPaymentPercent: loan.downPaymentPercent,
+              termYears: loan.maxTerm,
+              interestRate: loan.rate,
+            })
+          : null,
+      ),
+      format: formatPropertyPrice,
+      best: "min",
+    },
+  ];
+
+  const amenityRows = getAmenityComparison(
+    properties.map((property) => property.amenities ?? []),
+  );
+
+  const mapPoints: CompareMapPoint[] = properties.flatMap((property, index) =>
+    property.latitude !== null && property.longitude !== null
+      ? [
+          {
+            id: property.id,
+            title: property.title,
+            latitude: property.latitude,
+            longitude: property.longitude,
+            index: index + 1,
+          },
+        ]
+      : [],
+  );
+
+  const gridStyle = {
+    gridTemplateColumns: `minmax(8rem, 12rem) repeat(${properties.length}, minmax(11rem, 1fr))`,
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-primary/10 rounded-lg text-primary">
+            <GitCompareArrows className="w-5 h-5" />
+          </div>
+          <h1 className="text-2xl font-bold text-oslo-gray-950 dark:text-white">
+            Comparar propiedades
+          </h1>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleShare}
+          disabled={isSharing}
+          className="inline-flex items-center gap-2 self-start rounded-lg border border-oslo-gray-200 dark:border-oslo-gray-700 px-4 py-2 text-sm font-medium text-oslo-gray-700 dark:text-oslo-gray-200 hover:bg-oslo-gray-100 dark:hover:bg-oslo-gray-800 disabled:opacity-50"
+        >
+          <Share2 className="w-4 h-4" />
+          Compartir comparación
+        </button>
+      </div>
+
+      {/* Comparison table */}
+      <div className="overflow-x-auto rounded-2xl border border-oslo-gray-200 dark:border-oslo-gray-800 bg-white dark:bg-oslo-gray-900">
+        <div className="grid min-w-max" style={gridStyle}>
+          {/* Property headers */}
+          <div className="p-4" />
+          {properties.map((property, index) => {
+            const imageUrl = property.images?.[0]?.url;
+
+            return (
+              <div key={property.id} className="p-4 space-y-3">
+                <div className="relative aspect-[4/3] overflow-hidden rounded-xl bg-oslo-gray-800">
+                  {imageUrl ? (
+                    <Image
+                      src={imageUrl}
+                      alt={property.title}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 768px) 50vw, 25vw"
+                    />
+                  ) : (
+                    <PropertyImageFallback title={property.title} />
+                  )}
+                  <span className="absolute left-2 top-2 flex h-7 w-7 items-center justify-center rounded-full border-2 border-white bg-indigo-600 text-xs font-bold text-white">
+                    {index + 1}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(property.id)}
+                    className="absolute right-2 top-2 rounded-full bg-black/50 p-1.5 text-white backdrop-blur-md hover:bg-black/70"
+                    aria-label={`Quitar ${property.title} de la comparación`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <Link
+                  href={`/propiedades/${property.id}-${generateSlug(property.title)}`}
+                  className="block font-semibold leading-snug text-oslo-gray-950 dark:text-white hover:text-primary line-clamp-2"
+                >
+                  {property.title}
+                </Link>
+                <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+                  {TRANSACTION_TYPE_LABELS[property.transactionType]}
+                  {" · "}
+                  {getCategoryLabel(property.category) || property.category}
+                  {property.city && ` · ${property.city}`}
+                </p>
+              </div>
+            );
+          })}
+
+          {/* Loan type for the monthly payment row */}
+          <div className="col-span-full flex flex-wrap items-center gap-2 border-t border-oslo-gray-200 dark:border-oslo-gray-800 px-4 py-3">
+            <span className="text-xs font-medium text-oslo-gray-500 dark:text-oslo-gray-400">
+              Crédito para la cuota:
+            </span>
+            {(Object.keys(LOAN_TYPES) as LoanType[]).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setLoanType(type)}
+                className={cn(
+                  "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+                  loanType === type
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-oslo-gray-100 dark:bg-oslo-gray-800 text-oslo-gray-600 dark:text-oslo-gray-300 hover:bg-oslo-gray-200 dark:hover:bg-oslo-gray-700",
+                )}
+              >
+                {LOAN_TYPES[type].label}
+              </button>
+            ))}
+            <span className="text-xs text-oslo-gray-400">
+              {loan.downPaymentPercent}% entrada · {loan.maxTerm} años ·{" "}
+              {loan.rate}%
+            </span>
+          </div>
+
+          {/* Numeric rows */}
+          {rows.map((row) => {
+            const bestIndexes = row.best
+              ? getBestValueIndexes(row.values, row.best)
+              : [];
+
+            return (
+              <CompareRowCells key={row.label} label={row.label}>
+                {row.values.map((value, index) => (
+                  <div
+                    key={properties[index]?.id}
+                    className={cn(
+                      "px-4 py-3 text-sm border-t border-oslo-gray-200 dark:border-oslo-gray-800",
+                      bestIndexes.includes(index)
+                        ? "font-semibold text-emerald-600 dark:text-emerald-400"
+                        : "text-oslo-gray-900 dark:text-white",
+                    )}
+                  >
+                    {value === null ? "—" : row.format(value)}
+                  </div>
+                ))}
+              </CompareRowCells>
+            );
+          })}
+
+          {/* Amenities diff */}
+          {amenityRows.length > 0 && (
+            <div className="col-span-full border-t border-oslo-gray-200 dark:border-oslo-gray-800 px-4 pt-5 pb-2 text-xs font-semibold uppercase tracking-wide text-oslo-gray-500 dark:text-oslo-gray-400">
+              Amenidades
+            </div>
+          )}
+          {amenityRows.map((row) => (
+            <CompareRowCells
+              key={row.amenity}
+              label={AMENITY_LABELS[row.amenity]}
+              muted={row.isShared}
+            >
+              {row.present.map((present, index) => (
+                <div
+                  key={properties[index]?.id}
+                  className="px-4 py-2.5 border-t border-oslo-gray-200 dark:border-oslo-gray-800"
+                >
+                  {present ? (
+                    <Check
+                      className={cn(
+                        "w-4 h-4",
+                        row.isShared
+                          ? "text-oslo-gray-400"
+                          : "text-emerald-500",
+                      )}
+                      aria-label="Sí"
+                    />
+                  ) : (
+                    <Minus
+                      className="w-4 h-4 text-oslo-gray-300 dark:text-oslo-gray-600"
+                      aria-label="No"
+                    />
+                  )}
+                </div>
+              ))}
+            </CompareRowCells>
+          ))}
+        </div>
+      </div>
+
+      {/* Shared mini-map */}
+      {mapPoints.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold text-oslo-gray-950 dark:text-white">
+            Ubicación
+          </h2>
+          <div className="h-80">
+            <CompareMap points={mapPoints} />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Label cell + value cells of one row (cells are direct grid children)
+ */
+function CompareRowCells({
+  label,
+  muted = false,
+  children,
+}: {
+  label: string;
+  muted?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <div
+        className={cn(
+          "px-4 py-3 text-sm border-t border-oslo-gray-200 dark:border-oslo-gray-800",
+          muted
+            ? "text-oslo-gray-400"
+            : "font-medium text-oslo-gray-600 dark:text-oslo-gray-300",
+        )}
+      >
+        {label}
+      </div>
+      {children}
+    </>
+  );
+}
+
+function CompareEmptyState() {
+  return (
+    <div className="container mx-auto px-4 py-24 text-center space-y-4">
+      <GitCompareArrows className="w-12 h-12 mx-auto text-oslo-gray-400" />
+      <h1 className="text-2xl font-bold text-oslo-gray-950 dark:text-white">
+        Selecciona al menos {MIN_COMPARE_PROPERTIES} propiedades
+      </h1>
+      <p className="text-oslo-gray-500 dark:text-oslo-gray-400 max-w-md mx-auto">
+        Usa el botón de comparar en las tarjetas, el mapa o tus favoritos para
+        elegir hasta {MAX_COMPARE_PROPERTIES} propiedades y verlas lado a lado.
+      </p>
+      <Link
+        href="/propiedades"
+        className="inline-flex rounded-lg bg-primary px-5 py-2.5 text-sm font-semibold text-primary-foreground hover:bg-primary/90"
+      >
+        Explorar propiedades
+      </Link>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
  * CLIENT ACTIONS
  * 
  * Dropdown menu for managing client status and notes.
+ * Notes are appended to the lead's activity timeline (never overwritten).
  * Uses server actions for state updates.
  */
 
@@ -20,14 +21,16 @@ import {
 } from "@repo/ui";
 import {
     CheckCircle2,
-    Edit,
+    History,
     MessageSquare,
     MoreHorizontal,
     Phone,
     Sparkles,
     Target,
+    StickyNote,
     XCircle
 } from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
 import { toast } from "sonner";
 
@@ -43,10 +46,9 @@ const STATUSES: { value: LeadStatus; label: string; icon: typeof Sparkles }[] =
 interface ClientActionsProps {
   clientId: string;
   currentStatus: LeadStatus;
-  currentNotes: string;
 }
 
-export function ClientActions({ clientId, currentStatus, currentNotes }: ClientActionsProps) {
+export function ClientActions({ clientId, currentStatus }: ClientActionsProps) {
   const [isUpdating, setIsUpdating] = useState(false);
 
   const handleStatusChange = async (newStatus: LeadStatus) => {
@@ -67,19 +69,19 @@ export function ClientActions({ clientId, currentStatus, currentNotes }: ClientA
     }
   };
 
-  const handleEditNotes = () => {
-    const newNotes = prompt("Notas del cliente:", currentNotes);
-    if (newNotes !== null && newNotes !== currentNotes) {
-      updateClientNotesAction(clientId, newNotes)
+  const handleAddNote = () => {
+    const note = prompt("Nueva nota:");
+    if (note?.trim()) {
+      updateClientNotesAction(clientId, note)
         .then((result) => {
           if (result.success) {
-            toast.success("Notas actualizadas");
+            toast.success("Nota agregada");
           } else {
-            toast.error(result.error || "Error al actualizar notas");
+            toast.error(result.error || "Error al agregar nota");
           }
         })
         .catch(() => {
-          toast.error("Error al actualizar notas");
+          toast.error("Error al agregar nota");
         });
     }
   };
@@ -110,9 +112,15 @@ export function ClientActions({ clientId, currentStatus, currentNotes }: ClientA
           );
         })}
         <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={handleEditNotes}>
-          <Edit className="h-4 w-4 mr-2" />
-          Editar Notas
+        <DropdownMenuItem onClick={handleAddNote}>
+          <StickyNote className="h-4 w-4 mr-2" />
+          Agregar Nota
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href={`/dashboard/clientes/${clientId}`}>
+            <History className="h-4 w-4 mr-2" />
+            Ver Actividad
+          </Link>
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
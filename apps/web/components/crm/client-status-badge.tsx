@@ -15,7 +15,7 @@ import {
     XCircle
 } from "lucide-react";
 
-const STATUS_CONFIG: Record<LeadStatus, { 
+export const LEAD_STATUS_CONFIG: Record<LeadStatus, { 
   label: string; 
   icon: typeof Sparkles; 
   bgColor: string;
@@ -65,7 +65,7 @@ interface ClientStatusBadgeProps {
 }
 
 export function ClientStatusBadge({ status, className }: ClientStatusBadgeProps) {
-  const config = STATUS_CONFIG[status];
+  const config = LEAD_STATUS_CONFIG[status];
   const Icon = config.icon;
 
   return (
@@ -0,0 +1,312 @@
+/**
+ * CONTACTS IMPORT DIALOG
+ *
+ * Importación masiva de contactos al CRM desde CSV o Excel
+ * 1. Subir archivo (se lee en el navegador)
+ * 2. Mapear columnas (autodetectadas por encabezado)
+ * 3. Vista previa (dry-run en el servidor): nuevos, duplicados e inválidos
+ * 4. Importar
+ */
+
+"use client";
+
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { importClientsAction } from "@/app/actions/crm";
+import {
+  CONTACT_FIELDS,
+  type ColumnMapping,
+  type ContactField,
+  type ContactImportOutcome,
+  guessColumnMapping,
+  MAX_IMPORT_ROWS,
+  summarizeImport,
+} from "@/lib/crm/contact-import";
+import { cn } from "@/lib/utils";
+import {
+  parseSpreadsheet,
+  type SpreadsheetRows,
+} from "@/lib/utils/spreadsheet";
+
+const UNMAPPED = "none";
+
+const OUTCOME_LABELS: Record<
+  ContactImportOutcome["action"],
+  { label: string; className: string }
+> = {
+  create: { label: "Nuevo", className: "text-green-600" },
+  duplicate: { label: "Duplicado", className: "text-yellow-600" },
+  invalid: { label: "Inválido", className: "text-red-500" },
+};
+
+export function ContactsImportDialog() {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<SpreadsheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [outcomes, setOutcomes] = useState<ContactImportOutcome[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const reset = () => {
+    setFileName(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setOutcomes(null);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const [headerRow = [], ...dataRows] = parseSpreadsheet(file.name, data);
+
+      if (dataRows.length === 0) {
+        toast.error("El archivo no tiene filas de datos");
+        return;
+      }
+      if (dataRows.length > MAX_IMPORT_ROWS) {
+        toast.error(`Máximo ${MAX_IMPORT_ROWS} filas por importación`);
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+      setOutcomes(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "No se pudo leer el archivo",
+      );
+    }
+  };
+
+  const handleMappingChange = (field: ContactField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === UNMAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+    // El plan anterior ya no aplica
+    setOutcomes(null);
+  };
+
+  const runImport = (dryRun: boolean) => {
+    startTransition(async () => {
+      const result = await importClientsAction({ rows, mapping, dryRun });
+
+      if (!result.success || !result.outcomes) {
+        toast.error(result.error || "Error al importar contactos");
+        return;
+      }
+
+      if (dryRun) {
+        setOutcomes(result.outcomes);
+        return;
+      }
+
+      const failed = result.outcomes.length - (result.imported ?? 0);
+      toast.success(`${result.imported ?? 0} contactos importados`, {
+        description:
+          failed > 0
+            ? `${failed} filas omitidas (duplicadas o inválidas)`
+            : undefined,
+      });
+      reset();
+      setOpen(false);
+    });
+  };
+
+  const summary = outcomes ? summarizeImport(outcomes) : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Importar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar contactos</DialogTitle>
+          <DialogDescription>
+            Sube un archivo CSV o Excel (.xlsx) con una fila de encabezados. Los
+            contactos que ya están en tu CRM (mismo email o teléfono) se omiten.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: File */}
+        <label className="flex cursor-pointer items-center gap-3 rounded-lg border border-dashed border-border p-4 text-sm hover:bg-muted/50">
+          <FileSpreadsheet className="h-5 w-5 text-muted-foreground" />
+          <span className="flex-1">
+            {fileName
+              ? `${fileName} · ${rows.length} filas`
+              : "Seleccionar archivo .csv o .xlsx"}
+          </span>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) handleFile(file);
+              event.target.value = "";
+            }}
+          />
+        </label>
+
+        {/* Step 2: Column mapping */}
+        {headers.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Columnas</h3>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {CONTACT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`map-${field.key}`} className="text-xs">
+                    {field.label}
+                    {field.key === "email" && " *"}
+                  </Label>
+                  <Select
+                    value={
+                      mapping[field.key] !== undefined
+                        ? String(mapping[field.key])
+                        : UNMAPPED
+                    }
+                    onValueChange={(value) =>
+                      handleMappingChange(field.key, value)
+                    }
+                  >
+                    <SelectTrigger id={`map-${field.key}`} className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>— No importar —</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Columna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Dry-run preview */}
+        {outcomes && summary && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-green-600">{summary.create} nuevos</span>
+              <span className="text-yellow-600">
+                {summary.duplicate} duplicados
+              </span>
+              <span className="text-red-500">{summary.invalid} inválidos</span>
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded-lg border border-border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Fila</th>
+                    <th className="px-3 py-2 text-left font-medium">
+                      Contacto
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium">
+                      Resultado
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {outcomes.map((outcome) => {
+                    const config = OUTCOME_LABELS[outcome.action];
+                    const detail =
+                      outcome.action === "create"
+                        ? outcome.warnings.join(" · ")
+                        : outcome.reason;
+
+                    return (
+                      <tr
+                        key={outcome.rowNumber}
+                        className="border-t border-border"
+                      >
+                        <td className="px-3 py-2 text-muted-foreground">
+                          {outcome.rowNumber}
+                        </td>
+                        <td className="px-3 py-2">
+                          <p>{outcome.contact.name || "—"}</p>
+                          <p className="text-muted-foreground">
+                            {outcome.contact.email || outcome.contact.phone}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2">
+                          <p className={cn("font-medium", config.className)}>
+                            {config.label}
+                          </p>
+                          {detail && (
+                            <p className="text-muted-foreground">{detail}</p>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {outcomes && summary ? (
+            <Button
+              onClick={() => runImport(false)}
+              disabled={isPending || summary.create === 0}
+            >
+              {isPending
+                ? "Importando…"
+                : `Importar ${summary.create} contactos`}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => runImport(true)}
+              disabled={
+                isPending || rows.length === 0 || mapping.email === undefined
+              }
+            >
+              {isPending ? "Analizando…" : "Vista previa"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * LEAD ACTIVITY FORM
+ *
+ * Registrar una actividad en el historial del lead
+ * (nota, llamada, WhatsApp o email). Las actividades no se editan.
+ */
+
+"use client";
+
+import type { LeadActivityType } from "@repo/database";
+import {
+  Button,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@repo/ui";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { addLeadActivityAction } from "@/app/actions/crm";
+import { ACTIVITY_CONFIG } from "./lead-timeline";
+
+const ACTIVITY_TYPES = Object.keys(ACTIVITY_CONFIG) as LeadActivityType[];
+
+interface LeadActivityFormProps {
+  agentClientId: string;
+}
+
+export function LeadActivityForm({ agentClientId }: LeadActivityFormProps) {
+  const [type, setType] = useState<LeadActivityType>("NOTE");
+  const [content, setContent] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await addLeadActivityAction(agentClientId, {
+        type,
+        content,
+      });
+
+      if (result.success) {
+        setContent("");
+        toast.success("Actividad registrada");
+      } else {
+        toast.error(result.error || "Error al registrar actividad");
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <Select
+          value={type}
+          onValueChange={(value) => setType(value as LeadActivityType)}
+        >
+          <SelectTrigger className="w-40" aria-label="Tipo de actividad">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ACTIVITY_TYPES.map((activityType) => (
+              <SelectItem key={activityType} value={activityType}>
+                {ACTIVITY_CONFIG[activityType].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Textarea
+        value={content}
+        onChange={(event) => setContent(event.target.value)}
+        placeholder="¿Qué pasó? Ej: Llamó para preguntar si aceptan mascotas"
+        aria-label="Detalle de la actividad"
+        maxLength={2000}
+        className="min-h-20"
+      />
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending || !content.trim()}>
+          {isPending ? "Guardando…" : "Registrar"}
+        </Button>
+      </div>
+    </form>
+  );
+}
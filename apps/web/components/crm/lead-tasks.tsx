@@ -0,0 +1,146 @@
+/**
+ * LEAD TASKS
+ *
+ * Tareas de seguimiento de un lead
+ * - Crear tarea con fecha y hora límite
+ * - Marcar como completada
+ * - Las pendientes también aparecen en el dashboard (Actividad Reciente)
+ */
+
+"use client";
+
+import type { LeadTaskDetail } from "@repo/database";
+import { Button, Input } from "@repo/ui";
+import { format, isPast } from "date-fns";
+import { es } from "date-fns/locale";
+import { CheckCircle2, Circle } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  completeLeadTaskAction,
+  createLeadTaskAction,
+} from "@/app/actions/crm";
+import { cn } from "@/lib/utils";
+
+interface LeadTasksProps {
+  agentClientId: string;
+  tasks: LeadTaskDetail[];
+}
+
+export function LeadTasks({ agentClientId, tasks }: LeadTasksProps) {
+  const [title, setTitle] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    startTransition(async () => {
+      const result = await createLeadTaskAction(agentClientId, {
+        title,
+        // datetime-local es hora local → ISO
+        dueAt: new Date(dueAt).toISOString(),
+      });
+
+      if (result.success) {
+        setTitle("");
+        setDueAt("");
+        toast.success("Tarea creada");
+      } else {
+        toast.error(result.error || "Error al crear tarea");
+      }
+    });
+  };
+
+  const handleComplete = (taskId: string) => {
+    startTransition(async () => {
+      const result = await completeLeadTaskAction(taskId, agentClientId);
+      if (result.success) {
+        toast.success("Tarea completada");
+      } else {
+        toast.error(result.error || "Error al completar tarea");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Sin tareas de seguimiento.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {tasks.map((task) => {
+            const isDone = task.completedAt !== null;
+            const isOverdue = !isDone && isPast(new Date(task.dueAt));
+
+            return (
+              <li key={task.id} className="flex items-start gap-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => handleComplete(task.id)}
+                  disabled={isDone || isPending}
+                  aria-label={
+                    isDone ? "Tarea completada" : `Completar "${task.title}"`
+                  }
+                  className="mt-0.5 text-muted-foreground hover:text-primary disabled:hover:text-muted-foreground"
+                >
+                  {isDone ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <Circle className="h-4 w-4" />
+                  )}
+                </button>
+                <div>
+                  <p
+                    className={cn(
+                      isDone && "line-through text-muted-foreground",
+                    )}
+                  >
+                    {task.title}
+                  </p>
+                  <p
+                    className={cn(
+                      "text-xs",
+                      isOverdue ? "text-red-500" : "text-muted-foreground",
+                    )}
+                  >
+                    {isOverdue && "Vencida · "}
+                    {format(new Date(task.dueAt), "d MMM yyyy, HH:mm", {
+                      locale: es,
+                    })}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="space-y-2 border-t border-border pt-4"
+      >
+        <Input
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Ej: Enviar contrato de arriendo"
+          aria-label="Nueva tarea"
+          maxLength={200}
+        />
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(event) => setDueAt(event.target.value)}
+            aria-label="Fecha límite"
+          />
+          <Button type="submit" disabled={isPending || !title.trim() || !dueAt}>
+            Agregar
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
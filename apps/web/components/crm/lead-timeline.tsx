@@ -0,0 +1,139 @@
+/**
+ * LEAD TIMELINE
+ *
+ * Historial completo de un lead (más reciente primero)
+ * - Actividades registradas por el agente (notas, llamadas, WhatsApp, emails)
+ * - Cambios de etapa del pipeline
+ * - Citas agendadas por el cliente
+ */
+
+import type { LeadActivityType, LeadTimelineEntry } from "@repo/database";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  ArrowRight,
+  Calendar,
+  Mail,
+  MessageCircle,
+  Phone,
+  StickyNote,
+} from "lucide-react";
+import { LEAD_STATUS_CONFIG } from "./client-status-badge";
+
+export const ACTIVITY_CONFIG: Record<
+  LeadActivityType,
+  { label: string; icon: typeof Phone; color: string }
+> = {
+  NOTE: {
+    label: "Nota",
+    icon: StickyNote,
+    color: "text-slate-500 bg-slate-500/10",
+  },
+  CALL: {
+    label: "Llamada",
+    icon: Phone,
+    color: "text-blue-500 bg-blue-500/10",
+  },
+  WHATSAPP: {
+    label: "WhatsApp",
+    icon: MessageCircle,
+    color: "text-green-600 bg-green-500/10",
+  },
+  EMAIL: {
+    label: "Email",
+    icon: Mail,
+    color: "text-purple-500 bg-purple-500/10",
+  },
+};
+
+const APPOINTMENT_STATUS_LABELS = {
+  PENDING: "pendiente",
+  CONFIRMED: "confirmada",
+  CANCELLED: "cancelada",
+  COMPLETED: "completada",
+} as const;
+
+interface LeadTimelineProps {
+  entries: LeadTimelineEntry[];
+}
+
+function describeEntry(entry: LeadTimelineEntry) {
+  switch (entry.kind) {
+    case "activity": {
+      const config = ACTIVITY_CONFIG[entry.type];
+      return {
+        icon: config.icon,
+        color: config.color,
+        title: config.label,
+        body: <p className="whitespace-pre-line">{entry.content}</p>,
+        author: entry.authorName,
+      };
+    }
+    case "stage_change":
+      return {
+        icon: ArrowRight,
+        color: "text-orange-500 bg-orange-500/10",
+        title: entry.fromStatus
+          ? `${LEAD_STATUS_CONFIG[entry.fromStatus].label} → ${LEAD_STATUS_CONFIG[entry.toStatus].label}`
+          : `Cliente agregado como ${LEAD_STATUS_CONFIG[entry.toStatus].label}`,
+        body: null,
+        author: entry.authorName,
+      };
+    case "appointment":
+      return {
+        icon: Calendar,
+        color: "text-sky-500 bg-sky-500/10",
+        title: `Cita ${APPOINTMENT_STATUS_LABELS[entry.status]}`,
+        body: (
+          <p>
+            {entry.propertyTitle} ·{" "}
+            {format(new Date(entry.scheduledAt), "EEEE d 'de' MMMM, HH:mm", {
+              locale: es,
+            })}
+          </p>
+        ),
+        author: null,
+      };
+  }
+}
+
+export function LeadTimeline({ entries }: LeadTimelineProps) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Aún no hay actividad para este cliente.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l border-border pl-6">
+      {entries.map((entry) => {
+        const item = describeEntry(entry);
+        const Icon = item.icon;
+
+        return (
+          <li key={`${entry.kind}-${entry.id}`} className="relative">
+            <span
+              className={`absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background ${item.color}`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">{item.title}</p>
+              {item.body && (
+                <div className="text-muted-foreground">{item.body}</div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(entry.date), "d MMM yyyy, HH:mm", {
+                  locale: es,
+                })}
+                {item.author && ` · ${item.author}`}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
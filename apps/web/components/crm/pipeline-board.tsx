@@ -0,0 +1,321 @@
+/**
+ * PIPELINE BOARD
+ *
+ * Vista kanban del CRM: una columna por etapa (LeadStatus)
+ * - Arrastrar una tarjeta a otra columna cambia el estado del lead
+ * - Actualización optimista (se revierte si el servidor falla)
+ * - Conteo por columna y tiempo que el lead lleva en su etapa
+ * - Historial de etapas con la duración total en cada una
+ */
+
+"use client";
+
+import {
+  DndContext,
+  type DragEndEvent,
+  DragOverlay,
+  type DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import type { AgentClientDetail } from "@repo/database";
+import { Avatar, AvatarFallback, AvatarImage } from "@repo/ui";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { GripVertical, History, Home } from "lucide-react";
+import Link from "next/link";
+import { type ReactNode, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { updateClientStatusAction } from "@/app/actions/crm";
+import {
+  formatStageDuration,
+  getStageDurations,
+  groupLeadsByStatus,
+  moveLead,
+} from "@/lib/crm/pipeline";
+import { LEAD_STATUSES, type LeadStatus } from "@/lib/types/crm";
+import { cn } from "@/lib/utils";
+import { ClientActions } from "./client-actions";
+import { LEAD_STATUS_CONFIG } from "./client-status-badge";
+
+interface PipelineBoardProps {
+  leads: AgentClientDetail[];
+}
+
+function LeadCard({
+  lead,
+  dragHandle,
+  isOverlay = false,
+}: {
+  lead: AgentClientDetail;
+  dragHandle?: ReactNode;
+  isOverlay?: boolean;
+}) {
+  const [showHistory, setShowHistory] = useState(false);
+  const timeInStage = formatStageDuration(
+    Date.now() - new Date(lead.statusChangedAt).getTime(),
+  );
+  const durations = getStageDurations(lead.stageChanges);
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-border bg-card p-3 space-y-2 text-sm",
+        isOverlay && "shadow-lg rotate-1",
+      )}
+    >
+      <div className="flex items-start gap-2">
+        {dragHandle}
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={lead.contact.avatar || ""} />
+          <AvatarFallback>
+            {lead.contact.name?.substring(0, 2).toUpperCase() || "CL"}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <Link
+            href={`/dashboard/clientes/${lead.id}`}
+            className="block font-medium truncate hover:underline"
+          >
+            {lead.contact.name || "Usuario"}
+          </Link>
+          <p className="text-xs text-muted-foreground truncate">
+            {lead.contact.email}
+          </p>
+        </div>
+        {!isOverlay && (
+          <ClientActions clientId={lead.id} currentStatus={lead.status} />
+        )}
+      </div>
+
+      {lead.property && (
+        <p className="flex items-center gap-1 text-xs text-primary truncate">
+          <Home className="h-3 w-3 shrink-0" />
+          {lead.property.title}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>En esta etapa: {timeInStage}</span>
+        {!isOverlay && lead.stageChanges.length > 0 && (
+          <button
+            type="button"
+            className="flex items-center gap-1 hover:text-foreground"
+            onClick={() => setShowHistory((prev) => !prev)}
+            aria-expanded={showHistory}
+          >
+            <History className="h-3 w-3" />
+            Historial
+          </button>
+        )}
+      </div>
+
+      {showHistory && (
+        <div className="border-t border-border pt-2 space-y-2">
+          <ul className="space-y-1 text-xs">
+            {LEAD_STATUSES.filter((status) => durations[status]).map(
+              (status) => (
+                <li key={status} className="flex justify-between">
+                  <span>{LEAD_STATUS_CONFIG[status].label}</span>
+                  <span className="text-muted-foreground">
+                    {formatStageDuration(durations[status] ?? 0)}
+                  </span>
+                </li>
+              ),
+            )}
+          </ul>
+          <ol className="space-y-0.5 text-[11px] text-muted-foreground">
+            {[...lead.stageChanges].reverse().map((change) => (
+              <li key={change.id}>
+                {format(new Date(change.changedAt), "d MMM yyyy, HH:mm", {
+                  locale: es,
+                })}
+                {" · "}
+                {change.fromStatus
+                  ? `${LEAD_STATUS_CONFIG[change.fromStatus].label} → `
+                  : "Creado como "}
+                {LEAD_STATUS_CONFIG[change.toStatus].label}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DraggableLeadCard({ lead }: { lead: AgentClientDetail }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: lead.id,
+  });
+
+  return (
+    <div ref={setNodeRef} className={cn(isDragging && "opacity-40")}>
+      <LeadCard
+        lead={lead}
+        dragHandle={
+          <button
+            type="button"
+            {...attributes}
+            {...listeners}
+            className="mt-1.5 text-muted-foreground cursor-grab active:cursor-grabbing"
+            aria-label={`Mover a ${lead.contact.name || "cliente"} a otra etapa`}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        }
+      />
+    </div>
+  );
+}
+
+function PipelineColumn({
+  status,
+  leads,
+}: {
+  status: LeadStatus;
+  leads: AgentClientDetail[];
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: status });
+  const config = LEAD_STATUS_CONFIG[status];
+  const Icon = config.icon;
+
+  return (
+    <section
+      ref={setNodeRef}
+      aria-label={`${config.label} (${leads.length})`}
+      className={cn(
+        "flex w-72 shrink-0 flex-col rounded-lg border border-border bg-muted/30 transition-colors",
+        isOver && "border-primary bg-primary/5",
+      )}
+    >
+      <header className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <div
+          className={cn(
+            "flex items-center gap-2 font-medium",
+            config.textColor,
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {config.label}
+        </div>
+        <span
+          className={cn(
+            "rounded-full px-2 py-0.5 text-xs font-semibold",
+            config.bgColor,
+            config.textColor,
+          )}
+        >
+          {leads.length}
+        </span>
+      </header>
+
+      <div className="flex-1 space-y-2 p-2 min-h-32">
+        {leads.length === 0 ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">
+            Arrastra clientes aquí
+          </p>
+        ) : (
+          leads.map((lead) => <DraggableLeadCard key={lead.id} lead={lead} />)
+        )}
+      </div>
+    </section>
+  );
+}
+
+export function PipelineBoard({ leads: initialLeads }: PipelineBoardProps) {
+  const [isMounted, setIsMounted] = useState(false);
+  const [leads, setLeads] = useState(initialLeads);
+  const [activeLeadId, setActiveLeadId] = useState<string | null>(null);
+
+  // Fix hydration mismatch: dnd-kit genera ids distintos en servidor y cliente
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  // Sincronizar con el servidor (revalidatePath, cambios desde el menú)
+  useEffect(() => {
+    setLeads(initialLeads);
+  }, [initialLeads]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor),
+  );
+
+  const columns = groupLeadsByStatus(leads);
+  const activeLead = leads.find((lead) => lead.id === activeLeadId);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveLeadId(String(event.active.id));
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveLeadId(null);
+
+    const { active, over } = event;
+    if (!over) return;
+
+    const leadId = String(active.id);
+    const newStatus = over.id as LeadStatus;
+    const lead = leads.find((item) => item.id === leadId);
+    if (!lead || lead.status === newStatus) return;
+
+    // Actualizar estado local inmediatamente (optimistic UI)
+    const previousLeads = leads;
+    setLeads(moveLead(leads, leadId, newStatus));
+
+    try {
+      const result = await updateClientStatusAction(leadId, newStatus);
+      if (!result.success) {
+        // Revertir si hay error
+        setLeads(previousLeads);
+        toast.error(result.error || "Error al actualizar estado");
+      }
+    } catch {
+      // Revertir si hay error
+      setLeads(previousLeads);
+      toast.error("Error al actualizar estado");
+    }
+  };
+
+  if (!isMounted) {
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {LEAD_STATUSES.map((status) => (
+          <div
+            key={status}
+            className="h-64 w-72 shrink-0 rounded-lg bg-muted animate-pulse"
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveLeadId(null)}
+    >
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {LEAD_STATUSES.map((status) => (
+          <PipelineColumn
+            key={status}
+            status={status}
+            leads={columns[status]}
+          />
+        ))}
+      </div>
+
+      <DragOverlay>
+        {activeLead ? <LeadCard lead={activeLead} isOverlay /> : null}
+      </DragOverlay>
+    </DndContext>
+  );
+}
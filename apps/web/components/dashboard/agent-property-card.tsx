@@ -1,6 +1,12 @@
 "use client";
 
-import { deletePropertyAction } from "@/app/actions/properties";
+import {
+    archiveListingAction,
+    deletePropertyAction,
+    publishListingNowAction,
+    renewListingAction,
+    setKeepOnDowngradeAction,
+} from "@/app/actions/properties";
 import { SharePropertyModal } from "@/components/property-wizard/share-property-modal";
 import { formatPropertyPrice, getTransactionBadgeStyle, TRANSACTION_TYPE_LABELS } from "@/lib/utils/property-formatters";
 import { generateSlug } from "@/lib/utils/slug-generator";
@@ -10,9 +16,11 @@ import {
     Button
 } from "@repo/ui";
 import {
+    Archive,
     Bath,
     Bed,
     Calendar,
+    CalendarClock,
     Edit,
     ExternalLink,
     Eye,
@@ -21,7 +29,9 @@ import {
     MapPin,
     MoreHorizontal,
     Pause,
+    Pin,
     Play,
+    RefreshCw,
     Ruler,
     Share2,
     Sparkles,
@@ -35,10 +45,36 @@ import { toast } from "sonner";
 
 interface AgentPropertyCardProps {
   property: PropertyWithRelations | SerializedProperty;
+  /** Fecha de archivado automático si no se renueva (solo publicadas) */
+  archivesAt?: Date | string;
+  /** Ya se envió (o toca enviar) el aviso "¿sigue disponible?" */
+  renewalDue?: boolean;
+  /** Período de gracia de un downgrade: qué pasará con esta publicación */
+  downgrade?: {
+    appliesAt: Date | string;
+    /** El agente la eligió para mantenerla */
+    kept: boolean;
+    /** Se archivará al aplicarse el downgrade */
+    willArchive: boolean;
+  };
 }
 
-export function AgentPropertyCard({ property }: AgentPropertyCardProps) {
+const formatLifecycleDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("es-ES", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function AgentPropertyCard({
+  property,
+  archivesAt,
+  renewalDue = false,
+  downgrade,
+}: AgentPropertyCardProps) {
   const [isDeleted, setIsDeleted] = useState(false);
+  const [isUpdatingLifecycle, setIsUpdatingLifecycle] = useState(false);
   const [showActions, setShowActions] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const router = useRouter();
@@ -121,6 +157,62 @@ export function AgentPropertyCard({ property }: AgentPropertyCardProps) {
     }
   };
 
+  const runLifecycleAction = async (
+    action: (propertyId: string) => Promise<{ success: boolean; error?: string }>,
+    messages: { loading: string; success: string },
+  ) => {
+    const toastId = `lifecycle-${property.id}`;
+    setIsUpdatingLifecycle(true);
+    toast.loading(messages.loading, { id: toastId });
+
+    try {
+      const result = await action(property.id);
+
+      if (result.success) {
+        toast.success(messages.success, { id: toastId });
+        router.refresh();
+      } else {
+        toast.error(result.error || "Error al actualizar la publicación", { id: toastId });
+      }
+    } catch (error) {
+      console.error("Error updating listing lifecycle:", error);
+      toast.error("Error al actualizar la publicación", { id: toastId });
+    } finally {
+      setIsUpdatingLifecycle(false);
+    }
+  };
+
+  const handleRenew = () =>
+    runLifecycleAction(renewListingAction, {
+      loading: "Renovando publicación...",
+      success: "Publicación renovada",
+    });
+
+  const handleArchive = () => {
+    if (!confirm(`¿Archivar "${property.title}"?\n\nDejará de mostrarse en el portal hasta que la renueves.`)) {
+      return;
+    }
+
+    runLifecycleAction(archiveListingAction, {
+      loading: "Archivando publicación...",
+      success: "Publicación archivada",
+    });
+  };
+
+  const handleKeepToggle = () =>
+    runLifecycleAction(
+      (propertyId) => setKeepOnDowngradeAction(propertyId, !downgrade?.kept),
+      downgrade?.kept
+        ? { loading: "Guardando...", success: "Ya no está entre las que mantienes" }
+        : { loading: "Guardando...", success: "Se mantendrá publicada" },
+    );
+
+  const handlePublishNow = () =>
+    runLifecycleAction(publishListingNowAction, {
+      loading: "Publicando propiedad...",
+      success: "¡Propiedad publicada!",
+    });
+
   if (isDeleted) {
     return null;
   }
@@ -287,6 +379,75 @@ export function AgentPropertyCard({ property }: AgentPropertyCardProps) {
           </div>
         </div>
 
+        {/* Listing lifecycle: scheduled / archived / about to be archived */}
+        {property.visibility === "DRAFT" && (
+          <div className="flex items-center justify-between gap-2 rounded-xl border border-sky-500/20 bg-sky-500/10 px-3 py-2 text-sm">
+            <span className="flex items-center gap-1.5 text-sky-500">
+              <CalendarClock className="h-4 w-4" />
+              {property.publishAt
+                ? `Programada: ${formatLifecycleDate(property.publishAt)}`
+                : "Sin publicar"}
+            </span>
+            <Button size="sm" variant="outline" onClick={handlePublishNow} disabled={isUpdatingLifecycle}>
+              Publicar ahora
+            </Button>
+          </div>
+        )}
+        {property.visibility === "ARCHIVED" && (
+          <div className="flex items-center justify-between gap-2 rounded-xl border border-slate-500/20 bg-slate-500/10 px-3 py-2 text-sm">
+            <span className="flex items-center gap-1.5 text-muted-foreground">
+              <Archive className="h-4 w-4" />
+              {"downgradedAt" in property && property.downgradedAt
+                ? "Archivada al bajar de plan: vuelve si renuevas"
+                : "Archivada: no visible en el portal"}
+            </span>
+            <Button size="sm" variant="outline" className="gap-1.5" onClick={handleRenew} disabled={isUpdatingLifecycle}>
+              <RefreshCw className="h-3.5 w-3.5" />
+              Renovar
+            </Button>
+          </div>
+        )}
+        {downgrade && (
+          <div
+            className={`flex items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm ${
+              downgrade.willArchive
+                ? "border-rose-500/20 bg-rose-500/10"
+                : "border-emerald-500/20 bg-emerald-500/10"
+            }`}
+          >
+            <span className={downgrade.willArchive ? "text-rose-500" : "text-emerald-500"}>
+              {downgrade.willArchive
+                ? `Se archivará el ${formatLifecycleDate(downgrade.appliesAt)}`
+                : downgrade.kept
+                  ? "Elegida para mantener"
+                  : "Seguirá publicada"}
+            </span>
+            {(downgrade.willArchive || downgrade.kept) && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1.5"
+                onClick={handleKeepToggle}
+                disabled={isUpdatingLifecycle}
+              >
+                <Pin className="h-3.5 w-3.5" />
+                {downgrade.kept ? "Quitar" : "Mantener"}
+              </Button>
+            )}
+          </div>
+        )}
+        {property.visibility === "PUBLISHED" && renewalDue && archivesAt && (
+          <div className="flex items-center justify-between gap-2 rounded-xl border border-amber-500/20 bg-amber-500/10 px-3 py-2 text-sm">
+            <span className="text-amber-500">
+              ¿Sigue disponible? Se archivará el {formatLifecycleDate(archivesAt)}
+            </span>
+            <Button size="sm" variant="outline" className="gap-1.5" onClick={handleRenew} disabled={isUpdatingLifecycle}>
+              <RefreshCw className="h-3.5 w-3.5" />
+              Renovar
+            </Button>
+          </div>
+        )}
+
         {/* Actions - Modern Buttons */}
         <div className="flex items-center gap-2 pt-3 border-t border-border/50">
           <Link href={`/dashboard/propiedades/${property.id}/editar`} className="flex-1">
@@ -334,6 +495,26 @@ export function AgentPropertyCard({ property }: AgentPropertyCardProps) {
             </div>
           </div>
           
+          {/* Archive Button */}
+          {property.visibility !== "ARCHIVED" && (
+            <div className="relative group/archive">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="px-2.5 hover:bg-muted transition-colors"
+                onClick={handleArchive}
+                disabled={isUpdatingLifecycle}
+                aria-label="Archivar"
+              >
+                <Archive className="h-4 w-4" />
+              </Button>
+              {/* Tooltip */}
+              <div className="absolute -top-8 left-1/2 -translate-x-1/2 px-2 py-1 bg-black/80 text-white text-xs rounded opacity-0 group-hover/archive:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
+                Archivar
+              </div>
+            </div>
+          )}
+
           {/* Delete Button */}
           <div className="relative group/delete">
             <Button 
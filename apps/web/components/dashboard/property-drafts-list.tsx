@@ -0,0 +1,142 @@
+/**
+ * PROPERTY DRAFTS LIST - Client Component
+ *
+ * Borradores del wizard guardados en el servidor
+ * - Continuar: abre el wizard con el borrador (?borrador=<id>)
+ * - Eliminar: borra el borrador y sus imágenes ya subidas
+ * Los borradores no cuentan para el límite de propiedades del plan
+ */
+
+"use client";
+
+import type { PropertyDraftWithData } from "@repo/database";
+import { Button } from "@repo/ui";
+import { FileEdit, ImageIcon, Trash2 } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { deleteWizardDraftAction } from "@/app/actions/wizard";
+import { formatPrice } from "@/lib/utils/price-helpers";
+
+interface PropertyDraftsListProps {
+  drafts: PropertyDraftWithData[];
+}
+
+const WIZARD_TOTAL_STEPS = 5;
+
+export function PropertyDraftsList({ drafts }: PropertyDraftsListProps) {
+  const [items, setItems] = useState(drafts);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleDelete = (id: string) => {
+    if (!confirm("¿Eliminar este borrador y sus fotos?")) return;
+
+    setPendingId(id);
+
+    startTransition(async () => {
+      try {
+        const result = await deleteWizardDraftAction(id);
+
+        if (result.success) {
+          setItems((prev) => prev.filter((draft) => draft.id !== id));
+          toast.success("Borrador eliminado");
+        } else {
+          toast.error(result.error || "Error al eliminar el borrador");
+        }
+      } catch {
+        toast.error("Error al eliminar el borrador");
+      } finally {
+        setPendingId(null);
+      }
+    });
+  };
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <FileEdit className="w-5 h-5" aria-hidden="true" />
+          Borradores
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Se guardan en cada paso del formulario. No cuentan para el límite de
+          tu plan hasta que los publiques.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((draft) => {
+          const isBusy = pendingId === draft.id || isPending;
+          const details = [
+            draft.data.city,
+            draft.data.price ? formatPrice(draft.data.price) : null,
+            `Paso ${draft.currentStep} de ${WIZARD_TOTAL_STEPS}`,
+          ].filter(Boolean);
+
+          return (
+            <div
+              key={draft.id}
+              className="flex items-center gap-4 rounded-lg border border-border p-4"
+            >
+              {draft.imageUrls[0] ? (
+                <Image
+                  src={draft.imageUrls[0]}
+                  alt=""
+                  width={56}
+                  height={56}
+                  className="h-14 w-14 shrink-0 rounded-md object-cover"
+                />
+              ) : (
+                <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-md bg-muted">
+                  <ImageIcon className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold truncate">
+                  {draft.title ?? "Propiedad sin título"}
+                </h3>
+                <p className="text-sm text-muted-foreground truncate">
+                  {details.join(" · ")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Editado el{" "}
+                  {new Date(draft.updatedAt).toLocaleDateString("es-EC", {
+                    day: "numeric",
+                    month: "short",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </p>
+              </div>
+
+              <Button asChild size="sm" variant="outline">
+                <Link
+                  href={`/dashboard/propiedades/nueva?borrador=${draft.id}`}
+                >
+                  Continuar
+                </Link>
+              </Button>
+
+              <button
+                type="button"
+                onClick={() => handleDelete(draft.id)}
+                disabled={isBusy}
+                className="p-2 rounded-lg hover:bg-accent transition-colors disabled:opacity-50 text-muted-foreground hover:text-destructive"
+                aria-label="Eliminar borrador"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,349 @@
+/**
+ * PROPERTY IMPORT DIALOG
+ *
+ * Importación masiva de propiedades desde CSV, Excel o XML (Kyero)
+ * 1. Subir archivo (se lee y valida en el navegador)
+ * 2. Vista previa: filas válidas e inválidas con sus errores
+ * 3. Importar en lotes (el servidor revalida, geocodifica y descarga imágenes)
+ * 4. Reporte por fila: creadas, fallidas y omitidas por el límite del plan
+ */
+
+"use client";
+
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  Progress,
+} from "@repo/ui";
+import { FileUp, Upload } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { importPropertiesAction } from "@/app/actions/property-import";
+import {
+  PROPERTY_IMPORT_BATCH_SIZE,
+  type PropertyImportResult,
+  type PropertyImportRow,
+  parsePropertyFile,
+  validatePropertyImportRow,
+} from "@/lib/property-import/parse";
+import { cn } from "@/lib/utils";
+
+interface PropertyImportDialogProps {
+  /** Propiedades que aún permite el plan (para avisar antes de importar) */
+  remaining: number;
+}
+
+const RESULT_LABELS: Record<
+  PropertyImportResult["status"] | "valid",
+  { label: string; className: string }
+> = {
+  valid: { label: "Válida", className: "text-green-600" },
+  created: { label: "Creada", className: "text-green-600" },
+  failed: { label: "Error", className: "text-red-500" },
+  skipped: { label: "Omitida", className: "text-yellow-600" },
+};
+
+function rowTitle(row: PropertyImportRow): string | null {
+  return typeof row.data.title === "string" ? row.data.title : null;
+}
+
+export function PropertyImportDialog({ remaining }: PropertyImportDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [validRows, setValidRows] = useState<PropertyImportRow[]>([]);
+  const [invalid, setInvalid] = useState<PropertyImportResult[]>([]);
+  const [results, setResults] = useState<PropertyImportResult[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const isImporting = progress !== null;
+
+  const reset = () => {
+    setFileName(null);
+    setValidRows([]);
+    setInvalid([]);
+    setResults(null);
+    setProgress(null);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const { rows } = parsePropertyFile(file.name, data);
+
+      const valid: PropertyImportRow[] = [];
+      const failed: PropertyImportResult[] = [];
+
+      for (const row of rows) {
+        const validation = validatePropertyImportRow(row);
+        if (validation.success) {
+          valid.push(row);
+        } else {
+          failed.push({
+            rowNumber: row.rowNumber,
+            reference: row.reference,
+            title: rowTitle(row),
+            status: "failed",
+            errors: validation.errors,
+            warnings: [],
+          });
+        }
+      }
+
+      setFileName(file.name);
+      setValidRows(valid);
+      setInvalid(failed);
+      setResults(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "No se pudo leer el archivo",
+      );
+    }
+  };
+
+  const runImport = async () => {
+    const imported: PropertyImportResult[] = [];
+    setProgress(0);
+
+    for (
+      let start = 0;
+      start < validRows.length;
+      start += PROPERTY_IMPORT_BATCH_SIZE
+    ) {
+      const batch = validRows.slice(start, start + PROPERTY_IMPORT_BATCH_SIZE);
+      const result = await importPropertiesAction(batch);
+
+      if (!result.success || !result.results) {
+        toast.error(result.error || "Error al importar propiedades");
+        break;
+      }
+
+      imported.push(...result.results);
+      setProgress(
+        Math.round(((start + batch.length) / validRows.length) * 100),
+      );
+
+      if (result.limitReached) {
+        // El resto de filas no se envía: el plan no permite más
+        const pending = validRows.slice(start + batch.length);
+        imported.push(
+          ...pending.map((row) => ({
+            rowNumber: row.rowNumber,
+            reference: row.reference,
+            title: rowTitle(row),
+            status: "skipped" as const,
+            errors: ["Límite de propiedades alcanzado"],
+            warnings: [],
+          })),
+        );
+        break;
+      }
+    }
+
+    const created = imported.filter((row) => row.status === "created").length;
+    if (created > 0) {
+      toast.success(`${created} propiedades importadas`);
+      router.refresh();
+    }
+
+    setResults(
+      [...imported, ...invalid].sort((a, b) => a.rowNumber - b.rowNumber),
+    );
+    setProgress(null);
+  };
+
+  const report: (
+    | PropertyImportResult
+    | (PropertyImportRow & { valid: true })
+  )[] =
+    results ??
+    [
+      ...validRows.map((row) => ({ ...row, valid: true as const })),
+      ...invalid,
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+
+  const counts = results
+    ? {
+        created: results.filter((row) => row.status === "created").length,
+        failed: results.filter((row) => row.status === "failed").length,
+        skipped: results.filter((row) => row.status === "skipped").length,
+      }
+    : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (isImporting) return;
+        setOpen(nextOpen);
+        if (!nextOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Importar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar propiedades</DialogTitle>
+          <DialogDescription>
+            Sube un archivo CSV o Excel (.xlsx) con una fila de encabezados, o
+            un feed XML en formato Kyero. Las imágenes se descargan desde sus
+            URLs y las direcciones sin coordenadas se ubican automáticamente.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: File */}
+        {!results && (
+          <label className="flex cursor-pointer items-center gap-3 rounded-lg border border-dashed border-border p-4 text-sm hover:bg-muted/50">
+            <FileUp className="h-5 w-5 text-muted-foreground" />
+            <span className="flex-1">
+              {fileName
+                ? `${fileName} · ${validRows.length + invalid.length} propiedades`
+                : "Seleccionar archivo .csv, .xlsx o .xml"}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xml,text/csv,text/xml,application/xml,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="sr-only"
+              disabled={isImporting}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleFile(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        )}
+
+        {/* Step 2: Preview / Step 4: Report */}
+        {report.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm">
+              {counts ? (
+                <>
+                  <span className="text-green-600">
+                    {counts.created} creadas
+                  </span>
+                  <span className="text-red-500">
+                    {counts.failed} con errores
+                  </span>
+                  <span className="text-yellow-600">
+                    {counts.skipped} omitidas
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span className="text-green-600">
+                    {validRows.length} válidas
+                  </span>
+                  <span className="text-red-500">
+                    {invalid.length} con errores
+                  </span>
+                </>
+              )}
+            </div>
+
+            {!results && validRows.length > remaining && (
+              <p className="text-sm text-yellow-600">
+                Tu plan permite {remaining} propiedades más. Las filas restantes
+                se omitirán.
+              </p>
+            )}
+
+            {progress !== null && <Progress value={progress} />}
+
+            <div className="max-h-64 overflow-y-auto rounded-lg border border-border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Fila</th>
+                    <th className="px-3 py-2 text-left font-medium">
+                      Propiedad
+                    </th>
+                    <th className="px-3 py-2 text-left font-medium">
+                      Resultado
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.map((row) => {
+                    const isPreview = "valid" in row;
+                    const config =
+                      RESULT_LABELS[isPreview ? "valid" : row.status];
+                    const title = isPreview ? rowTitle(row) : row.title;
+                    const details = isPreview
+                      ? []
+                      : [...row.errors, ...row.warnings];
+
+                    return (
+                      <tr
+                        key={row.rowNumber}
+                        className="border-t border-border"
+                      >
+                        <td className="px-3 py-2 text-muted-foreground">
+                          {row.rowNumber}
+                        </td>
+                        <td className="px-3 py-2">
+                          <p>{title || "—"}</p>
+                          {row.reference && (
+                            <p className="text-muted-foreground">
+                              Ref. {row.reference}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <p className={cn("font-medium", config.className)}>
+                            {config.label}
+                          </p>
+                          {details.map((detail) => (
+                            <p key={detail} className="text-muted-foreground">
+                              {detail}
+                            </p>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <Button
+              onClick={() => {
+                setOpen(false);
+                reset();
+              }}
+            >
+              Cerrar
+            </Button>
+          ) : (
+            <Button
+              onClick={runImport}
+              disabled={
+                isImporting || validRows.length === 0 || remaining === 0
+              }
+            >
+              {isImporting
+                ? "Importando…"
+                : `Importar ${Math.min(validRows.length, remaining)} propiedades`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,21 +6,44 @@ import { Step4 } from "@/components/dashboard/property-wizard/steps/images";
 import { Step2 } from "@/components/dashboard/property-wizard/steps/location";
 import { Step5 } from "@/components/dashboard/property-wizard/steps/review";
 import { WizardLayout } from "@/components/dashboard/property-wizard/wizard-layout";
-import { usePropertyWizardStore } from "@/lib/stores/property-wizard-store";
+import { useWizardDraftAutosave } from "@/hooks/use-wizard-draft-autosave";
+import {
+  usePropertyWizardStore,
+  type WizardDraft,
+} from "@/lib/stores/property-wizard-store";
 
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 
 interface NewPropertyClientProps {
   maxImages: number;
+  draft?: WizardDraft | null; // Resuming a server-side draft (?borrador=<id>)
 }
 
-export function NewPropertyClient({ maxImages }: NewPropertyClientProps) {
-  const { currentStep, setLimits } = usePropertyWizardStore();
+export function NewPropertyClient({
+  maxImages,
+  draft,
+}: NewPropertyClientProps) {
+  const { currentStep, setLimits, loadDraft } = usePropertyWizardStore();
+
+  // Steps read the store on mount (Step4 rebuilds its previews from imageUrls),
+  // so they only render once the draft is loaded
+  const [isHydrated, setIsHydrated] = useState(!draft);
+  const { saveDraft, isSaving, lastSavedAt } =
+    useWizardDraftAutosave(isHydrated);
 
   useEffect(() => {
     setLimits({ maxImages });
   }, [maxImages, setLimits]);
 
+  // Load once per draft: autosaves revalidate the page and send a fresh prop
+  const loadedDraftIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!draft || loadedDraftIdRef.current === draft.id) return;
+    loadedDraftIdRef.current = draft.id;
+    loadDraft(draft);
+    setIsHydrated(true);
+  }, [draft, loadDraft]);
+
   const renderStep = () => {
     switch (currentStep) {
       case 1:
@@ -43,8 +66,11 @@ export function NewPropertyClient({ maxImages }: NewPropertyClientProps) {
       title="Nueva Propiedad"
       description="Completa la información para publicar tu propiedad."
       formId="wizard-step-form"
+      onSaveDraft={saveDraft}
+      isSavingDraft={isSaving}
+      lastSavedAt={lastSavedAt}
     >
-      <div className="mt-4">{renderStep()}</div>
+      <div className="mt-4">{isHydrated && renderStep()}</div>
     </WizardLayout>
   );
 }
@@ -1,5 +1,6 @@
 "use client";
 
+import { AMENITIES_LIST } from "@/lib/constants/amenities";
 import { usePropertyWizardStore } from "@/lib/stores/property-wizard-store";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
@@ -25,21 +26,6 @@ const step3Schema = z.object({
 
 type Step3Values = z.infer<typeof step3Schema>;
 
-const AMENITIES_LIST = [
-  { id: "pool", label: "Piscina" },
-  { id: "gym", label: "Gimnasio" },
-  { id: "garage", label: "Garaje" },
-  { id: "garden", label: "Jardín" },
-  { id: "terrace", label: "Terraza" },
-  { id: "security", label: "Seguridad 24/7" },
-  { id: "elevator", label: "Ascensor" },
-  { id: "ac", label: "Aire Acondicionado" },
-  { id: "heating", label: "Calefacción" },
-  { id: "internet", label: "Internet / Wifi" },
-  { id: "furnished", label: "Amoblado" },
-  { id: "pets_allowed", label: "Mascotas Permitidas" },
-];
-
 export function Step3() {
   const { formData, updateFormData, nextStep } = usePropertyWizardStore();
 
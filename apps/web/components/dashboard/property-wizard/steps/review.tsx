@@ -1,9 +1,10 @@
 "use client";
 
 import { createPropertyFromWizard } from "@/app/actions/wizard";
+import { AMENITY_LABELS, isAmenityId } from "@/lib/constants/amenities";
 import { usePropertyWizardStore } from "@/lib/stores/property-wizard-store";
 import { Card } from "@repo/ui";
-import { Bath, BedDouble, CheckCircle2, Image as ImageIcon, MapPin, Ruler } from "lucide-react";
+import { Bath, BedDouble, CalendarClock, CheckCircle2, Image as ImageIcon, MapPin, Ruler } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { toast } from "sonner";
@@ -17,16 +18,34 @@ const formatPrice = (price: number) => {
   }).format(price);
 };
 
+// "YYYY-MM-DDTHH:mm" in local time, as expected by <input type="datetime-local">
+const toDateTimeLocal = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
 export function Step5() {
-  const { formData, resetWizard } = usePropertyWizardStore();
+  const { formData, draftId, resetWizard } = usePropertyWizardStore();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
 
   const handleSubmit = async () => {
     if (isSubmitting) return; // Prevent double submit
+
+    const scheduledDate = isScheduling && publishAt ? new Date(publishAt) : null;
+    if (isScheduling && (!scheduledDate || scheduledDate <= new Date())) {
+      toast.error("Elige una fecha y hora futura para programar la publicación");
+      return;
+    }
+
     setIsSubmitting(true);
     
-    toast.loading("Publicando propiedad...", { id: "publish-property" });
+    toast.loading(
+      scheduledDate ? "Programando publicación..." : "Publicando propiedad...",
+      { id: "publish-property" },
+    );
     
     try {
       // Images are already uploaded in Step4, just create property with URLs
@@ -50,11 +69,18 @@ export function Step5() {
         amenities: formData.amenities,
         imageUrls: formData.imageUrls, // URLs from Step4
         videos: formData.videos, // External video URLs
+        draftId: draftId ?? undefined, // Consumed by the publish transaction
+        publishAt: scheduledDate?.toISOString(), // Stays DRAFT until then
       });
 
       if (result.success) {
         console.log("Property created successfully:", result.propertyId);
-        toast.success("¡Propiedad publicada exitosamente!", { id: "publish-property" });
+        toast.success(
+          result.scheduledFor
+            ? `Publicación programada para el ${new Date(result.scheduledFor).toLocaleString("es-EC", { dateStyle: "long", timeStyle: "short" })}`
+            : "¡Propiedad publicada exitosamente!",
+          { id: "publish-property" },
+        );
         
         // Navigate FIRST, then reset wizard after navigation starts
         router.push("/dashboard/propiedades");
@@ -137,7 +163,9 @@ export function Step5() {
               {formData.amenities.map((amenity) => (
                 <li key={amenity} className="flex items-center gap-2 text-sm">
                   <CheckCircle2 className="w-4 h-4 text-primary" />
-                  <span className="capitalize">{amenity}</span>
+                  <span>
+                    {isAmenityId(amenity) ? AMENITY_LABELS[amenity] : amenity}
+                  </span>
                 </li>
               ))}
             </ul>
@@ -151,7 +179,7 @@ export function Step5() {
           <h4 className="font-semibold flex items-center justify-between">
             Galería
             <span className="text-xs font-normal text-muted-foreground">
-              {formData.images.length} imágenes
+              {formData.imageUrls.length} imágenes
             </span>
           </h4>
           
@@ -182,6 +210,38 @@ export function Step5() {
         </Card>
       </div>
 
+      {/* Scheduled publication */}
+      <Card className="p-6 space-y-4">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isScheduling}
+            onChange={(e) => setIsScheduling(e.target.checked)}
+            className="mt-1 h-4 w-4 rounded border-input"
+          />
+          <span>
+            <span className="font-semibold flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Programar publicación
+            </span>
+            <span className="block text-sm text-muted-foreground">
+              La propiedad no será visible en el portal hasta la fecha elegida.
+            </span>
+          </span>
+        </label>
+
+        {isScheduling && (
+          <input
+            type="datetime-local"
+            value={publishAt}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e) => setPublishAt(e.target.value)}
+            aria-label="Fecha y hora de publicación"
+            className="w-full sm:w-auto rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+        )}
+      </Card>
+
       {/* Hidden submit button to be triggered by WizardLayout */}
       <form id="wizard-step-form" onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="hidden">
         <button type="submit"></button>
@@ -2,7 +2,7 @@
 
 import { usePropertyWizardStore } from "@/lib/stores/property-wizard-store";
 import { Button, Card } from "@repo/ui";
-import { ArrowLeft, ArrowRight, Save } from "lucide-react";
+import { ArrowLeft, ArrowRight, Loader2, Save } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { StepIndicator } from "./step-indicator";
 
@@ -12,9 +12,21 @@ interface WizardLayoutProps {
   description?: string;
   formId?: string;
   isSubmitting?: boolean;
+  onSaveDraft?: () => void; // Server-side draft ("Guardar Borrador")
+  isSavingDraft?: boolean;
+  lastSavedAt?: Date | null;
 }
 
-export function WizardLayout({ children, title, description, formId, isSubmitting }: WizardLayoutProps) {
+export function WizardLayout({
+  children,
+  title,
+  description,
+  formId,
+  isSubmitting,
+  onSaveDraft,
+  isSavingDraft,
+  lastSavedAt,
+}: WizardLayoutProps) {
   const { currentStep, totalSteps, setStep } = usePropertyWizardStore();
   const router = useRouter();
 
@@ -55,12 +67,35 @@ export function WizardLayout({ children, title, description, formId, isSubmittin
           {currentStep === 1 ? "Cancelar" : "Atrás"}
         </Button>
 
-        <div className="flex gap-2">
-            {/* Save Draft Button (Optional) */}
-            <Button variant="ghost" className="gap-2 text-muted-foreground" type="button">
-                <Save className="w-4 h-4" />
-                Guardar Borrador
-            </Button>
+        <div className="flex items-center gap-2">
+            {/* Save Draft Button (autosaved on each step too) */}
+            {onSaveDraft && (
+              <>
+                {lastSavedAt && (
+                  <span className="hidden sm:inline text-xs text-muted-foreground">
+                    Guardado{" "}
+                    {lastSavedAt.toLocaleTimeString("es-EC", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  className="gap-2 text-muted-foreground"
+                  type="button"
+                  onClick={onSaveDraft}
+                  disabled={isSubmitting || isSavingDraft}
+                >
+                  {isSavingDraft ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )}
+                  Guardar Borrador
+                </Button>
+              </>
+            )}
 
             <Button
             type={formId ? "submit" : "button"}
@@ -1,8 +1,13 @@
 "use client";
 
-import { formatDistanceToNow } from "date-fns";
+import type { PendingLeadTask } from "@repo/database";
+import { formatDistanceToNow, isPast } from "date-fns";
 import { es } from "date-fns/locale";
-import { Building2, Calendar, Heart } from "lucide-react";
+import { Building2, Calendar, Circle, Heart } from "lucide-react";
+import Link from "next/link";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { completeLeadTaskAction } from "@/app/actions/crm";
 
 export type ActivityType = "APPOINTMENT" | "FAVORITE" | "PROPERTY_CREATED";
 
@@ -16,10 +21,74 @@ export interface ActivityItem {
 
 interface RecentActivityProps {
   activities: ActivityItem[];
+  /** Tareas de seguimiento del CRM pendientes (incluye vencidas) */
+  tasks?: PendingLeadTask[];
 }
 
-export function RecentActivity({ activities }: RecentActivityProps) {
-  if (activities.length === 0) {
+function PendingTasks({ tasks }: { tasks: PendingLeadTask[] }) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleComplete = (task: PendingLeadTask) => {
+    startTransition(async () => {
+      const result = await completeLeadTaskAction(task.id, task.agentClientId);
+      if (result.success) {
+        toast.success("Tarea completada");
+      } else {
+        toast.error(result.error || "Error al completar tarea");
+      }
+    });
+  };
+
+  return (
+    <div className="mb-6 space-y-3 border-b border-border pb-6">
+      <h3 className="text-sm font-medium text-muted-foreground">
+        Seguimientos pendientes
+      </h3>
+      {tasks.map((task) => {
+        const isOverdue = isPast(new Date(task.dueAt));
+        const client = task.agentClient.contact;
+
+        return (
+          <div key={task.id} className="flex items-start gap-3 text-sm">
+            <button
+              type="button"
+              onClick={() => handleComplete(task)}
+              disabled={isPending}
+              aria-label={`Completar "${task.title}"`}
+              className="mt-0.5 text-muted-foreground hover:text-primary"
+            >
+              <Circle className="h-4 w-4" />
+            </button>
+            <div className="space-y-1">
+              <Link
+                href={`/dashboard/clientes/${task.agentClientId}`}
+                className="font-medium leading-none hover:underline"
+              >
+                {task.title}
+              </Link>
+              <p className="text-xs text-muted-foreground">
+                {client.name || client.email} ·{" "}
+                <span className={isOverdue ? "text-red-500" : undefined}>
+                  {isOverdue ? "Vencida " : "Vence "}
+                  {formatDistanceToNow(new Date(task.dueAt), {
+                    addSuffix: true,
+                    locale: es,
+                  })}
+                </span>
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function RecentActivity({
+  activities,
+  tasks = [],
+}: RecentActivityProps) {
+  if (activities.length === 0 && tasks.length === 0) {
     return (
       <div className="rounded-lg border border-border bg-card p-6 shadow-sm">
         <h2 className="text-lg font-semibold mb-4">Actividad Reciente</h2>
@@ -39,6 +108,7 @@ export function RecentActivity({ activities }: RecentActivityProps) {
   return (
     <div className="rounded-lg border border-border bg-card p-6 shadow-sm">
       <h2 className="text-lg font-semibold mb-4">Actividad Reciente</h2>
+      {tasks.length > 0 && <PendingTasks tasks={tasks} />}
       <div className="space-y-6">
         {activities.map((activity) => {
           let Icon = Building2;
@@ -4,11 +4,20 @@ import { getNextTierUpgrade } from "@/lib/dashboard/subscription-helpers";
 import { getTierPricing } from "@/lib/pricing/tiers";
 import type { SubscriptionTier } from "@repo/database";
 import { Badge, Button, Card, CardContent, CardHeader } from "@repo/ui";
-import { Check, Crown, Sparkles, Star } from "lucide-react";
+import { Check, Clock, Crown, Sparkles, Star } from "lucide-react";
 import Link from "next/link";
+import { StartTrialButton } from "./start-trial-button";
 
 interface CurrentPlanCardProps {
   tier: SubscriptionTier;
+  /** Prueba gratis en curso (tier es el plan que se está probando) */
+  trial?: {
+    endsAt: Date;
+    daysLeft: number;
+    totalDays: number;
+  } | null;
+  /** Prueba gratis disponible: el agente aún no la usó (solo en FREE) */
+  trialOffer?: { days: number } | null;
 }
 
 const tierIcons: Record<SubscriptionTier, React.ReactNode> = {
@@ -25,10 +34,13 @@ const tierColors: Record<SubscriptionTier, string> = {
   PRO: "bg-gradient-to-r from-purple-500 to-pink-500 text-white",
 };
 
-export function CurrentPlanCard({ tier }: CurrentPlanCardProps) {
+export function CurrentPlanCard({ tier, trial, trialOffer }: CurrentPlanCardProps) {
   const pricing = getTierPricing(tier);
   const nextTier = getNextTierUpgrade(tier);
   const nextTierPricing = nextTier ? getTierPricing(nextTier) : null;
+  const trialProgress = trial
+    ? Math.min(100, ((trial.totalDays - trial.daysLeft) / trial.totalDays) * 100)
+    : 0;
 
   return (
     <Card className="border-2">
@@ -41,6 +53,11 @@ export function CurrentPlanCard({ tier }: CurrentPlanCardProps) {
                 {tierIcons[tier]}
                 {pricing.displayName}
               </Badge>
+              {trial && (
+                <Badge variant="outline" className="px-2.5 py-1 text-xs font-medium">
+                  Prueba gratis
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -74,6 +91,47 @@ export function CurrentPlanCard({ tier }: CurrentPlanCardProps) {
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {/* Trial Countdown */}
+        {trial && (
+          <div
+            data-testid="trial-countdown"
+            className="p-4 rounded-lg border border-blue-200 bg-blue-50 dark:border-blue-900/50 dark:bg-blue-900/20 space-y-3"
+          >
+            <div className="flex items-start gap-3">
+              <Clock className="w-5 h-5 text-blue-600 dark:text-blue-300 mt-0.5" />
+              <div className="space-y-0.5">
+                <p className="font-semibold text-foreground">
+                  {trial.daysLeft === 0
+                    ? "Tu prueba termina hoy"
+                    : `Te ${trial.daysLeft === 1 ? 'queda 1 día' : `quedan ${trial.daysLeft} días`} de prueba`
+                  }
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Termina el{" "}
+                  {new Date(trial.endsAt).toLocaleDateString("es-EC", {
+                    day: "numeric",
+                    month: "long",
+                  })}
+                  . Si no te suscribes, tu cuenta pasa al plan gratuito sin ningún cargo.
+                </p>
+              </div>
+            </div>
+
+            <div className="h-2 rounded-full bg-blue-100 dark:bg-blue-950 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-blue-600 dark:bg-blue-400"
+                style={{ width: `${trialProgress}%` }}
+              />
+            </div>
+
+            <Button asChild className="w-full">
+              <Link href={`/dashboard?upgrade=${tier.toLowerCase()}`}>
+                Suscribirme a {pricing.displayName}
+              </Link>
+            </Button>
+          </div>
+        )}
+
         {/* Upgrade CTA */}
         {nextTier && nextTierPricing && (
           <div className="p-4 rounded-lg bg-gradient-to-br from-primary/10 to-primary/5 border border-primary/20">
@@ -98,6 +156,19 @@ export function CurrentPlanCard({ tier }: CurrentPlanCardProps) {
                   Actualizar Plan
                 </Link>
               </Button>
+
+              {trialOffer && (nextTier === "PLUS" || nextTier === "BUSINESS") && (
+                <div className="space-y-1.5">
+                  <StartTrialButton
+                    tier={nextTier}
+                    planName={nextTierPricing.displayName}
+                    trialDays={trialOffer.days}
+                  />
+                  <p className="text-xs text-center text-muted-foreground">
+                    Sin tarjeta. Al terminar vuelves al plan gratuito si no te suscribes.
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1,3 +1,4 @@
 export { CurrentPlanCard } from "./current-plan-card";
-export { UsageStatsCard } from "./usage-stats-card";
 export { PlanComparisonTable } from "./plan-comparison-table";
+export { StartTrialButton } from "./start-trial-button";
+export { UsageStatsCard } from "./usage-stats-card";
@@ -0,0 +1,63 @@
+/**
+ * START TRIAL BUTTON - Client Component
+ *
+ * Inicia la prueba gratis de un plan (sin tarjeta ni checkout)
+ * Una prueba por usuario: el servidor rechaza un segundo intento
+ */
+
+"use client";
+
+import { Button } from "@repo/ui";
+import { Gift } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { startFreeTrial } from "@/app/actions/subscription";
+
+interface StartTrialButtonProps {
+  tier: "PLUS" | "BUSINESS";
+  planName: string;
+  trialDays: number;
+}
+
+export function StartTrialButton({
+  tier,
+  planName,
+  trialDays,
+}: StartTrialButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleStart = () => {
+    startTransition(async () => {
+      try {
+        const result = await startFreeTrial(tier);
+
+        if (result.success) {
+          toast.success(`Tu prueba de ${planName} comenzó`);
+          router.refresh();
+        } else {
+          toast.error(result.error || "No se pudo iniciar la prueba");
+        }
+      } catch {
+        toast.error("No se pudo iniciar la prueba");
+      }
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      className="w-full"
+      size="lg"
+      onClick={handleStart}
+      disabled={isPending}
+    >
+      <Gift className="w-4 h-4 mr-2" aria-hidden="true" />
+      {isPending
+        ? "Iniciando prueba..."
+        : `Probar ${planName} gratis ${trialDays} días`}
+    </Button>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * SYNDICATION FEED CARD - Client Component
+ *
+ * Enlaces del feed de propiedades del agente para portales externos
+ * - XML (Kyero v3): portales inmobiliarios
+ * - JSON Feed: integraciones y catálogos de Meta
+ * Los feeds son públicos: solo incluyen propiedades disponibles
+ */
+
+import { Button, Input } from "@repo/ui";
+import { Copy, Rss } from "lucide-react";
+import { toast } from "sonner";
+
+interface SyndicationFeedCardProps {
+  xmlUrl: string;
+  jsonUrl: string;
+}
+
+export function SyndicationFeedCard({
+  xmlUrl,
+  jsonUrl,
+}: SyndicationFeedCardProps) {
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Enlace copiado");
+    } catch {
+      toast.error("No se pudo copiar el enlace");
+    }
+  };
+
+  const feeds = [
+    { label: "XML (Kyero) para portales", url: xmlUrl },
+    { label: "JSON Feed", url: jsonUrl },
+  ];
+
+  return (
+    <section className="rounded-lg border border-border bg-card p-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Rss className="w-5 h-5" aria-hidden="true" />
+          Publicar en portales
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Conecta estos enlaces en los portales inmobiliarios o en tu catálogo
+          de Meta. Se actualizan solos cuando publicas, editas o vendes una
+          propiedad.
+        </p>
+      </div>
+
+      {feeds.map((feed) => (
+        <div key={feed.url} className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">
+            {feed.label}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={feed.url}
+              aria-label={feed.label}
+              onFocus={(e) => e.target.select()}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleCopy(feed.url)}
+              aria-label="Copiar enlace"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -14,6 +14,7 @@ export function UpgradeModal() {
   const router = useRouter();
   const upgradeParam = searchParams.get("upgrade");
   const [isPending, setIsPending] = useState(false);
+  const [promoCode, setPromoCode] = useState("");
 
   // Si no hay parámetro upgrade, no mostrar nada
   if (!upgradeParam) return null;
@@ -33,11 +34,15 @@ export function UpgradeModal() {
   const handleUpgrade = async () => {
     setIsPending(true);
     try {
-      // Redirect to Lemon Squeezy checkout
-      await createSubscriptionCheckout(planName as SubscriptionTier);
+      // Redirect to Lemon Squeezy checkout (promo code pre-filled)
+      await createSubscriptionCheckout(planName as SubscriptionTier, promoCode);
     } catch (error) {
       setIsPending(false);
-      alert("Error al procesar la suscripción");
+      alert(
+        promoCode.trim()
+          ? "Error al procesar la suscripción. Revisa el código promocional."
+          : "Error al procesar la suscripción"
+      );
       console.error(error);
     }
   };
@@ -142,6 +147,25 @@ export function UpgradeModal() {
               </div>
             </div>
 
+            {/* Promo code: Lemon Squeezy applies the discount in checkout */}
+            <div className="space-y-2 mb-8">
+              <label htmlFor="promo-code" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Código promocional (opcional)
+              </label>
+              <input
+                id="promo-code"
+                type="text"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                placeholder="BIENVENIDO20"
+                maxLength={64}
+                autoComplete="off"
+                data-testid="promo-code"
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-indigo-500 outline-none transition-all uppercase"
+                disabled={isPending}
+              />
+            </div>
+
             <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg mb-8 text-sm text-blue-700 dark:text-blue-300 flex gap-2">
               <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -24,6 +24,7 @@ import { ChevronRight, X } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import type React from "react";
+import { CompareToggleButton } from "@/components/compare/compare-toggle-button";
 import { generateSlug } from "@/lib/utils/slug-generator";
 import { PropertyImageFallback } from "../map/property-image-fallback";
 
@@ -110,6 +111,13 @@ export function FavoriteItemCompact({
 
       {/* Action Buttons Container - Right side */}
       <div className="flex items-center gap-2 flex-shrink-0">
+        {/* Compare toggle */}
+        <CompareToggleButton
+          propertyId={propertyId}
+          title={title}
+          variant="compact"
+        />
+
         {/* Remove Button - X icon */}
         <button
           onClick={handleRemoveClick}
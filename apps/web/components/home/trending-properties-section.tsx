@@ -9,16 +9,17 @@
  * - Discovery: Helps users find what others love
  * - Engagement: Creates urgency to act
  *
- * TRENDING ALGORITHM:
- * Formula: (shares * 3) + views
- * - Shares weighted 3x (stronger signal)
- * - Views count as secondary signal
- * - Time decay (future): Recent activity counts more
+ * TRENDING ALGORITHM (computed in PostgreSQL, see getTrendingProperties):
+ * - Window: last 14 days of activity
+ * - Weights: views 1, shares 3, favorites 4, appointments 5
+ * - Time decay: each event counts half every 48 hours
+ * - Precomputed in the property_trending_scores materialized view
+ *   (refreshed by /api/cron/trending-scores)
  *
  * WHY this formula?
- * - Shares indicate strong interest
+ * - Recent activity matters more than all-time totals
+ * - Stronger intent (favorite, visit request) weighs more than a view
  * - Prevents view-only properties from dominating
- * - Balances popularity with quality
  *
  * ALTERNATIVE 1: Just by shares
  * ❌ New properties can't trend
@@ -15,6 +15,7 @@
  * - Allows individual filter removal
  */
 
+import { AMENITY_LABELS, isAmenityId } from "@/lib/constants/amenities";
 import { useMapStore } from "@/stores/map-store";
 import { X } from "lucide-react";
 
@@ -117,6 +118,25 @@ export function ActiveFilterChips() {
     });
   }
 
+  // Amenities (one chip per amenity)
+  if (filters.amenities && filters.amenities.length > 0) {
+    filters.amenities.forEach((amenity) => {
+      chips.push({
+        key: `amenity-${amenity}`,
+        label: isAmenityId(amenity) ? AMENITY_LABELS[amenity] : amenity,
+        onRemove: () => {
+          const updated = filters.amenities?.filter((a) => a !== amenity);
+          if (updated?.length) {
+            updateFilter("amenities", updated);
+          } else {
+            updateFilter("amenities", undefined);
+            updateFilter("amenitiesMatch", undefined);
+          }
+        },
+      });
+    });
+  }
+
   // =========================================================================
   // RENDER
   // =========================================================================
@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * AmenitiesFilterContent - Amenities selector for mobile
+ *
+ * Simplified version without dropdown wrapper
+ * Used inside MobileFilterSheet
+ */
+
+import {
+  AMENITIES_LIST,
+  type AmenityMatchMode,
+} from "@/lib/constants/amenities";
+
+interface AmenitiesFilterContentProps {
+  selected?: string[];
+  matchMode?: AmenityMatchMode;
+  onToggle: (amenity: string) => void;
+  onMatchModeChange: (mode: AmenityMatchMode) => void;
+}
+
+const MATCH_OPTIONS: { value: AmenityMatchMode; label: string }[] = [
+  { value: "all", label: "Todas" },
+  { value: "any", label: "Cualquiera" },
+];
+
+export function AmenitiesFilterContent({
+  selected = [],
+  matchMode = "all",
+  onToggle,
+  onMatchModeChange,
+}: AmenitiesFilterContentProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold text-oslo-gray-300 uppercase tracking-wide">
+          ✨ Amenidades
+        </label>
+
+        <div className="flex gap-1">
+          {MATCH_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onMatchModeChange(option.value)}
+              aria-pressed={matchMode === option.value}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                matchMode === option.value
+                  ? "bg-indigo-600 text-white"
+                  : "text-oslo-gray-400 hover:bg-oslo-gray-800"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {AMENITIES_LIST.map((amenity) => (
+          <button
+            key={amenity.id}
+            type="button"
+            onClick={() => onToggle(amenity.id)}
+            aria-pressed={selected.includes(amenity.id)}
+            className={`px-3 py-2.5 rounded-lg font-medium text-sm text-left transition-all duration-200 ${
+              selected.includes(amenity.id)
+                ? "bg-indigo-600 text-white shadow-lg shadow-indigo-600/30"
+                : "bg-oslo-gray-900/50 text-oslo-gray-300 border border-oslo-gray-800 hover:bg-oslo-gray-800/70"
+            }`}
+          >
+            {amenity.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
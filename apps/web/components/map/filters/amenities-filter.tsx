@@ -0,0 +1,223 @@
+"use client";
+
+/**
+ * Amenities Filter (Draft/Commit Pattern)
+ *
+ * Multi-select of canonical amenities (piscina, garaje, jardín...)
+ * - "Todas" / "Cualquiera" toggle: hasEvery vs hasSome
+ * - Confirmation with "Listo" button
+ * - Draft state during interaction
+ * - Loading spinner on submit
+ * - Same pattern as BedroomsFilter and PropertyTypeDropdown
+ */
+
+import { Check } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { Spinner } from "@/components/common";
+import {
+  AMENITIES_LIST,
+  AMENITY_LABELS,
+  type AmenityMatchMode,
+  isAmenityId,
+} from "@/lib/constants/amenities";
+import { useMapStore } from "@/stores/map-store";
+import { FilterDropdown } from "./filter-dropdown";
+
+const MATCH_OPTIONS: { value: AmenityMatchMode; label: string }[] = [
+  { value: "all", label: "Todas" },
+  { value: "any", label: "Cualquiera" },
+];
+
+/**
+ * AmenitiesFilter - No props needed!
+ * Accesses amenity filter state and actions directly from Zustand
+ */
+export function AmenitiesFilter() {
+  // =========================================================================
+  // STORE SELECTORS (Granular to prevent unnecessary re-renders)
+  // =========================================================================
+  const committedAmenities = useMapStore((state) => state.filters.amenities);
+  const draftAmenities = useMapStore((state) => state.draftFilters.amenities);
+  const committedMatch = useMapStore((state) => state.filters.amenitiesMatch);
+  const draftMatch = useMapStore((state) => state.draftFilters.amenitiesMatch);
+  const isLoading = useMapStore((state) => state.isLoading);
+  const setIsLoading = useMapStore((state) => state.setIsLoading);
+  const setDraftFilter = useMapStore((state) => state.setDraftFilter);
+  const commitDraftFilters = useMapStore((state) => state.commitDraftFilters);
+  const clearDraftFilters = useMapStore((state) => state.clearDraftFilters);
+  const updateFilter = useMapStore((state) => state.updateFilter);
+
+  // =========================================================================
+  // LOCAL STATE (only for dropdown UI)
+  // =========================================================================
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Ref to track previous loading state (for auto-closing dropdown)
+  const wasLoadingRef = useRef(false);
+
+  // Close dropdown automatically when loading finishes
+  useEffect(() => {
+    if (wasLoadingRef.current && !isLoading) {
+      setIsOpen(false);
+    }
+    wasLoadingRef.current = isLoading;
+  }, [isLoading]);
+
+  // =========================================================================
+  // COMPUTED VALUES
+  // =========================================================================
+  const selected = draftAmenities ?? committedAmenities ?? [];
+  const matchMode = draftMatch ?? committedMatch ?? "all";
+
+  const displayValue = useMemo(() => {
+    const labels = selected
+      .filter(isAmenityId)
+      .map((amenity) => AMENITY_LABELS[amenity]);
+
+    if (labels.length === 0) return "Amenidades";
+    if (labels.length === 1) return labels[0];
+    return `${labels[0]} +${labels.length - 1}`;
+  }, [selected]);
+
+  // =========================================================================
+  // HANDLERS
+  // =========================================================================
+  const handleToggle = useCallback(
+    (amenity: string) => {
+      const updated = selected.includes(amenity)
+        ? selected.filter((a) => a !== amenity)
+        : [...selected, amenity];
+
+      setDraftFilter("amenities", updated);
+    },
+    [selected, setDraftFilter],
+  );
+
+  const handleMatchChange = useCallback(
+    (mode: AmenityMatchMode) => {
+      setDraftFilter("amenitiesMatch", mode);
+    },
+    [setDraftFilter],
+  );
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      // Prevent closing while loading (spinner is showing)
+      if (isLoading && !open) return;
+
+      setIsOpen(open);
+      if (open) {
+        clearDraftFilters();
+      }
+    },
+    [isLoading, clearDraftFilters],
+  );
+
+  const handleDone = useCallback(() => {
+    commitDraftFilters();
+
+    // Show loading spinner while server fetches filtered data
+    // (useFilterUrlSync updates the URL → Server Component re-fetches)
+    setIsLoading(true);
+  }, [commitDraftFilters, setIsLoading]);
+
+  // Clear amenities and match mode, leaving other filters intact
+  const handleClear = useCallback(() => {
+    updateFilter("amenities", undefined);
+    updateFilter("amenitiesMatch", undefined);
+    setIsOpen(false);
+  }, [updateFilter]);
+
+  return (
+    <FilterDropdown
+      label="Amenidades"
+      value={displayValue}
+      isOpen={isOpen}
+      onOpenChange={handleOpenChange}
+      isActive={(committedAmenities?.length ?? 0) > 0}
+      onClear={handleClear}
+    >
+      <div className="w-80 m-0 p-0 space-y-3 relative">
+        {/* Loading Overlay */}
+        {isLoading && (
+          <div className="absolute inset-0 bg-oslo-gray-900/70 flex items-center justify-center z-40 rounded-lg">
+            <Spinner
+              size="8"
+              color="text-white"
+              ariaLabel="Cargando amenidades..."
+            />
+          </div>
+        )}
+
+        {/* Header with Done Button */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-oslo-gray-800">
+          <h3 className="text-sm font-semibold text-oslo-gray-50">
+            Amenidades
+          </h3>
+          <button
+            type="button"
+            onClick={handleDone}
+            disabled={isLoading}
+            className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold text-sm hover:bg-indigo-500 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-oslo-gray-900 disabled:bg-oslo-gray-700 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            Listo
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 pt-2">
+          {/* Match mode: hasEvery vs hasSome */}
+          <div className="grid grid-cols-2 gap-2">
+            {MATCH_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleMatchChange(option.value)}
+                aria-pressed={matchMode === option.value}
+                className={`px-3 py-2 rounded-lg text-sm font-medium text-center transition-colors ${
+                  matchMode === option.value
+                    ? "bg-indigo-600 text-white"
+                    : "bg-oslo-gray-900/50 text-oslo-gray-300 border border-oslo-gray-800 hover:bg-oslo-gray-800"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Amenities Grid */}
+          <div className="grid grid-cols-2 gap-2">
+            {AMENITIES_LIST.map((amenity) => {
+              const isSelected = selected.includes(amenity.id);
+
+              return (
+                <button
+                  key={amenity.id}
+                  type="button"
+                  onClick={() => handleToggle(amenity.id)}
+                  aria-pressed={isSelected}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+                    isSelected
+                      ? "bg-oslo-gray-700 text-oslo-gray-50"
+                      : "bg-oslo-gray-900/50 text-oslo-gray-300 border border-oslo-gray-800 hover:bg-oslo-gray-800"
+                  }`}
+                >
+                  <span
+                    className={`flex h-4 w-4 flex-shrink-0 items-center justify-center rounded ${
+                      isSelected
+                        ? "bg-indigo-500"
+                        : "border border-oslo-gray-600"
+                    }`}
+                  >
+                    {isSelected && <Check className="h-3 w-3 text-white" />}
+                  </span>
+                  <span>{amenity.label}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </FilterDropdown>
+  );
+}
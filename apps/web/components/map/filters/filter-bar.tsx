@@ -5,7 +5,7 @@
  *
  * Horizontal filter bar below navbar, Realtor.com style
  * - AI Search as primary search input (desktop only)
- * - Price, Property Type, Bedrooms dropdowns
+ * - Price, Property Type, Bedrooms, Amenities dropdowns
  * - Glassmorphism design with dark mode
  * - Filter count badge + Clear all button
  *
@@ -32,9 +32,11 @@
 
 import { AISearchInline } from "@/components/ai-search/ai-search-inline";
 import { PropertyViewToggle } from "@/components/properties/property-view-toggle";
+import { SaveSearchButton } from "@/components/saved-searches/save-search-button";
 import { useMapStore } from "@/stores/map-store";
 import { X } from "lucide-react";
 import { ActiveFilterChips } from "./active-filter-chips";
+import { AmenitiesFilter } from "./amenities-filter";
 import { BathroomsFilter } from "./bathrooms-filter";
 import { BedroomsFilter } from "./bedrooms-filter";
 import { CityFilterDropdown } from "./city-filter-dropdown";
@@ -97,6 +99,7 @@ export function FilterBar({
     filters.maxPrice,
     filters.bedrooms,
     filters.bathrooms,
+    filters.amenities?.length ? filters.amenities : undefined,
   ].filter(Boolean).length;
 
   // =========================================================================
@@ -138,8 +141,14 @@ export function FilterBar({
             <BathroomsFilter />
           </div>
 
-          {/* Right Side: Active Filters Badge + View Toggle */}
+          <div className="block">
+            <AmenitiesFilter />
+          </div>
+
+          {/* Right Side: Save Search + Active Filters Badge + View Toggle */}
           <div className="ml-auto flex items-center gap-2">
+            <SaveSearchButton />
+
             {/* Active Filters Chip */}
             {activeFilterCount > 0 && (
               <button
@@ -4,6 +4,7 @@
  */
 
 export type { DynamicFilterParams } from "@/lib/utils/url-helpers";
+export { AmenitiesFilter } from "./amenities-filter";
 export { BathroomsFilter } from "./bathrooms-filter";
 export { BedroomsFilter } from "./bedrooms-filter";
 export { FilterBar } from "./filter-bar";
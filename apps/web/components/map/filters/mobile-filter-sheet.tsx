@@ -17,12 +17,14 @@
  * - Scrollable content area
  */
 
+import type { AmenityMatchMode } from "@/lib/constants/amenities";
 import { useMapStore } from "@/stores/map-store";
 import * as Dialog from "@radix-ui/react-dialog";
 import type { PropertyCategory, TransactionType } from "@repo/database";
 import { X } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
 import { useCallback, useEffect, useState } from "react";
+import { AmenitiesFilterContent } from "./amenities-filter-content";
 import { BathroomsFilterContent } from "./bathrooms-filter-content";
 import { BedroomsFilterContent } from "./bedrooms-filter-content";
 import { CategoryFilterContent } from "./category-filter-content";
@@ -81,6 +83,9 @@ export function MobileFilterSheet({
   const currentMaxPrice = draftFilters.maxPrice ?? filters.maxPrice;
   const currentBedrooms = draftFilters.bedrooms ?? filters.bedrooms;
   const currentBathrooms = draftFilters.bathrooms ?? filters.bathrooms;
+  const currentAmenities = draftFilters.amenities ?? filters.amenities;
+  const currentAmenitiesMatch =
+    draftFilters.amenitiesMatch ?? filters.amenitiesMatch;
 
   // Count active filters
   const activeFilterCount = [
@@ -91,6 +96,7 @@ export function MobileFilterSheet({
     currentMaxPrice,
     currentBedrooms,
     currentBathrooms,
+    currentAmenities?.length ? currentAmenities : undefined,
   ].filter(Boolean).length;
 
   // =========================================================================
@@ -134,6 +140,24 @@ export function MobileFilterSheet({
     [setDraftFilter],
   );
 
+  const handleAmenityToggle = useCallback(
+    (amenity: string) => {
+      const current = currentAmenities || [];
+      const updated = current.includes(amenity)
+        ? current.filter((a) => a !== amenity)
+        : [...current, amenity];
+      setDraftFilter("amenities", updated);
+    },
+    [currentAmenities, setDraftFilter],
+  );
+
+  const handleAmenitiesMatchChange = useCallback(
+    (mode: AmenityMatchMode) => {
+      setDraftFilter("amenitiesMatch", mode);
+    },
+    [setDraftFilter],
+  );
+
   const handleBedroomsChange = useCallback(
     (bedrooms?: number) => {
       setDraftFilter("bedrooms", bedrooms);
@@ -262,6 +286,14 @@ export function MobileFilterSheet({
                       selected={currentBathrooms}
                       onChange={handleBathroomsChange}
                     />
+
+                    {/* Amenities */}
+                    <AmenitiesFilterContent
+                      selected={currentAmenities}
+                      matchMode={currentAmenitiesMatch}
+                      onToggle={handleAmenityToggle}
+                      onMatchModeChange={handleAmenitiesMatchChange}
+                    />
                   </div>
 
                   {/* Footer - Sticky Actions */}
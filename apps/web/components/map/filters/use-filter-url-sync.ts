@@ -30,6 +30,7 @@
 
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useRef } from "react";
+import { isAmenityId } from "@/lib/constants/amenities";
 import type { DynamicFilterParams } from "@/lib/utils/url-helpers";
 import {
   buildFilterUrl,
@@ -81,6 +82,10 @@ export function useFilterUrlSync() {
           | (typeof TRANSACTION_TYPES)[number][]
           | undefined,
         city: urlFilters.city,
+        amenities: urlFilters.amenities,
+        amenitiesMatch: urlFilters.amenitiesMatch,
+        sort: urlFilters.sort,
+        near: urlFilters.near,
       });
 
       isInitializedRef.current = true;
@@ -100,6 +105,10 @@ export function useFilterUrlSync() {
         bathrooms: urlFilters.bathrooms,
         transactionType: urlFilters.transactionType,
         city: urlFilters.city,
+        amenities: urlFilters.amenities,
+        amenitiesMatch: urlFilters.amenitiesMatch,
+        sort: urlFilters.sort,
+        near: urlFilters.near,
       });
 
       lastUrlRef.current = currentUrl;
@@ -137,6 +146,10 @@ export function useFilterUrlSync() {
           | (typeof TRANSACTION_TYPES)[number][]
           | undefined,
         city: filters.city,
+        amenities: filters.amenities?.filter(isAmenityId),
+        amenitiesMatch: filters.amenitiesMatch,
+        sort: filters.sort,
+        near: filters.near,
       };
 
       const filterString = buildFilterUrl(urlParams);
@@ -145,8 +158,16 @@ export function useFilterUrlSync() {
       const currentView = searchParams.get("view");
       const viewParam = currentView ? `view=${currentView}` : "";
 
-      // Combine view param with filter params
-      const allParams = [viewParam, filterString].filter(Boolean).join("&");
+      // Preserve the drawn area (set by the map's "Dibujar zona" tool, not the store)
+      const currentPolygon = searchParams.get("polygon");
+      const polygonParam = currentPolygon
+        ? new URLSearchParams({ polygon: currentPolygon }).toString()
+        : "";
+
+      // Combine view and area params with filter params
+      const allParams = [viewParam, filterString, polygonParam]
+        .filter(Boolean)
+        .join("&");
 
       const newUrl = `${pathname}${allParams ? `?${allParams}` : ""}`;
 
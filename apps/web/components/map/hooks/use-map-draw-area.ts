@@ -0,0 +1,113 @@
+/**
+ * MAP DRAW AREA HOOK
+ *
+ * "Dibujar zona": the user clicks vertices on the map to draw a polygon
+ * (around a school, a park, a neighbourhood) instead of relying on the
+ * rectangular viewport
+ *
+ * USAGE:
+ * ```tsx
+ * const drawArea = useMapDrawArea();
+ * <Map onClick={(e) => drawArea.isDrawing && drawArea.addPoint(e.lngLat)} />
+ * ```
+ *
+ * URL FORMAT (next to the bounds params):
+ * /propiedades?view=map&ne_lat=...&polygon=-79.0100,-2.9100;-78.9900,-2.9100;...
+ *
+ * BEHAVIOR:
+ * - Draft vertices live in local state while drawing
+ * - Finishing pushes the polygon to the URL (Server Component re-fetches
+ *   with PostGIS ST_Covers); clearing removes it
+ * - Uses router.push() so the back button restores the previous area
+ */
+
+"use client";
+
+import type { GeoPoint, GeoPolygon } from "@repo/database";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useMemo, useState } from "react";
+import {
+  buildPolygonUrl,
+  MAX_POLYGON_POINTS,
+  parsePolygon,
+} from "@/lib/utils/url-helpers";
+import { usePropertyGridStore } from "@/stores/property-grid-store";
+
+/**
+ * Minimum vertices to close a polygon
+ */
+export const MIN_DRAW_POINTS = 3;
+
+export function useMapDrawArea() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [draftPoints, setDraftPoints] = useState<GeoPoint[]>([]);
+
+  // Committed area comes from the URL (single source of truth)
+  const polygonParam = searchParams.get("polygon");
+  const polygon = useMemo(() => parsePolygon(polygonParam), [polygonParam]);
+
+  const pushPolygon = useCallback(
+    (next: GeoPolygon | null) => {
+      const query = buildPolygonUrl(
+        next,
+        new URLSearchParams(searchParams.toString()),
+      );
+
+      // Show skeletons while the Server Component re-fetches
+      usePropertyGridStore.getState().setLoading(true);
+      router.push(`${pathname}${query ? `?${query}` : ""}`, { scroll: false });
+    },
+    [pathname, router, searchParams],
+  );
+
+  const startDrawing = useCallback(() => {
+    setDraftPoints([]);
+    setIsDrawing(true);
+  }, []);
+
+  const cancelDrawing = useCallback(() => {
+    setDraftPoints([]);
+    setIsDrawing(false);
+  }, []);
+
+  const addPoint = useCallback((lngLat: { lng: number; lat: number }) => {
+    setDraftPoints((points) =>
+      points.length >= MAX_POLYGON_POINTS
+        ? points
+        : [...points, [lngLat.lng, lngLat.lat]],
+    );
+  }, []);
+
+  const undoPoint = useCallback(() => {
+    setDraftPoints((points) => points.slice(0, -1));
+  }, []);
+
+  const finishDrawing = useCallback(() => {
+    if (draftPoints.length < MIN_DRAW_POINTS) return;
+
+    pushPolygon(draftPoints);
+    setDraftPoints([]);
+    setIsDrawing(false);
+  }, [draftPoints, pushPolygon]);
+
+  const clearArea = useCallback(() => {
+    pushPolygon(null);
+  }, [pushPolygon]);
+
+  return {
+    polygon,
+    isDrawing,
+    draftPoints,
+    canFinish: draftPoints.length >= MIN_DRAW_POINTS,
+    startDrawing,
+    cancelDrawing,
+    addPoint,
+    undoPoint,
+    finishDrawing,
+    clearArea,
+  };
+}
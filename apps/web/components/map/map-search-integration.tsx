@@ -140,6 +140,7 @@ export function MapSearchIntegration({
         bedrooms: filterSummary.bedrooms,
         minPrice,
         maxPrice,
+        amenities: filterSummary.amenities,
         // Note: transactionType and bathrooms not in filterSummary yet
         // Can be extended when parseSearchQuery returns these
       });
@@ -149,6 +150,7 @@ export function MapSearchIntegration({
         category,
         bedrooms: filterSummary.bedrooms,
         priceRange: filterSummary.priceRange,
+        amenities: filterSummary.amenities,
       });
 
       // Notify parent component if callback provided
@@ -1,6 +1,7 @@
 "use client";
 
 import type { FeatureCollection } from "geojson";
+import { Pencil, Undo2, X } from "lucide-react";
 import type { GeoJSONSource } from "mapbox-gl";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { MapMouseEvent, MapRef } from "react-map-gl/mapbox";
@@ -10,7 +11,9 @@ import type { TransactionType } from "@repo/database";
 import { env } from "@repo/env";
 import { CLUSTER_CONFIG } from "@/lib/types/map";
 import { formatPriceCompact } from "@/lib/utils/price-helpers";
+import { useMapStore } from "@/stores/map-store";
 import { useMapBoundsSync } from "./hooks/use-map-bounds-sync";
+import { useMapDrawArea } from "./hooks/use-map-draw-area";
 import { MapSpinner } from "./map-spinner";
 import { PropertyCardHorizontal } from "./property-card-horizontal";
 
@@ -53,6 +56,9 @@ const badgeSvg = `
 </svg>
 `;
 
+// Clicking this close (in pixels) to the first vertex closes the drawn area
+const CLOSE_AREA_DISTANCE_PX = 12;
+
 export function MapView({ properties, initialBounds }: MapViewProps) {
   const mapRef = useRef<MapRef>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
@@ -64,8 +70,21 @@ export function MapView({ properties, initialBounds }: MapViewProps) {
   // Updates URL when user pans/zooms, enables shareable map URLs & browser navigation
   useMapBoundsSync(mapRef, isMapLoaded);
 
+  // "Dibujar zona": polygon search encoded in the URL next to the bounds
+  const drawArea = useMapDrawArea();
+
+  // Publish the map center (origin of the "distance" sort)
+  const setMapCenter = useMapStore((state) => state.setMapCenter);
+  const publishCenter = useCallback(() => {
+    const center = mapRef.current?.getMap().getCenter();
+    if (center) setMapCenter([center.lng, center.lat]);
+  }, [setMapCenter]);
+
+  useEffect(() => () => setMapCenter(null), [setMapCenter]);
+
   const handleMapLoad = useCallback(() => {
     setIsMapLoaded(true);
+    publishCenter();
     const map = mapRef.current?.getMap();
     if (!map) return;
 
@@ -76,11 +95,30 @@ export function MapView({ properties, initialBounds }: MapViewProps) {
         map.addImage("badge-background", image, { sdf: true });
       }
     };
-  }, []);
+  }, [publishCenter]);
 
   // Handle marker click (clusters and individual properties)
   const handleClick = useCallback(
     (event: MapMouseEvent) => {
+      // Drawing mode: clicks add vertices (or close the area on the first one)
+      if (drawArea.isDrawing) {
+        const first = drawArea.draftPoints[0];
+        const map = mapRef.current?.getMap();
+        if (first && map && drawArea.canFinish) {
+          const firstPixel = map.project(first);
+          const distance = Math.hypot(
+            firstPixel.x - event.point.x,
+            firstPixel.y - event.point.y,
+          );
+          if (distance <= CLOSE_AREA_DISTANCE_PX) {
+            drawArea.finishDrawing();
+            return;
+          }
+        }
+        drawArea.addPoint(event.lngLat);
+        return;
+      }
+
       const feature = event.features?.[0];
       if (!feature) return;
 
@@ -118,7 +156,7 @@ export function MapView({ properties, initialBounds }: MapViewProps) {
         }
       }
     },
-    [properties],
+    [properties, drawArea],
   );
 
   // Fit bounds when map is loaded and initialBounds change
@@ -173,9 +211,110 @@ export function MapView({ properties, initialBounds }: MapViewProps) {
       })),
   };
 
+  // Drawn area: draft outline + vertices while drawing, committed polygon otherwise
+  const areaPoints = drawArea.isDrawing
+    ? drawArea.draftPoints
+    : (drawArea.polygon ?? []);
+  const drawAreaData = {
+    type: "FeatureCollection",
+    features: [
+      ...(areaPoints.length >= 3
+        ? [
+            {
+              type: "Feature",
+              geometry: {
+                type: "Polygon",
+                coordinates: [[...areaPoints, areaPoints[0]]],
+              },
+              properties: {},
+            },
+          ]
+        : []),
+      ...(drawArea.isDrawing && areaPoints.length >= 2
+        ? [
+            {
+              type: "Feature",
+              geometry: { type: "LineString", coordinates: areaPoints },
+              properties: {},
+            },
+          ]
+        : []),
+      ...(drawArea.isDrawing
+        ? areaPoints.map((point) => ({
+            type: "Feature",
+            geometry: { type: "Point", coordinates: point },
+            properties: {},
+          }))
+        : []),
+    ],
+  };
+
   return (
     <div className="w-full h-full relative">
       {!isMapLoaded && <MapSpinner />}
+
+      {/* Draw area controls */}
+      {isMapLoaded && (
+        <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+          {drawArea.isDrawing ? (
+            <>
+              <span className="hidden sm:inline rounded-lg bg-oslo-gray-900/90 px-3 py-2 text-xs text-oslo-gray-200 shadow-lg">
+                {drawArea.canFinish
+                  ? "Toca el primer punto o pulsa Listo"
+                  : "Toca el mapa para marcar la zona"}
+              </span>
+              <button
+                type="button"
+                onClick={drawArea.undoPoint}
+                disabled={drawArea.draftPoints.length === 0}
+                className="flex h-9 w-9 items-center justify-center rounded-lg bg-oslo-gray-900/90 text-oslo-gray-100 shadow-lg hover:bg-oslo-gray-800 disabled:opacity-50"
+                aria-label="Deshacer último punto"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={drawArea.cancelDrawing}
+                className="flex h-9 w-9 items-center justify-center rounded-lg bg-oslo-gray-900/90 text-oslo-gray-100 shadow-lg hover:bg-oslo-gray-800"
+                aria-label="Cancelar dibujo"
+              >
+                <X className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={drawArea.finishDrawing}
+                disabled={!drawArea.canFinish}
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-lg hover:bg-indigo-500 disabled:bg-oslo-gray-700 disabled:cursor-not-allowed"
+              >
+                Listo
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={drawArea.startDrawing}
+                className="flex items-center gap-2 rounded-lg bg-oslo-gray-900/90 px-3 py-2 text-sm font-medium text-oslo-gray-100 shadow-lg hover:bg-oslo-gray-800"
+              >
+                <Pencil className="h-4 w-4" />
+                {drawArea.polygon ? "Redibujar zona" : "Dibujar zona"}
+              </button>
+              {drawArea.polygon && (
+                <button
+                  type="button"
+                  onClick={drawArea.clearArea}
+                  className="flex items-center gap-1 rounded-lg bg-oslo-gray-900/90 px-3 py-2 text-sm font-medium text-oslo-gray-100 shadow-lg hover:bg-oslo-gray-800"
+                  aria-label="Quitar zona dibujada"
+                >
+                  <X className="h-4 w-4" />
+                  Quitar zona
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <Map
         ref={mapRef}
         initialViewState={{
@@ -189,7 +328,48 @@ export function MapView({ properties, initialBounds }: MapViewProps) {
         interactiveLayerIds={["properties-badge-layer", "clusters"]}
         onClick={handleClick}
         onLoad={handleMapLoad}
+        onMoveEnd={publishCenter}
+        cursor={drawArea.isDrawing ? "crosshair" : undefined}
+        doubleClickZoom={!drawArea.isDrawing}
       >
+        {/* Drawn area (below the property markers) */}
+        <Source
+          id="draw-area"
+          type="geojson"
+          data={drawAreaData as FeatureCollection}
+        >
+          <Layer
+            id="draw-area-fill"
+            type="fill"
+            filter={["==", ["geometry-type"], "Polygon"]}
+            paint={{
+              "fill-color": "#6366f1",
+              "fill-opacity": drawArea.isDrawing ? 0.1 : 0.15,
+            }}
+          />
+          <Layer
+            id="draw-area-outline"
+            type="line"
+            filter={["!=", ["geometry-type"], "Point"]}
+            paint={{
+              "line-color": "#818cf8",
+              "line-width": 2,
+              ...(drawArea.isDrawing && { "line-dasharray": [2, 1] }),
+            }}
+          />
+          <Layer
+            id="draw-area-vertices"
+            type="circle"
+            filter={["==", ["geometry-type"], "Point"]}
+            paint={{
+              "circle-radius": 5,
+              "circle-color": "#ffffff",
+              "circle-stroke-width": 2,
+              "circle-stroke-color": "#6366f1",
+            }}
+          />
+        </Source>
+
         <Source
           id="properties"
           type="geojson"
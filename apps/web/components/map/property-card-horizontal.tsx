@@ -29,6 +29,7 @@ import { ChevronRight, Heart } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import React from "react";
+import { CompareToggleButton } from "@/components/compare/compare-toggle-button";
 import { useFavorites } from "@/hooks/use-favorites";
 import { CATEGORY_BADGE_STYLE } from "@/lib/styles/property-card-styles";
 import {
@@ -171,6 +172,12 @@ export function PropertyCardHorizontal({
                 }`}
               />
             </button>
+
+            <CompareToggleButton
+              propertyId={property.id}
+              title={property.title}
+              className="w-8 h-8 md:w-8 md:h-8"
+            />
           </div>
         </div>
 
@@ -7,6 +7,7 @@
  * FEATURES:
  * - Draggable handle to expand/collapse
  * - Horizontal scroll carousel
+ * - Same order as the list (?sort=…, applied in memory)
  * - Property count badge
  * - Smooth animations
  * - Click outside to collapse
@@ -26,7 +27,9 @@
 "use client";
 
 import { ChevronDown, ChevronUp } from "lucide-react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { sortMapProperties } from "@/lib/utils/property-sort";
+import { useMapStore } from "@/stores/map-store";
 import type { MapProperty } from "./map-view";
 import { PropertyCardCompact } from "./property-card-compact";
 
@@ -44,10 +47,19 @@ export function PropertyListDrawer({
   onPropertyClick,
 }: PropertyListDrawerProps) {
   const [state, setState] = useState<DrawerState>("peek");
+  const sort = useMapStore((store) => store.filters.sort);
+  const near = useMapStore((store) => store.filters.near);
+  const mapCenter = useMapStore((store) => store.mapCenter);
 
-  // Filter properties with valid coordinates
-  const validProperties = properties.filter(
-    (p) => p.latitude !== null && p.longitude !== null,
+  // Filter properties with valid coordinates, in the list order
+  const validProperties = useMemo(
+    () =>
+      sortMapProperties(
+        properties.filter((p) => p.latitude !== null && p.longitude !== null),
+        sort,
+        near ?? mapCenter,
+      ),
+    [properties, sort, near, mapCenter],
   );
 
   // Toggle between states
@@ -17,6 +17,7 @@
 
 import { Bath, Bed, Heart, MapPin, Maximize2 } from "lucide-react";
 import Image from "next/image";
+import { CompareToggleButton } from "@/components/compare/compare-toggle-button";
 import {
   CTA_BUTTON_STYLES,
   TRANSACTION_BADGE_STYLES,
@@ -145,10 +146,20 @@ export function PropertyPopupCompact({
           )}
         </div>
 
-        {/* View Details Button */}
-        <button onClick={onViewDetails} className={CTA_BUTTON_STYLES.compact}>
-          Ver Detalles
-        </button>
+        {/* View Details + Compare */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onViewDetails}
+            className={`${CTA_BUTTON_STYLES.compact} flex-1`}
+          >
+            Ver Detalles
+          </button>
+          <CompareToggleButton
+            propertyId={property.id}
+            title={property.title}
+            variant="compact"
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,95 @@
+/**
+ * INFINITE PROPERTIES HOOK
+ *
+ * Infinite scroll for the mobile property grid: when the sentinel below
+ * the last card gets close to the viewport, the next cursor page is fetched
+ * and appended to PropertyGridStore
+ *
+ * USAGE:
+ * ```tsx
+ * const infinite = useInfiniteProperties(isMobile);
+ * <div ref={infinite.sentinelRef} />
+ * ```
+ *
+ * BEHAVIOR:
+ * - Keyset cursor (nextCursor) comes from the server page; no count() per load
+ * - Filters/sort are read from the current URL, same as the Server Component
+ * - A server re-fetch (filters/sort change) replaces the cursor; responses
+ *   for the previous cursor are dropped
+ */
+
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadMorePropertiesAction } from "@/app/actions/properties";
+import { usePropertyGridStore } from "@/stores/property-grid-store";
+
+/**
+ * Distance below the viewport at which the next page starts loading
+ */
+const PREFETCH_MARGIN = "600px 0px";
+
+export function useInfiniteProperties(enabled: boolean) {
+  const searchParams = useSearchParams();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextCursor = usePropertyGridStore((state) => state.nextCursor);
+  const isLoadingMore = usePropertyGridStore((state) => state.isLoadingMore);
+
+  const loadMore = useCallback(async () => {
+    const { nextCursor: cursor, isLoadingMore: isBusy } =
+      usePropertyGridStore.getState();
+    if (!cursor || isBusy) return;
+
+    setError(null);
+    usePropertyGridStore.getState().setLoadingMore(true);
+
+    // The cursor already encodes the position: drop the page number
+    const query = new URLSearchParams(searchParams.toString());
+    query.delete("page");
+
+    const result = await loadMorePropertiesAction(query.toString(), cursor);
+
+    // Filters changed while loading: the store already has a new first page
+    if (usePropertyGridStore.getState().nextCursor !== cursor) return;
+
+    if (result.error) {
+      setError(result.error);
+      usePropertyGridStore.getState().setLoadingMore(false);
+      return;
+    }
+
+    usePropertyGridStore
+      .getState()
+      .appendPage(result.properties, result.nextCursor);
+  }, [searchParams]);
+
+  // Observe the sentinel; re-subscribes after each page so a sentinel that
+  // is still visible keeps loading
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!enabled || !nextCursor || error || !node) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: PREFETCH_MARGIN },
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [enabled, nextCursor, error, loadMore]);
+
+  return {
+    sentinelRef,
+    hasMore: Boolean(nextCursor),
+    isLoadingMore,
+    error,
+    retry: loadMore,
+  };
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { TierBadge } from "@/components/badges/tier-badge";
+import { CompareToggleButton } from "@/components/compare/compare-toggle-button";
 import { PropertyImageFallback } from "@/components/map/property-image-fallback";
 import { CATEGORY_BADGE_STYLE } from "@/lib/styles/property-card-styles";
 import {
@@ -25,6 +26,13 @@ interface PropertyCardProps {
   priority?: boolean;
 }
 
+/**
+ * Snippet de búsqueda full-text (solo en resultados con ?search=)
+ */
+function getSearchSnippet(property: PropertyCardProps["property"]) {
+  return "searchSnippet" in property ? property.searchSnippet : undefined;
+}
+
 /**
  * PropertyCard with React.memo() optimization
  *
@@ -66,6 +74,7 @@ const PropertyCardComponent = ({
 
   // Format price using centralized utility
   const formattedPrice = formatPropertyPrice(property.price);
+  const searchSnippet = getSearchSnippet(property);
 
   // Get transaction badge style using centralized utility
   const transactionBadgeStyle = getTransactionBadgeStyle(
@@ -241,6 +250,10 @@ const PropertyCardComponent = ({
             >
               <Share2 className="w-5 h-5 text-white" />
             </button>
+            <CompareToggleButton
+              propertyId={property.id}
+              title={property.title}
+            />
           </div>
         </div>
 
@@ -353,6 +366,22 @@ const PropertyCardComponent = ({
                     </span>
                   </div>
                 )}
+                {searchSnippet && (
+                  <p className="text-white/80 text-xs mt-1 line-clamp-2 drop-shadow-md">
+                    {searchSnippet.map((segment, index) =>
+                      segment.match ? (
+                        <mark
+                          key={index}
+                          className="bg-yellow-300/90 text-black rounded-sm px-0.5"
+                        >
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{segment.text}</span>
+                      ),
+                    )}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -394,6 +423,7 @@ const PropertyCardComponent = ({
  * - Compare property.id (primary key)
  * - Compare isFavorite (UI state)
  * - Compare priority (image loading hint)
+ * - Compare searchSnippet (changes with the search text, same id)
  * - onFavoriteToggle should be stable (parent uses useCallback)
  *
  * SKIP comparison of:
@@ -418,6 +448,14 @@ export const PropertyCard = memo(
       return false;
     }
 
+    // If search snippet changed (new search text), re-render
+    if (
+      getSearchSnippet(prevProps.property) !==
+      getSearchSnippet(nextProps.property)
+    ) {
+      return false;
+    }
+
     // Same property, same favorite state, same priority → skip re-render
     return true;
   }
@@ -11,6 +11,7 @@ import { ImageGallery } from "@/components/properties/image-gallery";
 import { ImageUpload } from "@/components/properties/image-upload";
 import { VideoUrlInput } from "@/components/property-wizard/video-url-input";
 import { VideoList } from "@/components/property-wizard/video-list";
+import { AMENITIES_LIST } from "@/lib/constants/amenities";
 import { getImageLimit, getTierDisplayName } from "@/lib/permissions/property-limits";
 import type { SerializedProperty, SubscriptionTier } from "@repo/database";
 import {
@@ -38,21 +39,6 @@ import { toast } from "sonner";
 import { LimitReachedModal } from "../modals/limit-reached-modal";
 import { LocationPickerMap } from "./location-picker-map";
 
-const AMENITIES_LIST = [
-  { id: "pool", label: "Piscina" },
-  { id: "gym", label: "Gimnasio" },
-  { id: "garage", label: "Garaje" },
-  { id: "garden", label: "Jardín" },
-  { id: "terrace", label: "Terraza" },
-  { id: "security", label: "Seguridad 24/7" },
-  { id: "elevator", label: "Ascensor" },
-  { id: "ac", label: "Aire Acondicionado" },
-  { id: "heating", label: "Calefacción" },
-  { id: "internet", label: "Internet / Wifi" },
-  { id: "furnished", label: "Amoblado" },
-  { id: "pets_allowed", label: "Mascotas Permitidas" },
-];
-
 interface PropertyFormState {
   error?: {
     title?: string[];
@@ -6,7 +6,7 @@
  * Combines:
  * - Filter sidebar (desktop) / filter sheet (mobile)
  * - Property grid with cards
- * - Pagination controls
+ * - Pagination controls (desktop) / infinite scroll (mobile)
  * - View toggle (list ↔ map)
  * - JSON-LD schema for SEO
  *
@@ -16,11 +16,14 @@
  * - Child components also read from store directly
  */
 
+import { Spinner } from "@/components/common";
 import { FilterBar } from "@/components/map/filters/filter-bar";
 import { useFilterUrlSync } from "@/components/map/filters/use-filter-url-sync";
 import { useFavorites } from "@/hooks/use-favorites";
+import { useMediaQuery } from "@/hooks/use-media-query";
 import { usePropertyGridStore } from "@/stores/property-grid-store";
 import { useSearchParams } from "next/navigation";
+import { useInfiniteProperties } from "./hooks/use-infinite-properties";
 import { PropertyCard } from "./property-card";
 import { PropertyCardSkeleton } from "./property-card-skeleton";
 import { PropertyGridPagination } from "./property-grid-pagination";
@@ -40,6 +43,10 @@ export function PropertyGridPage() {
   const { isFavorite, toggleFavorite } = useFavorites();
   const searchParams = useSearchParams();
 
+  // Mobile (single column): infinite scroll instead of numbered pages
+  const isMobile = useMediaQuery("(max-width: 767px)");
+  const infinite = useInfiniteProperties(isMobile);
+
   // Detect current view from URL (default: list)
   const currentView = searchParams.get("view") === "map" ? "map" : "list";
 
@@ -114,7 +121,7 @@ export function PropertyGridPage() {
 
       {/* Title */}
       <div className="flex-shrink-0">
-        <PropertyListTitle total={total} />
+        <PropertyListTitle total={total} showSort />
       </div>
 
       {/* Content Area - No overflow, scrolls at body level */}
@@ -145,8 +152,28 @@ export function PropertyGridPage() {
           )}
         </div>
 
-        {/* Pagination - Sticky at bottom */}
-        {totalPages > 1 && !isLoading && (
+        {/* Infinite scroll (mobile) - sentinel loads the next cursor page */}
+        {isMobile && !isLoading && infinite.hasMore && (
+          <div
+            ref={infinite.sentinelRef}
+            className="flex flex-shrink-0 justify-center px-3 pb-24"
+          >
+            {infinite.error ? (
+              <button
+                type="button"
+                onClick={infinite.retry}
+                className="rounded-lg border border-oslo-gray-700 px-4 py-2 text-sm text-oslo-gray-200 hover:bg-oslo-gray-800 transition-colors"
+              >
+                {infinite.error}. Reintentar
+              </button>
+            ) : (
+              <Spinner size="6" ariaLabel="Cargando más propiedades..." />
+            )}
+          </div>
+        )}
+
+        {/* Pagination - Sticky at bottom (desktop) */}
+        {!isMobile && totalPages > 1 && !isLoading && (
           <div className="flex-shrink-0 max-w-7xl mx-auto w-full px-3 sm:px-6 lg:px-8 pb-6 md:pb-8">
             <PropertyGridPagination />
           </div>
@@ -4,7 +4,7 @@
  * PropertyGridPagination - Page navigation for properties grid
  *
  * Shows previous/next buttons and page numbers
- * Preserves all filter parameters when navigating pages
+ * Preserves all filter and sort parameters when navigating pages
  *
  * STATE MANAGEMENT:
  * - Reads pagination state from PropertyGridStore (Zustand)
@@ -21,9 +21,15 @@ export function PropertyGridPagination() {
   // Read pagination state from store
   const { currentPage, totalPages } = usePropertyGridStore();
 
-  // Get search params to build filter query string
+  // Get search params to build page URLs (filters, sort, view...)
   const searchParams = useSearchParams();
-  const filters = searchParams.toString();
+
+  // Replace (not append) the page param so links never carry two "page" values
+  const getPageUrl = (pageNum: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("page", pageNum.toString());
+    return `/propiedades?${params.toString()}`;
+  };
 
   // Compute pagination state (derived from store)
   const hasNextPage = currentPage < totalPages;
@@ -62,8 +68,8 @@ export function PropertyGridPagination() {
   };
 
   const pageNumbers = getPageNumbers();
-  const prevPageUrl = `/propiedades?page=${currentPage - 1}${filters ? `&${filters}` : ""}`;
-  const nextPageUrl = `/propiedades?page=${currentPage + 1}${filters ? `&${filters}` : ""}`;
+  const prevPageUrl = getPageUrl(currentPage - 1);
+  const nextPageUrl = getPageUrl(currentPage + 1);
 
   return (
     <div className="mt-12 flex justify-center items-center gap-2">
@@ -99,7 +105,7 @@ export function PropertyGridPagination() {
 
           const pageNum = page as number;
           const isCurrentPage = pageNum === currentPage;
-          const pageUrl = `/propiedades?page=${pageNum}${filters ? `&${filters}` : ""}`;
+          const pageUrl = getPageUrl(pageNum);
 
           return (
             <Link
@@ -6,6 +6,7 @@
  * Shows:
  * - Property count
  * - Current filters in human-readable format
+ * - Optional sort control (list views)
  * - Updates reactively when filters change
  *
  * Examples:
@@ -17,6 +18,7 @@
 import type { PropertyFilters } from "@repo/database";
 import { categoryLabels, transactionTypeLabels } from "@/lib/constants";
 import { useMapStore } from "@/stores/map-store";
+import { PropertySortSelect } from "./property-sort-select";
 
 interface PropertyListTitleProps {
   /**
@@ -29,11 +31,17 @@ interface PropertyListTitleProps {
    * If not provided, will read from MapStore
    */
   filters?: PropertyFilters;
+  /**
+   * Show the "Ordenar por" control next to the title
+   * Only where a paginated list is visible (grid page, split view)
+   */
+  showSort?: boolean;
 }
 
 export function PropertyListTitle({
   total: totalProp,
   filters: filtersProp,
+  showSort = false,
 }: PropertyListTitleProps) {
   const storeFilters = useMapStore((state) => state.filters);
   const properties = useMapStore((state) => state.properties);
@@ -95,7 +103,7 @@ export function PropertyListTitle({
     filters.bathrooms;
 
   return (
-    <div className="px-4 sm:px-6 lg:px-8 pt-2 ">
+    <div className="px-4 sm:px-6 lg:px-8 pt-2 flex flex-wrap items-start justify-between gap-3">
       <div>
         <h2 className="text-lg font-semibold text-oslo-gray-50">
           {title}{" "}
@@ -107,6 +115,7 @@ export function PropertyListTitle({
           </p>
         )}
       </div>
+      {showSort && <PropertySortSelect />}
     </div>
   );
 }
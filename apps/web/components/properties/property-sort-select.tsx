@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * PropertySortSelect - Listing order control ("Ordenar por")
+ *
+ * - Writes sort (and near for "distance") to the committed filters in MapStore
+ * - useFilterUrlSync pushes ?sort=… to the URL and resets pagination
+ * - "Cercanía al centro del mapa" is only available while a map is mounted
+ *   (split view); the origin then follows the map center
+ * - Default option: "Más recientes", or "Más relevantes" during a text search
+ */
+
+import type { PropertySort } from "@repo/database";
+import { ArrowUpDown } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import type { ChangeEvent } from "react";
+import {
+  isPropertySort,
+  PROPERTY_SORT_LABELS,
+  PROPERTY_SORTS,
+  RELEVANCE_SORT_LABEL,
+} from "@/lib/constants/property-sort";
+import { useMapStore } from "@/stores/map-store";
+
+const DEFAULT_VALUE = "";
+
+export function PropertySortSelect() {
+  const filters = useMapStore((state) => state.filters);
+  const setFilters = useMapStore((state) => state.setFilters);
+  const mapCenter = useMapStore((state) => state.mapCenter);
+  const searchParams = useSearchParams();
+
+  const hasSearch = Boolean(searchParams.get("search"));
+  const defaultLabel = hasSearch
+    ? RELEVANCE_SORT_LABEL
+    : PROPERTY_SORT_LABELS.newest;
+
+  // With a search, "newest" is an explicit choice (default is relevance)
+  const options = PROPERTY_SORTS.filter(
+    (sort) =>
+      (hasSearch || sort !== "newest") &&
+      (sort !== "distance" || mapCenter || filters.sort === "distance"),
+  );
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    const sort: PropertySort | undefined = isPropertySort(value)
+      ? value
+      : undefined;
+
+    setFilters({
+      ...filters,
+      sort: sort === "newest" && !hasSearch ? undefined : sort,
+      near: sort === "distance" ? (mapCenter ?? filters.near) : undefined,
+    });
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-oslo-gray-400">
+      <ArrowUpDown className="h-4 w-4" aria-hidden="true" />
+      <span className="sr-only sm:not-sr-only whitespace-nowrap">
+        Ordenar por
+      </span>
+      <select
+        value={filters.sort ?? DEFAULT_VALUE}
+        onChange={handleChange}
+        className="rounded-lg border border-oslo-gray-700 bg-oslo-gray-900 px-3 py-2 text-sm text-oslo-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      >
+        <option value={DEFAULT_VALUE}>{defaultLabel}</option>
+        {options.map((sort) => (
+          <option key={sort} value={sort}>
+            {PROPERTY_SORT_LABELS[sort]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
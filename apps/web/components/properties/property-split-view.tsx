@@ -115,7 +115,7 @@ export function PropertySplitView() {
         {/* LEFT SIDE: Property List (50%) */}
         <div className="w-1/2 overflow-y-auto border-r border-oslo-gray-800 flex flex-col">
           {/* Dynamic Title - Shows current filters and count */}
-          <PropertyListTitle total={total} />
+          <PropertyListTitle total={total} showSort />
 
           {/* Property Grid Container */}
           <div className="px-4 sm:px-6 lg:px-8 py-8">
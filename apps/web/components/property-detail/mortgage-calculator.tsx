@@ -3,34 +3,17 @@
 import { cn } from "@repo/ui";
 import { Calculator, Percent } from "lucide-react";
 import { useEffect, useState } from "react";
+import {
+  calculateLoanAmount,
+  calculateMonthlyPayment,
+  LOAN_TYPES,
+  type LoanType,
+} from "@/lib/utils/mortgage";
 
 interface MortgageCalculatorProps {
   price: number;
 }
 
-type LoanType = "vip" | "biess" | "private";
-
-const LOAN_TYPES = {
-  vip: {
-    label: "Crédito VIP/VIS",
-    rate: 4.99,
-    maxTerm: 25,
-    description: "Tasa subsidiada (4.99%) para primera vivienda nueva hasta $105,340 (aprox).",
-  },
-  biess: {
-    label: "BIESS / IESS",
-    rate: 8.5,
-    maxTerm: 25,
-    description: "Préstamo hipotecario para afiliados al IESS.",
-  },
-  private: {
-    label: "Banca Privada",
-    rate: 10.5,
-    maxTerm: 20,
-    description: "Crédito hipotecario estándar de bancos privados.",
-  },
-};
-
 export function MortgageCalculator({ price }: MortgageCalculatorProps) {
   const [loanType, setLoanType] = useState<LoanType>("private");
   const [downPaymentPercent, setDownPaymentPercent] = useState(20);
@@ -42,34 +25,18 @@ export function MortgageCalculator({ price }: MortgageCalculatorProps) {
     const type = LOAN_TYPES[loanType];
     setInterestRate(type.rate);
     setTermYears(type.maxTerm);
-
-    // VIP usually requires less down payment (5%), others 20%
-    if (loanType === "vip") {
-      setDownPaymentPercent(5);
-    } else {
-      setDownPaymentPercent(20);
-    }
+    setDownPaymentPercent(type.downPaymentPercent);
   }, [loanType]);
 
-  // Calculations
+  // Calculations (shared with the comparison view)
   const downPaymentAmount = (price * downPaymentPercent) / 100;
-  const loanAmount = price - downPaymentAmount;
-  
-  // Monthly Payment Calculation (Amortization)
-  const calculateMonthlyPayment = () => {
-    if (loanAmount <= 0) return 0;
-    const monthlyRate = interestRate / 100 / 12;
-    const numberOfPayments = termYears * 12;
-
-    if (interestRate === 0) return loanAmount / numberOfPayments;
-
-    const numerator = monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments);
-    const denominator = Math.pow(1 + monthlyRate, numberOfPayments) - 1;
-    
-    return loanAmount * (numerator / denominator);
-  };
-
-  const monthlyPayment = calculateMonthlyPayment();
+  const loanAmount = calculateLoanAmount(price, downPaymentPercent);
+  const monthlyPayment = calculateMonthlyPayment({
+    price,
+    downPaymentPercent,
+    termYears,
+    interestRate,
+  });
 
   // Format currency
   const formatMoney = (val: number) =>
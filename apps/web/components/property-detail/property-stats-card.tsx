@@ -1,10 +1,20 @@
 "use client";
 
+import type { PriceHistory } from "@repo/database";
 import { cn } from "@repo/ui";
 import gsap from "gsap";
 import { ScrollTrigger } from "gsap/ScrollTrigger";
-import { Bath, Bed, Calendar, Car, Maximize } from "lucide-react";
+import {
+  Bath,
+  Bed,
+  Calendar,
+  Car,
+  Maximize,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { formatPrice } from "@/lib/utils/price-helpers";
 
 gsap.registerPlugin(ScrollTrigger);
 
@@ -14,6 +24,8 @@ interface PropertyStatsCardProps {
   area?: number | null;
   parking?: number | null;
   yearBuilt?: number | null;
+  /** Price changes, oldest first (from PriceHistoryRepository) */
+  priceHistory?: PriceHistory;
 }
 
 interface StatItemProps {
@@ -139,12 +151,110 @@ function StatItem({
   );
 }
 
+function PriceHistoryTimeline({
+  priceHistory,
+}: {
+  priceHistory: PriceHistory;
+}) {
+  const { initialPrice, changes, omitted } = priceHistory;
+  const last = changes[changes.length - 1];
+  if (initialPrice === null || !last) return null;
+
+  const totalChange = last.price - initialPrice;
+  const totalPercent = Math.round((totalChange / initialPrice) * 100);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-baseline justify-between gap-4">
+        <h3 className="text-lg font-semibold text-oslo-gray-950 dark:text-white">
+          Historial de precios
+        </h3>
+        {totalChange < 0 && (
+          <span className="inline-flex items-center gap-1 rounded-full bg-emerald-50 dark:bg-emerald-950/40 px-3 py-1 text-xs font-semibold text-emerald-700 dark:text-emerald-400">
+            <TrendingDown className="w-3.5 h-3.5" />
+            Rebajado {Math.abs(totalPercent)}%
+          </span>
+        )}
+      </div>
+
+      <ol className="relative border-l border-oslo-gray-200 dark:border-oslo-gray-800 ml-2 space-y-4">
+        {/* Original listing price */}
+        <li className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-oslo-gray-300 dark:bg-oslo-gray-700" />
+          <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+            Precio inicial
+          </p>
+          <p className="font-semibold text-oslo-gray-950 dark:text-white">
+            {formatPrice(initialPrice)}
+          </p>
+        </li>
+
+        {/* Older changes beyond the loaded page */}
+        {omitted > 0 && (
+          <li className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-oslo-gray-300 bg-white dark:border-oslo-gray-700 dark:bg-oslo-gray-950" />
+            <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+              {omitted === 1
+                ? "1 cambio anterior"
+                : `${omitted} cambios anteriores`}
+            </p>
+          </li>
+        )}
+
+        {changes.map((change) => {
+          const isDrop = change.price < change.previousPrice;
+          const percent = Math.round(
+            ((change.price - change.previousPrice) / change.previousPrice) * 100,
+          );
+
+          return (
+            <li key={change.id} className="ml-4">
+              <span
+                className={cn(
+                  "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full",
+                  isDrop ? "bg-emerald-500" : "bg-amber-500",
+                )}
+              />
+              <p className="text-xs text-oslo-gray-500 dark:text-oslo-gray-400">
+                {new Date(change.createdAt).toLocaleDateString("es-EC", {
+                  day: "numeric",
+                  month: "short",
+                  year: "numeric",
+                })}
+              </p>
+              <p className="flex items-center gap-2 font-semibold text-oslo-gray-950 dark:text-white">
+                {formatPrice(change.price)}
+                <span
+                  className={cn(
+                    "inline-flex items-center gap-0.5 text-xs font-medium",
+                    isDrop
+                      ? "text-emerald-600 dark:text-emerald-400"
+                      : "text-amber-600 dark:text-amber-400",
+                  )}
+                >
+                  {isDrop ? (
+                    <TrendingDown className="w-3.5 h-3.5" />
+                  ) : (
+                    <TrendingUp className="w-3.5 h-3.5" />
+                  )}
+                  {percent > 0 ? `+${percent}` : percent}%
+                </span>
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
 export function PropertyStatsCard({
   bedrooms,
   bathrooms,
   area,
   parking,
-  yearBuilt
+  yearBuilt,
+  priceHistory,
 }: PropertyStatsCardProps) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -174,7 +284,9 @@ export function PropertyStatsCard({
       stat => stat !== null && stat !== undefined
   );
 
-  if (!hasAnyStat) return null;
+  const hasPriceHistory = (priceHistory?.changes.length ?? 0) > 0;
+
+  if (!hasAnyStat && !hasPriceHistory) return null;
 
   return (
     <div ref={containerRef} className="space-y-6">
@@ -229,6 +341,10 @@ export function PropertyStatsCard({
           delay={4}
         />
       </div>
+
+      {priceHistory && hasPriceHistory && (
+        <PriceHistoryTimeline priceHistory={priceHistory} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,147 @@
+/**
+ * SimilarPropertiesCarousel - "También te puede interesar"
+ *
+ * Recommendations at the end of the property detail page, ranked by
+ * getSimilarProperties() (category, transaction, price band, bedrooms,
+ * distance, amenities + favorites/views history for logged-in users)
+ *
+ * PATTERN: Same user-controlled Embla carousel as FeaturedPropertiesCarousel
+ * - Below the fold, no auto-rotate
+ * - Prev/next buttons on desktop, swipe + dots on mobile
+ */
+
+"use client";
+
+import type { SerializedProperty } from "@repo/database";
+import useEmblaCarousel from "embla-carousel-react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { PropertyCard } from "@/components/properties/property-card";
+import { useFavorites } from "@/hooks/use-favorites";
+
+interface SimilarPropertiesCarouselProps {
+  properties: SerializedProperty[];
+}
+
+export function SimilarPropertiesCarousel({
+  properties,
+}: SimilarPropertiesCarouselProps) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  const [emblaRef, emblaApi] = useEmblaCarousel({
+    loop: false,
+    align: "start",
+    skipSnaps: false,
+    dragFree: false,
+  });
+
+  const [canScrollPrev, setCanScrollPrev] = useState(false);
+  const [canScrollNext, setCanScrollNext] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [scrollSnaps, setScrollSnaps] = useState<number[]>([]);
+
+  const updateButtonStates = useCallback(() => {
+    if (!emblaApi) return;
+    setCanScrollPrev(emblaApi.canScrollPrev());
+    setCanScrollNext(emblaApi.canScrollNext());
+    setSelectedIndex(emblaApi.selectedScrollSnap());
+  }, [emblaApi]);
+
+  useEffect(() => {
+    if (!emblaApi) return;
+    setScrollSnaps(emblaApi.scrollSnapList());
+    updateButtonStates();
+    emblaApi.on("select", updateButtonStates);
+    emblaApi.on("reInit", updateButtonStates);
+    return () => {
+      emblaApi.off("select", updateButtonStates);
+      emblaApi.off("reInit", updateButtonStates);
+    };
+  }, [emblaApi, updateButtonStates]);
+
+  const scrollPrev = useCallback(() => emblaApi?.scrollPrev(), [emblaApi]);
+  const scrollNext = useCallback(() => emblaApi?.scrollNext(), [emblaApi]);
+  const scrollTo = useCallback(
+    (index: number) => emblaApi?.scrollTo(index),
+    [emblaApi],
+  );
+
+  if (properties.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-16" aria-label="Propiedades similares">
+      {/* Header with navigation */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-2xl sm:text-3xl font-bold text-oslo-gray-950 dark:text-white">
+            También te puede interesar
+          </h2>
+          <p className="text-oslo-gray-600 dark:text-oslo-gray-400 mt-2">
+            Propiedades similares en precio, zona y características
+          </p>
+        </div>
+
+        {/* Navigation Buttons */}
+        <div className="hidden sm:flex gap-3">
+          <button
+            type="button"
+            onClick={scrollPrev}
+            disabled={!canScrollPrev}
+            aria-label="Ver propiedades anteriores"
+            className="p-3 rounded-full bg-white dark:bg-oslo-gray-800/50 border border-oslo-gray-200 dark:border-oslo-gray-700 hover:border-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:border-oslo-gray-200 dark:disabled:hover:border-oslo-gray-700 transition-all duration-300 text-oslo-gray-700 dark:text-oslo-gray-200 hover:scale-110 active:scale-95"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={scrollNext}
+            disabled={!canScrollNext}
+            aria-label="Ver más propiedades"
+            className="p-3 rounded-full bg-white dark:bg-oslo-gray-800/50 border border-oslo-gray-200 dark:border-oslo-gray-700 hover:border-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:border-oslo-gray-200 dark:disabled:hover:border-oslo-gray-700 transition-all duration-300 text-oslo-gray-700 dark:text-oslo-gray-200 hover:scale-110 active:scale-95"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Carousel Container */}
+      <div className="overflow-hidden" ref={emblaRef}>
+        <div className="flex gap-4 -ml-4 isolate">
+          {properties.map((property) => (
+            <div
+              key={property.id}
+              className="flex-[0_0_88%] min-w-0 pl-4 sm:flex-[0_0_50%] lg:flex-[0_0_33.333%]"
+            >
+              <PropertyCard
+                property={property}
+                onFavoriteToggle={toggleFavorite}
+                isFavorite={isFavorite(property.id)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Progress Indicators (Dots) - Mobile only */}
+      {scrollSnaps.length > 1 && (
+        <div className="flex justify-center gap-2 mt-6 sm:hidden">
+          {scrollSnaps.map((_, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => scrollTo(index)}
+              aria-label={`Ir a grupo ${index + 1}`}
+              className={`h-2 rounded-full transition-all duration-300 ${
+                index === selectedIndex
+                  ? "w-8 bg-indigo-500"
+                  : "w-2 bg-oslo-gray-300 dark:bg-oslo-gray-700"
+              }`}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * Save Search Button
+ *
+ * Guarda los filtros actuales de la URL como búsqueda guardada
+ * - Incluye bounds del mapa si la vista actual los tiene
+ * - Usuarios no autenticados son redirigidos a login
+ * - Alertas por email activadas por defecto
+ */
+
+import { BellPlus } from "lucide-react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { createSavedSearchAction } from "@/app/actions/saved-searches";
+import { useAuthStore } from "@/stores/auth-store";
+import { useMapStore } from "@/stores/map-store";
+
+export function SaveSearchButton() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const city = useMapStore((state) => state.filters.city);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const query = searchParams.toString();
+
+    if (!isAuthenticated) {
+      const returnUrl = query ? `${pathname}?${query}` : pathname;
+      router.push(`/login?redirect=${encodeURIComponent(returnUrl)}`);
+      return;
+    }
+
+    const name = prompt(
+      "Nombre de la búsqueda:",
+      city ? `Propiedades en ${city}` : "Mi búsqueda",
+    );
+    if (name === null || !name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const result = await createSavedSearchAction({ name, query });
+      if (result.success) {
+        toast.success("Búsqueda guardada", {
+          description: "Te avisaremos por email cuando haya nuevas propiedades",
+          action: {
+            label: "Ver",
+            onClick: () => router.push("/perfil/busquedas"),
+          },
+        });
+      } else {
+        toast.error(result.error || "Error al guardar la búsqueda");
+      }
+    } catch {
+      toast.error("Error al guardar la búsqueda");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleSave}
+      disabled={isSaving}
+      title="Guardar búsqueda y recibir alertas"
+      className="flex h-10 items-center gap-2 px-3 py-2 rounded-full bg-oslo-gray-900 text-oslo-gray-100 font-medium text-sm border border-oslo-gray-700 hover:bg-oslo-gray-800 hover:border-oslo-gray-600 transition-all duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      aria-label="Guardar búsqueda"
+    >
+      <BellPlus className="w-4 h-4" />
+      <span>Guardar búsqueda</span>
+    </button>
+  );
+}
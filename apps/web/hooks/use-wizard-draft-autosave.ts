@@ -0,0 +1,116 @@
+/**
+ * USE WIZARD DRAFT AUTOSAVE HOOK
+ *
+ * Guarda el wizard de "Nueva propiedad" como borrador en el servidor
+ * - Automático: cada vez que cambia el paso o las imágenes subidas
+ * - Manual: saveDraft() desde el botón "Guardar Borrador"
+ *
+ * Los guardados se encadenan: el primero crea el borrador y los siguientes
+ * reutilizan su draftId (evita borradores duplicados)
+ *
+ * USAGE:
+ * const { saveDraft, isSaving, lastSavedAt } = useWizardDraftAutosave();
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { saveWizardDraftAction } from "@/app/actions/wizard";
+import {
+  type PropertyFormData,
+  usePropertyWizardStore,
+} from "@/lib/stores/property-wizard-store";
+
+/**
+ * Un wizard sin título ni imágenes no merece un borrador
+ * (ej: recién abierto o reseteado después de publicar)
+ */
+type SaveResult = "saved" | "empty" | "failed";
+
+function hasDraftContent(formData: PropertyFormData) {
+  return formData.title.trim().length > 0 || formData.imageUrls.length > 0;
+}
+
+/**
+ * Hook para el autosave server-side del wizard
+ *
+ * @param enabled - false mientras el store aún no se hidrata con el borrador
+ */
+export function useWizardDraftAutosave(enabled = true) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const queueRef = useRef<Promise<SaveResult>>(Promise.resolve("saved"));
+
+  const runSave = useCallback(async (): Promise<SaveResult> => {
+    // Read at execution time: a queued save must send the latest data
+    const { formData, currentStep, draftId, setDraftId } =
+      usePropertyWizardStore.getState();
+
+    if (!hasDraftContent(formData)) return "empty";
+
+    const { images: _files, imageUrls, ...data } = formData;
+
+    setIsSaving(true);
+    try {
+      const result = await saveWizardDraftAction({
+        draftId: draftId ?? undefined,
+        currentStep,
+        imageUrls,
+        data,
+      });
+
+      if (result.success && result.draftId) {
+        setDraftId(result.draftId);
+        setLastSavedAt(new Date());
+        return "saved";
+      }
+
+      // Deleted elsewhere: the next save creates a new draft
+      if ("draftNotFound" in result && result.draftNotFound) {
+        setDraftId(null);
+      }
+      return "failed";
+    } catch {
+      return "failed";
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const enqueueSave = useCallback(() => {
+    queueRef.current = queueRef.current.then(runSave, runSave);
+    return queueRef.current;
+  }, [runSave]);
+
+  /**
+   * Guardado manual con feedback ("Guardar Borrador")
+   */
+  const saveDraft = useCallback(async () => {
+    const result = await enqueueSave();
+    if (result === "saved") {
+      toast.success("Borrador guardado");
+    } else if (result === "empty") {
+      toast.info("Completa el primer paso para guardar un borrador");
+    } else {
+      toast.error("No se pudo guardar el borrador");
+    }
+  }, [enqueueSave]);
+
+  // Autosave on step/image changes (subscribed after hydration, so loading
+  // the draft itself doesn't trigger a save)
+  useEffect(() => {
+    if (!enabled) return;
+    return usePropertyWizardStore.subscribe((state, prevState) => {
+      const stepChanged = state.currentStep !== prevState.currentStep;
+      const imagesChanged =
+        state.formData.imageUrls.join("|") !==
+        prevState.formData.imageUrls.join("|");
+      if (stepChanged || imagesChanged) {
+        enqueueSave();
+      }
+    });
+  }, [enabled, enqueueSave]);
+
+  return { saveDraft, isSaving, lastSavedAt };
+}
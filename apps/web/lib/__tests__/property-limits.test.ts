@@ -105,7 +105,7 @@ describe("Property Limits - Freemium Model", () => {
       expect(result.allowed).toBe(true);
       expect(result.limit).toBe(1);
       expect(mockPropertyCount).toHaveBeenCalledWith({
-        where: { agentId: "user-123" },
+        where: { agentId: "user-123", visibility: { not: "ARCHIVED" } },
       });
     });
 
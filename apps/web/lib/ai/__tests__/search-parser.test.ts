@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { filtersToWhereClause } from "../search-parser";
+
+describe("filtersToWhereClause", () => {
+  it("should require every amenity mentioned in features or amenities", () => {
+    // "casa con piscina y garaje, amueblada"
+    const where = filtersToWhereClause({
+      category: "casa",
+      features: ["piscina", "garaje", "moderna"],
+      amenities: ["amueblada"],
+    });
+
+    expect(where).toMatchObject({
+      category: "HOUSE",
+      amenities: { hasEvery: ["pool", "garage", "furnished"] },
+    });
+  });
+
+  it("should not filter by style descriptors or negated amenities", () => {
+    const where = filtersToWhereClause({
+      features: ["moderna"],
+      amenities: ["sin amueblar"],
+    });
+
+    expect(where).not.toHaveProperty("amenities");
+  });
+});
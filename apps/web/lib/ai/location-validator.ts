@@ -47,6 +47,7 @@ async function getAvailableCities(): Promise<string[]> {
           not: null,
         },
         status: "AVAILABLE", // Only count available properties
+        visibility: "PUBLISHED",
       },
       select: {
         city: true,
@@ -8,6 +8,7 @@
  * Output: { location: "Cuenca", bedrooms: 3, maxPrice: 200000, features: ["moderna"] }
  */
 
+import { parseAmenities } from "@/lib/constants/amenities";
 import { logger } from "@/lib/utils/logger";
 import { getOpenAIClient } from "./openai-client";
 import {
@@ -101,7 +102,8 @@ THINK STEP BY STEP (Chain-of-Thought):
    - Default: null (don't infer)
 
 5. DISTINGUISH FEATURES vs AMENITIES:
-   - FEATURES (physical structure): "garaje", "jardín", "piscina", "balcón", "pasillos amplios"
+   - FEATURES (physical structure): "garaje", "jardín", "piscina", "terraza", "ascensor", "gimnasio", "balcón", "pasillos amplios"
+     → Keep the user's wording; amenities like piscina/garaje/jardín/terraza/ascensor/gimnasio/seguridad/calefacción/mascotas become hard filters
    - AMENITIES (furnished state): "amueblado", "sin amueblar", "con electrodomésticos"
    - STYLE DESCRIPTORS (not filters): "moderno", "colonial", "lujoso", "acomodado"
      → Can boost confidence but don't filter by these
@@ -599,8 +601,16 @@ export function filtersToWhereClause(filters: SearchFilters) {
     }
   }
 
-  // Note: Features and amenities would require parsing the property description
-  // For now, we focus on structured fields. Full-text search can be added later.
+  // Features + amenities → canonical amenity ids (Property.amenities)
+  // "piscina y garaje" → hasEvery ["pool", "garage"]; style descriptors
+  // ("moderna") and negations ("sin amueblar") are not in the vocabulary
+  const amenities = parseAmenities([
+    ...(filters.features ?? []),
+    ...(filters.amenities ?? []),
+  ]);
+  if (amenities.length > 0) {
+    where.amenities = { hasEvery: amenities };
+  }
 
   return where;
 }
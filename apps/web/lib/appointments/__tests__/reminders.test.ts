@@ -0,0 +1,123 @@
+/**
+ * TESTS - Appointment Reminders
+ *
+ * - Ventanas de 24h y 1h relativas a la hora de ejecución
+ * - Un recordatorio ya registrado nunca se vuelve a enviar
+ * - Los envíos fallidos se liberan para reintentarse
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const repository = vi.hoisted(() => ({
+  getAppointmentsDueForReminder: vi.fn(),
+  claimReminder: vi.fn(),
+  releaseReminder: vi.fn(),
+}));
+
+vi.mock("@repo/database", () => ({
+  AppointmentRepository: vi.fn(function AppointmentRepository() {
+    return repository;
+  }),
+}));
+
+vi.mock("@/lib/email/appointment-emails", () => ({
+  sendAppointmentReminderEmail: vi.fn(),
+}));
+
+import { sendAppointmentReminderEmail } from "@/lib/email/appointment-emails";
+import { sendDueAppointmentReminders } from "../reminders";
+
+const now = new Date("2025-01-15T12:00:00.000Z");
+
+const appointment = {
+  id: "apt-1",
+  propertyId: "prop-1",
+  scheduledAt: new Date("2025-01-15T12:45:00.000Z"),
+  notes: null,
+  user: { name: "Juan", email: "juan@example.com" },
+  agent: { name: "María", email: "maria@example.com" },
+  property: { title: "Casa en Cuenca", address: "Av. Solano 1-23" },
+};
+
+function mockDue(type: "DAY_BEFORE" | "HOUR_BEFORE") {
+  repository.getAppointmentsDueForReminder.mockImplementation(
+    async (reminderType: string) =>
+      reminderType === type ? [appointment] : [],
+  );
+}
+
+describe("sendDueAppointmentReminders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should query the 24h and 1h windows without overlap", async () => {
+    repository.getAppointmentsDueForReminder.mockResolvedValue([]);
+
+    await sendDueAppointmentReminders(now);
+
+    expect(repository.getAppointmentsDueForReminder).toHaveBeenCalledWith(
+      "DAY_BEFORE",
+      new Date("2025-01-15T13:00:00.000Z"),
+      new Date("2025-01-16T12:00:00.000Z"),
+    );
+    expect(repository.getAppointmentsDueForReminder).toHaveBeenCalledWith(
+      "HOUR_BEFORE",
+      now,
+      new Date("2025-01-15T13:00:00.000Z"),
+    );
+  });
+
+  it("should claim the reminder before emailing client and agent", async () => {
+    mockDue("HOUR_BEFORE");
+    repository.claimReminder.mockResolvedValue(true);
+    vi.mocked(sendAppointmentReminderEmail).mockResolvedValue({
+      success: true,
+      delivered: true,
+    });
+
+    const summary = await sendDueAppointmentReminders(now);
+
+    expect(repository.claimReminder).toHaveBeenCalledWith(
+      "apt-1",
+      "HOUR_BEFORE",
+    );
+    expect(sendAppointmentReminderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        clientEmail: "juan@example.com",
+        agentEmail: "maria@example.com",
+        appointmentDate: appointment.scheduledAt,
+      }),
+      "HOUR_BEFORE",
+    );
+    expect(summary).toEqual({ sent: 1, skipped: 0, failed: 0 });
+  });
+
+  it("should never send a reminder that was already claimed", async () => {
+    mockDue("DAY_BEFORE");
+    repository.claimReminder.mockResolvedValue(false);
+
+    const summary = await sendDueAppointmentReminders(now);
+
+    expect(sendAppointmentReminderEmail).not.toHaveBeenCalled();
+    expect(summary).toEqual({ sent: 0, skipped: 1, failed: 0 });
+  });
+
+  it("should release the reminder when no email was delivered", async () => {
+    mockDue("DAY_BEFORE");
+    repository.claimReminder.mockResolvedValue(true);
+    vi.mocked(sendAppointmentReminderEmail).mockResolvedValue({
+      success: false,
+      delivered: false,
+      error: "Failed to send reminder emails",
+    });
+
+    const summary = await sendDueAppointmentReminders(now);
+
+    expect(repository.releaseReminder).toHaveBeenCalledWith(
+      "apt-1",
+      "DAY_BEFORE",
+    );
+    expect(summary).toEqual({ sent: 0, skipped: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * APPOINTMENT REMINDERS
+ *
+ * Envía recordatorios por email de las citas CONFIRMADAS
+ * - DAY_BEFORE: citas dentro de las próximas 24 horas
+ * - HOUR_BEFORE: citas dentro de la próxima hora
+ *
+ * REGLAS:
+ * 1. Cada recordatorio se registra ANTES de enviarse (índice único por cita y tipo):
+ *    dos ejecuciones simultáneas nunca envían el mismo recordatorio
+ * 2. Si ambos emails fallan se libera el registro y se reintenta en la próxima ejecución
+ * 3. Pensado para ejecutarse cada 10-15 minutos (ver app/api/cron/appointment-reminders)
+ */
+
+import type { AppointmentReminderType } from "@repo/database";
+import { AppointmentRepository } from "@repo/database";
+import { sendAppointmentReminderEmail } from "@/lib/email/appointment-emails";
+import { logger } from "@/lib/utils/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Ventanas de cada recordatorio, relativas a la hora de ejecución
+ * Las ventanas no se solapan: una cita a 45 minutos solo recibe el de 1 hora
+ */
+export const REMINDER_WINDOWS: Record<
+  AppointmentReminderType,
+  { fromMs: number; toMs: number }
+> = {
+  DAY_BEFORE: { fromMs: HOUR_MS, toMs: 24 * HOUR_MS },
+  HOUR_BEFORE: { fromMs: 0, toMs: HOUR_MS },
+};
+
+export interface ReminderRunSummary {
+  /** Recordatorios enviados (al menos a uno de los destinatarios) */
+  sent: number;
+  /** Ya registrados por otra ejecución */
+  skipped: number;
+  /** Fallidos: se reintentarán en la próxima ejecución */
+  failed: number;
+}
+
+/**
+ * Enviar los recordatorios pendientes
+ *
+ * @param now - Hora de referencia (inyectable para tests)
+ */
+export async function sendDueAppointmentReminders(
+  now: Date = new Date(),
+): Promise<ReminderRunSummary> {
+  const repository = new AppointmentRepository();
+  const summary: ReminderRunSummary = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const type of Object.keys(
+    REMINDER_WINDOWS,
+  ) as AppointmentReminderType[]) {
+    const window = REMINDER_WINDOWS[type];
+    const appointments = await repository.getAppointmentsDueForReminder(
+      type,
+      new Date(now.getTime() + window.fromMs),
+      new Date(now.getTime() + window.toMs),
+    );
+
+    for (const appointment of appointments) {
+      const claimed = await repository.claimReminder(appointment.id, type);
+      if (!claimed) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        const result = await sendAppointmentReminderEmail(
+          {
+            clientName: appointment.user.name || "Cliente",
+            clientEmail: appointment.user.email,
+            agentName: appointment.agent.name || "Agente",
+            agentEmail: appointment.agent.email,
+            propertyTitle: appointment.property.title,
+            propertyAddress:
+              appointment.property.address || "Address not specified",
+            appointmentDate: appointment.scheduledAt,
+            durationMinutes: appointment.durationMinutes,
+            notes: appointment.notes ?? undefined,
+            appointmentId: appointment.id,
+            propertyId: appointment.propertyId,
+          },
+          type,
+        );
+
+        if (result.delivered) {
+          summary.sent++;
+          continue;
+        }
+
+        await repository.releaseReminder(appointment.id, type);
+        summary.failed++;
+      } catch (error) {
+        logger.error(
+          { err: error, appointmentId: appointment.id, type },
+          "[Reminders] Failed to send appointment reminder",
+        );
+        await repository.releaseReminder(appointment.id, type);
+        summary.failed++;
+      }
+    }
+  }
+
+  logger.info({ ...summary }, "[Reminders] Appointment reminder run finished");
+
+  return summary;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  appointmentToICSEvent,
+  buildICSCalendar,
+  escapeICSText,
+  formatICSDate,
+  getCalendarFeedUrl,
+} from "../ics";
+
+const scheduledAt = new Date("2025-01-18T15:00:00.000Z");
+
+describe("ics", () => {
+  describe("escapeICSText", () => {
+    it("should escape commas, semicolons, backslashes and newlines", () => {
+      expect(escapeICSText("Av. Solano, 1-23; Cuenca\\EC\nPiso 2")).toBe(
+        "Av. Solano\\, 1-23\\; Cuenca\\\\EC\\nPiso 2",
+      );
+    });
+  });
+
+  describe("formatICSDate", () => {
+    it("should format dates in UTC basic format", () => {
+      expect(formatICSDate(scheduledAt)).toBe("20250118T150000Z");
+    });
+  });
+
+  describe("buildICSCalendar", () => {
+    it("should wrap events in a VCALENDAR with CRLF line endings", () => {
+      const ics = buildICSCalendar({
+        name: "Citas",
+        events: [
+          {
+            uid: "event-1@test",
+            start: scheduledAt,
+            end: new Date("2025-01-18T16:00:00.000Z"),
+            summary: "Visita",
+            updatedAt: scheduledAt,
+          },
+        ],
+      });
+
+      const lines = ics.split("\r\n");
+      expect(lines[0]).toBe("BEGIN:VCALENDAR");
+      expect(lines).toContain("X-WR-CALNAME:Citas");
+      expect(lines).toContain("UID:event-1@test");
+      expect(lines).toContain("DTSTART:20250118T150000Z");
+      expect(lines).toContain("DTEND:20250118T160000Z");
+      expect(lines).toContain("DTSTAMP:20250118T150000Z");
+      expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+      expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    });
+
+    it("should fold lines longer than 75 octets", () => {
+      const ics = buildICSCalendar({
+        events: [
+          {
+            uid: "event-1@test",
+            start: scheduledAt,
+            end: scheduledAt,
+            summary: "Visita a la casa con vista al río ".repeat(5),
+          },
+        ],
+      });
+
+      const encoder = new TextEncoder();
+      for (const line of ics.split("\r\n")) {
+        expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      }
+      // Unfolding restores the original content
+      expect(ics.replace(/\r\n /g, "")).toContain(
+        `SUMMARY:${"Visita a la casa con vista al río ".repeat(5)}`,
+      );
+    });
+  });
+
+  describe("appointmentToICSEvent", () => {
+    const appointment = {
+      appointmentId: "apt-123",
+      scheduledAt,
+      propertyTitle: "Casa en Cuenca",
+      propertyAddress: "Av. Solano 1-23, Cuenca",
+      contactLabel: "Cliente",
+      contactName: "Juan",
+      contactEmail: "juan@example.com",
+      contactPhone: "+593999123456",
+    };
+
+    it("should use a stable UID and a one hour duration", () => {
+      const event = appointmentToICSEvent({
+        ...appointment,
+        status: "CONFIRMED",
+      });
+
+      expect(event.uid).toBe("appointment-apt-123@inmo-app");
+      expect(event.end.getTime() - event.start.getTime()).toBe(60 * 60 * 1000);
+      expect(event.status).toBe("CONFIRMED");
+      expect(event.summary).toBe("Visita: Casa en Cuenca");
+      expect(event.location).toBe("Av. Solano 1-23, Cuenca");
+      expect(event.description).toContain("Cliente: Juan");
+      expect(event.description).toContain("Teléfono: +593999123456");
+    });
+
+    it("should end the event after the visit duration", () => {
+      const event = appointmentToICSEvent({
+        ...appointment,
+        durationMinutes: 90,
+        status: "CONFIRMED",
+      });
+
+      expect(event.end.getTime() - event.start.getTime()).toBe(90 * 60 * 1000);
+    });
+
+    it("should mark pending appointments as tentative", () => {
+      const event = appointmentToICSEvent({
+        ...appointment,
+        status: "PENDING",
+      });
+
+      expect(event.status).toBe("TENTATIVE");
+      expect(event.summary).toBe("[Pendiente] Visita: Casa en Cuenca");
+    });
+  });
+
+  describe("getCalendarFeedUrl", () => {
+    it("should build the public feed URL", () => {
+      expect(getCalendarFeedUrl("abc")).toBe(
+        "http://localhost:3000/api/calendar/abc.ics",
+      );
+    });
+  });
+});
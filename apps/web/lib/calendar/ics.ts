@@ -0,0 +1,216 @@
+/**
+ * ICALENDAR (.ics) GENERATOR
+ *
+ * Genera archivos iCalendar (RFC 5545) para citas
+ * - Adjuntos en los emails de cita creada/confirmada
+ * - Feed suscribible por agente (Google Calendar, Apple Calendar, Outlook)
+ *
+ * Las fechas se escriben en UTC (sufijo Z): cada calendario las muestra
+ * en la zona horaria del usuario sin necesidad de VTIMEZONE
+ */
+
+import { env } from "@repo/env";
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from "@/lib/constants/availability";
+
+const PRODUCT_ID = "-//Inmo App//Citas//ES";
+const UID_DOMAIN = "inmo-app";
+
+/**
+ * Evento de calendario (VEVENT)
+ */
+export interface ICSEvent {
+  /** Identificador estable: el mismo UID actualiza el evento existente */
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  /** Fecha de última modificación (DTSTAMP) */
+  updatedAt?: Date;
+}
+
+/**
+ * Datos de una cita para exportarla al calendario
+ */
+export interface AppointmentCalendarData {
+  appointmentId: string;
+  scheduledAt: Date;
+  /** Duración de la visita (por defecto 1 hora) */
+  durationMinutes?: number;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED";
+  propertyTitle: string;
+  propertyAddress?: string | null;
+  propertyUrl?: string;
+  /** Contraparte de la cita (cliente para el agente, agente para el cliente) */
+  contactLabel: string;
+  contactName?: string | null;
+  contactEmail?: string | null;
+  contactPhone?: string | null;
+  notes?: string | null;
+  updatedAt?: Date;
+}
+
+/**
+ * Escapar texto según RFC 5545 (backslash, ; , y saltos de línea)
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Formatear fecha en UTC: 20250115T140000Z
+ */
+export function formatICSDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Plegar líneas de más de 75 octetos (RFC 5545 §3.1)
+ * Las líneas de continuación empiezan con un espacio
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Primera línea: 75 octetos; continuaciones: 74 + el espacio inicial
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function buildEventLines(event: ICSEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICSDate(event.updatedAt ?? new Date())}`,
+    `DTSTART:${formatICSDate(event.start)}`,
+    `DTEND:${formatICSDate(event.end)}`,
+    `SUMMARY:${escapeICSText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICSText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeICSText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Generar un calendario iCalendar completo (VCALENDAR)
+ *
+ * @param options.name - Nombre del calendario (feeds suscribibles)
+ * @returns Texto .ics con saltos de línea CRLF
+ */
+export function buildICSCalendar(options: {
+  events: ICSEvent[];
+  name?: string;
+}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeICSText(options.name)}`);
+  }
+
+  for (const event of options.events) {
+    lines.push(...buildEventLines(event));
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * Convertir una cita en evento de calendario
+ * UID estable por cita: el adjunto de "confirmada" actualiza el de "creada"
+ */
+export function appointmentToICSEvent(
+  appointment: AppointmentCalendarData,
+): ICSEvent {
+  const end = new Date(
+    appointment.scheduledAt.getTime() +
+      (appointment.durationMinutes ?? DEFAULT_APPOINTMENT_DURATION_MINUTES) *
+        60 *
+        1000,
+  );
+
+  const description = [
+    `${appointment.contactLabel}: ${appointment.contactName || "Sin nombre"}`,
+    appointment.contactEmail ? `Email: ${appointment.contactEmail}` : null,
+    appointment.contactPhone ? `Teléfono: ${appointment.contactPhone}` : null,
+    appointment.notes ? `Notas: ${appointment.notes}` : null,
+    appointment.propertyUrl ?? null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const status: ICSEvent["status"] =
+    appointment.status === "CANCELLED"
+      ? "CANCELLED"
+      : appointment.status === "PENDING"
+        ? "TENTATIVE"
+        : "CONFIRMED";
+
+  return {
+    uid: `appointment-${appointment.appointmentId}@${UID_DOMAIN}`,
+    start: appointment.scheduledAt,
+    end,
+    summary: `${appointment.status === "PENDING" ? "[Pendiente] " : ""}Visita: ${appointment.propertyTitle}`,
+    description,
+    location: appointment.propertyAddress ?? undefined,
+    url: appointment.propertyUrl,
+    status,
+    updatedAt: appointment.updatedAt,
+  };
+}
+
+/**
+ * URL pública del feed de calendario de un agente
+ * Ver app/api/calendar/[token]/route.ts
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${env.NEXT_PUBLIC_SITE_URL}/api/calendar/${token}.ics`;
+}
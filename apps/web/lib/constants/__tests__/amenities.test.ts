@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAmenity, parseAmenities } from "../amenities";
+
+describe("amenities vocabulary", () => {
+  describe("normalizeAmenity", () => {
+    it("should map Spanish synonyms regardless of accents and case", () => {
+      expect(normalizeAmenity("Piscina")).toBe("pool");
+      expect(normalizeAmenity("alberca temperada")).toBe("pool");
+      expect(normalizeAmenity("JARDÍN")).toBe("garden");
+      expect(normalizeAmenity("parqueadero cubierto")).toBe("garage");
+      expect(normalizeAmenity("Calefacción")).toBe("heating");
+      expect(normalizeAmenity("Wi-Fi")).toBe("internet");
+      expect(normalizeAmenity("amueblado")).toBe("furnished");
+    });
+
+    it("should accept canonical ids", () => {
+      expect(normalizeAmenity("pets_allowed")).toBe("pets_allowed");
+    });
+
+    it("should ignore negations and unknown terms", () => {
+      expect(normalizeAmenity("sin amueblar")).toBeNull();
+      expect(normalizeAmenity("no mascotas")).toBeNull();
+      expect(normalizeAmenity("moderna")).toBeNull();
+      expect(normalizeAmenity("acogedor")).toBeNull();
+    });
+  });
+
+  describe("parseAmenities", () => {
+    it("should deduplicate and drop unknown terms", () => {
+      expect(
+        parseAmenities(["piscina", "garaje", "moderna", "alberca"]),
+      ).toEqual(["pool", "garage"]);
+      expect(parseAmenities()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type { AvailabilitySchedule } from "@repo/database";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  describeHours,
+  formatVisitDuration,
+  getHoursForDate,
+  getHoursForDayOfWeek,
+  isAvailableDay,
+  validateAppointmentDateTime,
+} from "../availability";
+
+// Sábado 9-14 y Lunes 9-12 + 13-17
+const schedule: AvailabilitySchedule = {
+  weeklyRules: [
+    { dayOfWeek: 6, startHour: 9, endHour: 14 },
+    { dayOfWeek: 1, startHour: 9, endHour: 12 },
+    { dayOfWeek: 1, startHour: 13, endHour: 17 },
+  ],
+  blackoutDates: ["2025-01-20"],
+  source: "agent",
+  visitDurationMinutes: 60,
+};
+
+// Fechas locales (el día de la semana depende de la zona horaria)
+const saturday = new Date(2025, 0, 18);
+const sunday = new Date(2025, 0, 19);
+const blockedMonday = new Date(2025, 0, 20);
+const monday = new Date(2025, 0, 27);
+
+function at(date: Date, hour: number, minutes = 0): Date {
+  const result = new Date(date);
+  result.setHours(hour, minutes, 0, 0);
+  return result;
+}
+
+describe("availability", () => {
+  describe("getHoursForDayOfWeek", () => {
+    it("should expand blocks into start hours, excluding the end hour", () => {
+      expect(getHoursForDayOfWeek(schedule.weeklyRules, 6)).toEqual([
+        9, 10, 11, 12, 13,
+      ]);
+    });
+
+    it("should merge several blocks of the same day (breaks)", () => {
+      expect(getHoursForDayOfWeek(schedule.weeklyRules, 1)).toEqual([
+        9, 10, 11, 13, 14, 15, 16,
+      ]);
+    });
+
+    it("should deduplicate overlapping blocks", () => {
+      expect(
+        getHoursForDayOfWeek(
+          [
+            { dayOfWeek: 2, startHour: 9, endHour: 11 },
+            { dayOfWeek: 2, startHour: 10, endHour: 12 },
+          ],
+          2,
+        ),
+      ).toEqual([9, 10, 11]);
+    });
+
+    it("should return no hours for days without rules", () => {
+      expect(getHoursForDayOfWeek(schedule.weeklyRules, 0)).toEqual([]);
+    });
+  });
+
+  describe("getHoursForDate / isAvailableDay", () => {
+    it("should offer Saturday hours when the agent works Saturdays", () => {
+      expect(getHoursForDate(saturday, schedule)).toEqual([9, 10, 11, 12, 13]);
+      expect(isAvailableDay(saturday, schedule)).toBe(true);
+    });
+
+    it("should not offer days without rules", () => {
+      expect(isAvailableDay(sunday, schedule)).toBe(false);
+    });
+
+    it("should not offer blackout dates", () => {
+      expect(getHoursForDate(blockedMonday, schedule)).toEqual([]);
+      expect(isAvailableDay(blockedMonday, schedule)).toBe(false);
+      expect(isAvailableDay(monday, schedule)).toBe(true);
+    });
+  });
+
+  describe("describeHours", () => {
+    it("should group consecutive hours into ranges", () => {
+      expect(describeHours([9, 10, 11, 13, 14, 15, 16])).toBe(
+        "09:00-12:00, 13:00-17:00",
+      );
+    });
+  });
+
+  describe("formatVisitDuration", () => {
+    it("should format minutes as hours and minutes", () => {
+      expect(formatVisitDuration(45)).toBe("45 min");
+      expect(formatVisitDuration(120)).toBe("2 h");
+      expect(formatVisitDuration(90)).toBe("1 h 30 min");
+    });
+  });
+
+  describe("validateAppointmentDateTime", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 0, 15, 12));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should accept a Saturday slot inside the agent schedule", () => {
+      expect(validateAppointmentDateTime(at(saturday, 10), schedule)).toEqual({
+        valid: true,
+      });
+    });
+
+    it("should reject dates before tomorrow", () => {
+      const result = validateAppointmentDateTime(
+        at(new Date(2025, 0, 15), 16),
+        schedule,
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("mañana");
+    });
+
+    it("should reject days the agent does not work", () => {
+      const result = validateAppointmentDateTime(at(sunday, 10), schedule);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("domingo");
+    });
+
+    it("should reject blackout dates", () => {
+      const result = validateAppointmentDateTime(
+        at(blockedMonday, 10),
+        schedule,
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("esta fecha");
+    });
+
+    it("should reject hours outside the agent schedule", () => {
+      const result = validateAppointmentDateTime(at(monday, 12), schedule);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("09:00-12:00, 13:00-17:00");
+    });
+
+    it("should reject visits that run past the agent's hours", () => {
+      const longVisits = { ...schedule, visitDurationMinutes: 120 };
+
+      expect(
+        validateAppointmentDateTime(at(monday, 10), longVisits).valid,
+      ).toBe(true);
+      // 11:00-13:00 cruza el descanso de 12:00
+      const result = validateAppointmentDateTime(at(monday, 11), longVisits);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("2 h");
+    });
+
+    it("should reject times that are not on the hour", () => {
+      const result = validateAppointmentDateTime(at(monday, 10, 30), schedule);
+      expect(result.valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * AMENITIES VOCABULARY
+ *
+ * Vocabulario canónico de amenidades (Property.amenities guarda los IDs)
+ * - Etiquetas en español para formularios, filtros y chips
+ * - Sinónimos en español para mapear texto libre (búsqueda con IA,
+ *   importaciones) a IDs: "piscina", "alberca" → "pool"
+ *
+ * Client-safe: sin dependencias de servidor
+ */
+
+export const AMENITY_IDS = [
+  "pool",
+  "gym",
+  "garage",
+  "garden",
+  "terrace",
+  "security",
+  "elevator",
+  "ac",
+  "heating",
+  "internet",
+  "furnished",
+  "pets_allowed",
+] as const;
+
+export type AmenityId = (typeof AMENITY_IDS)[number];
+
+/**
+ * Modo de coincidencia del filtro de amenidades
+ * - all: la propiedad tiene todas las seleccionadas (hasEvery)
+ * - any: la propiedad tiene al menos una (hasSome)
+ */
+export const AMENITY_MATCH_MODES = ["all", "any"] as const;
+
+export type AmenityMatchMode = (typeof AMENITY_MATCH_MODES)[number];
+
+export const AMENITY_LABELS: Record<AmenityId, string> = {
+  pool: "Piscina",
+  gym: "Gimnasio",
+  garage: "Garaje",
+  garden: "Jardín",
+  terrace: "Terraza",
+  security: "Seguridad 24/7",
+  elevator: "Ascensor",
+  ac: "Aire Acondicionado",
+  heating: "Calefacción",
+  internet: "Internet / Wifi",
+  furnished: "Amoblado",
+  pets_allowed: "Mascotas Permitidas",
+};
+
+/**
+ * Opciones para checkboxes y dropdowns (en el orden de AMENITY_IDS)
+ */
+export const AMENITIES_LIST = AMENITY_IDS.map((id) => ({
+  id,
+  label: AMENITY_LABELS[id],
+}));
+
+/**
+ * Sinónimos normalizados (minúsculas, sin acentos), incluye plurales comunes
+ */
+const AMENITY_SYNONYMS: Record<AmenityId, string[]> = {
+  pool: ["piscina", "piscinas", "alberca", "pileta", "pool"],
+  gym: ["gimnasio", "gym"],
+  garage: [
+    "garaje",
+    "garajes",
+    "garage",
+    "parqueadero",
+    "parqueaderos",
+    "estacionamiento",
+    "estacionamientos",
+    "cochera",
+    "parqueo",
+  ],
+  garden: ["jardin", "jardines", "areas verdes", "area verde", "garden"],
+  terrace: ["terraza", "terrazas", "azotea", "terrace"],
+  security: [
+    "seguridad",
+    "guardiania",
+    "guardia",
+    "vigilancia",
+    "conjunto cerrado",
+    "security",
+  ],
+  elevator: ["ascensor", "ascensores", "elevador", "elevator"],
+  ac: ["aire acondicionado", "climatizado", "a c", "ac"],
+  heating: ["calefaccion", "calefactor", "heating"],
+  internet: ["internet", "wifi", "wi fi", "fibra optica"],
+  furnished: ["amoblado", "amoblada", "amueblado", "amueblada", "furnished"],
+  pets_allowed: [
+    "mascotas",
+    "mascota",
+    "pet friendly",
+    "petfriendly",
+    "pets allowed",
+  ],
+};
+
+/**
+ * Prefijos que niegan la amenidad ("sin amueblar", "no mascotas")
+ */
+const NEGATION_PATTERN = /^(sin|no)\s/;
+
+function normalizeAmenityText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function isAmenityId(value: string): value is AmenityId {
+  return (AMENITY_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Mapea un término libre a su ID canónico
+ *
+ * @example
+ * normalizeAmenity("Piscina temperada") // "pool"
+ * normalizeAmenity("sin amueblar")      // null
+ */
+export function normalizeAmenity(term: string): AmenityId | null {
+  if (isAmenityId(term)) return term;
+
+  const normalized = normalizeAmenityText(term);
+  if (!normalized || NEGATION_PATTERN.test(normalized)) return null;
+
+  const padded = ` ${normalized} `;
+  for (const id of AMENITY_IDS) {
+    if (
+      AMENITY_SYNONYMS[id].some((synonym) => padded.includes(` ${synonym} `))
+    ) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Mapea una lista de términos a IDs canónicos (sin duplicados ni desconocidos)
+ *
+ * @example
+ * parseAmenities(["piscina", "garaje", "moderna"]) // ["pool", "garage"]
+ */
+export function parseAmenities(terms: readonly string[] = []): AmenityId[] {
+  const ids = new Set<AmenityId>();
+  for (const term of terms) {
+    const id = normalizeAmenity(term);
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
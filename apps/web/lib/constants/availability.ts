@@ -1,31 +1,50 @@
 /**
- * APPOINTMENT AVAILABILITY CONSTANTS
+ * APPOINTMENT AVAILABILITY HELPERS
  *
- * Define horarios de atención predefinidos para agendar citas
+ * Calcula los horarios para agendar citas a partir del horario del agente
+ * (reglas semanales + días bloqueados, ver AvailabilityRepository)
+ *
+ * Client-safe: solo importa tipos de @repo/database
+ */
+
+import type {
+  AvailabilitySchedule,
+  WeeklyAvailabilityRule,
+} from "@repo/database";
+
+/**
+ * Duración por defecto de una visita (los slots se ofrecen cada hora)
+ * Cada propiedad puede configurar la suya (visitDurationMinutes)
  */
+export const DEFAULT_APPOINTMENT_DURATION_MINUTES = 60;
 
 /**
- * Horarios de negocio
- * Lunes a Viernes: 9:00 - 17:00
- * Pausa de almuerzo: 12:00 - 13:00
+ * Duraciones de visita que el agente puede elegir por propiedad (minutos)
+ * Deben ser múltiplos de 15 y como máximo 8 horas (ver AvailabilityRepository)
  */
-export const BUSINESS_HOURS = {
-  startHour: 9, // 9:00 AM
-  endHour: 17, // 5:00 PM
-  lunchStartHour: 12,
-  lunchEndHour: 13,
-  workdays: [1, 2, 3, 4, 5], // Monday (1) to Friday (5)
-};
+export const VISIT_DURATION_OPTIONS = [30, 45, 60, 90, 120, 180, 240];
 
 /**
- * Horas disponibles para agendar (sin almuerzo)
- * [9, 10, 11, 13, 14, 15, 16]
+ * Nombres de los días (índice = Date.getDay())
  */
-export const AVAILABLE_HOURS = [9, 10, 11, 13, 14, 15, 16];
+export const DAY_LABELS = [
+  "Domingo",
+  "Lunes",
+  "Martes",
+  "Miércoles",
+  "Jueves",
+  "Viernes",
+  "Sábado",
+];
+
+/**
+ * Orden de los días en la UI (Lunes primero)
+ */
+export const WEEK_DAYS_ORDER = [1, 2, 3, 4, 5, 6, 0];
 
 /**
  * Formato de hora para mostrar (HH:MM)
- * @param hour Número de hora (0-23)
+ * @param hour Número de hora (0-24)
  * @returns String formato "09:00"
  */
 export function formatHour(hour: number): string {
@@ -33,40 +52,100 @@ export function formatHour(hour: number): string {
 }
 
 /**
- * Validar si una fecha es hábil (Lun-Vie)
- * @param date Fecha a validar
- * @returns true si es día laboral
+ * Formato de duración para mostrar
+ * @example formatVisitDuration(90) // "1 h 30 min"
  */
-export function isWorkday(date: Date): boolean {
-  const dayOfWeek = date.getDay();
-  return BUSINESS_HOURS.workdays.includes(dayOfWeek);
+export function formatVisitDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) return `${rest} min`;
+  if (rest === 0) return `${hours} h`;
+  return `${hours} h ${rest} min`;
 }
 
 /**
- * Validar si una hora está en horario de negocio
- * @param hour Número de hora (0-23)
- * @returns true si está en horario de atención
+ * Fecha local en formato yyyy-MM-dd (mismo formato que blackoutDates)
  */
-export function isBusinessHour(hour: number): boolean {
-  if (hour < BUSINESS_HOURS.startHour || hour >= BUSINESS_HOURS.endHour) {
-    return false;
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Horas ofrecidas por un conjunto de reglas para un día de la semana
+ * @returns Horas de inicio ordenadas y sin duplicados (ej: [9, 10, 11, 13])
+ */
+export function getHoursForDayOfWeek(
+  rules: WeeklyAvailabilityRule[],
+  dayOfWeek: number,
+): number[] {
+  const hours = new Set<number>();
+
+  for (const rule of rules) {
+    if (rule.dayOfWeek !== dayOfWeek) continue;
+    for (let hour = rule.startHour; hour < rule.endHour; hour++) {
+      hours.add(hour);
+    }
   }
-  // Excluir hora de almuerzo
-  if (
-    hour >= BUSINESS_HOURS.lunchStartHour &&
-    hour < BUSINESS_HOURS.lunchEndHour
-  ) {
-    return false;
+
+  return [...hours].sort((a, b) => a - b);
+}
+
+/**
+ * Horas ofrecidas en una fecha concreta (vacío si el día está bloqueado)
+ */
+export function getHoursForDate(
+  date: Date,
+  schedule: AvailabilitySchedule,
+): number[] {
+  if (schedule.blackoutDates.includes(toDateKey(date))) {
+    return [];
   }
-  return true;
+  return getHoursForDayOfWeek(schedule.weeklyRules, date.getDay());
+}
+
+/**
+ * Validar si el agente atiende visitas en una fecha
+ */
+export function isAvailableDay(
+  date: Date,
+  schedule: AvailabilitySchedule,
+): boolean {
+  return getHoursForDate(date, schedule).length > 0;
+}
+
+/**
+ * Describir los bloques horarios de un día (ej: "09:00-12:00, 13:00-17:00")
+ */
+export function describeHours(hours: number[]): string {
+  const ranges: string[] = [];
+  let start = hours[0];
+
+  for (let i = 0; i < hours.length; i++) {
+    const current = hours[i] as number;
+    const next = hours[i + 1];
+    if (next !== current + 1) {
+      ranges.push(`${formatHour(start as number)}-${formatHour(current + 1)}`);
+      start = next;
+    }
+  }
+
+  return ranges.join(", ");
 }
 
 /**
  * Validar si una fecha/hora es válida para agendar
  * @param date Fecha y hora
+ * @param schedule Horario efectivo del agente para la propiedad
  * @returns Objeto con validez y mensaje de error
  */
-export function validateAppointmentDateTime(date: Date): {
+export function validateAppointmentDateTime(
+  date: Date,
+  schedule: AvailabilitySchedule,
+): {
   valid: boolean;
   error?: string;
 } {
@@ -82,23 +161,42 @@ export function validateAppointmentDateTime(date: Date): {
     };
   }
 
-  // Validar que sea día laboral
-  if (!isWorkday(date)) {
+  // Validar que el día no esté bloqueado por el agente
+  if (schedule.blackoutDates.includes(toDateKey(date))) {
     return {
       valid: false,
-      error: "Solo ofrecemos citas de lunes a viernes",
+      error: "El agente no atiende visitas en esta fecha",
     };
   }
 
-  // Validar que esté en horario de negocio
-  const hour = date.getHours();
-  if (!isBusinessHour(hour)) {
+  // Validar que el agente atienda ese día de la semana
+  const hours = getHoursForDayOfWeek(schedule.weeklyRules, date.getDay());
+  if (hours.length === 0) {
     return {
       valid: false,
-      error: `Las citas están disponibles de 9:00 a 17:00 (pausa 12:00-13:00)`,
+      error: `El agente no atiende visitas en ${DAY_LABELS[date.getDay()]?.toLowerCase()}`,
     };
   }
 
+  // Validar que la hora esté dentro de su horario
+  if (!hours.includes(date.getHours()) || date.getMinutes() !== 0) {
+    return {
+      valid: false,
+      error: `Las citas de este día están disponibles de ${describeHours(hours)}`,
+    };
+  }
+
+  // Validar que la visita completa termine dentro del mismo bloque horario
+  const hoursNeeded = Math.ceil(schedule.visitDurationMinutes / 60);
+  for (let offset = 1; offset < hoursNeeded; offset++) {
+    if (!hours.includes(date.getHours() + offset)) {
+      return {
+        valid: false,
+        error: `La visita dura ${formatVisitDuration(schedule.visitDurationMinutes)} y debe terminar dentro del horario del agente (${describeHours(hours)})`,
+      };
+    }
+  }
+
   return { valid: true };
 }
 
@@ -0,0 +1,14 @@
+/**
+ * PROPERTY GRID
+ *
+ * Paginación del listado /propiedades
+ * - Escritorio: páginas numeradas (?page=…)
+ * - Móvil: scroll infinito con cursor (loadMorePropertiesAction)
+ *
+ * Client-safe: sin dependencias de servidor
+ */
+
+/**
+ * Propiedades por página (y por carga del scroll infinito)
+ */
+export const PROPERTY_GRID_PAGE_SIZE = 12;
@@ -0,0 +1,43 @@
+/**
+ * PROPERTY SORT OPTIONS
+ *
+ * Órdenes disponibles en el listado (?sort=… en la URL)
+ * - Sin sort: más recientes, o relevancia si hay búsqueda de texto
+ * - distance: distancia al centro del mapa (?near=lng,lat)
+ *
+ * Client-safe: sin dependencias de servidor
+ */
+
+import type { PropertySort } from "@repo/database";
+
+export const PROPERTY_SORTS = [
+  "newest",
+  "price_asc",
+  "price_desc",
+  "price_per_m2",
+  "area_desc",
+  "most_viewed",
+  "distance",
+] as const satisfies readonly PropertySort[];
+
+export const PROPERTY_SORT_LABELS: Record<PropertySort, string> = {
+  newest: "Más recientes",
+  price_asc: "Precio: menor a mayor",
+  price_desc: "Precio: mayor a menor",
+  price_per_m2: "Precio por m²",
+  area_desc: "Mayor superficie",
+  most_viewed: "Más vistas",
+  distance: "Cercanía al centro del mapa",
+};
+
+/**
+ * Etiqueta del orden por defecto de una búsqueda de texto
+ */
+export const RELEVANCE_SORT_LABEL = "Más relevantes";
+
+export function isPropertySort(value: unknown): value is PropertySort {
+  return (
+    typeof value === "string" &&
+    (PROPERTY_SORTS as readonly string[]).includes(value)
+  );
+}
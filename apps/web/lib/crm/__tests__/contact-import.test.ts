@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildContactExportRows,
+  guessColumnMapping,
+  parseLeadStatus,
+  phoneKey,
+  planContactImport,
+  summarizeImport,
+} from "../contact-import";
+
+const HEADERS = [
+  "Nombre",
+  "Correo Electrónico",
+  "Celular",
+  "Estado",
+  "Propiedad",
+];
+
+describe("guessColumnMapping", () => {
+  it("maps common Spanish and English headers", () => {
+    expect(guessColumnMapping(HEADERS)).toEqual({
+      name: 0,
+      email: 1,
+      phone: 2,
+      status: 3,
+      property: 4,
+    });
+    expect(guessColumnMapping(["E-mail", "utm_source", "Notes"])).toEqual({
+      email: 0,
+      utmSource: 1,
+      notes: 2,
+    });
+  });
+
+  it("maps the export headers back to the same fields", () => {
+    const [headers] = buildContactExportRows([]);
+    const mapping = guessColumnMapping(headers ?? []);
+
+    expect(Object.keys(mapping)).toHaveLength(10);
+  });
+});
+
+describe("parseLeadStatus", () => {
+  it("accepts enum values and Spanish labels", () => {
+    expect(parseLeadStatus("CLOSED_WON")).toBe("CLOSED_WON");
+    expect(parseLeadStatus("negociando")).toBe("NEGOTIATING");
+    expect(parseLeadStatus("  ")).toBeNull();
+    expect(parseLeadStatus("Frío")).toBeUndefined();
+  });
+});
+
+describe("phoneKey", () => {
+  it("ignores formatting and country prefix", () => {
+    expect(phoneKey("+57 300-123-4567")).toBe(phoneKey("3001234567"));
+    expect(phoneKey("123")).toBeNull();
+  });
+});
+
+describe("planContactImport", () => {
+  const mapping = guessColumnMapping(HEADERS);
+
+  it("detects duplicates against the CRM by email or phone", () => {
+    const outcomes = planContactImport(
+      [
+        ["Ana", "ANA@example.com", "", "", ""],
+        ["Luis", "luis@example.com", "+57 300 123 4567", "", ""],
+        ["Marta", "marta@example.com", "", "Interesado", ""],
+      ],
+      mapping,
+      [
+        { email: "ana@example.com", phone: null },
+        { email: "otro@example.com", phone: "3001234567" },
+      ],
+    );
+
+    expect(outcomes.map((o) => o.action)).toEqual([
+      "duplicate",
+      "duplicate",
+      "create",
+    ]);
+    expect(outcomes[2]).toMatchObject({
+      rowNumber: 4,
+      contact: { email: "marta@example.com", status: "INTERESTED" },
+    });
+  });
+
+  it("keeps the first row when the file repeats a contact", () => {
+    const outcomes = planContactImport(
+      [
+        ["Ana", "ana@example.com", "", "", ""],
+        ["Ana G.", "ana@example.com", "", "", ""],
+      ],
+      mapping,
+      [],
+    );
+
+    expect(outcomes[0]?.action).toBe("create");
+    expect(outcomes[1]).toMatchObject({
+      action: "duplicate",
+      reason: "Repetido en la fila 2",
+    });
+  });
+
+  it("marks rows without email or with bad values as invalid", () => {
+    const outcomes = planContactImport(
+      [
+        ["Sin correo", "", "3001234567", "", ""],
+        ["Mal correo", "ana@", "", "", ""],
+        ["Mal estado", "ok@example.com", "", "Frío", ""],
+      ],
+      mapping,
+      [],
+    );
+
+    expect(outcomes.map((o) => o.action === "invalid" && o.reason)).toEqual([
+      "Falta el email",
+      "Email inválido: ana@",
+      "Estado desconocido: Frío",
+    ]);
+  });
+
+  it("links the interested property by title and warns when missing", () => {
+    const outcomes = planContactImport(
+      [
+        ["Ana", "ana@example.com", "", "", "casa en el Poblado"],
+        ["Luis", "luis@example.com", "", "", "Finca"],
+      ],
+      mapping,
+      [],
+      [{ id: "prop-1", title: "Casa en El Poblado" }],
+    );
+
+    expect(outcomes[0]).toMatchObject({ propertyId: "prop-1", warnings: [] });
+    expect(outcomes[1]).toMatchObject({
+      propertyId: null,
+      warnings: ["Propiedad no encontrada: Finca"],
+    });
+    expect(summarizeImport(outcomes)).toEqual({
+      create: 2,
+      duplicate: 0,
+      invalid: 0,
+    });
+  });
+});
+
+describe("buildContactExportRows", () => {
+  it("exports one row per lead with the status label", () => {
+    const [, row] = buildContactExportRows([
+      {
+        status: "NEGOTIATING",
+        source: "appointment",
+        utmSource: "facebook",
+        utmMedium: "cpc",
+        utmCampaign: "verano",
+        notes: "Quiere visitar el sábado",
+        createdAt: new Date("2025-03-01T12:00:00Z"),
+        contact: { name: "Ana", email: "ana@example.com", phone: null },
+        property: { title: "Casa en El Poblado" },
+      },
+    ]);
+
+    expect(row).toEqual([
+      "Ana",
+      "ana@example.com",
+      "",
+      "Negociando",
+      "appointment",
+      "facebook",
+      "cpc",
+      "verano",
+      "Casa en El Poblado",
+      "Quiere visitar el sábado",
+      "2025-03-01",
+    ]);
+  });
+});
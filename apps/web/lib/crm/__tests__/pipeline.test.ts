@@ -0,0 +1,116 @@
+import type { AgentClientDetail } from "@repo/database";
+import { describe, expect, it } from "vitest";
+import {
+  formatStageDuration,
+  getStageDurations,
+  groupLeadsByStatus,
+  moveLead,
+} from "../pipeline";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function buildLead(
+  id: string,
+  status: AgentClientDetail["status"],
+  statusChangedAt: Date,
+): AgentClientDetail {
+  return {
+    id,
+    status,
+    statusChangedAt,
+    notes: null,
+    source: "appointment",
+    createdAt: statusChangedAt,
+    updatedAt: statusChangedAt,
+    client: {
+      id: `client-${id}`,
+      name: "Juan",
+      email: "juan@example.com",
+      phone: null,
+      avatar: null,
+    },
+    property: null,
+    stageChanges: [
+      {
+        id: `change-${id}`,
+        fromStatus: null,
+        toStatus: status,
+        changedAt: statusChangedAt,
+      },
+    ],
+  };
+}
+
+describe("pipeline", () => {
+  describe("groupLeadsByStatus", () => {
+    it("should return every column, newest stage entry first", () => {
+      const older = buildLead("a", "NEW", new Date("2025-01-01"));
+      const newer = buildLead("b", "NEW", new Date("2025-01-05"));
+      const won = buildLead("c", "CLOSED_WON", new Date("2025-01-03"));
+
+      const columns = groupLeadsByStatus([older, won, newer]);
+
+      expect(columns.NEW.map((lead) => lead.id)).toEqual(["b", "a"]);
+      expect(columns.CLOSED_WON).toHaveLength(1);
+      expect(columns.NEGOTIATING).toEqual([]);
+    });
+  });
+
+  describe("moveLead", () => {
+    it("should move the lead and append the stage change", () => {
+      const now = new Date("2025-01-10T12:00:00Z");
+      const leads = [
+        buildLead("a", "INTERESTED", new Date("2025-01-01")),
+        buildLead("b", "NEW", new Date("2025-01-02")),
+      ];
+
+      const [moved, untouched] = moveLead(leads, "a", "NEGOTIATING", now);
+
+      expect(moved?.status).toBe("NEGOTIATING");
+      expect(moved?.statusChangedAt).toBe(now);
+      expect(moved?.stageChanges.at(-1)).toMatchObject({
+        fromStatus: "INTERESTED",
+        toStatus: "NEGOTIATING",
+        changedAt: now,
+      });
+      expect(untouched).toBe(leads[1]);
+    });
+
+    it("should keep the lead untouched when dropped on its own column", () => {
+      const leads = [buildLead("a", "NEW", new Date("2025-01-01"))];
+
+      expect(moveLead(leads, "a", "NEW")[0]).toBe(leads[0]);
+    });
+  });
+
+  describe("getStageDurations", () => {
+    it("should add up the time spent in each stage", () => {
+      const start = new Date("2025-01-01T00:00:00Z");
+      const at = (days: number) => new Date(start.getTime() + days * DAY_MS);
+
+      const durations = getStageDurations(
+        [
+          { toStatus: "NEW", changedAt: at(0) },
+          { toStatus: "NEGOTIATING", changedAt: at(1) },
+          { toStatus: "INTERESTED", changedAt: at(4) },
+          { toStatus: "NEGOTIATING", changedAt: at(5) },
+        ],
+        at(7),
+      );
+
+      expect(durations.NEW).toBe(DAY_MS);
+      expect(durations.INTERESTED).toBe(DAY_MS);
+      // 3 días + 2 días en la etapa actual
+      expect(durations.NEGOTIATING).toBe(5 * DAY_MS);
+      expect(durations.CLOSED_WON).toBeUndefined();
+    });
+  });
+
+  describe("formatStageDuration", () => {
+    it("should format durations in Spanish", () => {
+      expect(formatStageDuration(3 * DAY_MS)).toBe("3 días");
+      expect(formatStageDuration(5 * HOUR_MS)).toBe("5 horas");
+    });
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * CRM CONTACT IMPORT / EXPORT
+ *
+ * Lógica pura de la importación masiva de contactos (y su exportación)
+ * - Mapeo de columnas de la hoja a campos del CRM (autodetección por encabezado)
+ * - Normalización de email, teléfono y estado
+ * - Detección de duplicados por email o teléfono (contra el CRM y dentro del archivo)
+ * - Plan de importación (dry-run): qué filas se crean, cuáles se omiten y por qué
+ *
+ * Los encabezados de la exportación son los mismos que reconoce la importación,
+ * así un archivo exportado se puede volver a importar sin mapear columnas.
+ *
+ * Client-safe: se usa en el diálogo de importación y en el server action
+ */
+
+import {
+  LEAD_STATUS_LABELS,
+  LEAD_STATUSES,
+  type LeadStatus,
+} from "@/lib/types/crm";
+import type { SpreadsheetRows } from "@/lib/utils/spreadsheet";
+
+/**
+ * Máximo de filas por importación
+ */
+export const MAX_IMPORT_ROWS = 2000;
+
+/**
+ * Origen asignado a los contactos importados sin columna "Origen"
+ */
+export const IMPORT_SOURCE = "import";
+
+export const CONTACT_FIELDS = [
+  {
+    key: "name",
+    label: "Nombre",
+    aliases: [
+      "nombre",
+      "name",
+      "nombre completo",
+      "full name",
+      "cliente",
+      "contacto",
+    ],
+  },
+  {
+    key: "email",
+    label: "Email",
+    aliases: ["email", "e mail", "correo", "correo electronico", "mail"],
+  },
+  {
+    key: "phone",
+    label: "Teléfono",
+    aliases: ["telefono", "phone", "celular", "movil", "whatsapp", "tel"],
+  },
+  { key: "status", label: "Estado", aliases: ["estado", "status", "etapa"] },
+  { key: "source", label: "Origen", aliases: ["origen", "source", "fuente"] },
+  { key: "utmSource", label: "UTM Source", aliases: ["utm source"] },
+  { key: "utmMedium", label: "UTM Medium", aliases: ["utm medium"] },
+  { key: "utmCampaign", label: "UTM Campaign", aliases: ["utm campaign"] },
+  {
+    key: "property",
+    label: "Propiedad de interés",
+    aliases: ["propiedad de interes", "propiedad", "property", "inmueble"],
+  },
+  {
+    key: "notes",
+    label: "Notas",
+    aliases: ["notas", "notes", "nota", "comentarios", "observaciones"],
+  },
+] as const;
+
+export type ContactField = (typeof CONTACT_FIELDS)[number]["key"];
+
+export const CONTACT_FIELD_KEYS = CONTACT_FIELDS.map((field) => field.key) as [
+  ContactField,
+  ...ContactField[],
+];
+
+/**
+ * Campo del CRM → índice de columna en la hoja
+ */
+export type ColumnMapping = Partial<Record<ContactField, number>>;
+
+export interface ContactRow {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  status: LeadStatus | null;
+  source: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  property: string | null;
+  notes: string | null;
+}
+
+/**
+ * Resultado de una fila en el plan de importación
+ * rowNumber es la fila en la hoja (1 = encabezados)
+ */
+export type ContactImportOutcome =
+  | {
+      rowNumber: number;
+      action: "create";
+      contact: ContactRow & { email: string };
+      propertyId: string | null;
+      warnings: string[];
+    }
+  | {
+      rowNumber: number;
+      action: "duplicate";
+      contact: ContactRow;
+      reason: string;
+    }
+  | {
+      rowNumber: number;
+      action: "invalid";
+      contact: ContactRow;
+      reason: string;
+    };
+
+export interface ExistingContact {
+  email: string | null;
+  phone: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Normalizar un encabezado para compararlo con los alias
+ * "Correo Electrónico" → "correo electronico", "utm_source" → "utm source"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Autodetectar el mapeo a partir de la fila de encabezados
+ * Cada columna se asigna como máximo a un campo
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of CONTACT_FIELDS) {
+    const candidates = [normalizeHeader(field.label), ...field.aliases];
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && candidates.includes(header),
+    );
+    if (index !== -1) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Clave de comparación del teléfono: solo dígitos, últimos 10
+ * (ignora prefijo de país, espacios y guiones)
+ */
+export function phoneKey(phone: string | null | undefined): string | null {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  if (digits.length < 7) return null;
+  return digits.slice(-10);
+}
+
+/**
+ * Interpretar el estado (enum o etiqueta en español, sin importar tildes)
+ * @returns null si está vacío, undefined si no se reconoce
+ */
+export function parseLeadStatus(value: string): LeadStatus | null | undefined {
+  const normalized = normalizeHeader(value);
+  if (!normalized) return null;
+
+  return LEAD_STATUSES.find(
+    (status) =>
+      normalizeHeader(status) === normalized ||
+      normalizeHeader(LEAD_STATUS_LABELS[status]) === normalized,
+  );
+}
+
+function readCell(row: string[], index: number | undefined): string | null {
+  if (index === undefined) return null;
+  const value = row[index]?.trim();
+  return value ? value : null;
+}
+
+/**
+ * Leer una fila de la hoja con el mapeo elegido
+ */
+export function readContactRow(
+  row: string[],
+  mapping: ColumnMapping,
+): { contact: ContactRow; error: string | null } {
+  const rawStatus = readCell(row, mapping.status);
+  const status = rawStatus ? parseLeadStatus(rawStatus) : null;
+  const email = readCell(row, mapping.email)?.toLowerCase() ?? null;
+
+  const contact: ContactRow = {
+    name: readCell(row, mapping.name),
+    email,
+    phone: readCell(row, mapping.phone),
+    status: status ?? null,
+    source: readCell(row, mapping.source),
+    utmSource: readCell(row, mapping.utmSource),
+    utmMedium: readCell(row, mapping.utmMedium),
+    utmCampaign: readCell(row, mapping.utmCampaign),
+    property: readCell(row, mapping.property),
+    notes: readCell(row, mapping.notes),
+  };
+
+  let error: string | null = null;
+  if (email && !EMAIL_PATTERN.test(email)) {
+    error = `Email inválido: ${email}`;
+  } else if (status === undefined) {
+    error = `Estado desconocido: ${rawStatus}`;
+  }
+
+  return { contact, error };
+}
+
+/**
+ * Armar el plan de importación (dry-run)
+ * - Filas sin email → inválidas (el contacto necesita email para su cuenta)
+ * - Email o teléfono ya presente en el CRM del agente → duplicado
+ * - Email o teléfono repetido en el mismo archivo → duplicado (gana la primera fila)
+ * - Propiedad de interés: se busca por ID o título entre las del agente
+ *
+ * @param rows - Filas de datos (sin la fila de encabezados)
+ */
+export function planContactImport(
+  rows: SpreadsheetRows,
+  mapping: ColumnMapping,
+  existing: ExistingContact[],
+  properties: { id: string; title: string }[] = [],
+): ContactImportOutcome[] {
+  const seenEmails = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+  const existingEmails = new Set(
+    existing.flatMap((c) => (c.email ? [c.email.toLowerCase()] : [])),
+  );
+  const existingPhones = new Set(
+    existing.map((c) => phoneKey(c.phone)).filter((key) => key !== null),
+  );
+
+  return rows.map((row, index) => {
+    // +2: fila 1 son los encabezados
+    const rowNumber = index + 2;
+    const { contact, error } = readContactRow(row, mapping);
+
+    if (error) {
+      return { rowNumber, action: "invalid", contact, reason: error };
+    }
+
+    const phone = phoneKey(contact.phone);
+
+    if (contact.email && existingEmails.has(contact.email)) {
+      return {
+        rowNumber,
+        action: "duplicate",
+        contact,
+        reason: "Ya está en tu CRM (mismo email)",
+      };
+    }
+    if (phone && existingPhones.has(phone)) {
+      return {
+        rowNumber,
+        action: "duplicate",
+        contact,
+        reason: "Ya está en tu CRM (mismo teléfono)",
+      };
+    }
+
+    const repeatedRow =
+      (contact.email && seenEmails.get(contact.email)) ||
+      (phone && seenPhones.get(phone));
+    if (repeatedRow) {
+      return {
+        rowNumber,
+        action: "duplicate",
+        contact,
+        reason: `Repetido en la fila ${repeatedRow}`,
+      };
+    }
+
+    if (contact.email) seenEmails.set(contact.email, rowNumber);
+    if (phone) seenPhones.set(phone, rowNumber);
+
+    if (!contact.email) {
+      return {
+        rowNumber,
+        action: "invalid",
+        contact,
+        reason: "Falta el email",
+      };
+    }
+
+    const warnings: string[] = [];
+    let propertyId: string | null = null;
+
+    if (contact.property) {
+      const wanted = contact.property.toLowerCase();
+      const match = properties.find(
+        (property) =>
+          property.id === contact.property ||
+          property.title.toLowerCase() === wanted,
+      );
+      if (match) {
+        propertyId = match.id;
+      } else {
+        warnings.push(`Propiedad no encontrada: ${contact.property}`);
+      }
+    }
+
+    return {
+      rowNumber,
+      action: "create",
+      contact: { ...contact, email: contact.email },
+      propertyId,
+      warnings,
+    };
+  });
+}
+
+/**
+ * Conteo por resultado (resumen de la vista previa)
+ */
+export function summarizeImport(outcomes: ContactImportOutcome[]) {
+  return {
+    create: outcomes.filter((o) => o.action === "create").length,
+    duplicate: outcomes.filter((o) => o.action === "duplicate").length,
+    invalid: outcomes.filter((o) => o.action === "invalid").length,
+  };
+}
+
+/**
+ * Lead tal como se exporta (ver agentClientRepository.listForExport)
+ */
+export interface ExportableLead {
+  status: LeadStatus;
+  source: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  notes: string | null;
+  createdAt: Date;
+  contact: { name: string | null; email: string | null; phone: string | null };
+  property: { title: string } | null;
+}
+
+/**
+ * Filas de la exportación (encabezados + un lead por fila)
+ */
+export function buildContactExportRows(
+  leads: ExportableLead[],
+): SpreadsheetRows {
+  const headers = [...CONTACT_FIELDS.map((field) => field.label), "Creado"];
+
+  return [
+    headers,
+    ...leads.map((lead) => {
+      const values: Record<ContactField, string | null> = {
+        name: lead.contact.name,
+        email: lead.contact.email,
+        phone: lead.contact.phone,
+        status: LEAD_STATUS_LABELS[lead.status],
+        source: lead.source,
+        utmSource: lead.utmSource,
+        utmMedium: lead.utmMedium,
+        utmCampaign: lead.utmCampaign,
+        property: lead.property?.title ?? null,
+        notes: lead.notes,
+      };
+
+      return [
+        ...CONTACT_FIELDS.map((field) => values[field.key] ?? ""),
+        lead.createdAt.toISOString().slice(0, 10),
+      ];
+    }),
+  ];
+}
@@ -0,0 +1,110 @@
+/**
+ * CRM PIPELINE HELPERS
+ *
+ * Lógica del tablero kanban de /dashboard/clientes
+ * - Agrupar leads por etapa (conteo por columna)
+ * - Mover un lead de forma optimista antes de confirmar en el servidor
+ * - Calcular cuánto tiempo estuvo el lead en cada etapa
+ *
+ * Client-safe: solo importa tipos de @repo/database
+ */
+
+import type { AgentClientDetail } from "@repo/database";
+import { formatDistanceStrict } from "date-fns";
+import { es } from "date-fns/locale";
+import { LEAD_STATUSES, type LeadStatus } from "@/lib/types/crm";
+
+type StageChange = Pick<
+  AgentClientDetail["stageChanges"][number],
+  "toStatus" | "changedAt"
+>;
+
+/**
+ * Agrupar leads por etapa (todas las columnas, aunque estén vacías)
+ * Dentro de cada columna, los que llevan menos tiempo en la etapa primero
+ */
+export function groupLeadsByStatus<
+  T extends { status: LeadStatus; statusChangedAt: Date },
+>(leads: T[]): Record<LeadStatus, T[]> {
+  const columns = Object.fromEntries(
+    LEAD_STATUSES.map((status) => [status, [] as T[]]),
+  ) as Record<LeadStatus, T[]>;
+
+  for (const lead of leads) {
+    columns[lead.status].push(lead);
+  }
+
+  for (const status of LEAD_STATUSES) {
+    columns[status].sort(
+      (a, b) =>
+        new Date(b.statusChangedAt).getTime() -
+        new Date(a.statusChangedAt).getTime(),
+    );
+  }
+
+  return columns;
+}
+
+/**
+ * Mover un lead a otra etapa (actualización optimista)
+ * Mismo resultado que AgentClientRepository.changeStatus
+ */
+export function moveLead(
+  leads: AgentClientDetail[],
+  leadId: string,
+  status: LeadStatus,
+  now: Date = new Date(),
+): AgentClientDetail[] {
+  return leads.map((lead) => {
+    if (lead.id !== leadId || lead.status === status) {
+      return lead;
+    }
+
+    return {
+      ...lead,
+      status,
+      statusChangedAt: now,
+      stageChanges: [
+        ...lead.stageChanges,
+        {
+          id: `optimistic-${now.getTime()}`,
+          fromStatus: lead.status,
+          toStatus: status,
+          changedAt: now,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Tiempo total (ms) que el lead pasó en cada etapa
+ * Cada cambio abre una etapa que dura hasta el siguiente cambio (o hasta ahora)
+ *
+ * @example
+ * getStageDurations(lead.stageChanges).NEGOTIATING // ms en negociación
+ */
+export function getStageDurations(
+  stageChanges: StageChange[],
+  now: Date = new Date(),
+): Partial<Record<LeadStatus, number>> {
+  const durations: Partial<Record<LeadStatus, number>> = {};
+
+  stageChanges.forEach((change, index) => {
+    const start = new Date(change.changedAt).getTime();
+    const next = stageChanges[index + 1];
+    const end = next ? new Date(next.changedAt).getTime() : now.getTime();
+
+    durations[change.toStatus] =
+      (durations[change.toStatus] ?? 0) + Math.max(0, end - start);
+  });
+
+  return durations;
+}
+
+/**
+ * Duración legible (ej: "3 días", "5 horas")
+ */
+export function formatStageDuration(ms: number): string {
+  return formatDistanceStrict(0, ms, { locale: es });
+}
@@ -0,0 +1,25 @@
+/**
+ * CRON AUTHORIZATION
+ *
+ * Shared guard for /api/cron/* jobs
+ * - Requiere "Authorization: Bearer <CRON_SECRET>"
+ * - Sin CRON_SECRET configurado las rutas quedan deshabilitadas
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { env } from "@repo/env";
+import type { NextRequest } from "next/server";
+
+export function isCronAuthorized(request: NextRequest): boolean {
+  if (!env.CRON_SECRET) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  const received = Buffer.from(header);
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
@@ -42,9 +42,9 @@ export interface UsageWithLimits {
  */
 export async function getUserUsageStats(userId: string): Promise<UsageStats> {
   const [properties, images, videos, featured] = await Promise.all([
-    // Count total properties
+    // Count properties that use the plan (archived ones don't)
     db.property.count({
-      where: { agentId: userId },
+      where: { agentId: userId, visibility: { not: "ARCHIVED" } },
     }),
 
     // Count total images across all properties
@@ -1,17 +1,22 @@
 /**
  * APPOINTMENT EMAIL SERVICE
  *
- * Envía notificaciones por email cuando se crea/confirma/cancela una cita
+ * Envía notificaciones por email cuando se crea/confirma/cancela/reprograma una cita
+ * y recordatorios 24h / 1h antes de las citas confirmadas
+ * Los emails de cita creada/confirmada/reprogramada incluyen un adjunto .ics
  * Usa Resend como servicio de email
  */
 
+import type { AppointmentReminderType } from "@repo/database";
 import { env } from "@repo/env";
 import { Resend } from "resend";
+import { appointmentToICSEvent, buildICSCalendar } from "@/lib/calendar/ics";
 import {
   formatAppointmentDate,
   getAppointmentEmailSubject,
 } from "@/lib/utils/appointment-helpers";
 import { logger } from "@/lib/utils/logger";
+import { generateSlug } from "@/lib/utils/slug-generator";
 import { getEmailConfig, getTestRecipient } from "./config";
 
 /**
@@ -62,7 +67,57 @@ interface AppointmentEmailData {
   propertyTitle: string;
   propertyAddress: string;
   appointmentDate: Date;
+  /** Duración de la visita en minutos (por defecto 1 hora) */
+  durationMinutes?: number;
   notes?: string;
+  /** Necesario para el adjunto .ics (UID estable por cita) */
+  appointmentId?: string;
+  propertyId?: string;
+}
+
+/**
+ * Adjunto .ics para agregar la cita al calendario
+ * El UID es el mismo en "creada", "confirmada" y "reprogramada": el calendario actualiza el evento
+ *
+ * @param recipient - Quién recibe el email (define el contacto que se muestra)
+ */
+function buildCalendarAttachment(
+  data: AppointmentEmailData,
+  status: "PENDING" | "CONFIRMED",
+  recipient: "client" | "agent",
+) {
+  if (!data.appointmentId) {
+    return undefined;
+  }
+
+  const ics = buildICSCalendar({
+    events: [
+      appointmentToICSEvent({
+        appointmentId: data.appointmentId,
+        scheduledAt: data.appointmentDate,
+        durationMinutes: data.durationMinutes,
+        status,
+        propertyTitle: data.propertyTitle,
+        propertyAddress: data.propertyAddress,
+        propertyUrl: data.propertyId
+          ? `${env.NEXT_PUBLIC_SITE_URL}/propiedades/${data.propertyId}-${generateSlug(data.propertyTitle)}`
+          : undefined,
+        contactLabel: recipient === "client" ? "Agente" : "Cliente",
+        contactName: recipient === "client" ? data.agentName : data.clientName,
+        contactEmail:
+          recipient === "client" ? data.agentEmail : data.clientEmail,
+        notes: data.notes,
+      }),
+    ],
+  });
+
+  return [
+    {
+      filename: "cita.ics",
+      content: Buffer.from(ics, "utf-8"),
+      contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+    },
+  ];
 }
 
 /**
@@ -100,6 +155,7 @@ export async function sendAppointmentCreatedEmail(data: AppointmentEmailData) {
       data.agentName,
       data.notes,
     ),
+    attachments: buildCalendarAttachment(data, "PENDING", "client"),
   });
 
   // Email para el agente
@@ -115,6 +171,7 @@ export async function sendAppointmentCreatedEmail(data: AppointmentEmailData) {
       appointmentDateFormatted,
       data.notes,
     ),
+    attachments: buildCalendarAttachment(data, "PENDING", "agent"),
   });
 
   try {
@@ -240,6 +297,7 @@ export async function sendAppointmentConfirmedEmail(
       appointmentDateFormatted,
       data.agentName,
     ),
+    attachments: buildCalendarAttachment(data, "CONFIRMED", "client"),
   });
 
   // Email para el agente (confirmación de que se envió al cliente)
@@ -252,6 +310,7 @@ export async function sendAppointmentConfirmedEmail(
       data.propertyTitle,
       appointmentDateFormatted,
     ),
+    attachments: buildCalendarAttachment(data, "CONFIRMED", "agent"),
   });
 
   try {
@@ -479,6 +538,287 @@ export async function sendAppointmentCancelledEmail(
   }
 }
 
+/**
+ * Enviar email cuando se reprograma una cita
+ * Se envía al cliente y al agente con el horario anterior y el nuevo
+ *
+ * @param status - Estado tras reprogramar (PENDING si debe confirmarse de nuevo)
+ */
+export async function sendAppointmentRescheduledEmail(
+  data: AppointmentEmailData,
+  options: {
+    previousDate: Date;
+    rescheduledBy: "client" | "agent";
+    status: "PENDING" | "CONFIRMED";
+    reason?: string;
+  },
+) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const appointmentDateFormatted = formatAppointmentDate(data.appointmentDate);
+  const previousDateFormatted = formatAppointmentDate(options.previousDate);
+  const subject = getAppointmentEmailSubject("rescheduled", data.propertyTitle);
+
+  logger.info(
+    {
+      clientEmail: data.clientEmail,
+      agentEmail: data.agentEmail,
+      from: emailConfig.from,
+      propertyTitle: data.propertyTitle,
+      rescheduledBy: options.rescheduledBy,
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending appointment rescheduled emails",
+  );
+
+  // Email para el cliente
+  const clientEmailPromise = resend.emails.send({
+    from: emailConfig.from,
+    to: getTestRecipient(data.clientEmail),
+    subject,
+    html: generateClientAppointmentRescheduledHTML(
+      data.propertyTitle,
+      data.propertyAddress,
+      previousDateFormatted,
+      appointmentDateFormatted,
+      data.agentName,
+      options.rescheduledBy === "agent",
+      options.status === "PENDING",
+      options.reason,
+    ),
+    attachments: buildCalendarAttachment(data, options.status, "client"),
+  });
+
+  // Email para el agente
+  const agentEmailPromise = resend.emails.send({
+    from: emailConfig.from,
+    to: getTestRecipient(data.agentEmail),
+    subject,
+    html: generateAgentAppointmentRescheduledHTML(
+      data.clientName,
+      data.propertyTitle,
+      previousDateFormatted,
+      appointmentDateFormatted,
+      options.rescheduledBy === "client",
+      options.status === "PENDING",
+      options.reason,
+    ),
+    attachments: buildCalendarAttachment(data, options.status, "agent"),
+  });
+
+  try {
+    const [clientResult, agentResult] = await Promise.all([
+      clientEmailPromise,
+      agentEmailPromise,
+    ]);
+
+    const clientSuccess = clientResult.error === null;
+    const agentSuccess = agentResult.error === null;
+
+    logger.debug(
+      {
+        client: {
+          success: clientSuccess,
+          emailId: clientSuccess
+            ? (clientResult.data as ResendEmailData)?.id
+            : null,
+          error: clientResult.error || null,
+        },
+        agent: {
+          success: agentSuccess,
+          emailId: agentSuccess
+            ? (agentResult.data as ResendEmailData)?.id
+            : null,
+          error: agentResult.error || null,
+        },
+      },
+      "[Email] Resend API results for appointment rescheduled",
+    );
+
+    if (!clientSuccess || !agentSuccess) {
+      logger.warn(
+        {
+          clientFailed: !clientSuccess,
+          agentFailed: !agentSuccess,
+          clientError: clientResult.error,
+          agentError: agentResult.error,
+        },
+        "[Email] Appointment rescheduled - partial email delivery failure",
+      );
+    }
+
+    return {
+      success: clientSuccess && agentSuccess,
+      clientEmailId: clientSuccess
+        ? (clientResult.data as ResendEmailData).id
+        : undefined,
+      agentEmailId: agentSuccess
+        ? (agentResult.data as ResendEmailData).id
+        : undefined,
+      error:
+        !clientSuccess || !agentSuccess
+          ? `Email delivery failed: ${[
+              !clientSuccess ? "client" : null,
+              !agentSuccess ? "agent" : null,
+            ]
+              .filter(Boolean)
+              .join(", ")}`
+          : undefined,
+    };
+  } catch (error) {
+    logger.error(
+      {
+        err: error,
+        propertyTitle: data.propertyTitle,
+        clientEmail: data.clientEmail,
+        agentEmail: data.agentEmail,
+        rescheduledBy: options.rescheduledBy,
+      },
+      "[Email] Exception sending appointment rescheduled emails",
+    );
+    return {
+      success: false,
+      error: "Failed to send reschedule emails",
+    };
+  }
+}
+
+/**
+ * Enviar recordatorio de una cita confirmada (24h o 1h antes)
+ * Se envía al cliente y al agente
+ */
+export async function sendAppointmentReminderEmail(
+  data: AppointmentEmailData,
+  reminderType: AppointmentReminderType,
+) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const appointmentDateFormatted = formatAppointmentDate(data.appointmentDate);
+  const subject = getAppointmentEmailSubject("reminder", data.propertyTitle);
+  const when = reminderType === "DAY_BEFORE" ? "mañana" : "en 1 hora";
+
+  logger.info(
+    {
+      clientEmail: data.clientEmail,
+      agentEmail: data.agentEmail,
+      from: emailConfig.from,
+      propertyTitle: data.propertyTitle,
+      reminderType,
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending appointment reminder emails",
+  );
+
+  // Email para el cliente
+  const clientEmailPromise = resend.emails.send({
+    from: emailConfig.from,
+    to: getTestRecipient(data.clientEmail),
+    subject,
+    html: generateClientAppointmentReminderHTML(
+      data.clientName,
+      data.propertyTitle,
+      data.propertyAddress,
+      appointmentDateFormatted,
+      data.agentName,
+      when,
+    ),
+  });
+
+  // Email para el agente
+  const agentEmailPromise = resend.emails.send({
+    from: emailConfig.from,
+    to: getTestRecipient(data.agentEmail),
+    subject: `Recordatorio de cita - ${data.propertyTitle}`,
+    html: generateAgentAppointmentReminderHTML(
+      data.clientName,
+      data.clientEmail,
+      data.propertyTitle,
+      data.propertyAddress,
+      appointmentDateFormatted,
+      when,
+    ),
+  });
+
+  try {
+    const [clientResult, agentResult] = await Promise.all([
+      clientEmailPromise,
+      agentEmailPromise,
+    ]);
+
+    const clientSuccess = clientResult.error === null;
+    const agentSuccess = agentResult.error === null;
+
+    logger.debug(
+      {
+        client: {
+          success: clientSuccess,
+          emailId: clientSuccess
+            ? (clientResult.data as ResendEmailData)?.id
+            : null,
+          error: clientResult.error || null,
+        },
+        agent: {
+          success: agentSuccess,
+          emailId: agentSuccess
+            ? (agentResult.data as ResendEmailData)?.id
+            : null,
+          error: agentResult.error || null,
+        },
+      },
+      "[Email] Resend API results for appointment reminder",
+    );
+
+    if (!clientSuccess || !agentSuccess) {
+      logger.warn(
+        {
+          clientFailed: !clientSuccess,
+          agentFailed: !agentSuccess,
+          clientError: clientResult.error,
+          agentError: agentResult.error,
+        },
+        "[Email] Appointment reminder - partial email delivery failure",
+      );
+    }
+
+    return {
+      success: clientSuccess && agentSuccess,
+      /** true si al menos uno de los dos emails salió */
+      delivered: clientSuccess || agentSuccess,
+      clientEmailId: clientSuccess
+        ? (clientResult.data as ResendEmailData).id
+        : undefined,
+      agentEmailId: agentSuccess
+        ? (agentResult.data as ResendEmailData).id
+        : undefined,
+      error:
+        !clientSuccess || !agentSuccess
+          ? `Email delivery failed: ${[
+              !clientSuccess ? "client" : null,
+              !agentSuccess ? "agent" : null,
+            ]
+              .filter(Boolean)
+              .join(", ")}`
+          : undefined,
+    };
+  } catch (error) {
+    logger.error(
+      {
+        err: error,
+        propertyTitle: data.propertyTitle,
+        clientEmail: data.clientEmail,
+        agentEmail: data.agentEmail,
+        reminderType,
+      },
+      "[Email] Exception sending appointment reminder emails",
+    );
+    return {
+      success: false,
+      delivered: false,
+      error: "Failed to send reminder emails",
+    };
+  }
+}
+
 // ==================== HTML TEMPLATES ====================
 
 function generateClientAppointmentCreatedHTML(
@@ -760,3 +1100,200 @@ function generateAgentAppointmentCancelledHTML(
 </html>
   `;
 }
+
+function generateClientAppointmentRescheduledHTML(
+  propertyTitle: string,
+  propertyAddress: string,
+  previousDate: string,
+  appointmentDate: string,
+  agentName: string,
+  rescheduledByAgent: boolean,
+  needsConfirmation: boolean,
+  reason?: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f5f3ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f5f3ff; padding: 15px; border-left: 4px solid #8b5cf6; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #8b5cf6; }
+    .previous { text-decoration: line-through; color: #666; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>Tu cita ha sido reprogramada</h2>
+      <p>${rescheduledByAgent ? `${agentName} cambió el horario de tu visita.` : "Has cambiado el horario de tu visita."}</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Propiedad:</span> ${propertyTitle}</p>
+      <p><span class="label">Dirección:</span> ${propertyAddress}</p>
+      <p><span class="label">Horario anterior:</span> <span class="previous">${previousDate}</span></p>
+      <p><span class="label">Nuevo horario:</span> ${appointmentDate}</p>
+      ${reason ? `<p><span class="label">Motivo:</span> ${reason}</p>` : ""}
+    </div>
+
+    <p>${needsConfirmation ? "El agente debe confirmar el nuevo horario. Te avisaremos por email cuando lo haga." : "La cita sigue confirmada en el nuevo horario."}</p>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generateAgentAppointmentRescheduledHTML(
+  clientName: string,
+  propertyTitle: string,
+  previousDate: string,
+  appointmentDate: string,
+  rescheduledByClient: boolean,
+  needsConfirmation: boolean,
+  reason?: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f5f3ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f5f3ff; padding: 15px; border-left: 4px solid #8b5cf6; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #8b5cf6; }
+    .previous { text-decoration: line-through; color: #666; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>Cita reprogramada</h2>
+      <p>${rescheduledByClient ? `${clientName} cambió el horario de su visita.` : `Has reprogramado la cita con ${clientName}.`}</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Cliente:</span> ${clientName}</p>
+      <p><span class="label">Propiedad:</span> ${propertyTitle}</p>
+      <p><span class="label">Horario anterior:</span> <span class="previous">${previousDate}</span></p>
+      <p><span class="label">Nuevo horario:</span> ${appointmentDate}</p>
+      ${reason ? `<p><span class="label">Motivo:</span> ${reason}</p>` : ""}
+    </div>
+
+    ${needsConfirmation ? "<p>Por favor, confirma el nuevo horario en tu panel de citas.</p>" : ""}
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generateClientAppointmentReminderHTML(
+  clientName: string,
+  propertyTitle: string,
+  propertyAddress: string,
+  appointmentDate: string,
+  agentName: string,
+  when: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #eff6ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #eff6ff; padding: 15px; border-left: 4px solid #3b82f6; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #3b82f6; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>Tu visita es ${when}</h2>
+      <p>${clientName}, te recordamos tu cita con ${agentName}.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Propiedad:</span> ${propertyTitle}</p>
+      <p><span class="label">Dirección:</span> ${propertyAddress}</p>
+      <p><span class="label">Fecha y hora:</span> ${appointmentDate}</p>
+      <p><span class="label">Agente:</span> ${agentName}</p>
+    </div>
+
+    <p>Si no puedes asistir, por favor cancela la cita desde tu perfil o contacta al agente.</p>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generateAgentAppointmentReminderHTML(
+  clientName: string,
+  clientEmail: string,
+  propertyTitle: string,
+  propertyAddress: string,
+  appointmentDate: string,
+  when: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #eff6ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #eff6ff; padding: 15px; border-left: 4px solid #3b82f6; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #3b82f6; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>Tienes una visita ${when}</h2>
+      <p>Recordatorio de tu cita confirmada con ${clientName}.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Cliente:</span> ${clientName} (${clientEmail})</p>
+      <p><span class="label">Propiedad:</span> ${propertyTitle}</p>
+      <p><span class="label">Dirección:</span> ${propertyAddress}</p>
+      <p><span class="label">Fecha y hora:</span> ${appointmentDate}</p>
+    </div>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,42 @@
+/**
+ * RESEND CLIENT
+ *
+ * Cliente compartido por los servicios de email de notificaciones
+ * (ver appointment-emails.ts para la explicación de la inicialización lazy)
+ */
+
+import { env } from "@repo/env";
+import { Resend } from "resend";
+
+/**
+ * Resend email response data structure
+ * Used for type-safe extraction of email IDs from Resend API responses
+ */
+export interface ResendEmailData {
+  id: string;
+}
+
+/**
+ * LAZY INITIALIZATION
+ *
+ * Creates the Resend client on-demand (server-only).
+ * Throws a descriptive error if called in the browser or without API key.
+ */
+export function getResendClient() {
+  if (typeof window !== "undefined") {
+    throw new Error(
+      "Resend client can only be used on the server. " +
+        "This function must be called from a Server Action or Server Component.",
+    );
+  }
+
+  if (!env.RESEND_API_KEY) {
+    throw new Error(
+      "RESEND_API_KEY environment variable is not set. " +
+        "Please add RESEND_API_KEY to your .env.local file. " +
+        "Get your API key from: https://resend.com/api-keys",
+    );
+  }
+
+  return new Resend(env.RESEND_API_KEY);
+}
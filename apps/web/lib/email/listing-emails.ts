@@ -0,0 +1,128 @@
+/**
+ * LISTING EMAIL SERVICE
+ *
+ * Emails del ciclo de vida de las publicaciones
+ * - "¿Sigue disponible?": aviso al agente antes del archivado automático
+ * Usa Resend como servicio de email
+ */
+
+import { env } from "@repo/env";
+import { logger } from "@/lib/utils/logger";
+import { getResendClient, type ResendEmailData } from "./client";
+import { getEmailConfig, getTestRecipient } from "./config";
+
+interface ListingRenewalEmailData {
+  agentName: string;
+  agentEmail: string;
+  propertyId: string;
+  propertyTitle: string;
+  archiveDate: Date;
+}
+
+/**
+ * Enviar el email "¿sigue disponible?" al agente
+ */
+export async function sendListingRenewalEmail(data: ListingRenewalEmailData) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const dashboardUrl = `${env.NEXT_PUBLIC_SITE_URL}/dashboard/propiedades`;
+
+  logger.info(
+    {
+      agentEmail: data.agentEmail,
+      propertyId: data.propertyId,
+      archiveDate: data.archiveDate.toISOString(),
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending listing renewal email",
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.agentEmail),
+      subject: `¿Sigue disponible? - ${data.propertyTitle}`,
+      html: generateListingRenewalHTML(data, dashboardUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { agentEmail: data.agentEmail, error: result.error },
+        "[Email] Listing renewal email delivery failed",
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      {
+        err: error,
+        agentEmail: data.agentEmail,
+        propertyId: data.propertyId,
+      },
+      "[Email] Exception sending listing renewal email",
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// ==================== HTML TEMPLATES ====================
+
+function generateListingRenewalHTML(
+  data: ListingRenewalEmailData,
+  dashboardUrl: string,
+): string {
+  const archiveDate = data.archiveDate.toLocaleDateString("es-EC", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #fff8e1; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f8f9fa; padding: 15px; border-left: 4px solid #f0ad4e; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #b7791f; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.agentName}!</h2>
+      <p>¿Tu propiedad sigue disponible? Confírmalo para que siga publicada.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Propiedad:</span> ${data.propertyTitle}</p>
+      <p><span class="label">Se archivará el:</span> ${archiveDate}</p>
+    </div>
+
+    <p>Las publicaciones sin actualizar se archivan automáticamente para que el portal solo muestre propiedades vigentes. Pulsa <strong>Renovar</strong> en tu panel (o edita la propiedad) para mantenerla visible.</p>
+
+    <a href="${dashboardUrl}" class="action-button">Ir a mis propiedades</a>
+
+    <div class="footer">
+      <p>Si ya no está disponible, puedes archivarla o marcarla como vendida/alquilada desde tu panel.</p>
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,132 @@
+/**
+ * PRICE DROP EMAIL SERVICE
+ *
+ * Avisa a los usuarios que tienen una propiedad en favoritos
+ * cuando el agente baja su precio
+ * Usa Resend como servicio de email
+ */
+
+import { env } from "@repo/env";
+import { logger } from "@/lib/utils/logger";
+import { formatPrice } from "@/lib/utils/price-helpers";
+import { generateSlug } from "@/lib/utils/slug-generator";
+import { getResendClient, type ResendEmailData } from "./client";
+import { getEmailConfig, getTestRecipient } from "./config";
+
+interface PriceDropEmailData {
+  userName: string;
+  userEmail: string;
+  propertyId: string;
+  propertyTitle: string;
+  previousPrice: number;
+  newPrice: number;
+}
+
+/**
+ * Enviar aviso de bajada de precio a un usuario
+ */
+export async function sendPriceDropEmail(data: PriceDropEmailData) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const propertyUrl = `${env.NEXT_PUBLIC_SITE_URL}/propiedades/${data.propertyId}-${generateSlug(data.propertyTitle)}`;
+  const favoritesUrl = `${env.NEXT_PUBLIC_SITE_URL}/perfil/favoritos`;
+
+  logger.info(
+    {
+      userEmail: data.userEmail,
+      propertyId: data.propertyId,
+      previousPrice: data.previousPrice,
+      newPrice: data.newPrice,
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending price drop email",
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.userEmail),
+      subject: `Bajó de precio - ${data.propertyTitle}`,
+      html: generatePriceDropHTML(data, propertyUrl, favoritesUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { userEmail: data.userEmail, error: result.error },
+        "[Email] Price drop email delivery failed",
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      {
+        err: error,
+        userEmail: data.userEmail,
+        propertyId: data.propertyId,
+      },
+      "[Email] Exception sending price drop email",
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// ==================== HTML TEMPLATES ====================
+
+function generatePriceDropHTML(
+  data: PriceDropEmailData,
+  propertyUrl: string,
+  favoritesUrl: string,
+): string {
+  const savings = data.previousPrice - data.newPrice;
+  const percent = Math.round((savings / data.previousPrice) * 100);
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f0fff4; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f8f9fa; padding: 15px; border-left: 4px solid #28a745; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #28a745; }
+    .old-price { text-decoration: line-through; color: #999; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.userName}!</h2>
+      <p>Una propiedad de tus favoritos bajó de precio.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Propiedad:</span> ${data.propertyTitle}</p>
+      <p><span class="label">Precio anterior:</span> <span class="old-price">${formatPrice(data.previousPrice)}</span></p>
+      <p><span class="label">Nuevo precio:</span> ${formatPrice(data.newPrice)}</p>
+      <p><span class="label">Ahorro:</span> ${formatPrice(savings)} (${percent}%)</p>
+    </div>
+
+    <a href="${propertyUrl}" class="action-button">Ver propiedad</a>
+
+    <div class="footer">
+      <p>Recibes este email porque guardaste esta propiedad en <a href="${favoritesUrl}">tus favoritos</a>.</p>
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
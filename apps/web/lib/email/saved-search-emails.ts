@@ -0,0 +1,160 @@
+/**
+ * SAVED SEARCH EMAIL SERVICE
+ *
+ * Envía el digest de propiedades nuevas que coinciden con las búsquedas
+ * guardadas de un usuario
+ * Usa Resend como servicio de email
+ */
+
+import { env } from "@repo/env";
+import { logger } from "@/lib/utils/logger";
+import { formatPrice } from "@/lib/utils/price-helpers";
+import { generateSlug } from "@/lib/utils/slug-generator";
+import { getResendClient, type ResendEmailData } from "./client";
+import { getEmailConfig, getTestRecipient } from "./config";
+
+interface SavedSearchDigestListing {
+  id: string;
+  title: string;
+  price: number;
+  city?: string | null;
+  address?: string | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  /** Nombres de las búsquedas que coincidieron */
+  searchNames: string[];
+}
+
+interface SavedSearchDigestEmailData {
+  userName: string;
+  userEmail: string;
+  listings: SavedSearchDigestListing[];
+}
+
+/**
+ * Enviar el digest de propiedades nuevas a un usuario
+ * Un solo email por usuario aunque coincidan varias búsquedas
+ */
+export async function sendSavedSearchDigestEmail(
+  data: SavedSearchDigestEmailData,
+) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const manageUrl = `${env.NEXT_PUBLIC_SITE_URL}/perfil/busquedas`;
+  const count = data.listings.length;
+
+  logger.info(
+    {
+      userEmail: data.userEmail,
+      listings: count,
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending saved search digest",
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.userEmail),
+      subject:
+        count === 1
+          ? `Nueva propiedad para tu búsqueda - ${data.listings[0]?.title}`
+          : `${count} propiedades nuevas para tus búsquedas`,
+      html: generateSavedSearchDigestHTML(data, manageUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { userEmail: data.userEmail, error: result.error },
+        "[Email] Saved search digest delivery failed",
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      { err: error, userEmail: data.userEmail },
+      "[Email] Exception sending saved search digest",
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// ==================== HTML TEMPLATES ====================
+
+function generateListingHTML(listing: SavedSearchDigestListing): string {
+  const propertyUrl = `${env.NEXT_PUBLIC_SITE_URL}/propiedades/${listing.id}-${generateSlug(listing.title)}`;
+  const location = [listing.address, listing.city].filter(Boolean).join(", ");
+  const features = [
+    listing.bedrooms ? `${listing.bedrooms} hab.` : null,
+    listing.bathrooms ? `${listing.bathrooms} baños` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return `
+    <div class="details">
+      <p><span class="label">Propiedad:</span> <a href="${propertyUrl}">${listing.title}</a></p>
+      <p><span class="label">Precio:</span> ${formatPrice(listing.price)}</p>
+      ${location ? `<p><span class="label">Ubicación:</span> ${location}</p>` : ""}
+      ${features ? `<p><span class="label">Características:</span> ${features}</p>` : ""}
+      <p class="match">Coincide con: ${listing.searchNames.join(", ")}</p>
+    </div>
+  `;
+}
+
+function generateSavedSearchDigestHTML(
+  data: SavedSearchDigestEmailData,
+  manageUrl: string,
+): string {
+  const count = data.listings.length;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #f0f7ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f8f9fa; padding: 15px; border-left: 4px solid #0066cc; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #0066cc; }
+    .match { color: #666; font-size: 13px; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.userName}!</h2>
+      <p>${
+        count === 1
+          ? "Se publicó una nueva propiedad que coincide"
+          : `Se publicaron ${count} propiedades nuevas que coinciden`
+      } con tus búsquedas guardadas.</p>
+    </div>
+
+    ${data.listings.map(generateListingHTML).join("")}
+
+    <a href="${manageUrl}" class="action-button">Ver mis búsquedas</a>
+
+    <div class="footer">
+      <p>Recibes este email porque activaste alertas en tus búsquedas guardadas.
+      Puedes desactivarlas en <a href="${manageUrl}">Mis búsquedas</a>.</p>
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
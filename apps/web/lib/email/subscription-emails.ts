@@ -0,0 +1,399 @@
+/**
+ * SUBSCRIPTION EMAIL SERVICE
+ *
+ * Emails del plan de suscripción del agente
+ * - Aviso de downgrade: qué dejará de mostrarse al terminar la gracia
+ * - Prueba gratis: aviso antes de que termine y aviso al terminar
+ * - Pago fallido: pedir que actualice el medio de pago
+ * Usa Resend como servicio de email
+ */
+
+import { env } from "@repo/env";
+import { logger } from "@/lib/utils/logger";
+import { getResendClient, type ResendEmailData } from "./client";
+import { getEmailConfig, getTestRecipient } from "./config";
+
+interface PlanDowngradeEmailData {
+  agentName: string;
+  agentEmail: string;
+  graceEndsAt: Date;
+  /** Publicaciones que permite el nuevo plan */
+  propertyLimit: number;
+  archiveCount: number;
+  unfeatureCount: number;
+  hiddenImageCount: number;
+}
+
+interface TrialEmailData {
+  agentName: string;
+  agentEmail: string;
+  /** Nombre visible del plan de la prueba (Plus, Business) */
+  planName: string;
+  trialEndsAt: Date;
+}
+
+interface PaymentFailedEmailData {
+  agentName: string;
+  agentEmail: string;
+}
+
+/**
+ * Avisar al agente del downgrade y del fin del período de gracia
+ */
+export async function sendPlanDowngradeEmail(data: PlanDowngradeEmailData) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const dashboardUrl = `${env.NEXT_PUBLIC_SITE_URL}/dashboard/propiedades`;
+  const subscriptionUrl = `${env.NEXT_PUBLIC_SITE_URL}/dashboard/suscripcion`;
+
+  logger.info(
+    {
+      agentEmail: data.agentEmail,
+      graceEndsAt: data.graceEndsAt.toISOString(),
+      testMode: emailConfig.testMode,
+    },
+    "[Email] Sending plan downgrade email",
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.agentEmail),
+      subject: "Tu plan venció - elige qué propiedades mantener",
+      html: generatePlanDowngradeHTML(data, dashboardUrl, subscriptionUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { agentEmail: data.agentEmail, error: result.error },
+        "[Email] Plan downgrade email delivery failed",
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      { err: error, agentEmail: data.agentEmail },
+      "[Email] Exception sending plan downgrade email",
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Avisar al agente que su prueba gratis está por terminar
+ */
+export async function sendTrialEndingEmail(data: TrialEmailData) {
+  return sendTrialEmail(
+    data,
+    `Tu prueba de ${data.planName} termina pronto`,
+    generateTrialEndingHTML,
+    "trial ending",
+  );
+}
+
+/**
+ * Avisar al agente que su prueba gratis terminó (pasa al plan gratuito)
+ */
+export async function sendTrialEndedEmail(data: TrialEmailData) {
+  return sendTrialEmail(
+    data,
+    `Tu prueba de ${data.planName} terminó`,
+    generateTrialEndedHTML,
+    "trial ended",
+  );
+}
+
+/**
+ * Avisar al agente que no se pudo cobrar su suscripción
+ */
+export async function sendPaymentFailedEmail(data: PaymentFailedEmailData) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const subscriptionUrl = `${env.NEXT_PUBLIC_SITE_URL}/dashboard/suscripcion`;
+
+  logger.info(
+    { agentEmail: data.agentEmail, testMode: emailConfig.testMode },
+    "[Email] Sending payment failed email",
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.agentEmail),
+      subject: "No pudimos procesar el pago de tu suscripción",
+      html: generatePaymentFailedHTML(data, subscriptionUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { agentEmail: data.agentEmail, error: result.error },
+        "[Email] Payment failed email delivery failed",
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      { err: error, agentEmail: data.agentEmail },
+      "[Email] Exception sending payment failed email",
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+async function sendTrialEmail(
+  data: TrialEmailData,
+  subject: string,
+  generateHTML: (data: TrialEmailData, subscriptionUrl: string) => string,
+  kind: string,
+) {
+  const resend = getResendClient();
+  const emailConfig = getEmailConfig();
+  const subscriptionUrl = `${env.NEXT_PUBLIC_SITE_URL}/dashboard/suscripcion`;
+
+  logger.info(
+    {
+      agentEmail: data.agentEmail,
+      trialEndsAt: data.trialEndsAt.toISOString(),
+      testMode: emailConfig.testMode,
+    },
+    `[Email] Sending ${kind} email`,
+  );
+
+  try {
+    const result = await resend.emails.send({
+      from: emailConfig.from,
+      to: getTestRecipient(data.agentEmail),
+      subject,
+      html: generateHTML(data, subscriptionUrl),
+    });
+
+    if (result.error !== null) {
+      logger.warn(
+        { agentEmail: data.agentEmail, error: result.error },
+        `[Email] ${kind} email delivery failed`,
+      );
+      return { success: false, error: "Email delivery failed" };
+    }
+
+    return {
+      success: true,
+      emailId: (result.data as ResendEmailData)?.id,
+    };
+  } catch (error) {
+    logger.error(
+      { err: error, agentEmail: data.agentEmail },
+      `[Email] Exception sending ${kind} email`,
+    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// ==================== HTML TEMPLATES ====================
+
+function generatePlanDowngradeHTML(
+  data: PlanDowngradeEmailData,
+  dashboardUrl: string,
+  subscriptionUrl: string,
+): string {
+  const graceEnd = data.graceEndsAt.toLocaleDateString("es-EC", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  const changes = [
+    data.archiveCount > 0 &&
+      `<p><span class="label">Se archivarán:</span> ${data.archiveCount} ${data.archiveCount === 1 ? "propiedad" : "propiedades"}</p>`,
+    data.unfeatureCount > 0 &&
+      `<p><span class="label">Dejarán de estar destacadas:</span> ${data.unfeatureCount}</p>`,
+    data.hiddenImageCount > 0 &&
+      `<p><span class="label">Fotos que se ocultarán:</span> ${data.hiddenImageCount}</p>`,
+  ]
+    .filter(Boolean)
+    .join("\n      ");
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #fff8e1; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f8f9fa; padding: 15px; border-left: 4px solid #f0ad4e; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #b7791f; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; margin-right: 8px; }
+    .secondary-button { background: #ffffff; color: #0066cc; border: 1px solid #0066cc; padding: 11px 23px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.agentName}!</h2>
+      <p>Tu suscripción venció y tu cuenta pasó al plan gratuito, que permite ${data.propertyLimit} ${data.propertyLimit === 1 ? "propiedad publicada" : "propiedades publicadas"}.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Se aplicará el:</span> ${graceEnd}</p>
+      ${changes}
+    </div>
+
+    <p>Hasta esa fecha todo sigue publicado. Marca <strong>Mantener</strong> en las propiedades que quieres conservar; si no eliges, se mantienen las más recientes. Nada se elimina: lo archivado vuelve a publicarse si renuevas tu plan.</p>
+
+    <a href="${dashboardUrl}" class="action-button">Elegir propiedades</a>
+    <a href="${subscriptionUrl}" class="secondary-button">Renovar mi plan</a>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generateTrialEndingHTML(
+  data: TrialEmailData,
+  subscriptionUrl: string,
+): string {
+  const trialEnd = data.trialEndsAt.toLocaleDateString("es-EC", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #eef4ff; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .details { background: #f8f9fa; padding: 15px; border-left: 4px solid #0066cc; margin-bottom: 20px; }
+    .details p { margin: 8px 0; }
+    .label { font-weight: bold; color: #0066cc; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.agentName}!</h2>
+      <p>Tu prueba gratis del plan ${data.planName} está por terminar.</p>
+    </div>
+
+    <div class="details">
+      <p><span class="label">Termina el:</span> ${trialEnd}</p>
+    </div>
+
+    <p>Suscríbete antes de esa fecha para conservar tus publicaciones, destacados y fotos. Si no lo haces, tu cuenta pasará al plan gratuito: no se te cobrará nada.</p>
+
+    <a href="${subscriptionUrl}" class="action-button">Suscribirme a ${data.planName}</a>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generateTrialEndedHTML(
+  data: TrialEmailData,
+  subscriptionUrl: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #fff8e1; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.agentName}!</h2>
+      <p>Tu prueba gratis del plan ${data.planName} terminó y tu cuenta pasó al plan gratuito.</p>
+    </div>
+
+    <p>Si tienes más publicaciones de las que permite el plan gratuito, te enviamos otro email para que elijas cuáles mantener. Al suscribirte recuperas todo lo que tenías durante la prueba.</p>
+
+    <a href="${subscriptionUrl}" class="action-button">Suscribirme a ${data.planName}</a>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+function generatePaymentFailedHTML(
+  data: PaymentFailedEmailData,
+  subscriptionUrl: string,
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #fff8e1; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+    .action-button { background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block; margin-top: 10px; }
+    .footer { color: #666; font-size: 12px; padding-top: 20px; border-top: 1px solid #eee; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>¡Hola ${data.agentName}!</h2>
+      <p>No pudimos cobrar la renovación de tu suscripción.</p>
+    </div>
+
+    <p>Volveremos a intentarlo en los próximos días. Actualiza tu medio de pago para no perder los beneficios de tu plan: si la suscripción vence, tu cuenta pasará al plan gratuito.</p>
+
+    <a href="${subscriptionUrl}" class="action-button">Actualizar medio de pago</a>
+
+    <div class="footer">
+      <p>Este es un mensaje automático de Inmo App. Por favor no responder directamente a este email.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,75 @@
+/**
+ * PRICE DROP ALERTS
+ *
+ * Notifica a los usuarios que tienen una propiedad en favoritos
+ * cuando su precio baja.
+ *
+ * REGLAS:
+ * 1. Solo bajadas de precio (subidas no se notifican)
+ * 2. El agente que hizo el cambio nunca recibe el aviso
+ * 3. Nunca lanza: un fallo de emails no debe romper la actualización
+ */
+
+import { FavoriteRepository } from "@repo/database";
+import { sendPriceDropEmail } from "@/lib/email/price-drop-emails";
+import { logger } from "@/lib/utils/logger";
+
+interface PriceDropData {
+  propertyId: string;
+  propertyTitle: string;
+  previousPrice: number;
+  newPrice: number;
+  /** Usuario que cambió el precio (excluido de los avisos) */
+  changedById: string;
+}
+
+/**
+ * Enviar avisos de bajada de precio a los usuarios con la propiedad en favoritos
+ *
+ * @returns Número de usuarios notificados
+ */
+export async function notifyPriceDrop(data: PriceDropData): Promise<number> {
+  if (data.newPrice >= data.previousPrice) {
+    return 0;
+  }
+
+  try {
+    const favoriteRepository = new FavoriteRepository();
+    const users = await favoriteRepository.getPropertyFavoriters(
+      data.propertyId,
+    );
+    const recipients = users.filter((user) => user.id !== data.changedById);
+
+    const results = await Promise.all(
+      recipients.map((user) =>
+        sendPriceDropEmail({
+          userName: user.name || "Usuario",
+          userEmail: user.email,
+          propertyId: data.propertyId,
+          propertyTitle: data.propertyTitle,
+          previousPrice: data.previousPrice,
+          newPrice: data.newPrice,
+        }),
+      ),
+    );
+
+    const notified = results.filter((result) => result.success).length;
+
+    logger.info(
+      {
+        propertyId: data.propertyId,
+        recipients: recipients.length,
+        notified,
+      },
+      "[PriceDrop] Favorite price drop alerts sent",
+    );
+
+    return notified;
+  } catch (error) {
+    logger.error(
+      { err: error, propertyId: data.propertyId },
+      "[PriceDrop] Error sending price drop alerts",
+    );
+    return 0;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * TESTS - Listing Lifecycle
+ *
+ * - Las programadas se publican una sola vez
+ * - El email "¿sigue disponible?" se registra antes de enviarse
+ * - Los envíos fallidos se liberan para reintentarse
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const repository = vi.hoisted(() => ({
+  findDueForPublish: vi.fn(),
+  publishScheduled: vi.fn(),
+  findDueForRenewalReminder: vi.fn(),
+  claimRenewalReminder: vi.fn(),
+  releaseRenewalReminder: vi.fn(),
+  archiveStale: vi.fn(),
+}));
+
+vi.mock("@repo/database", () => ({
+  listingLifecycleRepository: repository,
+  getListingArchiveDate: (refreshedAt: Date) =>
+    new Date(refreshedAt.getTime() + 60 * 24 * 60 * 60 * 1000),
+}));
+
+vi.mock("@/lib/email/listing-emails", () => ({
+  sendListingRenewalEmail: vi.fn(),
+}));
+
+import { sendListingRenewalEmail } from "@/lib/email/listing-emails";
+import { runListingLifecycle } from "../lifecycle";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+const scheduledListing = { id: "prop-1", agentId: "agent-1", title: "Casa" };
+
+const staleListing = {
+  id: "prop-2",
+  title: "Departamento en Cuenca",
+  refreshedAt: new Date("2026-01-05T12:00:00.000Z"),
+  agent: { id: "agent-1", name: "María", email: "maria@example.com" },
+};
+
+describe("runListingLifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.findDueForPublish.mockResolvedValue([]);
+    repository.findDueForRenewalReminder.mockResolvedValue([]);
+    repository.archiveStale.mockResolvedValue(0);
+  });
+
+  it("should publish scheduled listings", async () => {
+    repository.findDueForPublish.mockResolvedValue([scheduledListing]);
+    repository.publishScheduled.mockResolvedValue(true);
+
+    const summary = await runListingLifecycle(now);
+
+    expect(repository.publishScheduled).toHaveBeenCalledWith("prop-1", now);
+    expect(summary.published).toBe(1);
+  });
+
+  it("should skip listings already published by another run", async () => {
+    repository.findDueForPublish.mockResolvedValue([scheduledListing]);
+    repository.publishScheduled.mockResolvedValue(false);
+
+    const summary = await runListingLifecycle(now);
+
+    expect(summary.published).toBe(0);
+  });
+
+  it("should claim the renewal reminder before emailing the agent", async () => {
+    repository.findDueForRenewalReminder.mockResolvedValue([staleListing]);
+    repository.claimRenewalReminder.mockResolvedValue(true);
+    vi.mocked(sendListingRenewalEmail).mockResolvedValue({ success: true });
+
+    const summary = await runListingLifecycle(now);
+
+    expect(repository.claimRenewalReminder).toHaveBeenCalledWith("prop-2", now);
+    expect(sendListingRenewalEmail).toHaveBeenCalledWith({
+      agentName: "María",
+      agentEmail: "maria@example.com",
+      propertyId: "prop-2",
+      propertyTitle: "Departamento en Cuenca",
+      archiveDate: new Date("2026-03-06T12:00:00.000Z"),
+    });
+    expect(summary.reminded).toBe(1);
+  });
+
+  it("should not email when another run claimed the reminder", async () => {
+    repository.findDueForRenewalReminder.mockResolvedValue([staleListing]);
+    repository.claimRenewalReminder.mockResolvedValue(false);
+
+    await runListingLifecycle(now);
+
+    expect(sendListingRenewalEmail).not.toHaveBeenCalled();
+  });
+
+  it("should release the claim when the email fails", async () => {
+    repository.findDueForRenewalReminder.mockResolvedValue([staleListing]);
+    repository.claimRenewalReminder.mockResolvedValue(true);
+    vi.mocked(sendListingRenewalEmail).mockResolvedValue({
+      success: false,
+      error: "Email delivery failed",
+    });
+
+    const summary = await runListingLifecycle(now);
+
+    expect(repository.releaseRenewalReminder).toHaveBeenCalledWith("prop-2");
+    expect(summary.failed).toBe(1);
+  });
+
+  it("should archive stale listings", async () => {
+    repository.archiveStale.mockResolvedValue(4);
+
+    const summary = await runListingLifecycle(now);
+
+    expect(repository.archiveStale).toHaveBeenCalledWith(now);
+    expect(summary).toEqual({
+      published: 0,
+      reminded: 0,
+      failed: 0,
+      archived: 4,
+    });
+  });
+});
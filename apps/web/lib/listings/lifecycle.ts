@@ -0,0 +1,103 @@
+/**
+ * LISTING LIFECYCLE
+ *
+ * Transiciones automáticas de visibilidad de las publicaciones
+ * 1. DRAFT → PUBLISHED: publicaciones programadas cuya fecha ya llegó
+ *    (publishedAt las incluye en el próximo digest de búsquedas guardadas)
+ * 2. Email "¿sigue disponible?" LISTING_RENEWAL_REMINDER_DAYS días antes
+ *    del archivado
+ * 3. PUBLISHED → ARCHIVED: sin renovar en LISTING_ARCHIVE_AFTER_DAYS días
+ *
+ * REGLAS:
+ * 1. Cada transición se registra ANTES de sus efectos (updateMany condicional):
+ *    dos ejecuciones simultáneas nunca publican ni avisan dos veces
+ * 2. Si el email falla se libera el registro y se reintenta en la próxima ejecución
+ * 3. Pensado para ejecutarse cada 10-15 minutos (ver app/api/cron/listing-lifecycle)
+ */
+
+import {
+  getListingArchiveDate,
+  listingLifecycleRepository,
+} from "@repo/database";
+import { sendListingRenewalEmail } from "@/lib/email/listing-emails";
+import { logger } from "@/lib/utils/logger";
+
+export interface ListingLifecycleRunSummary {
+  /** Publicaciones programadas que se publicaron */
+  published: number;
+  /** Emails "¿sigue disponible?" enviados */
+  reminded: number;
+  /** Emails fallidos: se reintentarán en la próxima ejecución */
+  failed: number;
+  /** Publicaciones archivadas por falta de renovación */
+  archived: number;
+}
+
+/**
+ * Ejecutar las transiciones pendientes
+ *
+ * @param now - Hora de referencia (inyectable para tests)
+ */
+export async function runListingLifecycle(
+  now: Date = new Date(),
+): Promise<ListingLifecycleRunSummary> {
+  const summary: ListingLifecycleRunSummary = {
+    published: 0,
+    reminded: 0,
+    failed: 0,
+    archived: 0,
+  };
+
+  // 1. Scheduled → published
+  const scheduled = await listingLifecycleRepository.findDueForPublish(now);
+  for (const listing of scheduled) {
+    const published = await listingLifecycleRepository.publishScheduled(
+      listing.id,
+      now,
+    );
+    if (published) summary.published++;
+  }
+
+  // 2. "¿Sigue disponible?" before auto-archiving
+  const dueForReminder =
+    await listingLifecycleRepository.findDueForRenewalReminder(now);
+  for (const listing of dueForReminder) {
+    const claimed = await listingLifecycleRepository.claimRenewalReminder(
+      listing.id,
+      now,
+    );
+    if (!claimed) continue;
+
+    try {
+      const result = await sendListingRenewalEmail({
+        agentName: listing.agent.name || "Agente",
+        agentEmail: listing.agent.email,
+        propertyId: listing.id,
+        propertyTitle: listing.title,
+        archiveDate: getListingArchiveDate(listing.refreshedAt),
+      });
+
+      if (result.success) {
+        summary.reminded++;
+        continue;
+      }
+
+      await listingLifecycleRepository.releaseRenewalReminder(listing.id);
+      summary.failed++;
+    } catch (error) {
+      logger.error(
+        { err: error, propertyId: listing.id },
+        "[Lifecycle] Failed to send listing renewal email",
+      );
+      await listingLifecycleRepository.releaseRenewalReminder(listing.id);
+      summary.failed++;
+    }
+  }
+
+  // 3. Stale → archived
+  summary.archived = await listingLifecycleRepository.archiveStale(now);
+
+  logger.info({ ...summary }, "[Lifecycle] Listing lifecycle run finished");
+
+  return summary;
+}
@@ -0,0 +1,437 @@
+/**
+ * TESTS - Lemon Squeezy Webhook Processor
+ *
+ * - La clave del ledger es estable entre re-entregas
+ * - Los eventos fuera de orden se omiten (SKIPPED) sin tocar la suscripción
+ * - Los fallos quedan FAILED y el replay los reintenta en orden
+ * - Los eventos aplicados sincronizan el tier del usuario (tier-manager)
+ * - Un pago fallido marca PAST_DUE y avisa al usuario por email
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { repository, subscription } = vi.hoisted(() => ({
+  repository: {
+    claim: vi.fn(),
+    complete: vi.fn(),
+    fail: vi.fn(),
+    findReplayable: vi.fn(),
+  },
+  subscription: {
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("@repo/database", () => ({
+  db: { subscription },
+  userRepository: {
+    findById: vi.fn().mockResolvedValue({
+      id: "user-1",
+      name: "María",
+      email: "maria@example.com",
+    }),
+  },
+  webhookEventRepository: repository,
+}));
+
+vi.mock("@/lib/email/subscription-emails", () => ({
+  sendPaymentFailedEmail: vi.fn(),
+}));
+
+vi.mock("@/lib/payments/lemonsqueezy", () => ({
+  getTierForVariantId: () => "PLUS",
+}));
+
+vi.mock("@/lib/subscription/tier-manager", () => ({
+  setUserTier: vi.fn(),
+  downgradeToFree: vi.fn(),
+}));
+
+import { sendPaymentFailedEmail } from "@/lib/email/subscription-emails";
+import { downgradeToFree, setUserTier } from "@/lib/subscription/tier-manager";
+import {
+  processWebhookEvent,
+  replayWebhookEvents,
+  toWebhookEvent,
+  type WebhookPayload,
+} from "../lemonsqueezy-webhooks";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+function buildPayload(
+  eventName: WebhookPayload["meta"]["event_name"],
+  updatedAt: string,
+  status: "active" | "cancelled" | "expired" = "active",
+): WebhookPayload {
+  return {
+    meta: { event_name: eventName, custom_data: { user_id: "user-1" } },
+    data: {
+      id: "sub-1",
+      type: "subscriptions",
+      attributes: {
+        store_id: 1,
+        customer_id: 2,
+        order_id: 3,
+        product_id: 4,
+        variant_id: 5,
+        status,
+        card_brand: "visa",
+        card_last_four: "4242",
+        renews_at: "2026-04-01T00:00:00.000Z",
+        ends_at: status === "active" ? null : "2026-04-01T00:00:00.000Z",
+        trial_ends_at: null,
+        created_at: "2026-02-01T00:00:00.000Z",
+        updated_at: updatedAt,
+      },
+    },
+  };
+}
+
+function buildRecord(payload: WebhookPayload, id = "evt-1") {
+  const event = toWebhookEvent(payload);
+  return {
+    id,
+    ...event,
+    resourceId: event.resourceId ?? null,
+    userId: event.userId ?? null,
+    occurredAt: event.occurredAt ?? null,
+    status: "PENDING" as const,
+    attempts: 0,
+    lastError: null,
+    processedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("toWebhookEvent", () => {
+  it("should derive the same key for redeliveries of one event", () => {
+    const payload = buildPayload(
+      "subscription_updated",
+      "2026-03-01T11:00:00.000Z",
+    );
+
+    const first = toWebhookEvent(payload);
+    const second = toWebhookEvent(structuredClone(payload));
+
+    expect(first.eventId).toBe(second.eventId);
+    expect(first.eventId).toBe(
+      "subscription_updated:subscriptions:sub-1:2026-03-01T11:00:00.000Z",
+    );
+    expect(first.occurredAt).toEqual(new Date("2026-03-01T11:00:00.000Z"));
+    expect(first.userId).toBe("user-1");
+  });
+});
+
+describe("processWebhookEvent", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.claim.mockResolvedValue(true);
+    subscription.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should not process an event claimed by another delivery", async () => {
+    repository.claim.mockResolvedValue(false);
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("busy");
+    expect(subscription.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should apply an update and advance the ordering mark", async () => {
+    subscription.findUnique.mockResolvedValue({
+      providerUpdatedAt: new Date("2026-03-01T10:00:00.000Z"),
+    });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    expect(subscription.updateMany).toHaveBeenCalledWith({
+      where: {
+        userId: "user-1",
+        OR: [
+          { providerUpdatedAt: null },
+          {
+            providerUpdatedAt: { lte: new Date("2026-03-01T11:00:00.000Z") },
+          },
+        ],
+      },
+      data: expect.objectContaining({
+        status: "ACTIVE",
+        providerUpdatedAt: new Date("2026-03-01T11:00:00.000Z"),
+      }),
+    });
+    expect(repository.complete).toHaveBeenCalledWith("evt-1", "PROCESSED");
+    expect(setUserTier).toHaveBeenCalledWith(
+      "user-1",
+      "PLUS",
+      "lemonsqueezy_subscription_updated",
+    );
+  });
+
+  it("should keep the paid tier until a cancelled subscription ends", async () => {
+    subscription.findUnique.mockResolvedValue({ providerUpdatedAt: null });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload(
+          "subscription_cancelled",
+          "2026-03-01T11:00:00.000Z",
+          "cancelled",
+        ),
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    const { data } = subscription.updateMany.mock.calls[0][0];
+    expect(data).toEqual(
+      expect.objectContaining({
+        status: "CANCELLED",
+        currentPeriodEnd: new Date("2026-04-01T00:00:00.000Z"),
+      }),
+    );
+    expect(data).not.toHaveProperty("tier");
+    expect(downgradeToFree).not.toHaveBeenCalled();
+    expect(setUserTier).not.toHaveBeenCalled();
+  });
+
+  it("should downgrade the user when a cancelled subscription expires", async () => {
+    subscription.findUnique.mockResolvedValueOnce({ providerUpdatedAt: null });
+    await processWebhookEvent(
+      buildRecord(
+        buildPayload(
+          "subscription_cancelled",
+          "2026-03-01T11:00:00.000Z",
+          "cancelled",
+        ),
+      ),
+      now,
+    );
+    subscription.findUnique.mockResolvedValueOnce({
+      providerUpdatedAt: new Date("2026-03-01T11:00:00.000Z"),
+    });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload(
+          "subscription_expired",
+          "2026-04-01T00:00:00.000Z",
+          "expired",
+        ),
+        "evt-2",
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    expect(subscription.updateMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ tier: "FREE", status: "EXPIRED" }),
+      }),
+    );
+    expect(downgradeToFree).toHaveBeenCalledTimes(1);
+    expect(downgradeToFree).toHaveBeenCalledWith(
+      "user-1",
+      "lemonsqueezy_subscription_expired",
+    );
+  });
+
+  it("should skip an update older than the last applied cancellation", async () => {
+    subscription.findUnique.mockResolvedValue({
+      providerUpdatedAt: new Date("2026-03-01T11:30:00.000Z"),
+    });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("skipped");
+    expect(subscription.updateMany).not.toHaveBeenCalled();
+    expect(setUserTier).not.toHaveBeenCalled();
+    expect(repository.complete).toHaveBeenCalledWith(
+      "evt-1",
+      "SKIPPED",
+      expect.any(String),
+    );
+  });
+
+  it("should skip when a newer event wins the conditional write", async () => {
+    subscription.findUnique.mockResolvedValue({ providerUpdatedAt: null });
+    subscription.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload(
+          "subscription_cancelled",
+          "2026-03-01T11:00:00.000Z",
+          "cancelled",
+        ),
+      ),
+      now,
+    );
+
+    expect(result).toBe("skipped");
+    expect(downgradeToFree).not.toHaveBeenCalled();
+  });
+
+  it("should create the subscription on subscription_created", async () => {
+    subscription.findUnique.mockResolvedValue(null);
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_created", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    expect(subscription.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          userId: "user-1",
+          providerSubscriptionId: "sub-1",
+          providerUpdatedAt: new Date("2026-03-01T11:00:00.000Z"),
+        }),
+      }),
+    );
+  });
+
+  it("should take over a platform free trial on subscription_created", async () => {
+    subscription.findUnique.mockResolvedValue({
+      status: "TRIALING",
+      providerUpdatedAt: null,
+    });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_created", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    expect(subscription.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "ACTIVE",
+          provider: "lemonsqueezy",
+          providerCustomerId: "2",
+          providerSubscriptionId: "sub-1",
+          trialEndsAt: null,
+        }),
+      }),
+    );
+    expect(setUserTier).toHaveBeenCalledWith(
+      "user-1",
+      "PLUS",
+      "lemonsqueezy_subscription_created",
+    );
+  });
+
+  it("should fail updates that arrive before the subscription exists", async () => {
+    subscription.findUnique.mockResolvedValue(null);
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("failed");
+    expect(repository.fail).toHaveBeenCalledWith(
+      "evt-1",
+      "Subscription not found for subscription_updated",
+    );
+  });
+
+  it("should mark a failed payment past due and email the user", async () => {
+    subscription.findUnique.mockResolvedValue({ providerUpdatedAt: null });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_payment_failed", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("processed");
+    expect(subscription.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "PAST_DUE" }),
+      }),
+    );
+    expect(sendPaymentFailedEmail).toHaveBeenCalledWith({
+      agentName: "María",
+      agentEmail: "maria@example.com",
+    });
+  });
+
+  it("should not email again for a stale failed payment", async () => {
+    subscription.findUnique.mockResolvedValue({ providerUpdatedAt: null });
+    subscription.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await processWebhookEvent(
+      buildRecord(
+        buildPayload("subscription_payment_failed", "2026-03-01T11:00:00.000Z"),
+      ),
+      now,
+    );
+
+    expect(result).toBe("skipped");
+    expect(sendPaymentFailedEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe("replayWebhookEvents", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    subscription.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should replay failed events and summarize the results", async () => {
+    repository.findReplayable.mockResolvedValue([
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:00:00.000Z"),
+        "evt-1",
+      ),
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:05:00.000Z"),
+        "evt-2",
+      ),
+      buildRecord(
+        buildPayload("subscription_updated", "2026-03-01T11:10:00.000Z"),
+        "evt-3",
+      ),
+    ]);
+    repository.claim
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    subscription.findUnique
+      .mockResolvedValueOnce({ providerUpdatedAt: null })
+      .mockResolvedValueOnce(null);
+
+    const summary = await replayWebhookEvents(now);
+
+    expect(repository.findReplayable).toHaveBeenCalledWith(now);
+    expect(summary).toEqual({ processed: 1, skipped: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Lemon Squeezy Webhook Processor
+ *
+ * Applies subscription events recorded in the webhook ledger
+ * (packages/database/src/repositories/webhook-events.ts).
+ *
+ * RULES:
+ * 1. Idempotency: Lemon Squeezy sends no event id, so the ledger key is
+ *    derived from event_name + resource + updated_at, which is identical
+ *    across redeliveries of the same event
+ * 2. Ordering: every subscription stores the updated_at of the last applied
+ *    event (providerUpdatedAt). Older events are recorded as SKIPPED and the
+ *    write itself is conditional, so a late subscription_updated can never
+ *    overwrite a newer subscription_cancelled
+ * 3. Failures stay FAILED in the ledger and are retried by
+ *    replayWebhookEvents (see app/api/cron/webhook-replay) in occurredAt order
+ * 4. Applied subscription events also sync the user's tier through the
+ *    tier-manager (downgrade grace period / restore on re-upgrade)
+ * 5. An applied subscription_payment_failed marks the subscription PAST_DUE
+ *    and emails the user to update their payment method
+ */
+
+import {
+  db,
+  type NewWebhookEvent,
+  type Prisma,
+  type SubscriptionStatus,
+  userRepository,
+  type WebhookEventRecord,
+  webhookEventRepository,
+} from "@repo/database";
+import { sendPaymentFailedEmail } from "@/lib/email/subscription-emails";
+import { getTierForVariantId } from "@/lib/payments/lemonsqueezy";
+import { downgradeToFree, setUserTier } from "@/lib/subscription/tier-manager";
+import { logger } from "@/lib/utils/logger";
+
+export const LEMONSQUEEZY_PROVIDER = "lemonsqueezy";
+
+// Webhook event types
+export type WebhookEventName =
+  | "subscription_created"
+  | "subscription_updated"
+  | "subscription_cancelled"
+  | "subscription_resumed"
+  | "subscription_expired"
+  | "subscription_payment_success"
+  | "subscription_payment_failed";
+
+// Lemon Squeezy subscription status
+type LemonSqueezyStatus =
+  | "on_trial"
+  | "active"
+  | "paused"
+  | "past_due"
+  | "unpaid"
+  | "cancelled"
+  | "expired";
+
+// Webhook payload structure
+export interface WebhookPayload {
+  meta: {
+    event_name: WebhookEventName;
+    custom_data?: {
+      user_id: string;
+    };
+  };
+  data: {
+    id: string;
+    type: string;
+    attributes: {
+      store_id: number;
+      customer_id: number;
+      order_id: number;
+      product_id: number;
+      variant_id: number;
+      status: LemonSqueezyStatus;
+      card_brand: string | null;
+      card_last_four: string | null;
+      renews_at: string | null;
+      ends_at: string | null;
+      trial_ends_at: string | null;
+      created_at: string;
+      updated_at: string;
+    };
+  };
+}
+
+type WebhookAttributes = WebhookPayload["data"]["attributes"];
+
+/**
+ * Outcome of processing one ledger event
+ * - busy: another delivery (or the replay job) holds the claim
+ */
+export type WebhookProcessResult = "processed" | "skipped" | "failed" | "busy";
+
+export interface WebhookReplaySummary {
+  /** Events applied */
+  processed: number;
+  /** Events discarded as stale (a newer event was already applied) */
+  skipped: number;
+  /** Events that failed again (retried on the next run) */
+  failed: number;
+}
+
+/**
+ * Build the ledger entry for a verified payload
+ */
+export function toWebhookEvent(payload: WebhookPayload): NewWebhookEvent {
+  const { event_name, custom_data } = payload.meta;
+  const { id, type, attributes } = payload.data;
+
+  return {
+    provider: LEMONSQUEEZY_PROVIDER,
+    eventId: `${event_name}:${type}:${id}:${attributes?.updated_at ?? ""}`,
+    eventName: event_name,
+    resourceId: id,
+    userId: custom_data?.user_id ?? null,
+    occurredAt: parseDate(attributes?.updated_at),
+    payload: payload as unknown as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Claim and apply a ledger event
+ * Never throws: failures are stored in the ledger and reported as "failed"
+ */
+export async function processWebhookEvent(
+  event: WebhookEventRecord,
+  now: Date = new Date(),
+): Promise<WebhookProcessResult> {
+  const claimed = await webhookEventRepository.claim(event.id, now);
+  if (!claimed) return "busy";
+
+  try {
+    const payload = event.payload as unknown as WebhookPayload;
+    const userId = payload.meta.custom_data?.user_id;
+
+    if (!userId) {
+      logger.error(
+        { eventId: event.eventId },
+        "[Webhook] Missing user_id in custom_data",
+      );
+      await webhookEventRepository.complete(
+        event.id,
+        "SKIPPED",
+        "Missing user_id in custom_data",
+      );
+      return "skipped";
+    }
+
+    const applied = await applyEvent(userId, payload, event.occurredAt);
+
+    if (!applied) {
+      logger.info(
+        { eventId: event.eventId, userId },
+        "[Webhook] Skipped out-of-order event",
+      );
+      await webhookEventRepository.complete(
+        event.id,
+        "SKIPPED",
+        "A newer event was already applied",
+      );
+      return "skipped";
+    }
+
+    await webhookEventRepository.complete(event.id, "PROCESSED");
+    return "processed";
+  } catch (error) {
+    logger.error(
+      { err: error, eventId: event.eventId },
+      "[Webhook] Error processing webhook event",
+    );
+    await webhookEventRepository.fail(
+      event.id,
+      error instanceof Error ? error.message : String(error),
+    );
+    return "failed";
+  }
+}
+
+/**
+ * Retry pending/failed ledger events in the order they occurred
+ *
+ * @param now - Reference time (injectable for tests)
+ */
+export async function replayWebhookEvents(
+  now: Date = new Date(),
+): Promise<WebhookReplaySummary> {
+  const summary: WebhookReplaySummary = {
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  const events = await webhookEventRepository.findReplayable(now);
+  for (const event of events) {
+    const result = await processWebhookEvent(event, now);
+    if (result === "busy") continue;
+    summary[result]++;
+  }
+
+  logger.info({ ...summary }, "[Webhook] Replay finished");
+
+  return summary;
+}
+
+/**
+ * Apply one event to the subscription
+ *
+ * @returns false if a newer event was already applied (stale event)
+ */
+async function applyEvent(
+  userId: string,
+  payload: WebhookPayload,
+  occurredAt: Date | null,
+): Promise<boolean> {
+  const { event_name } = payload.meta;
+  const { attributes, id: resourceId } = payload.data;
+
+  if (event_name === "subscription_payment_success") {
+    logger.info(`[Webhook] Payment success for user ${userId}`);
+    return true;
+  }
+
+  const current = await db.subscription.findUnique({
+    where: { userId },
+    select: { providerUpdatedAt: true },
+  });
+
+  if (isStale(current?.providerUpdatedAt ?? null, occurredAt)) {
+    return false;
+  }
+
+  // Invoice events carry the invoice's updated_at, not the subscription's:
+  // they are checked against the ordering mark but never advance it
+  const isSubscriptionEvent = payload.data.type === "subscriptions";
+  const orderingMark =
+    isSubscriptionEvent && occurredAt ? { providerUpdatedAt: occurredAt } : {};
+
+  switch (event_name) {
+    case "subscription_created": {
+      if (!current) {
+        await handleSubscriptionCreated(
+          userId,
+          resourceId,
+          attributes,
+          orderingMark,
+        );
+        await syncUserTier(userId, event_name, attributes);
+        return true;
+      }
+      const applied = await updateIfNotStale(userId, occurredAt, {
+        ...createdUpdateData(resourceId, attributes),
+        ...orderingMark,
+      });
+      if (applied) await syncUserTier(userId, event_name, attributes);
+      return applied;
+    }
+
+    case "subscription_updated":
+    case "subscription_resumed": {
+      requireSubscription(current, event_name);
+      const applied = await updateIfNotStale(userId, occurredAt, {
+        ...activeUpdateData(attributes),
+        ...orderingMark,
+      });
+      if (applied) await syncUserTier(userId, event_name, attributes);
+      return applied;
+    }
+
+    case "subscription_cancelled":
+    case "subscription_expired": {
+      requireSubscription(current, event_name);
+      const applied = await updateIfNotStale(userId, occurredAt, {
+        ...inactiveUpdateData(attributes),
+        ...orderingMark,
+      });
+      if (applied) await syncUserTier(userId, event_name, attributes);
+      return applied;
+    }
+
+    case "subscription_payment_failed": {
+      requireSubscription(current, event_name);
+      logger.warn(`[Webhook] Payment failed for user ${userId}`);
+      const applied = await updateIfNotStale(userId, occurredAt, {
+        status: "PAST_DUE",
+      });
+      if (applied) await notifyPaymentFailed(userId);
+      return applied;
+    }
+
+    default:
+      logger.warn(`[Webhook] Unhandled event: ${event_name}`);
+      return true;
+  }
+}
+
+/**
+ * Keep public.users.subscriptionTier (SSOT, see tier-manager) in sync
+ * Expired subscriptions go through downgradeToFree (grace period + notice),
+ * paid ones through setUserTier (restores listings taken by a downgrade)
+ * A cancelled subscription is paid until ends_at: Lemon Squeezy sends
+ * subscription_expired then, and that event downgrades
+ */
+async function syncUserTier(
+  userId: string,
+  eventName: WebhookEventName,
+  attributes: WebhookAttributes,
+): Promise<void> {
+  const reason = `lemonsqueezy_${eventName}`;
+  const status = mapStatus(attributes.status);
+
+  if (status === "EXPIRED") {
+    await downgradeToFree(userId, reason);
+    return;
+  }
+  if (status === "CANCELLED") return;
+
+  const tier = getTierForVariantId(String(attributes.variant_id));
+  if (tier === "FREE") return;
+
+  await setUserTier(userId, tier, reason);
+}
+
+/**
+ * Ask the user to update their payment method
+ * A failed delivery is logged by the email service and doesn't fail the event
+ */
+async function notifyPaymentFailed(userId: string): Promise<void> {
+  const user = await userRepository.findById(userId);
+  if (!user) return;
+
+  await sendPaymentFailedEmail({
+    agentName: user.name || "Agente",
+    agentEmail: user.email,
+  });
+}
+
+/**
+ * An event is stale when a strictly newer one was already applied
+ * (events sharing updated_at, like created + updated, are all applied)
+ */
+function isStale(lastApplied: Date | null, occurredAt: Date | null): boolean {
+  if (!lastApplied || !occurredAt) return false;
+  return occurredAt.getTime() < lastApplied.getTime();
+}
+
+/**
+ * Subscription events may arrive before subscription_created:
+ * fail so the replay applies them once the subscription exists
+ */
+function requireSubscription(current: unknown, eventName: string) {
+  if (!current) {
+    throw new Error(`Subscription not found for ${eventName}`);
+  }
+}
+
+/**
+ * Conditional write: only if no newer event was applied in the meantime
+ */
+async function updateIfNotStale(
+  userId: string,
+  occurredAt: Date | null,
+  data: Prisma.SubscriptionUpdateManyMutationInput,
+): Promise<boolean> {
+  const result = await db.subscription.updateMany({
+    where: {
+      userId,
+      ...(occurredAt && {
+        OR: [
+          { providerUpdatedAt: null },
+          { providerUpdatedAt: { lte: occurredAt } },
+        ],
+      }),
+    },
+    data,
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Handle subscription_created event
+ *
+ * Creates a new subscription record in our database.
+ */
+async function handleSubscriptionCreated(
+  userId: string,
+  subscriptionId: string,
+  attributes: WebhookAttributes,
+  orderingMark: { providerUpdatedAt?: Date },
+): Promise<void> {
+  const tier = getTierForVariantId(String(attributes.variant_id));
+
+  await db.subscription.upsert({
+    where: { userId },
+    create: {
+      userId,
+      tier,
+      status: mapStatus(attributes.status),
+      provider: LEMONSQUEEZY_PROVIDER,
+      providerCustomerId: String(attributes.customer_id),
+      providerSubscriptionId: subscriptionId,
+      providerProductId: String(attributes.product_id),
+      providerVariantId: String(attributes.variant_id),
+      currentPeriodEnd: parseDate(attributes.renews_at),
+      trialEndsAt: parseDate(attributes.trial_ends_at),
+      cardBrand: attributes.card_brand,
+      cardLastFour: attributes.card_last_four,
+      ...orderingMark,
+    },
+    update: {
+      ...createdUpdateData(subscriptionId, attributes),
+      ...orderingMark,
+    },
+  });
+
+  logger.info(`[Webhook] Subscription created for user ${userId}: ${tier}`);
+}
+
+/**
+ * subscription_created for an existing record (re-subscription, or a
+ * platform free trial being converted: the record becomes Lemon Squeezy's)
+ */
+function createdUpdateData(
+  subscriptionId: string,
+  attributes: WebhookAttributes,
+): Prisma.SubscriptionUpdateManyMutationInput {
+  return {
+    tier: getTierForVariantId(String(attributes.variant_id)),
+    status: mapStatus(attributes.status),
+    provider: LEMONSQUEEZY_PROVIDER,
+    providerCustomerId: String(attributes.customer_id),
+    providerSubscriptionId: subscriptionId,
+    providerProductId: String(attributes.product_id),
+    providerVariantId: String(attributes.variant_id),
+    currentPeriodEnd: parseDate(attributes.renews_at),
+    trialEndsAt: parseDate(attributes.trial_ends_at),
+    cancelledAt: null,
+    cardBrand: attributes.card_brand,
+    cardLastFour: attributes.card_last_four,
+  };
+}
+
+/**
+ * subscription_updated/resumed
+ */
+function activeUpdateData(
+  attributes: WebhookAttributes,
+): Prisma.SubscriptionUpdateManyMutationInput {
+  return {
+    tier: getTierForVariantId(String(attributes.variant_id)),
+    status: mapStatus(attributes.status),
+    currentPeriodEnd: parseDate(attributes.renews_at),
+    cardBrand: attributes.card_brand,
+    cardLastFour: attributes.card_last_four,
+    cancelledAt: null, // Clear if resumed
+  };
+}
+
+/**
+ * subscription_cancelled: keeps its tier until ends_at
+ * subscription_expired: downgrade to FREE
+ */
+function inactiveUpdateData(
+  attributes: WebhookAttributes,
+): Prisma.SubscriptionUpdateManyMutationInput {
+  const status = mapStatus(attributes.status);
+
+  return {
+    ...(status === "EXPIRED" && { tier: "FREE" }),
+    status,
+    currentPeriodEnd: parseDate(attributes.ends_at),
+    cancelledAt: new Date(),
+  };
+}
+
+/**
+ * Map Lemon Squeezy status to our internal status
+ */
+function mapStatus(lsStatus: LemonSqueezyStatus): SubscriptionStatus {
+  const statusMap: Record<LemonSqueezyStatus, SubscriptionStatus> = {
+    on_trial: "TRIALING",
+    active: "ACTIVE",
+    paused: "PAUSED",
+    past_due: "PAST_DUE",
+    unpaid: "PAST_DUE",
+    cancelled: "CANCELLED",
+    expired: "EXPIRED",
+  };
+  return statusMap[lsStatus] || "ACTIVE";
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -80,6 +80,32 @@ export function getVariantIdForTier(tier: SubscriptionTier): string {
  * @param variantId - The Lemon Squeezy variant ID
  * @returns The subscription tier or "FREE" if not found
  */
-export function getTierForVariantId(variantId: string): string {
+export function getTierForVariantId(
+	variantId: string,
+): SubscriptionTier | "FREE" {
 	return VARIANT_TO_TIER[variantId] || "FREE";
 }
+
+/**
+ * Promo code format accepted by checkout (Lemon Squeezy discount codes)
+ */
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,64}$/;
+
+/**
+ * Normalize a promo code entered by the user
+ *
+ * @param code - The promo code as typed (any case, surrounding spaces)
+ * @returns The upper-cased code, or null if none was entered
+ * @throws Error if the code has an invalid format
+ */
+export function normalizePromoCode(code: string | null | undefined): string | null {
+	const normalized = code?.trim().toUpperCase();
+
+	if (!normalized) return null;
+
+	if (!PROMO_CODE_PATTERN.test(normalized)) {
+		throw new Error(`Invalid promo code: ${normalized}`);
+	}
+
+	return normalized;
+}
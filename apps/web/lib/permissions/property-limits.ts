@@ -73,6 +73,9 @@ export function getFeaturedLimit(tier: SubscriptionTier): number | null {
 
 /**
  * Check if user can create a new property
+ * Only listings count: wizard drafts (property_drafts) are checked when
+ * createPropertyFromWizard publishes them, and ARCHIVED listings are checked
+ * again when the agent renews them (scheduled ones do count)
  * @returns Object with permission status, reason, and limits
  */
 export async function canCreateProperty(
@@ -91,7 +94,7 @@ export async function canCreateProperty(
   const limit = getPropertyLimit(user.subscriptionTier);
 
   const currentCount = await tx.property.count({
-    where: { agentId: userId },
+    where: { agentId: userId, visibility: { not: "ARCHIVED" } },
   });
 
   if (currentCount >= limit) {
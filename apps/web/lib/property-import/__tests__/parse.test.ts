@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_PROPERTY_IMPORT_ROWS,
+  parseCategory,
+  parseKyeroXml,
+  parseLocaleNumber,
+  parsePropertyFile,
+  parsePropertyRows,
+  parseTransactionType,
+  splitImageUrls,
+  validatePropertyImportRow,
+} from "../parse";
+
+const DESCRIPTION =
+  "Amplio departamento con vista al parque, cocina equipada y dos parqueaderos.";
+
+const KYERO_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<root>
+  <kyero><feed_version>3</feed_version></kyero>
+  <property>
+    <id>1001</id>
+    <ref>VM-22</ref>
+    <price>450000</price>
+    <price_freq>sale</price_freq>
+    <type>Villa</type>
+    <town>Marbella</town>
+    <province>M&#225;laga</province>
+    <location><latitude>36.51</latitude><longitude>-4.88</longitude></location>
+    <beds>4</beds>
+    <baths>3</baths>
+    <surface_area><built>320</built><plot>1200</plot></surface_area>
+    <desc><en>English description that is long enough.</en><es><![CDATA[Villa con piscina & jardín privado, a 5 minutos de la playa.]]></es></desc>
+    <images>
+      <image id="1"><url>https://cdn.example.com/1.jpg</url></image>
+      <image id="2"><url>https://cdn.example.com/2.jpg</url></image>
+    </images>
+  </property>
+  <property>
+    <id>1002</id>
+    <price>1200</price>
+    <price_freq>month</price_freq>
+    <type>Land</type>
+    <town>Nerja</town>
+    <province>Málaga</province>
+    <surface_area><plot>800</plot></surface_area>
+    <desc><en>Plot with sea views and building permission.</en></desc>
+  </property>
+</root>`;
+
+describe("parseLocaleNumber", () => {
+  it("handles thousands and decimal separators", () => {
+    expect(parseLocaleNumber("1.250.000")).toBe(1250000);
+    expect(parseLocaleNumber("1,250,000")).toBe(1250000);
+    expect(parseLocaleNumber("1.250,50")).toBe(1250.5);
+    expect(parseLocaleNumber("1,250.50")).toBe(1250.5);
+    expect(parseLocaleNumber("$ 95.000")).toBe(95000);
+    expect(parseLocaleNumber("95,5")).toBe(95.5);
+    expect(parseLocaleNumber("2.5")).toBe(2.5);
+    expect(parseLocaleNumber("-0.18")).toBe(-0.18);
+  });
+
+  it("returns undefined for empty or non-numeric values", () => {
+    expect(parseLocaleNumber("")).toBeUndefined();
+    expect(parseLocaleNumber(null)).toBeUndefined();
+    expect(parseLocaleNumber("consultar")).toBeUndefined();
+  });
+});
+
+describe("parseCategory / parseTransactionType", () => {
+  it("maps Spanish and English property types", () => {
+    expect(parseCategory("Departamento")).toBe("APARTMENT");
+    expect(parseCategory("flat")).toBe("APARTMENT");
+    expect(parseCategory("Casa adosada")).toBe("HOUSE");
+    expect(parseCategory("Penthouse")).toBe("PENTHOUSE");
+    expect(parseCategory("Local comercial")).toBe("COMMERCIAL");
+    expect(parseCategory("COUNTRY HOUSE")).toBe("FARM");
+    expect(parseCategory("office")).toBe("OFFICE");
+    expect(parseCategory("castillo")).toBeUndefined();
+  });
+
+  it("maps operation names and Kyero price frequencies", () => {
+    expect(parseTransactionType("Venta")).toBe("SALE");
+    expect(parseTransactionType("Arriendo")).toBe("RENT");
+    expect(parseTransactionType("month")).toBe("RENT");
+    expect(parseTransactionType("sale")).toBe("SALE");
+    expect(parseTransactionType("permuta")).toBeUndefined();
+  });
+});
+
+describe("splitImageUrls", () => {
+  it("splits on common separators and drops non-http values", () => {
+    expect(
+      splitImageUrls(
+        "https://a.com/1.jpg; https://a.com/2.jpg|ftp://x/3.jpg foto.jpg",
+      ),
+    ).toEqual(["https://a.com/1.jpg", "https://a.com/2.jpg"]);
+  });
+});
+
+describe("parsePropertyRows", () => {
+  it("detects columns by header and normalizes values", () => {
+    const { rows, ignoredColumns } = parsePropertyRows([
+      [
+        "Código",
+        "Título",
+        "Descripción",
+        "Precio",
+        "Operación",
+        "Tipo",
+        "Baños",
+        "Ciudad",
+        "Provincia",
+        "Fotos",
+        "Notas internas",
+      ],
+      [
+        "A-1",
+        "Departamento en La Carolina",
+        DESCRIPTION,
+        "185.000",
+        "Venta",
+        "Departamento",
+        "2,5",
+        "Quito",
+        "Pichincha",
+        "https://a.com/1.jpg https://a.com/2.jpg",
+        "no",
+      ],
+    ]);
+
+    expect(ignoredColumns).toEqual(["Notas internas"]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      rowNumber: 2,
+      reference: "A-1",
+      imageUrls: ["https://a.com/1.jpg", "https://a.com/2.jpg"],
+      data: {
+        title: "Departamento en La Carolina",
+        price: 185000,
+        transactionType: "SALE",
+        category: "APARTMENT",
+        status: "AVAILABLE",
+        bathrooms: 2.5,
+        city: "Quito",
+        state: "Pichincha",
+      },
+    });
+  });
+
+  it("keeps unrecognized values so validation reports them", () => {
+    const { rows } = parsePropertyRows([
+      ["Titulo", "Tipo", "Precio"],
+      ["Castillo medieval", "castillo", "consultar"],
+    ]);
+
+    expect(rows[0]?.data).toMatchObject({
+      category: "castillo",
+      price: "consultar",
+    });
+  });
+});
+
+describe("parseKyeroXml", () => {
+  it("parses Kyero v3 properties", () => {
+    const { rows } = parseKyeroXml(KYERO_XML);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      rowNumber: 1,
+      reference: "VM-22",
+      imageUrls: [
+        "https://cdn.example.com/1.jpg",
+        "https://cdn.example.com/2.jpg",
+      ],
+      data: {
+        title: "Villa en Marbella",
+        description:
+          "Villa con piscina & jardín privado, a 5 minutos de la playa.",
+        price: 450000,
+        transactionType: "SALE",
+        category: "VILLA",
+        bedrooms: 4,
+        bathrooms: 3,
+        area: 320,
+        city: "Marbella",
+        state: "Málaga",
+        latitude: 36.51,
+        longitude: -4.88,
+      },
+    });
+  });
+
+  it("uses the plot surface for land and falls back to English text", () => {
+    const { rows } = parseKyeroXml(KYERO_XML);
+
+    expect(rows[1]).toMatchObject({
+      reference: "1002",
+      imageUrls: [],
+      data: {
+        category: "LAND",
+        transactionType: "RENT",
+        area: 800,
+        description: "Plot with sea views and building permission.",
+      },
+    });
+  });
+
+  it("throws when the document has no properties", () => {
+    expect(() => parseKyeroXml("<root></root>")).toThrow("<property>");
+  });
+});
+
+describe("parsePropertyFile", () => {
+  it("dispatches XML files by extension", () => {
+    const data = new TextEncoder().encode(KYERO_XML);
+    expect(parsePropertyFile("feed.xml", data).rows).toHaveLength(2);
+  });
+
+  it("rejects empty files and files over the limit", () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+
+    expect(() =>
+      parsePropertyFile("vacio.csv", encode("Titulo,Precio\n")),
+    ).toThrow("no tiene propiedades");
+
+    const csv = `Titulo\n${"Casa\n".repeat(MAX_PROPERTY_IMPORT_ROWS + 1)}`;
+    expect(() => parsePropertyFile("grande.csv", encode(csv))).toThrow(
+      `Máximo ${MAX_PROPERTY_IMPORT_ROWS}`,
+    );
+  });
+});
+
+describe("validatePropertyImportRow", () => {
+  it("returns schema-validated data", () => {
+    const { rows } = parseKyeroXml(KYERO_XML);
+    const result = validatePropertyImportRow(
+      rows[0] as NonNullable<(typeof rows)[0]>,
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it("formats errors with Spanish field labels", () => {
+    const result = validatePropertyImportRow({
+      data: { title: "Casa", price: "consultar", category: "castillo" },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.some((error) => error.startsWith("Título:"))).toBe(
+        true,
+      );
+      expect(result.errors.some((error) => error.startsWith("Precio:"))).toBe(
+        true,
+      );
+      expect(
+        result.errors.some((error) => error.startsWith("Tipo de inmueble:")),
+      ).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,607 @@
+/**
+ * PROPERTY IMPORT - PARSERS
+ *
+ * Convierte archivos de otros sistemas en filas listas para validar
+ * con createPropertySchema
+ * - CSV / XLSX: una propiedad por fila, columnas detectadas por encabezado
+ * - XML: formato Kyero v3 (también lo usan Properstar y la mayoría de
+ *   portales de Latinoamérica): <root><property>…</property></root>
+ *
+ * Normaliza los valores típicos de cada fuente:
+ * - Tipo de inmueble y operación en español o inglés ("Departamento", "flat", "alquiler")
+ * - Números con separadores locales ("1.250.000", "1,250,000.50", "$ 950")
+ * - Imágenes: URLs separadas por coma, punto y coma, "|" o espacios
+ *
+ * Server-side: el parseo del XML se hace con expresiones regulares (sin DOM)
+ */
+
+import { CATEGORY_LABELS } from "@/lib/utils/property-formatters";
+import {
+  parseSpreadsheet,
+  type SpreadsheetRows,
+} from "@/lib/utils/spreadsheet";
+import {
+  type CreatePropertyInput,
+  createPropertySchema,
+} from "@/lib/validations/property";
+
+/**
+ * Máximo de propiedades por archivo
+ */
+export const MAX_PROPERTY_IMPORT_ROWS = 500;
+
+/**
+ * Máximo de imágenes que se descargan por propiedad (además del límite del plan)
+ */
+export const MAX_IMPORT_IMAGES_PER_PROPERTY = 20;
+
+/**
+ * Filas por llamada a importPropertiesAction
+ * Cada fila puede geocodificar y descargar imágenes: lotes chicos evitan timeouts
+ */
+export const PROPERTY_IMPORT_BATCH_SIZE = 5;
+
+export interface PropertyImportRow {
+  /** Fila de la hoja (1 = encabezados) o posición del <property> en el XML */
+  rowNumber: number;
+  /** Referencia del sistema de origen (para el reporte) */
+  reference: string | null;
+  /** Datos sin validar (entrada de createPropertySchema) */
+  data: Record<string, unknown>;
+  imageUrls: string[];
+}
+
+export interface ParsedPropertyFile {
+  rows: PropertyImportRow[];
+  /** Encabezados del CSV que no se reconocieron (se ignoran) */
+  ignoredColumns: string[];
+}
+
+/**
+ * Resultado por fila (reporte final de la importación)
+ * - created: propiedad creada (warnings: imágenes o geocodificación fallidas)
+ * - failed: datos inválidos o error al crear
+ * - skipped: no se intentó (límite del plan alcanzado)
+ */
+export interface PropertyImportResult {
+  rowNumber: number;
+  reference: string | null;
+  title: string | null;
+  status: "created" | "failed" | "skipped";
+  propertyId?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+type PropertyCategory = keyof typeof CATEGORY_LABELS;
+
+type ImportColumn =
+  | "reference"
+  | "title"
+  | "description"
+  | "price"
+  | "transactionType"
+  | "category"
+  | "status"
+  | "bedrooms"
+  | "bathrooms"
+  | "area"
+  | "address"
+  | "city"
+  | "state"
+  | "zipCode"
+  | "latitude"
+  | "longitude"
+  | "images";
+
+/**
+ * Encabezados reconocidos por columna (normalizados, sin tildes)
+ */
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  reference: ["referencia", "ref", "codigo", "id", "reference"],
+  title: ["titulo", "title", "nombre"],
+  description: ["descripcion", "description", "desc"],
+  price: ["precio", "price", "valor"],
+  transactionType: [
+    "operacion",
+    "tipo de operacion",
+    "negocio",
+    "transaccion",
+    "transaction",
+    "transaction type",
+  ],
+  category: [
+    "tipo",
+    "tipo de inmueble",
+    "tipo de propiedad",
+    "categoria",
+    "category",
+    "type",
+    "property type",
+  ],
+  status: ["estado", "status", "disponibilidad"],
+  bedrooms: [
+    "habitaciones",
+    "dormitorios",
+    "alcobas",
+    "recamaras",
+    "bedrooms",
+    "beds",
+  ],
+  bathrooms: ["banos", "bathrooms", "baths"],
+  area: ["area", "area m2", "superficie", "m2", "metros", "surface", "built"],
+  address: ["direccion", "address"],
+  city: ["ciudad", "city", "municipio", "town"],
+  state: ["provincia", "departamento", "region", "state", "province"],
+  zipCode: [
+    "codigo postal",
+    "cp",
+    "zip",
+    "zip code",
+    "postal code",
+    "postcode",
+  ],
+  latitude: ["latitud", "latitude", "lat"],
+  longitude: ["longitud", "longitude", "lng", "lon"],
+  images: [
+    "imagenes",
+    "fotos",
+    "images",
+    "photos",
+    "image urls",
+    "imagen",
+    "foto",
+  ],
+};
+
+/**
+ * Palabras clave por tipo de inmueble (se busca la primera coincidencia)
+ * El orden importa: "penthouse" antes que "house", "country house" antes que "house"
+ */
+const CATEGORY_KEYWORDS: [PropertyCategory, string[]][] = [
+  ["PENTHOUSE", ["penthouse", "atico"]],
+  ["DUPLEX", ["duplex"]],
+  ["LOFT", ["loft"]],
+  ["SUITE", ["suite", "studio", "estudio", "monoambiente"]],
+  ["VILLA", ["villa", "chalet", "bungalow"]],
+  [
+    "FARM",
+    [
+      "finca",
+      "hacienda",
+      "quinta",
+      "farm",
+      "country house",
+      "cortijo",
+      "rustico",
+    ],
+  ],
+  ["LAND", ["terreno", "lote", "solar", "parcela", "land", "plot"]],
+  ["WAREHOUSE", ["bodega", "galpon", "nave", "warehouse", "industrial"]],
+  ["OFFICE", ["oficina", "consultorio", "office"]],
+  ["COMMERCIAL", ["local", "comercial", "commercial", "retail", "shop"]],
+  [
+    "APARTMENT",
+    [
+      "apartamento",
+      "departamento",
+      "depto",
+      "piso",
+      "apartment",
+      "flat",
+      "condo",
+    ],
+  ],
+  ["HOUSE", ["casa", "house", "townhouse", "adosado", "home"]],
+];
+
+const STATUS_KEYWORDS: [CreatePropertyInput["status"], string[]][] = [
+  ["AVAILABLE", ["disponible", "available", "activo", "active"]],
+  ["PENDING", ["reservado", "reservada", "pendiente", "pending", "reserved"]],
+  ["SOLD", ["vendido", "vendida", "sold"]],
+  [
+    "RENTED",
+    ["arrendado", "arrendada", "alquilado", "alquilada", "rented", "let"],
+  ],
+];
+
+const RENT_KEYWORDS = [
+  "arriendo",
+  "alquiler",
+  "renta",
+  "rent",
+  "month",
+  "week",
+  "night",
+  "mensual",
+];
+const SALE_KEYWORDS = ["venta", "sale", "sell", "compra"];
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Título",
+  description: "Descripción",
+  price: "Precio",
+  transactionType: "Operación",
+  category: "Tipo de inmueble",
+  status: "Estado",
+  bedrooms: "Habitaciones",
+  bathrooms: "Baños",
+  area: "Área",
+  address: "Dirección",
+  city: "Ciudad",
+  state: "Provincia",
+  zipCode: "Código postal",
+  latitude: "Latitud",
+  longitude: "Longitud",
+};
+
+// ============================================
+// NORMALIZACIÓN
+// ============================================
+
+/**
+ * Minúsculas, sin tildes y sin signos ("Baños (m²)" → "banos m2")
+ */
+export function normalizeImportKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/²/g, "2")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function matchesKeyword(value: string, keywords: string[]): boolean {
+  const normalized = ` ${normalizeImportKey(value)} `;
+  return keywords.some((keyword) => normalized.includes(` ${keyword} `));
+}
+
+/**
+ * Número con separadores locales
+ * - "1.250.000" / "1,250,000" → 1250000 (separador de miles repetido)
+ * - "1.250,50" / "1,250.50" → 1250.5 (el último separador es el decimal)
+ * - "95,5" → 95.5 (un solo separador sin 3 dígitos después → decimal)
+ *
+ * @returns undefined si está vacío o no es un número
+ */
+export function parseLocaleNumber(
+  value: string | null | undefined,
+): number | undefined {
+  const cleaned = value?.replace(/[^\d.,-]/g, "") ?? "";
+  if (!/\d/.test(cleaned)) return undefined;
+
+  const lastDot = cleaned.lastIndexOf(".");
+  const lastComma = cleaned.lastIndexOf(",");
+  let normalized: string;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    normalized = cleaned.split(thousands).join("").replace(decimal, ".");
+  } else {
+    const separator = lastDot !== -1 ? "." : lastComma !== -1 ? "," : null;
+    if (!separator) {
+      normalized = cleaned;
+    } else {
+      const parts = cleaned.split(separator);
+      const isThousands =
+        parts.length > 2 ||
+        (parts[parts.length - 1]?.length === 3 && parts[0] !== "0");
+      normalized = isThousands ? parts.join("") : parts.join(".");
+    }
+  }
+
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function parseCategory(
+  value: string | null | undefined,
+): PropertyCategory | undefined {
+  if (!value?.trim()) return undefined;
+
+  const upper = value.trim().toUpperCase();
+  if (upper in CATEGORY_LABELS) return upper as PropertyCategory;
+
+  return CATEGORY_KEYWORDS.find(([, keywords]) =>
+    matchesKeyword(value, keywords),
+  )?.[0];
+}
+
+export function parseTransactionType(
+  value: string | null | undefined,
+): "SALE" | "RENT" | undefined {
+  if (!value?.trim()) return undefined;
+  if (matchesKeyword(value, RENT_KEYWORDS)) return "RENT";
+  if (matchesKeyword(value, SALE_KEYWORDS)) return "SALE";
+  return undefined;
+}
+
+function parseStatus(
+  value: string | null | undefined,
+): CreatePropertyInput["status"] | undefined {
+  if (!value?.trim()) return undefined;
+  const upper = value.trim().toUpperCase();
+  const direct = STATUS_KEYWORDS.find(([status]) => status === upper);
+  if (direct) return direct[0];
+  return STATUS_KEYWORDS.find(([, keywords]) =>
+    matchesKeyword(value, keywords),
+  )?.[0];
+}
+
+/**
+ * Separar una celda con varias URLs de imágenes
+ */
+export function splitImageUrls(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(/[\s,;|]+/)
+    .map((url) => url.trim())
+    .filter((url) => /^https?:\/\//i.test(url))
+    .slice(0, MAX_IMPORT_IMAGES_PER_PROPERTY);
+}
+
+/**
+ * Título por defecto cuando la fuente no trae uno (Kyero no tiene título)
+ * "Villa en Marbella"
+ */
+function defaultTitle(
+  category: PropertyCategory | undefined,
+  city: string | undefined,
+) {
+  if (!category) return undefined;
+  const label = CATEGORY_LABELS[category];
+  return city ? `${label} en ${city}` : label;
+}
+
+/**
+ * Campos comunes → entrada de createPropertySchema
+ * Los vacíos quedan undefined (opcionales en el schema)
+ */
+function buildPropertyData(
+  fields: Partial<Record<ImportColumn, string | null>>,
+) {
+  const text = (value: string | null | undefined) => value?.trim() || undefined;
+  const category = parseCategory(fields.category);
+  const city = text(fields.city);
+
+  // Valores que no se pudieron interpretar se pasan tal cual para que el
+  // schema reporte el error (ej. "Tipo de inmueble inválido")
+  return {
+    title: text(fields.title) ?? defaultTitle(category, city),
+    description: text(fields.description),
+    price: parseLocaleNumber(fields.price) ?? text(fields.price),
+    transactionType:
+      parseTransactionType(fields.transactionType) ??
+      text(fields.transactionType) ??
+      "SALE",
+    category: category ?? text(fields.category),
+    status: parseStatus(fields.status) ?? "AVAILABLE",
+    bedrooms: parseLocaleNumber(fields.bedrooms),
+    bathrooms: parseLocaleNumber(fields.bathrooms),
+    area: parseLocaleNumber(fields.area),
+    address: text(fields.address),
+    city,
+    state: text(fields.state),
+    zipCode: text(fields.zipCode),
+    latitude: parseLocaleNumber(fields.latitude),
+    longitude: parseLocaleNumber(fields.longitude),
+  };
+}
+
+// ============================================
+// CSV / XLSX
+// ============================================
+
+/**
+ * Filas de una hoja (la primera fila son los encabezados)
+ */
+export function parsePropertyRows(sheet: SpreadsheetRows): ParsedPropertyFile {
+  const [headers = [], ...dataRows] = sheet;
+  const columns = new Map<ImportColumn, number>();
+  const ignoredColumns: string[] = [];
+
+  headers.forEach((header, index) => {
+    const key = normalizeImportKey(header);
+    const column = (Object.keys(COLUMN_ALIASES) as ImportColumn[]).find(
+      (candidate) =>
+        !columns.has(candidate) && COLUMN_ALIASES[candidate].includes(key),
+    );
+    if (column) {
+      columns.set(column, index);
+    } else if (header.trim()) {
+      ignoredColumns.push(header.trim());
+    }
+  });
+
+  const rows = dataRows.map((row, index) => {
+    const fields = Object.fromEntries(
+      [...columns].map(([column, columnIndex]) => [
+        column,
+        row[columnIndex] ?? null,
+      ]),
+    ) as Partial<Record<ImportColumn, string | null>>;
+
+    return {
+      rowNumber: index + 2,
+      reference: fields.reference?.trim() || null,
+      data: buildPropertyData(fields),
+      imageUrls: splitImageUrls(fields.images),
+    };
+  });
+
+  return { rows, ignoredColumns };
+}
+
+// ============================================
+// XML (Kyero v3)
+// ============================================
+
+function unescapeXmlText(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1] ?? "";
+
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Contenido de todos los elementos <tag> (sin anidar el mismo tag)
+ */
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map((match) => match[1] ?? "");
+}
+
+function xmlText(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = current !== undefined ? xmlElements(current, tag)[0] : undefined;
+  }
+  if (current === undefined) return null;
+  const text = unescapeXmlText(current).trim();
+  return text || null;
+}
+
+/**
+ * Texto multi-idioma de Kyero: <desc><es>…</es><en>…</en></desc>
+ * Prefiere español, luego inglés, luego el primer idioma disponible
+ */
+function xmlLocalizedText(xml: string, tag: string): string | null {
+  const element = xmlElements(xml, tag)[0];
+  if (element === undefined) return null;
+
+  for (const lang of ["es", "en"]) {
+    const text = xmlText(element, lang);
+    if (text) return text;
+  }
+
+  const firstChild = element.match(/<([a-z]{2})(?:\s[^>]*)?>([\s\S]*?)<\/\1>/i);
+  if (firstChild?.[2] !== undefined) {
+    return unescapeXmlText(firstChild[2]).trim() || null;
+  }
+
+  return unescapeXmlText(element).trim() || null;
+}
+
+/**
+ * Feed XML estilo Kyero v3
+ * @throws Error si el archivo no contiene elementos <property>
+ */
+export function parseKyeroXml(xml: string): ParsedPropertyFile {
+  const properties = xmlElements(xml, "property");
+
+  if (properties.length === 0) {
+    throw new Error("El XML no contiene propiedades (<property>)");
+  }
+
+  const rows = properties.map((property, index) => {
+    const location = xmlElements(property, "location")[0] ?? "";
+    const images = xmlElements(property, "images")[0] ?? "";
+    const surface = xmlElements(property, "surface_area")[0] ?? "";
+    const category = xmlText(property, "type");
+
+    const fields: Partial<Record<ImportColumn, string | null>> = {
+      reference: xmlText(property, "ref") ?? xmlText(property, "id"),
+      title: xmlLocalizedText(property, "title"),
+      description: xmlLocalizedText(property, "desc"),
+      price: xmlText(property, "price"),
+      transactionType: xmlText(property, "price_freq") ?? "sale",
+      category,
+      status: xmlText(property, "status"),
+      bedrooms: xmlText(property, "beds"),
+      bathrooms: xmlText(property, "baths"),
+      // Terrenos: superficie del lote; resto: construida
+      area:
+        parseCategory(category) === "LAND"
+          ? (xmlText(surface, "plot") ?? xmlText(surface, "built"))
+          : (xmlText(surface, "built") ?? xmlText(surface, "plot")),
+      address:
+        xmlText(property, "location_detail") ?? xmlText(property, "address"),
+      city: xmlText(property, "town"),
+      state: xmlText(property, "province"),
+      zipCode: xmlText(property, "postcode"),
+      latitude: xmlText(location, "latitude"),
+      longitude: xmlText(location, "longitude"),
+    };
+
+    return {
+      rowNumber: index + 1,
+      reference: fields.reference ?? null,
+      data: buildPropertyData(fields),
+      imageUrls: splitImageUrls(
+        xmlElements(images, "image")
+          .map(
+            (image) => xmlText(image, "url") ?? unescapeXmlText(image).trim(),
+          )
+          .join(" "),
+      ),
+    };
+  });
+
+  return { rows, ignoredColumns: [] };
+}
+
+// ============================================
+// ENTRADA
+// ============================================
+
+/**
+ * Leer un archivo de importación según su extensión (.csv, .xlsx o .xml)
+ * @throws Error si el formato no es soportado, está dañado o excede el máximo
+ */
+export function parsePropertyFile(
+  fileName: string,
+  data: Uint8Array,
+): ParsedPropertyFile {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  const parsed =
+    extension === "xml"
+      ? parseKyeroXml(new TextDecoder("utf-8").decode(data))
+      : parsePropertyRows(parseSpreadsheet(fileName, data));
+
+  if (parsed.rows.length === 0) {
+    throw new Error("El archivo no tiene propiedades");
+  }
+  if (parsed.rows.length > MAX_PROPERTY_IMPORT_ROWS) {
+    throw new Error(
+      `Máximo ${MAX_PROPERTY_IMPORT_ROWS} propiedades por importación`,
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Validar una fila con createPropertySchema
+ * @returns Los datos validados o los errores en español ("Precio: …")
+ */
+export function validatePropertyImportRow(
+  row: Pick<PropertyImportRow, "data">,
+):
+  | { success: true; data: CreatePropertyInput }
+  | { success: false; errors: string[] } {
+  const result = createPropertySchema.safeParse(row.data);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const { formErrors, fieldErrors } = result.error.flatten();
+  const errors = [
+    ...formErrors,
+    ...Object.entries(fieldErrors).flatMap(([field, messages]) =>
+      (messages ?? []).map(
+        (message) => `${FIELD_LABELS[field] ?? field}: ${message}`,
+      ),
+    ),
+  ];
+
+  return { success: false, errors };
+}
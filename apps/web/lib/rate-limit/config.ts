@@ -16,6 +16,7 @@ export type RateLimitTier =
   | "auth" // Login/Signup - strictest (IP-based)
   | "ai-search" // AI Search - expensive operations (user-based)
   | "property-create" // Property creation (user-based)
+  | "property-import" // Bulk property import batches (user-based)
   | "appointment" // Appointment booking (user-based)
   | "favorite" // Toggle favorites (user-based)
   | "default"; // Fallback
@@ -61,6 +62,14 @@ export const RATE_LIMIT_CONFIGS: Record<RateLimitTier, RateLimitConfig> = {
     description: "50 propiedades por día",
   },
 
+  // Property import: One request per batch of rows
+  // User-based, the plan limit still applies per property
+  "property-import": {
+    limit: 100,
+    window: "1 h",
+    description: "100 lotes de importación por hora",
+  },
+
   // Appointments: Reasonable booking limit
   // User-based for fair access
   appointment: {
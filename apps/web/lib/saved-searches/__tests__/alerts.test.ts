@@ -0,0 +1,150 @@
+/**
+ * TESTS - Saved Search Alerts Digest
+ *
+ * - Un solo email por usuario con las propiedades de todas sus búsquedas
+ * - La ventana avanza (markNotified) aunque no haya propiedades nuevas
+ * - Si el email falla la ventana no avanza y el resto de usuarios sigue
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const repository = vi.hoisted(() => ({
+  findDueForDigest: vi.fn(),
+  findNewListings: vi.fn(),
+  markNotified: vi.fn(),
+}));
+
+vi.mock("@repo/database", () => ({
+  savedSearchRepository: repository,
+}));
+
+vi.mock("@/lib/email/saved-search-emails", () => ({
+  sendSavedSearchDigestEmail: vi.fn(),
+}));
+
+import { sendSavedSearchDigestEmail } from "@/lib/email/saved-search-emails";
+import { sendSavedSearchDigests } from "../alerts";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+const ana = { id: "user-1", name: "Ana", email: "ana@example.com" };
+const luis = { id: "user-2", name: null, email: "luis@example.com" };
+
+function buildSearch(id: string, user: typeof ana | typeof luis) {
+  return {
+    id,
+    userId: user.id,
+    name: `Búsqueda ${id}`,
+    filters: {},
+    bounds: null,
+    alertsEnabled: true,
+    lastNotifiedAt: null,
+    createdAt: new Date("2026-02-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-02-01T00:00:00.000Z"),
+    user,
+  };
+}
+
+const listing = {
+  id: "prop-1",
+  title: "Casa con jardín",
+  price: 150000,
+  transactionType: "SALE" as const,
+  category: "HOUSE" as const,
+  city: "Cuenca",
+};
+
+describe("sendSavedSearchDigests", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.findNewListings.mockResolvedValue([]);
+    vi.mocked(sendSavedSearchDigestEmail).mockResolvedValue({
+      success: true,
+      emailId: "email-1",
+    });
+  });
+
+  it("should only load searches without a digest in the last day", async () => {
+    repository.findDueForDigest.mockResolvedValue([]);
+
+    await sendSavedSearchDigests(now);
+
+    expect(repository.findDueForDigest).toHaveBeenCalledWith(
+      new Date("2026-02-28T12:00:00.000Z"),
+    );
+  });
+
+  it("should send one email per user with the listings of all their searches", async () => {
+    repository.findDueForDigest.mockResolvedValue([
+      buildSearch("search-1", ana),
+      buildSearch("search-2", ana),
+    ]);
+    repository.findNewListings.mockResolvedValue([listing]);
+
+    const summary = await sendSavedSearchDigests(now);
+
+    expect(sendSavedSearchDigestEmail).toHaveBeenCalledTimes(1);
+    expect(sendSavedSearchDigestEmail).toHaveBeenCalledWith({
+      userName: "Ana",
+      userEmail: "ana@example.com",
+      listings: [
+        {
+          ...listing,
+          searchNames: ["Búsqueda search-1", "Búsqueda search-2"],
+        },
+      ],
+    });
+    expect(repository.markNotified).toHaveBeenCalledWith(
+      ["search-1", "search-2"],
+      now,
+    );
+    expect(summary).toEqual({ searches: 2, sent: 1, failed: 0 });
+  });
+
+  it("should advance the window without emailing when nothing is new", async () => {
+    repository.findDueForDigest.mockResolvedValue([
+      buildSearch("search-1", ana),
+    ]);
+
+    const summary = await sendSavedSearchDigests(now);
+
+    expect(sendSavedSearchDigestEmail).not.toHaveBeenCalled();
+    expect(repository.markNotified).toHaveBeenCalledWith(["search-1"], now);
+    expect(summary.sent).toBe(0);
+  });
+
+  it("should keep the window of a failed user and continue with the rest", async () => {
+    repository.findDueForDigest.mockResolvedValue([
+      buildSearch("search-1", ana),
+      buildSearch("search-2", luis),
+    ]);
+    repository.findNewListings
+      .mockRejectedValueOnce(new Error("db down"))
+      .mockResolvedValueOnce([listing]);
+
+    const summary = await sendSavedSearchDigests(now);
+
+    expect(repository.markNotified).toHaveBeenCalledTimes(1);
+    expect(repository.markNotified).toHaveBeenCalledWith(["search-2"], now);
+    expect(sendSavedSearchDigestEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ userName: "Usuario" }),
+    );
+    expect(summary).toEqual({ searches: 2, sent: 1, failed: 1 });
+  });
+
+  it("should not advance the window when the email fails", async () => {
+    repository.findDueForDigest.mockResolvedValue([
+      buildSearch("search-1", ana),
+    ]);
+    repository.findNewListings.mockResolvedValue([listing]);
+    vi.mocked(sendSavedSearchDigestEmail).mockResolvedValue({
+      success: false,
+      error: "Email delivery failed",
+    });
+
+    const summary = await sendSavedSearchDigests(now);
+
+    expect(repository.markNotified).not.toHaveBeenCalled();
+    expect(summary.failed).toBe(1);
+  });
+});
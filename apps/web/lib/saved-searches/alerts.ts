@@ -0,0 +1,135 @@
+/**
+ * SAVED SEARCH ALERTS
+ *
+ * Digest periódico de propiedades nuevas para las búsquedas guardadas
+ * con alertas activas (app/api/cron/saved-search-alerts)
+ *
+ * FLUJO:
+ * 1. Búsquedas sin digest en las últimas SAVED_SEARCH_DIGEST_HOURS horas
+ * 2. Propiedades publicadas desde su último digest (o desde que se creó)
+ *    que coinciden con sus filtros
+ * 3. Un email por usuario con las propiedades de todas sus búsquedas
+ * 4. markNotified(now): el siguiente digest empieza desde ahí
+ *
+ * REGLAS:
+ * 1. Un solo email por usuario aunque coincidan varias búsquedas
+ * 2. El agente que publica nunca recibe alerta de su propia propiedad
+ * 3. Si el email falla la ventana no avanza: se reintenta en la próxima ejecución
+ * 4. Un usuario con error no interrumpe el resto del digest
+ */
+
+import {
+  type SavedSearchForDigest,
+  type SavedSearchListing,
+  savedSearchRepository,
+} from "@repo/database";
+import { sendSavedSearchDigestEmail } from "@/lib/email/saved-search-emails";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Frecuencia máxima del digest por búsqueda
+ */
+export const SAVED_SEARCH_DIGEST_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SavedSearchDigestSummary {
+  /** Búsquedas revisadas */
+  searches: number;
+  /** Emails enviados (uno por usuario) */
+  sent: number;
+  /** Usuarios con error: se reintentarán en la próxima ejecución */
+  failed: number;
+}
+
+type DigestListing = SavedSearchListing & { searchNames: string[] };
+
+/**
+ * Enviar el digest de las búsquedas guardadas que les toca
+ *
+ * @param now - Hora de referencia (inyectable para tests)
+ */
+export async function sendSavedSearchDigests(
+  now: Date = new Date(),
+): Promise<SavedSearchDigestSummary> {
+  const summary: SavedSearchDigestSummary = {
+    searches: 0,
+    sent: 0,
+    failed: 0,
+  };
+
+  const notifiedBefore = new Date(
+    now.getTime() - SAVED_SEARCH_DIGEST_HOURS * HOUR_MS,
+  );
+  const due = await savedSearchRepository.findDueForDigest(notifiedBefore);
+  summary.searches = due.length;
+
+  // Agrupar por usuario → un email por usuario
+  const byUser = new Map<string, SavedSearchForDigest[]>();
+  for (const search of due) {
+    const group = byUser.get(search.userId) ?? [];
+    group.push(search);
+    byUser.set(search.userId, group);
+  }
+
+  for (const [userId, searches] of byUser) {
+    const searchIds = searches.map((search) => search.id);
+
+    try {
+      const listings = await collectNewListings(searches, now);
+
+      if (listings.length > 0) {
+        const user = searches[0]?.user;
+        if (!user) continue;
+
+        const result = await sendSavedSearchDigestEmail({
+          userName: user.name || "Usuario",
+          userEmail: user.email,
+          listings,
+        });
+
+        if (!result.success) {
+          summary.failed++;
+          continue;
+        }
+
+        summary.sent++;
+      }
+
+      await savedSearchRepository.markNotified(searchIds, now);
+    } catch (error) {
+      logger.error(
+        { err: error, userId },
+        "[SavedSearch] Failed to send saved search digest",
+      );
+      summary.failed++;
+    }
+  }
+
+  logger.info({ ...summary }, "[SavedSearch] Digest run finished");
+
+  return summary;
+}
+
+/**
+ * Propiedades nuevas de todas las búsquedas de un usuario, sin repetir
+ * (una propiedad que coincide con varias búsquedas aparece una vez)
+ */
+async function collectNewListings(
+  searches: SavedSearchForDigest[],
+  now: Date,
+): Promise<DigestListing[]> {
+  const listings = new Map<string, DigestListing>();
+
+  for (const search of searches) {
+    const matches = await savedSearchRepository.findNewListings(search, now);
+
+    for (const match of matches) {
+      const listing = listings.get(match.id) ?? { ...match, searchNames: [] };
+      listing.searchNames.push(search.name);
+      listings.set(match.id, listing);
+    }
+  }
+
+  return [...listings.values()];
+}
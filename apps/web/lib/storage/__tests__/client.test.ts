@@ -0,0 +1,233 @@
+/**
+ * TESTS - uploadPropertyImageFromUrl
+ *
+ * - Cada host (y cada redirección) se resuelve y se validan TODAS sus IPs
+ * - La conexión usa las IPs validadas (una segunda resolución no cuenta)
+ * - IPs internas escritas en decimal/octal/abreviadas se bloquean
+ * - El cuerpo se corta al pasar de 5MB aunque no haya content-length
+ */
+
+import type { LookupFunction } from "node:net";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.unmock("@/lib/storage/client");
+
+const { lookup, fetchMock, agentOptions } = vi.hoisted(() => ({
+  lookup: vi.fn(),
+  fetchMock: vi.fn(),
+  agentOptions: [] as { connect: { lookup: LookupFunction } }[],
+}));
+
+vi.mock("node:dns/promises", () => ({ default: { lookup }, lookup }));
+
+vi.mock("undici", () => ({
+  fetch: fetchMock,
+  Agent: class {
+    constructor(options: { connect: { lookup: LookupFunction } }) {
+      agentOptions.push(options);
+    }
+    destroy = vi.fn();
+  },
+}));
+
+import { createClient } from "@/lib/supabase/server";
+import { uploadPropertyImageFromUrl } from "../client";
+
+const MAX_SIZE = 5 * 1024 * 1024;
+
+const upload = vi.fn();
+
+function imageResponse(body: BodyInit, headers: Record<string, string> = {}) {
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "image/png", ...headers },
+  });
+}
+
+function redirectResponse(location: string) {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+/**
+ * Dirección a la que conectaría el Agent para `hostname`
+ */
+function connectAddress(hostname: string) {
+  const options = agentOptions.at(-1);
+  if (!options) throw new Error("Agent not created");
+
+  return new Promise<string>((resolve, reject) => {
+    options.connect.lookup(hostname, {}, (err, address) => {
+      if (err) reject(err);
+      else resolve(address as string);
+    });
+  });
+}
+
+/**
+ * Cuerpo sin content-length que entrega `chunks` trozos de 1MB
+ */
+function streamOf(chunks: number) {
+  let sent = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent === chunks) {
+        controller.close();
+        return;
+      }
+      sent++;
+      controller.enqueue(new Uint8Array(1024 * 1024));
+    },
+  });
+}
+
+describe("uploadPropertyImageFromUrl", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agentOptions.length = 0;
+    lookup.mockResolvedValue([{ address: "93.184.216.34", family: 4 }]);
+    upload.mockResolvedValue({
+      data: { path: "prop-1/image.png" },
+      error: null,
+    });
+    vi.mocked(createClient).mockResolvedValue({
+      storage: {
+        from: () => ({
+          upload,
+          getPublicUrl: () => ({
+            data: { publicUrl: "https://cdn.example.com/prop-1/image.png" },
+          }),
+        }),
+      },
+    } as unknown as Awaited<ReturnType<typeof createClient>>);
+  });
+
+  it("should download a public image and upload it to storage", async () => {
+    fetchMock.mockResolvedValue(imageResponse("png"));
+
+    const url = await uploadPropertyImageFromUrl(
+      "https://images.example.com/a.png",
+      "prop-1",
+    );
+
+    expect(lookup).toHaveBeenCalledWith("images.example.com", {
+      all: true,
+      verbatim: true,
+    });
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(url).toBe("https://cdn.example.com/prop-1/image.png");
+  });
+
+  it.each([
+    "http://2130706433/a.png",
+    "http://0177.0.0.1/a.png",
+    "http://127.1/a.png",
+    "http://[::ffff:127.0.0.1]/a.png",
+    "http://[fd00::1]/a.png",
+  ])("should block the internal address %s", async (url) => {
+    lookup.mockImplementation(async (host: string) => [
+      { address: host, family: host.includes(":") ? 6 : 4 },
+    ]);
+
+    await expect(uploadPropertyImageFromUrl(url, "prop-1")).rejects.toThrow(
+      "URL de imagen no permitida",
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should block a host when any of its addresses is private", async () => {
+    lookup.mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ]);
+
+    await expect(
+      uploadPropertyImageFromUrl("https://images.example.com/a.png", "prop-1"),
+    ).rejects.toThrow("URL de imagen no permitida");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should resolve and check the host of every redirect", async () => {
+    lookup
+      .mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }])
+      .mockResolvedValueOnce([{ address: "169.254.169.254", family: 4 }]);
+    fetchMock.mockResolvedValueOnce(
+      redirectResponse("http://metadata.example.com/latest"),
+    );
+
+    await expect(
+      uploadPropertyImageFromUrl("https://images.example.com/a.png", "prop-1"),
+    ).rejects.toThrow("URL de imagen no permitida");
+    expect(lookup).toHaveBeenLastCalledWith("metadata.example.com", {
+      all: true,
+      verbatim: true,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should connect to the validated address when the host rebinds to a private IP", async () => {
+    lookup
+      .mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }])
+      .mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+    let connectedTo = "";
+    fetchMock.mockImplementation(async () => {
+      connectedTo = await connectAddress("images.example.com");
+      return imageResponse("png");
+    });
+
+    await uploadPropertyImageFromUrl(
+      "https://images.example.com/a.png",
+      "prop-1",
+    );
+
+    expect(connectedTo).toBe("93.184.216.34");
+    expect(lookup).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://images.example.com/a.png",
+      expect.objectContaining({ dispatcher: expect.anything() }),
+    );
+  });
+
+  it("should pin every redirect hop to its own validated addresses", async () => {
+    lookup
+      .mockResolvedValueOnce([{ address: "93.184.216.34", family: 4 }])
+      .mockResolvedValueOnce([{ address: "93.184.216.35", family: 4 }])
+      .mockResolvedValue([{ address: "10.0.0.5", family: 4 }]);
+    let connectedTo = "";
+    fetchMock
+      .mockResolvedValueOnce(redirectResponse("https://cdn.example.org/a.png"))
+      .mockImplementationOnce(async () => {
+        connectedTo = await connectAddress("cdn.example.org");
+        return imageResponse("png");
+      });
+
+    await uploadPropertyImageFromUrl(
+      "https://images.example.com/a.png",
+      "prop-1",
+    );
+
+    expect(connectedTo).toBe("93.184.216.35");
+    await expect(connectAddress("other.example.net")).rejects.toThrow(
+      "Host no validado",
+    );
+  });
+
+  it("should stop reading a body over 5MB without content-length", async () => {
+    fetchMock.mockResolvedValue(imageResponse(streamOf(6)));
+
+    await expect(
+      uploadPropertyImageFromUrl("https://images.example.com/a.png", "prop-1"),
+    ).rejects.toThrow("La imagen no puede exceder 5MB");
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it("should reject a declared content-length over 5MB", async () => {
+    fetchMock.mockResolvedValue(
+      imageResponse("png", { "content-length": String(MAX_SIZE + 1) }),
+    );
+
+    await expect(
+      uploadPropertyImageFromUrl("https://images.example.com/a.png", "prop-1"),
+    ).rejects.toThrow("La imagen no puede exceder 5MB");
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
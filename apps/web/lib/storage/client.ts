@@ -5,6 +5,11 @@
  * en Supabase Storage
  */
 
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { Agent, fetch } from "undici";
 import { createClient } from "@/lib/supabase/server";
 import { logger } from "@/lib/utils/logger";
 
@@ -64,6 +69,228 @@ export async function uploadPropertyImage(
   return publicUrlData.publicUrl;
 }
 
+/**
+ * Descarga una imagen remota y la sube a Supabase Storage
+ * Usado por la importación masiva (las URLs vienen del feed del agente)
+ *
+ * SECURITY:
+ * - Solo http(s) y hosts públicos: se resuelve el DNS y se valida cada
+ *   dirección (bloquea localhost, rangos privados y formas alternativas de IP)
+ * - La conexión va a las IPs validadas, sin volver a resolver el host
+ *   (evita DNS rebinding)
+ * - Redirecciones seguidas manualmente para revalidar cada host
+ * - El cuerpo se lee en streaming y se corta al pasar de 5MB
+ *   (no se confía en content-length)
+ * - Mismas validaciones que uploadPropertyImage (image/*, 5MB)
+ *
+ * @param url - URL pública de la imagen
+ * @param propertyId - ID de la propiedad
+ * @returns URL pública de la imagen en Storage
+ */
+export async function uploadPropertyImageFromUrl(
+  url: string,
+  propertyId: string,
+): Promise<string> {
+  const MAX_SIZE = 5 * 1024 * 1024; // 5MB
+  const MAX_REDIRECTS = 3;
+
+  // One deadline for every hop and the body download
+  const signal = AbortSignal.timeout(15_000);
+
+  // Validated addresses per host: the connection never resolves DNS again
+  const pinned = new Map<string, LookupAddress[]>();
+  const dispatcher = new Agent({ connect: { lookup: pinnedLookup(pinned) } });
+
+  try {
+    let currentUrl = url;
+    let response: Awaited<ReturnType<typeof fetch>> | null = null;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const resolved = await resolvePublicHost(currentUrl);
+      if (!resolved) {
+        throw new Error("URL de imagen no permitida");
+      }
+      pinned.set(resolved.host, resolved.addresses);
+
+      response = await fetch(currentUrl, {
+        redirect: "manual",
+        signal,
+        dispatcher,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+      await response.body?.cancel();
+      currentUrl = new URL(location, currentUrl).toString();
+      response = null;
+    }
+
+    if (!response?.ok || !response.body) {
+      throw new Error("No se pudo descargar la imagen");
+    }
+
+    const contentType =
+      response.headers.get("content-type")?.split(";")[0] ?? "";
+    if (!contentType.startsWith("image/")) {
+      await response.body.cancel();
+      throw new Error("El archivo debe ser una imagen");
+    }
+
+    if (Number(response.headers.get("content-length") ?? 0) > MAX_SIZE) {
+      await response.body.cancel();
+      throw new Error("La imagen no puede exceder 5MB");
+    }
+
+    const chunks = await readBodyWithLimit(response.body, MAX_SIZE);
+    const extension =
+      contentType.split("/")[1]?.replace("jpeg", "jpg") || "jpg";
+    const file = new File(chunks, `import.${extension}`, { type: contentType });
+
+    return uploadPropertyImage(file, propertyId);
+  } finally {
+    await dispatcher.destroy();
+  }
+}
+
+/**
+ * lookup para el Agent de undici: devuelve solo las IPs ya validadas del
+ * host y falla para cualquier host que no pasó por resolvePublicHost
+ */
+function pinnedLookup(pinned: Map<string, LookupAddress[]>): LookupFunction {
+  return (hostname, options, callback) => {
+    const addresses = pinned.get(hostname.toLowerCase());
+    const first = addresses?.[0];
+
+    if (!addresses || !first) {
+      callback(
+        Object.assign(new Error(`Host no validado: ${hostname}`), {
+          code: "ENOTFOUND",
+        }),
+        "",
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+    callback(null, first.address, first.family);
+  };
+}
+
+/**
+ * Lee el cuerpo de la respuesta contando bytes
+ * Cancela la descarga en cuanto supera `maxSize`
+ */
+async function readBodyWithLimit(
+  body: WebReadableStream<Uint8Array<ArrayBuffer>>,
+  maxSize: number,
+): Promise<Uint8Array<ArrayBuffer>[]> {
+  const reader = body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error("La imagen no puede exceder 5MB");
+    }
+    chunks.push(value);
+  }
+
+  return chunks;
+}
+
+/**
+ * Rangos que nunca se descargan: loopback, privados, link-local, CGNAT,
+ * multicast/reservados y sus equivalentes IPv6
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.0.0.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("198.18.0.0", 15, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("224.0.0.0", 3, "ipv4");
+BLOCKED_ADDRESSES.addAddress("::", "ipv6");
+BLOCKED_ADDRESSES.addAddress("::1", "ipv6");
+BLOCKED_ADDRESSES.addSubnet("64:ff9b::", 96, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * IP pública (una IPv4-mapped IPv6 se valida como su IPv4)
+ */
+function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * URL http(s) a un host público
+ * Resuelve el host y exige que TODAS sus direcciones sean públicas: cubre
+ * IPs escritas en decimal, octal o abreviadas y nombres que apuntan a
+ * rangos internos. Devuelve las direcciones validadas para conectar a ellas
+ */
+async function resolvePublicHost(
+  value: string,
+): Promise<{ host: string; addresses: LookupAddress[] } | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal")
+  ) {
+    return null;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return null;
+  }
+
+  if (
+    addresses.length === 0 ||
+    !addresses.every(({ address }) => isPublicAddress(address))
+  ) {
+    return null;
+  }
+
+  return { host, addresses };
+}
+
 /**
  * Elimina una imagen de Supabase Storage
  *
@@ -1,3 +1,4 @@
+import type { PropertyDraftData } from "@repo/database";
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
@@ -31,10 +32,23 @@ export type PropertyFormData = {
   videos: { url: string; platform: string; title?: string }[];
 };
 
+/**
+ * Server-side draft (property_drafts) used to resume the wizard
+ */
+export type WizardDraft = {
+  id: string;
+  data: PropertyDraftData;
+  imageUrls: string[];
+  currentStep: number;
+};
+
 interface WizardState {
   currentStep: number;
   totalSteps: number;
   formData: PropertyFormData;
+  draftId: string | null; // Server-side draft autosaved on each step
+  setDraftId: (draftId: string | null) => void;
+  loadDraft: (draft: WizardDraft) => void;
   setStep: (step: number) => void;
   nextStep: () => void;
   prevStep: () => void;
@@ -75,6 +89,7 @@ export const usePropertyWizardStore = create<WizardState>()(
       currentStep: 1,
       totalSteps: 5,
       formData: initialFormData,
+      draftId: null,
       limits: {
         maxImages: 5, // Default safe limit
         maxVideos: 0, // Default: no videos for free tier
@@ -92,10 +107,25 @@ export const usePropertyWizardStore = create<WizardState>()(
         set((state) => ({
           formData: { ...state.formData, ...data },
         })),
+      setDraftId: (draftId) => set({ draftId }),
+      loadDraft: (draft) =>
+        set((state) => ({
+          draftId: draft.id,
+          currentStep: Math.min(Math.max(draft.currentStep, 1), state.totalSteps),
+          formData: {
+            ...initialFormData,
+            ...draft.data,
+            latitude: draft.data.latitude ?? null,
+            longitude: draft.data.longitude ?? null,
+            images: [],
+            imageUrls: draft.imageUrls, // Already uploaded, Step4 rebuilds its previews from these
+          },
+        })),
       resetWizard: () =>
         set({
           currentStep: 1,
           formData: initialFormData,
+          draftId: null,
           limits: { maxImages: 5, maxVideos: 0, tierName: "Free" },
         }),
     }),
@@ -107,6 +137,7 @@ export const usePropertyWizardStore = create<WizardState>()(
             ...state.formData,
             images: [] // Don't persist File objects
         },
+        draftId: state.draftId,
         limits: state.limits, // Persist limits so they survive reload if not re-initialized immediately
       }),
     }
@@ -0,0 +1,323 @@
+/**
+ * TESTS - Plan Downgrade Policy
+ *
+ * - Se mantienen las elegidas por el agente, luego las más recientes
+ * - Destacadas e imágenes sobre el límite se quitan (sin borrar nada)
+ * - La gracia se inicia una sola vez y avisa al agente
+ * - Un downgrade que falla libera su reclamo y no frena al resto
+ * - Volver a un plan pago restaura solo lo que quitó el downgrade
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Real plan limits: the policy is built on top of them
+vi.unmock("@/lib/permissions/property-limits");
+
+const repository = vi.hoisted(() => ({
+  findAgentListings: vi.fn(),
+  startGracePeriod: vi.fn(),
+  cancelGracePeriod: vi.fn(),
+  findDueForEnforcement: vi.fn(),
+  claimEnforcement: vi.fn(),
+  releaseEnforcement: vi.fn(),
+  applyDowngrade: vi.fn(),
+  restore: vi.fn(),
+}));
+
+vi.mock("@repo/database", () => ({
+  planDowngradeRepository: repository,
+  userRepository: {
+    findById: vi.fn().mockResolvedValue({
+      id: "agent-1",
+      name: "María",
+      email: "maria@example.com",
+    }),
+  },
+}));
+
+vi.mock("@/lib/email/subscription-emails", () => ({
+  sendPlanDowngradeEmail: vi.fn(),
+}));
+
+import { sendPlanDowngradeEmail } from "@/lib/email/subscription-emails";
+import {
+  enforceDowngrades,
+  planDowngrade,
+  planRestore,
+  restoreAfterUpgrade,
+  startDowngrade,
+} from "../downgrade";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+function buildListing(
+  id: string,
+  createdAt: string,
+  overrides: Record<string, unknown> = {},
+  imageCount = 1,
+) {
+  return {
+    id,
+    title: `Propiedad ${id}`,
+    visibility: "PUBLISHED" as const,
+    isFeatured: false,
+    keepOnDowngrade: false,
+    downgradedAt: null as Date | null,
+    featureSuspendedAt: null as Date | null,
+    createdAt: new Date(createdAt),
+    images: Array.from({ length: imageCount }, (_, order) => ({
+      id: `${id}-img-${order}`,
+      order,
+      hiddenAt: null as Date | null,
+    })),
+    ...overrides,
+  };
+}
+
+describe("planDowngrade", () => {
+  it("should keep the newest listing on FREE and archive the rest", () => {
+    const plan = planDowngrade(
+      [
+        buildListing("old", "2025-01-01"),
+        buildListing("new", "2026-01-01"),
+        buildListing("mid", "2025-06-01"),
+      ],
+      "FREE",
+    );
+
+    expect(plan.keep).toEqual(["new"]);
+    expect(plan.archive).toEqual(["mid", "old"]);
+  });
+
+  it("should prefer the listings chosen by the agent", () => {
+    const plan = planDowngrade(
+      [
+        buildListing("new", "2026-01-01"),
+        buildListing("chosen", "2025-01-01", { keepOnDowngrade: true }),
+      ],
+      "FREE",
+    );
+
+    expect(plan.keep).toEqual(["chosen"]);
+    expect(plan.archive).toEqual(["new"]);
+  });
+
+  it("should unfeature listings over the featured limit", () => {
+    const plan = planDowngrade(
+      [
+        buildListing("a", "2026-01-03", { isFeatured: true }),
+        buildListing("b", "2026-01-02", { isFeatured: true }),
+        buildListing("c", "2026-01-01", { isFeatured: true }),
+        buildListing("d", "2025-12-01", { isFeatured: true }),
+      ],
+      "PLUS",
+    );
+
+    // PLUS: 3 listings, 1 featured
+    expect(plan.keep).toEqual(["a", "b", "c"]);
+    expect(plan.archive).toEqual(["d"]);
+    expect(plan.unfeature).toEqual(["b", "c", "d"]);
+  });
+
+  it("should hide images over the image limit of kept listings", () => {
+    const plan = planDowngrade(
+      [buildListing("a", "2026-01-01", {}, 15)],
+      "FREE",
+    );
+
+    // FREE: 6 images, the first ones (cover) stay visible
+    expect(plan.hideImages).toHaveLength(9);
+    expect(plan.hideImages[0]).toBe("a-img-6");
+  });
+
+  it("should ignore listings that are already archived", () => {
+    const plan = planDowngrade(
+      [
+        buildListing("live", "2025-01-01"),
+        buildListing("archived", "2026-01-01", { visibility: "ARCHIVED" }),
+      ],
+      "FREE",
+    );
+
+    expect(plan.keep).toEqual(["live"]);
+    expect(plan.archive).toEqual([]);
+  });
+});
+
+describe("planRestore", () => {
+  it("should restore downgraded listings, features and images up to the new limits", () => {
+    const downgradedAt = new Date("2026-02-01");
+    const kept = buildListing("kept", "2026-01-01", {}, 6);
+    kept.images.push(
+      { id: "kept-img-6", order: 6, hiddenAt: downgradedAt },
+      { id: "kept-img-7", order: 7, hiddenAt: downgradedAt },
+    );
+
+    const changes = planRestore(
+      [
+        kept,
+        buildListing("a", "2025-12-01", {
+          visibility: "ARCHIVED",
+          downgradedAt,
+          featureSuspendedAt: downgradedAt,
+        }),
+        buildListing("b", "2025-11-01", {
+          visibility: "ARCHIVED",
+          downgradedAt,
+          featureSuspendedAt: downgradedAt,
+        }),
+        buildListing("c", "2025-10-01", {
+          visibility: "ARCHIVED",
+          downgradedAt,
+        }),
+        buildListing("manual", "2026-01-15", { visibility: "ARCHIVED" }),
+      ],
+      "PLUS",
+    );
+
+    // PLUS: 3 listings (1 live + 2 restored), 1 featured, 10 images
+    expect(changes.publish).toEqual(["a", "b"]);
+    expect(changes.feature).toEqual(["a"]);
+    expect(changes.showImages).toEqual(["kept-img-6", "kept-img-7"]);
+  });
+});
+
+describe("startDowngrade", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should start the grace period and notify the agent once", async () => {
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+      buildListing("b", "2025-01-01"),
+    ]);
+    repository.startGracePeriod.mockResolvedValue(true);
+
+    const started = await startDowngrade("agent-1", "FREE", now);
+
+    expect(started).toBe(true);
+    expect(repository.startGracePeriod).toHaveBeenCalledWith(
+      "agent-1",
+      new Date("2026-03-08T12:00:00.000Z"),
+    );
+    expect(sendPlanDowngradeEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentEmail: "maria@example.com",
+        propertyLimit: 1,
+        archiveCount: 1,
+      }),
+    );
+  });
+
+  it("should not notify again while a grace period is running", async () => {
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+      buildListing("b", "2025-01-01"),
+    ]);
+    repository.startGracePeriod.mockResolvedValue(false);
+
+    expect(await startDowngrade("agent-1", "FREE", now)).toBe(false);
+    expect(sendPlanDowngradeEmail).not.toHaveBeenCalled();
+  });
+
+  it("should skip agents already within the new limits", async () => {
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+    ]);
+
+    expect(await startDowngrade("agent-1", "FREE", now)).toBe(false);
+    expect(repository.startGracePeriod).not.toHaveBeenCalled();
+  });
+});
+
+describe("enforceDowngrades", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should apply each claimed downgrade with the agent's current plan", async () => {
+    repository.findDueForEnforcement.mockResolvedValue([
+      { id: "agent-1", subscriptionTier: "FREE" },
+      { id: "agent-2", subscriptionTier: "FREE" },
+    ]);
+    repository.claimEnforcement
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+      buildListing("b", "2025-01-01", { isFeatured: true }),
+    ]);
+
+    const summary = await enforceDowngrades(now);
+
+    expect(repository.applyDowngrade).toHaveBeenCalledTimes(1);
+    expect(repository.applyDowngrade).toHaveBeenCalledWith(
+      "agent-1",
+      expect.objectContaining({ archive: ["b"], unfeature: ["b"] }),
+      now,
+    );
+    expect(summary).toEqual({
+      enforced: 1,
+      archived: 1,
+      unfeatured: 1,
+      hiddenImages: 0,
+      failed: 0,
+    });
+  });
+
+  it("should release a failed downgrade and keep enforcing the others", async () => {
+    const graceEndsAt = new Date("2026-02-28T12:00:00.000Z");
+    repository.findDueForEnforcement.mockResolvedValue([
+      {
+        id: "agent-1",
+        subscriptionTier: "FREE",
+        downgradeGraceEndsAt: graceEndsAt,
+      },
+      {
+        id: "agent-2",
+        subscriptionTier: "FREE",
+        downgradeGraceEndsAt: graceEndsAt,
+      },
+    ]);
+    repository.claimEnforcement.mockResolvedValue(true);
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+      buildListing("b", "2025-01-01"),
+    ]);
+    repository.applyDowngrade
+      .mockRejectedValueOnce(new Error("connection lost"))
+      .mockResolvedValueOnce(undefined);
+
+    const summary = await enforceDowngrades(now);
+
+    expect(repository.releaseEnforcement).toHaveBeenCalledTimes(1);
+    expect(repository.releaseEnforcement).toHaveBeenCalledWith(
+      "agent-1",
+      graceEndsAt,
+    );
+    expect(repository.applyDowngrade).toHaveBeenLastCalledWith(
+      "agent-2",
+      expect.objectContaining({ archive: ["b"] }),
+      now,
+    );
+    expect(summary).toMatchObject({ enforced: 1, archived: 1, failed: 1 });
+  });
+});
+
+describe("restoreAfterUpgrade", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should cancel the grace period even if nothing was taken yet", async () => {
+    repository.findAgentListings.mockResolvedValue([
+      buildListing("a", "2026-01-01"),
+    ]);
+
+    await restoreAfterUpgrade("agent-1", "BUSINESS", now);
+
+    expect(repository.cancelGracePeriod).toHaveBeenCalledWith("agent-1");
+    expect(repository.restore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * TESTS - Free Trial
+ *
+ * - Una prueba por usuario; al iniciarla se sube el tier
+ * - El aviso de fin de prueba se envía una sola vez
+ * - Al vencer se baja a FREE (con la gracia del downgrade) y se avisa
+ * - Un aviso o vencimiento con error se libera y no corta la ejecución
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Real display names for the emails
+vi.unmock("@/lib/permissions/property-limits");
+
+const repository = vi.hoisted(() => ({
+  start: vi.fn(),
+  findEndingSoon: vi.fn(),
+  claimReminder: vi.fn(),
+  releaseReminder: vi.fn(),
+  findExpired: vi.fn(),
+  claimExpiry: vi.fn(),
+  releaseExpiry: vi.fn(),
+}));
+
+vi.mock("@repo/database", () => ({
+  subscriptionTrialRepository: repository,
+}));
+
+vi.mock("@/lib/subscription/tier-manager", () => ({
+  setUserTier: vi.fn(),
+  downgradeToFree: vi.fn(),
+}));
+
+vi.mock("@/lib/email/subscription-emails", () => ({
+  sendTrialEndingEmail: vi.fn(),
+  sendTrialEndedEmail: vi.fn(),
+}));
+
+import {
+  sendTrialEndedEmail,
+  sendTrialEndingEmail,
+} from "@/lib/email/subscription-emails";
+import { downgradeToFree, setUserTier } from "@/lib/subscription/tier-manager";
+import { getTrialDaysLeft, processTrials, startTrial } from "../trial";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+function buildTrial(id: string, trialEndsAt: string) {
+  return {
+    id,
+    userId: `user-${id}`,
+    tier: "PLUS" as const,
+    status: "TRIALING" as const,
+    trialEndsAt: new Date(trialEndsAt),
+    trialReminderSentAt: null,
+    user: { id: `user-${id}`, name: "María", email: "maria@example.com" },
+  };
+}
+
+describe("startTrial", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should start a 14-day trial and upgrade the tier", async () => {
+    repository.start.mockResolvedValue(true);
+
+    const started = await startTrial("user-1", "BUSINESS", now);
+
+    expect(started).toBe(true);
+    expect(repository.start).toHaveBeenCalledWith(
+      "user-1",
+      "BUSINESS",
+      new Date("2026-03-15T12:00:00.000Z"),
+      now,
+    );
+    expect(setUserTier).toHaveBeenCalledWith(
+      "user-1",
+      "BUSINESS",
+      "platform_trial_started",
+    );
+  });
+
+  it("should not start a second trial", async () => {
+    repository.start.mockResolvedValue(false);
+
+    expect(await startTrial("user-1", "PLUS", now)).toBe(false);
+    expect(setUserTier).not.toHaveBeenCalled();
+  });
+});
+
+describe("getTrialDaysLeft", () => {
+  it("should round partial days up and never go negative", () => {
+    expect(getTrialDaysLeft(new Date("2026-03-03T00:00:00.000Z"), now)).toBe(2);
+    expect(getTrialDaysLeft(new Date("2026-03-01T13:00:00.000Z"), now)).toBe(1);
+    expect(getTrialDaysLeft(new Date("2026-02-28T12:00:00.000Z"), now)).toBe(0);
+  });
+});
+
+describe("processTrials", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.findEndingSoon.mockResolvedValue([]);
+    repository.findExpired.mockResolvedValue([]);
+    vi.mocked(sendTrialEndingEmail).mockResolvedValue({
+      success: true,
+      emailId: "email-1",
+    });
+  });
+
+  it("should remind trials ending within 3 days once", async () => {
+    repository.findEndingSoon.mockResolvedValue([
+      buildTrial("1", "2026-03-03T12:00:00.000Z"),
+      buildTrial("2", "2026-03-04T00:00:00.000Z"),
+    ]);
+    repository.claimReminder
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    const summary = await processTrials(now);
+
+    expect(repository.findEndingSoon).toHaveBeenCalledWith(
+      now,
+      new Date("2026-03-04T12:00:00.000Z"),
+    );
+    expect(sendTrialEndingEmail).toHaveBeenCalledTimes(1);
+    expect(sendTrialEndingEmail).toHaveBeenCalledWith({
+      agentName: "María",
+      agentEmail: "maria@example.com",
+      planName: "Plus",
+      trialEndsAt: new Date("2026-03-03T12:00:00.000Z"),
+    });
+    expect(summary).toEqual({ reminded: 1, expired: 0, failed: 0 });
+  });
+
+  it("should fall back to FREE when a trial ends", async () => {
+    repository.findExpired.mockResolvedValue([
+      buildTrial("1", "2026-03-01T11:00:00.000Z"),
+    ]);
+    repository.claimExpiry.mockResolvedValue(true);
+
+    const summary = await processTrials(now);
+
+    expect(repository.claimExpiry).toHaveBeenCalledWith("1", now);
+    expect(downgradeToFree).toHaveBeenCalledWith(
+      "user-1",
+      "platform_trial_expired",
+    );
+    expect(sendTrialEndedEmail).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({ reminded: 0, expired: 1, failed: 0 });
+  });
+
+  it("should skip trials converted or expired by another run", async () => {
+    repository.findExpired.mockResolvedValue([
+      buildTrial("1", "2026-03-01T11:00:00.000Z"),
+    ]);
+    repository.claimExpiry.mockResolvedValue(false);
+
+    const summary = await processTrials(now);
+
+    expect(downgradeToFree).not.toHaveBeenCalled();
+    expect(sendTrialEndedEmail).not.toHaveBeenCalled();
+    expect(summary.expired).toBe(0);
+  });
+
+  it("should release the reminder when the email fails", async () => {
+    repository.findEndingSoon.mockResolvedValue([
+      buildTrial("1", "2026-03-03T12:00:00.000Z"),
+      buildTrial("2", "2026-03-04T00:00:00.000Z"),
+    ]);
+    repository.claimReminder.mockResolvedValue(true);
+    vi.mocked(sendTrialEndingEmail)
+      .mockResolvedValueOnce({
+        success: false,
+        error: "Email delivery failed",
+      })
+      .mockResolvedValueOnce({ success: true, emailId: "email-2" });
+
+    const summary = await processTrials(now);
+
+    expect(repository.releaseReminder).toHaveBeenCalledTimes(1);
+    expect(repository.releaseReminder).toHaveBeenCalledWith("1");
+    expect(summary).toEqual({ reminded: 1, expired: 0, failed: 1 });
+  });
+
+  it("should release the expiry and continue when a downgrade fails", async () => {
+    repository.findExpired.mockResolvedValue([
+      buildTrial("1", "2026-03-01T10:00:00.000Z"),
+      buildTrial("2", "2026-03-01T11:00:00.000Z"),
+    ]);
+    repository.claimExpiry.mockResolvedValue(true);
+    vi.mocked(downgradeToFree)
+      .mockRejectedValueOnce(new Error("db down"))
+      .mockResolvedValueOnce(undefined);
+
+    const summary = await processTrials(now);
+
+    expect(repository.releaseExpiry).toHaveBeenCalledTimes(1);
+    expect(repository.releaseExpiry).toHaveBeenCalledWith("1", "PLUS");
+    expect(downgradeToFree).toHaveBeenLastCalledWith(
+      "user-2",
+      "platform_trial_expired",
+    );
+    expect(sendTrialEndedEmail).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({ reminded: 0, expired: 1, failed: 1 });
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * PLAN DOWNGRADE POLICY
+ *
+ * Límites del plan (getPropertyLimit, getImageLimit, getFeaturedLimit)
+ * aplicados a las publicaciones cuando una suscripción vence
+ *
+ * FLUJO:
+ * 1. downgradeToFree → startDowngrade: si el agente supera los límites del
+ *    nuevo plan, inicia un período de gracia de DOWNGRADE_GRACE_DAYS días y
+ *    le avisa por email qué dejará de mostrarse
+ * 2. Durante la gracia el agente elige qué publicaciones mantener
+ *    (keepOnDowngrade); sin elección se mantienen las más recientes
+ * 3. Al terminar la gracia (app/api/cron/plan-downgrades):
+ *    - publicaciones sobre el límite → archivadas
+ *    - destacadas sobre el límite → sin destacar
+ *    - imágenes sobre el límite → ocultas del portal (no se borran)
+ * 4. setUserTier a un plan pago → restoreAfterUpgrade: cancela la gracia y
+ *    restaura lo que quitó el downgrade, hasta los límites del nuevo plan
+ *
+ * REGLAS:
+ * 1. planDowngrade / planRestore son funciones puras: deciden QUÉ cambiar,
+ *    el repositorio (planDowngradeRepository) lo aplica
+ * 2. La gracia se inicia y se reclama con updateMany condicional: el aviso
+ *    se envía una vez y el downgrade se aplica una vez
+ * 3. Si aplicar un downgrade reclamado falla, el reclamo se libera y se
+ *    reintenta en la próxima ejecución; el resto de los agentes sigue
+ */
+
+import {
+  type DowngradeChanges,
+  type DowngradeListing,
+  planDowngradeRepository,
+  type RestoreChanges,
+  type SubscriptionTier,
+  userRepository,
+} from "@repo/database";
+import { sendPlanDowngradeEmail } from "@/lib/email/subscription-emails";
+import {
+  getFeaturedLimit,
+  getImageLimit,
+  getPropertyLimit,
+} from "@/lib/permissions/property-limits";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Días entre el vencimiento del plan y la aplicación de los límites
+ */
+export const DOWNGRADE_GRACE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DowngradePlan extends DowngradeChanges {
+  /** Publicaciones que siguen publicadas */
+  keep: string[];
+}
+
+export interface DowngradeRunSummary {
+  /** Agentes a los que se aplicó el downgrade */
+  enforced: number;
+  /** Publicaciones archivadas */
+  archived: number;
+  /** Publicaciones que dejaron de estar destacadas */
+  unfeatured: number;
+  /** Imágenes ocultas */
+  hiddenImages: number;
+  /** Downgrades con error: se reintentarán en la próxima ejecución */
+  failed: number;
+}
+
+/**
+ * Fecha en que se aplican los límites de un downgrade iniciado en `now`
+ */
+export function getDowngradeGraceEnd(now: Date): Date {
+  return new Date(now.getTime() + DOWNGRADE_GRACE_DAYS * DAY_MS);
+}
+
+/**
+ * Orden de preferencia: elegidas por el agente, luego las más recientes
+ */
+function byKeepPriority(a: DowngradeListing, b: DowngradeListing): number {
+  if (a.keepOnDowngrade !== b.keepOnDowngrade) {
+    return a.keepOnDowngrade ? -1 : 1;
+  }
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
+/**
+ * Decidir qué quitar para que las publicaciones entren en `tier`
+ * Solo considera las publicaciones que cuentan para el plan (no archivadas)
+ */
+export function planDowngrade(
+  listings: DowngradeListing[],
+  tier: SubscriptionTier,
+): DowngradePlan {
+  const live = listings
+    .filter((listing) => listing.visibility !== "ARCHIVED")
+    .sort(byKeepPriority);
+
+  const propertyLimit = getPropertyLimit(tier);
+  const featuredLimit = getFeaturedLimit(tier);
+  const imageLimit = getImageLimit(tier);
+
+  const kept = live.slice(0, propertyLimit);
+  const archived = live.slice(propertyLimit);
+
+  // Archived listings never stay featured; kept ones up to the limit
+  const keptFeatured = kept.filter((listing) => listing.isFeatured);
+  const unfeature = [
+    ...(featuredLimit === null ? [] : keptFeatured.slice(featuredLimit)),
+    ...archived.filter((listing) => listing.isFeatured),
+  ];
+
+  const hideImages = kept.flatMap((listing) =>
+    listing.images
+      .filter((image) => image.hiddenAt === null)
+      .slice(imageLimit)
+      .map((image) => image.id),
+  );
+
+  return {
+    keep: kept.map((listing) => listing.id),
+    archive: archived.map((listing) => listing.id),
+    unfeature: unfeature.map((listing) => listing.id),
+    hideImages,
+  };
+}
+
+/**
+ * Decidir qué restaurar de un downgrade anterior dentro de los límites de `tier`
+ */
+export function planRestore(
+  listings: DowngradeListing[],
+  tier: SubscriptionTier,
+): RestoreChanges {
+  const live = listings.filter((listing) => listing.visibility !== "ARCHIVED");
+  const downgraded = listings
+    .filter((listing) => listing.downgradedAt !== null)
+    .sort(byKeepPriority);
+
+  const propertySlots = Math.max(0, getPropertyLimit(tier) - live.length);
+  const published = downgraded.slice(0, propertySlots);
+  const liveAfter = [...live, ...published].sort(byKeepPriority);
+
+  const featuredLimit = getFeaturedLimit(tier);
+  const featuredCount = listings.filter((listing) => listing.isFeatured).length;
+  const featureSlots =
+    featuredLimit === null
+      ? liveAfter.length
+      : Math.max(0, featuredLimit - featuredCount);
+  const feature = liveAfter
+    .filter((listing) => listing.featureSuspendedAt !== null)
+    .slice(0, featureSlots);
+
+  const imageLimit = getImageLimit(tier);
+  const showImages = liveAfter.flatMap((listing) => {
+    const visible = listing.images.filter((image) => image.hiddenAt === null);
+    return listing.images
+      .filter((image) => image.hiddenAt !== null)
+      .slice(0, Math.max(0, imageLimit - visible.length))
+      .map((image) => image.id);
+  });
+
+  return {
+    publish: published.map((listing) => listing.id),
+    feature: feature.map((listing) => listing.id),
+    showImages,
+  };
+}
+
+/**
+ * Iniciar el período de gracia tras un downgrade
+ * No hace nada si las publicaciones ya entran en el nuevo plan
+ *
+ * @returns true si se inició la gracia (y se avisó al agente)
+ */
+export async function startDowngrade(
+  userId: string,
+  tier: SubscriptionTier = "FREE",
+  now: Date = new Date(),
+): Promise<boolean> {
+  const listings = await planDowngradeRepository.findAgentListings(userId);
+  const plan = planDowngrade(listings, tier);
+
+  const pending =
+    plan.archive.length + plan.unfeature.length + plan.hideImages.length;
+  if (pending === 0) return false;
+
+  const graceEndsAt = getDowngradeGraceEnd(now);
+  const started = await planDowngradeRepository.startGracePeriod(
+    userId,
+    graceEndsAt,
+  );
+  if (!started) return false;
+
+  logger.info(
+    {
+      userId,
+      tier,
+      graceEndsAt: graceEndsAt.toISOString(),
+      archive: plan.archive.length,
+      unfeature: plan.unfeature.length,
+      hideImages: plan.hideImages.length,
+    },
+    "[Downgrade] Grace period started",
+  );
+
+  // The grace period stands even if the notice can't be delivered
+  const agent = await userRepository.findById(userId);
+  if (agent) {
+    await sendPlanDowngradeEmail({
+      agentName: agent.name || "Agente",
+      agentEmail: agent.email,
+      graceEndsAt,
+      propertyLimit: getPropertyLimit(tier),
+      archiveCount: plan.archive.length,
+      unfeatureCount: plan.unfeature.length,
+      hiddenImageCount: plan.hideImages.length,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Aplicar los downgrades cuyo período de gracia terminó
+ *
+ * @param now - Hora de referencia (inyectable para tests)
+ */
+export async function enforceDowngrades(
+  now: Date = new Date(),
+): Promise<DowngradeRunSummary> {
+  const summary: DowngradeRunSummary = {
+    enforced: 0,
+    archived: 0,
+    unfeatured: 0,
+    hiddenImages: 0,
+    failed: 0,
+  };
+
+  const agents = await planDowngradeRepository.findDueForEnforcement(now);
+  for (const agent of agents) {
+    const claimed = await planDowngradeRepository.claimEnforcement(
+      agent.id,
+      now,
+    );
+    if (!claimed) continue;
+
+    let plan: DowngradePlan;
+    try {
+      // Current tier: the agent may have moved to another paid plan meanwhile
+      const listings = await planDowngradeRepository.findAgentListings(
+        agent.id,
+      );
+      plan = planDowngrade(listings, agent.subscriptionTier);
+
+      await planDowngradeRepository.applyDowngrade(agent.id, plan, now);
+    } catch (error) {
+      logger.error(
+        { err: error, userId: agent.id },
+        "[Downgrade] Failed to apply plan downgrade",
+      );
+      await planDowngradeRepository.releaseEnforcement(
+        agent.id,
+        agent.downgradeGraceEndsAt ?? now,
+      );
+      summary.failed++;
+      continue;
+    }
+
+    summary.enforced++;
+    summary.archived += plan.archive.length;
+    summary.unfeatured += plan.unfeature.length;
+    summary.hiddenImages += plan.hideImages.length;
+  }
+
+  logger.info({ ...summary }, "[Downgrade] Plan downgrade run finished");
+
+  return summary;
+}
+
+/**
+ * Restaurar lo que quitó un downgrade al volver a un plan pago
+ * También cancela un período de gracia en curso
+ *
+ * @returns Cambios restaurados
+ */
+export async function restoreAfterUpgrade(
+  userId: string,
+  tier: SubscriptionTier,
+  now: Date = new Date(),
+): Promise<RestoreChanges> {
+  await planDowngradeRepository.cancelGracePeriod(userId);
+
+  const listings = await planDowngradeRepository.findAgentListings(userId);
+  const changes = planRestore(listings, tier);
+
+  const restorable =
+    changes.publish.length + changes.feature.length + changes.showImages.length;
+  if (restorable > 0) {
+    await planDowngradeRepository.restore(userId, changes, now);
+
+    logger.info(
+      {
+        userId,
+        tier,
+        published: changes.publish.length,
+        featured: changes.feature.length,
+        shownImages: changes.showImages.length,
+      },
+      "[Downgrade] Listings restored after upgrade",
+    );
+  }
+
+  return changes;
+}
@@ -12,11 +12,14 @@
  * 2. NUNCA sincronizar metadata ↔ DB (solo DB importa)
  * 3. Siempre usar estas funciones para cambiar tiers
  * 4. Metadata solo se usa en signup (trigger lo copia UNA VEZ)
+ * 5. Bajar a FREE inicia el período de gracia del downgrade y subir a un
+ *    plan pago restaura las publicaciones (ver ./downgrade.ts)
  */
 
 import { logger } from "@/lib/utils/logger";
 import type { SubscriptionTier } from "@prisma/client";
 import { db } from "@repo/database/src/client";
+import { restoreAfterUpgrade, startDowngrade } from "./downgrade";
 
 /**
  * Cambiar tier de un usuario
@@ -56,6 +59,11 @@ export async function setUserTier(
   // NO actualizar metadata en auth.users
   // El metadata solo importó en el signup inicial
   // public.users es la ÚNICA fuente de verdad
+
+  // Plan pago: restaurar lo que haya quitado un downgrade anterior
+  if (newTier !== "FREE") {
+    await restoreAfterUpgrade(userId, newTier);
+  }
 }
 
 /**
@@ -175,6 +183,9 @@ export async function downgradeToFree(
     "[TierManager] User downgraded to FREE tier"
   );
 
+  // Publicaciones sobre los límites FREE: período de gracia + aviso
+  await startDowngrade(userId, "FREE");
+
   // Mantener el role AGENT (no degradar a CLIENT)
   // Los vendedores solo pierden privilegios, no su estatus
 }
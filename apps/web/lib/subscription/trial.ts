@@ -0,0 +1,200 @@
+/**
+ * FREE TRIAL
+ *
+ * Prueba gratis de TRIAL_DAYS días para PLUS/BUSINESS, gestionada por la
+ * plataforma: no pide tarjeta ni pasa por el checkout de Lemon Squeezy
+ *
+ * FLUJO:
+ * 1. startTrial: crea la suscripción TRIALING (una por usuario) y sube el
+ *    tier con setUserTier (restaura lo que haya quitado un downgrade)
+ * 2. processTrials (app/api/cron/subscription-trials):
+ *    - TRIAL_REMINDER_DAYS antes del fin → email de aviso (una vez)
+ *    - Al terminar → downgradeToFree (período de gracia del downgrade) y
+ *      email de fin de prueba
+ * 3. Suscribirse durante la prueba: el webhook subscription_created
+ *    reemplaza la fila y la prueba deja de vencer
+ *
+ * REGLAS:
+ * 1. Aviso y vencimiento se reclaman con updateMany condicional
+ *    (subscriptionTrialRepository) antes del email / downgrade
+ * 2. Si el aviso no se pudo enviar o el downgrade falla, el reclamo se
+ *    libera y se reintenta en la próxima ejecución
+ * 3. Una prueba con error no interrumpe el resto de la ejecución
+ * 4. Un email de fin de prueba que falla no revierte el vencimiento
+ *    (el tier ya cambió)
+ */
+
+import {
+  type SubscriptionTrial,
+  subscriptionTrialRepository,
+} from "@repo/database";
+import {
+  sendTrialEndedEmail,
+  sendTrialEndingEmail,
+} from "@/lib/email/subscription-emails";
+import { getTierDisplayName } from "@/lib/permissions/property-limits";
+import { logger } from "@/lib/utils/logger";
+import { downgradeToFree, setUserTier } from "./tier-manager";
+
+/**
+ * Duración de la prueba gratis
+ */
+export const TRIAL_DAYS = 14;
+
+/**
+ * Días antes del fin de la prueba en que se envía el aviso
+ */
+export const TRIAL_REMINDER_DAYS = 3;
+
+/**
+ * Planes que se pueden probar gratis
+ */
+export const TRIAL_TIERS = ["PLUS", "BUSINESS"] as const;
+
+export type TrialTier = (typeof TRIAL_TIERS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrialRunSummary {
+  /** Avisos de fin de prueba enviados */
+  reminded: number;
+  /** Pruebas vencidas (bajadas a FREE) */
+  expired: number;
+  /** Avisos o vencimientos con error: se reintentarán en la próxima ejecución */
+  failed: number;
+}
+
+export function isTrialTier(tier: string): tier is TrialTier {
+  return (TRIAL_TIERS as readonly string[]).includes(tier);
+}
+
+/**
+ * Fin de una prueba iniciada en `now`
+ */
+export function getTrialEnd(now: Date): Date {
+  return new Date(now.getTime() + TRIAL_DAYS * DAY_MS);
+}
+
+/**
+ * Días restantes de prueba (redondeado hacia arriba, nunca negativo)
+ */
+export function getTrialDaysLeft(
+  trialEndsAt: Date,
+  now: Date = new Date(),
+): number {
+  return Math.max(
+    0,
+    Math.ceil((trialEndsAt.getTime() - now.getTime()) / DAY_MS),
+  );
+}
+
+/**
+ * Iniciar la prueba gratis de `tier`
+ *
+ * @returns false si el usuario ya tuvo una suscripción (prueba o pago)
+ */
+export async function startTrial(
+  userId: string,
+  tier: TrialTier,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const trialEndsAt = getTrialEnd(now);
+  const started = await subscriptionTrialRepository.start(
+    userId,
+    tier,
+    trialEndsAt,
+    now,
+  );
+  if (!started) return false;
+
+  await setUserTier(userId, tier, "platform_trial_started");
+
+  logger.info(
+    { userId, tier, trialEndsAt: trialEndsAt.toISOString() },
+    "[Trial] Free trial started",
+  );
+
+  return true;
+}
+
+/**
+ * Enviar los avisos de fin de prueba y vencer las pruebas terminadas
+ *
+ * @param now - Hora de referencia (inyectable para tests)
+ */
+export async function processTrials(
+  now: Date = new Date(),
+): Promise<TrialRunSummary> {
+  const summary: TrialRunSummary = { reminded: 0, expired: 0, failed: 0 };
+
+  const reminderCutoff = new Date(now.getTime() + TRIAL_REMINDER_DAYS * DAY_MS);
+  const endingSoon = await subscriptionTrialRepository.findEndingSoon(
+    now,
+    reminderCutoff,
+  );
+  for (const trial of endingSoon) {
+    const claimed = await subscriptionTrialRepository.claimReminder(
+      trial.id,
+      now,
+    );
+    if (!claimed) continue;
+
+    try {
+      const result = await sendTrialEndingEmail(toTrialEmailData(trial));
+
+      if (result.success) {
+        summary.reminded++;
+        continue;
+      }
+
+      await subscriptionTrialRepository.releaseReminder(trial.id);
+      summary.failed++;
+    } catch (error) {
+      logger.error(
+        { err: error, subscriptionId: trial.id },
+        "[Trial] Failed to send trial ending email",
+      );
+      await subscriptionTrialRepository.releaseReminder(trial.id);
+      summary.failed++;
+    }
+  }
+
+  const expired = await subscriptionTrialRepository.findExpired(now);
+  for (const trial of expired) {
+    const claimed = await subscriptionTrialRepository.claimExpiry(
+      trial.id,
+      now,
+    );
+    if (!claimed) continue;
+
+    try {
+      // Downgrade grace period + notice if the agent is over the FREE limits
+      await downgradeToFree(trial.userId, "platform_trial_expired");
+    } catch (error) {
+      logger.error(
+        { err: error, subscriptionId: trial.id, userId: trial.userId },
+        "[Trial] Failed to expire trial",
+      );
+      await subscriptionTrialRepository.releaseExpiry(trial.id, trial.tier);
+      summary.failed++;
+      continue;
+    }
+
+    summary.expired++;
+    await sendTrialEndedEmail(toTrialEmailData(trial));
+  }
+
+  logger.info({ ...summary }, "[Trial] Trial run finished");
+
+  return summary;
+}
+
+function toTrialEmailData(trial: SubscriptionTrial) {
+  return {
+    agentName: trial.user.name || "Agente",
+    agentEmail: trial.user.email,
+    planName: getTierDisplayName(trial.tier),
+    // findEndingSoon / findExpired only return trials with an end date
+    trialEndsAt: trial.trialEndsAt as Date,
+  };
+}
@@ -0,0 +1,234 @@
+import type { SerializedProperty } from "@repo/database";
+import { describe, expect, it } from "vitest";
+import { parseKyeroXml } from "@/lib/property-import/parse";
+import {
+  buildFeedEtag,
+  buildJsonFeed,
+  buildKyeroFeed,
+  escapeXml,
+  getFeedUrl,
+  isFeedNotModified,
+} from "../feed";
+
+const updatedAt = new Date("2026-01-10T12:00:00.000Z");
+
+const property = {
+  id: "prop-1",
+  title: "Casa con jardín & piscina",
+  description:
+    "Casa familiar <b>amplia</b> cerca del parque, lista para habitar.",
+  price: 185000,
+  transactionType: "SALE",
+  category: "HOUSE",
+  status: "AVAILABLE",
+  bedrooms: 3,
+  bathrooms: 2.5,
+  area: 180,
+  address: "Av. Solano 1-23",
+  city: "Cuenca",
+  state: "Azuay",
+  zipCode: "010101",
+  latitude: -2.9,
+  longitude: -79.0,
+  amenities: ["pool", "garden"],
+  agentId: "agent-1",
+  createdAt: new Date("2026-01-01T10:00:00.000Z"),
+  updatedAt,
+  images: [
+    { id: "img-1", url: "https://cdn.test/1.jpg", alt: null, order: 0 },
+    { id: "img-2", url: "https://cdn.test/2.jpg", alt: null, order: 1 },
+  ],
+  videos: [
+    {
+      id: "vid-1",
+      url: "https://www.youtube.com/watch?v=abc",
+      platform: "YOUTUBE",
+      title: "Recorrido",
+      order: 0,
+    },
+  ],
+  agent: {
+    id: "agent-1",
+    name: "Ana Agente",
+    email: "ana@test.com",
+    phone: null,
+    avatar: null,
+    subscriptionTier: "PLUS",
+  },
+} as SerializedProperty;
+
+describe("syndication feed", () => {
+  describe("escapeXml", () => {
+    it("should escape markup and drop control characters", () => {
+      expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>\u0001`)).toBe(
+        "&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;",
+      );
+    });
+  });
+
+  describe("getFeedUrl", () => {
+    it("should build global and per-agent URLs", () => {
+      expect(getFeedUrl("xml")).toBe(
+        "http://localhost:3000/api/feeds/propiedades.xml",
+      );
+      expect(getFeedUrl("json", "agent-1")).toBe(
+        "http://localhost:3000/api/feeds/agentes/agent-1/propiedades.json",
+      );
+    });
+  });
+
+  describe("buildKyeroFeed", () => {
+    it("should serialize properties as Kyero v3", () => {
+      const xml = buildKyeroFeed([property]);
+
+      expect(xml).toContain("<feed_version>3</feed_version>");
+      expect(xml).toContain("<price>185000</price>");
+      expect(xml).toContain("<currency>USD</currency>");
+      expect(xml).toContain("<type>house</type>");
+      expect(xml).toContain("<date>2026-01-10 12:00:00</date>");
+      expect(xml).toContain(
+        "<url><es>http://localhost:3000/propiedades/prop-1-",
+      );
+      expect(xml).toContain('<image id="2"><url>https://cdn.test/2.jpg</url>');
+      expect(xml).toContain(
+        "<video_url>https://www.youtube.com/watch?v=abc</video_url>",
+      );
+      expect(xml).toContain("&lt;b&gt;amplia&lt;/b&gt;");
+    });
+
+    it("should round-trip through the property importer", () => {
+      const { rows } = parseKyeroXml(
+        buildKyeroFeed([
+          property,
+          {
+            ...property,
+            id: "prop-2",
+            transactionType: "RENT",
+            category: "FARM",
+          },
+        ]),
+      );
+
+      expect(rows[0]).toMatchObject({
+        reference: "prop-1",
+        imageUrls: ["https://cdn.test/1.jpg", "https://cdn.test/2.jpg"],
+        data: {
+          title: property.title,
+          price: 185000,
+          transactionType: "SALE",
+          category: "HOUSE",
+          bedrooms: 3,
+          bathrooms: 2.5,
+          area: 180,
+          city: "Cuenca",
+          latitude: -2.9,
+        },
+      });
+      expect(rows[1]?.data).toMatchObject({
+        transactionType: "RENT",
+        category: "FARM",
+      });
+    });
+  });
+
+  describe("buildJsonFeed", () => {
+    it("should build a JSON Feed 1.1 with structured listing data", () => {
+      const feed = buildJsonFeed(
+        {
+          title: "Propiedades",
+          feedUrl: "http://localhost:3000/api/feeds/propiedades.json",
+          homePageUrl: "http://localhost:3000/propiedades",
+        },
+        [property],
+      );
+
+      expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+      expect(feed.items[0]).toMatchObject({
+        id: "prop-1",
+        image: "https://cdn.test/1.jpg",
+        date_modified: "2026-01-10T12:00:00.000Z",
+        _inmo: {
+          price: 185000,
+          currency: "USD",
+          category: "HOUSE",
+          latitude: -2.9,
+          images: ["https://cdn.test/1.jpg", "https://cdn.test/2.jpg"],
+          videos: [{ platform: "YOUTUBE", title: "Recorrido" }],
+          agent: { id: "agent-1", name: "Ana Agente" },
+        },
+      });
+    });
+  });
+
+  describe("conditional requests", () => {
+    const etag = buildFeedEtag({
+      format: "xml",
+      agentId: "agent-1",
+      count: 2,
+      imageCount: 5,
+      lastModified: updatedAt,
+    });
+
+    it("should change the ETag when the inventory changes", () => {
+      expect(
+        buildFeedEtag({
+          format: "xml",
+          agentId: "agent-1",
+          count: 1,
+          imageCount: 5,
+          lastModified: updatedAt,
+        }),
+      ).not.toBe(etag);
+      expect(
+        buildFeedEtag({
+          format: "json",
+          agentId: "agent-1",
+          count: 2,
+          imageCount: 5,
+          lastModified: updatedAt,
+        }),
+      ).not.toBe(etag);
+    });
+
+    it("should change the ETag when an image is deleted", () => {
+      expect(
+        buildFeedEtag({
+          format: "xml",
+          agentId: "agent-1",
+          count: 2,
+          imageCount: 4,
+          lastModified: updatedAt,
+        }),
+      ).not.toBe(etag);
+    });
+
+    it("should match If-None-Match", () => {
+      const headers = new Headers({ "if-none-match": `"other", ${etag}` });
+      expect(isFeedNotModified(headers, etag, updatedAt)).toBe(true);
+      expect(
+        isFeedNotModified(
+          new Headers({ "if-none-match": '"other"' }),
+          etag,
+          updatedAt,
+        ),
+      ).toBe(false);
+    });
+
+    it("should compare If-Modified-Since with second precision", () => {
+      const same = new Headers({
+        "if-modified-since": updatedAt.toUTCString(),
+      });
+      const older = new Headers({
+        "if-modified-since": new Date(
+          updatedAt.getTime() - 60_000,
+        ).toUTCString(),
+      });
+
+      expect(
+        isFeedNotModified(same, etag, new Date(updatedAt.getTime() + 500)),
+      ).toBe(true);
+      expect(isFeedNotModified(older, etag, updatedAt)).toBe(false);
+      expect(isFeedNotModified(new Headers(), etag, updatedAt)).toBe(false);
+    });
+  });
+});
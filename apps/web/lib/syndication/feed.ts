@@ -0,0 +1,336 @@
+/**
+ * SYNDICATION FEEDS
+ *
+ * Publica el inventario para portales externos y catálogos de Meta
+ * - XML: formato Kyero v3 (el estándar que aceptan la mayoría de portales
+ *   inmobiliarios; el mismo que lee la importación masiva)
+ * - JSON Feed 1.1 con la extensión "_inmo" (datos estructurados de cada propiedad)
+ *
+ * Feeds globales y por agente, con ETag/Last-Modified para que los portales
+ * que consultan cada pocos minutos reciban 304 si nada cambió
+ */
+
+import type { PropertyCategory, SerializedProperty } from "@repo/database";
+import { env } from "@repo/env";
+import { generateSlug } from "@/lib/utils/slug-generator";
+
+export const FEED_CURRENCY = "USD";
+
+export type FeedFormat = "xml" | "json";
+
+/**
+ * Archivos servidos por las rutas de feeds (/api/feeds/…/<archivo>)
+ */
+export const FEED_FILES: Record<string, FeedFormat> = {
+  "propiedades.xml": "xml",
+  "propiedades.json": "json",
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  xml: "application/xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/**
+ * PropertyCategory → tipo de inmueble Kyero (en inglés, como lo esperan los portales)
+ */
+export const KYERO_PROPERTY_TYPES: Record<PropertyCategory, string> = {
+  HOUSE: "house",
+  APARTMENT: "apartment",
+  SUITE: "studio",
+  VILLA: "villa",
+  PENTHOUSE: "penthouse",
+  DUPLEX: "duplex",
+  LOFT: "loft",
+  LAND: "land",
+  COMMERCIAL: "commercial",
+  OFFICE: "office",
+  WAREHOUSE: "warehouse",
+  FARM: "country house",
+};
+
+/**
+ * Canal del feed (global o de un agente)
+ */
+export interface FeedChannel {
+  title: string;
+  /** URL pública del feed (JSON Feed: feed_url) */
+  feedUrl: string;
+  /** Página del inventario en el sitio (JSON Feed: home_page_url) */
+  homePageUrl: string;
+}
+
+/**
+ * URL pública de una propiedad: /propiedades/<id>-<slug>
+ */
+export function getPropertyPublicUrl(
+  property: Pick<SerializedProperty, "id" | "title">,
+): string {
+  return `${env.NEXT_PUBLIC_SITE_URL}/propiedades/${property.id}-${generateSlug(property.title)}`;
+}
+
+/**
+ * URL del feed (global si no se indica agente)
+ */
+export function getFeedUrl(format: FeedFormat, agentId?: string): string {
+  const scope = agentId ? `/agentes/${agentId}` : "";
+  return `${env.NEXT_PUBLIC_SITE_URL}/api/feeds${scope}/propiedades.${format}`;
+}
+
+// ============================================
+// XML (Kyero v3)
+// ============================================
+
+export function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+      // Caracteres de control no permitidos en XML 1.0
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: se eliminan a propósito
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+  );
+}
+
+function xmlElement(tag: string, value: string | number | null | undefined) {
+  if (value === null || value === undefined || value === "") return "";
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+/**
+ * Fecha en formato Kyero: "2026-01-10 12:00:00" (UTC)
+ */
+function formatKyeroDate(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function propertyToKyeroXml(property: SerializedProperty): string {
+  const isLand = property.category === "LAND";
+  const hasLocation = property.latitude !== null && property.longitude !== null;
+  const video = property.videos[0];
+
+  const parts = [
+    xmlElement("id", property.id),
+    xmlElement("date", formatKyeroDate(new Date(property.updatedAt))),
+    xmlElement("ref", property.id),
+    xmlElement("price", Math.round(property.price)),
+    xmlElement("currency", FEED_CURRENCY),
+    xmlElement(
+      "price_freq",
+      property.transactionType === "RENT" ? "month" : "sale",
+    ),
+    xmlElement("type", KYERO_PROPERTY_TYPES[property.category]),
+    xmlElement("town", property.city),
+    xmlElement("province", property.state),
+    xmlElement("postcode", property.zipCode),
+    hasLocation
+      ? `<location>${xmlElement("latitude", property.latitude)}${xmlElement("longitude", property.longitude)}</location>`
+      : "",
+    xmlElement("location_detail", property.address),
+    xmlElement("beds", property.bedrooms),
+    xmlElement("baths", property.bathrooms),
+    property.area
+      ? `<surface_area>${xmlElement(isLand ? "plot" : "built", property.area)}</surface_area>`
+      : "",
+    `<url><es>${escapeXml(getPropertyPublicUrl(property))}</es></url>`,
+    `<title><es>${escapeXml(property.title)}</es></title>`,
+    property.description
+      ? `<desc><es>${escapeXml(property.description)}</es></desc>`
+      : "",
+    property.amenities?.length
+      ? `<features>${property.amenities.map((amenity) => xmlElement("feature", amenity)).join("")}</features>`
+      : "",
+    property.images.length
+      ? `<images>${property.images
+          .map(
+            (image, index) =>
+              `<image id="${index + 1}">${xmlElement("url", image.url)}</image>`,
+          )
+          .join("")}</images>`
+      : "",
+    video ? xmlElement("video_url", video.url) : "",
+  ];
+
+  return `<property>${parts.join("")}</property>`;
+}
+
+/**
+ * Feed XML Kyero v3
+ */
+export function buildKyeroFeed(properties: SerializedProperty[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<root>",
+    "<kyero><feed_version>3</feed_version></kyero>",
+    ...properties.map(propertyToKyeroXml),
+    "</root>",
+  ].join("\n");
+}
+
+// ============================================
+// JSON FEED 1.1
+// ============================================
+
+/**
+ * Datos estructurados de la propiedad (extensión "_inmo" de JSON Feed)
+ */
+export interface JsonFeedPropertyData {
+  price: number;
+  currency: string;
+  transaction_type: SerializedProperty["transactionType"];
+  category: PropertyCategory;
+  status: SerializedProperty["status"];
+  bedrooms: number | null;
+  bathrooms: number | null;
+  area_m2: number | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  amenities: string[];
+  images: string[];
+  videos: { url: string; platform: string; title: string | null }[];
+  agent: { id: string; name: string | null };
+}
+
+export interface JsonFeedItem {
+  id: string;
+  url: string;
+  title: string;
+  content_text: string;
+  summary: string;
+  image?: string;
+  date_published: string;
+  date_modified: string;
+  tags: string[];
+  _inmo: JsonFeedPropertyData;
+}
+
+export interface JsonFeed {
+  version: "https://jsonfeed.org/version/1.1";
+  title: string;
+  home_page_url: string;
+  feed_url: string;
+  language: "es";
+  items: JsonFeedItem[];
+}
+
+function toIsoString(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+function propertyToJsonFeedItem(property: SerializedProperty): JsonFeedItem {
+  const cover = property.images[0]?.url;
+  const location = [property.city, property.state].filter(Boolean).join(", ");
+
+  return {
+    id: property.id,
+    url: getPropertyPublicUrl(property),
+    title: property.title,
+    content_text: property.description ?? "",
+    summary: [KYERO_PROPERTY_TYPES[property.category], location]
+      .filter(Boolean)
+      .join(" · "),
+    ...(cover && { image: cover }),
+    date_published: toIsoString(property.createdAt),
+    date_modified: toIsoString(property.updatedAt),
+    tags: [property.transactionType, property.category],
+    _inmo: {
+      price: property.price,
+      currency: FEED_CURRENCY,
+      transaction_type: property.transactionType,
+      category: property.category,
+      status: property.status,
+      bedrooms: property.bedrooms ?? null,
+      bathrooms: property.bathrooms ?? null,
+      area_m2: property.area ?? null,
+      address: property.address,
+      city: property.city ?? null,
+      state: property.state ?? null,
+      zip_code: property.zipCode,
+      latitude: property.latitude,
+      longitude: property.longitude,
+      amenities: property.amenities ?? [],
+      images: property.images.map((image) => image.url),
+      videos: property.videos.map((video) => ({
+        url: video.url,
+        platform: video.platform,
+        title: video.title,
+      })),
+      agent: { id: property.agent.id, name: property.agent.name },
+    },
+  };
+}
+
+/**
+ * JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+ */
+export function buildJsonFeed(
+  channel: FeedChannel,
+  properties: SerializedProperty[],
+): JsonFeed {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: channel.title,
+    home_page_url: channel.homePageUrl,
+    feed_url: channel.feedUrl,
+    language: "es",
+    items: properties.map(propertyToJsonFeedItem),
+  };
+}
+
+// ============================================
+// HTTP CACHING
+// ============================================
+
+/**
+ * ETag del feed a partir del estado del inventario
+ * Cambia cuando se crea, edita o retira una propiedad publicable, o cuando
+ * se agregan, borran, reordenan u ocultan sus imágenes
+ */
+export function buildFeedEtag(params: {
+  format: FeedFormat;
+  agentId?: string;
+  count: number;
+  imageCount: number;
+  lastModified: Date | null;
+}): string {
+  const scope = params.agentId ?? "all";
+  const stamp = params.lastModified?.getTime() ?? 0;
+  return `W/"${params.format}-${scope}-${params.count}-${params.imageCount}-${stamp}"`;
+}
+
+/**
+ * ¿El cliente ya tiene la versión actual? (304 Not Modified)
+ * If-None-Match tiene prioridad sobre If-Modified-Since (RFC 9110)
+ */
+export function isFeedNotModified(
+  headers: Headers,
+  etag: string,
+  lastModified: Date | null,
+): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim())
+      .some((tag) => tag === "*" || tag === etag);
+  }
+
+  const ifModifiedSince = headers.get("if-modified-since");
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // Last-Modified tiene precisión de segundos
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+    );
+  }
+
+  return false;
+}
@@ -0,0 +1,116 @@
+/**
+ * SYNDICATION FEED RESPONSE
+ *
+ * Respuesta HTTP compartida por las rutas de feeds (global y por agente)
+ * 1. Resolver el formato por nombre de archivo (propiedades.xml / propiedades.json)
+ * 2. Consultar solo el estado del inventario (cantidad + última modificación)
+ * 3. Responder 304 si el ETag o Last-Modified del cliente siguen vigentes
+ * 4. Si no, cargar las propiedades y serializar el feed
+ *
+ * SECURITY:
+ * - Público (los portales no envían credenciales): solo propiedades disponibles
+ * - Rate limit por IP
+ */
+
+import { propertyRepository, userRepository } from "@repo/database";
+import { env } from "@repo/env";
+import { type NextRequest, NextResponse } from "next/server";
+import { enforceRateLimit, isRateLimitError } from "@/lib/rate-limit";
+import { logger } from "@/lib/utils/logger";
+import {
+  buildFeedEtag,
+  buildJsonFeed,
+  buildKyeroFeed,
+  FEED_CONTENT_TYPES,
+  FEED_FILES,
+  getFeedUrl,
+  isFeedNotModified,
+} from "./feed";
+
+/**
+ * Los portales consultan cada pocos minutos; el CDN sirve el resto
+ */
+const FEED_CACHE_CONTROL = "public, max-age=900, stale-while-revalidate=3600";
+
+export async function createFeedResponse(
+  request: NextRequest,
+  file: string,
+  agentId?: string,
+): Promise<NextResponse> {
+  const format = FEED_FILES[file];
+  if (!format) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  try {
+    await enforceRateLimit({ tier: "default" });
+  } catch (error) {
+    if (isRateLimitError(error)) {
+      return new NextResponse("Too many requests", { status: 429 });
+    }
+    throw error;
+  }
+
+  try {
+    let title = "Inmo App - Propiedades";
+
+    if (agentId) {
+      const agent = await userRepository.findById(agentId);
+      if (!agent || (agent.role !== "AGENT" && agent.role !== "ADMIN")) {
+        return new NextResponse("Not found", { status: 404 });
+      }
+      title = `Inmo App - Propiedades de ${agent.name || "agente"}`;
+    }
+
+    const { count, imageCount, lastModified } =
+      await propertyRepository.getSyndicationState(agentId);
+    const etag = buildFeedEtag({
+      format,
+      agentId,
+      count,
+      imageCount,
+      lastModified,
+    });
+
+    const cacheHeaders: Record<string, string> = {
+      ETag: etag,
+      "Cache-Control": FEED_CACHE_CONTROL,
+      ...(lastModified && { "Last-Modified": lastModified.toUTCString() }),
+    };
+
+    if (isFeedNotModified(request.headers, etag, lastModified)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    const properties = await propertyRepository.listForSyndication(agentId);
+
+    const body =
+      format === "xml"
+        ? buildKyeroFeed(properties)
+        : JSON.stringify(
+            buildJsonFeed(
+              {
+                title,
+                feedUrl: getFeedUrl(format, agentId),
+                homePageUrl: agentId
+                  ? `${env.NEXT_PUBLIC_SITE_URL}/agentes/${agentId}`
+                  : `${env.NEXT_PUBLIC_SITE_URL}/propiedades`,
+              },
+              properties,
+            ),
+          );
+
+    return new NextResponse(body, {
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": FEED_CONTENT_TYPES[format],
+      },
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, agentId, file },
+      "[SyndicationFeed] Failed to build feed",
+    );
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
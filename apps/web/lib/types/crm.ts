@@ -22,3 +22,13 @@ export const LEAD_STATUSES: LeadStatus[] = [
   "CLOSED_WON",
   "CLOSED_LOST",
 ];
+
+// Spanish labels (same as the status badge)
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  NEW: "Nuevo",
+  CONTACTED: "Contactado",
+  INTERESTED: "Interesado",
+  NEGOTIATING: "Negociando",
+  CLOSED_WON: "Cerrado",
+  CLOSED_LOST: "Perdido",
+};
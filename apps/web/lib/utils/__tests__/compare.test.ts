@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCompareUrl,
+  getAmenityComparison,
+  getBestValueIndexes,
+  getPricePerSquareMeter,
+  parseCompareIds,
+} from "../compare";
+
+const uuid = (n: number) => `00000000-0000-4000-8000-00000000000${n}`;
+
+describe("parseCompareIds", () => {
+  it("should parse comma separated UUIDs", () => {
+    expect(parseCompareIds(`${uuid(1)},${uuid(2)}`)).toEqual([
+      uuid(1),
+      uuid(2),
+    ]);
+  });
+
+  it("should drop invalid and duplicated ids", () => {
+    expect(
+      parseCompareIds(`${uuid(1)}, nope ,${uuid(1).toUpperCase()},${uuid(2)}`),
+    ).toEqual([uuid(1), uuid(2)]);
+  });
+
+  it("should keep at most 4 ids", () => {
+    const ids = [1, 2, 3, 4, 5].map(uuid);
+    expect(parseCompareIds(ids.join(","))).toEqual(ids.slice(0, 4));
+  });
+
+  it("should accept repeated params and missing values", () => {
+    expect(parseCompareIds([uuid(1), uuid(2)])).toEqual([uuid(1), uuid(2)]);
+    expect(parseCompareIds(undefined)).toEqual([]);
+  });
+});
+
+describe("buildCompareUrl", () => {
+  it("should build a shareable url that parses back", () => {
+    const url = buildCompareUrl([uuid(1), uuid(2)]);
+
+    expect(url).toBe(`/comparar?ids=${uuid(1)},${uuid(2)}`);
+    expect(
+      parseCompareIds(new URL(url, "http://localhost").searchParams.get("ids")),
+    ).toEqual([uuid(1), uuid(2)]);
+  });
+});
+
+describe("getPricePerSquareMeter", () => {
+  it("should divide price by area", () => {
+    expect(getPricePerSquareMeter(120000, 100)).toBe(1200);
+  });
+
+  it("should return null without area", () => {
+    expect(getPricePerSquareMeter(120000, null)).toBeNull();
+    expect(getPricePerSquareMeter(120000, 0)).toBeNull();
+  });
+});
+
+describe("getBestValueIndexes", () => {
+  it("should pick the lowest or highest values", () => {
+    expect(getBestValueIndexes([120000, null, 95000], "min")).toEqual([2]);
+    expect(getBestValueIndexes([3, 4, 4], "max")).toEqual([1, 2]);
+  });
+
+  it("should not pick a winner when values tie or are missing", () => {
+    expect(getBestValueIndexes([2, 2], "max")).toEqual([]);
+    expect(getBestValueIndexes([2, null], "max")).toEqual([]);
+  });
+});
+
+describe("getAmenityComparison", () => {
+  it("should list differing amenities before shared ones", () => {
+    const rows = getAmenityComparison([
+      ["pool", "gym"],
+      ["gym", "garage"],
+    ]);
+
+    expect(rows.map((row) => row.amenity)).toEqual(["pool", "garage", "gym"]);
+    expect(rows[0]).toEqual({
+      amenity: "pool",
+      present: [true, false],
+      isShared: false,
+    });
+    expect(rows[2]?.isShared).toBe(true);
+  });
+
+  it("should skip amenities no property has", () => {
+    expect(getAmenityComparison([[], []])).toEqual([]);
+  });
+});
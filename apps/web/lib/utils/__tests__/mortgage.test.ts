@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { calculateLoanAmount, calculateMonthlyPayment } from "../mortgage";
+
+describe("calculateLoanAmount", () => {
+  it("should subtract the down payment", () => {
+    expect(calculateLoanAmount(100000, 20)).toBe(80000);
+  });
+});
+
+describe("calculateMonthlyPayment", () => {
+  it("should use french amortization", () => {
+    const payment = calculateMonthlyPayment({
+      price: 100000,
+      downPaymentPercent: 20,
+      termYears: 20,
+      interestRate: 10.5,
+    });
+
+    expect(payment).toBeCloseTo(798.7, 2);
+  });
+
+  it("should split the loan evenly without interest", () => {
+    expect(
+      calculateMonthlyPayment({
+        price: 120000,
+        downPaymentPercent: 0,
+        termYears: 10,
+        interestRate: 0,
+      }),
+    ).toBe(1000);
+  });
+
+  it("should return 0 when there is nothing to finance", () => {
+    expect(
+      calculateMonthlyPayment({
+        price: 100000,
+        downPaymentPercent: 100,
+        termYears: 20,
+        interestRate: 10.5,
+      }),
+    ).toBe(0);
+  });
+});
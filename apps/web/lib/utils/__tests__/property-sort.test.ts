@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { MapProperty } from "@/components/map/map-view";
+import { sortMapProperties } from "../property-sort";
+
+function mapProperty(
+  id: string,
+  overrides: Partial<MapProperty> = {},
+): MapProperty {
+  return {
+    id,
+    title: `Propiedad ${id}`,
+    price: 100000,
+    transactionType: "SALE",
+    latitude: -2.9,
+    longitude: -79.0,
+    ...overrides,
+  };
+}
+
+const ids = (properties: MapProperty[]) => properties.map((p) => p.id);
+
+describe("sortMapProperties", () => {
+  const properties = [
+    mapProperty("a", { price: 200000, area: 100 }),
+    mapProperty("b", { price: 90000, area: null }),
+    mapProperty("c", { price: 150000, area: 150 }),
+  ];
+
+  it("should sort by price in both directions", () => {
+    expect(ids(sortMapProperties(properties, "price_asc"))).toEqual([
+      "b",
+      "c",
+      "a",
+    ]);
+    expect(ids(sortMapProperties(properties, "price_desc"))).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+  });
+
+  it("should keep properties without area last", () => {
+    expect(ids(sortMapProperties(properties, "price_per_m2"))).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+    expect(ids(sortMapProperties(properties, "area_desc"))).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+
+  it("should sort by distance from the origin", () => {
+    const nearby = [
+      mapProperty("far", { latitude: -2.8, longitude: -79.1 }),
+      mapProperty("near", { latitude: -2.901, longitude: -79.001 }),
+      mapProperty("unknown", { latitude: null, longitude: null }),
+    ];
+
+    expect(ids(sortMapProperties(nearby, "distance", [-79.0, -2.9]))).toEqual([
+      "near",
+      "far",
+      "unknown",
+    ]);
+    expect(ids(sortMapProperties(nearby, "distance"))).toEqual(ids(nearby));
+  });
+
+  it("should keep the server order for newest and most viewed", () => {
+    expect(sortMapProperties(properties, "most_viewed")).toBe(properties);
+    expect(sortMapProperties(properties, undefined)).toBe(properties);
+  });
+});
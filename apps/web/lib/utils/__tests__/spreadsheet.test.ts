@@ -0,0 +1,97 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import {
+  parseCsv,
+  parseSpreadsheet,
+  parseXlsx,
+  toCsv,
+  toXlsx,
+} from "../spreadsheet";
+
+describe("CSV", () => {
+  it("round-trips quotes, separators and line breaks", () => {
+    const rows = [
+      ["Nombre", "Notas"],
+      ['Ana "la jefa"', "Llamar lunes, 9am\nsegunda línea"],
+      ["Peña; José", ""],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("starts with a BOM so Excel reads UTF-8", () => {
+    expect(toCsv([["ñ"]]).charCodeAt(0)).toBe(0xfeff);
+  });
+
+  it("detects semicolon-separated files (Excel in Spanish)", () => {
+    expect(parseCsv("Nombre;Email\r\nAna;ana@example.com\r\n")).toEqual([
+      ["Nombre", "Email"],
+      ["Ana", "ana@example.com"],
+    ]);
+  });
+
+  it("skips empty lines", () => {
+    expect(parseCsv("a,b\n\n,\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("neutralizes formulas but keeps phone numbers", () => {
+    const csv = toCsv([['=HYPERLINK("x")', "+57 300 123 4567", "-5"]]);
+
+    expect(csv).toContain("'=HYPERLINK");
+    expect(csv).toContain(",+57 300 123 4567,");
+    expect(csv.endsWith(",-5")).toBe(true);
+  });
+});
+
+describe("XLSX", () => {
+  it("round-trips text cells", () => {
+    const rows = [
+      ["Nombre", "Email", "Notas"],
+      ["José & María", "jm@example.com", "<b>no es html</b>"],
+      ["", "solo@example.com", ""],
+    ];
+
+    expect(parseXlsx(toXlsx(rows))).toEqual(rows);
+  });
+
+  it("reads shared strings, numbers and sparse cells from Excel files", () => {
+    const xlsx = zipSync({
+      "xl/sharedStrings.xml": strToU8(
+        "<sst><si><t>Nombre</t></si><si><r><t>Te</t></r><r><t>léfono</t></r></si><si><t>Ana</t></si></sst>",
+      ),
+      "xl/worksheets/sheet1.xml": strToU8(
+        '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row><row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>3001234567</v></c></row></sheetData></worksheet>',
+      ),
+    });
+
+    expect(parseXlsx(xlsx)).toEqual([
+      ["Nombre", "", "Teléfono"],
+      ["Ana", "", "3001234567"],
+    ]);
+  });
+
+  it("rejects files that are not zip archives", () => {
+    expect(() => parseXlsx(strToU8("Nombre,Email"))).toThrow(
+      "El archivo no es un Excel (.xlsx) válido",
+    );
+  });
+});
+
+describe("parseSpreadsheet", () => {
+  it("picks the parser from the file extension", () => {
+    expect(parseSpreadsheet("clientes.CSV", strToU8("a,b\n1,2"))).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+    expect(parseSpreadsheet("clientes.xlsx", toXlsx([["a"]]))).toEqual([["a"]]);
+  });
+
+  it("rejects unsupported formats", () => {
+    expect(() => parseSpreadsheet("clientes.xls", new Uint8Array())).toThrow(
+      "Formato no soportado",
+    );
+  });
+});
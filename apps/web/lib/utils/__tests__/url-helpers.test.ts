@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFilterUrl,
+  buildPolygonUrl,
+  parseFilterParams,
+  parsePolygonParam,
+  serializePolygon,
+} from "../url-helpers";
+
+describe("filter URL params", () => {
+  it("should round-trip amenities through buildFilterUrl", () => {
+    const query = buildFilterUrl({
+      category: ["HOUSE"],
+      amenities: ["pool", "garage"],
+      amenitiesMatch: "any",
+    });
+
+    expect(query).toBe(
+      "category=HOUSE&amenities=pool&amenities=garage&amenitiesMatch=any",
+    );
+    expect(parseFilterParams(new URLSearchParams(query))).toEqual({
+      category: ["HOUSE"],
+      amenities: ["pool", "garage"],
+      amenitiesMatch: "any",
+    });
+  });
+
+  it("should omit the default match mode", () => {
+    expect(
+      buildFilterUrl({ amenities: ["garden"], amenitiesMatch: "all" }),
+    ).toBe("amenities=garden");
+  });
+
+  it("should drop unknown amenities without rejecting the other filters", () => {
+    expect(
+      parseFilterParams({ amenities: ["pool", "helipuerto"], bedrooms: "2" }),
+    ).toEqual({ amenities: ["pool"], bedrooms: 2 });
+  });
+});
+
+describe("polygon URL params", () => {
+  const polygon: [number, number][] = [
+    [-79.01, -2.91],
+    [-78.99, -2.91],
+    [-79.0, -2.89],
+  ];
+
+  it("should round-trip a drawn area and preserve other params", () => {
+    const query = buildPolygonUrl(
+      polygon,
+      new URLSearchParams("view=map&page=3&ne_lat=-2.85"),
+    );
+
+    expect(query).toBe(
+      "view=map&ne_lat=-2.85&polygon=-79.0100%2C-2.9100%3B-78.9900%2C-2.9100%3B-79.0000%2C-2.8900",
+    );
+    expect(parsePolygonParam(new URLSearchParams(query))).toEqual(polygon);
+  });
+
+  it("should remove the area when cleared", () => {
+    expect(
+      buildPolygonUrl(null, new URLSearchParams("view=map&polygon=x")),
+    ).toBe("view=map");
+  });
+
+  it("should drop collapsed and closing vertices", () => {
+    expect(
+      serializePolygon([
+        [-79.01, -2.91],
+        [-79.01001, -2.91001],
+        [-78.99, -2.91],
+        [-79.0, -2.89],
+        [-79.01, -2.91],
+      ]),
+    ).toBe("-79.0100,-2.9100;-78.9900,-2.9100;-79.0000,-2.8900");
+  });
+
+  it("should reject malformed areas without rejecting the other filters", () => {
+    expect(parsePolygonParam({ polygon: "-79,-2.9;-78.9,-2.9" })).toBeNull();
+    expect(
+      parsePolygonParam({ polygon: "-79,-2.9;-78.9,abc;-79,-2.8" }),
+    ).toBeNull();
+    expect(
+      parsePolygonParam({ polygon: "-79,-2.9;-78.9,-95;-79,-2.8" }),
+    ).toBeNull();
+    expect(
+      parsePolygonParam({ polygon: "-79,-2.9;-78.9,-2.9;-79,-2.9" }),
+    ).toBeNull();
+    expect(
+      parsePolygonParam({ polygon: "-79,-2.9;-79,-2.9;-78.9,-2.9" }),
+    ).toBeNull();
+    expect(parseFilterParams({ polygon: "invalid", bedrooms: "2" })).toEqual({
+      bedrooms: 2,
+    });
+    expect(
+      parseFilterParams({ polygon: "-79.01,-2.91;-78.99,-2.91;-79,-2.89" }),
+    ).toEqual({ polygon });
+  });
+
+  it("should drop the closing vertex of a closed area", () => {
+    expect(
+      parsePolygonParam({
+        polygon: "-79.01,-2.91;-78.99,-2.91;-79,-2.89;-79.01,-2.91",
+      }),
+    ).toEqual(polygon);
+  });
+});
+
+describe("sort URL params", () => {
+  it("should round-trip the distance order with its origin", () => {
+    const query = buildFilterUrl({
+      city: "Cuenca",
+      sort: "distance",
+      near: [-79.0, -2.9],
+    });
+
+    expect(query).toBe("city=Cuenca&sort=distance&near=-79.0000%2C-2.9000");
+    expect(parseFilterParams(new URLSearchParams(query))).toEqual({
+      city: "Cuenca",
+      sort: "distance",
+      near: [-79, -2.9],
+    });
+  });
+
+  it("should only persist the origin for the distance order", () => {
+    expect(buildFilterUrl({ sort: "price_asc", near: [-79.0, -2.9] })).toBe(
+      "sort=price_asc",
+    );
+  });
+
+  it("should drop an unknown order without rejecting the other filters", () => {
+    expect(parseFilterParams({ sort: "cheapest", bedrooms: "3" })).toEqual({
+      bedrooms: 3,
+    });
+  });
+});
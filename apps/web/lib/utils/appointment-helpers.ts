@@ -7,6 +7,7 @@
 import type { AppointmentStatus } from "@prisma/client";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from "@/lib/constants/availability";
 
 /**
  * Formatar fecha de cita para mostrar al usuario
@@ -101,13 +102,15 @@ export function getCancelConfirmationMessage(
  * Obtener asunto de email para confirmación de cita
  */
 export function getAppointmentEmailSubject(
-  type: "created" | "confirmed" | "cancelled",
+  type: "created" | "confirmed" | "cancelled" | "rescheduled" | "reminder",
   property: string,
 ): string {
   const subjectMap = {
     created: `Nueva cita agendada - ${property}`,
     confirmed: `Cita confirmada - ${property}`,
     cancelled: `Cita cancelada - ${property}`,
+    rescheduled: `Cita reprogramada - ${property}`,
+    reminder: `Recordatorio de cita - ${property}`,
   };
 
   return subjectMap[type];
@@ -115,10 +118,12 @@ export function getAppointmentEmailSubject(
 
 /**
  * Calcular duración de una cita (en minutos)
- * Las citas son por hora
+ * Usa la duración guardada en la cita o la duración por defecto (1 hora)
  */
-export function getAppointmentDuration(): number {
-  return 60; // minutos
+export function getAppointmentDuration(
+  durationMinutes?: number | null,
+): number {
+  return durationMinutes ?? DEFAULT_APPOINTMENT_DURATION_MINUTES;
 }
 
 /**
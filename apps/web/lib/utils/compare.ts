@@ -0,0 +1,107 @@
+/**
+ * COMPARE UTILITIES
+ *
+ * Comparación de 2–4 propiedades lado a lado (/comparar?ids=a,b,c)
+ * - Selección persistida en useCompareStore (localStorage)
+ * - La URL es la fuente de verdad de la página: se puede compartir
+ *
+ * Client-safe: sin dependencias de servidor
+ */
+
+import { AMENITY_IDS, type AmenityId } from "@/lib/constants/amenities";
+
+export const MIN_COMPARE_PROPERTIES = 2;
+export const MAX_COMPARE_PROPERTIES = 4;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parsea ?ids= (separados por coma)
+ * Descarta IDs inválidos y duplicados; máximo MAX_COMPARE_PROPERTIES
+ *
+ * @example
+ * parseCompareIds("a1b2…,c3d4…") // ["a1b2…", "c3d4…"]
+ */
+export function parseCompareIds(
+  value: string | string[] | null | undefined,
+): string[] {
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "");
+  const ids = raw
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => UUID_PATTERN.test(id));
+
+  return [...new Set(ids)].slice(0, MAX_COMPARE_PROPERTIES);
+}
+
+/**
+ * URL compartible de la comparación
+ */
+export function buildCompareUrl(ids: string[]): string {
+  return `/comparar?ids=${ids.slice(0, MAX_COMPARE_PROPERTIES).join(",")}`;
+}
+
+/**
+ * Precio por m² (null sin área)
+ */
+export function getPricePerSquareMeter(
+  price: number,
+  area: number | null | undefined,
+): number | null {
+  return area && area > 0 ? price / area : null;
+}
+
+export interface AmenityComparisonRow {
+  amenity: AmenityId;
+  /** Por propiedad, en el orden recibido */
+  present: boolean[];
+  /** Todas las propiedades la tienen: no las diferencia */
+  isShared: boolean;
+}
+
+/**
+ * Filas de amenidades que tiene al menos una propiedad
+ * Las que diferencian a las propiedades van primero
+ */
+export function getAmenityComparison(
+  amenitiesByProperty: string[][],
+): AmenityComparisonRow[] {
+  const rows = AMENITY_IDS.map((amenity) => {
+    const present = amenitiesByProperty.map((amenities) =>
+      amenities.includes(amenity),
+    );
+    return {
+      amenity,
+      present,
+      isShared: present.every(Boolean),
+    };
+  }).filter((row) => row.present.some(Boolean));
+
+  return [
+    ...rows.filter((row) => !row.isShared),
+    ...rows.filter((row) => row.isShared),
+  ];
+}
+
+/**
+ * Índices con el mejor valor de una fila (para resaltarlos)
+ * Vacío si hay menos de 2 valores o todos son iguales: no hay ganador
+ *
+ * @example
+ * getBestValueIndexes([120000, null, 95000], "min") // [2]
+ */
+export function getBestValueIndexes(
+  values: (number | null | undefined)[],
+  best: "min" | "max",
+): number[] {
+  const known = values.filter(
+    (value): value is number => typeof value === "number",
+  );
+  if (known.length < 2) return [];
+
+  const target = best === "min" ? Math.min(...known) : Math.max(...known);
+  if (known.every((value) => value === target)) return [];
+
+  return values.flatMap((value, index) => (value === target ? [index] : []));
+}
@@ -0,0 +1,87 @@
+/**
+ * SERVER-SIDE GEOCODING
+ *
+ * Convierte una dirección en coordenadas con la API de Mapbox
+ * (mismo endpoint que AddressAutocomplete, pero sin interacción del usuario)
+ *
+ * USO:
+ * - Importación masiva de propiedades sin latitud/longitud
+ *
+ * Nunca lanza: si no hay token, la dirección no se encuentra o la API
+ * falla, devuelve null y la propiedad se crea sin coordenadas
+ */
+
+import { env } from "@/lib/env";
+import { logger } from "@/lib/utils/logger";
+
+const GEOCODING_TIMEOUT_MS = 5000;
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  placeName: string;
+}
+
+interface MapboxGeocodingResponse {
+  features?: {
+    center?: [number, number];
+    place_name?: string;
+  }[];
+}
+
+/**
+ * Geocodificar una dirección
+ *
+ * @param parts - Partes de la dirección (vacías se ignoran): calle, ciudad, provincia…
+ * @returns Coordenadas del mejor resultado, o null
+ */
+export async function geocodeAddress(
+  parts: (string | null | undefined)[],
+): Promise<GeocodeResult | null> {
+  const token = env.NEXT_PUBLIC_MAPBOX_TOKEN;
+  const query = parts
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+
+  if (!token || query.length < 3) {
+    return null;
+  }
+
+  const endpoint = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(
+    query,
+  )}.json?access_token=${token}&language=es&limit=1`;
+
+  try {
+    const response = await fetch(endpoint, {
+      signal: AbortSignal.timeout(GEOCODING_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      logger.warn(
+        { status: response.status, query },
+        "[Geocoding] Mapbox request failed",
+      );
+      return null;
+    }
+
+    const data = (await response.json()) as MapboxGeocodingResponse;
+    const feature = data.features?.[0];
+
+    if (!feature?.center) {
+      return null;
+    }
+
+    // Mapbox devuelve [lng, lat]
+    const [longitude, latitude] = feature.center;
+
+    return {
+      latitude,
+      longitude,
+      placeName: feature.place_name ?? query,
+    };
+  } catch (error) {
+    logger.warn({ err: error, query }, "[Geocoding] Error geocoding address");
+    return null;
+  }
+}
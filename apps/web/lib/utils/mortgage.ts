@@ -0,0 +1,93 @@
+/**
+ * MORTGAGE UTILITIES
+ *
+ * Cálculo de cuota hipotecaria (amortización francesa) y tipos de crédito
+ * de Ecuador. Compartido por la calculadora del detalle de propiedad y la
+ * vista de comparación
+ *
+ * Client-safe: sin dependencias de servidor
+ */
+
+export type LoanType = "vip" | "biess" | "private";
+
+export const LOAN_TYPES: Record<
+  LoanType,
+  {
+    label: string;
+    rate: number;
+    maxTerm: number;
+    /** Entrada habitual (%) */
+    downPaymentPercent: number;
+    description: string;
+  }
+> = {
+  vip: {
+    label: "Crédito VIP/VIS",
+    rate: 4.99,
+    maxTerm: 25,
+    // VIP usually requires less down payment (5%), others 20%
+    downPaymentPercent: 5,
+    description:
+      "Tasa subsidiada (4.99%) para primera vivienda nueva hasta $105,340 (aprox).",
+  },
+  biess: {
+    label: "BIESS / IESS",
+    rate: 8.5,
+    maxTerm: 25,
+    downPaymentPercent: 20,
+    description: "Préstamo hipotecario para afiliados al IESS.",
+  },
+  private: {
+    label: "Banca Privada",
+    rate: 10.5,
+    maxTerm: 20,
+    downPaymentPercent: 20,
+    description: "Crédito hipotecario estándar de bancos privados.",
+  },
+};
+
+export interface MortgageParams {
+  price: number;
+  /** Entrada en % del precio */
+  downPaymentPercent: number;
+  termYears: number;
+  /** Tasa anual en % */
+  interestRate: number;
+}
+
+/**
+ * Monto del préstamo: precio menos la entrada
+ */
+export function calculateLoanAmount(
+  price: number,
+  downPaymentPercent: number,
+): number {
+  return price - (price * downPaymentPercent) / 100;
+}
+
+/**
+ * Cuota mensual (amortización francesa)
+ * Sin seguros ni impuestos; 0 si no hay préstamo
+ *
+ * @example
+ * calculateMonthlyPayment({ price: 100000, downPaymentPercent: 20, termYears: 20, interestRate: 10.5 })
+ * // ≈ 798.70
+ */
+export function calculateMonthlyPayment({
+  price,
+  downPaymentPercent,
+  termYears,
+  interestRate,
+}: MortgageParams): number {
+  const loanAmount = calculateLoanAmount(price, downPaymentPercent);
+  if (loanAmount <= 0) return 0;
+
+  const numberOfPayments = termYears * 12;
+  if (numberOfPayments <= 0) return 0;
+  if (interestRate === 0) return loanAmount / numberOfPayments;
+
+  const monthlyRate = interestRate / 100 / 12;
+  const growth = (1 + monthlyRate) ** numberOfPayments;
+
+  return loanAmount * ((monthlyRate * growth) / (growth - 1));
+}
@@ -0,0 +1,73 @@
+/**
+ * Client-side ordering of map properties
+ *
+ * The paginated list is ordered by the server (?sort=…); the map list
+ * (PropertyListDrawer) shows the pins already loaded, so it applies the same
+ * order in memory. Orders that need server data (newest, most_viewed) keep
+ * the server order.
+ */
+
+import type { GeoPoint, PropertySort } from "@repo/database";
+import type { MapProperty } from "@/components/map/map-view";
+import { calculateDistance } from "./url-helpers";
+
+/**
+ * Compare nullable values keeping missing ones at the end
+ */
+function compareNullable(
+  a: number | null | undefined,
+  b: number | null | undefined,
+  direction: 1 | -1,
+): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return (a - b) * direction;
+}
+
+function pricePerSquareMeter(property: MapProperty): number | null {
+  return property.area ? property.price / property.area : null;
+}
+
+function distanceFrom(property: MapProperty, origin: GeoPoint): number | null {
+  if (property.latitude === null || property.longitude === null) return null;
+  return calculateDistance(
+    origin[1],
+    origin[0],
+    property.latitude,
+    property.longitude,
+  );
+}
+
+/**
+ * Sort map properties like the server sorts the list (stable, non-mutating)
+ *
+ * @param origin - Map center [lng, lat], required for "distance"
+ */
+export function sortMapProperties(
+  properties: MapProperty[],
+  sort: PropertySort | undefined,
+  origin?: GeoPoint | null,
+): MapProperty[] {
+  switch (sort) {
+    case "price_asc":
+      return [...properties].sort((a, b) => a.price - b.price);
+    case "price_desc":
+      return [...properties].sort((a, b) => b.price - a.price);
+    case "price_per_m2":
+      return [...properties].sort((a, b) =>
+        compareNullable(pricePerSquareMeter(a), pricePerSquareMeter(b), 1),
+      );
+    case "area_desc":
+      return [...properties].sort((a, b) =>
+        compareNullable(a.area, b.area, -1),
+      );
+    case "distance":
+      if (!origin) return properties;
+      return [...properties].sort((a, b) =>
+        compareNullable(distanceFrom(a, origin), distanceFrom(b, origin), 1),
+      );
+    default:
+      return properties;
+  }
+}
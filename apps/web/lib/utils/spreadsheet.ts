@@ -0,0 +1,343 @@
+/**
+ * SPREADSHEET HELPERS (CSV / XLSX)
+ *
+ * Lectura y escritura de hojas de cálculo simples (una hoja, solo texto)
+ * - Exportación e importación de contactos del CRM
+ * - Importación masiva de propiedades
+ * - CSV: RFC 4180, detecta separador "," o ";" (Excel en español usa ";")
+ * - XLSX: Office Open XML mínimo (zip con fflate), primera hoja del libro
+ *
+ * Client-safe: se usa en el navegador (previsualizar el archivo) y en el servidor
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+export type SpreadsheetRows = string[][];
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export const SPREADSHEET_MIME_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Evitar inyección de fórmulas al abrir el CSV en Excel/Sheets
+ * (=, @ o +/- seguidos de algo que no sea un número, ej. "+57 300..." es válido)
+ */
+function escapeFormula(value: string): string {
+  if (/^[=@\t\r]/.test(value) || /^[+-][^\d\s]/.test(value)) {
+    return `'${value}`;
+  }
+  return value;
+}
+
+function toCsvCell(value: string): string {
+  const safe = escapeFormula(value);
+  return /[",;\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serializar filas a CSV
+ * Incluye BOM para que Excel detecte UTF-8 (tildes y ñ)
+ */
+export function toCsv(rows: SpreadsheetRows): string {
+  return `\uFEFF${rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n")}`;
+}
+
+/**
+ * Detectar el separador usando la primera línea (fuera de comillas)
+ */
+function detectDelimiter(text: string): "," | ";" {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && char === ",") commas++;
+    else if (!inQuotes && char === ";") semicolons++;
+  }
+
+  return semicolons > commas ? ";" : ",";
+}
+
+/**
+ * Parsear CSV (campos entre comillas, comillas escapadas y saltos de línea)
+ * Las filas completamente vacías se descartan
+ */
+export function parseCsv(input: string): SpreadsheetRows {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      pushRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Caracteres de control no permitidos en XML 1.0
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: se eliminan a propósito
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(
+      /&(amp|lt|gt|quot|apos);/g,
+      (entity) => XML_ENTITIES[entity] ?? entity,
+    )
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) =>
+      String.fromCodePoint(Number.parseInt(dec, 10)),
+    );
+}
+
+/**
+ * Índice de columna → letra(s) (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+/**
+ * Letra(s) de la referencia de celda → índice de columna ("B7" → 1)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/**
+ * Generar un libro XLSX con una sola hoja (todas las celdas como texto)
+ */
+export function toXlsx(
+  rows: SpreadsheetRows,
+  sheetName = "Hoja1",
+): Uint8Array<ArrayBuffer> {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => {
+          const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const files: Record<string, string> = {
+    "[Content_Types].xml": `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    "_rels/.rels": `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    "xl/workbook.xml": `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels": `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    "xl/worksheets/sheet1.xml": `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+  };
+
+  // Copia con ArrayBuffer propio (BodyInit de Response no acepta ArrayBufferLike)
+  return new Uint8Array(
+    zipSync(
+      Object.fromEntries(
+        Object.entries(files).map(([path, content]) => [
+          path,
+          strToU8(content),
+        ]),
+      ),
+    ),
+  );
+}
+
+/**
+ * Texto de un nodo <si> / <is> (concatena los runs de texto enriquecido)
+ */
+function readTextRuns(xml: string): string {
+  const runs = xml.match(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g) ?? [];
+  return runs
+    .map((run) => unescapeXml(run.replace(/^<t(?:\s[^>]*)?>|<\/t>$/g, "")))
+    .join("");
+}
+
+/**
+ * Ruta de la primera hoja según workbook.xml (fallback: sheet1.xml)
+ */
+function firstSheetPath(files: Record<string, Uint8Array>): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = files["xl/workbook.xml"];
+  const rels = files["xl/_rels/workbook.xml.rels"];
+  if (!workbook || !rels) return fallback;
+
+  const relId = strFromU8(workbook).match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (!relId) return fallback;
+
+  const relationship = strFromU8(rels)
+    .match(/<Relationship\b[^>]*>/g)
+    ?.find((tag) => tag.includes(`Id="${relId}"`));
+  const target = relationship?.match(/Target="([^"]+)"/)?.[1];
+  if (!target) return fallback;
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Leer la primera hoja de un XLSX como filas de texto
+ * Soporta strings compartidos, inline strings, números y booleanos
+ *
+ * @throws Error si el archivo no es un XLSX válido
+ */
+export function parseXlsx(data: Uint8Array): SpreadsheetRows {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error("El archivo no es un Excel (.xlsx) válido");
+  }
+
+  const sheet = files[firstSheetPath(files)];
+  if (!sheet) {
+    throw new Error("El archivo no es un Excel (.xlsx) válido");
+  }
+
+  const sharedStringsXml = files["xl/sharedStrings.xml"];
+  const sharedStrings = sharedStringsXml
+    ? (strFromU8(sharedStringsXml).match(/<si>[\s\S]*?<\/si>/g) ?? []).map(
+        readTextRuns,
+      )
+    : [];
+
+  const rows: SpreadsheetRows = [];
+  const rowMatches = strFromU8(sheet).match(/<row\b[\s\S]*?<\/row>/g) ?? [];
+
+  for (const rowXml of rowMatches) {
+    const row: string[] = [];
+    const cells = rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/g) ?? [];
+
+    for (const cellXml of cells) {
+      const attributes = cellXml.match(/^<c\b([^>]*)/)?.[1] ?? "";
+      const ref = attributes.match(/\br="([^"]+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && rawValue !== undefined) {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readTextRuns(cellXml);
+      } else if (type === "b") {
+        value = rawValue === "1" ? "TRUE" : "FALSE";
+      } else if (rawValue !== undefined) {
+        value = unescapeXml(rawValue);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Leer un archivo subido por el usuario según su extensión
+ *
+ * @throws Error si el formato no es soportado o el archivo está dañado
+ */
+export function parseSpreadsheet(
+  fileName: string,
+  data: Uint8Array,
+): SpreadsheetRows {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  if (extension === "csv" || extension === "txt") {
+    return parseCsv(new TextDecoder("utf-8").decode(data));
+  }
+  if (extension === "xlsx") {
+    return parseXlsx(data);
+  }
+
+  throw new Error("Formato no soportado. Usa un archivo .csv o .xlsx");
+}
@@ -12,9 +12,19 @@
  * - parseMapParams(): Extract and validate viewport from URL
  * - buildBoundsUrl(): Construct URL with bounds params
  * - parseBoundsParams(): Extract and validate bounds from URL
+ * - buildPolygonUrl(): Construct URL with a drawn area (polygon param)
+ * - parsePolygonParam(): Extract and validate a drawn area from URL
  */
 
+import type { GeoPoint, GeoPolygon } from "@repo/database";
 import mapboxgl from "mapbox-gl";
+import {
+  AMENITY_IDS,
+  AMENITY_MATCH_MODES,
+  type AmenityId,
+  isAmenityId,
+} from "@/lib/constants/amenities";
+import { isPropertySort, PROPERTY_SORTS } from "@/lib/constants/property-sort";
 import { logger } from "@/lib/utils/logger";
 
 /**
@@ -56,6 +66,8 @@ const CONSTRAINTS = {
   ZOOM_MIN: 0,
   ZOOM_MAX: 22,
   DECIMAL_PLACES: 4, // Precision: ~11m at equator
+  POLYGON_MIN_POINTS: 3,
+  POLYGON_MAX_POINTS: 50, // Keeps the URL short and the PostGIS query cheap
 } as const;
 
 /**
@@ -485,6 +497,153 @@ export function parseBoundsParams(
   }
 }
 
+/**
+ * Serialize a point as "lng,lat" (GeoJSON order, 4 decimals)
+ * Used by the "polygon" and "near" URL params
+ *
+ * @example
+ * serializePoint([-79.0, -2.9]) // Returns: "-79.0000,-2.9000"
+ */
+export function serializePoint([lng, lat]: GeoPoint): string {
+  return `${lng.toFixed(CONSTRAINTS.DECIMAL_PLACES)},${lat.toFixed(CONSTRAINTS.DECIMAL_PLACES)}`;
+}
+
+/**
+ * Parse a "lng,lat" point
+ *
+ * @returns Point, or null if the value is malformed or out of range
+ */
+export function parsePoint(value: unknown): GeoPoint | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== "string") return null;
+
+  const [lngText, latText, ...rest] = raw.split(",");
+  if (!lngText || !latText || rest.length > 0) return null;
+
+  const lng = Number(lngText);
+  const lat = Number(latText);
+  if (!isValidCoordinate(lat, lng)) return null;
+
+  return [lng, lat];
+}
+
+/**
+ * Serialize a drawn area for the "polygon" URL param
+ * Vertices in GeoJSON order (lng,lat) separated by ";", rounded to 4 decimals
+ * Consecutive vertices that collapse after rounding are dropped
+ *
+ * @example
+ * serializePolygon([[-79.01, -2.91], [-78.99, -2.91], [-79.0, -2.89]])
+ * // Returns: "-79.0100,-2.9100;-78.9900,-2.9100;-79.0000,-2.8900"
+ */
+export function serializePolygon(polygon: GeoPolygon): string {
+  const vertices: string[] = [];
+
+  for (const point of polygon) {
+    const vertex = serializePoint(point);
+    if (vertices[vertices.length - 1] !== vertex) {
+      vertices.push(vertex);
+    }
+  }
+
+  // Closing vertex is implicit
+  if (vertices.length > 1 && vertices[0] === vertices[vertices.length - 1]) {
+    vertices.pop();
+  }
+
+  return vertices.join(";");
+}
+
+/**
+ * Parse a "polygon" URL param value
+ *
+ * @returns Polygon vertices (without a repeated closing vertex), or null if
+ * the value is missing or invalid (wrong format, out-of-range coordinates,
+ * fewer than 3 distinct or more than 50 vertices)
+ */
+export function parsePolygon(value: unknown): GeoPolygon | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== "string" || !raw) return null;
+
+  const vertices = raw.split(";");
+  if (
+    vertices.length < CONSTRAINTS.POLYGON_MIN_POINTS ||
+    vertices.length > CONSTRAINTS.POLYGON_MAX_POINTS
+  ) {
+    return null;
+  }
+
+  const polygon: GeoPolygon = [];
+  for (const vertex of vertices) {
+    const point = parsePoint(vertex);
+    if (!point) return null;
+    polygon.push(point);
+  }
+
+  // Closing vertex is implicit: "A;B;A" is a line, not an area
+  const first = polygon[0];
+  const last = polygon[polygon.length - 1];
+  if (first && last && first[0] === last[0] && first[1] === last[1]) {
+    polygon.pop();
+  }
+
+  const distinct = new Set(polygon.map(([lng, lat]) => `${lng},${lat}`));
+  if (distinct.size < CONSTRAINTS.POLYGON_MIN_POINTS) return null;
+
+  return polygon;
+}
+
+/**
+ * Parse and validate the drawn area from URL search params
+ *
+ * @example
+ * const params = new URLSearchParams("polygon=-79.01,-2.91;-78.99,-2.91;-79,-2.89")
+ * parsePolygonParam(params)
+ * // Returns: [[-79.01, -2.91], [-78.99, -2.91], [-79, -2.89]]
+ */
+export function parsePolygonParam(
+  searchParams: URLSearchParams | Record<string, string | string[] | undefined>,
+): GeoPolygon | null {
+  return parsePolygon(
+    searchParams instanceof URLSearchParams
+      ? searchParams.get("polygon")
+      : searchParams.polygon,
+  );
+}
+
+/**
+ * Build query string with the drawn area ("polygon" param)
+ * PRESERVES existing query parameters (bounds, filters, view), like buildBoundsUrl
+ * Resets pagination: the result set changes with the area
+ *
+ * @param polygon - Drawn area, or null to remove it
+ * @param currentParams - Optional current URLSearchParams to preserve
+ * @returns Query string (e.g., "view=map&polygon=-79.0100,-2.9100;...")
+ */
+export function buildPolygonUrl(
+  polygon: GeoPolygon | null,
+  currentParams?: URLSearchParams,
+): string {
+  const params = currentParams
+    ? new URLSearchParams(currentParams)
+    : new URLSearchParams();
+
+  params.delete("page");
+
+  if (polygon && polygon.length >= CONSTRAINTS.POLYGON_MIN_POINTS) {
+    params.set("polygon", serializePolygon(polygon));
+  } else {
+    params.delete("polygon");
+  }
+
+  return params.toString();
+}
+
+/**
+ * Maximum vertices accepted in a drawn area
+ */
+export const MAX_POLYGON_POINTS = CONSTRAINTS.POLYGON_MAX_POINTS;
+
 import { z } from "zod";
 
 /**
@@ -555,6 +714,33 @@ const FilterSchema = z.object({
   maxArea: z.coerce.number().positive().optional(),
   city: z.string().optional(),
   search: z.string().optional(),
+  // Repeated params (?amenities=pool&amenities=garage); unknown ids are dropped
+  amenities: z.preprocess(
+    (val) =>
+      val === undefined || val === null
+        ? undefined
+        : (Array.isArray(val) ? val : [val]).filter(
+            (amenity): amenity is AmenityId =>
+              typeof amenity === "string" && isAmenityId(amenity),
+          ),
+    z.array(z.enum(AMENITY_IDS)).optional(),
+  ),
+  amenitiesMatch: z.enum(AMENITY_MATCH_MODES).optional(),
+  // Drawn area ("lng,lat;lng,lat;..."); an invalid value is dropped
+  polygon: z.preprocess(
+    (val) => parsePolygon(val) ?? undefined,
+    z.array(z.tuple([z.number(), z.number()])).optional(),
+  ),
+  // Listing order; an unknown value falls back to the default order
+  sort: z.preprocess(
+    (val) => (isPropertySort(val) ? val : undefined),
+    z.enum(PROPERTY_SORTS).optional(),
+  ),
+  // Origin for sort=distance (map center, "lng,lat")
+  near: z.preprocess(
+    (val) => parsePoint(val) ?? undefined,
+    z.tuple([z.number(), z.number()]).optional(),
+  ),
 });
 
 /**
@@ -668,6 +854,28 @@ export function buildFilterUrl(filters: DynamicFilterParams): string {
     params.set("search", filters.search);
   }
 
+  if (filters.amenities?.length) {
+    filters.amenities.forEach((val) => params.append("amenities", val));
+
+    // "all" is the default: only persist the non-default mode
+    if (filters.amenitiesMatch === "any") {
+      params.set("amenitiesMatch", "any");
+    }
+  }
+
+  if (filters.polygon?.length) {
+    params.set("polygon", serializePolygon(filters.polygon));
+  }
+
+  if (filters.sort !== undefined) {
+    params.set("sort", filters.sort);
+
+    // The origin only matters for the distance order
+    if (filters.sort === "distance" && filters.near) {
+      params.set("near", serializePoint(filters.near));
+    }
+  }
+
   return params.toString();
 }
 
@@ -10,6 +10,7 @@ interface PropertyGridStoreInitializerProps {
   currentPage: number;
   totalPages: number;
   pageSize: number;
+  nextCursor: string | null;
   filters: PropertyFilters;
 }
 
@@ -34,6 +35,7 @@ function PropertyGridStoreInitializer({
   currentPage,
   totalPages,
   pageSize,
+  nextCursor,
   filters,
 }: PropertyGridStoreInitializerProps) {
   // Re-initialize store whenever props change from Server Component re-fetches
@@ -45,12 +47,21 @@ function PropertyGridStoreInitializer({
       currentPage,
       totalPages,
       pageSize,
+      nextCursor,
       filters,
     });
 
     // Loading complete - hide skeletons when data arrives
     usePropertyGridStore.getState().setLoading(false);
-  }, [properties, total, currentPage, totalPages, pageSize, filters]);
+  }, [
+    properties,
+    total,
+    currentPage,
+    totalPages,
+    pageSize,
+    nextCursor,
+    filters,
+  ]);
 
   // This component renders nothing - it's purely for side effects
   return null;
@@ -0,0 +1,114 @@
+/**
+ * COMPARE STORE (Zustand)
+ *
+ * Selección de propiedades para comparar lado a lado (2–4)
+ * Persistida en localStorage, igual que favorites-store
+ *
+ * FEATURES:
+ * - Toggle desde tarjetas, popup del mapa y favoritos
+ * - Máximo MAX_COMPARE_PROPERTIES (toast si se supera)
+ * - Títulos guardados para mostrar la bandeja sin pedir datos al servidor
+ * - replaceSelection(): hidrata la selección desde un enlace compartido
+ *
+ * USAGE:
+ * const isSelected = useCompareStore((state) => state.isSelected(property.id));
+ * const toggle = useCompareStore((state) => state.toggle);
+ *
+ * toggle({ id: property.id, title: property.title });
+ * router.push(buildCompareUrl(useCompareStore.getState().ids()));
+ */
+
+"use client";
+
+import { toast } from "sonner";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { MAX_COMPARE_PROPERTIES } from "@/lib/utils/compare";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CompareItem {
+  id: string;
+  title: string;
+}
+
+interface CompareState {
+  // State
+  items: CompareItem[];
+
+  // Actions
+  toggle: (item: CompareItem) => void;
+  remove: (propertyId: string) => void;
+  clear: () => void;
+  replaceSelection: (items: CompareItem[]) => void;
+
+  // Derived
+  isSelected: (propertyId: string) => boolean;
+  ids: () => string[];
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const useCompareStore = create<CompareState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+
+      /**
+       * Add or remove a property from the comparison
+       * Refuses (with a toast) when the selection is full
+       */
+      toggle: (item) => {
+        const { items } = get();
+
+        if (items.some((selected) => selected.id === item.id)) {
+          set({ items: items.filter((selected) => selected.id !== item.id) });
+          return;
+        }
+
+        if (items.length >= MAX_COMPARE_PROPERTIES) {
+          toast.error(
+            `Puedes comparar hasta ${MAX_COMPARE_PROPERTIES} propiedades`,
+          );
+          return;
+        }
+
+        set({ items: [...items, item] });
+      },
+
+      remove: (propertyId) => {
+        set((state) => ({
+          items: state.items.filter((item) => item.id !== propertyId),
+        }));
+      },
+
+      clear: () => {
+        set({ items: [] });
+      },
+
+      /**
+       * Replace the selection (e.g. when opening a shared /comparar link)
+       */
+      replaceSelection: (items) => {
+        set({ items: items.slice(0, MAX_COMPARE_PROPERTIES) });
+      },
+
+      isSelected: (propertyId) => {
+        return get().items.some((item) => item.id === propertyId);
+      },
+
+      ids: () => {
+        return get().items.map((item) => item.id);
+      },
+    }),
+    {
+      name: "compare-storage",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ items: state.items }),
+    },
+  ),
+);
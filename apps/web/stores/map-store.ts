@@ -17,6 +17,7 @@
 
 "use client";
 
+import type { GeoPoint, PropertySort } from "@repo/database";
 import { create } from "zustand";
 import type { MapProperty } from "@/components/map/map-view";
 
@@ -34,6 +35,10 @@ export interface FilterState {
   bathrooms?: number;
   transactionType?: string[];
   city?: string; // City name filter (e.g., "Cuenca", "Quito")
+  amenities?: string[]; // Canonical amenity ids (see lib/constants/amenities.ts)
+  amenitiesMatch?: "all" | "any"; // all = hasEvery (default), any = hasSome
+  sort?: PropertySort; // Listing order (see lib/constants/property-sort.ts)
+  near?: GeoPoint; // Origin for sort = "distance" (map center, [lng, lat])
 }
 
 interface MapStoreState {
@@ -66,6 +71,15 @@ interface MapStoreState {
    */
   hoveredPropertyId: string | null;
 
+  // ========================================================================
+  // MAP CENTER (for the "distance" sort)
+  // ========================================================================
+  /**
+   * Current map center [lng, lat], published by MapView after each move
+   * null while no map is mounted (list view)
+   */
+  mapCenter: GeoPoint | null;
+
   // ========================================================================
   // ACTIONS: Data Management
   // ========================================================================
@@ -142,6 +156,15 @@ interface MapStoreState {
    * Used to synchronize list hover with map marker highlighting
    */
   setHoveredProperty: (propertyId: string | null) => void;
+
+  // ========================================================================
+  // ACTIONS: Map Center
+  // ========================================================================
+  /**
+   * Set the current map center
+   * When sorting by distance, the origin follows the map
+   */
+  setMapCenter: (center: GeoPoint | null) => void;
 }
 
 // ============================================================================
@@ -162,6 +185,7 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
   filters: {}, // Committed filter state
   draftFilters: {}, // Ephemeral draft state
   hoveredPropertyId: null, // Hover state for split view
+  mapCenter: null, // Published by MapView
 
   // ========================================================================
   // ACTIONS: DATA MANAGEMENT
@@ -201,6 +225,10 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
         bathrooms: filters.bathrooms,
         transactionType: filters.transactionType,
         city: filters.city,
+        amenities: filters.amenities,
+        amenitiesMatch: filters.amenitiesMatch,
+        sort: filters.sort,
+        near: filters.near,
       },
     }),
 
@@ -217,12 +245,13 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
 
   /**
    * Clear all filters and draft state
+   * The listing order is not a filter: it is kept
    */
   clearAllFilters: () =>
-    set({
-      filters: {},
+    set((state) => ({
+      filters: { sort: state.filters.sort, near: state.filters.near },
       draftFilters: {},
-    }),
+    })),
 
   // ========================================================================
   // ACTIONS: DRAFT FILTER STATE (Realtor.com pattern)
@@ -263,6 +292,13 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
     const { draftFilters: draft, filters: current } = get();
 
     // Merge draft with current, only updating changed values
+    const amenities =
+      draft.amenities !== undefined
+        ? draft.amenities.length > 0
+          ? draft.amenities
+          : undefined
+        : current.amenities;
+
     const merged: FilterState = {
       minPrice:
         draft.minPrice !== undefined ? draft.minPrice : current.minPrice,
@@ -288,6 +324,14 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
           : current.transactionType,
       // For city: string filter
       city: draft.city !== undefined ? draft.city || undefined : current.city,
+      // For amenities: the match mode only applies with amenities selected
+      amenities,
+      amenitiesMatch: amenities
+        ? (draft.amenitiesMatch ?? current.amenitiesMatch)
+        : undefined,
+      // The listing order is not part of the draft
+      sort: current.sort,
+      near: current.near,
     };
 
     set({
@@ -312,6 +356,8 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
         bathrooms: state.filters.bathrooms,
         transactionType: state.filters.transactionType,
         city: state.filters.city,
+        amenities: state.filters.amenities,
+        amenitiesMatch: state.filters.amenitiesMatch,
       },
     })),
 
@@ -336,4 +382,30 @@ export const useMapStore = create<MapStoreState>((set, get) => ({
     set({
       hoveredPropertyId: propertyId,
     }),
+
+  // ========================================================================
+  // ACTIONS: MAP CENTER
+  // ========================================================================
+
+  /**
+   * Set the current map center (rounded to ~11m to avoid URL churn)
+   * When sorting by distance, also moves the origin (triggers a re-fetch)
+   */
+  setMapCenter: (center) => {
+    const rounded: GeoPoint | null = center
+      ? [Number(center[0].toFixed(4)), Number(center[1].toFixed(4))]
+      : null;
+
+    set((state) => {
+      const { filters } = state;
+      const originMoved =
+        rounded &&
+        filters.sort === "distance" &&
+        (filters.near?.[0] !== rounded[0] || filters.near?.[1] !== rounded[1]);
+
+      return originMoved
+        ? { mapCenter: rounded, filters: { ...filters, near: rounded } }
+        : { mapCenter: rounded };
+    });
+  },
 }));
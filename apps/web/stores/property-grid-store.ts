@@ -24,6 +24,11 @@
  * 3. Client Components:
  *    - usePropertyGridStore() to read from store
  *    - No props drilling needed
+ *
+ * INFINITE SCROLL (mobile):
+ * - nextCursor (keyset) comes with the server page
+ * - Further pages are fetched with loadMorePropertiesAction and appended
+ *   via appendPage(); a server re-fetch (filters/sort change) resets them
  */
 
 import type { PropertyFilters, SerializedProperty } from "@repo/database";
@@ -53,6 +58,12 @@ interface PropertyGridStoreState {
   /** Properties per page */
   pageSize: number;
 
+  /** Cursor for the next page (infinite scroll), null on the last page */
+  nextCursor: string | null;
+
+  /** Whether the next cursor page is being fetched (infinite scroll) */
+  isLoadingMore: boolean;
+
   /** Whether store has been initialized */
   isInitialized: boolean;
 
@@ -90,9 +101,24 @@ interface PropertyGridStoreState {
     currentPage: number;
     totalPages: number;
     pageSize: number;
+    nextCursor: string | null;
     filters: PropertyFilters;
   }) => void;
 
+  /**
+   * Append the next cursor page (infinite scroll)
+   * Skips properties already in the list
+   */
+  appendPage: (
+    properties: SerializedProperty[],
+    nextCursor: string | null,
+  ) => void;
+
+  /**
+   * Set loading state of the next cursor page
+   */
+  setLoadingMore: (loading: boolean) => void;
+
   /**
    * Update filters (typically when URL changes)
    * Resets pagination to page 1
@@ -125,6 +151,8 @@ export const usePropertyGridStore = create<PropertyGridStoreState>(
     currentPage: 1,
     totalPages: 0,
     pageSize: 12,
+    nextCursor: null,
+    isLoadingMore: false,
     isInitialized: false,
     isLoading: false,
     filters: {},
@@ -158,8 +186,32 @@ export const usePropertyGridStore = create<PropertyGridStoreState>(
         currentPage: data.currentPage,
         totalPages: data.totalPages,
         pageSize: data.pageSize,
+        nextCursor: data.nextCursor,
         filters: data.filters,
         isInitialized: true,
+        isLoadingMore: false,
+      }),
+
+    /**
+     * Append a cursor page below the current properties
+     */
+    appendPage: (properties, nextCursor) =>
+      set((state) => {
+        const loadedIds = new Set(state.properties.map((p) => p.id));
+
+        return {
+          properties: [
+            ...state.properties,
+            ...properties.filter((p) => !loadedIds.has(p.id)),
+          ],
+          nextCursor,
+          isLoadingMore: false,
+        };
+      }),
+
+    setLoadingMore: (loading) =>
+      set({
+        isLoadingMore: loading,
       }),
 
     /**
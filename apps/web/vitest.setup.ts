@@ -40,14 +40,23 @@ const dbMock = {
   favorite: {
     count: vi.fn(),
   },
+  // Planner estimates (estimateTotal): no stats → exact count fallback
+  $queryRaw: vi.fn().mockResolvedValue([]),
 };
 
-vi.mock("@repo/database", () => {
+vi.mock("@repo/database", async () => {
+  // Pure pagination helpers (cursors, estimated totals) run for real on dbMock
+  const pagination = await vi.importActual<
+    typeof import("@repo/database/src/utils/pagination")
+  >("@repo/database/src/utils/pagination");
+
   return {
+    ...pagination,
     db: dbMock,
     propertyRepository: {
       create: vi.fn(),
       update: vi.fn(),
+      updateWithVideos: vi.fn(),
       delete: vi.fn(),
       findById: vi.fn(),
       list: vi.fn(),
@@ -65,6 +74,27 @@ vi.mock("@repo/database", () => {
       update: vi.fn(),
       delete: vi.fn(),
     },
+    savedSearchRepository: {
+      findDueForDigest: vi.fn().mockResolvedValue([]),
+      findNewListings: vi.fn().mockResolvedValue([]),
+      markNotified: vi.fn(),
+    },
+    propertyDraftRepository: {
+      save: vi.fn(),
+      findByIdForAgent: vi.fn(),
+      listByAgent: vi.fn().mockResolvedValue([]),
+      countByAgent: vi.fn().mockResolvedValue(0),
+      delete: vi.fn(),
+    },
+    listingLifecycleRepository: {
+      renew: vi.fn(),
+      archive: vi.fn(),
+      schedule: vi.fn(),
+    },
+    planDowngradeRepository: {
+      countKept: vi.fn(),
+      setKeepOnDowngrade: vi.fn(),
+    },
     FavoriteRepository: vi.fn(() => ({
       toggleFavorite: vi.fn(),
       getUserFavorites: vi.fn(),
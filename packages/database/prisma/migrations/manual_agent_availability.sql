@@ -0,0 +1,82 @@
+-- Agent Availability Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create agent_availability_rules table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "agent_availability_rules" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_id" TEXT NOT NULL,
+  "property_id" TEXT,
+  "day_of_week" INTEGER NOT NULL,
+  "start_hour" INTEGER NOT NULL,
+  "end_hour" INTEGER NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "agent_availability_rules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "agent_availability_rules_day_check" CHECK ("day_of_week" BETWEEN 0 AND 6),
+  CONSTRAINT "agent_availability_rules_hours_check" CHECK ("start_hour" >= 0 AND "end_hour" <= 24 AND "start_hour" < "end_hour")
+);
+
+-- Create agent_blackout_dates table
+CREATE TABLE IF NOT EXISTS "agent_blackout_dates" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_id" TEXT NOT NULL,
+  "property_id" TEXT,
+  "date" DATE NOT NULL,
+  "reason" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "agent_blackout_dates_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "agent_availability_rules"
+    ADD CONSTRAINT "agent_availability_rules_agent_id_fkey"
+    FOREIGN KEY ("agent_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "agent_availability_rules"
+    ADD CONSTRAINT "agent_availability_rules_property_id_fkey"
+    FOREIGN KEY ("property_id") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "agent_blackout_dates"
+    ADD CONSTRAINT "agent_blackout_dates_agent_id_fkey"
+    FOREIGN KEY ("agent_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "agent_blackout_dates"
+    ADD CONSTRAINT "agent_blackout_dates_property_id_fkey"
+    FOREIGN KEY ("property_id") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Indexes (schedules are always loaded per agent, optionally narrowed to a property)
+CREATE INDEX IF NOT EXISTS "agent_availability_rules_agent_id_property_id_idx"
+  ON "agent_availability_rules"("agent_id", "property_id");
+CREATE INDEX IF NOT EXISTS "agent_blackout_dates_agent_id_date_idx"
+  ON "agent_blackout_dates"("agent_id", "date");
+CREATE INDEX IF NOT EXISTS "agent_blackout_dates_property_id_idx"
+  ON "agent_blackout_dates"("property_id");
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_agent_availability_rules_updated_at ON "agent_availability_rules";
+CREATE TRIGGER update_agent_availability_rules_updated_at
+    BEFORE UPDATE ON "agent_availability_rules"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON TABLE agent_availability_rules IS 'Weekly visit hours per agent; rows with property_id override the agent-wide rules for that property';
+COMMENT ON COLUMN agent_availability_rules.end_hour IS 'Exclusive: a 9-12 rule offers 9:00, 10:00 and 11:00';
+COMMENT ON TABLE agent_blackout_dates IS 'Days without visits; property_id NULL blocks every property of the agent';
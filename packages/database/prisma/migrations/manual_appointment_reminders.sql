@@ -0,0 +1,35 @@
+-- Appointment Reminders Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create enum for reminder types
+DO $$ BEGIN
+  CREATE TYPE "AppointmentReminderType" AS ENUM ('DAY_BEFORE', 'HOUR_BEFORE');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create appointment_reminders table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "appointment_reminders" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "appointment_id" TEXT NOT NULL,
+  "type" "AppointmentReminderType" NOT NULL,
+  "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "appointment_reminders"
+    ADD CONSTRAINT "appointment_reminders_appointment_id_fkey"
+    FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- One reminder of each type per appointment (the job relies on this to never send twice)
+CREATE UNIQUE INDEX IF NOT EXISTS "appointment_reminders_appointment_id_type_key"
+  ON "appointment_reminders"("appointment_id", "type");
+
+-- Comments for documentation
+COMMENT ON TABLE appointment_reminders IS 'Reminders already sent for an appointment, written by the reminder job before sending';
+COMMENT ON COLUMN appointment_reminders.type IS 'DAY_BEFORE (24h) or HOUR_BEFORE (1h)';
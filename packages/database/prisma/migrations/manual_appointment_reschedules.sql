@@ -0,0 +1,39 @@
+-- Appointment Reschedules Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create appointment_reschedules table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "appointment_reschedules" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "appointment_id" TEXT NOT NULL,
+  "previous_scheduled_at" TIMESTAMP(3) NOT NULL,
+  "new_scheduled_at" TIMESTAMP(3) NOT NULL,
+  "rescheduled_by_id" TEXT,
+  "reason" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "appointment_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "appointment_reschedules"
+    ADD CONSTRAINT "appointment_reschedules_appointment_id_fkey"
+    FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "appointment_reschedules"
+    ADD CONSTRAINT "appointment_reschedules_rescheduled_by_id_fkey"
+    FOREIGN KEY ("rescheduled_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Indexes (history is always read per appointment, newest first)
+CREATE INDEX IF NOT EXISTS "appointment_reschedules_appointment_id_created_at_idx"
+  ON "appointment_reschedules"("appointment_id", "created_at");
+
+-- Comments for documentation
+COMMENT ON TABLE appointment_reschedules IS 'One row per reschedule, written by AppointmentRepository.rescheduleAppointment';
+COMMENT ON COLUMN appointment_reschedules.previous_scheduled_at IS 'Appointment time before the change';
@@ -0,0 +1,12 @@
+-- Calendar Feed Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Secret token for the per-agent ICS feed (/api/calendar/<token>)
+-- NULL until the agent generates the feed URL from /dashboard/citas
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "calendar_feed_token" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "users_calendar_feed_token_key"
+  ON "users"("calendar_feed_token");
+
+-- Comments for documentation
+COMMENT ON COLUMN users.calendar_feed_token IS 'Secret token for the agent ICS feed; regenerating it invalidates old subscriptions';
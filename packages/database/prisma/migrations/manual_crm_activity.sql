@@ -0,0 +1,88 @@
+-- CRM Activity Timeline + Follow-up Tasks Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create LeadActivityType enum
+DO $$ BEGIN
+  CREATE TYPE "LeadActivityType" AS ENUM ('NOTE', 'CALL', 'WHATSAPP', 'EMAIL');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Create lead_activities table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "lead_activities" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_client_id" TEXT NOT NULL,
+  "type" "LeadActivityType" NOT NULL,
+  "content" TEXT NOT NULL,
+  "created_by_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "lead_activities_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "lead_activities"
+    ADD CONSTRAINT "lead_activities_agent_client_id_fkey"
+    FOREIGN KEY ("agent_client_id") REFERENCES "agent_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "lead_activities"
+    ADD CONSTRAINT "lead_activities_created_by_id_fkey"
+    FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "lead_activities_agent_client_id_created_at_idx"
+  ON "lead_activities"("agent_client_id", "created_at");
+
+-- Create lead_tasks table
+CREATE TABLE IF NOT EXISTS "lead_tasks" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_client_id" TEXT NOT NULL,
+  "agent_id" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "due_at" TIMESTAMP(3) NOT NULL,
+  "completed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "lead_tasks_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "lead_tasks"
+    ADD CONSTRAINT "lead_tasks_agent_client_id_fkey"
+    FOREIGN KEY ("agent_client_id") REFERENCES "agent_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "lead_tasks"
+    ADD CONSTRAINT "lead_tasks_agent_id_fkey"
+    FOREIGN KEY ("agent_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "lead_tasks_agent_id_completed_at_due_at_idx"
+  ON "lead_tasks"("agent_id", "completed_at", "due_at");
+CREATE INDEX IF NOT EXISTS "lead_tasks_agent_client_id_idx"
+  ON "lead_tasks"("agent_client_id");
+
+-- Keep existing free-text notes as the first NOTE of each lead
+INSERT INTO "lead_activities" ("agent_client_id", "type", "content", "created_by_id", "created_at")
+SELECT ac."id", 'NOTE', ac."notes", ac."agent_id", ac."updated_at"
+FROM "agent_clients" ac
+WHERE ac."notes" IS NOT NULL AND ac."notes" <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM "lead_activities" la WHERE la."agent_client_id" = ac."id"
+  );
+
+-- Comments for documentation
+COMMENT ON TABLE lead_activities IS 'Append-only CRM log (calls, WhatsApp, emails, notes). Stage changes and appointments are merged in the timeline from their own tables';
+COMMENT ON COLUMN agent_clients.notes IS 'Latest NOTE activity (preview for the clients list)';
+COMMENT ON TABLE lead_tasks IS 'Follow-up tasks per lead, shown on the agent dashboard until completed';
@@ -0,0 +1,45 @@
+-- CRM Contact Import Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Contacts imported into the CRM whose email is already registered are
+-- linked to that user (client_id), like any other lead. The rest live on the
+-- lead itself (contact_name, contact_email, contact_phone) with client_id
+-- NULL until the contact signs up: their first interaction with the agent
+-- claims the lead. An import never creates users rows.
+
+-- An earlier version of this import created users rows without an auth
+-- account and re-keyed them on signup with a trigger on auth.users: drop it
+DROP TRIGGER IF EXISTS on_auth_user_claim_contact ON auth.users;
+DROP FUNCTION IF EXISTS public.claim_imported_contact();
+DROP INDEX IF EXISTS "users_email_lower_idx";
+
+ALTER TABLE "agent_clients" ALTER COLUMN "client_id" DROP NOT NULL;
+
+ALTER TABLE "agent_clients" ADD COLUMN IF NOT EXISTS "contact_name" TEXT;
+ALTER TABLE "agent_clients" ADD COLUMN IF NOT EXISTS "contact_email" TEXT;
+ALTER TABLE "agent_clients" ADD COLUMN IF NOT EXISTS "contact_phone" TEXT;
+
+-- Duplicate detection when importing, and claiming the lead on signup
+CREATE INDEX IF NOT EXISTS "agent_clients_agent_id_contact_email_idx"
+  ON "agent_clients" ("agent_id", "contact_email");
+
+-- Move contacts imported by the earlier version (users rows that never got
+-- an auth account) onto their leads, then remove those users rows
+UPDATE "agent_clients" ac
+SET "contact_name" = u."name",
+    "contact_email" = lower(u."email"),
+    "contact_phone" = u."phone",
+    "client_id" = NULL
+FROM "users" u
+WHERE ac."client_id" = u."id"
+  AND u."role" = 'CLIENT'
+  AND NOT EXISTS (SELECT 1 FROM auth.users au WHERE au.id = u."id");
+
+DELETE FROM "users" u
+WHERE u."role" = 'CLIENT'
+  AND NOT EXISTS (SELECT 1 FROM auth.users au WHERE au.id = u."id")
+  AND NOT EXISTS (SELECT 1 FROM "agent_clients" ac WHERE ac."client_id" = u."id");
+
+COMMENT ON COLUMN "agent_clients"."contact_name" IS 'Name of a contact imported into the CRM (client_id is NULL)';
+COMMENT ON COLUMN "agent_clients"."contact_email" IS 'Email of a contact imported into the CRM (lowercase)';
+COMMENT ON COLUMN "agent_clients"."contact_phone" IS 'Phone of a contact imported into the CRM';
@@ -0,0 +1,59 @@
+-- CRM Pipeline Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- When the lead entered its current stage (existing leads: last update)
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'agent_clients' AND column_name = 'status_changed_at'
+  ) THEN
+    ALTER TABLE "agent_clients"
+      ADD COLUMN "status_changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+    UPDATE "agent_clients" SET "status_changed_at" = "updated_at";
+  END IF;
+END $$;
+
+-- Create lead_stage_changes table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "lead_stage_changes" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_client_id" TEXT NOT NULL,
+  "from_status" "LeadStatus",
+  "to_status" "LeadStatus" NOT NULL,
+  "changed_by_id" TEXT,
+  "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "lead_stage_changes_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "lead_stage_changes"
+    ADD CONSTRAINT "lead_stage_changes_agent_client_id_fkey"
+    FOREIGN KEY ("agent_client_id") REFERENCES "agent_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "lead_stage_changes"
+    ADD CONSTRAINT "lead_stage_changes_changed_by_id_fkey"
+    FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Indexes (history is always read per lead, oldest first)
+CREATE INDEX IF NOT EXISTS "lead_stage_changes_agent_client_id_changed_at_idx"
+  ON "lead_stage_changes"("agent_client_id", "changed_at");
+
+-- Seed the history of existing leads with their current stage
+INSERT INTO "lead_stage_changes" ("agent_client_id", "from_status", "to_status", "changed_at")
+SELECT "id", NULL, "status", "status_changed_at"
+FROM "agent_clients" ac
+WHERE NOT EXISTS (
+  SELECT 1 FROM "lead_stage_changes" lsc WHERE lsc."agent_client_id" = ac."id"
+);
+
+-- Comments for documentation
+COMMENT ON TABLE lead_stage_changes IS 'One row per pipeline move, written by AgentClientRepository.changeStatus';
+COMMENT ON COLUMN lead_stage_changes.from_status IS 'NULL when the lead was created';
+COMMENT ON COLUMN agent_clients.status_changed_at IS 'Start of the current stage (time in stage = now - status_changed_at)';
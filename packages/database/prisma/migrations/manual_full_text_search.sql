@@ -0,0 +1,33 @@
+-- Full-Text Search Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Spanish text search configuration that ignores accents ("baño" = "bano")
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$ BEGIN
+  CREATE TEXT SEARCH CONFIGURATION public.es_unaccent (COPY = pg_catalog.spanish);
+EXCEPTION
+  WHEN unique_violation THEN null;
+END $$;
+
+ALTER TEXT SEARCH CONFIGURATION public.es_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH unaccent, spanish_stem;
+
+-- Weighted search document: title (A) > location (B) > description (C)
+-- HTML tags from the rich-text description are stripped before indexing
+ALTER TABLE "properties"
+  ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.es_unaccent', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('public.es_unaccent',
+      coalesce("address", '') || ' ' || coalesce("city", '') || ' ' || coalesce("state", '')), 'B') ||
+    setweight(to_tsvector('public.es_unaccent',
+      regexp_replace(coalesce("description", ''), '<[^>]*>', ' ', 'g')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS "properties_search_vector_idx"
+  ON "properties" USING GIN ("search_vector");
+
+-- The btree on address never helped ILIKE '%x%' searches
+DROP INDEX IF EXISTS "properties_address_idx";
@@ -0,0 +1,39 @@
+-- Listing Lifecycle Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Visibility is independent from the market status (AVAILABLE/PENDING/SOLD/RENTED):
+--   DRAFT     → scheduled (publish_at), not public yet
+--   PUBLISHED → public listings, map, feeds, trending
+--   ARCHIVED  → no refresh for 60 days (or archived by the agent)
+-- Transitions run in /api/cron/listing-lifecycle (bun run listings:lifecycle)
+DO $$ BEGIN
+  CREATE TYPE "ListingVisibility" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "properties"
+  ADD COLUMN IF NOT EXISTS "visibility" "ListingVisibility" NOT NULL DEFAULT 'PUBLISHED',
+  ADD COLUMN IF NOT EXISTS "publish_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "published_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "refreshed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS "renewal_reminder_sent_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "archived_at" TIMESTAMP(3);
+
+-- Existing listings were public since they were created.
+-- refreshed_at starts now: the first renewal window begins with this migration
+UPDATE "properties"
+SET "published_at" = "created_at"
+WHERE "published_at" IS NULL AND "visibility" = 'PUBLISHED';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "properties_visibility_publish_at_idx"
+  ON "properties"("visibility", "publish_at");
+CREATE INDEX IF NOT EXISTS "properties_visibility_refreshed_at_idx"
+  ON "properties"("visibility", "refreshed_at");
+
+-- Comments for documentation
+COMMENT ON COLUMN properties.visibility IS 'Listing lifecycle: DRAFT (scheduled), PUBLISHED, ARCHIVED';
+COMMENT ON COLUMN properties.refreshed_at IS 'Last edit or renewal; listings auto-archive 60 days after it';
+
+-- Then re-run manual_trending_scores.sql: the view only ranks published listings
@@ -0,0 +1,29 @@
+-- Plan Downgrades Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Downgrade enforcement when a subscription lapses (lib/subscription/downgrade.ts):
+-- 1. downgradeToFree starts a grace period (users.downgrade_grace_ends_at)
+-- 2. When it ends, listings over the plan limits are archived/unfeatured and
+--    images over the limit are hidden (/api/cron/plan-downgrades)
+-- 3. Re-upgrading restores what the downgrade took away (only that)
+ALTER TABLE "users"
+  ADD COLUMN IF NOT EXISTS "downgrade_grace_ends_at" TIMESTAMP(3);
+
+ALTER TABLE "properties"
+  ADD COLUMN IF NOT EXISTS "keep_on_downgrade" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS "downgraded_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "feature_suspended_at" TIMESTAMP(3);
+
+ALTER TABLE "property_images"
+  ADD COLUMN IF NOT EXISTS "hidden_at" TIMESTAMP(3);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "users_downgrade_grace_ends_at_idx"
+  ON "users"("downgrade_grace_ends_at");
+
+-- Comments for documentation
+COMMENT ON COLUMN users.downgrade_grace_ends_at IS 'Plan limits are enforced on the agent listings at this time (null = nothing pending)';
+COMMENT ON COLUMN properties.keep_on_downgrade IS 'Agent pick: stays live when the plan lapses (otherwise newest listings stay)';
+COMMENT ON COLUMN properties.downgraded_at IS 'Archived by a plan downgrade; re-published on re-upgrade';
+COMMENT ON COLUMN properties.feature_suspended_at IS 'Unfeatured by a plan downgrade; featured again on re-upgrade';
+COMMENT ON COLUMN property_images.hidden_at IS 'Over the plan image limit after a downgrade; shown again on re-upgrade';
@@ -0,0 +1,22 @@
+-- PostGIS Geo Search Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- True distance and polygon queries (radius search, "draw area" on the map)
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Point geography derived from latitude/longitude (meters, WGS84)
+-- NULL while the property has no coordinates
+ALTER TABLE "properties"
+  ADD COLUMN IF NOT EXISTS "location" extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN "latitude" IS NOT NULL AND "longitude" IS NOT NULL THEN
+        extensions.ST_SetSRID(
+          extensions.ST_MakePoint("longitude"::double precision, "latitude"::double precision),
+          4326
+        )::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS "properties_location_idx"
+  ON "properties" USING GIST ("location");
@@ -0,0 +1,38 @@
+-- Property Price History Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create property_price_history table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "property_price_history" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "property_id" TEXT NOT NULL,
+  "previous_price" DECIMAL(12,2) NOT NULL,
+  "price" DECIMAL(12,2) NOT NULL,
+  "changed_by_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "property_price_history_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "property_price_history"
+    ADD CONSTRAINT "property_price_history_property_id_fkey"
+    FOREIGN KEY ("property_id") REFERENCES "properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "property_price_history"
+    ADD CONSTRAINT "property_price_history_changed_by_id_fkey"
+    FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Indexes (timeline queries are always per property, ordered by date)
+CREATE INDEX IF NOT EXISTS "property_price_history_property_id_created_at_idx"
+  ON "property_price_history"("property_id", "created_at");
+
+-- Comments for documentation
+COMMENT ON TABLE property_price_history IS 'One row per price change, written by PropertyRepository.update';
+COMMENT ON COLUMN property_price_history.previous_price IS 'Price before the change';
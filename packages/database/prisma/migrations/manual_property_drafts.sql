@@ -0,0 +1,41 @@
+-- Property Drafts Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Server-side autosave of the property wizard (using TEXT for IDs to match existing schema)
+-- Drafts live outside "properties": they don't count toward the plan limit
+-- and are deleted when the wizard publishes them
+CREATE TABLE IF NOT EXISTS "property_drafts" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "agent_id" TEXT NOT NULL,
+  "title" TEXT,
+  "data" JSONB NOT NULL DEFAULT '{}',
+  "image_urls" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "current_step" INTEGER NOT NULL DEFAULT 1,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "property_drafts_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "property_drafts"
+    ADD CONSTRAINT "property_drafts_agent_id_fkey"
+    FOREIGN KEY ("agent_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Drafts list (most recent first)
+CREATE INDEX IF NOT EXISTS "property_drafts_agent_id_updated_at_idx"
+  ON "property_drafts"("agent_id", "updated_at");
+
+-- Keep updated_at in sync (function created in manual_crm_lite.sql)
+DROP TRIGGER IF EXISTS update_property_drafts_updated_at ON "property_drafts";
+CREATE TRIGGER update_property_drafts_updated_at
+    BEFORE UPDATE ON "property_drafts"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON COLUMN property_drafts.data IS 'Wizard form data (title, price, location, features, videos, ...)';
+COMMENT ON COLUMN property_drafts.image_urls IS 'Image URLs already uploaded to storage, restored when resuming';
@@ -0,0 +1,18 @@
+-- Property Images updated_at Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- The syndication feed ETag/Last-Modified (lib/syndication/response.ts) must
+-- change when images are reordered or hidden by a plan downgrade: those
+-- writes don't touch properties.updated_at
+ALTER TABLE "property_images"
+  ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_property_images_updated_at ON "property_images";
+CREATE TRIGGER update_property_images_updated_at
+    BEFORE UPDATE ON "property_images"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON COLUMN property_images.updated_at IS 'Last reorder/hide/restore; part of the syndication feed ETag';
@@ -0,0 +1,40 @@
+-- Saved Searches Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Create saved_searches table (using TEXT for IDs to match existing schema)
+CREATE TABLE IF NOT EXISTS "saved_searches" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "user_id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "filters" JSONB NOT NULL DEFAULT '{}',
+  "bounds" JSONB,
+  "alerts_enabled" BOOLEAN NOT NULL DEFAULT true,
+  "last_notified_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+  ALTER TABLE "saved_searches"
+    ADD CONSTRAINT "saved_searches_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "saved_searches_user_id_idx" ON "saved_searches"("user_id");
+CREATE INDEX IF NOT EXISTS "saved_searches_alerts_enabled_idx" ON "saved_searches"("alerts_enabled");
+
+-- Keep updated_at in sync (function created in manual_crm_lite.sql)
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON "saved_searches";
+CREATE TRIGGER update_saved_searches_updated_at
+    BEFORE UPDATE ON "saved_searches"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON COLUMN saved_searches.filters IS 'Filter params (transactionType, category, price, bedrooms, city, ...)';
+COMMENT ON COLUMN saved_searches.bounds IS 'Optional map bounding box {ne_lat, ne_lng, sw_lat, sw_lng}';
@@ -0,0 +1,18 @@
+-- Subscription Trials Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Platform-managed free trial for PLUS/BUSINESS (lib/subscription/trial.ts):
+-- 1. A trial is a subscriptions row with provider 'platform', status TRIALING
+--    and trial_ends_at (one per user: no card, no Lemon Squeezy checkout)
+-- 2. /api/cron/subscription-trials sends the trial-ending reminder and falls
+--    back to FREE when the trial ends
+-- 3. Subscribing during the trial replaces the row (subscription_created webhook)
+ALTER TABLE "subscriptions"
+  ADD COLUMN IF NOT EXISTS "trial_reminder_sent_at" TIMESTAMP(3);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS "subscriptions_status_trial_ends_at_idx"
+  ON "subscriptions"("status", "trial_ends_at");
+
+-- Comments for documentation
+COMMENT ON COLUMN subscriptions.trial_reminder_sent_at IS 'Trial-ending reminder sent (claimed before sending, never sent twice)';
@@ -0,0 +1,65 @@
+-- Trending Scores Migration
+-- Run this migration manually in Supabase SQL Editor
+-- Requires manual_listing_lifecycle.sql (properties.visibility)
+
+-- Time-decayed engagement per property over the last 14 days.
+-- Each event counts its weight halved every 48 hours:
+--   view = 1, share = 3, favorite = 4, appointment (not cancelled) = 5
+-- Scores decay relative to the refresh time, so the ranking between
+-- properties stays consistent between refreshes.
+--
+-- Refresh periodically (every 15-30 minutes) via /api/cron/trending-scores
+-- or: bun run trending:refresh
+DROP MATERIALIZED VIEW IF EXISTS "property_trending_scores";
+
+CREATE MATERIALIZED VIEW "property_trending_scores" AS
+WITH events AS (
+  SELECT "property_id", "viewed_at" AS occurred_at, 'view' AS kind, 1.0 AS weight
+  FROM "property_views"
+  WHERE "viewed_at" > now() - interval '14 days'
+
+  UNION ALL
+
+  SELECT "property_id", "created_at", 'share', 3.0
+  FROM "property_shares"
+  WHERE "created_at" > now() - interval '14 days'
+
+  UNION ALL
+
+  SELECT "property_id", "created_at", 'favorite', 4.0
+  FROM "favorites"
+  WHERE "created_at" > now() - interval '14 days'
+
+  UNION ALL
+
+  SELECT "property_id", "created_at", 'appointment', 5.0
+  FROM "appointments"
+  WHERE "created_at" > now() - interval '14 days'
+    AND "status" <> 'CANCELLED'
+)
+SELECT
+  e."property_id",
+  SUM(
+    e.weight * exp(-ln(2) * extract(epoch FROM (now() - e.occurred_at)) / (48 * 3600))
+  )::float8 AS "score",
+  COUNT(*) FILTER (WHERE e.kind = 'view')::int AS "view_count",
+  COUNT(*) FILTER (WHERE e.kind = 'share')::int AS "share_count",
+  COUNT(*) FILTER (WHERE e.kind = 'favorite')::int AS "favorite_count",
+  COUNT(*) FILTER (WHERE e.kind = 'appointment')::int AS "appointment_count",
+  now() AS "computed_at"
+FROM events e
+JOIN "properties" p ON p."id" = e."property_id"
+WHERE p."status" = 'AVAILABLE'
+  AND p."visibility" = 'PUBLISHED'
+GROUP BY e."property_id";
+
+-- Unique index: required by REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS "property_trending_scores_property_id_key"
+  ON "property_trending_scores" ("property_id");
+
+CREATE INDEX IF NOT EXISTS "property_trending_scores_score_idx"
+  ON "property_trending_scores" ("score" DESC);
+
+-- Window filters on the event tables
+CREATE INDEX IF NOT EXISTS "favorites_created_at_idx" ON "favorites" ("created_at");
+CREATE INDEX IF NOT EXISTS "appointments_created_at_idx" ON "appointments" ("created_at");
@@ -0,0 +1,18 @@
+-- Visit Duration Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Per-property visit length (apartment 30 min, farm 2 h, ...)
+ALTER TABLE "properties"
+  ADD COLUMN IF NOT EXISTS "visit_duration_minutes" INTEGER NOT NULL DEFAULT 60;
+
+-- Duration copied to each appointment at booking time, so changing the
+-- property's duration later does not move existing bookings
+ALTER TABLE "appointments"
+  ADD COLUMN IF NOT EXISTS "duration_minutes" INTEGER NOT NULL DEFAULT 60;
+
+-- Conflict detection looks up every active appointment of an agent around a time
+-- (appointments_agent_id_scheduled_at_idx already covers agent_id + scheduled_at)
+
+-- Comments for documentation
+COMMENT ON COLUMN properties.visit_duration_minutes IS 'Length of a visit in minutes (15-480)';
+COMMENT ON COLUMN appointments.duration_minutes IS 'Visit length in minutes, copied from the property when booked';
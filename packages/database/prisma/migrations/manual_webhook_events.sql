@@ -0,0 +1,57 @@
+-- Webhook Events Migration
+-- Run this migration manually in Supabase SQL Editor
+
+-- Ledger of received payment webhooks (Lemon Squeezy)
+-- - Idempotency: one row per provider event (redeliveries hit the unique key)
+-- - Ordering: subscriptions store the updated_at of the last applied event,
+--   older events are recorded as SKIPPED
+-- - Replay: FAILED events are retried by /api/cron/webhook-replay
+DO $$ BEGIN
+  CREATE TYPE "WebhookEventStatus" AS ENUM ('PENDING', 'PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "webhook_events" (
+  "id" TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  "provider" TEXT NOT NULL,
+  "event_id" TEXT NOT NULL,
+  "event_name" TEXT NOT NULL,
+  "resource_id" TEXT,
+  "user_id" TEXT,
+  "occurred_at" TIMESTAMP(3),
+  "payload" JSONB NOT NULL,
+  "status" "WebhookEventStatus" NOT NULL DEFAULT 'PENDING',
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "last_error" TEXT,
+  "processed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Idempotency key
+CREATE UNIQUE INDEX IF NOT EXISTS "webhook_events_provider_event_id_key"
+  ON "webhook_events"("provider", "event_id");
+
+-- Replay queue and admin list
+CREATE INDEX IF NOT EXISTS "webhook_events_status_created_at_idx"
+  ON "webhook_events"("status", "created_at");
+CREATE INDEX IF NOT EXISTS "webhook_events_created_at_idx"
+  ON "webhook_events"("created_at");
+
+-- Keep updated_at in sync (function created in manual_crm_lite.sql)
+DROP TRIGGER IF EXISTS update_webhook_events_updated_at ON "webhook_events";
+CREATE TRIGGER update_webhook_events_updated_at
+    BEFORE UPDATE ON "webhook_events"
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Ordering: updated_at of the last webhook applied to each subscription
+ALTER TABLE "subscriptions" ADD COLUMN IF NOT EXISTS "provider_updated_at" TIMESTAMP(3);
+
+-- Comments for documentation
+COMMENT ON COLUMN webhook_events.event_id IS 'Provider event key, identical across redeliveries (event_name:resource:updated_at for Lemon Squeezy)';
+COMMENT ON COLUMN webhook_events.occurred_at IS 'Payload updated_at, used to discard out-of-order events';
+COMMENT ON COLUMN subscriptions.provider_updated_at IS 'updated_at of the last webhook applied (older events are skipped)';
@@ -0,0 +1,364 @@
+/**
+ * AGENT CLIENT REPOSITORY TESTS
+ *
+ * Tests for the CRM pipeline: listing leads, stage changes with history, export
+ * and imported contacts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    agentClient: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+    leadStageChange: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  AgentClientRepository,
+  agentClientExportSelect,
+  agentClientSelect,
+} from "../repositories/agent-clients";
+
+// Mock data
+const mockAgentId = "agent-123";
+const mockLeadId = "lead-456";
+
+const mockLead = {
+  id: mockLeadId,
+  status: "INTERESTED" as const,
+  statusChangedAt: new Date("2025-01-10T10:00:00Z"),
+  notes: null,
+  source: "appointment",
+  createdAt: new Date("2025-01-01T10:00:00Z"),
+  updatedAt: new Date("2025-01-10T10:00:00Z"),
+  contactName: null,
+  contactEmail: null,
+  contactPhone: null,
+  client: {
+    id: "client-789",
+    name: "Juan Pérez",
+    email: "juan@example.com",
+    phone: null,
+    avatar: null,
+  },
+  property: null,
+  stageChanges: [],
+};
+
+const juanContact = {
+  name: "Juan Pérez",
+  email: "juan@example.com",
+  phone: null,
+  avatar: null,
+  registered: true,
+};
+
+describe("AgentClientRepository", () => {
+  let repository: AgentClientRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // The transaction client has the same API as db
+    vi.mocked(db.$transaction).mockImplementation(async (callback: any) =>
+      callback(db),
+    );
+
+    repository = new AgentClientRepository();
+  });
+
+  describe("listByAgent()", () => {
+    it("should only load leads of the agent", async () => {
+      vi.mocked(db.agentClient.findMany).mockResolvedValue([mockLead] as any);
+
+      const result = await repository.listByAgent(mockAgentId);
+
+      expect(db.agentClient.findMany).toHaveBeenCalledWith({
+        where: { agentId: mockAgentId },
+        select: agentClientSelect,
+        orderBy: { updatedAt: "desc" },
+      });
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe("listForExport()", () => {
+    it("should export only the agent's leads, oldest first", async () => {
+      vi.mocked(db.agentClient.findMany).mockResolvedValue([]);
+
+      await repository.listForExport(mockAgentId);
+
+      expect(db.agentClient.findMany).toHaveBeenCalledWith({
+        where: { agentId: mockAgentId },
+        select: agentClientExportSelect,
+        orderBy: { createdAt: "asc" },
+      });
+    });
+  });
+
+  describe("getById()", () => {
+    it("should scope the lookup to the agent", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(null);
+
+      const result = await repository.getById(mockLeadId, "other-agent");
+
+      expect(result).toBeNull();
+      expect(db.agentClient.findFirst).toHaveBeenCalledWith({
+        where: { id: mockLeadId, agentId: "other-agent" },
+        select: agentClientSelect,
+      });
+    });
+  });
+
+  describe("changeStatus()", () => {
+    it("should record the stage change and restart the stage timer", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(mockLead as any);
+      vi.mocked(db.agentClient.update).mockResolvedValue({
+        ...mockLead,
+        status: "NEGOTIATING",
+      } as any);
+
+      await repository.changeStatus(
+        mockLeadId,
+        mockAgentId,
+        "NEGOTIATING",
+        mockAgentId,
+      );
+
+      expect(db.agentClient.findFirst).toHaveBeenCalledWith({
+        where: { id: mockLeadId, agentId: mockAgentId },
+        select: agentClientSelect,
+      });
+
+      const createCall = vi.mocked(db.leadStageChange.create).mock
+        .calls[0]?.[0];
+      expect(createCall?.data).toMatchObject({
+        agentClientId: mockLeadId,
+        fromStatus: "INTERESTED",
+        toStatus: "NEGOTIATING",
+        changedById: mockAgentId,
+      });
+
+      const updateCall = vi.mocked(db.agentClient.update).mock.calls[0]?.[0];
+      expect(updateCall?.data).toEqual({
+        status: "NEGOTIATING",
+        statusChangedAt: createCall?.data.changedAt,
+      });
+    });
+
+    it("should not write history when the stage does not change", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(mockLead as any);
+
+      const result = await repository.changeStatus(
+        mockLeadId,
+        mockAgentId,
+        "INTERESTED",
+        mockAgentId,
+      );
+
+      expect(result).toEqual({
+        id: mockLeadId,
+        status: "INTERESTED",
+        statusChangedAt: mockLead.statusChangedAt,
+        notes: null,
+        source: "appointment",
+        createdAt: mockLead.createdAt,
+        updatedAt: mockLead.updatedAt,
+        contact: juanContact,
+        property: null,
+        stageChanges: [],
+      });
+      expect(db.leadStageChange.create).not.toHaveBeenCalled();
+      expect(db.agentClient.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the lead belongs to another agent", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(null);
+
+      await expect(
+        repository.changeStatus(mockLeadId, "other-agent", "CLOSED_WON", "x"),
+      ).rejects.toThrow("Cliente no encontrado");
+      expect(db.leadStageChange.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("imported contacts", () => {
+    it("should expose the CRM contact data of a lead without an account", async () => {
+      vi.mocked(db.agentClient.findMany).mockResolvedValue([
+        {
+          ...mockLead,
+          client: null,
+          contactName: "Ana Gómez",
+          contactEmail: "ana@example.com",
+          contactPhone: "0991234567",
+        },
+      ] as any);
+
+      const [lead] = await repository.listByAgent(mockAgentId);
+
+      expect(lead?.contact).toEqual({
+        name: "Ana Gómez",
+        email: "ana@example.com",
+        phone: "0991234567",
+        avatar: null,
+        registered: false,
+      });
+      expect(lead).not.toHaveProperty("client");
+    });
+
+    it("should store the contact on the lead when the email is not registered", async () => {
+      vi.mocked(db.user.findUnique).mockResolvedValue(null);
+      vi.mocked(db.agentClient.create).mockResolvedValue({
+        id: "lead-1",
+      } as any);
+
+      const result = await repository.createImported(mockAgentId, {
+        name: "<b>Ana</b> Gómez",
+        email: "  Ana@Example.com ",
+        phone: null,
+        source: "import",
+        propertyId: "prop-1",
+        utmSource: "facebook",
+      });
+
+      expect(result).toEqual({ id: "lead-1" });
+      expect(db.agentClient.create).toHaveBeenCalledWith({
+        data: {
+          agentId: mockAgentId,
+          contactName: "Ana Gómez",
+          contactEmail: "ana@example.com",
+          contactPhone: null,
+          source: "import",
+          propertyId: "prop-1",
+          utmSource: "facebook",
+          utmMedium: null,
+          utmCampaign: null,
+          status: "NEW",
+          stageChanges: { create: { toStatus: "NEW" } },
+        },
+        select: { id: true },
+      });
+      expect(db.user.findUnique).toHaveBeenCalledWith({
+        where: { email: "ana@example.com" },
+        select: { id: true },
+      });
+    });
+
+    it("should link the lead to the registered user with that email", async () => {
+      vi.mocked(db.user.findUnique).mockResolvedValue({
+        id: "client-789",
+      } as any);
+      vi.mocked(db.agentClient.findUnique).mockResolvedValue(null);
+      vi.mocked(db.agentClient.create).mockResolvedValue({
+        id: "lead-1",
+      } as any);
+
+      await repository.createImported(mockAgentId, {
+        name: "Juan",
+        email: "juan@example.com",
+        source: "import",
+      });
+
+      expect(db.agentClient.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          agentId: mockAgentId,
+          clientId: "client-789",
+        }),
+        select: { id: true },
+      });
+      expect(
+        vi.mocked(db.agentClient.create).mock.calls[0]?.[0].data,
+      ).not.toHaveProperty("contactEmail");
+    });
+
+    it("should reuse the lead the registered user already has", async () => {
+      vi.mocked(db.user.findUnique).mockResolvedValue({
+        id: "client-789",
+      } as any);
+      vi.mocked(db.agentClient.findUnique).mockResolvedValue({
+        id: mockLeadId,
+      } as any);
+
+      const result = await repository.createImported(mockAgentId, {
+        email: "juan@example.com",
+        source: "import",
+      });
+
+      expect(result).toEqual({ id: mockLeadId });
+      expect(db.agentClient.findUnique).toHaveBeenCalledWith({
+        where: {
+          agentId_clientId: { agentId: mockAgentId, clientId: "client-789" },
+        },
+        select: { id: true },
+      });
+      expect(db.agentClient.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("claimImportedContact", () => {
+    it("should link an imported contact to the user who signed up", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue({
+        id: "lead-1",
+      } as any);
+      vi.mocked(db.agentClient.update).mockResolvedValue({
+        id: "lead-1",
+      } as any);
+
+      const result = await repository.claimImportedContact(
+        mockAgentId,
+        "client-789",
+        "Ana@Example.com",
+      );
+
+      expect(result).toEqual({ id: "lead-1" });
+      expect(db.agentClient.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            agentId: mockAgentId,
+            clientId: null,
+            contactEmail: "ana@example.com",
+          },
+        }),
+      );
+      expect(db.agentClient.update).toHaveBeenCalledWith({
+        where: { id: "lead-1" },
+        data: {
+          clientId: "client-789",
+          contactName: null,
+          contactEmail: null,
+          contactPhone: null,
+        },
+        select: { id: true },
+      });
+    });
+
+    it("should return null when the agent had no such contact", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(null);
+
+      expect(
+        await repository.claimImportedContact(
+          mockAgentId,
+          "client-789",
+          "ana@example.com",
+        ),
+      ).toBeNull();
+      expect(db.agentClient.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -19,6 +19,16 @@ vi.mock("../client", () => ({
       delete: vi.fn(),
       groupBy: vi.fn(),
     },
+    appointmentReminder: {
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    appointmentReschedule: {
+      create: vi.fn(),
+    },
+    property: {
+      findUnique: vi.fn(),
+    },
     $transaction: vi.fn(),
   },
 }));
@@ -38,6 +48,7 @@ const mockAgentId = "agent-789";
 const mockAppointmentId = "apt-001";
 
 const mockScheduledAt = new Date("2025-01-15T10:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
 
 const mockAppointment = {
   id: mockAppointmentId,
@@ -46,6 +57,7 @@ const mockAppointment = {
   agentId: mockAgentId,
   scheduledAt: mockScheduledAt,
   status: "PENDING" as AppointmentStatus,
+  durationMinutes: 60,
   notes: "Quiero ver la propiedad",
   createdAt: new Date("2025-12-01T10:00:00Z"),
   updatedAt: new Date("2025-12-01T10:00:00Z"),
@@ -98,11 +110,19 @@ describe("AppointmentRepository", () => {
           delete: db.appointment.delete,
           groupBy: db.appointment.groupBy,
         },
+        appointmentReminder: db.appointmentReminder,
+        appointmentReschedule: db.appointmentReschedule,
       };
       // Execute the callback with the mock transaction client
       return callback(mockTx);
     });
 
+    // Default property: 1 hour visits
+    vi.mocked(db.property.findUnique).mockResolvedValue({
+      agentId: mockAgentId,
+      visitDurationMinutes: 60,
+    } as any);
+
     // Create a fresh repository instance
     repository = new AppointmentRepository();
   });
@@ -116,23 +136,32 @@ describe("AppointmentRepository", () => {
         agentId: mockAgentId,
         scheduledAt: mockScheduledAt,
       };
-      // Mock no conflicts (findFirst returns null)
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      // Mock no conflicts (no overlapping visits)
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
       vi.mocked(db.appointment.create).mockResolvedValue(mockAppointmentDetail);
 
       // Act
       const result = await repository.createAppointment(appointmentData);
 
       // Assert
-      // Verify conflict check was called
-      expect(db.appointment.findFirst).toHaveBeenCalledWith({
+      // Verify conflict check covers every visit of the agent that could overlap
+      expect(db.appointment.findMany).toHaveBeenCalledWith({
         where: {
-          propertyId: mockPropertyId,
-          scheduledAt: mockScheduledAt,
+          agentId: mockAgentId,
+          scheduledAt: {
+            gt: new Date(mockScheduledAt.getTime() - 8 * HOUR_MS),
+            lt: new Date(mockScheduledAt.getTime() + HOUR_MS),
+          },
           status: {
             in: ["PENDING", "CONFIRMED"],
           },
         },
+        select: {
+          id: true,
+          propertyId: true,
+          scheduledAt: true,
+          durationMinutes: true,
+        },
       });
       // Note: sanitizeOptional converts undefined to null
       expect(db.appointment.create).toHaveBeenCalledWith({
@@ -142,6 +171,7 @@ describe("AppointmentRepository", () => {
           agentId: mockAgentId,
           scheduledAt: mockScheduledAt,
           notes: null,
+          durationMinutes: 60,
           status: "PENDING",
         },
         select: appointmentDetailSelect,
@@ -160,7 +190,7 @@ describe("AppointmentRepository", () => {
         notes: "Prefiero en la mañana",
       };
       // Mock no conflicts
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
       vi.mocked(db.appointment.create).mockResolvedValue(mockAppointmentDetail);
 
       // Act
@@ -185,7 +215,7 @@ describe("AppointmentRepository", () => {
         scheduledAt: mockScheduledAt,
       };
       // Mock no conflicts
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
       vi.mocked(db.appointment.create).mockResolvedValue(mockAppointmentDetail);
 
       // Act
@@ -205,7 +235,7 @@ describe("AppointmentRepository", () => {
       // Arrange
       const error = new Error("Database connection failed");
       // Mock no conflicts, but create fails
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
       vi.mocked(db.appointment.create).mockRejectedValue(error);
 
       // Act & Assert
@@ -232,11 +262,11 @@ describe("AppointmentRepository", () => {
         id: "existing-apt-123",
         propertyId: mockPropertyId,
         scheduledAt: mockScheduledAt,
-        status: "PENDING" as AppointmentStatus,
+        durationMinutes: 60,
       };
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(
-        existingAppointment as any
-      );
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        existingAppointment,
+      ] as any);
 
       // Act & Assert
       await expect(
@@ -244,18 +274,66 @@ describe("AppointmentRepository", () => {
       ).rejects.toThrow("Este horario ya está reservado");
 
       // Verify conflict check was called
-      expect(db.appointment.findFirst).toHaveBeenCalledWith({
-        where: {
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ agentId: mockAgentId }),
+        })
+      );
+
+      // Verify appointment was NOT created when conflict exists
+      expect(db.appointment.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject overlapping visits at another property of the agent", async () => {
+      // Arrange: 2h visit at 09:30 overlaps the 10:00 request
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        {
+          id: "existing-apt-123",
+          propertyId: "prop-other",
+          scheduledAt: new Date("2025-01-15T09:30:00Z"),
+          durationMinutes: 120,
+        },
+      ] as any);
+
+      // Act & Assert
+      await expect(
+        repository.createAppointment({
+          userId: mockUserId,
           propertyId: mockPropertyId,
+          agentId: mockAgentId,
           scheduledAt: mockScheduledAt,
-          status: {
-            in: ["PENDING", "CONFIRMED"],
-          },
+        })
+      ).rejects.toThrow("El agente tiene otra visita en ese horario");
+      expect(db.appointment.create).not.toHaveBeenCalled();
+    });
+
+    it("should allow back-to-back visits", async () => {
+      // Arrange: previous visit ends exactly when the new one starts
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        {
+          id: "existing-apt-123",
+          propertyId: "prop-other",
+          scheduledAt: new Date("2025-01-15T08:30:00Z"),
+          durationMinutes: 90,
         },
+      ] as any);
+      vi.mocked(db.appointment.create).mockResolvedValue(mockAppointmentDetail);
+
+      // Act
+      await repository.createAppointment({
+        userId: mockUserId,
+        propertyId: mockPropertyId,
+        agentId: mockAgentId,
+        scheduledAt: mockScheduledAt,
+        durationMinutes: 30,
       });
 
-      // Verify appointment was NOT created when conflict exists
-      expect(db.appointment.create).not.toHaveBeenCalled();
+      // Assert
+      expect(db.appointment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ durationMinutes: 30 }),
+        })
+      );
     });
   });
 
@@ -601,7 +679,7 @@ describe("AppointmentRepository", () => {
   describe("isSlotAvailable()", () => {
     it("should return true if slot is available", async () => {
       // Arrange
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
 
       // Act
       const result = await repository.isSlotAvailable(
@@ -610,21 +688,64 @@ describe("AppointmentRepository", () => {
       );
 
       // Assert
-      expect(db.appointment.findFirst).toHaveBeenCalledWith({
-        where: {
-          propertyId: mockPropertyId,
-          scheduledAt: mockScheduledAt,
-          status: {
-            in: ["PENDING", "CONFIRMED"],
-          },
-        },
+      expect(db.property.findUnique).toHaveBeenCalledWith({
+        where: { id: mockPropertyId },
+        select: { agentId: true, visitDurationMinutes: true },
       });
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ agentId: mockAgentId }),
+        })
+      );
       expect(result).toBe(true);
     });
 
     it("should return false if slot is taken", async () => {
       // Arrange
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(mockAppointment);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([mockAppointment]);
+
+      // Act
+      const result = await repository.isSlotAvailable(
+        mockPropertyId,
+        mockScheduledAt
+      );
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it("should return false if a visit overlaps part of the slot", async () => {
+      // Arrange: 10:30 request while the 10:00 visit lasts 1 hour
+      vi.mocked(db.appointment.findMany).mockResolvedValue([mockAppointment]);
+
+      // Act
+      const result = await repository.isSlotAvailable(
+        mockPropertyId,
+        new Date("2025-01-15T10:30:00Z")
+      );
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it("should use the given duration instead of the property default", async () => {
+      // Arrange: 30 min visit at 09:30 ends when the 10:00 visit starts
+      vi.mocked(db.appointment.findMany).mockResolvedValue([mockAppointment]);
+
+      // Act
+      const result = await repository.isSlotAvailable(
+        mockPropertyId,
+        new Date("2025-01-15T09:30:00Z"),
+        { durationMinutes: 30 }
+      );
+
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it("should return false if the property does not exist", async () => {
+      // Arrange
+      vi.mocked(db.property.findUnique).mockResolvedValue(null);
 
       // Act
       const result = await repository.isSlotAvailable(
@@ -634,17 +755,18 @@ describe("AppointmentRepository", () => {
 
       // Assert
       expect(result).toBe(false);
+      expect(db.appointment.findMany).not.toHaveBeenCalled();
     });
 
     it("should only check PENDING and CONFIRMED appointments", async () => {
       // Arrange
-      vi.mocked(db.appointment.findFirst).mockResolvedValue(null);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
 
       // Act
       await repository.isSlotAvailable(mockPropertyId, mockScheduledAt);
 
       // Assert
-      expect(db.appointment.findFirst).toHaveBeenCalledWith(
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
             status: { in: ["PENDING", "CONFIRMED"] },
@@ -654,6 +776,201 @@ describe("AppointmentRepository", () => {
     });
   });
 
+  describe("getAgentCalendarAppointments()", () => {
+    it("should only load active appointments since the given date", async () => {
+      // Arrange
+      const since = new Date("2025-01-01T00:00:00Z");
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
+
+      // Act
+      await repository.getAgentCalendarAppointments(mockAgentId, since);
+
+      // Assert
+      expect(db.appointment.findMany).toHaveBeenCalledWith({
+        where: {
+          agentId: mockAgentId,
+          status: { in: ["PENDING", "CONFIRMED"] },
+          scheduledAt: { gte: since },
+        },
+        select: appointmentDetailSelect,
+        orderBy: { scheduledAt: "asc" },
+      });
+    });
+  });
+
+  describe("rescheduleAppointment()", () => {
+    const newScheduledAt = new Date("2025-01-16T14:00:00Z");
+
+    it("should move the appointment and keep the previous time", async () => {
+      // Arrange
+      vi.mocked(db.appointment.findUnique).mockResolvedValue({
+        ...mockAppointment,
+        status: "CONFIRMED",
+      });
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
+      vi.mocked(db.appointment.update).mockResolvedValue({
+        ...mockAppointmentDetail,
+        scheduledAt: newScheduledAt,
+      });
+
+      // Act
+      await repository.rescheduleAppointment(mockAppointmentId, {
+        scheduledAt: newScheduledAt,
+        rescheduledById: mockUserId,
+        reason: "Tengo una reunión",
+        status: "PENDING",
+      });
+
+      // Assert
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            agentId: mockAgentId,
+            id: { not: mockAppointmentId },
+            scheduledAt: {
+              gt: new Date(newScheduledAt.getTime() - 8 * HOUR_MS),
+              lt: new Date(newScheduledAt.getTime() + HOUR_MS),
+            },
+          }),
+        }),
+      );
+      expect(db.appointmentReschedule.create).toHaveBeenCalledWith({
+        data: {
+          appointmentId: mockAppointmentId,
+          previousScheduledAt: mockScheduledAt,
+          newScheduledAt,
+          rescheduledById: mockUserId,
+          reason: "Tengo una reunión",
+        },
+      });
+      expect(db.appointmentReminder.deleteMany).toHaveBeenCalledWith({
+        where: { appointmentId: mockAppointmentId },
+      });
+      expect(db.appointment.update).toHaveBeenCalledWith({
+        where: { id: mockAppointmentId },
+        data: { scheduledAt: newScheduledAt, status: "PENDING" },
+        select: appointmentDetailSelect,
+      });
+    });
+
+    it("should keep the current status when none is given", async () => {
+      // Arrange
+      vi.mocked(db.appointment.findUnique).mockResolvedValue({
+        ...mockAppointment,
+        status: "CONFIRMED",
+      });
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
+      vi.mocked(db.appointment.update).mockResolvedValue(mockAppointmentDetail);
+
+      // Act
+      await repository.rescheduleAppointment(mockAppointmentId, {
+        scheduledAt: newScheduledAt,
+        rescheduledById: mockAgentId,
+      });
+
+      // Assert
+      expect(db.appointment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { scheduledAt: newScheduledAt, status: "CONFIRMED" },
+        }),
+      );
+    });
+
+    it("should throw if the new slot is already booked", async () => {
+      // Arrange
+      vi.mocked(db.appointment.findUnique).mockResolvedValue(mockAppointment);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        { ...mockAppointment, id: "apt-other", scheduledAt: newScheduledAt },
+      ]);
+
+      // Act & Assert
+      await expect(
+        repository.rescheduleAppointment(mockAppointmentId, {
+          scheduledAt: newScheduledAt,
+          rescheduledById: mockUserId,
+        }),
+      ).rejects.toThrow("Este horario ya está reservado");
+      expect(db.appointmentReschedule.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject cancelled appointments", async () => {
+      // Arrange
+      vi.mocked(db.appointment.findUnique).mockResolvedValue({
+        ...mockAppointment,
+        status: "CANCELLED",
+      });
+
+      // Act & Assert
+      await expect(
+        repository.rescheduleAppointment(mockAppointmentId, {
+          scheduledAt: newScheduledAt,
+          rescheduledById: mockUserId,
+        }),
+      ).rejects.toThrow("Solo se pueden reprogramar citas activas");
+    });
+  });
+
+  describe("getAppointmentsDueForReminder()", () => {
+    it("should only load confirmed appointments without that reminder", async () => {
+      // Arrange
+      const from = new Date("2025-01-14T10:00:00Z");
+      const to = new Date("2025-01-15T10:00:00Z");
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
+
+      // Act
+      await repository.getAppointmentsDueForReminder("DAY_BEFORE", from, to);
+
+      // Assert
+      expect(db.appointment.findMany).toHaveBeenCalledWith({
+        where: {
+          status: "CONFIRMED",
+          scheduledAt: { gt: from, lte: to },
+          reminders: { none: { type: "DAY_BEFORE" } },
+        },
+        select: appointmentDetailSelect,
+        orderBy: { scheduledAt: "asc" },
+      });
+    });
+  });
+
+  describe("claimReminder()", () => {
+    it("should return true when the reminder was not sent yet", async () => {
+      // Arrange
+      vi.mocked(db.appointmentReminder.createMany).mockResolvedValue({
+        count: 1,
+      });
+
+      // Act
+      const result = await repository.claimReminder(
+        mockAppointmentId,
+        "HOUR_BEFORE",
+      );
+
+      // Assert
+      expect(result).toBe(true);
+      expect(db.appointmentReminder.createMany).toHaveBeenCalledWith({
+        data: [{ appointmentId: mockAppointmentId, type: "HOUR_BEFORE" }],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should return false when the reminder was already claimed", async () => {
+      // Arrange
+      vi.mocked(db.appointmentReminder.createMany).mockResolvedValue({
+        count: 0,
+      });
+
+      // Act
+      const result = await repository.claimReminder(
+        mockAppointmentId,
+        "HOUR_BEFORE",
+      );
+
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+
   describe("getAvailableSlots()", () => {
     it("should return all business hours if no appointments", async () => {
       // Arrange
@@ -679,8 +996,8 @@ describe("AppointmentRepository", () => {
       date2pm.setHours(14, 0, 0, 0);
 
       const bookedAppointments = [
-        { id: "apt-1", scheduledAt: date9am }, // 9am local
-        { id: "apt-2", scheduledAt: date2pm }, // 2pm local
+        { scheduledAt: date9am, durationMinutes: 60 }, // 9am local
+        { scheduledAt: date2pm, durationMinutes: 60 }, // 2pm local
       ];
       vi.mocked(db.appointment.findMany).mockResolvedValue(bookedAppointments);
 
@@ -719,6 +1036,7 @@ describe("AppointmentRepository", () => {
         return {
           id: `apt-${index + 1}`,
           scheduledAt: date,
+          durationMinutes: 60,
         };
       });
       vi.mocked(db.appointment.findMany).mockResolvedValue(fullyBookedDay);
@@ -732,6 +1050,79 @@ describe("AppointmentRepository", () => {
       // Assert
       expect(result).toEqual([]);
     });
+
+    it("should only offer the agent's candidate hours", async () => {
+      // Arrange
+      const date10am = new Date("2025-01-18");
+      date10am.setHours(10, 0, 0, 0);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        { scheduledAt: date10am, durationMinutes: 60 },
+      ]);
+
+      // Act
+      const result = await repository.getAvailableSlots(
+        mockPropertyId,
+        new Date("2025-01-18"),
+        [9, 10, 11, 12]
+      );
+
+      // Assert
+      expect(result).toEqual([9, 11, 12]);
+    });
+
+    it("should block every hour covered by a longer booked visit", async () => {
+      // Arrange: 2h visit at 09:00 (another property of the agent)
+      const date9am = new Date("2025-01-15");
+      date9am.setHours(9, 0, 0, 0);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        { scheduledAt: date9am, durationMinutes: 120 },
+      ] as any);
+
+      // Act
+      const result = await repository.getAvailableSlots(
+        mockPropertyId,
+        new Date("2025-01-15")
+      );
+
+      // Assert
+      expect(result).toEqual([11, 13, 14, 15, 16]);
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ agentId: mockAgentId }),
+        })
+      );
+    });
+
+    it("should only offer hours where the whole visit fits", async () => {
+      // Arrange: 2h visits, no bookings
+      vi.mocked(db.property.findUnique).mockResolvedValue({
+        agentId: mockAgentId,
+        visitDurationMinutes: 120,
+      } as any);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([]);
+
+      // Act
+      const result = await repository.getAvailableSlots(
+        mockPropertyId,
+        new Date("2025-01-15")
+      );
+
+      // Assert: 11:00 would run into lunch, 16:00 past closing time
+      expect(result).toEqual([9, 10, 13, 14, 15]);
+    });
+
+    it("should skip the query when the agent offers no hours", async () => {
+      // Act
+      const result = await repository.getAvailableSlots(
+        mockPropertyId,
+        new Date("2025-01-19"),
+        []
+      );
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(db.appointment.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe("deleteAppointment()", () => {
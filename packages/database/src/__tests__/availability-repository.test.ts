@@ -0,0 +1,295 @@
+/**
+ * AVAILABILITY REPOSITORY TESTS
+ *
+ * Tests for agent weekly rules, blackout dates and effective schedules
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => {
+  const tx = {
+    agentAvailabilityRule: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  };
+
+  return {
+    db: {
+      property: {
+        findUnique: vi.fn(),
+        updateMany: vi.fn(),
+      },
+      agentAvailabilityRule: {
+        findMany: vi.fn(),
+      },
+      agentBlackoutDate: {
+        findMany: vi.fn(),
+        create: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      $transaction: vi.fn((callback) => callback(tx)),
+      __tx: tx,
+    },
+  };
+});
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  AvailabilityRepository,
+  DEFAULT_AVAILABILITY_RULES,
+} from "../repositories/availability";
+
+const mockAgentId = "agent-123";
+const mockPropertyId = "prop-456";
+
+// biome-ignore lint/suspicious/noExplicitAny: test access to mocked transaction
+const mockTx = (db as any).__tx;
+
+describe("AvailabilityRepository", () => {
+  let repository: AvailabilityRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new AvailabilityRepository();
+  });
+
+  describe("getScheduleForProperty()", () => {
+    beforeEach(() => {
+      vi.mocked(db.property.findUnique).mockResolvedValue({
+        agentId: mockAgentId,
+        visitDurationMinutes: 120,
+      } as never);
+      vi.mocked(db.agentBlackoutDate.findMany).mockResolvedValue([]);
+    });
+
+    it("should return null when the property does not exist", async () => {
+      vi.mocked(db.property.findUnique).mockResolvedValue(null);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result).toBeNull();
+      expect(db.agentAvailabilityRule.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the default schedule when nothing is configured", async () => {
+      vi.mocked(db.agentAvailabilityRule.findMany).mockResolvedValue([]);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result?.source).toBe("default");
+      expect(result?.weeklyRules).toEqual(DEFAULT_AVAILABILITY_RULES);
+    });
+
+    it("should include the property visit duration", async () => {
+      vi.mocked(db.agentAvailabilityRule.findMany).mockResolvedValue([]);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result?.visitDurationMinutes).toBe(120);
+    });
+
+    it("should use the agent rules when the property has no override", async () => {
+      vi.mocked(db.agentAvailabilityRule.findMany).mockResolvedValue([
+        {
+          id: "rule-1",
+          propertyId: null,
+          dayOfWeek: 6,
+          startHour: 10,
+          endHour: 14,
+        },
+      ]);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result?.source).toBe("agent");
+      expect(result?.weeklyRules).toEqual([
+        { dayOfWeek: 6, startHour: 10, endHour: 14 },
+      ]);
+    });
+
+    it("should replace the agent rules with the property override", async () => {
+      vi.mocked(db.agentAvailabilityRule.findMany).mockResolvedValue([
+        {
+          id: "rule-1",
+          propertyId: null,
+          dayOfWeek: 1,
+          startHour: 9,
+          endHour: 17,
+        },
+        {
+          id: "rule-2",
+          propertyId: mockPropertyId,
+          dayOfWeek: 6,
+          startHour: 9,
+          endHour: 13,
+        },
+      ]);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result?.source).toBe("property");
+      expect(result?.weeklyRules).toEqual([
+        { dayOfWeek: 6, startHour: 9, endHour: 13 },
+      ]);
+    });
+
+    it("should return deduplicated blackout dates as yyyy-MM-dd", async () => {
+      vi.mocked(db.agentAvailabilityRule.findMany).mockResolvedValue([]);
+      vi.mocked(db.agentBlackoutDate.findMany).mockResolvedValue([
+        { date: new Date("2025-12-24T00:00:00.000Z") },
+        { date: new Date("2025-12-24T00:00:00.000Z") },
+        { date: new Date("2025-12-25T00:00:00.000Z") },
+      ] as never);
+
+      const result = await repository.getScheduleForProperty(mockPropertyId);
+
+      expect(result?.blackoutDates).toEqual(["2025-12-24", "2025-12-25"]);
+      expect(db.agentBlackoutDate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            agentId: mockAgentId,
+            OR: [{ propertyId: mockPropertyId }, { propertyId: null }],
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("replaceWeeklyRules()", () => {
+    it("should replace the agent-wide rules in a transaction", async () => {
+      const rules = [{ dayOfWeek: 6, startHour: 9, endHour: 14 }];
+      mockTx.agentAvailabilityRule.findMany.mockResolvedValue([
+        { id: "rule-1", propertyId: null, ...rules[0] },
+      ]);
+
+      const result = await repository.replaceWeeklyRules(
+        mockAgentId,
+        null,
+        rules,
+      );
+
+      expect(mockTx.agentAvailabilityRule.deleteMany).toHaveBeenCalledWith({
+        where: { agentId: mockAgentId, propertyId: null },
+      });
+      expect(mockTx.agentAvailabilityRule.createMany).toHaveBeenCalledWith({
+        data: [{ agentId: mockAgentId, propertyId: null, ...rules[0] }],
+      });
+      expect(result).toHaveLength(1);
+      expect(db.property.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should only clear the override when rules are empty", async () => {
+      vi.mocked(db.property.findUnique).mockResolvedValue({
+        agentId: mockAgentId,
+      } as never);
+      mockTx.agentAvailabilityRule.findMany.mockResolvedValue([]);
+
+      await repository.replaceWeeklyRules(mockAgentId, mockPropertyId, []);
+
+      expect(mockTx.agentAvailabilityRule.deleteMany).toHaveBeenCalledWith({
+        where: { agentId: mockAgentId, propertyId: mockPropertyId },
+      });
+      expect(mockTx.agentAvailabilityRule.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject overrides for properties of another agent", async () => {
+      vi.mocked(db.property.findUnique).mockResolvedValue({
+        agentId: "other-agent",
+      } as never);
+
+      await expect(
+        repository.replaceWeeklyRules(mockAgentId, mockPropertyId, []),
+      ).rejects.toThrow("Propiedad no encontrada");
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid hour ranges", async () => {
+      await expect(
+        repository.replaceWeeklyRules(mockAgentId, null, [
+          { dayOfWeek: 1, startHour: 14, endHour: 9 },
+        ]),
+      ).rejects.toThrow("Rango de horas inválido");
+    });
+
+    it("should reject invalid days of week", async () => {
+      await expect(
+        repository.replaceWeeklyRules(mockAgentId, null, [
+          { dayOfWeek: 7, startHour: 9, endHour: 12 },
+        ]),
+      ).rejects.toThrow("Día de la semana inválido");
+    });
+  });
+
+  describe("setVisitDuration()", () => {
+    it("should only update properties of the agent", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 1 });
+
+      await repository.setVisitDuration(mockAgentId, mockPropertyId, 30);
+
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: { id: mockPropertyId, agentId: mockAgentId },
+        data: { visitDurationMinutes: 30 },
+      });
+    });
+
+    it("should throw when the property is not owned by the agent", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(
+        repository.setVisitDuration(mockAgentId, mockPropertyId, 60),
+      ).rejects.toThrow("Propiedad no encontrada");
+    });
+
+    it("should reject durations that are not 15 minute blocks", async () => {
+      await expect(
+        repository.setVisitDuration(mockAgentId, mockPropertyId, 50),
+      ).rejects.toThrow("Duración de visita inválida");
+      await expect(
+        repository.setVisitDuration(mockAgentId, mockPropertyId, 9 * 60),
+      ).rejects.toThrow("Duración de visita inválida");
+      expect(db.property.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("addBlackoutDate()", () => {
+    it("should store the day as a UTC date and sanitize the reason", async () => {
+      vi.mocked(db.agentBlackoutDate.create).mockResolvedValue({} as never);
+
+      await repository.addBlackoutDate({
+        agentId: mockAgentId,
+        date: "2025-12-24",
+        reason: "<b>Navidad</b>",
+      });
+
+      expect(db.agentBlackoutDate.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            agentId: mockAgentId,
+            propertyId: null,
+            date: new Date("2025-12-24T00:00:00.000Z"),
+            reason: "Navidad",
+          },
+        }),
+      );
+    });
+  });
+
+  describe("deleteBlackoutDate()", () => {
+    it("should throw when the blackout date is not owned by the agent", async () => {
+      vi.mocked(db.agentBlackoutDate.deleteMany).mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        repository.deleteBlackoutDate("blackout-1", mockAgentId),
+      ).rejects.toThrow("Día bloqueado no encontrado");
+      expect(db.agentBlackoutDate.deleteMany).toHaveBeenCalledWith({
+        where: { id: "blackout-1", agentId: mockAgentId },
+      });
+    });
+  });
+});
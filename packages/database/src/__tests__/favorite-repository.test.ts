@@ -480,6 +480,28 @@ describe("FavoriteRepository", () => {
     });
   });
 
+  describe("getPropertyFavoriters()", () => {
+    it("should return the users who favorited a property", async () => {
+      // Arrange
+      const user = { id: mockUserId, name: "Ana", email: "ana@example.com" };
+      vi.mocked(db.favorite.findMany).mockResolvedValue([{ user }] as any);
+
+      // Act
+      const result = await repository.getPropertyFavoriters(mockPropertyId);
+
+      // Assert
+      expect(db.favorite.findMany).toHaveBeenCalledWith({
+        where: { propertyId: mockPropertyId },
+        select: {
+          user: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      });
+      expect(result).toEqual([user]);
+    });
+  });
+
   describe("clearUserFavorites()", () => {
     it("should delete all favorites for a user", async () => {
       // Arrange
@@ -151,6 +151,7 @@ export const mockProperty: Property = {
   transactionType: "SALE",
   category: "HOUSE",
   status: "AVAILABLE",
+  visibility: "PUBLISHED",
   bedrooms: 3,
   bathrooms: new Decimal("2.0"),
   area: new Decimal("150.50"),
@@ -0,0 +1,209 @@
+/**
+ * LEAD ACTIVITY REPOSITORY TESTS
+ *
+ * Tests for the CRM activity log, merged timeline and follow-up tasks
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    agentClient: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    leadActivity: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    leadStageChange: {
+      findMany: vi.fn(),
+    },
+    appointment: {
+      findMany: vi.fn(),
+    },
+    leadTask: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  LeadActivityRepository,
+  leadActivitySelect,
+} from "../repositories/lead-activities";
+
+// Mock data
+const mockAgentId = "agent-123";
+const mockLeadId = "lead-456";
+const mockClientId = "client-789";
+
+describe("LeadActivityRepository", () => {
+  let repository: LeadActivityRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // The transaction client has the same API as db
+    vi.mocked(db.$transaction).mockImplementation(async (callback: any) =>
+      callback(db),
+    );
+    vi.mocked(db.agentClient.findFirst).mockResolvedValue({
+      id: mockLeadId,
+      clientId: mockClientId,
+    } as any);
+
+    repository = new LeadActivityRepository();
+  });
+
+  describe("addActivity()", () => {
+    it("should append a sanitized activity", async () => {
+      vi.mocked(db.leadActivity.create).mockResolvedValue({} as any);
+
+      await repository.addActivity({
+        agentClientId: mockLeadId,
+        agentId: mockAgentId,
+        type: "CALL",
+        content: "<b>Llamó</b> para preguntar el precio",
+        createdById: mockAgentId,
+      });
+
+      expect(db.agentClient.findFirst).toHaveBeenCalledWith({
+        where: { id: mockLeadId, agentId: mockAgentId },
+        select: { id: true, clientId: true },
+      });
+      expect(db.leadActivity.create).toHaveBeenCalledWith({
+        data: {
+          agentClientId: mockLeadId,
+          type: "CALL",
+          content: "Llamó para preguntar el precio",
+          createdById: mockAgentId,
+        },
+        select: leadActivitySelect,
+      });
+      // Only notes refresh the list preview
+      expect(db.agentClient.update).not.toHaveBeenCalled();
+    });
+
+    it("should keep the latest note as the lead preview", async () => {
+      vi.mocked(db.leadActivity.create).mockResolvedValue({} as any);
+
+      await repository.addActivity({
+        agentClientId: mockLeadId,
+        agentId: mockAgentId,
+        type: "NOTE",
+        content: "Busca casa con jardín",
+        createdById: mockAgentId,
+      });
+
+      expect(db.agentClient.update).toHaveBeenCalledWith({
+        where: { id: mockLeadId },
+        data: { notes: "Busca casa con jardín" },
+      });
+    });
+
+    it("should reject leads of other agents", async () => {
+      vi.mocked(db.agentClient.findFirst).mockResolvedValue(null);
+
+      await expect(
+        repository.addActivity({
+          agentClientId: mockLeadId,
+          agentId: "other-agent",
+          type: "NOTE",
+          content: "Hola",
+          createdById: "other-agent",
+        }),
+      ).rejects.toThrow("Cliente no encontrado");
+      expect(db.leadActivity.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getTimeline()", () => {
+    it("should merge activities, stage changes and appointments newest first", async () => {
+      vi.mocked(db.leadActivity.findMany).mockResolvedValue([
+        {
+          id: "act-1",
+          type: "WHATSAPP",
+          content: "Envié fotos",
+          createdAt: new Date("2025-01-03T10:00:00Z"),
+          createdBy: { name: "María" },
+        },
+      ] as any);
+      vi.mocked(db.leadStageChange.findMany).mockResolvedValue([
+        {
+          id: "change-1",
+          fromStatus: null,
+          toStatus: "NEW",
+          changedAt: new Date("2025-01-01T10:00:00Z"),
+          changedBy: null,
+        },
+      ] as any);
+      vi.mocked(db.appointment.findMany).mockResolvedValue([
+        {
+          id: "apt-1",
+          scheduledAt: new Date("2025-01-10T15:00:00Z"),
+          status: "CONFIRMED",
+          createdAt: new Date("2025-01-02T10:00:00Z"),
+          property: { title: "Casa en Cuenca" },
+        },
+      ] as any);
+
+      const timeline = await repository.getTimeline(mockLeadId, mockAgentId);
+
+      expect(db.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { agentId: mockAgentId, userId: mockClientId },
+        }),
+      );
+      expect(timeline.map((entry) => entry.kind)).toEqual([
+        "activity",
+        "appointment",
+        "stage_change",
+      ]);
+      expect(timeline[0]).toMatchObject({ authorName: "María" });
+    });
+  });
+
+  describe("completeTask()", () => {
+    it("should only complete pending tasks of the agent", async () => {
+      vi.mocked(db.leadTask.updateMany).mockResolvedValue({ count: 1 });
+
+      await repository.completeTask("task-1", mockAgentId);
+
+      expect(db.leadTask.updateMany).toHaveBeenCalledWith({
+        where: { id: "task-1", agentId: mockAgentId, completedAt: null },
+        data: { completedAt: expect.any(Date) },
+      });
+    });
+
+    it("should throw when the task does not exist", async () => {
+      vi.mocked(db.leadTask.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(
+        repository.completeTask("task-1", mockAgentId),
+      ).rejects.toThrow("Tarea no encontrada");
+    });
+  });
+
+  describe("listPendingTasks()", () => {
+    it("should load open tasks ordered by due date", async () => {
+      vi.mocked(db.leadTask.findMany).mockResolvedValue([]);
+
+      await repository.listPendingTasks(mockAgentId, 3);
+
+      expect(db.leadTask.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { agentId: mockAgentId, completedAt: null },
+          orderBy: { dueAt: "asc" },
+          take: 3,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * LISTING LIFECYCLE REPOSITORY TESTS
+ *
+ * Tests for scheduled publishing, renewal reminders and auto-archiving
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    property: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  getListingArchiveDate,
+  getListingLifecycleCutoffs,
+  LISTING_ARCHIVE_AFTER_DAYS,
+  ListingLifecycleRepository,
+} from "../repositories/listing-lifecycle";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const propertyId = "property-123";
+const agentId = "agent-123";
+
+function mockTransaction(
+  property: { agentId: string; visibility: string } | null,
+  role = "AGENT",
+) {
+  const tx = {
+    property: {
+      findUnique: vi.fn().mockResolvedValue(property),
+      update: vi.fn().mockResolvedValue({ id: propertyId }),
+    },
+    user: {
+      findUnique: vi.fn().mockResolvedValue({ role }),
+    },
+  };
+
+  vi.mocked(db.$transaction).mockImplementation(
+    async (callback: any) => callback(tx) as never,
+  );
+
+  return tx;
+}
+
+describe("ListingLifecycleRepository", () => {
+  let repository: ListingLifecycleRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new ListingLifecycleRepository();
+  });
+
+  describe("cutoffs", () => {
+    it("should remind 7 days before archiving", () => {
+      const { reminderCutoff, archiveCutoff } = getListingLifecycleCutoffs(now);
+
+      expect(reminderCutoff.toISOString()).toBe("2026-01-07T12:00:00.000Z");
+      expect(archiveCutoff.toISOString()).toBe("2025-12-31T12:00:00.000Z");
+      expect(getListingArchiveDate(archiveCutoff)).toEqual(now);
+      expect(LISTING_ARCHIVE_AFTER_DAYS).toBe(60);
+    });
+  });
+
+  describe("publishScheduled()", () => {
+    it("should only publish listings that are still DRAFT", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 1 });
+
+      const published = await repository.publishScheduled(propertyId, now);
+
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: { id: propertyId, visibility: "DRAFT" },
+        data: {
+          visibility: "PUBLISHED",
+          publishedAt: now,
+          refreshedAt: now,
+          renewalReminderSentAt: null,
+          archivedAt: null,
+        },
+      });
+      expect(published).toBe(true);
+    });
+
+    it("should return false when another run already published it", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await repository.publishScheduled(propertyId, now)).toBe(false);
+    });
+  });
+
+  describe("renewal reminders", () => {
+    it("should find published listings past the reminder cutoff", async () => {
+      vi.mocked(db.property.findMany).mockResolvedValue([]);
+
+      await repository.findDueForRenewalReminder(now);
+
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: "PUBLISHED",
+            refreshedAt: {
+              lte: getListingLifecycleCutoffs(now).reminderCutoff,
+            },
+            renewalReminderSentAt: null,
+          },
+          orderBy: { refreshedAt: "asc" },
+        }),
+      );
+    });
+
+    it("should claim a reminder only once", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 0 });
+
+      const claimed = await repository.claimRenewalReminder(propertyId, now);
+
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: propertyId,
+          visibility: "PUBLISHED",
+          renewalReminderSentAt: null,
+        },
+        data: { renewalReminderSentAt: now },
+      });
+      expect(claimed).toBe(false);
+    });
+  });
+
+  describe("archiveStale()", () => {
+    it("should archive published listings past the archive cutoff", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValue({ count: 3 });
+
+      const archived = await repository.archiveStale(now);
+
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: {
+          visibility: "PUBLISHED",
+          refreshedAt: { lte: getListingLifecycleCutoffs(now).archiveCutoff },
+        },
+        data: { visibility: "ARCHIVED", archivedAt: now },
+      });
+      expect(archived).toBe(3);
+    });
+  });
+
+  describe("renew()", () => {
+    it("should republish an archived listing", async () => {
+      const tx = mockTransaction({ agentId, visibility: "ARCHIVED" });
+
+      await repository.renew(propertyId, agentId);
+
+      expect(tx.property.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: propertyId },
+          data: expect.objectContaining({
+            visibility: "PUBLISHED",
+            publishedAt: expect.any(Date),
+            refreshedAt: expect.any(Date),
+            renewalReminderSentAt: null,
+          }),
+        }),
+      );
+    });
+
+    it("should not publish a scheduled listing", async () => {
+      const tx = mockTransaction({ agentId, visibility: "DRAFT" });
+
+      await expect(repository.renew(propertyId, agentId)).rejects.toThrow(
+        "La propiedad aún no está publicada",
+      );
+      expect(tx.property.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject agents that do not own the listing", async () => {
+      const tx = mockTransaction({
+        agentId: "other-agent",
+        visibility: "PUBLISHED",
+      });
+
+      await expect(repository.renew(propertyId, agentId)).rejects.toThrow(
+        "Unauthorized",
+      );
+      expect(tx.property.update).not.toHaveBeenCalled();
+    });
+
+    it("should allow admins to renew any listing", async () => {
+      const tx = mockTransaction(
+        { agentId: "other-agent", visibility: "PUBLISHED" },
+        "ADMIN",
+      );
+
+      await repository.renew(propertyId, agentId);
+
+      expect(tx.property.update).toHaveBeenCalled();
+    });
+  });
+
+  describe("schedule()", () => {
+    it("should move the publish date of a scheduled listing", async () => {
+      const tx = mockTransaction({ agentId, visibility: "DRAFT" });
+      const publishAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      await repository.schedule(propertyId, publishAt, agentId);
+
+      expect(tx.property.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { publishAt } }),
+      );
+    });
+
+    it("should publish right away without a future date", async () => {
+      const tx = mockTransaction({ agentId, visibility: "DRAFT" });
+
+      await repository.schedule(propertyId, null, agentId);
+
+      expect(tx.property.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            visibility: "PUBLISHED",
+            publishAt: null,
+          }),
+        }),
+      );
+    });
+
+    it("should reject listings that are already published", async () => {
+      mockTransaction({ agentId, visibility: "PUBLISHED" });
+
+      await expect(
+        repository.schedule(propertyId, null, agentId),
+      ).rejects.toThrow("Solo se pueden programar publicaciones no publicadas");
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * PLAN DOWNGRADE REPOSITORY TESTS
+ *
+ * Tests for grace period claims and marked downgrade/restore changes
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    property: {
+      findMany: vi.fn(),
+      updateMany: vi.fn((args) => ({ model: "property", args })),
+      count: vi.fn(),
+    },
+    propertyImage: {
+      updateMany: vi.fn((args) => ({ model: "propertyImage", args })),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import { PlanDowngradeRepository } from "../repositories/plan-downgrades";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+describe("PlanDowngradeRepository", () => {
+  let repository: PlanDowngradeRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new PlanDowngradeRepository();
+  });
+
+  describe("startGracePeriod", () => {
+    it("should only start a grace period when none is running", async () => {
+      const graceEndsAt = new Date("2026-03-08T12:00:00.000Z");
+      vi.mocked(db.user.updateMany).mockResolvedValue({ count: 1 });
+
+      const started = await repository.startGracePeriod("agent-1", graceEndsAt);
+
+      expect(started).toBe(true);
+      expect(db.user.updateMany).toHaveBeenCalledWith({
+        where: { id: "agent-1", downgradeGraceEndsAt: null },
+        data: { downgradeGraceEndsAt: graceEndsAt },
+      });
+    });
+
+    it("should return false when a grace period is already running", async () => {
+      vi.mocked(db.user.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await repository.startGracePeriod("agent-1", now)).toBe(false);
+    });
+  });
+
+  describe("claimEnforcement", () => {
+    it("should clear an expired grace period before it is applied", async () => {
+      vi.mocked(db.user.updateMany).mockResolvedValue({ count: 1 });
+
+      const claimed = await repository.claimEnforcement("agent-1", now);
+
+      expect(claimed).toBe(true);
+      expect(db.user.updateMany).toHaveBeenCalledWith({
+        where: { id: "agent-1", downgradeGraceEndsAt: { lte: now } },
+        data: { downgradeGraceEndsAt: null },
+      });
+    });
+
+    it("should return false when another run already claimed it", async () => {
+      vi.mocked(db.user.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await repository.claimEnforcement("agent-1", now)).toBe(false);
+    });
+  });
+
+  describe("releaseEnforcement", () => {
+    it("should restore the grace period end of a failed downgrade", async () => {
+      vi.mocked(db.user.updateMany).mockResolvedValue({ count: 1 });
+
+      await repository.releaseEnforcement("agent-1", now);
+
+      expect(db.user.updateMany).toHaveBeenCalledWith({
+        where: { id: "agent-1", downgradeGraceEndsAt: null },
+        data: { downgradeGraceEndsAt: now },
+      });
+    });
+  });
+
+  describe("findAgentListings", () => {
+    it("should include live listings and those archived by a downgrade", async () => {
+      vi.mocked(db.property.findMany).mockResolvedValue([]);
+
+      await repository.findAgentListings("agent-1");
+
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            agentId: "agent-1",
+            OR: [
+              { visibility: { not: "ARCHIVED" } },
+              { downgradedAt: { not: null } },
+            ],
+          },
+          orderBy: { createdAt: "desc" },
+        }),
+      );
+    });
+  });
+
+  describe("applyDowngrade", () => {
+    it("should mark every change it applies in one transaction", async () => {
+      await repository.applyDowngrade(
+        "agent-1",
+        { archive: ["p-2"], unfeature: ["p-2"], hideImages: ["img-7"] },
+        now,
+      );
+
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ["p-2"] },
+          agentId: "agent-1",
+          visibility: { not: "ARCHIVED" },
+        },
+        data: {
+          visibility: "ARCHIVED",
+          archivedAt: now,
+          downgradedAt: now,
+          publishAt: null,
+        },
+      });
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["p-2"] }, agentId: "agent-1", isFeatured: true },
+        data: { isFeatured: false, featureSuspendedAt: now },
+      });
+      expect(db.propertyImage.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ["img-7"] },
+          property: { agentId: "agent-1" },
+          hiddenAt: null,
+        },
+        data: { hiddenAt: now },
+      });
+    });
+  });
+
+  describe("restore", () => {
+    it("should only republish listings archived by a downgrade", async () => {
+      await repository.restore(
+        "agent-1",
+        { publish: ["p-2"], feature: ["p-2"], showImages: [] },
+        now,
+      );
+
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ["p-2"] },
+          agentId: "agent-1",
+          downgradedAt: { not: null },
+        },
+        data: {
+          visibility: "PUBLISHED",
+          downgradedAt: null,
+          archivedAt: null,
+          refreshedAt: now,
+          renewalReminderSentAt: null,
+        },
+      });
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ["p-2"] },
+          agentId: "agent-1",
+          featureSuspendedAt: { not: null },
+        },
+        data: { isFeatured: true, featureSuspendedAt: null },
+      });
+    });
+  });
+
+  describe("setKeepOnDowngrade", () => {
+    it("should only update listings owned by the agent", async () => {
+      vi.mocked(db.property.updateMany).mockResolvedValueOnce({ count: 0 });
+
+      const updated = await repository.setKeepOnDowngrade(
+        "prop-1",
+        "other-agent",
+        true,
+      );
+
+      expect(updated).toBe(false);
+      expect(db.property.updateMany).toHaveBeenCalledWith({
+        where: { id: "prop-1", agentId: "other-agent" },
+        data: { keepOnDowngrade: true },
+      });
+    });
+  });
+});
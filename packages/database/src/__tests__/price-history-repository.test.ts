@@ -0,0 +1,118 @@
+/**
+ * PRICE HISTORY REPOSITORY TESTS
+ *
+ * Tests for price history reads (writes are covered in property-repository)
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    propertyPriceHistory: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+}));
+
+import { Decimal } from "@prisma/client/runtime/library";
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  PriceHistoryRepository,
+  priceHistorySelect,
+} from "../repositories/price-history";
+
+const mockPropertyId = "prop-456";
+
+describe("PriceHistoryRepository", () => {
+  let repository: PriceHistoryRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new PriceHistoryRepository();
+  });
+
+  describe("listByProperty()", () => {
+    it("should return changes in chronological order with numeric prices", async () => {
+      // Arrange: DB returns newest first
+      vi.mocked(db.propertyPriceHistory.findMany).mockResolvedValue([
+        {
+          id: "h-2",
+          propertyId: mockPropertyId,
+          previousPrice: new Decimal("240000.00"),
+          price: new Decimal("220000.00"),
+          createdAt: new Date("2025-12-10T10:00:00Z"),
+        },
+        {
+          id: "h-1",
+          propertyId: mockPropertyId,
+          previousPrice: new Decimal("250000.00"),
+          price: new Decimal("240000.00"),
+          createdAt: new Date("2025-12-01T10:00:00Z"),
+        },
+      ] as any);
+
+      // Act
+      const result = await repository.listByProperty(mockPropertyId);
+
+      // Assert
+      expect(db.propertyPriceHistory.findMany).toHaveBeenCalledWith({
+        where: { propertyId: mockPropertyId },
+        select: priceHistorySelect,
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+      expect(result.changes.map((entry) => entry.id)).toEqual(["h-1", "h-2"]);
+      expect(result.changes[0]?.previousPrice).toBe(250000);
+      expect(result.changes[1]?.price).toBe(220000);
+      expect(result.initialPrice).toBe(250000);
+      expect(result.omitted).toBe(0);
+      expect(db.propertyPriceHistory.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should query the initial price separately when the history is truncated", async () => {
+      vi.mocked(db.propertyPriceHistory.findMany).mockResolvedValue([
+        {
+          id: "h-3",
+          propertyId: mockPropertyId,
+          previousPrice: new Decimal("230000.00"),
+          price: new Decimal("225000.00"),
+          createdAt: new Date("2025-12-20T10:00:00Z"),
+        },
+        {
+          id: "h-2",
+          propertyId: mockPropertyId,
+          previousPrice: new Decimal("240000.00"),
+          price: new Decimal("230000.00"),
+          createdAt: new Date("2025-12-10T10:00:00Z"),
+        },
+      ] as any);
+      vi.mocked(db.propertyPriceHistory.findFirst).mockResolvedValue({
+        previousPrice: new Decimal("250000.00"),
+      } as any);
+      vi.mocked(db.propertyPriceHistory.count).mockResolvedValue(5);
+
+      const result = await repository.listByProperty(mockPropertyId, 2);
+
+      expect(db.propertyPriceHistory.findFirst).toHaveBeenCalledWith({
+        where: { propertyId: mockPropertyId },
+        select: { previousPrice: true },
+        orderBy: { createdAt: "asc" },
+      });
+      expect(result.initialPrice).toBe(250000);
+      expect(result.changes.map((entry) => entry.id)).toEqual(["h-2", "h-3"]);
+      expect(result.omitted).toBe(3);
+    });
+
+    it("should return an empty array when the price never changed", async () => {
+      vi.mocked(db.propertyPriceHistory.findMany).mockResolvedValue([]);
+
+      const result = await repository.listByProperty(mockPropertyId);
+
+      expect(result).toEqual({ initialPrice: null, changes: [], omitted: 0 });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * PROPERTY DRAFT REPOSITORY TESTS
+ *
+ * Tests for the property wizard's server-side drafts
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    propertyDraft: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  PropertyDraftRepository,
+  propertyDraftSelect,
+} from "../repositories/property-drafts";
+
+// Mock data
+const mockAgentId = "agent-123";
+const mockDraftId = "draft-456";
+
+const mockDraft = {
+  id: mockDraftId,
+  agentId: mockAgentId,
+  title: "Casa en Cuenca",
+  data: { title: "Casa en Cuenca", price: 150000, transactionType: "SALE" },
+  imageUrls: ["https://cdn.example.com/property-images/a.webp"],
+  currentStep: 2,
+  createdAt: new Date("2026-01-10T10:00:00Z"),
+  updatedAt: new Date("2026-01-10T12:00:00Z"),
+};
+
+describe("PropertyDraftRepository", () => {
+  let repository: PropertyDraftRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new PropertyDraftRepository();
+  });
+
+  describe("save()", () => {
+    it("should create a new draft with a sanitized title", async () => {
+      vi.mocked(db.propertyDraft.create).mockResolvedValue(mockDraft as never);
+
+      const result = await repository.save({
+        agentId: mockAgentId,
+        data: { title: "<b>Casa en Cuenca</b>", price: 150000 },
+        imageUrls: ["https://cdn.example.com/property-images/a.webp", ""],
+        currentStep: 2,
+      });
+
+      expect(db.propertyDraft.create).toHaveBeenCalledWith({
+        data: {
+          agentId: mockAgentId,
+          title: "Casa en Cuenca",
+          data: { title: "<b>Casa en Cuenca</b>", price: 150000 },
+          imageUrls: ["https://cdn.example.com/property-images/a.webp"],
+          currentStep: 2,
+        },
+        select: propertyDraftSelect,
+      });
+      expect(db.propertyDraft.findUnique).not.toHaveBeenCalled();
+      expect(result.data.price).toBe(150000);
+    });
+
+    it("should store a null title while the first step is empty", async () => {
+      vi.mocked(db.propertyDraft.create).mockResolvedValue(mockDraft as never);
+
+      await repository.save({
+        agentId: mockAgentId,
+        data: { title: "   " },
+        imageUrls: [],
+        currentStep: 1,
+      });
+
+      expect(db.propertyDraft.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ title: null }),
+        }),
+      );
+    });
+
+    it("should throw if the draft belongs to another agent", async () => {
+      vi.mocked(db.propertyDraft.findUnique).mockResolvedValue({
+        agentId: "other-agent",
+      } as never);
+
+      await expect(
+        repository.save({
+          id: mockDraftId,
+          agentId: mockAgentId,
+          data: {},
+          imageUrls: [],
+          currentStep: 3,
+        }),
+      ).rejects.toThrow("Borrador no encontrado");
+      expect(db.propertyDraft.update).not.toHaveBeenCalled();
+    });
+
+    it("should update the owner's draft", async () => {
+      vi.mocked(db.propertyDraft.findUnique).mockResolvedValue({
+        agentId: mockAgentId,
+      } as never);
+      vi.mocked(db.propertyDraft.update).mockResolvedValue({
+        ...mockDraft,
+        currentStep: 4,
+      } as never);
+
+      const result = await repository.save({
+        id: mockDraftId,
+        agentId: mockAgentId,
+        data: mockDraft.data as never,
+        imageUrls: mockDraft.imageUrls,
+        currentStep: 4,
+      });
+
+      expect(db.propertyDraft.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: mockDraftId } }),
+      );
+      expect(result.currentStep).toBe(4);
+    });
+  });
+
+  describe("findByIdForAgent()", () => {
+    it("should scope the lookup to the agent", async () => {
+      vi.mocked(db.propertyDraft.findFirst).mockResolvedValue(null);
+
+      const result = await repository.findByIdForAgent(
+        mockDraftId,
+        mockAgentId,
+      );
+
+      expect(db.propertyDraft.findFirst).toHaveBeenCalledWith({
+        where: { id: mockDraftId, agentId: mockAgentId },
+        select: propertyDraftSelect,
+      });
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("listByAgent()", () => {
+    it("should list the most recently edited drafts first", async () => {
+      vi.mocked(db.propertyDraft.findMany).mockResolvedValue([
+        mockDraft,
+      ] as never);
+
+      const result = await repository.listByAgent(mockAgentId);
+
+      expect(db.propertyDraft.findMany).toHaveBeenCalledWith({
+        where: { agentId: mockAgentId },
+        select: propertyDraftSelect,
+        orderBy: { updatedAt: "desc" },
+      });
+      expect(result[0]?.imageUrls).toHaveLength(1);
+    });
+  });
+
+  describe("delete()", () => {
+    it("should throw when nothing was deleted", async () => {
+      vi.mocked(db.propertyDraft.deleteMany).mockResolvedValue({ count: 0 });
+
+      await expect(repository.delete(mockDraftId, mockAgentId)).rejects.toThrow(
+        "Borrador no encontrado",
+      );
+    });
+  });
+});
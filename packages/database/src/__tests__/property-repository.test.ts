@@ -4,6 +4,7 @@
  * Tests for create, update, and delete operations with authorization
  */
 
+import { Prisma } from "@prisma/client";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 // Mock the database client BEFORE importing anything that uses it
@@ -25,13 +26,24 @@ vi.mock("../client", () => ({
       aggregate: vi.fn(),
       groupBy: vi.fn(),
     },
+    propertyImage: {
+      aggregate: vi.fn(),
+    },
     $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
   },
 }));
 
 import { db } from "../client";
 // Now import modules that depend on db
-import { PropertyRepository, propertySelect } from "../repositories/properties";
+import {
+  getPropertiesCursorPage,
+  PropertyRepository,
+  parseSearchHeadline,
+  polygonToWkt,
+  propertySelect,
+} from "../repositories/properties";
 import {
   mockProperty,
   mockPropertyWithRelations,
@@ -40,6 +52,14 @@ import {
   validUpdateData,
 } from "./helpers/fixtures";
 
+/**
+ * SQL completo (texto + valores) de la n-ésima llamada a $queryRaw
+ */
+function rawSql(call = 0): Prisma.Sql {
+  const [strings, ...values] = (db.$queryRaw as any).mock.calls[call];
+  return Prisma.sql(strings, ...values);
+}
+
 describe("PropertyRepository", () => {
   let repository: PropertyRepository;
 
@@ -85,6 +105,7 @@ describe("PropertyRepository", () => {
         data: {
           ...validPropertyData,
           agentId: mockUsers.agent.id,
+          publishedAt: expect.any(Date),
         },
         select: propertySelect,
       });
@@ -198,6 +219,34 @@ describe("PropertyRepository", () => {
         select: propertySelect,
       });
     });
+
+    it("should keep publishedAt empty for a listing created as a draft", async () => {
+      const mockTx = {
+        user: {
+          findUnique: vi.fn().mockResolvedValue(mockUsers.agent),
+        },
+        property: {
+          create: vi.fn().mockResolvedValue(mockPropertyWithRelations),
+        },
+      };
+
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      await repository.create(
+        { ...validPropertyData, visibility: "DRAFT" },
+        mockUsers.agent.id,
+      );
+
+      expect(mockTx.property.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          visibility: "DRAFT",
+          publishedAt: null,
+        }),
+        select: propertySelect,
+      });
+    });
   });
 
   describe("update()", () => {
@@ -205,11 +254,15 @@ describe("PropertyRepository", () => {
       // Arrange: Setup mocks for property owner
       const mockTx = {
         property: {
-          findUnique: vi
-            .fn()
-            .mockResolvedValue({ agentId: mockUsers.agent.id }),
+          findUnique: vi.fn().mockResolvedValue({
+            agentId: mockUsers.agent.id,
+            price: mockProperty.price,
+          }),
           update: vi.fn().mockResolvedValue(mockPropertyWithRelations),
         },
+        propertyPriceHistory: {
+          create: vi.fn(),
+        },
         user: {
           findUnique: vi.fn().mockResolvedValue(mockUsers.agent),
         },
@@ -229,13 +282,17 @@ describe("PropertyRepository", () => {
       // Assert: Verify property lookup
       expect(mockTx.property.findUnique).toHaveBeenCalledWith({
         where: { id: mockProperty.id },
-        select: { agentId: true },
+        select: { agentId: true, price: true },
       });
 
       // Assert: Verify update was called
       expect(mockTx.property.update).toHaveBeenCalledWith({
         where: { id: mockProperty.id },
-        data: validUpdateData,
+        data: {
+          ...validUpdateData,
+          refreshedAt: expect.any(Date),
+          renewalReminderSentAt: null,
+        },
         select: propertySelect,
       });
 
@@ -247,11 +304,15 @@ describe("PropertyRepository", () => {
       // Arrange: Setup mocks for admin updating another agent's property
       const mockTx = {
         property: {
-          findUnique: vi
-            .fn()
-            .mockResolvedValue({ agentId: mockUsers.agent.id }),
+          findUnique: vi.fn().mockResolvedValue({
+            agentId: mockUsers.agent.id,
+            price: mockProperty.price,
+          }),
           update: vi.fn().mockResolvedValue(mockPropertyWithRelations),
         },
+        propertyPriceHistory: {
+          create: vi.fn(),
+        },
         user: {
           findUnique: vi.fn().mockResolvedValue(mockUsers.admin),
         },
@@ -369,6 +430,178 @@ describe("PropertyRepository", () => {
       // Assert: User lookup was not called (fail fast)
       expect(mockTx.user.findUnique).not.toHaveBeenCalled();
     });
+
+    it("should record price history when the price changes", async () => {
+      // Arrange: Current price 250,000 → update to 280,000
+      const mockTx = {
+        property: {
+          findUnique: vi.fn().mockResolvedValue({
+            agentId: mockUsers.agent.id,
+            price: mockProperty.price,
+          }),
+          update: vi.fn().mockResolvedValue(mockPropertyWithRelations),
+        },
+        propertyPriceHistory: {
+          create: vi.fn(),
+        },
+        user: {
+          findUnique: vi.fn().mockResolvedValue(mockUsers.agent),
+        },
+      };
+
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      // Act
+      await repository.update(
+        mockProperty.id,
+        validUpdateData,
+        mockUsers.agent.id,
+      );
+
+      // Assert: History row written in the same transaction
+      expect(mockTx.propertyPriceHistory.create).toHaveBeenCalledWith({
+        data: {
+          propertyId: mockProperty.id,
+          previousPrice: mockProperty.price,
+          price: 280000,
+          changedById: mockUsers.agent.id,
+        },
+      });
+    });
+
+    it("should not record price history when the price is unchanged", async () => {
+      // Arrange: Update without price, then with the same price
+      const mockTx = {
+        property: {
+          findUnique: vi.fn().mockResolvedValue({
+            agentId: mockUsers.agent.id,
+            price: mockProperty.price,
+          }),
+          update: vi.fn().mockResolvedValue(mockPropertyWithRelations),
+        },
+        propertyPriceHistory: {
+          create: vi.fn(),
+        },
+        user: {
+          findUnique: vi.fn().mockResolvedValue(mockUsers.agent),
+        },
+      };
+
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      // Act
+      await repository.update(
+        mockProperty.id,
+        { title: "Nuevo título" },
+        mockUsers.agent.id,
+      );
+      await repository.update(
+        mockProperty.id,
+        { price: mockProperty.price },
+        mockUsers.agent.id,
+      );
+
+      // Assert
+      expect(mockTx.propertyPriceHistory.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateWithVideos()", () => {
+    function buildTx() {
+      return {
+        property: {
+          findUnique: vi.fn().mockResolvedValue({
+            agentId: mockUsers.agent.id,
+            price: mockProperty.price,
+          }),
+          update: vi.fn().mockResolvedValue(mockPropertyWithRelations),
+        },
+        propertyPriceHistory: {
+          create: vi.fn(),
+        },
+        propertyVideo: {
+          deleteMany: vi.fn(),
+          createMany: vi.fn(),
+        },
+        user: {
+          findUnique: vi.fn().mockResolvedValue(mockUsers.agent),
+        },
+      };
+    }
+
+    it("should replace the videos in the same transaction and return the previous price", async () => {
+      const mockTx = buildTx();
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      const result = await repository.updateWithVideos(
+        mockProperty.id,
+        validUpdateData,
+        mockUsers.agent.id,
+        [{ url: "https://youtu.be/abc", platform: "YOUTUBE" }],
+      );
+
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockTx.propertyVideo.deleteMany).toHaveBeenCalledWith({
+        where: { propertyId: mockProperty.id },
+      });
+      expect(mockTx.propertyVideo.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            url: "https://youtu.be/abc",
+            platform: "YOUTUBE",
+            title: null,
+            order: 0,
+            propertyId: mockProperty.id,
+          },
+        ],
+      });
+      expect(result).toEqual({
+        property: mockPropertyWithRelations,
+        previousPrice: Number(mockProperty.price),
+      });
+    });
+
+    it("should leave the videos untouched when none are sent", async () => {
+      const mockTx = buildTx();
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      await repository.updateWithVideos(
+        mockProperty.id,
+        { title: "Nuevo título" },
+        mockUsers.agent.id,
+      );
+
+      expect(mockTx.propertyVideo.deleteMany).not.toHaveBeenCalled();
+      expect(mockTx.propertyVideo.createMany).not.toHaveBeenCalled();
+    });
+
+    it("should not update the property when the video replacement fails", async () => {
+      const mockTx = buildTx();
+      mockTx.propertyVideo.createMany.mockRejectedValue(
+        new Error("Invalid video platform"),
+      );
+      (db.$transaction as any).mockImplementation(async (callback: any) => {
+        return callback(mockTx);
+      });
+
+      await expect(
+        repository.updateWithVideos(
+          mockProperty.id,
+          validUpdateData,
+          mockUsers.agent.id,
+          [{ url: "https://example.com/v", platform: "OTHER" }],
+        ),
+      ).rejects.toThrow("Invalid video platform");
+      expect(mockTx.property.update).not.toHaveBeenCalled();
+    });
   });
 
   describe("delete()", () => {
@@ -526,4 +759,833 @@ describe("PropertyRepository", () => {
       expect(mockTx.user.findUnique).not.toHaveBeenCalled();
     });
   });
+
+  describe("getSyndicationState()", () => {
+    it("should aggregate available properties of the agent and their images", async () => {
+      // Arrange
+      const lastModified = new Date("2026-01-10T12:00:00Z");
+      (db.property.aggregate as any).mockResolvedValue({
+        _count: { id: 3 },
+        _max: { updatedAt: lastModified },
+      });
+      (db.propertyImage.aggregate as any).mockResolvedValue({
+        _count: { id: 12 },
+        _max: { updatedAt: new Date("2026-01-09T12:00:00Z") },
+      });
+
+      // Act
+      const result = await repository.getSyndicationState(mockUsers.agent.id);
+
+      // Assert
+      expect(result).toEqual({ count: 3, imageCount: 12, lastModified });
+      const where = {
+        status: "AVAILABLE",
+        visibility: "PUBLISHED",
+        agentId: mockUsers.agent.id,
+      };
+      expect(db.property.aggregate).toHaveBeenCalledWith({
+        where,
+        _count: { id: true },
+        _max: { updatedAt: true },
+      });
+      expect(db.propertyImage.aggregate).toHaveBeenCalledWith({
+        where: { property: where },
+        _count: { id: true },
+        _max: { updatedAt: true },
+      });
+    });
+
+    it("should use the latest image change as last modified", async () => {
+      // Arrange: images reordered after the last property edit
+      const imageUpdatedAt = new Date("2026-01-12T08:00:00Z");
+      (db.property.aggregate as any).mockResolvedValue({
+        _count: { id: 3 },
+        _max: { updatedAt: new Date("2026-01-10T12:00:00Z") },
+      });
+      (db.propertyImage.aggregate as any).mockResolvedValue({
+        _count: { id: 12 },
+        _max: { updatedAt: imageUpdatedAt },
+      });
+
+      // Act
+      const result = await repository.getSyndicationState(mockUsers.agent.id);
+
+      // Assert
+      expect(result.lastModified).toEqual(imageUpdatedAt);
+    });
+
+    it("should not filter by agent for the global feed", async () => {
+      // Arrange
+      (db.property.aggregate as any).mockResolvedValue({
+        _count: { id: 0 },
+        _max: { updatedAt: null },
+      });
+      (db.propertyImage.aggregate as any).mockResolvedValue({
+        _count: { id: 0 },
+        _max: { updatedAt: null },
+      });
+
+      // Act
+      const result = await repository.getSyndicationState();
+
+      // Assert
+      expect(result).toEqual({ count: 0, imageCount: 0, lastModified: null });
+      expect(db.property.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: "AVAILABLE", visibility: "PUBLISHED" },
+        }),
+      );
+    });
+  });
+
+  describe("listForSyndication()", () => {
+    it("should return serialized available properties", async () => {
+      // Arrange
+      (db.property.findMany as any).mockResolvedValue([
+        mockPropertyWithRelations,
+      ]);
+
+      // Act
+      const result = await repository.listForSyndication(
+        mockUsers.agent.id,
+        50,
+      );
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(typeof result[0]?.price).toBe("number");
+      expect(db.property.findMany).toHaveBeenCalledWith({
+        where: {
+          status: "AVAILABLE",
+          visibility: "PUBLISHED",
+          agentId: mockUsers.agent.id,
+        },
+        select: propertySelect,
+        orderBy: { updatedAt: "desc" },
+        take: 50,
+      });
+    });
+  });
+
+  describe("amenities filter", () => {
+    beforeEach(() => {
+      (db.property.aggregate as any).mockResolvedValue({
+        _min: { price: null },
+        _max: { price: null },
+      });
+    });
+
+    it("should require every amenity by default (hasEvery)", async () => {
+      // Act
+      await repository.getPriceRange({ amenities: ["pool", "garage"] });
+
+      // Assert
+      expect(db.property.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: "PUBLISHED",
+            amenities: { hasEvery: ["pool", "garage"] },
+          },
+        }),
+      );
+    });
+
+    it("should accept any amenity when amenitiesMatch is any (hasSome)", async () => {
+      // Act
+      await repository.getPriceRange({
+        amenities: ["pool", "garage"],
+        amenitiesMatch: "any",
+      });
+
+      // Assert
+      expect(db.property.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: "PUBLISHED",
+            amenities: { hasSome: ["pool", "garage"] },
+          },
+        }),
+      );
+    });
+
+    it("should ignore an empty amenities list", async () => {
+      // Act
+      await repository.getPriceRange({ amenities: [] });
+
+      // Assert
+      expect(db.property.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { visibility: "PUBLISHED" } }),
+      );
+    });
+  });
+
+  describe("full-text search", () => {
+    it("should filter, rank and page matches in one query with highlighted snippets", async () => {
+      // Arrange: SQL page returns prop-2 before prop-1, count(*) = 2
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "prop-2" }, { id: "prop-1" }])
+        .mockResolvedValueOnce([{ count: 2 }])
+        .mockResolvedValueOnce([
+          { id: "prop-2", headline: "Casa con \uE000baño\uE001 privado" },
+        ]);
+      (db.property.findMany as any).mockResolvedValueOnce([
+        { ...mockPropertyWithRelations, id: "prop-1" },
+        { ...mockPropertyWithRelations, id: "prop-2" },
+      ]);
+
+      // Act
+      const result = await repository.list({
+        filters: { search: "banos", status: "AVAILABLE" },
+      });
+
+      // Assert
+      expect(result.total).toBe(2);
+      expect(result.nextCursor).toBeNull();
+      expect(result.properties.map((property) => property.id)).toEqual([
+        "prop-2",
+        "prop-1",
+      ]);
+      expect(result.properties[0]?.searchSnippet).toEqual([
+        { text: "Casa con ", match: false },
+        { text: "baño", match: true },
+        { text: " privado", match: false },
+      ]);
+      expect(result.properties[1]?.searchSnippet).toBeUndefined();
+
+      const page = rawSql(0);
+      expect(page.sql).toContain(
+        "p.search_vector @@ websearch_to_tsquery('public.es_unaccent', ?)",
+      );
+      expect(page.sql).toContain("p.status::text = ?");
+      expect(page.sql).toContain("ORDER BY ts_rank_cd(");
+      expect(page.values).toEqual(
+        expect.arrayContaining(["banos", "AVAILABLE", 21, 0]),
+      );
+      expect(rawSql(1).sql).toContain("count(*)");
+      expect(db.property.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["prop-2", "prop-1"] } },
+        select: propertySelect,
+      });
+      expect(db.property.count).not.toHaveBeenCalled();
+    });
+
+    it("should skip property queries when nothing matches", async () => {
+      // Arrange
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: 0 }]);
+
+      // Act
+      const result = await repository.list({ filters: { search: "castillo" } });
+
+      // Assert
+      expect(result).toEqual({ properties: [], total: 0, nextCursor: null });
+      expect(db.property.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should continue a search with an offset cursor and no count", async () => {
+      // Arrange: take 1 → the SQL page fetches 2 rows
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "prop-2" }, { id: "prop-1" }])
+        .mockResolvedValueOnce([{ count: 2 }])
+        .mockResolvedValueOnce([]);
+      (db.property.findMany as any).mockResolvedValue([
+        { ...mockPropertyWithRelations, id: "prop-2" },
+      ]);
+      const { nextCursor } = await repository.list({
+        filters: { search: "casa" },
+        take: 1,
+      });
+      vi.clearAllMocks();
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "prop-1" }])
+        .mockResolvedValueOnce([]);
+
+      // Act
+      const result = await getPropertiesCursorPage({
+        filters: { search: "casa" },
+        cursor: nextCursor,
+        take: 1,
+      });
+
+      // Assert: LIMIT 2 OFFSET 1, no count(*)
+      expect(nextCursor).toEqual(expect.any(String));
+      expect(rawSql(0).values.slice(-2)).toEqual([2, 1]);
+      expect(rawSql(1).sql).not.toContain("count(*)");
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it("should aggregate the price range with the search and filters in SQL", async () => {
+      // Arrange
+      (db.$queryRaw as any).mockResolvedValueOnce([
+        { min: new Prisma.Decimal(100000), max: new Prisma.Decimal(250000) },
+      ]);
+
+      // Act
+      const range = await repository.getPriceRange({
+        search: "jardín",
+        city: "Cuenca",
+      });
+
+      // Assert
+      expect(range).toEqual({ minPrice: 100000, maxPrice: 250000 });
+      const query = rawSql(0);
+      expect(query.sql).toContain("p.search_vector @@");
+      expect(query.sql).toContain("p.city ILIKE ?");
+      expect(query.values).toEqual(
+        expect.arrayContaining(["jardín", "%Cuenca%"]),
+      );
+      expect(db.property.aggregate).not.toHaveBeenCalled();
+    });
+
+    it("should apply the map bounds in the same query as the search", async () => {
+      // Arrange
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: 0 }]);
+
+      // Act
+      const result = await repository.findInBounds({
+        minLatitude: -2.95,
+        maxLatitude: -2.85,
+        minLongitude: -79.05,
+        maxLongitude: -78.95,
+        filters: { search: "casa" },
+      });
+
+      // Assert
+      expect(result).toEqual({ properties: [], total: 0 });
+      const page = rawSql(0);
+      expect(page.sql).toContain("p.latitude BETWEEN ? AND ?");
+      expect(page.sql).toContain("p.longitude BETWEEN ? AND ?");
+      expect(page.sql).toContain("p.search_vector @@");
+      expect(db.property.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should parse ts_headline markers into segments", () => {
+      expect(
+        parseSearchHeadline("\uE000Casa\uE001 con \uE000jardín\uE001"),
+      ).toEqual([
+        { text: "Casa", match: true },
+        { text: " con ", match: false },
+        { text: "jardín", match: true },
+      ]);
+    });
+  });
+
+  describe("geo search", () => {
+    const polygon: [number, number][] = [
+      [-79.01, -2.91],
+      [-78.99, -2.91],
+      [-79.0, -2.89],
+    ];
+
+    it("should return nearby properties ordered by distance", async () => {
+      // Arrange: PostGIS returns prop-2 (closer) before prop-1
+      (db.$queryRaw as any).mockResolvedValueOnce([
+        { id: "prop-2", distance: 350 },
+        { id: "prop-1", distance: 1800 },
+      ]);
+      (db.property.findMany as any).mockResolvedValueOnce([
+        { ...mockPropertyWithRelations, id: "prop-1" },
+        { ...mockPropertyWithRelations, id: "prop-2" },
+      ]);
+
+      // Act
+      const result = await repository.findNearby({
+        latitude: -2.9,
+        longitude: -79.0,
+        radiusKm: 2,
+      });
+
+      // Assert
+      expect(result.map((property) => property.id)).toEqual([
+        "prop-2",
+        "prop-1",
+      ]);
+      expect(result[0]?.distanceKm).toBe(0.35);
+      expect(db.property.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["prop-2", "prop-1"] } },
+        select: propertySelect,
+      });
+    });
+
+    it("should reject an invalid radius", async () => {
+      // Act & Assert
+      await expect(
+        repository.findNearby({
+          latitude: -2.9,
+          longitude: -79.0,
+          radiusKm: 0,
+        }),
+      ).rejects.toThrow("radiusKm must be greater than 0");
+      expect(db.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it("should restrict results to the properties inside the polygon", async () => {
+      // Arrange
+      (db.$queryRaw as any).mockResolvedValueOnce([
+        { min: new Prisma.Decimal(100000), max: new Prisma.Decimal(100000) },
+      ]);
+
+      // Act
+      await repository.getPriceRange({ polygon, bedrooms: 2 });
+
+      // Assert
+      const query = rawSql(0);
+      expect(query.sql).toContain("ST_Covers(");
+      expect(query.sql).toContain("p.bedrooms >= ?");
+      expect(query.values).toEqual(
+        expect.arrayContaining([polygonToWkt(polygon), 2]),
+      );
+      expect(db.property.aggregate).not.toHaveBeenCalled();
+    });
+
+    it("should rank by relevance when combining search and polygon", async () => {
+      // Arrange
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: 0 }]);
+
+      // Act
+      await repository.list({ filters: { search: "casa", polygon } });
+
+      // Assert: one query with both predicates, ordered by rank
+      const page = rawSql(0);
+      expect(page.sql).toContain("ST_Covers(");
+      expect(page.sql).toContain("p.search_vector @@");
+      expect(page.sql).toContain("ORDER BY ts_rank_cd(");
+    });
+
+    it("should close the polygon ring and validate vertices", () => {
+      expect(polygonToWkt(polygon)).toBe(
+        "POLYGON((-79.01 -2.91, -78.99 -2.91, -79 -2.89, -79.01 -2.91))",
+      );
+      expect(polygonToWkt([...polygon, [-79.01, -2.91]])).toBe(
+        polygonToWkt(polygon),
+      );
+      expect(() => polygonToWkt(polygon.slice(0, 2))).toThrow(
+        "Polygon must have between 3 and 50 points",
+      );
+      // Closed A;B;A ring: only 2 distinct vertices
+      expect(() =>
+        polygonToWkt([
+          [-79.01, -2.91],
+          [-78.99, -2.91],
+          [-79.01, -2.91],
+        ]),
+      ).toThrow("Polygon must have between 3 and 50 points");
+      expect(() =>
+        polygonToWkt([
+          [-79, -2.9],
+          [-79, 95],
+          [-78, -2.9],
+        ]),
+      ).toThrow("Invalid polygon coordinates");
+    });
+  });
+
+  describe("sorting", () => {
+    beforeEach(() => {
+      (db.property.count as any).mockResolvedValue(0);
+    });
+
+    it("should order by price with a stable tie-breaker", async () => {
+      // Arrange
+      (db.property.findMany as any).mockResolvedValueOnce([]);
+
+      // Act
+      await repository.list({ sort: "price_asc", skip: 12, take: 12 });
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ price: "asc" }, { id: "asc" }],
+          skip: 12,
+          take: 13,
+        }),
+      );
+    });
+
+    it("should order by view count for most_viewed", async () => {
+      // Arrange
+      (db.property.findMany as any).mockResolvedValueOnce([]);
+
+      // Act
+      await repository.list({ sort: "most_viewed" });
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [
+            { views: { _count: "desc" } },
+            { createdAt: "desc" },
+            { id: "desc" },
+          ],
+        }),
+      );
+    });
+
+    it("should fall back to newest when distance has no origin", async () => {
+      // Arrange
+      (db.property.findMany as any).mockResolvedValueOnce([]);
+
+      // Act
+      await repository.list({ sort: "distance" });
+
+      // Assert
+      expect(db.$queryRaw).not.toHaveBeenCalled();
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        }),
+      );
+    });
+
+    it("should filter, order and page computed orders in SQL", async () => {
+      // Arrange: take 2 → SQL returns 3 rows ordered by distance, count(*) = 5
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([
+          { id: "prop-3" },
+          { id: "prop-1" },
+          { id: "prop-2" },
+        ])
+        .mockResolvedValueOnce([{ count: 5 }]);
+      (db.property.findMany as any).mockResolvedValueOnce([
+        { ...mockPropertyWithRelations, id: "prop-1" },
+        { ...mockPropertyWithRelations, id: "prop-3" },
+      ]);
+
+      // Act
+      const result = await repository.list({
+        filters: { status: "AVAILABLE" },
+        sort: "distance",
+        origin: [-79.0, -2.9],
+        take: 2,
+      });
+
+      // Assert
+      expect(result.total).toBe(5);
+      expect(result.nextCursor).toEqual(expect.any(String));
+      expect(result.properties.map((property) => property.id)).toEqual([
+        "prop-3",
+        "prop-1",
+      ]);
+      const page = rawSql(0);
+      expect(page.sql).toContain("p.status::text = ?");
+      expect(page.sql).toContain("ORDER BY ST_Distance(");
+      expect(page.values.slice(-2)).toEqual([3, 0]);
+      // No id preload: only the page is loaded
+      expect(db.property.findMany).toHaveBeenCalledTimes(1);
+      expect(db.property.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["prop-3", "prop-1"] } },
+        select: propertySelect,
+      });
+      expect(db.property.count).not.toHaveBeenCalled();
+    });
+
+    it("should order by price per m² in SQL", async () => {
+      // Arrange
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: 0 }]);
+
+      // Act
+      await repository.list({ sort: "price_per_m2" });
+
+      // Assert
+      expect(rawSql(0).sql).toContain(
+        "ORDER BY p.price / NULLIF(p.area, 0) ASC NULLS LAST",
+      );
+      expect(db.property.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should keep search snippets when a search is sorted by price", async () => {
+      // Arrange
+      (db.$queryRaw as any)
+        .mockResolvedValueOnce([{ id: "prop-1" }])
+        .mockResolvedValueOnce([{ count: 1 }])
+        .mockResolvedValueOnce([
+          { id: "prop-1", headline: "con \uE000jardín\uE001" },
+        ]);
+      (db.property.findMany as any).mockResolvedValueOnce([
+        { ...mockPropertyWithRelations, id: "prop-1" },
+      ]);
+
+      // Act
+      const result = await repository.list({
+        filters: { search: "jardin" },
+        sort: "price_desc",
+      });
+
+      // Assert
+      const page = rawSql(0);
+      expect(page.sql).toContain("p.search_vector @@");
+      expect(page.sql).toContain("ORDER BY p.price DESC, p.id DESC");
+      expect(result.total).toBe(1);
+      expect(result.properties[0]?.searchSnippet).toEqual([
+        { text: "con ", match: false },
+        { text: "jardín", match: true },
+      ]);
+    });
+  });
+
+  describe("cursor pagination", () => {
+    const newer = {
+      ...mockPropertyWithRelations,
+      id: "prop-2",
+      createdAt: new Date("2025-12-02T10:00:00Z"),
+    };
+    const older = {
+      ...mockPropertyWithRelations,
+      id: "prop-1",
+      createdAt: new Date("2025-12-01T10:00:00Z"),
+    };
+
+    beforeEach(() => {
+      (db.property.count as any).mockResolvedValue(2);
+    });
+
+    it("should return a keyset cursor when there are more results", async () => {
+      // Arrange: take 1 → fetches 2 rows
+      (db.property.findMany as any).mockResolvedValueOnce([newer, older]);
+
+      // Act
+      const result = await repository.list({ take: 1 });
+
+      // Assert
+      expect(result.properties.map((property) => property.id)).toEqual([
+        "prop-2",
+      ]);
+      expect(result.total).toBe(2);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+
+    it("should seek after (createdAt, id) and skip the count", async () => {
+      // Arrange
+      (db.property.findMany as any)
+        .mockResolvedValueOnce([newer, older])
+        .mockResolvedValueOnce([older]);
+      const { nextCursor } = await repository.list({ take: 1 });
+      vi.clearAllMocks();
+
+      // Act
+      const result = await getPropertiesCursorPage({
+        filters: { status: "AVAILABLE" },
+        cursor: nextCursor,
+        take: 1,
+      });
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.not.objectContaining({ skip: expect.anything() }),
+      );
+      expect((db.property.findMany as any).mock.calls[0][0].where).toEqual({
+        AND: [
+          { status: "AVAILABLE", visibility: "PUBLISHED" },
+          {
+            OR: [
+              { createdAt: { lt: newer.createdAt } },
+              { createdAt: newer.createdAt, id: { lt: "prop-2" } },
+            ],
+          },
+        ],
+      });
+      expect(db.property.count).not.toHaveBeenCalled();
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it("should seek after (price, id) for price_asc", async () => {
+      // Arrange
+      (db.property.findMany as any)
+        .mockResolvedValueOnce([newer, older])
+        .mockResolvedValueOnce([]);
+      const { nextCursor } = await repository.list({
+        sort: "price_asc",
+        take: 1,
+      });
+
+      // Act
+      await getPropertiesCursorPage({ sort: "price_asc", cursor: nextCursor });
+
+      // Assert
+      const price = newer.price.toString();
+      expect((db.property.findMany as any).mock.calls[1][0].where).toEqual({
+        AND: [
+          { visibility: "PUBLISHED" },
+          {
+            OR: [{ price: { gt: price } }, { price, id: { gt: "prop-2" } }],
+          },
+        ],
+      });
+    });
+
+    it("should ignore a cursor from another sort", async () => {
+      // Arrange
+      (db.property.findMany as any)
+        .mockResolvedValueOnce([newer, older])
+        .mockResolvedValueOnce([]);
+      const { nextCursor } = await repository.list({ take: 1 });
+
+      // Act
+      await getPropertiesCursorPage({ sort: "price_desc", cursor: nextCursor });
+
+      // Assert: first page of price_desc
+      expect(db.property.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { visibility: "PUBLISHED" },
+          skip: 0,
+        }),
+      );
+    });
+
+    it("should use an offset cursor for non-keyset orders", async () => {
+      // Arrange
+      (db.property.findMany as any)
+        .mockResolvedValueOnce([newer, older])
+        .mockResolvedValueOnce([]);
+      const { nextCursor } = await repository.list({
+        sort: "most_viewed",
+        take: 1,
+      });
+
+      // Act
+      await getPropertiesCursorPage({
+        sort: "most_viewed",
+        cursor: nextCursor,
+        take: 1,
+      });
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { visibility: "PUBLISHED" },
+          skip: 1,
+          take: 2,
+        }),
+      );
+    });
+
+    it("should ignore malformed cursors", async () => {
+      // Arrange
+      (db.property.findMany as any).mockResolvedValueOnce([]);
+
+      // Act
+      const result = await getPropertiesCursorPage({ cursor: "not-a-cursor" });
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { visibility: "PUBLISHED" },
+          skip: 0,
+        }),
+      );
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe("findManyByIds()", () => {
+    it("should keep the requested order and skip missing ids", async () => {
+      // Arrange: DB returns rows in a different order
+      (db.property.findMany as any).mockResolvedValue([
+        { ...mockPropertyWithRelations, id: "prop-1" },
+        { ...mockPropertyWithRelations, id: "prop-2" },
+      ]);
+
+      // Act
+      const result = await repository.findManyByIds([
+        "prop-2",
+        "missing",
+        "prop-1",
+      ]);
+
+      // Assert
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ["prop-2", "missing", "prop-1"] } },
+        }),
+      );
+      expect(result.map((property) => property.id)).toEqual([
+        "prop-2",
+        "prop-1",
+      ]);
+      expect(typeof result[0]?.price).toBe("number");
+    });
+
+    it("should not query without ids", async () => {
+      // Act
+      const result = await repository.findManyByIds([]);
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(db.property.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("findTrending()", () => {
+    it("should return properties in score order with their activity", async () => {
+      // Arrange: view rows ordered by score; findMany order is arbitrary
+      (db.$queryRaw as any).mockResolvedValue([
+        {
+          property_id: "hot",
+          score: 12.5,
+          view_count: 10,
+          share_count: 1,
+          favorite_count: 0,
+          appointment_count: 0,
+        },
+        {
+          property_id: "warm",
+          score: 3,
+          view_count: 3,
+          share_count: 0,
+          favorite_count: 0,
+          appointment_count: 0,
+        },
+      ]);
+      (db.property.findMany as any).mockResolvedValue([
+        { ...mockPropertyWithRelations, id: "warm" },
+        { ...mockPropertyWithRelations, id: "hot" },
+      ]);
+
+      // Act
+      const result = await repository.findTrending(2);
+
+      // Assert
+      expect(result.map((property) => property.id)).toEqual(["hot", "warm"]);
+      expect(result[0]).toEqual(
+        expect.objectContaining({
+          trendingScore: 12.5,
+          viewCount: 10,
+          shareCount: 1,
+          favoriteCount: 0,
+          appointmentCount: 0,
+        }),
+      );
+      expect(typeof result[0]?.price).toBe("number");
+    });
+
+    it("should not load properties when nothing is trending", async () => {
+      // Arrange
+      (db.$queryRaw as any).mockResolvedValue([]);
+
+      // Act
+      const result = await repository.findTrending();
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(db.property.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should refresh the materialized view concurrently", async () => {
+      // Act
+      await repository.refreshTrendingScores();
+
+      // Assert
+      const [strings] = (db.$executeRaw as any).mock.calls[0];
+      expect(strings.join("")).toContain(
+        "REFRESH MATERIALIZED VIEW CONCURRENTLY property_trending_scores",
+      );
+    });
+  });
 });
@@ -0,0 +1,413 @@
+/**
+ * SAVED SEARCH REPOSITORY TESTS
+ *
+ * Tests for saved search operations and new-listing digests
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    savedSearch: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+    property: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  matchesSavedSearch,
+  SavedSearchRepository,
+  savedSearchSelect,
+} from "../repositories/saved-searches";
+
+// Mock data
+const mockUserId = "user-123";
+const mockSearchId = "search-456";
+
+const mockSavedSearch = {
+  id: mockSearchId,
+  userId: mockUserId,
+  name: "Casas en Cuenca",
+  filters: { city: "Cuenca", category: ["HOUSE"] },
+  bounds: null,
+  alertsEnabled: true,
+  lastNotifiedAt: null,
+  createdAt: new Date("2025-12-01T10:00:00Z"),
+  updatedAt: new Date("2025-12-01T10:00:00Z"),
+};
+
+const mockProperty = {
+  price: 150000,
+  transactionType: "SALE" as const,
+  category: "HOUSE" as const,
+  bedrooms: 3,
+  bathrooms: 2,
+  area: 180,
+  city: "Cuenca",
+  latitude: -2.9,
+  longitude: -79.0,
+  title: "Casa con jardín",
+  description: "Amplia casa cerca del centro",
+  address: "Av. Solano",
+};
+
+describe("matchesSavedSearch()", () => {
+  it("should match when filters are empty", () => {
+    expect(
+      matchesSavedSearch({ filters: {}, bounds: null }, mockProperty),
+    ).toBe(true);
+  });
+
+  it("should match city case-insensitively", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { city: "cuenca" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { city: "Quito" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+
+  it("should respect price range", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { minPrice: 100000, maxPrice: 200000 }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { maxPrice: 100000 }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+
+  it("should treat bedrooms as a minimum", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { bedrooms: 3 }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { bedrooms: 4 }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+
+  it("should filter by category and transaction type", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { category: ["APARTMENT"] }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+    expect(
+      matchesSavedSearch(
+        { filters: { transactionType: ["SALE", "RENT"] }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+  });
+
+  it("should require coordinates inside bounds", () => {
+    const bounds = { ne_lat: -2.8, ne_lng: -78.9, sw_lat: -3.0, sw_lng: -79.1 };
+
+    expect(matchesSavedSearch({ filters: {}, bounds }, mockProperty)).toBe(
+      true,
+    );
+    expect(
+      matchesSavedSearch(
+        { filters: {}, bounds },
+        { ...mockProperty, latitude: null, longitude: null },
+      ),
+    ).toBe(false);
+    expect(
+      matchesSavedSearch(
+        { filters: {}, bounds },
+        { ...mockProperty, latitude: -0.2 },
+      ),
+    ).toBe(false);
+  });
+
+  it("should match search text against title, description or address", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { search: "jardín" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { search: "piscina" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+
+  it("should match amenities with all/any semantics", () => {
+    const property = { ...mockProperty, amenities: ["pool", "garden"] };
+
+    expect(
+      matchesSavedSearch(
+        { filters: { amenities: ["pool", "garden"] }, bounds: null },
+        property,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { amenities: ["pool", "garage"] }, bounds: null },
+        property,
+      ),
+    ).toBe(false);
+    expect(
+      matchesSavedSearch(
+        {
+          filters: { amenities: ["pool", "garage"], amenitiesMatch: "any" },
+          bounds: null,
+        },
+        property,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { amenities: ["pool"] }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+
+  it("should match search words regardless of accents and order", () => {
+    expect(
+      matchesSavedSearch(
+        { filters: { search: "JARDIN casa" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { search: "centro cuenca" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSavedSearch(
+        { filters: { search: "casa piscina" }, bounds: null },
+        mockProperty,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("SavedSearchRepository", () => {
+  let repository: SavedSearchRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new SavedSearchRepository();
+  });
+
+  describe("create()", () => {
+    it("should sanitize the name and store filters", async () => {
+      vi.mocked(db.savedSearch.create).mockResolvedValue(
+        mockSavedSearch as never,
+      );
+
+      const result = await repository.create({
+        userId: mockUserId,
+        name: "<b>Casas en Cuenca</b>",
+        filters: { city: "Cuenca", category: ["HOUSE"] },
+      });
+
+      expect(db.savedSearch.create).toHaveBeenCalledWith({
+        data: {
+          userId: mockUserId,
+          name: "Casas en Cuenca",
+          filters: { city: "Cuenca", category: ["HOUSE"] },
+        },
+        select: savedSearchSelect,
+      });
+      expect(result.filters.city).toBe("Cuenca");
+      expect(result.bounds).toBeNull();
+    });
+  });
+
+  describe("setAlertsEnabled()", () => {
+    it("should throw if the search belongs to another user", async () => {
+      vi.mocked(db.savedSearch.findUnique).mockResolvedValue({
+        userId: "other-user",
+      } as never);
+
+      await expect(
+        repository.setAlertsEnabled(mockSearchId, false, mockUserId),
+      ).rejects.toThrow("Búsqueda guardada no encontrada");
+      expect(db.savedSearch.update).not.toHaveBeenCalled();
+    });
+
+    it("should update alerts for the owner", async () => {
+      vi.mocked(db.savedSearch.findUnique).mockResolvedValue({
+        userId: mockUserId,
+      } as never);
+      vi.mocked(db.savedSearch.update).mockResolvedValue({
+        ...mockSavedSearch,
+        alertsEnabled: false,
+      } as never);
+
+      const result = await repository.setAlertsEnabled(
+        mockSearchId,
+        false,
+        mockUserId,
+      );
+
+      expect(result.alertsEnabled).toBe(false);
+    });
+  });
+
+  describe("delete()", () => {
+    it("should throw when nothing was deleted", async () => {
+      vi.mocked(db.savedSearch.deleteMany).mockResolvedValue({ count: 0 });
+
+      await expect(repository.delete(mockSearchId, mockUserId)).rejects.toThrow(
+        "Búsqueda guardada no encontrada",
+      );
+    });
+  });
+
+  describe("findDueForDigest()", () => {
+    it("should load alert-enabled searches not notified since the cutoff", async () => {
+      const user = { id: mockUserId, name: "Ana", email: "ana@example.com" };
+      const cutoff = new Date("2025-12-10T10:00:00Z");
+      vi.mocked(db.savedSearch.findMany).mockResolvedValue([
+        { ...mockSavedSearch, user },
+      ] as never);
+
+      const result = await repository.findDueForDigest(cutoff);
+
+      expect(db.savedSearch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            alertsEnabled: true,
+            OR: [{ lastNotifiedAt: null }, { lastNotifiedAt: { lte: cutoff } }],
+          },
+          take: 200,
+        }),
+      );
+      expect(result[0]?.filters.city).toBe("Cuenca");
+      expect(result[0]?.user.email).toBe("ana@example.com");
+    });
+  });
+
+  describe("findNewListings()", () => {
+    const user = { id: mockUserId, name: "Ana", email: "ana@example.com" };
+    const until = new Date("2025-12-10T10:00:00Z");
+
+    it("should push the structured filters and the window into the query", async () => {
+      vi.mocked(db.property.findMany).mockResolvedValue([]);
+      const lastNotifiedAt = new Date("2025-12-09T10:00:00Z");
+
+      await repository.findNewListings(
+        {
+          ...mockSavedSearch,
+          lastNotifiedAt,
+          filters: {
+            transactionType: ["SALE"],
+            category: ["HOUSE"],
+            city: "Cuenca",
+            maxPrice: 200000,
+          },
+          bounds: null,
+          user,
+        },
+        until,
+      );
+
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: "PUBLISHED",
+            publishedAt: { gt: lastNotifiedAt, lte: until },
+            agentId: { not: mockUserId },
+            transactionType: { in: ["SALE"] },
+            category: { in: ["HOUSE"] },
+            city: { contains: "Cuenca", mode: "insensitive" },
+            price: { lte: 200000 },
+          },
+          orderBy: { publishedAt: "desc" },
+        }),
+      );
+    });
+
+    it("should start from the creation date and apply the text search in memory", async () => {
+      vi.mocked(db.property.findMany).mockResolvedValue([
+        { ...mockProperty, id: "prop-1", amenities: [] },
+        {
+          ...mockProperty,
+          id: "prop-2",
+          title: "Departamento moderno",
+          description: null,
+          amenities: [],
+        },
+      ] as never);
+
+      const result = await repository.findNewListings(
+        {
+          ...mockSavedSearch,
+          filters: { search: "jardin" },
+          bounds: null,
+          user,
+        },
+        until,
+      );
+
+      expect(db.property.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            publishedAt: { gt: mockSavedSearch.createdAt, lte: until },
+          }),
+        }),
+      );
+      expect(result.map((listing) => listing.id)).toEqual(["prop-1"]);
+    });
+  });
+
+  describe("markNotified()", () => {
+    it("should skip the query when there are no ids", async () => {
+      const result = await repository.markNotified([], new Date());
+
+      expect(result.count).toBe(0);
+      expect(db.savedSearch.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should advance the digest window to the given date", async () => {
+      const notifiedAt = new Date("2025-12-10T10:00:00Z");
+      vi.mocked(db.savedSearch.updateMany).mockResolvedValue({ count: 2 });
+
+      await repository.markNotified(["search-1", "search-2"], notifiedAt);
+
+      expect(db.savedSearch.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["search-1", "search-2"] } },
+        data: { lastNotifiedAt: notifiedAt },
+      });
+    });
+  });
+});
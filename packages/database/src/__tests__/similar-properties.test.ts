@@ -0,0 +1,120 @@
+/**
+ * SIMILAR PROPERTIES TESTS
+ *
+ * Tests for getSimilarProperties: candidate pool, scoring order and
+ * personalization with favorites/views history
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    property: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    favorite: {
+      findMany: vi.fn(),
+    },
+    propertyView: {
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+import { db } from "../client";
+import { PropertyRepository } from "../repositories/properties";
+import { mockPropertyWithRelations } from "./helpers/fixtures";
+
+const target = { ...mockPropertyWithRelations, id: "target", amenities: [] };
+
+function candidate(id: string, overrides: Record<string, unknown> = {}) {
+  return { ...mockPropertyWithRelations, id, amenities: [], ...overrides };
+}
+
+describe("PropertyRepository.findSimilar()", () => {
+  let repository: PropertyRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new PropertyRepository();
+    (db.property.findUnique as any).mockResolvedValue(target);
+    (db.favorite.findMany as any).mockResolvedValue([]);
+    (db.propertyView.findMany as any).mockResolvedValue([]);
+  });
+
+  it("should return an empty list for an unknown property", async () => {
+    // Arrange
+    (db.property.findUnique as any).mockResolvedValue(null);
+
+    // Act
+    const result = await repository.findSimilar({ propertyId: "missing" });
+
+    // Assert
+    expect(result).toEqual([]);
+    expect(db.property.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should merge nearby and related candidates ordered by score", async () => {
+    // Arrange: "near" comes from PostGIS, "land" is a weak attribute match
+    // (the attribute query runs first; findNearby awaits $queryRaw)
+    (db.$queryRaw as any).mockResolvedValue([{ id: "near", distance: 300 }]);
+    (db.property.findMany as any)
+      .mockResolvedValueOnce([
+        candidate("land", { category: "LAND", bedrooms: null }),
+        candidate("near"),
+        candidate("target"),
+      ])
+      .mockResolvedValueOnce([candidate("near")]);
+
+    // Act
+    const result = await repository.findSimilar({
+      propertyId: "target",
+    });
+
+    // Assert
+    expect(result.map((property) => property.id)).toEqual(["near", "land"]);
+    expect(typeof result[0]?.price).toBe("number");
+  });
+
+  it("should only read history for logged-in users", async () => {
+    // Arrange
+    (db.$queryRaw as any).mockResolvedValue([]);
+    (db.property.findMany as any).mockResolvedValue([]);
+
+    // Act
+    await repository.findSimilar({ propertyId: "target" });
+
+    // Assert
+    expect(db.favorite.findMany).not.toHaveBeenCalled();
+    expect(db.propertyView.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should boost candidates matching the user's favorites", async () => {
+    // Arrange: two candidates equally far from the target
+    const apartment = candidate("apartment", { category: "APARTMENT" });
+    const land = candidate("land", { category: "LAND" });
+    (db.$queryRaw as any).mockResolvedValue([]);
+    (db.property.findMany as any).mockResolvedValue([land, apartment]);
+    (db.favorite.findMany as any).mockResolvedValue([
+      { property: { ...apartment, amenities: [] } },
+    ]);
+
+    // Act
+    const result = await repository.findSimilar({
+      propertyId: "target",
+      userId: "user-1",
+    });
+
+    // Assert
+    expect(db.favorite.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: "user-1" } }),
+    );
+    expect(result.map((property) => property.id)).toEqual([
+      "apartment",
+      "land",
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * SUBSCRIPTION TRIAL REPOSITORY TESTS
+ *
+ * Tests for one-trial-per-user creation and reminder/expiry claims
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    subscription: {
+      createMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  PLATFORM_TRIAL_PROVIDER,
+  SubscriptionTrialRepository,
+} from "../repositories/subscription-trials";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+const trialEndsAt = new Date("2026-03-15T12:00:00.000Z");
+
+describe("SubscriptionTrialRepository", () => {
+  let repository: SubscriptionTrialRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new SubscriptionTrialRepository();
+  });
+
+  describe("start", () => {
+    it("should create a platform trial without a payment provider", async () => {
+      vi.mocked(db.subscription.createMany).mockResolvedValue({ count: 1 });
+
+      const started = await repository.start(
+        "user-1",
+        "PLUS",
+        trialEndsAt,
+        now,
+      );
+
+      expect(started).toBe(true);
+      expect(db.subscription.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: "user-1",
+            tier: "PLUS",
+            status: "TRIALING",
+            provider: PLATFORM_TRIAL_PROVIDER,
+            currentPeriodStart: now,
+            currentPeriodEnd: trialEndsAt,
+            trialEndsAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should return false when the user already had a subscription", async () => {
+      vi.mocked(db.subscription.createMany).mockResolvedValue({ count: 0 });
+
+      expect(
+        await repository.start("user-1", "BUSINESS", trialEndsAt, now),
+      ).toBe(false);
+    });
+  });
+
+  describe("findEndingSoon", () => {
+    it("should only return running platform trials not yet reminded", async () => {
+      const before = new Date("2026-03-04T12:00:00.000Z");
+      vi.mocked(db.subscription.findMany).mockResolvedValue([]);
+
+      await repository.findEndingSoon(now, before);
+
+      expect(db.subscription.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            provider: PLATFORM_TRIAL_PROVIDER,
+            status: "TRIALING",
+            trialEndsAt: { gt: now, lte: before },
+            trialReminderSentAt: null,
+          },
+        }),
+      );
+    });
+  });
+
+  describe("claimReminder", () => {
+    it("should claim the reminder only once", async () => {
+      vi.mocked(db.subscription.updateMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      expect(await repository.claimReminder("sub-1", now)).toBe(true);
+      expect(await repository.claimReminder("sub-1", now)).toBe(false);
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "sub-1",
+          provider: PLATFORM_TRIAL_PROVIDER,
+          status: "TRIALING",
+          trialReminderSentAt: null,
+        },
+        data: { trialReminderSentAt: now },
+      });
+    });
+  });
+
+  describe("claimExpiry", () => {
+    it("should expire the trial back to FREE", async () => {
+      vi.mocked(db.subscription.updateMany).mockResolvedValue({ count: 1 });
+
+      const claimed = await repository.claimExpiry("sub-1", now);
+
+      expect(claimed).toBe(true);
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "sub-1",
+          provider: PLATFORM_TRIAL_PROVIDER,
+          status: "TRIALING",
+          trialEndsAt: { lte: now },
+        },
+        data: { tier: "FREE", status: "EXPIRED", cancelledAt: now },
+      });
+    });
+
+    it("should not expire a trial converted to a paid subscription", async () => {
+      // subscription_created replaced the provider: the where no longer matches
+      vi.mocked(db.subscription.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await repository.claimExpiry("sub-1", now)).toBe(false);
+    });
+  });
+
+  describe("releaseExpiry", () => {
+    it("should put an expired trial back on its plan", async () => {
+      vi.mocked(db.subscription.updateMany).mockResolvedValue({ count: 1 });
+
+      await repository.releaseExpiry("sub-1", "PLUS");
+
+      expect(db.subscription.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "sub-1",
+          provider: PLATFORM_TRIAL_PROVIDER,
+          status: "EXPIRED",
+        },
+        data: { tier: "PLUS", status: "TRIALING", cancelledAt: null },
+      });
+    });
+  });
+});
@@ -403,8 +403,8 @@ describe("UserRepository", () => {
         where: {},
         select: userSelect,
         skip: 0,
-        take: 20,
-        orderBy: { createdAt: "desc" },
+        take: 21,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       });
       expect(db.user.count).toHaveBeenCalledWith({ where: {} });
       expect(result.users).toEqual(mockUsers);
@@ -484,11 +484,65 @@ describe("UserRepository", () => {
       // Assert
       expect(db.user.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          orderBy: { createdAt: "desc" },
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
         })
       );
     });
 
+    it("should return a cursor when there are more users", async () => {
+      // Arrange: take 1 → fetches 2 rows
+      vi.mocked(db.user.findMany).mockResolvedValue([
+        mockAgentUser,
+        mockClientUser,
+      ]);
+      vi.mocked(db.user.count).mockResolvedValue(2);
+
+      // Act
+      const result = await repository.list({ take: 1 });
+
+      // Assert
+      expect(result.users).toEqual([mockAgentUser]);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+
+    it("should page by keyset after the cursor (ignoring skip)", async () => {
+      // Arrange
+      vi.mocked(db.user.findMany).mockResolvedValueOnce([
+        mockAgentUser,
+        mockClientUser,
+      ]);
+      vi.mocked(db.user.count).mockResolvedValue(2);
+      const { nextCursor } = await repository.list({ take: 1 });
+      vi.mocked(db.user.findMany).mockResolvedValueOnce([mockClientUser]);
+
+      // Act
+      const result = await repository.list({
+        role: "AGENT",
+        take: 1,
+        skip: 40,
+        cursor: nextCursor,
+      });
+
+      // Assert
+      const call = vi.mocked(db.user.findMany).mock.calls[1]?.[0];
+      expect(call).not.toHaveProperty("skip");
+      expect(call?.where).toEqual({
+        AND: [
+          { role: "AGENT" },
+          {
+            OR: [
+              { createdAt: { lt: mockAgentUser.createdAt } },
+              {
+                createdAt: mockAgentUser.createdAt,
+                id: { lt: mockAgentUser.id },
+              },
+            ],
+          },
+        ],
+      });
+      expect(result.nextCursor).toBeNull();
+    });
+
     it("should return empty array if no users match", async () => {
       // Arrange
       vi.mocked(db.user.findMany).mockResolvedValue([]);
@@ -514,7 +568,7 @@ describe("UserRepository", () => {
       expect(db.user.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           skip: 0,
-          take: 20,
+          take: 21,
         })
       );
     });
@@ -584,4 +638,55 @@ describe("UserRepository", () => {
       );
     });
   });
+
+  describe("calendar feed token", () => {
+    it("should return null when the agent has no feed token yet", async () => {
+      // Arrange
+      vi.mocked(db.user.findUnique).mockResolvedValue({
+        calendarFeedToken: null,
+      } as never);
+
+      // Act
+      const result = await repository.getCalendarFeedToken(mockAgentUser.id);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(db.user.findUnique).toHaveBeenCalledWith({
+        where: { id: mockAgentUser.id },
+        select: { calendarFeedToken: true },
+      });
+    });
+
+    it("should store a new random token on rotate", async () => {
+      // Arrange
+      vi.mocked(db.user.update).mockResolvedValue(mockAgentUser as never);
+
+      // Act
+      const first = await repository.rotateCalendarFeedToken(mockAgentUser.id);
+      const second = await repository.rotateCalendarFeedToken(mockAgentUser.id);
+
+      // Assert
+      expect(first).toMatch(/^[a-f0-9]{64}$/);
+      expect(second).not.toBe(first);
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: mockAgentUser.id },
+        data: { calendarFeedToken: first },
+      });
+    });
+
+    it("should find the owner of a token without exposing the token", async () => {
+      // Arrange
+      vi.mocked(db.user.findUnique).mockResolvedValue(mockAgentUser);
+
+      // Act
+      const result = await repository.findByCalendarFeedToken("secret-token");
+
+      // Assert
+      expect(result).toEqual(mockAgentUser);
+      expect(db.user.findUnique).toHaveBeenCalledWith({
+        where: { calendarFeedToken: "secret-token" },
+        select: userSelect,
+      });
+    });
+  });
 });
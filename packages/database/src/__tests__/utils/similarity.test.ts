@@ -0,0 +1,97 @@
+/**
+ * SIMILARITY SCORING TESTS
+ *
+ * Tests for "similar properties" scoring and user preference profiles
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildSimilarityPreferences,
+  type SimilarityAttributes,
+  scoreSimilarProperty,
+} from "../../utils/similarity";
+
+const target: SimilarityAttributes = {
+  category: "HOUSE",
+  transactionType: "SALE",
+  price: 200000,
+  bedrooms: 3,
+  amenities: ["pool", "garden"],
+};
+
+const noContext = { distanceKm: null, preferences: null };
+
+describe("scoreSimilarProperty", () => {
+  it("should rank an identical property above a different one", () => {
+    const identical = scoreSimilarProperty(target, { ...target }, noContext);
+    const different = scoreSimilarProperty(
+      target,
+      {
+        category: "LAND",
+        transactionType: "RENT",
+        price: 900,
+        bedrooms: null,
+        amenities: [],
+      },
+      noContext,
+    );
+
+    expect(identical).toBeGreaterThan(different);
+    expect(different).toBe(0);
+  });
+
+  it("should prefer closer prices and closer locations", () => {
+    const near = scoreSimilarProperty(
+      target,
+      { ...target, price: 210000 },
+      { distanceKm: 0.5, preferences: null },
+    );
+    const far = scoreSimilarProperty(
+      target,
+      { ...target, price: 290000 },
+      { distanceKm: 4.5, preferences: null },
+    );
+
+    expect(near).toBeGreaterThan(far);
+  });
+
+  it("should add weight from the user preferences", () => {
+    const candidate = { ...target, category: "APARTMENT" };
+    const preferences = buildSimilarityPreferences({
+      favorites: [{ ...candidate }],
+      views: [],
+    });
+
+    expect(
+      scoreSimilarProperty(target, candidate, { distanceKm: null, preferences }),
+    ).toBeGreaterThan(scoreSimilarProperty(target, candidate, noContext));
+  });
+});
+
+describe("buildSimilarityPreferences", () => {
+  it("should return null without history", () => {
+    expect(buildSimilarityPreferences({ favorites: [], views: [] })).toBeNull();
+  });
+
+  it("should weight favorites above views", () => {
+    // Arrange: 1 favorite house (x2) vs 1 viewed apartment (x1)
+    const preferences = buildSimilarityPreferences({
+      favorites: [{ ...target, amenities: ["pool"] }],
+      views: [{ ...target, category: "APARTMENT", amenities: [] }],
+    });
+
+    // Assert
+    expect(preferences?.categoryShare.HOUSE).toBeCloseTo(2 / 3);
+    expect(preferences?.categoryShare.APARTMENT).toBeCloseTo(1 / 3);
+    expect(preferences?.amenityShare).toEqual({ pool: 1 });
+  });
+
+  it("should use the median price", () => {
+    const preferences = buildSimilarityPreferences({
+      favorites: [],
+      views: [100, 300, 200, 1000].map((price) => ({ ...target, price })),
+    });
+
+    expect(preferences?.medianPrice).toBe(250);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * WEBHOOK EVENT REPOSITORY TESTS
+ *
+ * Tests for the payment webhook ledger (idempotency, claims and replay)
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Mock the database client BEFORE importing anything that uses it
+vi.mock("../client", () => ({
+  db: {
+    webhookEvent: {
+      createMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+import { db } from "../client";
+// Now import modules that depend on db
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WebhookEventRepository,
+  webhookEventSelect,
+} from "../repositories/webhook-events";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+const newEvent = {
+  provider: "lemonsqueezy",
+  eventId: "subscription_updated:sub-1:2026-03-01T11:59:00.000000Z",
+  eventName: "subscription_updated",
+  resourceId: "sub-1",
+  userId: "user-1",
+  occurredAt: new Date("2026-03-01T11:59:00.000Z"),
+  payload: { meta: { event_name: "subscription_updated" } },
+};
+
+const storedEvent = {
+  id: "evt-1",
+  ...newEvent,
+  status: "PENDING",
+  attempts: 0,
+  lastError: null,
+  processedAt: null,
+  createdAt: now,
+  updatedAt: now,
+};
+
+describe("WebhookEventRepository", () => {
+  let repository: WebhookEventRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new WebhookEventRepository();
+  });
+
+  describe("record()", () => {
+    it("should store a new event once", async () => {
+      vi.mocked(db.webhookEvent.createMany).mockResolvedValue({ count: 1 });
+      vi.mocked(db.webhookEvent.findUniqueOrThrow).mockResolvedValue(
+        storedEvent as never,
+      );
+
+      const result = await repository.record(newEvent);
+
+      expect(db.webhookEvent.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ eventId: newEvent.eventId })],
+        skipDuplicates: true,
+      });
+      expect(db.webhookEvent.findUniqueOrThrow).toHaveBeenCalledWith({
+        where: {
+          provider_eventId: {
+            provider: "lemonsqueezy",
+            eventId: newEvent.eventId,
+          },
+        },
+        select: webhookEventSelect,
+      });
+      expect(result).toEqual({ event: storedEvent, duplicate: false });
+    });
+
+    it("should flag redeliveries as duplicates", async () => {
+      vi.mocked(db.webhookEvent.createMany).mockResolvedValue({ count: 0 });
+      vi.mocked(db.webhookEvent.findUniqueOrThrow).mockResolvedValue(
+        storedEvent as never,
+      );
+
+      const result = await repository.record(newEvent);
+
+      expect(result.duplicate).toBe(true);
+    });
+  });
+
+  describe("claim()", () => {
+    it("should only claim pending, failed or abandoned events", async () => {
+      vi.mocked(db.webhookEvent.updateMany).mockResolvedValue({ count: 1 });
+
+      const claimed = await repository.claim("evt-1", now);
+
+      expect(db.webhookEvent.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "evt-1",
+          OR: [
+            { status: { in: ["PENDING", "FAILED"] } },
+            {
+              status: "PROCESSING",
+              updatedAt: { lt: new Date("2026-03-01T11:50:00.000Z") },
+            },
+          ],
+        },
+        data: { status: "PROCESSING", attempts: { increment: 1 } },
+      });
+      expect(claimed).toBe(true);
+    });
+
+    it("should return false when the event is already being processed", async () => {
+      vi.mocked(db.webhookEvent.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await repository.claim("evt-1", now)).toBe(false);
+    });
+  });
+
+  describe("fail()", () => {
+    it("should truncate long error messages", async () => {
+      vi.mocked(db.webhookEvent.update).mockResolvedValue(storedEvent as never);
+
+      await repository.fail("evt-1", "x".repeat(5000));
+
+      expect(db.webhookEvent.update).toHaveBeenCalledWith({
+        where: { id: "evt-1" },
+        data: { status: "FAILED", lastError: "x".repeat(2000) },
+      });
+    });
+  });
+
+  describe("findReplayable()", () => {
+    it("should replay in provider order and skip exhausted events", async () => {
+      vi.mocked(db.webhookEvent.findMany).mockResolvedValue([]);
+
+      await repository.findReplayable(now);
+
+      expect(db.webhookEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            attempts: { lt: MAX_WEBHOOK_ATTEMPTS },
+          }),
+          orderBy: [{ occurredAt: "asc" }, { createdAt: "asc" }],
+        }),
+      );
+    });
+  });
+
+  describe("countByStatus()", () => {
+    it("should fill missing statuses with zero", async () => {
+      vi.mocked(db.webhookEvent.groupBy).mockResolvedValue([
+        { status: "FAILED", _count: { _all: 2 } },
+      ] as never);
+
+      const counts = await repository.countByStatus();
+
+      expect(counts).toEqual({
+        PENDING: 0,
+        PROCESSING: 0,
+        PROCESSED: 0,
+        SKIPPED: 0,
+        FAILED: 2,
+      });
+    });
+  });
+});
@@ -12,3 +12,6 @@ export { db } from "./client";
 
 // Export repositories (implementados a continuación)
 export * from "./repositories";
+
+// Export pagination helpers (cursores keyset y totales estimados)
+export * from "./utils/pagination";
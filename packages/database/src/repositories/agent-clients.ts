@@ -0,0 +1,361 @@
+/**
+ * AGENT CLIENT REPOSITORY (CRM)
+ *
+ * Abstrae las operaciones de base de datos del CRM del agente
+ * - Pipeline de leads agrupados por estado (vista kanban)
+ * - Cambios de estado con historial (cuánto tiempo estuvo el lead en cada etapa)
+ * - Exportación de contactos (CSV/XLSX) con origen y UTM
+ * - Importación de contactos (hoja de cálculo)
+ *
+ * PATTERN:
+ * - Todas las operaciones se filtran por agentId (el agente solo ve sus leads)
+ * - Cada cambio de estado escribe una fila en lead_stage_changes
+ * - Un lead es un usuario registrado (clientId) o un contacto propio del CRM
+ *   (contactName/contactEmail/contactPhone)
+ * - Un contacto importado con el email de un usuario registrado se vincula a
+ *   él, igual que getOrCreateAgentClient; si se registra después, su primera
+ *   interacción con el agente reclama el lead (claimImportedContact)
+ * - Importar nunca crea usuarios
+ */
+
+import type { LeadStatus, Prisma } from "@prisma/client";
+import { db } from "../client";
+import { sanitizeOptional, sanitizePlainText } from "../utils/sanitize";
+
+/**
+ * Historial de etapas (más antiguo primero)
+ */
+export const leadStageChangeSelect = {
+  id: true,
+  fromStatus: true,
+  toStatus: true,
+  changedAt: true,
+} satisfies Prisma.LeadStageChangeSelect;
+
+/**
+ * Datos de contacto de un lead: del usuario registrado o del CRM
+ */
+export const leadContactSelect = {
+  contactName: true,
+  contactEmail: true,
+  contactPhone: true,
+  client: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      avatar: true,
+    },
+  },
+} satisfies Prisma.AgentClientSelect;
+
+/**
+ * Lead del pipeline (tarjeta del kanban / fila de la lista)
+ */
+export const agentClientSelect = {
+  id: true,
+  status: true,
+  statusChangedAt: true,
+  notes: true,
+  source: true,
+  createdAt: true,
+  updatedAt: true,
+  ...leadContactSelect,
+  property: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  stageChanges: {
+    select: leadStageChangeSelect,
+    orderBy: { changedAt: "asc" },
+  },
+} satisfies Prisma.AgentClientSelect;
+
+/**
+ * Lead para exportar (columnas de la hoja de cálculo)
+ */
+export const agentClientExportSelect = {
+  status: true,
+  source: true,
+  utmSource: true,
+  utmMedium: true,
+  utmCampaign: true,
+  notes: true,
+  createdAt: true,
+  ...leadContactSelect,
+  property: {
+    select: {
+      title: true,
+    },
+  },
+} satisfies Prisma.AgentClientSelect;
+
+/**
+ * Contacto de un lead (usuario registrado o contacto importado)
+ */
+export interface LeadContact {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  avatar: string | null;
+  /** Tiene cuenta en la plataforma (clientId) */
+  registered: boolean;
+}
+
+type LeadContactFields = keyof typeof leadContactSelect;
+
+export type WithLeadContact<Row> = Omit<Row, LeadContactFields> & {
+  contact: LeadContact;
+};
+
+export type AgentClientDetail = WithLeadContact<
+  Prisma.AgentClientGetPayload<{ select: typeof agentClientSelect }>
+>;
+
+export type AgentClientExportRow = WithLeadContact<
+  Prisma.AgentClientGetPayload<{ select: typeof agentClientExportSelect }>
+>;
+
+/**
+ * Contacto importado desde una hoja de cálculo
+ */
+export interface ImportedContactData {
+  name?: string | null;
+  email: string;
+  phone?: string | null;
+  source: string;
+  propertyId?: string | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+}
+
+/**
+ * Reemplaza client/contact* por un único `contact`
+ * (el usuario registrado tiene prioridad sobre los datos del CRM)
+ */
+export function withLeadContact<
+  Row extends Prisma.AgentClientGetPayload<{
+    select: typeof leadContactSelect;
+  }>,
+>(row: Row): WithLeadContact<Row> {
+  const { client, contactName, contactEmail, contactPhone, ...lead } = row;
+
+  return {
+    ...lead,
+    contact: client
+      ? {
+          name: client.name,
+          email: client.email,
+          phone: client.phone,
+          avatar: client.avatar,
+          registered: true,
+        }
+      : {
+          name: contactName,
+          email: contactEmail,
+          phone: contactPhone,
+          avatar: null,
+          registered: false,
+        },
+  };
+}
+
+export type LeadStageChangeDetail = Prisma.LeadStageChangeGetPayload<{
+  select: typeof leadStageChangeSelect;
+}>;
+
+/**
+ * Repository para el CRM del agente
+ */
+export class AgentClientRepository {
+  /**
+   * Leads de un agente con su historial de etapas
+   * Ordenados por actividad reciente (mismo orden que la lista)
+   */
+  async listByAgent(agentId: string): Promise<AgentClientDetail[]> {
+    const rows = await db.agentClient.findMany({
+      where: { agentId },
+      select: agentClientSelect,
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return rows.map(withLeadContact);
+  }
+
+  /**
+   * Todos los leads del agente para exportar (más antiguos primero)
+   */
+  async listForExport(agentId: string): Promise<AgentClientExportRow[]> {
+    const rows = await db.agentClient.findMany({
+      where: { agentId },
+      select: agentClientExportSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return rows.map(withLeadContact);
+  }
+
+  /**
+   * Obtener un lead del agente (null si no existe o es de otro agente)
+   */
+  async getById(
+    agentClientId: string,
+    agentId: string,
+  ): Promise<AgentClientDetail | null> {
+    const row = await db.agentClient.findFirst({
+      where: { id: agentClientId, agentId },
+      select: agentClientSelect,
+    });
+
+    return row ? withLeadContact(row) : null;
+  }
+
+  /**
+   * Crear un lead a partir de un contacto importado
+   * Si el email es de un usuario registrado, el lead se vincula a él (o se
+   * devuelve el lead que ya tenía con el agente); si no, los datos quedan en
+   * el lead (contact*). Nunca crea usuarios
+   *
+   * SANITIZATION: name y phone son texto plano (sin HTML)
+   */
+  async createImported(
+    agentId: string,
+    data: ImportedContactData,
+  ): Promise<{ id: string }> {
+    const email = data.email.trim().toLowerCase();
+    const user = await db.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (user) {
+      const existing = await db.agentClient.findUnique({
+        where: { agentId_clientId: { agentId, clientId: user.id } },
+        select: { id: true },
+      });
+      if (existing) return existing;
+    }
+
+    return db.agentClient.create({
+      data: {
+        agentId,
+        ...(user
+          ? { clientId: user.id }
+          : {
+              contactName: sanitizeOptional(
+                data.name ?? null,
+                sanitizePlainText,
+              ),
+              contactEmail: email,
+              contactPhone: sanitizeOptional(
+                data.phone ?? null,
+                sanitizePlainText,
+              ),
+            }),
+        source: data.source,
+        propertyId: data.propertyId ?? null,
+        utmSource: data.utmSource ?? null,
+        utmMedium: data.utmMedium ?? null,
+        utmCampaign: data.utmCampaign ?? null,
+        status: "NEW",
+        // First entry of the pipeline history
+        stageChanges: { create: { toStatus: "NEW" } },
+      },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Vincular al usuario un contacto importado antes de que se registrara
+   * Los datos de contacto pasan a ser los de su cuenta
+   *
+   * @returns El lead reclamado, o null si el agente no tenía ese contacto
+   */
+  async claimImportedContact(
+    agentId: string,
+    clientId: string,
+    email: string,
+  ): Promise<{ id: string } | null> {
+    const lead = await db.agentClient.findFirst({
+      where: {
+        agentId,
+        clientId: null,
+        contactEmail: email.trim().toLowerCase(),
+      },
+      select: { id: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (!lead) return null;
+
+    return db.agentClient.update({
+      where: { id: lead.id },
+      data: {
+        clientId,
+        contactName: null,
+        contactEmail: null,
+        contactPhone: null,
+      },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Mover un lead a otra etapa del pipeline
+   * Registra el cambio en el historial y reinicia el "tiempo en etapa"
+   *
+   * @param changedById - Usuario que movió el lead
+   * @throws Error si el lead no pertenece al agente
+   * @returns El lead actualizado (sin cambios si ya estaba en esa etapa)
+   */
+  async changeStatus(
+    agentClientId: string,
+    agentId: string,
+    status: LeadStatus,
+    changedById: string,
+  ): Promise<AgentClientDetail> {
+    return db.$transaction(async (tx) => {
+      const lead = await tx.agentClient.findFirst({
+        where: { id: agentClientId, agentId },
+        select: agentClientSelect,
+      });
+
+      if (!lead) {
+        throw new Error("Cliente no encontrado");
+      }
+
+      if (lead.status === status) {
+        return withLeadContact(lead);
+      }
+
+      const changedAt = new Date();
+
+      await tx.leadStageChange.create({
+        data: {
+          agentClientId,
+          fromStatus: lead.status,
+          toStatus: status,
+          changedById,
+          changedAt,
+        },
+      });
+
+      const updated = await tx.agentClient.update({
+        where: { id: agentClientId },
+        data: { status, statusChangedAt: changedAt },
+        select: agentClientSelect,
+      });
+
+      return withLeadContact(updated);
+    });
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const agentClientRepository = new AgentClientRepository();
@@ -6,15 +6,120 @@
  *
  * PATTERN:
  * - Centraliza lógica de citas
- * - Valida disponibilidad de horarios
+ * - Valida disponibilidad de horarios por intervalos (duración de cada visita)
+ *   en TODAS las propiedades del agente: no puede estar en dos casas a la vez
  * - Maneja relaciones entre usuario, propiedad y agente
  * - Optimizado para queries frecuentes
  */
 
-import type { AppointmentStatus, Prisma } from "@prisma/client";
+import type {
+  AppointmentReminderType,
+  AppointmentStatus,
+  Prisma,
+} from "@prisma/client";
 import { db } from "../client";
 import { sanitizeOptional, sanitizePlainText } from "../utils/sanitize";
 
+/**
+ * Horas ofrecidas cuando no se indica el horario del agente
+ * Lun-Vie 9am-5pm, sin lunch 12-1pm (ver DEFAULT_AVAILABILITY_RULES)
+ */
+const DEFAULT_CANDIDATE_HOURS = [9, 10, 11, 13, 14, 15, 16];
+
+/**
+ * Duración de una visita cuando la propiedad no define otra
+ */
+export const DEFAULT_VISIT_DURATION_MINUTES = 60;
+
+/**
+ * Duración máxima de una visita
+ * Acota la búsqueda de citas que empiezan antes y siguen en curso
+ */
+export const MAX_VISIT_DURATION_MINUTES = 8 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Intervalo ocupado por una visita: [start, start + durationMinutes)
+ */
+export interface VisitInterval {
+  start: Date;
+  durationMinutes: number;
+}
+
+/**
+ * Verificar si dos visitas se solapan
+ * Una visita que termina a las 11:00 no choca con otra que empieza a las 11:00
+ */
+export function visitsOverlap(a: VisitInterval, b: VisitInterval): boolean {
+  const aStart = a.start.getTime();
+  const bStart = b.start.getTime();
+  const aEnd = aStart + a.durationMinutes * MINUTE_MS;
+  const bEnd = bStart + b.durationMinutes * MINUTE_MS;
+
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Buscar una cita activa del agente que se solape con la visita
+ * Acepta el cliente de una transacción para el check atómico de createAppointment
+ *
+ * @returns La primera cita en conflicto o null
+ */
+async function findAgentConflict(
+  client: Prisma.TransactionClient,
+  params: VisitInterval & {
+    agentId: string;
+    excludeAppointmentId?: string;
+  },
+) {
+  const end = new Date(
+    params.start.getTime() + params.durationMinutes * MINUTE_MS,
+  );
+
+  const candidates = await client.appointment.findMany({
+    where: {
+      agentId: params.agentId,
+      ...(params.excludeAppointmentId && {
+        id: { not: params.excludeAppointmentId },
+      }),
+      scheduledAt: {
+        gt: new Date(
+          params.start.getTime() - MAX_VISIT_DURATION_MINUTES * MINUTE_MS,
+        ),
+        lt: end,
+      },
+      status: {
+        in: ["PENDING", "CONFIRMED"],
+      },
+    },
+    select: {
+      id: true,
+      propertyId: true,
+      scheduledAt: true,
+      durationMinutes: true,
+    },
+  });
+
+  return (
+    candidates.find((candidate) =>
+      visitsOverlap(params, {
+        start: candidate.scheduledAt,
+        durationMinutes: candidate.durationMinutes,
+      }),
+    ) ?? null
+  );
+}
+
+/**
+ * Mensaje de conflicto según si choca con la misma propiedad u otra del agente
+ */
+function getConflictMessage(conflictPropertyId: string, propertyId: string) {
+  return conflictPropertyId === propertyId
+    ? "Este horario ya está reservado. Por favor, selecciona otro horario."
+    : "El agente tiene otra visita en ese horario. Por favor, selecciona otro horario.";
+}
+
 /**
  * Appointment select con relaciones básicas
  */
@@ -26,6 +131,7 @@ export const appointmentSelect = {
   scheduledAt: true,
   status: true,
   notes: true,
+  durationMinutes: true,
   createdAt: true,
   updatedAt: true,
 } satisfies Prisma.AppointmentSelect;
@@ -45,6 +151,7 @@ export const appointmentDetailSelect = {
   scheduledAt: true,
   status: true,
   notes: true,
+  durationMinutes: true,
   createdAt: true,
   updatedAt: true,
   user: {
@@ -81,6 +188,15 @@ export const appointmentDetailSelect = {
       avatar: true,
     },
   },
+  // Horarios anteriores (más reciente primero)
+  reschedules: {
+    select: {
+      previousScheduledAt: true,
+      reason: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+  },
 } satisfies Prisma.AppointmentSelect;
 
 export type AppointmentDetail = Prisma.AppointmentGetPayload<{
@@ -95,6 +211,7 @@ export class AppointmentRepository {
    * Crear una nueva cita
    *
    * @param data Datos de la cita (userId, propertyId, agentId, scheduledAt, notes?)
+   * @param data.durationMinutes Duración de la visita de la propiedad (por defecto 60)
    * @throws Error si hay conflicto de horarios o datos inválidos
    *
    * SANITIZATION: User-provided notes field is sanitized to prevent XSS attacks
@@ -102,7 +219,7 @@ export class AppointmentRepository {
    *
    * RACE CONDITION PROTECTION:
    * - Uses Serializable transaction to prevent double-booking
-   * - Checks for existing appointments at the same time slot BEFORE creating
+   * - Checks for overlapping appointments of the agent (any property) BEFORE creating
    * - Atomic check + insert prevents concurrent booking conflicts
    */
   async createAppointment(data: {
@@ -111,24 +228,24 @@ export class AppointmentRepository {
     agentId: string;
     scheduledAt: Date;
     notes?: string;
+    durationMinutes?: number;
   }) {
+    const durationMinutes =
+      data.durationMinutes ?? DEFAULT_VISIT_DURATION_MINUTES;
+
     return db.$transaction(
       async (tx) => {
         // Check for conflicting appointments in the SAME transaction
         // This prevents race condition where two users book simultaneously
-        const existingAppointment = await tx.appointment.findFirst({
-          where: {
-            propertyId: data.propertyId,
-            scheduledAt: data.scheduledAt,
-            status: {
-              in: ["PENDING", "CONFIRMED"],
-            },
-          },
+        const conflict = await findAgentConflict(tx, {
+          agentId: data.agentId,
+          start: data.scheduledAt,
+          durationMinutes,
         });
 
-        if (existingAppointment) {
+        if (conflict) {
           throw new Error(
-            "Este horario ya está reservado. Por favor, selecciona otro horario.",
+            getConflictMessage(conflict.propertyId, data.propertyId),
           );
         }
 
@@ -140,6 +257,7 @@ export class AppointmentRepository {
             agentId: data.agentId,
             scheduledAt: data.scheduledAt,
             notes: sanitizeOptional(data.notes, sanitizePlainText), // Sanitize notes (Defense in Depth - Layer 2)
+            durationMinutes,
             status: "PENDING",
           },
           select: appointmentDetailSelect,
@@ -177,6 +295,98 @@ export class AppointmentRepository {
     });
   }
 
+  /**
+   * Reprogramar una cita a un nuevo horario
+   * Guarda el horario anterior en el historial y reinicia los recordatorios
+   *
+   * @param data.status - Estado tras reprogramar (por defecto se mantiene el actual)
+   * @throws Error si la cita no existe, no está activa o el nuevo horario está ocupado
+   *
+   * SANITIZATION: reason is plain text only (no HTML allowed)
+   *
+   * RACE CONDITION PROTECTION: same Serializable check as createAppointment
+   */
+  async rescheduleAppointment(
+    id: string,
+    data: {
+      scheduledAt: Date;
+      rescheduledById: string;
+      reason?: string;
+      status?: AppointmentStatus;
+    },
+  ) {
+    return db.$transaction(
+      async (tx) => {
+        const appointment = await tx.appointment.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            propertyId: true,
+            agentId: true,
+            scheduledAt: true,
+            durationMinutes: true,
+            status: true,
+          },
+        });
+
+        if (!appointment) {
+          throw new Error("Cita no encontrada");
+        }
+
+        if (
+          appointment.status !== "PENDING" &&
+          appointment.status !== "CONFIRMED"
+        ) {
+          throw new Error("Solo se pueden reprogramar citas activas");
+        }
+
+        if (appointment.scheduledAt.getTime() === data.scheduledAt.getTime()) {
+          throw new Error("Selecciona un horario distinto al actual");
+        }
+
+        const conflict = await findAgentConflict(tx, {
+          agentId: appointment.agentId,
+          start: data.scheduledAt,
+          durationMinutes: appointment.durationMinutes,
+          excludeAppointmentId: id,
+        });
+
+        if (conflict) {
+          throw new Error(
+            getConflictMessage(conflict.propertyId, appointment.propertyId),
+          );
+        }
+
+        await tx.appointmentReschedule.create({
+          data: {
+            appointmentId: id,
+            previousScheduledAt: appointment.scheduledAt,
+            newScheduledAt: data.scheduledAt,
+            rescheduledById: data.rescheduledById,
+            reason: sanitizeOptional(data.reason, sanitizePlainText),
+          },
+        });
+
+        // Los recordatorios enviados eran para el horario anterior
+        await tx.appointmentReminder.deleteMany({
+          where: { appointmentId: id },
+        });
+
+        return tx.appointment.update({
+          where: { id },
+          data: {
+            scheduledAt: data.scheduledAt,
+            status: data.status ?? appointment.status,
+          },
+          select: appointmentDetailSelect,
+        });
+      },
+      {
+        isolationLevel: "Serializable",
+      },
+    );
+  }
+
   /**
    * Obtener todas las citas de un agente
    * Incluye filtros por fecha y estado
@@ -228,6 +438,74 @@ export class AppointmentRepository {
     });
   }
 
+  /**
+   * Citas activas (PENDING/CONFIRMED) de un agente para su feed de calendario
+   * Incluye dirección de la propiedad y contacto del cliente
+   *
+   * @param since - Desde cuándo incluir citas (las pasadas recientes siguen visibles)
+   */
+  async getAgentCalendarAppointments(agentId: string, since: Date) {
+    return db.appointment.findMany({
+      where: {
+        agentId,
+        status: { in: ["PENDING", "CONFIRMED"] },
+        scheduledAt: { gte: since },
+      },
+      select: appointmentDetailSelect,
+      orderBy: { scheduledAt: "asc" },
+    });
+  }
+
+  /**
+   * Obtener citas confirmadas que aún no recibieron un recordatorio
+   * Usado por el job de recordatorios (24h y 1h antes)
+   *
+   * @param from - Inicio de la ventana (excluido)
+   * @param to - Fin de la ventana (incluido)
+   */
+  async getAppointmentsDueForReminder(
+    type: AppointmentReminderType,
+    from: Date,
+    to: Date,
+  ) {
+    return db.appointment.findMany({
+      where: {
+        status: "CONFIRMED",
+        scheduledAt: { gt: from, lte: to },
+        reminders: { none: { type } },
+      },
+      select: appointmentDetailSelect,
+      orderBy: { scheduledAt: "asc" },
+    });
+  }
+
+  /**
+   * Registrar un recordatorio ANTES de enviarlo
+   * El índice único (appointmentId, type) garantiza que solo una ejecución lo envía
+   *
+   * @returns false si el recordatorio ya estaba registrado
+   */
+  async claimReminder(
+    appointmentId: string,
+    type: AppointmentReminderType,
+  ): Promise<boolean> {
+    const result = await db.appointmentReminder.createMany({
+      data: [{ appointmentId, type }],
+      skipDuplicates: true,
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Liberar un recordatorio cuyo envío falló (se reintenta en la próxima ejecución)
+   */
+  async releaseReminder(appointmentId: string, type: AppointmentReminderType) {
+    return db.appointmentReminder.deleteMany({
+      where: { appointmentId, type },
+    });
+  }
+
   /**
    * Obtener todas las citas de un usuario (cliente)
    *
@@ -305,7 +583,11 @@ export class AppointmentRepository {
 
   /**
    * Verificar si un slot está disponible
-   * Retorna true si no hay conflictos
+   * Retorna true si la visita (con la duración de la propiedad) no se solapa
+   * con ninguna cita activa del agente, en cualquiera de sus propiedades
+   *
+   * @param options.excludeAppointmentId - Ignorar una cita (al reprogramarla)
+   * @param options.durationMinutes - Duración a verificar (por defecto la de la propiedad)
    *
    * @example
    * const available = await appointmentRepository.isSlotAvailable(
@@ -313,32 +595,66 @@ export class AppointmentRepository {
    *   new Date('2024-01-15T10:00:00')
    * );
    */
-  async isSlotAvailable(propertyId: string, slotTime: Date): Promise<boolean> {
-    const conflictingAppointment = await db.appointment.findFirst({
-      where: {
-        propertyId,
-        scheduledAt: slotTime,
-        status: {
-          in: ["PENDING", "CONFIRMED"],
-        },
-      },
+  async isSlotAvailable(
+    propertyId: string,
+    slotTime: Date,
+    options: { excludeAppointmentId?: string; durationMinutes?: number } = {},
+  ): Promise<boolean> {
+    const property = await db.property.findUnique({
+      where: { id: propertyId },
+      select: { agentId: true, visitDurationMinutes: true },
+    });
+
+    if (!property) {
+      return false;
+    }
+
+    const conflict = await findAgentConflict(db, {
+      agentId: property.agentId,
+      start: slotTime,
+      durationMinutes: options.durationMinutes ?? property.visitDurationMinutes,
+      excludeAppointmentId: options.excludeAppointmentId,
     });
 
-    return !conflictingAppointment;
+    return !conflict;
   }
 
   /**
    * Obtener horarios disponibles para una fecha específica
-   * Retorna array de horas disponibles (9:00 - 17:00)
+   * Retorna las horas candidatas donde la visita completa cabe:
+   * - Todas las horas que ocupa la visita están en el horario del agente
+   *   (una visita de 2h a las 11:00 no se ofrece si el agente almuerza a las 12:00)
+   * - No se solapa con otra cita del agente en cualquiera de sus propiedades
+   *
+   * @param candidateHours - Horas que ofrece el agente ese día
+   *   (calculadas desde su horario). Por defecto el horario estándar
    *
    * @example
    * const available = await appointmentRepository.getAvailableSlots(
    *   propertyId,
-   *   new Date('2024-01-15')
+   *   new Date('2024-01-15'),
+   *   [9, 10, 11, 13, 14, 15, 16]
    * );
-   * // Returns: [9, 10, 11, 13, 14, 15, 16] (12 es lunch)
+   * // Returns: [9, 10, 11, 13, 14, 15, 16] menos las horas ya reservadas
    */
-  async getAvailableSlots(propertyId: string, date: Date): Promise<number[]> {
+  async getAvailableSlots(
+    propertyId: string,
+    date: Date,
+    candidateHours: number[] = DEFAULT_CANDIDATE_HOURS,
+  ): Promise<number[]> {
+    if (candidateHours.length === 0) {
+      return [];
+    }
+
+    const property = await db.property.findUnique({
+      where: { id: propertyId },
+      select: { agentId: true, visitDurationMinutes: true },
+    });
+
+    if (!property) {
+      return [];
+    }
+
     // Convertir fecha a inicio del día
     const dayStart = new Date(date);
     dayStart.setHours(0, 0, 0, 0);
@@ -346,21 +662,50 @@ export class AppointmentRepository {
     const dayEnd = new Date(dayStart);
     dayEnd.setDate(dayEnd.getDate() + 1);
 
-    // Obtener todas las citas reservadas en ese día
-    const bookedAppointments = await this.getAppointmentsInTimeRange(
-      propertyId,
-      dayStart,
-      dayEnd,
-    );
+    // Citas del agente que ocupan parte del día (incluye las que empiezan antes)
+    const bookedAppointments = await db.appointment.findMany({
+      where: {
+        agentId: property.agentId,
+        scheduledAt: {
+          gt: new Date(
+            dayStart.getTime() - MAX_VISIT_DURATION_MINUTES * MINUTE_MS,
+          ),
+          lt: dayEnd,
+        },
+        status: {
+          in: ["PENDING", "CONFIRMED"],
+        },
+      },
+      select: {
+        scheduledAt: true,
+        durationMinutes: true,
+      },
+    });
 
-    // Horarios de negocio: Lun-Vie 9am-5pm, no lunch 12-1pm
-    const businessHours = [9, 10, 11, 13, 14, 15, 16]; // 0-23 en formato 24h
-    const bookedHours = bookedAppointments.map((apt) =>
-      apt.scheduledAt.getHours(),
-    );
+    const durationMinutes = property.visitDurationMinutes;
+    const hoursNeeded = Math.ceil(durationMinutes / 60);
 
-    // Retornar horas que no están ocupadas
-    return businessHours.filter((hour) => !bookedHours.includes(hour));
+    return candidateHours.filter((hour) => {
+      // La visita completa debe caber en el horario del agente
+      for (let offset = 1; offset < hoursNeeded; offset++) {
+        if (!candidateHours.includes(hour + offset)) {
+          return false;
+        }
+      }
+
+      const start = new Date(dayStart);
+      start.setHours(hour, 0, 0, 0);
+
+      return !bookedAppointments.some((booked) =>
+        visitsOverlap(
+          { start, durationMinutes },
+          {
+            start: booked.scheduledAt,
+            durationMinutes: booked.durationMinutes,
+          },
+        ),
+      );
+    });
   }
 
   /**
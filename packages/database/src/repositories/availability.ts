@@ -0,0 +1,362 @@
+/**
+ * AVAILABILITY REPOSITORY
+ *
+ * Abstrae las operaciones de base de datos del horario de visitas de los agentes
+ * Usado para calcular los horarios que se ofrecen al agendar una cita
+ *
+ * PATTERN:
+ * - Reglas semanales por agente (propertyId = null)
+ * - Reglas por propiedad: si existen, REEMPLAZAN las del agente para esa propiedad
+ * - Días bloqueados para el agente completo o para una propiedad
+ * - Duración de la visita por propiedad (departamento 30 min, finca 2 h)
+ * - Sin reglas configuradas → horario por defecto (Lun-Vie 9-17, pausa 12-13)
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "../client";
+import { sanitizeOptional } from "../utils/sanitize";
+import { MAX_VISIT_DURATION_MINUTES } from "./appointments";
+
+/**
+ * Regla semanal: un bloque de horas de un día de la semana
+ * Varias reglas para el mismo día permiten pausas (ej: 9-12 y 13-17)
+ */
+export interface WeeklyAvailabilityRule {
+  /** 0 = Domingo ... 6 = Sábado */
+  dayOfWeek: number;
+  /** Hora de inicio (incluida) */
+  startHour: number;
+  /** Hora de fin (excluida): 9-12 ofrece 9:00, 10:00 y 11:00 */
+  endHour: number;
+}
+
+/**
+ * Horario efectivo para agendar visitas a una propiedad
+ * Serializable: se envía tal cual al formulario de citas
+ */
+export interface AvailabilitySchedule {
+  weeklyRules: WeeklyAvailabilityRule[];
+  /** Días bloqueados en formato yyyy-MM-dd */
+  blackoutDates: string[];
+  /** De dónde salen las reglas semanales */
+  source: "default" | "agent" | "property";
+  /** Duración de la visita a esta propiedad */
+  visitDurationMinutes: number;
+}
+
+/**
+ * Horario por defecto para agentes que aún no configuraron el suyo
+ * Lunes a Viernes: 9:00 - 17:00, pausa de almuerzo 12:00 - 13:00
+ */
+export const DEFAULT_AVAILABILITY_RULES: WeeklyAvailabilityRule[] = [
+  1, 2, 3, 4, 5,
+].flatMap((dayOfWeek) => [
+  { dayOfWeek, startHour: 9, endHour: 12 },
+  { dayOfWeek, startHour: 13, endHour: 17 },
+]);
+
+/**
+ * Availability rule select
+ */
+export const availabilityRuleSelect = {
+  id: true,
+  propertyId: true,
+  dayOfWeek: true,
+  startHour: true,
+  endHour: true,
+} satisfies Prisma.AgentAvailabilityRuleSelect;
+
+export type AvailabilityRule = Prisma.AgentAvailabilityRuleGetPayload<{
+  select: typeof availabilityRuleSelect;
+}>;
+
+/**
+ * Blackout date select (incluye título de la propiedad para el dashboard)
+ */
+export const blackoutDateSelect = {
+  id: true,
+  propertyId: true,
+  date: true,
+  reason: true,
+  property: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+} satisfies Prisma.AgentBlackoutDateSelect;
+
+export type BlackoutDate = Prisma.AgentBlackoutDateGetPayload<{
+  select: typeof blackoutDateSelect;
+}>;
+
+/**
+ * Convertir una columna DATE (medianoche UTC) a yyyy-MM-dd
+ */
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validar un bloque horario antes de guardarlo
+ */
+function assertValidRule(rule: WeeklyAvailabilityRule) {
+  if (
+    !Number.isInteger(rule.dayOfWeek) ||
+    rule.dayOfWeek < 0 ||
+    rule.dayOfWeek > 6
+  ) {
+    throw new Error("Día de la semana inválido");
+  }
+  if (
+    !Number.isInteger(rule.startHour) ||
+    !Number.isInteger(rule.endHour) ||
+    rule.startHour < 0 ||
+    rule.endHour > 24 ||
+    rule.startHour >= rule.endHour
+  ) {
+    throw new Error("Rango de horas inválido");
+  }
+}
+
+/**
+ * Validar la duración de una visita (bloques de 15 minutos)
+ */
+function assertValidVisitDuration(minutes: number) {
+  if (
+    !Number.isInteger(minutes) ||
+    minutes < 15 ||
+    minutes > MAX_VISIT_DURATION_MINUTES ||
+    minutes % 15 !== 0
+  ) {
+    throw new Error("Duración de visita inválida");
+  }
+}
+
+export class AvailabilityRepository {
+  /**
+   * Verificar que la propiedad pertenece al agente
+   *
+   * @throws Error si la propiedad no existe o no es del agente
+   */
+  private async assertPropertyOwnership(propertyId: string, agentId: string) {
+    const property = await db.property.findUnique({
+      where: { id: propertyId },
+      select: { agentId: true },
+    });
+
+    if (!property || property.agentId !== agentId) {
+      throw new Error("Propiedad no encontrada");
+    }
+  }
+
+  /**
+   * Listar todas las reglas de un agente (generales y por propiedad)
+   */
+  async listRules(agentId: string): Promise<AvailabilityRule[]> {
+    return db.agentAvailabilityRule.findMany({
+      where: { agentId },
+      select: availabilityRuleSelect,
+      orderBy: [{ dayOfWeek: "asc" }, { startHour: "asc" }],
+    });
+  }
+
+  /**
+   * Reemplazar las reglas semanales del agente o de una propiedad
+   * Un array vacío en una propiedad elimina el override (vuelve al horario del agente)
+   *
+   * @param propertyId - null para el horario general del agente
+   * @throws Error si alguna regla es inválida o la propiedad no es del agente
+   */
+  async replaceWeeklyRules(
+    agentId: string,
+    propertyId: string | null,
+    rules: WeeklyAvailabilityRule[],
+  ) {
+    rules.forEach(assertValidRule);
+
+    if (propertyId) {
+      await this.assertPropertyOwnership(propertyId, agentId);
+    }
+
+    return db.$transaction(async (tx) => {
+      await tx.agentAvailabilityRule.deleteMany({
+        where: { agentId, propertyId },
+      });
+
+      if (rules.length > 0) {
+        await tx.agentAvailabilityRule.createMany({
+          data: rules.map((rule) => ({
+            agentId,
+            propertyId,
+            dayOfWeek: rule.dayOfWeek,
+            startHour: rule.startHour,
+            endHour: rule.endHour,
+          })),
+        });
+      }
+
+      return tx.agentAvailabilityRule.findMany({
+        where: { agentId, propertyId },
+        select: availabilityRuleSelect,
+        orderBy: [{ dayOfWeek: "asc" }, { startHour: "asc" }],
+      });
+    });
+  }
+
+  /**
+   * Listar días bloqueados a partir de una fecha (por defecto hoy)
+   */
+  async listBlackoutDates(
+    agentId: string,
+    from: Date = new Date(),
+  ): Promise<BlackoutDate[]> {
+    return db.agentBlackoutDate.findMany({
+      where: {
+        agentId,
+        date: { gte: new Date(`${toDateKey(from)}T00:00:00.000Z`) },
+      },
+      select: blackoutDateSelect,
+      orderBy: { date: "asc" },
+    });
+  }
+
+  /**
+   * Bloquear un día para el agente o para una de sus propiedades
+   *
+   * @param data.date - Día en formato yyyy-MM-dd
+   * @throws Error si la propiedad no es del agente
+   */
+  async addBlackoutDate(data: {
+    agentId: string;
+    propertyId?: string | null;
+    date: string;
+    reason?: string | null;
+  }) {
+    if (data.propertyId) {
+      await this.assertPropertyOwnership(data.propertyId, data.agentId);
+    }
+
+    return db.agentBlackoutDate.create({
+      data: {
+        agentId: data.agentId,
+        propertyId: data.propertyId ?? null,
+        date: new Date(`${data.date}T00:00:00.000Z`),
+        reason: sanitizeOptional(data.reason),
+      },
+      select: blackoutDateSelect,
+    });
+  }
+
+  /**
+   * Eliminar un día bloqueado
+   *
+   * @throws Error si no existe o no pertenece al agente
+   */
+  async deleteBlackoutDate(id: string, agentId: string) {
+    const result = await db.agentBlackoutDate.deleteMany({
+      where: { id, agentId },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Día bloqueado no encontrado");
+    }
+
+    return result;
+  }
+
+  /**
+   * Cambiar la duración de las visitas a una propiedad
+   * Las citas ya agendadas conservan su duración original
+   *
+   * @throws Error si la duración es inválida o la propiedad no es del agente
+   */
+  async setVisitDuration(agentId: string, propertyId: string, minutes: number) {
+    assertValidVisitDuration(minutes);
+
+    const result = await db.property.updateMany({
+      where: { id: propertyId, agentId },
+      data: { visitDurationMinutes: minutes },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Propiedad no encontrada");
+    }
+
+    return result;
+  }
+
+  /**
+   * Obtener el horario efectivo para agendar visitas a una propiedad
+   * Prioridad: reglas de la propiedad > reglas del agente > horario por defecto
+   *
+   * @returns null si la propiedad no existe
+   */
+  async getScheduleForProperty(
+    propertyId: string,
+  ): Promise<AvailabilitySchedule | null> {
+    const property = await db.property.findUnique({
+      where: { id: propertyId },
+      select: { agentId: true, visitDurationMinutes: true },
+    });
+
+    if (!property) {
+      return null;
+    }
+
+    const today = new Date(`${toDateKey(new Date())}T00:00:00.000Z`);
+
+    const [rules, blackouts] = await Promise.all([
+      db.agentAvailabilityRule.findMany({
+        where: {
+          agentId: property.agentId,
+          OR: [{ propertyId }, { propertyId: null }],
+        },
+        select: availabilityRuleSelect,
+        orderBy: [{ dayOfWeek: "asc" }, { startHour: "asc" }],
+      }),
+      db.agentBlackoutDate.findMany({
+        where: {
+          agentId: property.agentId,
+          OR: [{ propertyId }, { propertyId: null }],
+          date: { gte: today },
+        },
+        select: { date: true },
+        orderBy: { date: "asc" },
+      }),
+    ]);
+
+    const propertyRules = rules.filter(
+      (rule) => rule.propertyId === propertyId,
+    );
+    const agentRules = rules.filter((rule) => rule.propertyId === null);
+
+    const [weeklyRules, source]: [
+      AvailabilityRule[] | WeeklyAvailabilityRule[],
+      AvailabilitySchedule["source"],
+    ] =
+      propertyRules.length > 0
+        ? [propertyRules, "property"]
+        : agentRules.length > 0
+          ? [agentRules, "agent"]
+          : [DEFAULT_AVAILABILITY_RULES, "default"];
+
+    return {
+      weeklyRules: weeklyRules.map(({ dayOfWeek, startHour, endHour }) => ({
+        dayOfWeek,
+        startHour,
+        endHour,
+      })),
+      blackoutDates: [
+        ...new Set(blackouts.map((blackout) => toDateKey(blackout.date))),
+      ],
+      source,
+      visitDurationMinutes: property.visitDurationMinutes,
+    };
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const availabilityRepository = new AvailabilityRepository();
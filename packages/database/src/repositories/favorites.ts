@@ -224,6 +224,31 @@ export class FavoriteRepository {
     return result;
   }
 
+  /**
+   * Obtener los usuarios que marcaron una propiedad como favorita
+   * Usado para notificar bajadas de precio por email
+   *
+   * @example
+   * const users = await favoriteRepository.getPropertyFavoriters(propertyId);
+   * // Retorna: [{ id, name, email }, ...]
+   */
+  async getPropertyFavoriters(propertyId: string) {
+    const favorites = await db.favorite.findMany({
+      where: { propertyId },
+      select: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return favorites.map((favorite) => favorite.user);
+  }
+
   /**
    * Eliminar todos los favoritos de un usuario
    * Usado en onboarding o cuando elimina cuenta
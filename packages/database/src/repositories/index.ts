@@ -4,8 +4,18 @@
  * Export all repositories para fácil importación
  */
 
+export * from "./agent-clients";
 export * from "./appointments";
+export * from "./availability";
 export * from "./favorites";
+export * from "./lead-activities";
+export * from "./listing-lifecycle";
+export * from "./plan-downgrades";
+export * from "./price-history";
 export * from "./properties";
+export * from "./property-drafts";
 export * from "./property-images";
+export * from "./saved-searches";
+export * from "./subscription-trials";
 export * from "./users";
+export * from "./webhook-events";
@@ -0,0 +1,315 @@
+/**
+ * LEAD ACTIVITY REPOSITORY (CRM)
+ *
+ * Historial de actividad y tareas de seguimiento por lead
+ * - Log append-only: llamadas, WhatsApp, emails y notas (nunca se editan)
+ * - Timeline combinado con cambios de etapa y citas del cliente con el agente
+ * - Tareas con fecha límite (se muestran en el dashboard hasta completarlas)
+ *
+ * PATTERN:
+ * - Todas las operaciones verifican que el lead pertenezca al agente
+ */
+
+import type {
+  AppointmentStatus,
+  LeadActivityType,
+  LeadStatus,
+  Prisma,
+} from "@prisma/client";
+import { db } from "../client";
+import { sanitizePlainText } from "../utils/sanitize";
+import {
+  type LeadContact,
+  leadContactSelect,
+  withLeadContact,
+} from "./agent-clients";
+
+/**
+ * Actividad registrada manualmente por el agente
+ */
+export const leadActivitySelect = {
+  id: true,
+  type: true,
+  content: true,
+  createdAt: true,
+  createdBy: {
+    select: { name: true },
+  },
+} satisfies Prisma.LeadActivitySelect;
+
+/**
+ * Tarea de seguimiento
+ */
+export const leadTaskSelect = {
+  id: true,
+  agentClientId: true,
+  title: true,
+  dueAt: true,
+  completedAt: true,
+  createdAt: true,
+} satisfies Prisma.LeadTaskSelect;
+
+export type LeadActivityDetail = Prisma.LeadActivityGetPayload<{
+  select: typeof leadActivitySelect;
+}>;
+
+export type LeadTaskDetail = Prisma.LeadTaskGetPayload<{
+  select: typeof leadTaskSelect;
+}>;
+
+/**
+ * Tarea pendiente con el cliente asociado (widget del dashboard)
+ */
+export type PendingLeadTask = LeadTaskDetail & {
+  agentClient: { contact: LeadContact };
+};
+
+/**
+ * Entrada del timeline de un lead (más reciente primero)
+ */
+export type LeadTimelineEntry =
+  | {
+      kind: "activity";
+      id: string;
+      date: Date;
+      type: LeadActivityType;
+      content: string;
+      authorName: string | null;
+    }
+  | {
+      kind: "stage_change";
+      id: string;
+      date: Date;
+      fromStatus: LeadStatus | null;
+      toStatus: LeadStatus;
+      authorName: string | null;
+    }
+  | {
+      kind: "appointment";
+      id: string;
+      /** Cuándo se agendó la cita */
+      date: Date;
+      scheduledAt: Date;
+      status: AppointmentStatus;
+      propertyTitle: string;
+    };
+
+/**
+ * Verificar que el lead pertenezca al agente
+ * @throws Error si no existe o es de otro agente
+ */
+async function findOwnedLead(
+  client: Prisma.TransactionClient,
+  agentClientId: string,
+  agentId: string,
+) {
+  const lead = await client.agentClient.findFirst({
+    where: { id: agentClientId, agentId },
+    select: { id: true, clientId: true },
+  });
+
+  if (!lead) {
+    throw new Error("Cliente no encontrado");
+  }
+
+  return lead;
+}
+
+/**
+ * Repository para actividad y tareas del CRM
+ */
+export class LeadActivityRepository {
+  /**
+   * Registrar una actividad (append-only)
+   * Las notas también actualizan AgentClient.notes (vista previa en la lista)
+   *
+   * SANITIZATION: content es texto plano (sin HTML)
+   */
+  async addActivity(data: {
+    agentClientId: string;
+    agentId: string;
+    type: LeadActivityType;
+    content: string;
+    createdById: string;
+  }): Promise<LeadActivityDetail> {
+    const content = sanitizePlainText(data.content);
+
+    return db.$transaction(async (tx) => {
+      await findOwnedLead(tx, data.agentClientId, data.agentId);
+
+      const activity = await tx.leadActivity.create({
+        data: {
+          agentClientId: data.agentClientId,
+          type: data.type,
+          content,
+          createdById: data.createdById,
+        },
+        select: leadActivitySelect,
+      });
+
+      if (data.type === "NOTE") {
+        await tx.agentClient.update({
+          where: { id: data.agentClientId },
+          data: { notes: content },
+        });
+      }
+
+      return activity;
+    });
+  }
+
+  /**
+   * Timeline completo de un lead
+   * Combina actividades, cambios de etapa y citas del cliente con el agente
+   */
+  async getTimeline(
+    agentClientId: string,
+    agentId: string,
+  ): Promise<LeadTimelineEntry[]> {
+    const lead = await findOwnedLead(db, agentClientId, agentId);
+
+    const [activities, stageChanges, appointments] = await Promise.all([
+      db.leadActivity.findMany({
+        where: { agentClientId },
+        select: leadActivitySelect,
+      }),
+      db.leadStageChange.findMany({
+        where: { agentClientId },
+        select: {
+          id: true,
+          fromStatus: true,
+          toStatus: true,
+          changedAt: true,
+          changedBy: { select: { name: true } },
+        },
+      }),
+      // Imported contacts have no account, so no appointments
+      lead.clientId
+        ? db.appointment.findMany({
+            where: { agentId, userId: lead.clientId },
+            select: {
+              id: true,
+              scheduledAt: true,
+              status: true,
+              createdAt: true,
+              property: { select: { title: true } },
+            },
+          })
+        : [],
+    ]);
+
+    const entries: LeadTimelineEntry[] = [
+      ...activities.map((activity) => ({
+        kind: "activity" as const,
+        id: activity.id,
+        date: activity.createdAt,
+        type: activity.type,
+        content: activity.content,
+        authorName: activity.createdBy?.name ?? null,
+      })),
+      ...stageChanges.map((change) => ({
+        kind: "stage_change" as const,
+        id: change.id,
+        date: change.changedAt,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        authorName: change.changedBy?.name ?? null,
+      })),
+      ...appointments.map((appointment) => ({
+        kind: "appointment" as const,
+        id: appointment.id,
+        date: appointment.createdAt,
+        scheduledAt: appointment.scheduledAt,
+        status: appointment.status,
+        propertyTitle: appointment.property.title,
+      })),
+    ];
+
+    return entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  /**
+   * Crear una tarea de seguimiento
+   *
+   * SANITIZATION: title es texto plano (sin HTML)
+   */
+  async createTask(data: {
+    agentClientId: string;
+    agentId: string;
+    title: string;
+    dueAt: Date;
+  }): Promise<LeadTaskDetail> {
+    await findOwnedLead(db, data.agentClientId, data.agentId);
+
+    return db.leadTask.create({
+      data: {
+        agentClientId: data.agentClientId,
+        agentId: data.agentId,
+        title: sanitizePlainText(data.title),
+        dueAt: data.dueAt,
+      },
+      select: leadTaskSelect,
+    });
+  }
+
+  /**
+   * Marcar una tarea como completada
+   * @throws Error si la tarea no existe, es de otro agente o ya estaba completada
+   */
+  async completeTask(taskId: string, agentId: string) {
+    const result = await db.leadTask.updateMany({
+      where: { id: taskId, agentId, completedAt: null },
+      data: { completedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Tarea no encontrada");
+    }
+  }
+
+  /**
+   * Tareas de un lead (pendientes primero, por fecha límite)
+   */
+  async listTasksForLead(
+    agentClientId: string,
+    agentId: string,
+  ): Promise<LeadTaskDetail[]> {
+    return db.leadTask.findMany({
+      where: { agentClientId, agentId },
+      select: leadTaskSelect,
+      orderBy: [
+        { completedAt: { sort: "asc", nulls: "first" } },
+        { dueAt: "asc" },
+      ],
+    });
+  }
+
+  /**
+   * Próximas tareas pendientes del agente (incluye vencidas)
+   * Usado en el widget de actividad del dashboard
+   */
+  async listPendingTasks(
+    agentId: string,
+    limit = 5,
+  ): Promise<PendingLeadTask[]> {
+    const tasks = await db.leadTask.findMany({
+      where: { agentId, completedAt: null },
+      select: {
+        ...leadTaskSelect,
+        agentClient: { select: leadContactSelect },
+      },
+      orderBy: { dueAt: "asc" },
+      take: limit,
+    });
+
+    return tasks.map((task) => ({
+      ...task,
+      agentClient: withLeadContact(task.agentClient),
+    }));
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const leadActivityRepository = new LeadActivityRepository();
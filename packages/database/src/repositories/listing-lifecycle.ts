@@ -0,0 +1,307 @@
+/**
+ * LISTING LIFECYCLE REPOSITORY
+ *
+ * Visibilidad de las publicaciones, independiente del estado de mercado
+ * (AVAILABLE/PENDING/SOLD/RENTED):
+ * - DRAFT: publicación programada (publishAt), aún no es pública
+ * - PUBLISHED: visible en listados, mapa, feeds y tendencias
+ * - ARCHIVED: sin renovar en LISTING_ARCHIVE_AFTER_DAYS días, o archivada
+ *   por el agente
+ *
+ * PATTERN:
+ * - Las transiciones automáticas las ejecuta el job de ciclo de vida
+ *   (apps/web/app/api/cron/listing-lifecycle) usando "claims" con
+ *   updateMany condicional: dos ejecuciones simultáneas nunca publican ni
+ *   avisan dos veces la misma propiedad
+ * - Editar la propiedad o confirmar "¿sigue disponible?" la renueva
+ *   (refreshedAt) y reinicia la ventana de archivado
+ */
+
+import type { ListingVisibility, Prisma } from "@prisma/client";
+import { db } from "../client";
+import { type PropertyWithRelations, propertySelect } from "./properties";
+
+/**
+ * Días sin renovar tras los que una publicación se archiva
+ */
+export const LISTING_ARCHIVE_AFTER_DAYS = 60;
+
+/**
+ * Días antes del archivado en que se envía el email "¿sigue disponible?"
+ */
+export const LISTING_RENEWAL_REMINDER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fechas límite de refreshedAt relativas a la hora de ejecución
+ *
+ * @example
+ * getListingLifecycleCutoffs(new Date("2026-03-01"))
+ * // { reminderCutoff: 2026-01-07 (53 días antes), archiveCutoff: 2025-12-31 (60 días antes) }
+ */
+export function getListingLifecycleCutoffs(now: Date) {
+  return {
+    reminderCutoff: new Date(
+      now.getTime() -
+        (LISTING_ARCHIVE_AFTER_DAYS - LISTING_RENEWAL_REMINDER_DAYS) * DAY_MS,
+    ),
+    archiveCutoff: new Date(
+      now.getTime() - LISTING_ARCHIVE_AFTER_DAYS * DAY_MS,
+    ),
+  };
+}
+
+/**
+ * Fecha en que se archivará una publicación si no se renueva
+ */
+export function getListingArchiveDate(refreshedAt: Date): Date {
+  return new Date(refreshedAt.getTime() + LISTING_ARCHIVE_AFTER_DAYS * DAY_MS);
+}
+
+/**
+ * Publicación pendiente del email de renovación (incluye al agente)
+ */
+export const renewalReminderSelect = {
+  id: true,
+  title: true,
+  refreshedAt: true,
+  agent: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.PropertySelect;
+
+export type ListingDueForRenewal = Prisma.PropertyGetPayload<{
+  select: typeof renewalReminderSelect;
+}>;
+
+/**
+ * Campos que reinician la ventana de archivado
+ */
+function refreshedFields(now: Date) {
+  return {
+    refreshedAt: now,
+    renewalReminderSentAt: null,
+    archivedAt: null,
+  };
+}
+
+/**
+ * Repository para el ciclo de vida de las publicaciones
+ */
+export class ListingLifecycleRepository {
+  /**
+   * Publicaciones programadas cuya hora de publicación ya llegó
+   */
+  async findDueForPublish(
+    now: Date,
+    take = 100,
+  ): Promise<PropertyWithRelations[]> {
+    return db.property.findMany({
+      where: { visibility: "DRAFT", publishAt: { lte: now } },
+      select: propertySelect,
+      orderBy: { publishAt: "asc" },
+      take,
+    });
+  }
+
+  /**
+   * Publicar una propiedad programada
+   * Condicional sobre DRAFT: retorna false si otra ejecución ya la publicó
+   */
+  async publishScheduled(id: string, now: Date): Promise<boolean> {
+    const result = await db.property.updateMany({
+      where: { id, visibility: "DRAFT" },
+      data: {
+        visibility: "PUBLISHED",
+        publishedAt: now,
+        ...refreshedFields(now),
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Publicaciones que se archivarán en LISTING_RENEWAL_REMINDER_DAYS días
+   * y aún no recibieron el email "¿sigue disponible?"
+   */
+  async findDueForRenewalReminder(
+    now: Date,
+    take = 100,
+  ): Promise<ListingDueForRenewal[]> {
+    const { reminderCutoff } = getListingLifecycleCutoffs(now);
+
+    return db.property.findMany({
+      where: {
+        visibility: "PUBLISHED",
+        refreshedAt: { lte: reminderCutoff },
+        renewalReminderSentAt: null,
+      },
+      select: renewalReminderSelect,
+      orderBy: { refreshedAt: "asc" },
+      take,
+    });
+  }
+
+  /**
+   * Registrar el email de renovación ANTES de enviarlo
+   * Retorna false si otra ejecución ya lo registró
+   */
+  async claimRenewalReminder(id: string, now: Date): Promise<boolean> {
+    const result = await db.property.updateMany({
+      where: { id, visibility: "PUBLISHED", renewalReminderSentAt: null },
+      data: { renewalReminderSentAt: now },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Liberar un email de renovación cuyo envío falló
+   * (se reintenta en la próxima ejecución)
+   */
+  async releaseRenewalReminder(id: string) {
+    return db.property.updateMany({
+      where: { id },
+      data: { renewalReminderSentAt: null },
+    });
+  }
+
+  /**
+   * Archivar las publicaciones sin renovar en LISTING_ARCHIVE_AFTER_DAYS días
+   *
+   * @returns Cantidad de publicaciones archivadas
+   */
+  async archiveStale(now: Date): Promise<number> {
+    const { archiveCutoff } = getListingLifecycleCutoffs(now);
+
+    const result = await db.property.updateMany({
+      where: { visibility: "PUBLISHED", refreshedAt: { lte: archiveCutoff } },
+      data: { visibility: "ARCHIVED", archivedAt: now },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Renovar una publicación ("sigue disponible"): reinicia la ventana de
+   * archivado y vuelve a publicar las archivadas
+   * Solo el agente dueño o admins pueden renovar
+   */
+  async renew(id: string, currentUserId: string) {
+    return db.$transaction(async (tx) => {
+      const property = await this.findManageable(tx, id, currentUserId);
+
+      if (property.visibility === "DRAFT") {
+        throw new Error("La propiedad aún no está publicada");
+      }
+
+      const now = new Date();
+      return tx.property.update({
+        where: { id },
+        data: {
+          visibility: "PUBLISHED",
+          // A renewed listing is the agent's again: no longer restored on re-upgrade
+          ...(property.visibility === "ARCHIVED" && {
+            publishedAt: now,
+            downgradedAt: null,
+          }),
+          ...refreshedFields(now),
+        },
+        select: { id: true, visibility: true, refreshedAt: true },
+      });
+    });
+  }
+
+  /**
+   * Archivar una publicación manualmente
+   * Solo el agente dueño o admins pueden archivar
+   */
+  async archive(id: string, currentUserId: string) {
+    return db.$transaction(async (tx) => {
+      await this.findManageable(tx, id, currentUserId);
+
+      return tx.property.update({
+        where: { id },
+        data: {
+          visibility: "ARCHIVED",
+          archivedAt: new Date(),
+          publishAt: null,
+          downgradedAt: null,
+        },
+        select: { id: true, visibility: true, refreshedAt: true },
+      });
+    });
+  }
+
+  /**
+   * Programar la publicación (DRAFT hasta publishAt) o publicar ahora (null)
+   * Solo para publicaciones aún no publicadas (programadas)
+   */
+  async schedule(id: string, publishAt: Date | null, currentUserId: string) {
+    return db.$transaction(async (tx) => {
+      const property = await this.findManageable(tx, id, currentUserId);
+
+      if (property.visibility !== "DRAFT") {
+        throw new Error("Solo se pueden programar publicaciones no publicadas");
+      }
+
+      const now = new Date();
+      const isFuture = publishAt !== null && publishAt > now;
+
+      return tx.property.update({
+        where: { id },
+        data: isFuture
+          ? { publishAt }
+          : {
+              visibility: "PUBLISHED",
+              publishAt: null,
+              publishedAt: now,
+              ...refreshedFields(now),
+            },
+        select: { id: true, visibility: true, refreshedAt: true },
+      });
+    });
+  }
+
+  /**
+   * Verifica que el usuario sea el agente dueño o admin (igual que update)
+   */
+  private async findManageable(
+    tx: Prisma.TransactionClient,
+    id: string,
+    currentUserId: string,
+  ): Promise<{ agentId: string; visibility: ListingVisibility }> {
+    const property = await tx.property.findUnique({
+      where: { id },
+      select: { agentId: true, visibility: true },
+    });
+
+    if (!property) {
+      throw new Error("Property not found");
+    }
+
+    const user = await tx.user.findUnique({
+      where: { id: currentUserId },
+      select: { role: true },
+    });
+
+    if (property.agentId !== currentUserId && user?.role !== "ADMIN") {
+      throw new Error(
+        "Unauthorized: Only the property owner or admins can manage the listing",
+      );
+    }
+
+    return property;
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const listingLifecycleRepository = new ListingLifecycleRepository();
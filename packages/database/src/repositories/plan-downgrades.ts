@@ -0,0 +1,276 @@
+/**
+ * PLAN DOWNGRADE REPOSITORY
+ *
+ * Aplicación de los límites del plan cuando una suscripción vence
+ * (apps/web/lib/subscription/downgrade.ts decide QUÉ se aplica):
+ * - Publicaciones sobre el límite → ARCHIVED (downgradedAt)
+ * - Destacadas sobre el límite → sin destacar (featureSuspendedAt)
+ * - Imágenes sobre el límite → ocultas (hiddenAt)
+ *
+ * PATTERN:
+ * - Cada cambio queda marcado: al volver a subir de plan solo se restaura
+ *   lo que quitó el downgrade (no lo que el agente archivó a mano)
+ * - El período de gracia (users.downgradeGraceEndsAt) se inicia y se
+ *   "reclama" con updateMany condicional: dos ejecuciones simultáneas nunca
+ *   avisan ni aplican dos veces el mismo downgrade
+ * - Si aplicar un downgrade reclamado falla, el reclamo se libera
+ *   (releaseEnforcement) y la próxima ejecución lo reintenta
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "../client";
+
+/**
+ * Publicación de un agente con lo necesario para decidir el downgrade
+ */
+export const downgradeListingSelect = {
+  id: true,
+  title: true,
+  visibility: true,
+  isFeatured: true,
+  keepOnDowngrade: true,
+  downgradedAt: true,
+  featureSuspendedAt: true,
+  createdAt: true,
+  images: {
+    select: { id: true, order: true, hiddenAt: true },
+    orderBy: { order: "asc" as const },
+  },
+} satisfies Prisma.PropertySelect;
+
+export type DowngradeListing = Prisma.PropertyGetPayload<{
+  select: typeof downgradeListingSelect;
+}>;
+
+/**
+ * Agente con el período de gracia vencido
+ */
+export const downgradeAgentSelect = {
+  id: true,
+  name: true,
+  email: true,
+  subscriptionTier: true,
+  downgradeGraceEndsAt: true,
+} satisfies Prisma.UserSelect;
+
+export type DowngradeAgent = Prisma.UserGetPayload<{
+  select: typeof downgradeAgentSelect;
+}>;
+
+/**
+ * Cambios a aplicar (IDs de publicaciones e imágenes)
+ */
+export interface DowngradeChanges {
+  archive: string[];
+  unfeature: string[];
+  hideImages: string[];
+}
+
+export interface RestoreChanges {
+  publish: string[];
+  feature: string[];
+  showImages: string[];
+}
+
+/**
+ * Repository para los downgrades de plan
+ */
+export class PlanDowngradeRepository {
+  /**
+   * Iniciar el período de gracia
+   * Retorna false si ya había uno en curso (no se vuelve a avisar)
+   */
+  async startGracePeriod(userId: string, graceEndsAt: Date): Promise<boolean> {
+    const result = await db.user.updateMany({
+      where: { id: userId, downgradeGraceEndsAt: null },
+      data: { downgradeGraceEndsAt: graceEndsAt },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Cancelar el período de gracia (el agente volvió a subir de plan)
+   */
+  async cancelGracePeriod(userId: string) {
+    return db.user.updateMany({
+      where: { id: userId, downgradeGraceEndsAt: { not: null } },
+      data: { downgradeGraceEndsAt: null },
+    });
+  }
+
+  /**
+   * Fin del período de gracia en curso (null si no hay downgrade pendiente)
+   */
+  async findGracePeriodEnd(userId: string): Promise<Date | null> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { downgradeGraceEndsAt: true },
+    });
+
+    return user?.downgradeGraceEndsAt ?? null;
+  }
+
+  /**
+   * Agentes cuyo período de gracia ya terminó
+   */
+  async findDueForEnforcement(now: Date, take = 50): Promise<DowngradeAgent[]> {
+    return db.user.findMany({
+      where: { downgradeGraceEndsAt: { lte: now } },
+      select: downgradeAgentSelect,
+      orderBy: { downgradeGraceEndsAt: "asc" },
+      take,
+    });
+  }
+
+  /**
+   * Reclamar un downgrade vencido ANTES de aplicarlo
+   * Retorna false si otra ejecución ya lo reclamó (o se canceló)
+   */
+  async claimEnforcement(userId: string, now: Date): Promise<boolean> {
+    const result = await db.user.updateMany({
+      where: { id: userId, downgradeGraceEndsAt: { lte: now } },
+      data: { downgradeGraceEndsAt: null },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Liberar un downgrade reclamado que no se pudo aplicar
+   * Restaura el fin de la gracia y la próxima ejecución lo reintenta
+   */
+  async releaseEnforcement(userId: string, graceEndsAt: Date) {
+    return db.user.updateMany({
+      where: { id: userId, downgradeGraceEndsAt: null },
+      data: { downgradeGraceEndsAt: graceEndsAt },
+    });
+  }
+
+  /**
+   * Publicaciones del agente que cuentan para el plan, más las que quitó
+   * un downgrade anterior (candidatas a restaurarse)
+   */
+  async findAgentListings(agentId: string): Promise<DowngradeListing[]> {
+    return db.property.findMany({
+      where: {
+        agentId,
+        OR: [
+          { visibility: { not: "ARCHIVED" } },
+          { downgradedAt: { not: null } },
+        ],
+      },
+      select: downgradeListingSelect,
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Aplicar un downgrade (una sola transacción)
+   */
+  async applyDowngrade(agentId: string, changes: DowngradeChanges, now: Date) {
+    return db.$transaction([
+      db.property.updateMany({
+        where: {
+          id: { in: changes.archive },
+          agentId,
+          visibility: { not: "ARCHIVED" },
+        },
+        data: {
+          visibility: "ARCHIVED",
+          archivedAt: now,
+          downgradedAt: now,
+          publishAt: null,
+        },
+      }),
+      db.property.updateMany({
+        where: { id: { in: changes.unfeature }, agentId, isFeatured: true },
+        data: { isFeatured: false, featureSuspendedAt: now },
+      }),
+      db.propertyImage.updateMany({
+        where: {
+          id: { in: changes.hideImages },
+          property: { agentId },
+          hiddenAt: null,
+        },
+        data: { hiddenAt: now },
+      }),
+    ]);
+  }
+
+  /**
+   * Restaurar lo que quitó un downgrade (una sola transacción)
+   * Las publicaciones restauradas reinician su ventana de archivado
+   */
+  async restore(agentId: string, changes: RestoreChanges, now: Date) {
+    return db.$transaction([
+      db.property.updateMany({
+        where: {
+          id: { in: changes.publish },
+          agentId,
+          downgradedAt: { not: null },
+        },
+        data: {
+          visibility: "PUBLISHED",
+          downgradedAt: null,
+          archivedAt: null,
+          refreshedAt: now,
+          renewalReminderSentAt: null,
+        },
+      }),
+      db.property.updateMany({
+        where: {
+          id: { in: changes.feature },
+          agentId,
+          featureSuspendedAt: { not: null },
+        },
+        data: { isFeatured: true, featureSuspendedAt: null },
+      }),
+      db.propertyImage.updateMany({
+        where: {
+          id: { in: changes.showImages },
+          property: { agentId },
+        },
+        data: { hiddenAt: null },
+      }),
+    ]);
+  }
+
+  /**
+   * Marcar (o desmarcar) una publicación para mantenerla si el plan vence
+   * Solo el agente dueño
+   */
+  async setKeepOnDowngrade(
+    propertyId: string,
+    agentId: string,
+    keep: boolean,
+  ): Promise<boolean> {
+    const result = await db.property.updateMany({
+      where: { id: propertyId, agentId },
+      data: { keepOnDowngrade: keep },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Cantidad de publicaciones marcadas para mantener
+   */
+  async countKept(agentId: string): Promise<number> {
+    return db.property.count({
+      where: {
+        agentId,
+        keepOnDowngrade: true,
+        OR: [
+          { visibility: { not: "ARCHIVED" } },
+          { downgradedAt: { not: null } },
+        ],
+      },
+    });
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const planDowngradeRepository = new PlanDowngradeRepository();
@@ -0,0 +1,107 @@
+/**
+ * PRICE HISTORY REPOSITORY
+ *
+ * Lectura del historial de precios de propiedades
+ *
+ * PATTERN:
+ * - Las escrituras ocurren en PropertyRepository.update (misma transacción)
+ * - Este repository solo expone lecturas serializadas (Decimal → number)
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "../client";
+
+/**
+ * Price history select (campos públicos)
+ */
+export const priceHistorySelect = {
+  id: true,
+  propertyId: true,
+  previousPrice: true,
+  price: true,
+  createdAt: true,
+} satisfies Prisma.PropertyPriceHistorySelect;
+
+type PriceHistoryRow = Prisma.PropertyPriceHistoryGetPayload<{
+  select: typeof priceHistorySelect;
+}>;
+
+/**
+ * Entrada serializable del historial (apta para Client Components)
+ */
+export type SerializedPriceChange = Omit<
+  PriceHistoryRow,
+  "previousPrice" | "price"
+> & {
+  previousPrice: number;
+  price: number;
+};
+
+/**
+ * Historial de una propiedad para el timeline
+ */
+export interface PriceHistory {
+  /** Precio con el que se publicó (null si nunca cambió) */
+  initialPrice: number | null;
+  /** Cambios más recientes, más antiguo primero */
+  changes: SerializedPriceChange[];
+  /** Cambios anteriores a `changes` que no se cargaron */
+  omitted: number;
+}
+
+function serializePriceChange(row: PriceHistoryRow): SerializedPriceChange {
+  return {
+    ...row,
+    previousPrice: Number(row.previousPrice),
+    price: Number(row.price),
+  };
+}
+
+/**
+ * Repository para el historial de precios
+ */
+export class PriceHistoryRepository {
+  /**
+   * Historial de una propiedad (más antiguo primero, para timelines)
+   * Con más de `limit` cambios, el precio inicial se consulta aparte
+   */
+  async listByProperty(propertyId: string, limit = 20): Promise<PriceHistory> {
+    const rows = await db.propertyPriceHistory.findMany({
+      where: { propertyId },
+      select: priceHistorySelect,
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    // Se consultan los más recientes y se invierten para mostrar cronológicamente
+    const changes = rows.reverse().map(serializePriceChange);
+
+    if (changes.length < limit) {
+      return {
+        initialPrice: changes[0]?.previousPrice ?? null,
+        changes,
+        omitted: 0,
+      };
+    }
+
+    const [first, total] = await Promise.all([
+      db.propertyPriceHistory.findFirst({
+        where: { propertyId },
+        select: { previousPrice: true },
+        orderBy: { createdAt: "asc" },
+      }),
+      db.propertyPriceHistory.count({ where: { propertyId } }),
+    ]);
+
+    return {
+      initialPrice: first ? Number(first.previousPrice) : null,
+      changes,
+      omitted: total - changes.length,
+    };
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const priceHistoryRepository = new PriceHistoryRepository();
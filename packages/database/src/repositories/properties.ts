@@ -5,15 +5,32 @@
  * Centraliza lógica de negocio y validaciones
  */
 
-import type {
-    Prisma,
-    PropertyCategory,
-    PropertyStatus,
-    TransactionType,
+import {
+  Prisma,
+  type PropertyCategory,
+  type PropertyStatus,
+  type TransactionType,
+  type VideoPlatform,
 } from "@prisma/client";
 import { cache } from "react";
 import { db } from "../client";
-import { sanitizeHTML, sanitizeOptional, sanitizePlainText } from "../utils/sanitize";
+import {
+  type CursorValue,
+  createdAtKeysetWhere,
+  decodeCursor,
+  encodeCursor,
+} from "../utils/pagination";
+import {
+  sanitizeHTML,
+  sanitizeOptional,
+  sanitizePlainText,
+} from "../utils/sanitize";
+import {
+  buildSimilarityPreferences,
+  SIMILAR_DISTANCE_RADIUS_KM,
+  SIMILAR_PRICE_TOLERANCE,
+  scoreSimilarProperty,
+} from "../utils/similarity";
 
 /**
  * Property select con relaciones incluidas
@@ -26,6 +43,8 @@ export const propertySelect = {
   transactionType: true,
   category: true,
   status: true,
+  visibility: true,
+  publishAt: true,
   bedrooms: true,
   bathrooms: true,
   area: true,
@@ -40,6 +59,7 @@ export const propertySelect = {
   createdAt: true,
   updatedAt: true,
   images: {
+    where: { hiddenAt: null }, // Hidden by a plan downgrade
     select: {
       id: true,
       url: true,
@@ -74,6 +94,24 @@ export type PropertyWithRelations = Prisma.PropertyGetPayload<{
   select: typeof propertySelect;
 }>;
 
+/**
+ * Video de una propiedad (el orden es el del array)
+ */
+export interface PropertyVideoInput {
+  url: string;
+  platform: VideoPlatform;
+  title?: string | null;
+}
+
+/**
+ * Resultado de updateWithVideos: previousPrice permite avisar bajadas de
+ * precio sin volver a leer la propiedad fuera de la transacción
+ */
+export interface PropertyUpdateResult {
+  property: PropertyWithRelations;
+  previousPrice: number;
+}
+
 /**
  * Filtros para búsqueda de propiedades
  * transactionType y category pueden ser arrays para multi-select
@@ -92,37 +130,251 @@ export interface PropertyFilters {
   state?: string;
   agentId?: string;
   search?: string;
+  /** IDs canónicos de amenidades (ver apps/web/lib/constants/amenities.ts) */
+  amenities?: string[];
+  /** "all" (default): todas las amenidades; "any": al menos una */
+  amenitiesMatch?: "all" | "any";
+  /** Área dibujada en el mapa: vértices [longitud, latitud] (sin cerrar) */
+  polygon?: GeoPolygon;
 }
 
 /**
- * Internal implementation of list query
- * Wrapped with React.cache() for request-level deduplication
+ * Orden de los listados de propiedades
+ * - newest: más recientes primero (default sin búsqueda)
+ * - price_per_m2: precio por m² ascendente (sin área al final)
+ * - most_viewed: más visitas registradas en PropertyView
+ * - distance: más cercanas a un punto (centro del mapa); requiere origin
+ *
+ * Con búsqueda full-text y sin orden explícito se ordena por relevancia
+ */
+export type PropertySort =
+  | "newest"
+  | "price_asc"
+  | "price_desc"
+  | "price_per_m2"
+  | "area_desc"
+  | "most_viewed"
+  | "distance";
+
+/**
+ * Órdenes que Prisma puede expresar (el resto se resuelve con SQL)
+ * id como desempate estable para la paginación
+ */
+const PROPERTY_SORT_ORDER = {
+  newest: [{ createdAt: "desc" }, { id: "desc" }],
+  price_asc: [{ price: "asc" }, { id: "asc" }],
+  price_desc: [{ price: "desc" }, { id: "desc" }],
+  area_desc: [
+    { area: { sort: "desc", nulls: "last" } },
+    { createdAt: "desc" },
+    { id: "desc" },
+  ],
+  most_viewed: [
+    { views: { _count: "desc" } },
+    { createdAt: "desc" },
+    { id: "desc" },
+  ],
+} satisfies Partial<
+  Record<PropertySort, Prisma.PropertyOrderByWithRelationInput[]>
+>;
+
+type PrismaPropertySort = keyof typeof PROPERTY_SORT_ORDER;
+
+/**
+ * Órdenes con paginación keyset: (createdAt, id) y (price, id)
+ * El resto (relevancia, precio/m², superficie, visitas, distancia) usa un
+ * cursor de offset
+ */
+type KeysetPropertySort = "newest" | "price_asc" | "price_desc";
+
+function isKeysetSort(sort: PrismaPropertySort): sort is KeysetPropertySort {
+  return sort === "newest" || sort === "price_asc" || sort === "price_desc";
+}
+
+/**
+ * WHERE de keyset: filas estrictamente posteriores a la última vista
+ * Retorna null si el cursor no es válido
+ */
+function propertyKeysetWhere(
+  sort: KeysetPropertySort,
+  values: CursorValue[],
+): Prisma.PropertyWhereInput | null {
+  if (sort === "newest") return createdAtKeysetWhere(values);
+
+  const [price, id] = values;
+  if (typeof price !== "string" || typeof id !== "string") return null;
+  if (!Number.isFinite(Number(price))) return null;
+
+  return sort === "price_asc"
+    ? { OR: [{ price: { gt: price } }, { price, id: { gt: id } }] }
+    : { OR: [{ price: { lt: price } }, { price, id: { lt: id } }] };
+}
+
+/**
+ * Cursor de la última fila de una página keyset
+ * price como string para no perder precisión del Decimal
+ */
+function propertyKeysetCursor(
+  sort: KeysetPropertySort,
+  last: { id: string; createdAt: Date; price: Prisma.Decimal },
+): string {
+  return sort === "newest"
+    ? encodeCursor(sort, [last.createdAt.toISOString(), last.id])
+    : encodeCursor(sort, [last.price.toString(), last.id]);
+}
+
+/**
+ * Clave de los cursores de offset (distinta por orden)
  */
-async function _getPropertiesList(params: {
+function offsetCursorKey(sort: string): string {
+  return `offset:${sort}`;
+}
+
+export interface PropertiesPageParams {
   filters?: PropertyFilters;
   skip?: number;
   take?: number;
-}): Promise<{ properties: SerializedProperty[]; total: number }> {
-  const { filters = {}, skip = 0, take = 20 } = params;
+  sort?: PropertySort;
+  /** Punto de referencia para sort = "distance": [longitud, latitud] */
+  origin?: GeoPoint;
+  /**
+   * Cursor de la página anterior (nextCursor); tiene prioridad sobre skip
+   * Un cursor de otro orden se ignora
+   */
+  cursor?: string | null;
+}
+
+/**
+ * Página de propiedades con cursor de la siguiente página
+ *
+ * - withTotal = false evita el count() (scroll infinito)
+ * - Órdenes keyset: take + 1 filas para saber si hay más, sin count()
+ */
+async function queryPropertiesPage(
+  params: PropertiesPageParams & { withTotal: boolean },
+): Promise<{
+  properties: SerializedProperty[];
+  total: number | null;
+  nextCursor: string | null;
+}> {
+  const { filters = {}, take = 20, sort, origin, cursor, withTotal } = params;
+  const search = filters.search?.trim() || undefined;
+
+  const isRelevance = Boolean(search && !sort);
+  const isComputed =
+    sort === "price_per_m2" || (sort === "distance" && Boolean(origin));
+  const orderKey: PrismaPropertySort =
+    sort && sort in PROPERTY_SORT_ORDER
+      ? (sort as PrismaPropertySort)
+      : "newest";
+  const cursorSort = isRelevance
+    ? "relevance"
+    : isComputed && sort
+      ? sort
+      : orderKey;
+
+  const offsetValue = decodeCursor(cursor, offsetCursorKey(cursorSort))?.[0];
+  const skip =
+    typeof offsetValue === "number" && offsetValue >= 0
+      ? Math.floor(offsetValue)
+      : (params.skip ?? 0);
+
+  // Full-text search, polygon and computed orders: filtered, ordered and
+  // paged in a single SQL query (offset cursor)
+  if (isComputed || hasSqlFilters(filters)) {
+    const orderBy =
+      isRelevance && search
+        ? relevanceSqlOrder(search)
+        : sort === "distance" && origin
+          ? distanceSqlOrder(origin)
+          : PROPERTY_SQL_ORDER[
+              sort === "price_per_m2" ? "price_per_m2" : orderKey
+            ];
+
+    const page = await getSqlPropertiesPage({
+      where: buildPropertySqlWhere(filters),
+      orderBy,
+      search,
+      skip,
+      take,
+      withTotal,
+    });
+    return {
+      properties: page.properties,
+      total: page.total,
+      nextCursor: page.hasMore
+        ? encodeCursor(offsetCursorKey(cursorSort), [skip + take])
+        : null,
+    };
+  }
 
   // Use centralized filter builder (extracted to prevent duplication)
   const where = buildPropertyWhereClause(filters);
 
-  const [properties, total] = await Promise.all([
+  const keysetValues = isKeysetSort(orderKey)
+    ? decodeCursor(cursor, orderKey)
+    : null;
+  const keysetWhere =
+    isKeysetSort(orderKey) && keysetValues
+      ? propertyKeysetWhere(orderKey, keysetValues)
+      : null;
+
+  const [rows, total] = await Promise.all([
     db.property.findMany({
-      where,
+      where: keysetWhere ? { AND: [where, keysetWhere] } : where,
       select: propertySelect,
-      skip,
-      take,
-      orderBy: { createdAt: "desc" },
+      ...(!keysetWhere && { skip }),
+      take: take + 1,
+      orderBy: PROPERTY_SORT_ORDER[orderKey],
     }),
-    db.property.count({ where }),
+    withTotal ? db.property.count({ where }) : null,
   ]);
 
+  const hasMore = rows.length > take;
+  const properties = rows.slice(0, take);
+  const last = properties.at(-1);
+
+  const nextCursor =
+    !hasMore || !last
+      ? null
+      : isKeysetSort(orderKey)
+        ? propertyKeysetCursor(orderKey, last)
+        : encodeCursor(offsetCursorKey(orderKey), [skip + take]);
+
   // Serialize properties (Decimal → number) for client compatibility
-  const serialized = serializeProperties(properties);
+  return { properties: serializeProperties(properties), total, nextCursor };
+}
 
-  return { properties: serialized, total };
+/**
+ * Internal implementation of list query
+ * Wrapped with React.cache() for request-level deduplication
+ */
+async function _getPropertiesList(params: PropertiesPageParams): Promise<{
+  properties: SerializedProperty[];
+  total: number;
+  nextCursor: string | null;
+}> {
+  const { properties, total, nextCursor } = await queryPropertiesPage({
+    ...params,
+    withTotal: true,
+  });
+
+  return { properties, total: total ?? 0, nextCursor };
+}
+
+/**
+ * Internal implementation of the cursor page query (no count)
+ * Wrapped with React.cache() for request-level deduplication
+ */
+async function _getPropertiesCursorPage(
+  params: Omit<PropertiesPageParams, "skip">,
+): Promise<{ properties: SerializedProperty[]; nextCursor: string | null }> {
+  const { properties, nextCursor } = await queryPropertiesPage({
+    ...params,
+    withTotal: false,
+  });
+
+  return { properties, nextCursor };
 }
 
 /**
@@ -140,6 +392,16 @@ async function _getPropertiesList(params: {
  */
 export const getPropertiesList = cache(_getPropertiesList);
 
+/**
+ * Siguiente página por cursor, sin count() (scroll infinito)
+ *
+ * @example
+ * const { properties, nextCursor } = await getPropertiesCursorPage({
+ *   filters, sort, cursor: previousPage.nextCursor, take: 12,
+ * });
+ */
+export const getPropertiesCursorPage = cache(_getPropertiesCursorPage);
+
 /**
  * Internal implementation of findById
  * Wrapped with React.cache() for request-level deduplication
@@ -216,6 +478,20 @@ async function _findInBoundsInternal(params: {
     );
   }
 
+  // Full-text search / polygon: same bounds and filters in SQL
+  if (hasSqlFilters(filters)) {
+    const page = await getSqlPropertiesPage({
+      where: buildPropertySqlWhere(filters, {
+        bounds: { minLatitude, maxLatitude, minLongitude, maxLongitude },
+      }),
+      orderBy: PROPERTY_SQL_ORDER.newest,
+      skip,
+      take,
+      withTotal: true,
+    });
+    return { properties: page.properties, total: page.total ?? 0 };
+  }
+
   // Use centralized filter builder with geographic bounding box
   const where = buildPropertyWhereClause(filters, {
     latitude: {
@@ -252,12 +528,218 @@ async function _findInBoundsInternal(params: {
  */
 export const findInBoundsCached = cache(_findInBoundsInternal);
 
+/**
+ * Cuántos candidatos se cargan por cada fuente (cercanas / por atributos)
+ */
+const SIMILAR_CANDIDATE_POOL = 40;
+
+/**
+ * Cuánto historial del usuario se usa para sus preferencias
+ */
+const SIMILAR_HISTORY_LIMIT = 50;
+
+const similarityHistorySelect = {
+  category: true,
+  transactionType: true,
+  price: true,
+  bedrooms: true,
+  amenities: true,
+} as const;
+
+/**
+ * Internal implementation of getSimilarProperties
+ * Wrapped with React.cache() for request-level deduplication
+ *
+ * 1. Candidatos: cercanas (PostGIS, findNearby) + misma categoría o rango
+ *    de precio y mismo tipo de transacción
+ * 2. Preferencias del usuario (favoritos + vistas), si hay sesión
+ * 3. Orden por score de similitud (ver utils/similarity.ts)
+ */
+async function _getSimilarProperties(params: {
+  propertyId: string;
+  userId?: string | null;
+  take?: number;
+}): Promise<SerializedProperty[]> {
+  const { propertyId, userId, take = 8 } = params;
+
+  const target = await findByIdCached(propertyId);
+  if (!target) return [];
+
+  const hasLocation = target.latitude !== null && target.longitude !== null;
+
+  const [nearby, related, favorites, views] = await Promise.all([
+    hasLocation
+      ? propertyRepository.findNearby({
+          latitude: target.latitude as number,
+          longitude: target.longitude as number,
+          radiusKm: SIMILAR_DISTANCE_RADIUS_KM,
+          take: SIMILAR_CANDIDATE_POOL,
+        })
+      : Promise.resolve([]),
+    db.property.findMany({
+      where: {
+        status: "AVAILABLE",
+        visibility: "PUBLISHED",
+        id: { not: propertyId },
+        transactionType: target.transactionType,
+        OR: [
+          ...(target.category ? [{ category: target.category }] : []),
+          {
+            price: {
+              gte: target.price * (1 - SIMILAR_PRICE_TOLERANCE),
+              lte: target.price * (1 + SIMILAR_PRICE_TOLERANCE),
+            },
+          },
+        ],
+      },
+      select: propertySelect,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: SIMILAR_CANDIDATE_POOL,
+    }),
+    userId
+      ? db.favorite.findMany({
+          where: { userId },
+          select: { property: { select: similarityHistorySelect } },
+          orderBy: { createdAt: "desc" },
+          take: SIMILAR_HISTORY_LIMIT,
+        })
+      : Promise.resolve([]),
+    userId
+      ? db.propertyView.findMany({
+          where: { userId },
+          select: { property: { select: similarityHistorySelect } },
+          orderBy: { viewedAt: "desc" },
+          take: SIMILAR_HISTORY_LIMIT,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const toAttributes = (row: {
+    property: Prisma.PropertyGetPayload<{
+      select: typeof similarityHistorySelect;
+    }>;
+  }) => ({
+    ...row.property,
+    price: row.property.price.toNumber(),
+  });
+
+  const preferences = buildSimilarityPreferences({
+    favorites: favorites.map(toAttributes),
+    views: views.map(toAttributes),
+  });
+
+  const distances = new Map(
+    nearby.map((property) => [property.id, property.distanceKm]),
+  );
+  const candidates = new Map<string, SerializedProperty>();
+  for (const property of [...nearby, ...related]) {
+    if (property.id !== propertyId && !candidates.has(property.id)) {
+      candidates.set(property.id, serializeProperty(property));
+    }
+  }
+
+  return [...candidates.values()]
+    .map((candidate) => ({
+      candidate,
+      score: scoreSimilarProperty(target, candidate, {
+        distanceKm: distances.get(candidate.id) ?? null,
+        preferences,
+      }),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, take)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Propiedades similares para el detalle ("También te puede interesar")
+ *
+ * CACHE STRATEGY: Request-level deduplication (React.cache), igual que
+ * findByIdCached; el userId forma parte de la clave
+ *
+ * @example
+ * const similar = await getSimilarProperties({ propertyId, userId: user?.id });
+ */
+export const getSimilarProperties = cache(_getSimilarProperties);
+
+/**
+ * Propiedad en tendencia con su actividad reciente (últimos 14 días)
+ */
+export type TrendingProperty = SerializedProperty & {
+  /** Score con decaimiento temporal (vida media de 48h) */
+  trendingScore: number;
+  viewCount: number;
+  shareCount: number;
+  favoriteCount: number;
+  appointmentCount: number;
+};
+
+/**
+ * Internal implementation of findTrending
+ * Wrapped with React.cache() for request-level deduplication
+ *
+ * Lee la vista materializada property_trending_scores
+ * (manual_trending_scores.sql); el estado se vuelve a comprobar aquí porque
+ * la vista solo se actualiza en cada refresh (igual que la visibilidad)
+ */
+async function _findTrending(take: number): Promise<TrendingProperty[]> {
+  const rows = await db.$queryRaw<
+    {
+      property_id: string;
+      score: number;
+      view_count: number;
+      share_count: number;
+      favorite_count: number;
+      appointment_count: number;
+    }[]
+  >`
+    SELECT t.property_id, t.score, t.view_count, t.share_count,
+      t.favorite_count, t.appointment_count
+    FROM property_trending_scores t
+    JOIN properties p ON p.id = t.property_id
+    WHERE p.status = 'AVAILABLE' AND p.visibility = 'PUBLISHED'
+    ORDER BY t.score DESC, t.property_id DESC
+    LIMIT ${take}
+  `;
+
+  const properties = await loadPropertiesPage(
+    rows.map((row) => row.property_id),
+  );
+  const byId = new Map(rows.map((row) => [row.property_id, row]));
+
+  return properties.flatMap((property) => {
+    const row = byId.get(property.id);
+    return row
+      ? [
+          {
+            ...property,
+            trendingScore: Number(row.score),
+            viewCount: Number(row.view_count),
+            shareCount: Number(row.share_count),
+            favoriteCount: Number(row.favorite_count),
+            appointmentCount: Number(row.appointment_count),
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Cached version of findTrending using React.cache()
+ *
+ * BENEFIT: Deduplicates the homepage trending query within same request
+ */
+export const findTrendingCached = cache(_findTrending);
+
 /**
  * FILTER BUILDER HELPER
  *
  * Consolidates filter construction logic used in multiple methods
  * Prevents duplication and inconsistency
  * Supports both read queries (with geographic filters) and analysis queries
+ *
+ * PUBLIC: siempre restringe a visibility = PUBLISHED (programadas y
+ * archivadas nunca aparecen en listados, mapa ni histogramas)
  */
 function buildPropertyWhereClause(
   filters: PropertyFilters = {},
@@ -265,6 +747,7 @@ function buildPropertyWhereClause(
 ): Prisma.PropertyWhereInput {
   const where: Prisma.PropertyWhereInput = {
     ...additionalConditions,
+    visibility: "PUBLISHED",
     ...(filters.transactionType && {
       transactionType: Array.isArray(filters.transactionType)
         ? { in: filters.transactionType }
@@ -294,18 +777,448 @@ function buildPropertyWhereClause(
     }),
     ...(filters.minArea && { area: { gte: filters.minArea } }),
     ...(filters.maxArea && { area: { lte: filters.maxArea } }),
-    ...(filters.search && {
-      OR: [
-        { title: { contains: filters.search, mode: "insensitive" } },
-        { description: { contains: filters.search, mode: "insensitive" } },
-        { address: { contains: filters.search, mode: "insensitive" } },
-      ],
+    ...(filters.amenities?.length && {
+      amenities:
+        filters.amenitiesMatch === "any"
+          ? { hasSome: filters.amenities }
+          : { hasEvery: filters.amenities },
     }),
+    // filters.search y filters.polygon se resuelven en SQL (ver buildPropertySqlWhere)
   };
 
   return where;
 }
 
+/**
+ * FULL-TEXT SEARCH
+ *
+ * filters.search usa la columna generada properties.search_vector
+ * (manual_full_text_search.sql) en lugar de ILIKE:
+ * - Configuración "es_unaccent": stemming español + unaccent
+ *   ("baño" encuentra "banos", "casas" encuentra "casa")
+ * - websearch_to_tsquery: acepta "comillas", OR y -exclusión como un buscador
+ * - Índice GIN: no recorre la tabla completa como ILIKE '%x%'
+ * - Pesos: título (A) > dirección/ciudad (B) > descripción (C)
+ */
+
+/**
+ * Marcadores de ts_headline (caracteres de uso privado: no aparecen en el texto
+ * y no se confunden con HTML de la descripción)
+ */
+const SNIPPET_START = "\uE000";
+const SNIPPET_STOP = "\uE001";
+
+const SNIPPET_OPTIONS = `StartSel="${SNIPPET_START}", StopSel="${SNIPPET_STOP}", MaxWords=25, MinWords=10, ShortWord=2, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Fragmento de un snippet de búsqueda
+ * match = true para los términos que coinciden con la búsqueda
+ */
+export interface SearchSnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * GEO SEARCH (PostGIS)
+ *
+ * properties.location es un geography(Point, 4326) generado a partir de
+ * latitude/longitude (manual_postgis.sql), con índice GiST:
+ * - Radio real en metros con ST_DWithin, ordenado por distancia (findNearby)
+ * - Polígono dibujado por el usuario con ST_Covers (filters.polygon)
+ */
+
+/**
+ * Vértice de un polígono: [longitud, latitud] (orden GeoJSON)
+ */
+export type GeoPoint = [longitude: number, latitude: number];
+
+export type GeoPolygon = GeoPoint[];
+
+/**
+ * Límites de vértices de un polígono dibujado
+ */
+const MIN_POLYGON_POINTS = 3;
+const MAX_POLYGON_POINTS = 50;
+
+/**
+ * Polígono → WKT, cerrando el anillo si hace falta
+ * Exige MIN_POLYGON_POINTS vértices distintos sin contar el de cierre:
+ * un anillo como A;B;A no es un área y PostGIS lo rechaza
+ *
+ * @example
+ * polygonToWkt([[-79, -2.9], [-78.9, -2.9], [-78.9, -2.8]])
+ * // "POLYGON((-79 -2.9, -78.9 -2.9, -78.9 -2.8, -79 -2.9))"
+ */
+export function polygonToWkt(polygon: GeoPolygon): string {
+  for (const [longitude, latitude] of polygon) {
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      throw new Error("Invalid polygon coordinates");
+    }
+  }
+
+  const first = polygon[0];
+  const last = polygon[polygon.length - 1];
+  const open =
+    first && last && first[0] === last[0] && first[1] === last[1]
+      ? polygon.slice(0, -1)
+      : polygon;
+  const distinct = new Set(open.map(([lng, lat]) => `${lng} ${lat}`));
+
+  if (
+    !first ||
+    distinct.size < MIN_POLYGON_POINTS ||
+    open.length > MAX_POLYGON_POINTS
+  ) {
+    throw new Error(
+      `Polygon must have between ${MIN_POLYGON_POINTS} and ${MAX_POLYGON_POINTS} points`,
+    );
+  }
+
+  const ring = [...open, first];
+
+  return `POLYGON((${ring.map(([lng, lat]) => `${lng} ${lat}`).join(", ")}))`;
+}
+
+/**
+ * Condiciones extra de buildPropertySqlWhere (como additionalConditions)
+ */
+interface PropertySqlConditions {
+  /** Estado por defecto (filters.status tiene prioridad) */
+  status?: PropertyStatus;
+  /** Viewport del mapa */
+  bounds?: {
+    minLatitude: number;
+    maxLatitude: number;
+    minLongitude: number;
+    maxLongitude: number;
+  };
+}
+
+/**
+ * Filtros que Prisma no puede expresar: con ellos la consulta entera
+ * (filtros, orden, paginación y total) se resuelve en SQL
+ */
+function hasSqlFilters(filters: PropertyFilters): boolean {
+  return Boolean(filters.search?.trim() || filters.polygon?.length);
+}
+
+/**
+ * Escapa los comodines de LIKE (mismo resultado que contains de Prisma)
+ */
+function likeContains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Equivalente SQL de buildPropertyWhereClause (alias p = properties)
+ * Incluye lo que Prisma no puede expresar, en la misma consulta que el
+ * resto de filtros:
+ * - filters.search contra el índice full-text (search_vector)
+ * - filters.polygon contra el índice PostGIS; ST_MakeValid corrige
+ *   polígonos que se cruzan a sí mismos (un "8" dibujado a mano)
+ */
+function buildPropertySqlWhere(
+  filters: PropertyFilters = {},
+  conditions: PropertySqlConditions = {},
+): Prisma.Sql {
+  const clauses: Prisma.Sql[] = [Prisma.sql`p.visibility = 'PUBLISHED'`];
+
+  const transactionTypes = toArray(filters.transactionType);
+  if (transactionTypes.length > 0) {
+    clauses.push(
+      Prisma.sql`p.transaction_type::text = ANY(${transactionTypes})`,
+    );
+  }
+  const categories = toArray(filters.category);
+  if (categories.length > 0) {
+    clauses.push(Prisma.sql`p.category::text = ANY(${categories})`);
+  }
+
+  const status = filters.status ?? conditions.status;
+  if (status) clauses.push(Prisma.sql`p.status::text = ${status}`);
+  if (filters.agentId)
+    clauses.push(Prisma.sql`p.agent_id = ${filters.agentId}`);
+  if (filters.city) {
+    clauses.push(Prisma.sql`p.city ILIKE ${likeContains(filters.city)}`);
+  }
+  if (filters.state) {
+    clauses.push(Prisma.sql`p.state ILIKE ${likeContains(filters.state)}`);
+  }
+  if (filters.bedrooms) {
+    clauses.push(Prisma.sql`p.bedrooms >= ${filters.bedrooms}`);
+  }
+  if (filters.bathrooms) {
+    clauses.push(Prisma.sql`p.bathrooms >= ${filters.bathrooms}`);
+  }
+  if (filters.minPrice)
+    clauses.push(Prisma.sql`p.price >= ${filters.minPrice}`);
+  if (filters.maxPrice)
+    clauses.push(Prisma.sql`p.price <= ${filters.maxPrice}`);
+  if (filters.minArea) clauses.push(Prisma.sql`p.area >= ${filters.minArea}`);
+  if (filters.maxArea) clauses.push(Prisma.sql`p.area <= ${filters.maxArea}`);
+  if (filters.amenities?.length) {
+    clauses.push(
+      filters.amenitiesMatch === "any"
+        ? Prisma.sql`p.amenities && ${filters.amenities}::text[]`
+        : Prisma.sql`p.amenities @> ${filters.amenities}::text[]`,
+    );
+  }
+
+  if (conditions.bounds) {
+    const { minLatitude, maxLatitude, minLongitude, maxLongitude } =
+      conditions.bounds;
+    clauses.push(
+      Prisma.sql`p.latitude BETWEEN ${minLatitude} AND ${maxLatitude}`,
+      Prisma.sql`p.longitude BETWEEN ${minLongitude} AND ${maxLongitude}`,
+    );
+  }
+
+  if (filters.polygon?.length) {
+    const wkt = polygonToWkt(filters.polygon);
+    clauses.push(Prisma.sql`ST_Covers(
+      ST_MakeValid(ST_GeomFromText(${wkt}, 4326))::geography,
+      p.location
+    )`);
+  }
+
+  const search = filters.search?.trim();
+  if (search) {
+    clauses.push(
+      Prisma.sql`p.search_vector @@ websearch_to_tsquery('public.es_unaccent', ${search})`,
+    );
+  }
+
+  return Prisma.join(clauses, " AND ");
+}
+
+/**
+ * ORDER BY en SQL de cada orden (id como desempate estable)
+ */
+const PROPERTY_SQL_ORDER = {
+  newest: Prisma.sql`p.created_at DESC, p.id DESC`,
+  price_asc: Prisma.sql`p.price ASC, p.id ASC`,
+  price_desc: Prisma.sql`p.price DESC, p.id DESC`,
+  area_desc: Prisma.sql`p.area DESC NULLS LAST, p.created_at DESC, p.id DESC`,
+  most_viewed: Prisma.sql`(
+    SELECT count(*) FROM property_views v WHERE v.property_id = p.id
+  ) DESC, p.created_at DESC, p.id DESC`,
+  // Propiedades sin área al final
+  price_per_m2: Prisma.sql`p.price / NULLIF(p.area, 0) ASC NULLS LAST, p.created_at DESC, p.id DESC`,
+} satisfies Record<PrismaPropertySort | "price_per_m2", Prisma.Sql>;
+
+/**
+ * Relevancia full-text (ts_rank_cd), las más recientes primero en empate
+ */
+function relevanceSqlOrder(search: string): Prisma.Sql {
+  return Prisma.sql`ts_rank_cd(
+    p.search_vector,
+    websearch_to_tsquery('public.es_unaccent', ${search})
+  ) DESC, p.created_at DESC, p.id DESC`;
+}
+
+/**
+ * Distancia desde origin (propiedades sin ubicación al final)
+ */
+function distanceSqlOrder(origin: GeoPoint): Prisma.Sql {
+  return Prisma.sql`ST_Distance(
+    p.location,
+    ST_SetSRID(ST_MakePoint(${origin[0]}, ${origin[1]}), 4326)::geography
+  ) ASC NULLS LAST, p.created_at DESC, p.id DESC`;
+}
+
+/**
+ * Convierte la salida de ts_headline en segmentos serializables
+ * El cliente resalta los segmentos con match sin usar dangerouslySetInnerHTML
+ *
+ * @example
+ * parseSearchHeadline("Casa con \uE000baño\uE001 privado")
+ * // [{ text: "Casa con ", match: false }, { text: "baño", match: true }, { text: " privado", match: false }]
+ */
+export function parseSearchHeadline(headline: string): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = [];
+
+  for (const [index, part] of headline.split(SNIPPET_START).entries()) {
+    const [matched, rest] =
+      index === 0 ? [null, part] : part.split(SNIPPET_STOP, 2);
+
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Snippets de la descripción con los términos buscados resaltados
+ * Solo para la página actual (ts_headline es costoso: re-procesa el texto)
+ */
+async function getSearchSnippets(
+  ids: string[],
+  search: string,
+): Promise<Map<string, SearchSnippetSegment[]>> {
+  if (ids.length === 0) return new Map();
+
+  // La descripción admite HTML: se eliminan las etiquetas antes del headline
+  const rows = await db.$queryRaw<{ id: string; headline: string | null }[]>`
+    SELECT
+      p.id,
+      ts_headline(
+        'public.es_unaccent',
+        regexp_replace(coalesce(p.description, ''), '<[^>]*>', ' ', 'g'),
+        websearch_to_tsquery('public.es_unaccent', ${search}),
+        ${SNIPPET_OPTIONS}
+      ) AS headline
+    FROM properties p
+    WHERE p.id = ANY(${ids})
+  `;
+
+  const snippets = new Map<string, SearchSnippetSegment[]>();
+  for (const row of rows) {
+    if (!row.headline) continue;
+    const segments = parseSearchHeadline(row.headline);
+    // Sin coincidencias en la descripción (p. ej. solo en el título): sin snippet
+    if (segments.some((segment) => segment.match)) {
+      snippets.set(row.id, segments);
+    }
+  }
+
+  return snippets;
+}
+
+/**
+ * Agrega el snippet de búsqueda a las propiedades que lo tienen
+ */
+function withSearchSnippets(
+  properties: SerializedProperty[],
+  snippets: Map<string, SearchSnippetSegment[]>,
+): SerializedProperty[] {
+  return properties.map((property) => {
+    const snippet = snippets.get(property.id);
+    return snippet ? { ...property, searchSnippet: snippet } : property;
+  });
+}
+
+/**
+ * Carga las propiedades de una página respetando el orden de pageIds
+ * (y sus snippets si hay búsqueda)
+ */
+async function loadPropertiesPage(
+  pageIds: string[],
+  search?: string,
+): Promise<SerializedProperty[]> {
+  if (pageIds.length === 0) return [];
+
+  const [properties, snippets] = await Promise.all([
+    db.property.findMany({
+      where: { id: { in: pageIds } },
+      select: propertySelect,
+    }),
+    search ? getSearchSnippets(pageIds, search) : new Map(),
+  ]);
+
+  const byId = new Map(properties.map((property) => [property.id, property]));
+  const ordered = pageIds.flatMap((id) => {
+    const property = byId.get(id);
+    return property ? [serializeProperty(property)] : [];
+  });
+
+  return withSearchSnippets(ordered, snippets);
+}
+
+/**
+ * Página filtrada, ordenada y paginada por PostgreSQL en una sola consulta
+ * (más el count(*) si withTotal); solo se cargan las propiedades de la página
+ * take + 1 filas para saber si hay más sin depender del total
+ */
+async function getSqlPropertiesPage(params: {
+  where: Prisma.Sql;
+  orderBy: Prisma.Sql;
+  search?: string;
+  skip: number;
+  take: number;
+  withTotal: boolean;
+}): Promise<{
+  properties: SerializedProperty[];
+  total: number | null;
+  hasMore: boolean;
+}> {
+  const { where, orderBy, search, skip, take, withTotal } = params;
+
+  const [rows, total] = await Promise.all([
+    db.$queryRaw<{ id: string }[]>`
+      SELECT p.id
+      FROM properties p
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${take + 1} OFFSET ${skip}
+    `,
+    withTotal ? countSqlProperties(where) : null,
+  ]);
+
+  const pageIds = rows.slice(0, take).map((row) => row.id);
+
+  return {
+    properties: await loadPropertiesPage(pageIds, search),
+    total,
+    hasMore: rows.length > take,
+  };
+}
+
+async function countSqlProperties(where: Prisma.Sql): Promise<number> {
+  const [row] = await db.$queryRaw<{ count: number }[]>`
+    SELECT count(*)::int AS count
+    FROM properties p
+    WHERE ${where}
+  `;
+
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Precio mínimo y máximo de las propiedades que cumplen el WHERE
+ */
+async function getSqlPriceRange(
+  where: Prisma.Sql,
+): Promise<{ min: Prisma.Decimal | null; max: Prisma.Decimal | null }> {
+  const [row] = await db.$queryRaw<
+    { min: Prisma.Decimal | null; max: Prisma.Decimal | null }[]
+  >`
+    SELECT min(p.price) AS min, max(p.price) AS max
+    FROM properties p
+    WHERE ${where}
+  `;
+
+  return { min: row?.min ?? null, max: row?.max ?? null };
+}
+
+/**
+ * Extrae el nuevo precio de un PropertyUpdateInput
+ * Acepta valor directo (number/string/Decimal) o { set: valor }
+ * Retorna null si el precio no se está actualizando
+ */
+function extractPriceValue(
+  price: Prisma.PropertyUpdateInput["price"],
+): number | null {
+  if (price === undefined || price === null) return null;
+
+  const value = typeof price === "object" && "set" in price ? price.set : price;
+  if (value === undefined || value === null) return null;
+
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
 /**
  * Repository para operaciones de propiedades
  */
@@ -321,6 +1234,52 @@ export class PropertyRepository {
     return findByIdCached(id);
   }
 
+  /**
+   * Encuentra varias propiedades publicadas por ID, en el orden recibido
+   * Los IDs que no existen o ya no están publicados se omiten
+   * (p. ej. enlaces de comparación antiguos)
+   */
+  async findManyByIds(ids: string[]): Promise<SerializedProperty[]> {
+    const properties = await loadPropertiesPage(ids);
+    return properties.filter((property) => property.visibility === "PUBLISHED");
+  }
+
+  /**
+   * Propiedades similares a una propiedad, personalizadas con el historial
+   * del usuario si se pasa userId
+   *
+   * NOTE: Returns SERIALIZED properties (Decimal → number)
+   * This method uses getSimilarProperties() (React.cache)
+   */
+  async findSimilar(params: {
+    propertyId: string;
+    userId?: string | null;
+    take?: number;
+  }): Promise<SerializedProperty[]> {
+    return getSimilarProperties(params);
+  }
+
+  /**
+   * Propiedades en tendencia: vistas, compartidos, favoritos y citas de los
+   * últimos 14 días con decaimiento temporal, calculadas en PostgreSQL
+   *
+   * NOTE: Returns SERIALIZED properties (Decimal → number)
+   *
+   * @example
+   * const trending = await propertyRepository.findTrending(9);
+   */
+  async findTrending(take = 10): Promise<TrendingProperty[]> {
+    return findTrendingCached(take);
+  }
+
+  /**
+   * Recalcula la vista materializada property_trending_scores
+   * CONCURRENTLY: las lecturas siguen funcionando durante el refresh
+   */
+  async refreshTrendingScores(): Promise<void> {
+    await db.$executeRaw`REFRESH MATERIALIZED VIEW CONCURRENTLY property_trending_scores`;
+  }
+
   /**
    * Lista propiedades con filtros y paginación
    * @deprecated Use getPropertiesList() instead for caching benefits
@@ -328,11 +1287,11 @@ export class PropertyRepository {
    * NOTE: Returns SERIALIZED properties (Decimal → number)
    * This method internally uses getPropertiesList() which serializes results
    */
-  async list(params: {
-    filters?: PropertyFilters;
-    skip?: number;
-    take?: number;
-  }): Promise<{ properties: SerializedProperty[]; total: number }> {
+  async list(params: PropertiesPageParams): Promise<{
+    properties: SerializedProperty[];
+    total: number;
+    nextCursor: string | null;
+  }> {
     return getPropertiesList(params);
   }
 
@@ -346,6 +1305,9 @@ export class PropertyRepository {
    * SANITIZATION: All user-provided text fields are sanitized to prevent XSS attacks
    * - title, address, city, state, zipCode: Plain text (no HTML)
    * - description: Rich text (allows safe HTML tags like <b>, <i>, <a>)
+   *
+   * PUBLISHED AT: A listing created as PUBLISHED (the default visibility) gets
+   * publishedAt = now unless the caller sets it (e.g. a scheduled wizard draft)
    */
   async create(
     data: Omit<Prisma.PropertyUncheckedCreateInput, "agentId">,
@@ -372,6 +1334,12 @@ export class PropertyRepository {
         state: sanitizeOptional(data.state, sanitizePlainText),
         zipCode: sanitizeOptional(data.zipCode, sanitizePlainText),
         agentId: currentUserId, // Asegurar que la propiedad pertenece al usuario actual
+        publishedAt:
+          data.publishedAt !== undefined
+            ? data.publishedAt
+            : (data.visibility ?? "PUBLISHED") === "PUBLISHED"
+              ? new Date()
+              : null,
       };
 
       return tx.property.create({
@@ -388,6 +1356,7 @@ export class PropertyRepository {
    * TRANSACTION: Uses db.$transaction() to ensure atomicity
    * - Authorization check + update in single transaction
    * - Prevents ownership/role changes between check and update
+   * - Price changes are written to PropertyPriceHistory in the same transaction
    *
    * SANITIZATION: All user-provided text fields are sanitized to prevent XSS attacks
    * - Only sanitizes fields that are actually being updated (partial updates supported)
@@ -397,11 +1366,29 @@ export class PropertyRepository {
     data: Prisma.PropertyUpdateInput,
     currentUserId: string,
   ): Promise<PropertyWithRelations> {
+    const { property } = await this.updateWithVideos(id, data, currentUserId);
+    return property;
+  }
+
+  /**
+   * Actualiza una propiedad y, si se envían, reemplaza sus videos
+   * en la misma transacción (un video inválido no deja la propiedad
+   * a medio actualizar)
+   *
+   * @param videos - undefined = no tocar los videos; [] = eliminarlos todos
+   * @returns La propiedad actualizada y el precio anterior
+   */
+  async updateWithVideos(
+    id: string,
+    data: Prisma.PropertyUpdateInput,
+    currentUserId: string,
+    videos?: PropertyVideoInput[],
+  ): Promise<PropertyUpdateResult> {
     return db.$transaction(async (tx) => {
-      // Verificar permisos
+      // Verificar permisos (y leer precio actual para el historial)
       const property = await tx.property.findUnique({
         where: { id },
-        select: { agentId: true },
+        select: { agentId: true, price: true },
       });
 
       if (!property) {
@@ -422,22 +1409,68 @@ export class PropertyRepository {
         );
       }
 
+      // Registrar cambio de precio en el historial (misma transacción)
+      const newPrice = extractPriceValue(data.price);
+      if (newPrice !== null && newPrice !== Number(property.price)) {
+        await tx.propertyPriceHistory.create({
+          data: {
+            propertyId: id,
+            previousPrice: property.price,
+            price: newPrice,
+            changedById: currentUserId,
+          },
+        });
+      }
+
       // Sanitize only fields that are being updated (Defense in Depth - Layer 2)
+      // Editing a listing counts as a refresh: restarts the auto-archive window
       const sanitizedData: Prisma.PropertyUpdateInput = {
         ...data,
+        refreshedAt: new Date(),
+        renewalReminderSentAt: null,
         ...(data.title && { title: sanitizePlainText(data.title as string) }),
-        ...(data.description && { description: sanitizeOptional(data.description as string | null, sanitizeHTML) }),
-        ...(data.address && { address: sanitizePlainText(data.address as string) }),
+        ...(data.description && {
+          description: sanitizeOptional(
+            data.description as string | null,
+            sanitizeHTML,
+          ),
+        }),
+        ...(data.address && {
+          address: sanitizePlainText(data.address as string),
+        }),
         ...(data.city && { city: sanitizePlainText(data.city as string) }),
         ...(data.state && { state: sanitizePlainText(data.state as string) }),
-        ...(data.zipCode && { zipCode: sanitizeOptional(data.zipCode as string | null, sanitizePlainText) }),
+        ...(data.zipCode && {
+          zipCode: sanitizeOptional(
+            data.zipCode as string | null,
+            sanitizePlainText,
+          ),
+        }),
       };
 
-      return tx.property.update({
+      if (videos) {
+        await tx.propertyVideo.deleteMany({ where: { propertyId: id } });
+
+        if (videos.length > 0) {
+          await tx.propertyVideo.createMany({
+            data: videos.map((video, index) => ({
+              url: video.url,
+              platform: video.platform,
+              title: video.title ?? null,
+              order: index,
+              propertyId: id,
+            })),
+          });
+        }
+      }
+
+      const updated = await tx.property.update({
         where: { id },
         data: sanitizedData,
         select: propertySelect,
       });
+
+      return { property: updated, previousPrice: Number(property.price) };
     });
   }
 
@@ -486,36 +1519,52 @@ export class PropertyRepository {
   }
 
   /**
-   * Busca propiedades cerca de una ubicación geográfica
-   * Usando aproximación simple de lat/lng
+   * Busca propiedades disponibles y publicadas dentro de un radio real (PostGIS),
+   * ordenadas de la más cercana a la más lejana
+   *
+   * @example
+   * // Propiedades a menos de 2 km de una escuela
+   * propertyRepository.findNearby({ latitude: -2.9, longitude: -79.0, radiusKm: 2 })
    */
   async findNearby(params: {
     latitude: number;
     longitude: number;
     radiusKm?: number;
     take?: number;
-  }): Promise<PropertyWithRelations[]> {
+  }): Promise<Array<PropertyWithRelations & { distanceKm: number }>> {
     const { latitude, longitude, radiusKm = 10, take = 20 } = params;
 
-    // Aproximación simple: 1 grado ≈ 111km
-    const latDelta = radiusKm / 111;
-    const lngDelta = radiusKm / (111 * Math.cos((latitude * Math.PI) / 180));
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error("Invalid coordinates");
+    }
+    if (radiusKm <= 0) {
+      throw new Error("radiusKm must be greater than 0");
+    }
+
+    const rows = await db.$queryRaw<{ id: string; distance: number }[]>`
+      SELECT p.id, ST_Distance(p.location, origin.point) AS distance
+      FROM properties p,
+        (SELECT ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography AS point) origin
+      WHERE p.status = 'AVAILABLE'
+        AND p.visibility = 'PUBLISHED'
+        AND ST_DWithin(p.location, origin.point, ${radiusKm * 1000})
+      ORDER BY distance ASC, p.created_at DESC
+      LIMIT ${take}
+    `;
 
-    return db.property.findMany({
-      where: {
-        status: "AVAILABLE",
-        latitude: {
-          gte: latitude - latDelta,
-          lte: latitude + latDelta,
-        },
-        longitude: {
-          gte: longitude - lngDelta,
-          lte: longitude + lngDelta,
-        },
-      },
+    if (rows.length === 0) return [];
+
+    const properties = await db.property.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
       select: propertySelect,
-      take,
-      orderBy: { createdAt: "desc" },
+    });
+
+    const byId = new Map(properties.map((property) => [property.id, property]));
+    return rows.flatMap((row) => {
+      const property = byId.get(row.id);
+      return property
+        ? [{ ...property, distanceKm: Number(row.distance) / 1000 }]
+        : [];
     });
   }
 
@@ -582,6 +1631,80 @@ export class PropertyRepository {
     return { properties, total };
   }
 
+  /**
+   * Estado del feed de sindicación (global o de un agente)
+   * Consulta liviana para ETag/Last-Modified: permite responder 304
+   * sin cargar las propiedades
+   *
+   * Incluye las imágenes: agregarlas, borrarlas, reordenarlas u ocultarlas
+   * no modifica Property.updatedAt
+   *
+   * @param agentId - Solo propiedades de este agente (omitir para el feed global)
+   * @returns Cantidad de propiedades publicables y de sus imágenes, y fecha
+   * de la última modificación (propiedad o imagen)
+   */
+  async getSyndicationState(agentId?: string): Promise<{
+    count: number;
+    imageCount: number;
+    lastModified: Date | null;
+  }> {
+    const where: Prisma.PropertyWhereInput = {
+      status: "AVAILABLE",
+      visibility: "PUBLISHED",
+      ...(agentId && { agentId }),
+    };
+
+    const [properties, images] = await Promise.all([
+      db.property.aggregate({
+        where,
+        _count: { id: true },
+        _max: { updatedAt: true },
+      }),
+      db.propertyImage.aggregate({
+        where: { property: where },
+        _count: { id: true },
+        _max: { updatedAt: true },
+      }),
+    ]);
+
+    const stamps = [properties._max.updatedAt, images._max.updatedAt].filter(
+      (date): date is Date => date !== null,
+    );
+
+    return {
+      count: properties._count.id,
+      imageCount: images._count.id,
+      lastModified:
+        stamps.length > 0
+          ? new Date(Math.max(...stamps.map((date) => date.getTime())))
+          : null,
+    };
+  }
+
+  /**
+   * Propiedades del feed de sindicación (portales, catálogos de Meta)
+   * Solo disponibles y publicadas, con imágenes y videos, las más recientes primero
+   *
+   * NOTE: Returns SERIALIZED properties (Decimal → number)
+   */
+  async listForSyndication(
+    agentId?: string,
+    take = 1000,
+  ): Promise<SerializedProperty[]> {
+    const properties = await db.property.findMany({
+      where: {
+        status: "AVAILABLE",
+        visibility: "PUBLISHED",
+        ...(agentId && { agentId }),
+      },
+      select: propertySelect,
+      orderBy: { updatedAt: "desc" },
+      take,
+    });
+
+    return serializeProperties(properties);
+  }
+
   /**
    * Obtiene el rango mínimo y máximo de precios de todas las propiedades
    * Útil para inicializar el rango del filtro de precios en la UI
@@ -601,23 +1724,22 @@ export class PropertyRepository {
   async getPriceRange(
     filters?: PropertyFilters,
   ): Promise<{ minPrice: number; maxPrice: number }> {
-    // Use centralized filter builder (excludes minPrice/maxPrice/search intentionally for aggregation)
-    const where = buildPropertyWhereClause(filters);
-
-    const priceAggregation = await db.property.aggregate({
-      where,
-      _min: { price: true },
-      _max: { price: true },
-    });
+    const range =
+      filters && hasSqlFilters(filters)
+        ? await getSqlPriceRange(buildPropertySqlWhere(filters))
+        : await db.property
+            .aggregate({
+              // Use centralized filter builder (extracted to prevent duplication)
+              where: buildPropertyWhereClause(filters),
+              _min: { price: true },
+              _max: { price: true },
+            })
+            .then(({ _min, _max }) => ({ min: _min.price, max: _max.price }));
 
     // Convertir Decimal a number
     // FIX: Return null if no data available instead of misleading defaults
-    const minPrice = priceAggregation._min.price
-      ? Number(priceAggregation._min.price)
-      : null;
-    const maxPrice = priceAggregation._max.price
-      ? Number(priceAggregation._max.price)
-      : null;
+    const minPrice = range.min ? Number(range.min) : null;
+    const maxPrice = range.max ? Number(range.max) : null;
 
     // Return 0 if no properties match, otherwise return actual range
     if (minPrice === null || maxPrice === null) {
@@ -658,14 +1780,18 @@ export class PropertyRepository {
   ): Promise<{ bucket: number; count: number }[]> {
     const { bucketSize = 10000, filters = {} } = params;
 
-    // Use centralized filter builder with AVAILABLE status (hardcoded for histogram)
-    const where = buildPropertyWhereClause(filters, { status: "AVAILABLE" });
-
     // Fetch only price field (minimal memory footprint)
-    const properties = await db.property.findMany({
-      where,
-      select: { price: true },
-    });
+    // Centralized filter builder with AVAILABLE status (hardcoded for histogram)
+    const properties = hasSqlFilters(filters)
+      ? await db.$queryRaw<{ price: Prisma.Decimal }[]>`
+          SELECT p.price
+          FROM properties p
+          WHERE ${buildPropertySqlWhere(filters, { status: "AVAILABLE" })}
+        `
+      : await db.property.findMany({
+          where: buildPropertyWhereClause(filters, { status: "AVAILABLE" }),
+          select: { price: true },
+        });
 
     // Group into buckets using computed field (FLOOR(price / bucketSize) * bucketSize)
     const buckets = new Map<number, number>();
@@ -718,6 +1844,7 @@ export class PropertyRepository {
       by: ["city", "state"],
       where: {
         status: "AVAILABLE",
+        visibility: "PUBLISHED",
         city: {
           contains: query,
           mode: "insensitive",
@@ -783,6 +1910,8 @@ export type SerializedProperty = Omit<
   state?: string;
   bedrooms?: number | null;
   amenities?: string[];
+  /** Solo en resultados de búsqueda full-text: descripción con los términos resaltados */
+  searchSnippet?: SearchSnippetSegment[];
 };
 
 /**
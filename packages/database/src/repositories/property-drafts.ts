@@ -0,0 +1,189 @@
+/**
+ * PROPERTY DRAFT REPOSITORY
+ *
+ * Abstrae las operaciones de base de datos de borradores del wizard
+ * Usado para el autosave server-side de "Nueva propiedad"
+ *
+ * PATTERN:
+ * - Los datos del wizard se guardan como JSON (mismo shape que el store,
+ *   sin los File[] que no se pueden serializar)
+ * - imageUrls va en su propia columna: son imágenes ya subidas a Storage
+ *   que se restauran al retomar el borrador
+ * - Los borradores NO son propiedades: no cuentan para el límite del plan
+ *   hasta que el wizard los publica (y elimina el borrador)
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "../client";
+import { sanitizePlainText } from "../utils/sanitize";
+
+/**
+ * Datos persistidos de un borrador
+ * Mismo shape que PropertyFormData del wizard (todos opcionales)
+ */
+export interface PropertyDraftData {
+  title?: string;
+  description?: string;
+  price?: number;
+  transactionType?: "SALE" | "RENT";
+  category?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  latitude?: number;
+  longitude?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  area?: number;
+  amenities?: string[];
+  videos?: { url: string; platform: string; title?: string }[];
+}
+
+/**
+ * Property draft select (campos públicos)
+ */
+export const propertyDraftSelect = {
+  id: true,
+  agentId: true,
+  title: true,
+  data: true,
+  imageUrls: true,
+  currentStep: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PropertyDraftSelect;
+
+type PropertyDraftRow = Prisma.PropertyDraftGetPayload<{
+  select: typeof propertyDraftSelect;
+}>;
+
+export type PropertyDraftWithData = Omit<PropertyDraftRow, "data"> & {
+  data: PropertyDraftData;
+};
+
+function toPropertyDraft(row: PropertyDraftRow): PropertyDraftWithData {
+  return {
+    ...row,
+    data: (row.data ?? {}) as PropertyDraftData,
+  };
+}
+
+/**
+ * Título para el listado de borradores (null si aún no se escribió)
+ *
+ * SANITIZATION: texto plano (sin HTML)
+ */
+function toDraftTitle(data: PropertyDraftData): string | null {
+  const title = data.title ? sanitizePlainText(data.title).trim() : "";
+  return title.length > 0 ? title : null;
+}
+
+/**
+ * Repository para operaciones de borradores de propiedades
+ */
+export class PropertyDraftRepository {
+  /**
+   * Crear o actualizar un borrador (autosave de cada paso)
+   * Solo el dueño puede actualizar su borrador
+   *
+   * @param data.id - Borrador existente (omitir para crear uno nuevo)
+   */
+  async save(data: {
+    id?: string;
+    agentId: string;
+    data: PropertyDraftData;
+    imageUrls: string[];
+    currentStep: number;
+  }): Promise<PropertyDraftWithData> {
+    const values = {
+      title: toDraftTitle(data.data),
+      data: data.data as Prisma.InputJsonValue,
+      imageUrls: data.imageUrls.filter(Boolean),
+      currentStep: data.currentStep,
+    };
+
+    if (!data.id) {
+      const row = await db.propertyDraft.create({
+        data: { ...values, agentId: data.agentId },
+        select: propertyDraftSelect,
+      });
+
+      return toPropertyDraft(row);
+    }
+
+    const existing = await db.propertyDraft.findUnique({
+      where: { id: data.id },
+      select: { agentId: true },
+    });
+
+    if (!existing || existing.agentId !== data.agentId) {
+      throw new Error("Borrador no encontrado");
+    }
+
+    const row = await db.propertyDraft.update({
+      where: { id: data.id },
+      data: values,
+      select: propertyDraftSelect,
+    });
+
+    return toPropertyDraft(row);
+  }
+
+  /**
+   * Obtener un borrador del agente (null si no existe o es de otro agente)
+   */
+  async findByIdForAgent(
+    id: string,
+    agentId: string,
+  ): Promise<PropertyDraftWithData | null> {
+    const row = await db.propertyDraft.findFirst({
+      where: { id, agentId },
+      select: propertyDraftSelect,
+    });
+
+    return row ? toPropertyDraft(row) : null;
+  }
+
+  /**
+   * Listar borradores de un agente (editados más recientemente primero)
+   */
+  async listByAgent(agentId: string): Promise<PropertyDraftWithData[]> {
+    const rows = await db.propertyDraft.findMany({
+      where: { agentId },
+      select: propertyDraftSelect,
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return rows.map(toPropertyDraft);
+  }
+
+  /**
+   * Contar borradores de un agente
+   * Usado para limitar cuántos puede acumular
+   */
+  async countByAgent(agentId: string): Promise<number> {
+    return db.propertyDraft.count({ where: { agentId } });
+  }
+
+  /**
+   * Eliminar un borrador
+   * Solo el dueño puede eliminar su borrador
+   */
+  async delete(id: string, agentId: string) {
+    const result = await db.propertyDraft.deleteMany({
+      where: { id, agentId },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Borrador no encontrado");
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const propertyDraftRepository = new PropertyDraftRepository();
@@ -0,0 +1,516 @@
+/**
+ * SAVED SEARCH REPOSITORY
+ *
+ * Abstrae las operaciones de base de datos de búsquedas guardadas
+ * Usado para alertas de nuevas propiedades por email
+ *
+ * PATTERN:
+ * - Los filtros se guardan como JSON (mismo shape que los URL params)
+ * - Las alertas se envían en un digest periódico
+ *   (apps/web/lib/saved-searches/alerts.ts), no al crear la propiedad
+ * - Los filtros estructurados (operación, categoría, ciudad, precio, etc.)
+ *   se traducen a un WHERE sobre properties; solo la búsqueda de texto se
+ *   evalúa en memoria sobre las pocas propiedades nuevas de la ventana
+ * - lastNotifiedAt marca el fin de la última ventana revisada: el siguiente
+ *   digest solo mira propiedades publicadas después
+ */
+
+import type { Prisma, PropertyCategory, TransactionType } from "@prisma/client";
+import { db } from "../client";
+import { sanitizePlainText } from "../utils/sanitize";
+
+/**
+ * Filtros persistidos en una búsqueda guardada
+ * Mismo shape que los filtros de URL (parseFilterParams)
+ */
+export interface SavedSearchFilters {
+  transactionType?: TransactionType[];
+  category?: PropertyCategory[];
+  minPrice?: number;
+  maxPrice?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  minArea?: number;
+  maxArea?: number;
+  city?: string;
+  search?: string;
+  amenities?: string[];
+  amenitiesMatch?: "all" | "any";
+}
+
+/**
+ * Bounding box opcional (mismo formato que los URL params del mapa)
+ */
+export interface SavedSearchBounds {
+  ne_lat: number;
+  ne_lng: number;
+  sw_lat: number;
+  sw_lng: number;
+}
+
+/**
+ * Saved search select (campos públicos)
+ */
+export const savedSearchSelect = {
+  id: true,
+  userId: true,
+  name: true,
+  filters: true,
+  bounds: true,
+  alertsEnabled: true,
+  lastNotifiedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.SavedSearchSelect;
+
+/**
+ * Saved search + usuario (para enviar el digest)
+ */
+export const savedSearchDigestSelect = {
+  ...savedSearchSelect,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.SavedSearchSelect;
+
+/**
+ * Propiedades revisadas por búsqueda en cada digest
+ * (antes de aplicar la búsqueda de texto en memoria)
+ */
+const NEW_LISTINGS_SCAN_LIMIT = 200;
+
+/**
+ * Campos de una propiedad nueva para el match y el email del digest
+ */
+const newListingSelect = {
+  id: true,
+  title: true,
+  description: true,
+  price: true,
+  transactionType: true,
+  category: true,
+  bedrooms: true,
+  bathrooms: true,
+  area: true,
+  city: true,
+  address: true,
+  amenities: true,
+  latitude: true,
+  longitude: true,
+} satisfies Prisma.PropertySelect;
+
+type SavedSearchRow = Prisma.SavedSearchGetPayload<{
+  select: typeof savedSearchSelect;
+}>;
+
+export type SavedSearchWithFilters = Omit<
+  SavedSearchRow,
+  "filters" | "bounds"
+> & {
+  filters: SavedSearchFilters;
+  bounds: SavedSearchBounds | null;
+};
+
+export type SavedSearchForDigest = SavedSearchWithFilters & {
+  user: { id: string; name: string | null; email: string };
+};
+
+/**
+ * Datos mínimos de una propiedad para evaluar el match
+ * Compatible con SerializedProperty (Decimal → number)
+ */
+export interface SavedSearchCandidate {
+  price: number;
+  transactionType: TransactionType;
+  category: PropertyCategory;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  area?: number | null;
+  city?: string | null;
+  amenities?: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+  title: string;
+  description?: string | null;
+  address?: string | null;
+}
+
+/**
+ * Propiedad nueva que coincide con una búsqueda guardada
+ */
+export type SavedSearchListing = SavedSearchCandidate & { id: string };
+
+function toSavedSearch(row: SavedSearchRow): SavedSearchWithFilters {
+  return {
+    ...row,
+    filters: (row.filters ?? {}) as SavedSearchFilters,
+    bounds: (row.bounds as SavedSearchBounds | null) ?? null,
+  };
+}
+
+function toNumberOrNull(value: Prisma.Decimal | number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+/**
+ * WHERE de las propiedades publicadas en la ventana (since, until] que
+ * cumplen los filtros estructurados de la búsqueda
+ * Misma semántica que matchesSavedSearch (salvo la búsqueda de texto)
+ */
+function buildNewListingsWhere(
+  search: SavedSearchForDigest,
+  since: Date,
+  until: Date,
+): Prisma.PropertyWhereInput {
+  const { filters, bounds } = search;
+  const where: Prisma.PropertyWhereInput = {
+    visibility: "PUBLISHED",
+    publishedAt: { gt: since, lte: until },
+    // El agente que publica nunca recibe alerta de su propia propiedad
+    agentId: { not: search.userId },
+  };
+
+  if (filters.transactionType?.length) {
+    where.transactionType = { in: filters.transactionType };
+  }
+  if (filters.category?.length) {
+    where.category = { in: filters.category };
+  }
+  if (filters.city) {
+    where.city = { contains: filters.city, mode: "insensitive" };
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    where.price = {
+      ...(filters.minPrice !== undefined && { gte: filters.minPrice }),
+      ...(filters.maxPrice !== undefined && { lte: filters.maxPrice }),
+    };
+  }
+  if (filters.bedrooms) {
+    where.bedrooms = { gte: filters.bedrooms };
+  }
+  if (filters.bathrooms) {
+    where.bathrooms = { gte: filters.bathrooms };
+  }
+  if (filters.minArea || filters.maxArea) {
+    where.area = {
+      ...(filters.minArea && { gte: filters.minArea }),
+      ...(filters.maxArea && { lte: filters.maxArea }),
+    };
+  }
+  if (filters.amenities?.length) {
+    where.amenities =
+      filters.amenitiesMatch === "any"
+        ? { hasSome: filters.amenities }
+        : { hasEvery: filters.amenities };
+  }
+  if (bounds) {
+    where.latitude = { gte: bounds.sw_lat, lte: bounds.ne_lat };
+    where.longitude = { gte: bounds.sw_lng, lte: bounds.ne_lng };
+  }
+
+  return where;
+}
+
+function includesInsensitive(
+  haystack: string | null | undefined,
+  needle: string,
+) {
+  return (haystack ?? "").toLowerCase().includes(needle.toLowerCase());
+}
+
+function normalizeSearchText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Aproximación en memoria de la búsqueda full-text (search_vector):
+ * cada palabra de la búsqueda debe aparecer, sin importar acentos,
+ * en el título, la dirección, la ciudad o la descripción
+ */
+function matchesSearchText(property: SavedSearchCandidate, search: string) {
+  const document = normalizeSearchText(
+    [property.title, property.address, property.city, property.description]
+      .filter(Boolean)
+      .join(" "),
+  );
+
+  return normalizeSearchText(search)
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => document.includes(word));
+}
+
+/**
+ * Evalúa si una propiedad cumple los filtros de una búsqueda guardada
+ *
+ * Replica la semántica de buildPropertyWhereClause:
+ * - transactionType/category: "in"
+ * - bedrooms/bathrooms: mínimo (gte)
+ * - city: contains, case-insensitive
+ * - search: todas las palabras, sin acentos (aproxima el full-text search)
+ * - amenities: todas (hasEvery) o al menos una si amenitiesMatch = "any" (hasSome)
+ * - bounds: la propiedad debe tener coordenadas dentro del box
+ *
+ * @example
+ * matchesSavedSearch(
+ *   { filters: { city: "Cuenca", maxPrice: 200000 }, bounds: null },
+ *   property,
+ * ) // true si la propiedad está en Cuenca y cuesta ≤ $200k
+ */
+export function matchesSavedSearch(
+  search: Pick<SavedSearchWithFilters, "filters" | "bounds">,
+  property: SavedSearchCandidate,
+): boolean {
+  const { filters, bounds } = search;
+
+  if (
+    filters.transactionType?.length &&
+    !filters.transactionType.includes(property.transactionType)
+  ) {
+    return false;
+  }
+  if (
+    filters.category?.length &&
+    !filters.category.includes(property.category)
+  ) {
+    return false;
+  }
+  if (filters.minPrice !== undefined && property.price < filters.minPrice) {
+    return false;
+  }
+  if (filters.maxPrice !== undefined && property.price > filters.maxPrice) {
+    return false;
+  }
+  if (filters.bedrooms && (property.bedrooms ?? 0) < filters.bedrooms) {
+    return false;
+  }
+  if (filters.bathrooms && (property.bathrooms ?? 0) < filters.bathrooms) {
+    return false;
+  }
+  if (filters.minArea && (property.area ?? 0) < filters.minArea) {
+    return false;
+  }
+  if (
+    filters.maxArea &&
+    (property.area === null ||
+      property.area === undefined ||
+      property.area > filters.maxArea)
+  ) {
+    return false;
+  }
+  if (filters.city && !includesInsensitive(property.city, filters.city)) {
+    return false;
+  }
+  if (filters.search && !matchesSearchText(property, filters.search)) {
+    return false;
+  }
+  if (filters.amenities?.length) {
+    const amenities = property.amenities ?? [];
+    const matches =
+      filters.amenitiesMatch === "any"
+        ? filters.amenities.some((amenity) => amenities.includes(amenity))
+        : filters.amenities.every((amenity) => amenities.includes(amenity));
+    if (!matches) return false;
+  }
+
+  if (bounds) {
+    if (
+      property.latitude === null ||
+      property.latitude === undefined ||
+      property.longitude === null ||
+      property.longitude === undefined
+    ) {
+      return false;
+    }
+    if (
+      property.latitude < bounds.sw_lat ||
+      property.latitude > bounds.ne_lat ||
+      property.longitude < bounds.sw_lng ||
+      property.longitude > bounds.ne_lng
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Repository para operaciones de búsquedas guardadas
+ */
+export class SavedSearchRepository {
+  /**
+   * Crear una búsqueda guardada
+   *
+   * SANITIZATION: name es texto plano (sin HTML) - se muestra en emails
+   */
+  async create(data: {
+    userId: string;
+    name: string;
+    filters: SavedSearchFilters;
+    bounds?: SavedSearchBounds | null;
+  }): Promise<SavedSearchWithFilters> {
+    const row = await db.savedSearch.create({
+      data: {
+        userId: data.userId,
+        name: sanitizePlainText(data.name),
+        filters: data.filters as Prisma.InputJsonValue,
+        ...(data.bounds && {
+          bounds: data.bounds as unknown as Prisma.InputJsonValue,
+        }),
+      },
+      select: savedSearchSelect,
+    });
+
+    return toSavedSearch(row);
+  }
+
+  /**
+   * Listar búsquedas guardadas de un usuario (más recientes primero)
+   */
+  async listByUser(userId: string): Promise<SavedSearchWithFilters[]> {
+    const rows = await db.savedSearch.findMany({
+      where: { userId },
+      select: savedSearchSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return rows.map(toSavedSearch);
+  }
+
+  /**
+   * Contar búsquedas guardadas de un usuario
+   * Usado para limitar cuántas puede crear
+   */
+  async countByUser(userId: string): Promise<number> {
+    return db.savedSearch.count({ where: { userId } });
+  }
+
+  /**
+   * Activar/desactivar alertas por email
+   * Solo el dueño puede modificar su búsqueda
+   */
+  async setAlertsEnabled(
+    id: string,
+    alertsEnabled: boolean,
+    currentUserId: string,
+  ): Promise<SavedSearchWithFilters> {
+    const existing = await db.savedSearch.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!existing || existing.userId !== currentUserId) {
+      throw new Error("Búsqueda guardada no encontrada");
+    }
+
+    const row = await db.savedSearch.update({
+      where: { id },
+      data: { alertsEnabled },
+      select: savedSearchSelect,
+    });
+
+    return toSavedSearch(row);
+  }
+
+  /**
+   * Eliminar una búsqueda guardada
+   * Solo el dueño puede eliminar su búsqueda
+   */
+  async delete(id: string, currentUserId: string) {
+    const result = await db.savedSearch.deleteMany({
+      where: { id, userId: currentUserId },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Búsqueda guardada no encontrada");
+    }
+
+    return result;
+  }
+
+  /**
+   * Búsquedas con alertas activas cuyo último digest fue antes de
+   * `notifiedBefore` (o que nunca recibieron uno)
+   * Incluye el usuario para poder enviar el email
+   */
+  async findDueForDigest(
+    notifiedBefore: Date,
+    take = 200,
+  ): Promise<SavedSearchForDigest[]> {
+    const rows = await db.savedSearch.findMany({
+      where: {
+        alertsEnabled: true,
+        OR: [
+          { lastNotifiedAt: null },
+          { lastNotifiedAt: { lte: notifiedBefore } },
+        ],
+      },
+      select: savedSearchDigestSelect,
+      orderBy: [
+        { lastNotifiedAt: { sort: "asc", nulls: "first" } },
+        { createdAt: "asc" },
+      ],
+      take,
+    });
+
+    return rows.map((row) => ({ ...toSavedSearch(row), user: row.user }));
+  }
+
+  /**
+   * Propiedades publicadas desde el último digest de la búsqueda (o desde
+   * que se creó) hasta `until` que coinciden con sus filtros
+   * Más recientes primero
+   */
+  async findNewListings(
+    search: SavedSearchForDigest,
+    until: Date,
+    take = 10,
+  ): Promise<SavedSearchListing[]> {
+    const since = search.lastNotifiedAt ?? search.createdAt;
+
+    const rows = await db.property.findMany({
+      where: buildNewListingsWhere(search, since, until),
+      select: newListingSelect,
+      orderBy: { publishedAt: "desc" },
+      take: NEW_LISTINGS_SCAN_LIMIT,
+    });
+
+    return rows
+      .map((row) => ({
+        ...row,
+        price: Number(row.price),
+        bathrooms: toNumberOrNull(row.bathrooms),
+        area: toNumberOrNull(row.area),
+        latitude: toNumberOrNull(row.latitude),
+        longitude: toNumberOrNull(row.longitude),
+      }))
+      .filter((listing) => matchesSavedSearch(search, listing))
+      .slice(0, take);
+  }
+
+  /**
+   * Marcar búsquedas como revisadas hasta `notifiedAt`
+   * (el siguiente digest empieza desde ahí)
+   */
+  async markNotified(ids: string[], notifiedAt: Date) {
+    if (ids.length === 0) return { count: 0 };
+
+    return db.savedSearch.updateMany({
+      where: { id: { in: ids } },
+      data: { lastNotifiedAt: notifiedAt },
+    });
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const savedSearchRepository = new SavedSearchRepository();
@@ -0,0 +1,186 @@
+/**
+ * SUBSCRIPTION TRIAL REPOSITORY
+ *
+ * Prueba gratis gestionada por la plataforma (sin tarjeta ni checkout)
+ * (apps/web/lib/subscription/trial.ts decide cuándo avisar y cuándo vence):
+ * - Una prueba es una fila de subscriptions con provider = "platform",
+ *   status = TRIALING y trialEndsAt
+ * - Suscribirse durante la prueba reemplaza la fila (webhook de Lemon Squeezy)
+ *
+ * PATTERN:
+ * - Una prueba por usuario: se crea con createMany + skipDuplicates sobre
+ *   subscriptions.userId (único), así que quien ya tuvo una suscripción
+ *   (prueba o pago) no puede iniciar otra
+ * - Aviso y vencimiento se "reclaman" con updateMany condicional ANTES del
+ *   email / downgrade: dos ejecuciones simultáneas nunca lo hacen dos veces
+ * - Si el email de aviso o el downgrade fallan, el reclamo se libera
+ *   (releaseReminder / releaseExpiry) y la próxima ejecución lo reintenta
+ */
+
+import type { Prisma, SubscriptionTier } from "@prisma/client";
+import { db } from "../client";
+
+/**
+ * Proveedor de las pruebas gestionadas por la plataforma
+ */
+export const PLATFORM_TRIAL_PROVIDER = "platform";
+
+/**
+ * Prueba gratis con lo necesario para avisar al agente
+ */
+export const subscriptionTrialSelect = {
+  id: true,
+  userId: true,
+  tier: true,
+  status: true,
+  trialEndsAt: true,
+  trialReminderSentAt: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.SubscriptionSelect;
+
+export type SubscriptionTrial = Prisma.SubscriptionGetPayload<{
+  select: typeof subscriptionTrialSelect;
+}>;
+
+/**
+ * Pruebas en curso (aún no vencidas ni reemplazadas por un pago)
+ */
+const activeTrialWhere = {
+  provider: PLATFORM_TRIAL_PROVIDER,
+  status: "TRIALING",
+} satisfies Prisma.SubscriptionWhereInput;
+
+/**
+ * Repository para las pruebas gratis
+ */
+export class SubscriptionTrialRepository {
+  /**
+   * Iniciar una prueba gratis
+   * Retorna false si el usuario ya tuvo una suscripción (prueba o pago)
+   */
+  async start(
+    userId: string,
+    tier: SubscriptionTier,
+    trialEndsAt: Date,
+    now: Date,
+  ): Promise<boolean> {
+    const { count } = await db.subscription.createMany({
+      data: [
+        {
+          userId,
+          tier,
+          status: "TRIALING",
+          provider: PLATFORM_TRIAL_PROVIDER,
+          currentPeriodStart: now,
+          currentPeriodEnd: trialEndsAt,
+          trialEndsAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Prueba en curso de un usuario (null si no tiene)
+   */
+  async findActiveByUser(userId: string): Promise<SubscriptionTrial | null> {
+    return db.subscription.findFirst({
+      where: { userId, ...activeTrialWhere },
+      select: subscriptionTrialSelect,
+    });
+  }
+
+  /**
+   * Si el usuario ya tuvo una suscripción (no puede iniciar una prueba)
+   */
+  async hasSubscription(userId: string): Promise<boolean> {
+    const count = await db.subscription.count({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * Pruebas que vencen antes de `before` y aún no recibieron el aviso
+   */
+  async findEndingSoon(
+    now: Date,
+    before: Date,
+    take = 100,
+  ): Promise<SubscriptionTrial[]> {
+    return db.subscription.findMany({
+      where: {
+        ...activeTrialWhere,
+        trialEndsAt: { gt: now, lte: before },
+        trialReminderSentAt: null,
+      },
+      select: subscriptionTrialSelect,
+      orderBy: { trialEndsAt: "asc" },
+      take,
+    });
+  }
+
+  /**
+   * Reclamar el aviso de fin de prueba ANTES de enviarlo
+   * Retorna false si otra ejecución ya lo reclamó
+   */
+  async claimReminder(id: string, now: Date): Promise<boolean> {
+    const result = await db.subscription.updateMany({
+      where: { id, ...activeTrialWhere, trialReminderSentAt: null },
+      data: { trialReminderSentAt: now },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Liberar un aviso cuyo envío falló (se reintenta en la próxima ejecución)
+   */
+  async releaseReminder(id: string) {
+    return db.subscription.updateMany({
+      where: { id, ...activeTrialWhere },
+      data: { trialReminderSentAt: null },
+    });
+  }
+
+  /**
+   * Pruebas ya vencidas
+   */
+  async findExpired(now: Date, take = 100): Promise<SubscriptionTrial[]> {
+    return db.subscription.findMany({
+      where: { ...activeTrialWhere, trialEndsAt: { lte: now } },
+      select: subscriptionTrialSelect,
+      orderBy: { trialEndsAt: "asc" },
+      take,
+    });
+  }
+
+  /**
+   * Reclamar el vencimiento de una prueba ANTES de bajar a FREE
+   * Retorna false si otra ejecución ya la venció (o el agente se suscribió)
+   */
+  async claimExpiry(id: string, now: Date): Promise<boolean> {
+    const result = await db.subscription.updateMany({
+      where: { id, ...activeTrialWhere, trialEndsAt: { lte: now } },
+      data: { tier: "FREE", status: "EXPIRED", cancelledAt: now },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revertir un vencimiento reclamado cuyo downgrade falló
+   * La prueba vuelve a TRIALING con su plan y la próxima ejecución la reintenta
+   */
+  async releaseExpiry(id: string, tier: SubscriptionTier) {
+    return db.subscription.updateMany({
+      where: { id, provider: PLATFORM_TRIAL_PROVIDER, status: "EXPIRED" },
+      data: { tier, status: "TRIALING", cancelledAt: null },
+    });
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const subscriptionTrialRepository = new SubscriptionTrialRepository();
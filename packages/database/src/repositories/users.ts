@@ -5,8 +5,14 @@
  * Centraliza lógica de negocio y validaciones
  */
 
+import { randomBytes } from "node:crypto";
 import type { Prisma, User, UserRole } from "@prisma/client";
 import { db } from "../client";
+import {
+  createdAtKeysetWhere,
+  createdAtNextCursor,
+  decodeCursor,
+} from "../utils/pagination";
 import { sanitizeOptional, sanitizePlainText } from "../utils/sanitize";
 
 /**
@@ -135,14 +141,17 @@ export class UserRepository {
 
   /**
    * Lista usuarios con filtros y paginación
+   * Orden (createdAt desc, id desc): con cursor se pagina por keyset
+   * (ignora skip); nextCursor es null en la última página
    */
   async list(params: {
     role?: UserRole;
     search?: string;
     skip?: number;
     take?: number;
-  }): Promise<{ users: SafeUser[]; total: number }> {
-    const { role, search, skip = 0, take = 20 } = params;
+    cursor?: string | null;
+  }): Promise<{ users: SafeUser[]; total: number; nextCursor: string | null }> {
+    const { role, search, skip = 0, take = 20, cursor } = params;
 
     const where: Prisma.UserWhereInput = {
       ...(role && { role }),
@@ -154,18 +163,27 @@ export class UserRepository {
       }),
     };
 
-    const [users, total] = await Promise.all([
+    const cursorValues = decodeCursor(cursor, "newest");
+    const keysetWhere = cursorValues && createdAtKeysetWhere(cursorValues);
+
+    const [rows, total] = await Promise.all([
       db.user.findMany({
-        where,
+        where: keysetWhere ? { AND: [where, keysetWhere] } : where,
         select: userSelect,
-        skip,
-        take,
-        orderBy: { createdAt: "desc" },
+        ...(!keysetWhere && { skip }),
+        take: take + 1,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       }),
       db.user.count({ where }),
     ]);
 
-    return { users, total };
+    const users = rows.slice(0, take);
+
+    return {
+      users,
+      total,
+      nextCursor: createdAtNextCursor(users, rows.length > take),
+    };
   }
 
   /**
@@ -178,6 +196,44 @@ export class UserRepository {
       orderBy: { name: "asc" },
     });
   }
+
+  /**
+   * Token secreto del feed de calendario (ICS) del agente
+   * No se incluye en userSelect: quien lo conoce puede leer la agenda
+   */
+  async getCalendarFeedToken(id: string): Promise<string | null> {
+    const user = await db.user.findUnique({
+      where: { id },
+      select: { calendarFeedToken: true },
+    });
+
+    return user?.calendarFeedToken ?? null;
+  }
+
+  /**
+   * Generar un nuevo token de feed de calendario
+   * Invalida las suscripciones creadas con el token anterior
+   */
+  async rotateCalendarFeedToken(id: string): Promise<string> {
+    const calendarFeedToken = randomBytes(32).toString("hex");
+
+    await db.user.update({
+      where: { id },
+      data: { calendarFeedToken },
+    });
+
+    return calendarFeedToken;
+  }
+
+  /**
+   * Encuentra el usuario dueño de un token de feed de calendario
+   */
+  async findByCalendarFeedToken(token: string): Promise<SafeUser | null> {
+    return db.user.findUnique({
+      where: { calendarFeedToken: token },
+      select: userSelect,
+    });
+  }
 }
 
 /**
@@ -0,0 +1,241 @@
+/**
+ * WEBHOOK EVENT REPOSITORY
+ *
+ * Ledger de webhooks de pagos recibidos (Lemon Squeezy)
+ *
+ * PATTERN:
+ * - Un registro por evento del proveedor (unique provider + eventId):
+ *   las re-entregas del mismo evento no se vuelven a aplicar
+ * - Cada procesamiento se "reclama" con updateMany condicional
+ *   (PENDING/FAILED → PROCESSING): dos entregas simultáneas nunca aplican
+ *   el mismo evento dos veces
+ * - Los FAILED se reintentan con el replay (en orden de occurredAt)
+ */
+
+import type { Prisma, WebhookEventStatus } from "@prisma/client";
+import { db } from "../client";
+
+/**
+ * Reintentos automáticos antes de dejar el evento para revisión manual
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 10;
+
+/**
+ * Un PROCESSING más antiguo que esto se considera abandonado
+ * (proceso caído a mitad) y se puede volver a reclamar
+ */
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+/**
+ * Webhook event select (campos del listado de admin)
+ */
+export const webhookEventSelect = {
+  id: true,
+  provider: true,
+  eventId: true,
+  eventName: true,
+  resourceId: true,
+  userId: true,
+  occurredAt: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  processedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebhookEventSelect;
+
+export type WebhookEventRecord = Prisma.WebhookEventGetPayload<{
+  select: typeof webhookEventSelect;
+}>;
+
+/**
+ * Evento recibido, antes de registrarlo
+ */
+export interface NewWebhookEvent {
+  provider: string;
+  eventId: string;
+  eventName: string;
+  resourceId?: string | null;
+  userId?: string | null;
+  occurredAt?: Date | null;
+  payload: Prisma.InputJsonValue;
+}
+
+function reclaimableWhere(now: Date): Prisma.WebhookEventWhereInput {
+  return {
+    OR: [
+      { status: { in: ["PENDING", "FAILED"] } },
+      {
+        status: "PROCESSING",
+        updatedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+      },
+    ],
+  };
+}
+
+/**
+ * Repository para el ledger de webhooks
+ */
+export class WebhookEventRepository {
+  /**
+   * Registrar un evento recibido
+   * Idempotente: una re-entrega devuelve el registro existente
+   *
+   * @returns El registro y si ya existía (duplicate)
+   */
+  async record(
+    event: NewWebhookEvent,
+  ): Promise<{ event: WebhookEventRecord; duplicate: boolean }> {
+    const { count } = await db.webhookEvent.createMany({
+      data: [
+        {
+          provider: event.provider,
+          eventId: event.eventId,
+          eventName: event.eventName,
+          resourceId: event.resourceId ?? null,
+          userId: event.userId ?? null,
+          occurredAt: event.occurredAt ?? null,
+          payload: event.payload,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    const record = await db.webhookEvent.findUniqueOrThrow({
+      where: {
+        provider_eventId: {
+          provider: event.provider,
+          eventId: event.eventId,
+        },
+      },
+      select: webhookEventSelect,
+    });
+
+    return { event: record, duplicate: count === 0 };
+  }
+
+  /**
+   * Reclamar un evento para procesarlo
+   * Retorna false si ya se procesó o lo está procesando otra ejecución
+   */
+  async claim(id: string, now: Date = new Date()): Promise<boolean> {
+    const result = await db.webhookEvent.updateMany({
+      where: { id, ...reclaimableWhere(now) },
+      data: { status: "PROCESSING", attempts: { increment: 1 } },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Cerrar un evento reclamado
+   *
+   * @param status - PROCESSED (aplicado) o SKIPPED (obsoleto)
+   */
+  async complete(
+    id: string,
+    status: Extract<WebhookEventStatus, "PROCESSED" | "SKIPPED">,
+    note: string | null = null,
+  ) {
+    return db.webhookEvent.update({
+      where: { id },
+      data: { status, processedAt: new Date(), lastError: note },
+    });
+  }
+
+  /**
+   * Marcar un evento como fallido (se reintenta con el replay)
+   */
+  async fail(id: string, error: string) {
+    return db.webhookEvent.update({
+      where: { id },
+      data: { status: "FAILED", lastError: error.slice(0, 2000) },
+    });
+  }
+
+  /**
+   * Eventos a reintentar, en el orden en que ocurrieron
+   * Excluye los que agotaron MAX_WEBHOOK_ATTEMPTS (solo replay manual)
+   */
+  async findReplayable(
+    now: Date = new Date(),
+    take = 50,
+  ): Promise<WebhookEventRecord[]> {
+    return db.webhookEvent.findMany({
+      where: {
+        ...reclaimableWhere(now),
+        attempts: { lt: MAX_WEBHOOK_ATTEMPTS },
+      },
+      select: webhookEventSelect,
+      orderBy: [{ occurredAt: "asc" }, { createdAt: "asc" }],
+      take,
+    });
+  }
+
+  /**
+   * Obtener un evento por ID
+   */
+  async findById(id: string): Promise<WebhookEventRecord | null> {
+    return db.webhookEvent.findUnique({
+      where: { id },
+      select: webhookEventSelect,
+    });
+  }
+
+  /**
+   * Listar eventos para el panel de admin (más recientes primero)
+   */
+  async list(params?: {
+    status?: WebhookEventStatus;
+    search?: string;
+    take?: number;
+  }): Promise<WebhookEventRecord[]> {
+    const { status, search, take = 50 } = params || {};
+
+    return db.webhookEvent.findMany({
+      where: {
+        ...(status && { status }),
+        ...(search && {
+          OR: [
+            { eventId: { contains: search } },
+            { resourceId: search },
+            { userId: search },
+          ],
+        }),
+      },
+      select: webhookEventSelect,
+      orderBy: { createdAt: "desc" },
+      take,
+    });
+  }
+
+  /**
+   * Cantidad de eventos por estado (resumen del panel de admin)
+   */
+  async countByStatus(): Promise<Record<WebhookEventStatus, number>> {
+    const groups = await db.webhookEvent.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    });
+
+    const counts: Record<WebhookEventStatus, number> = {
+      PENDING: 0,
+      PROCESSING: 0,
+      PROCESSED: 0,
+      SKIPPED: 0,
+      FAILED: 0,
+    };
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+
+    return counts;
+  }
+}
+
+/**
+ * Singleton del repositorio
+ */
+export const webhookEventRepository = new WebhookEventRepository();
@@ -247,6 +247,8 @@ export const PropertyFiltersSchema = z
     state: z.string().min(1).optional(),
     agentId: z.string().min(1).optional(),
     search: z.string().optional(),
+    amenities: z.array(z.string().min(1)).optional(),
+    amenitiesMatch: z.enum(["all", "any"]).optional(),
   })
   .strict();
 
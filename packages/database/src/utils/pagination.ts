@@ -0,0 +1,160 @@
+/**
+ * Cursor (Keyset) Pagination Utilities
+ *
+ * skip/take + count() degrades on deep pages: PostgreSQL has to walk and
+ * discard every skipped row, and count() scans the whole filtered set.
+ * Keyset pagination seeks directly to the last row seen using a stable
+ * composite key (e.g. (createdAt, id) or (price, id)).
+ *
+ * Usage:
+ * - encodeCursor() / decodeCursor(): Opaque cursor for URLs and Server Actions
+ * - createdAtKeysetWhere(): WHERE for "newest first" (createdAt desc, id desc)
+ * - estimateTotal(): Cheap total for page-numbered tables (admin)
+ */
+
+import { db } from "../client";
+
+/**
+ * Valores que componen un cursor (en el mismo orden que el ORDER BY)
+ */
+export type CursorValue = string | number;
+
+interface CursorPayload {
+  /** Orden al que pertenece el cursor (un cursor de otro orden se ignora) */
+  k: string;
+  v: CursorValue[];
+}
+
+/**
+ * Codifica un cursor opaco (base64url de JSON)
+ *
+ * @example
+ * encodeCursor("newest", [property.createdAt.toISOString(), property.id])
+ */
+export function encodeCursor(key: string, values: CursorValue[]): string {
+  const payload: CursorPayload = { k: key, v: values };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decodifica un cursor
+ * Retorna null si está mal formado o pertenece a otro orden (primera página)
+ */
+export function decodeCursor(
+  cursor: string | null | undefined,
+  key: string,
+): CursorValue[] | null {
+  if (!cursor) return null;
+
+  try {
+    const payload: unknown = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+
+    if (
+      typeof payload !== "object" ||
+      payload === null ||
+      (payload as CursorPayload).k !== key ||
+      !Array.isArray((payload as CursorPayload).v)
+    ) {
+      return null;
+    }
+
+    const values = (payload as CursorPayload).v;
+    return values.every(
+      (value) =>
+        typeof value === "string" ||
+        (typeof value === "number" && Number.isFinite(value)),
+    )
+      ? values
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WHERE de keyset para (createdAt desc, id desc)
+ * Filas estrictamente posteriores a la última vista: createdAt menor, o igual
+ * createdAt con id menor
+ *
+ * Retorna null si los valores del cursor no son válidos
+ */
+export function createdAtKeysetWhere(values: CursorValue[]): {
+  OR: [{ createdAt: { lt: Date } }, { createdAt: Date; id: { lt: string } }];
+} | null {
+  const [createdAtValue, id] = values;
+  if (typeof createdAtValue !== "string" || typeof id !== "string") {
+    return null;
+  }
+
+  const createdAt = new Date(createdAtValue);
+  if (Number.isNaN(createdAt.getTime())) return null;
+
+  return {
+    OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { lt: id } }],
+  };
+}
+
+/**
+ * Cursor de la siguiente página para (createdAt desc, id desc)
+ * Retorna null si no hay más filas
+ */
+export function createdAtNextCursor(
+  rows: { createdAt: Date; id: string }[],
+  hasMore: boolean,
+): string | null {
+  const last = rows.at(-1);
+  if (!hasMore || !last) return null;
+
+  return encodeCursor("newest", [last.createdAt.toISOString(), last.id]);
+}
+
+/**
+ * Hasta cuántas filas se cuentan de forma exacta antes de estimar
+ */
+export const EXACT_COUNT_LIMIT = 1000;
+
+export interface EstimatedTotal {
+  total: number;
+  /** true: total aproximado (al menos `total` filas) */
+  totalIsEstimate: boolean;
+}
+
+/**
+ * Total de filas para tablas paginadas por número de página
+ *
+ * - Sin filtros: estimación del planner (pg_class.reltuples), sin escanear
+ * - Con filtros: count() acotado a EXACT_COUNT_LIMIT + 1 filas
+ * - Tablas pequeñas (o estadísticas sin calcular): count() exacto
+ *
+ * @param table - Tabla física (p. ej. "properties")
+ * @param filtered - Si la consulta tiene filtros
+ * @param countUpTo - count() de Prisma con `take` (p. ej. `db.user.count({ where, take })`)
+ */
+export async function estimateTotal(params: {
+  table: string;
+  filtered: boolean;
+  countUpTo: (take: number) => Promise<number>;
+}): Promise<EstimatedTotal> {
+  const { table, filtered, countUpTo } = params;
+
+  if (!filtered) {
+    const rows = await db.$queryRaw<{ estimate: number | null }[]>`
+      SELECT reltuples::float8 AS estimate
+      FROM pg_class
+      WHERE oid = to_regclass(${table})
+    `;
+    const estimate = Math.round(Number(rows[0]?.estimate ?? -1));
+
+    if (estimate > EXACT_COUNT_LIMIT) {
+      return { total: estimate, totalIsEstimate: true };
+    }
+  }
+
+  const count = await countUpTo(EXACT_COUNT_LIMIT + 1);
+
+  return count > EXACT_COUNT_LIMIT
+    ? { total: EXACT_COUNT_LIMIT, totalIsEstimate: true }
+    : { total: count, totalIsEstimate: false };
+}
@@ -0,0 +1,210 @@
+/**
+ * Property Similarity Scoring
+ *
+ * Puntúa candidatos para "Propiedades similares" en el detalle:
+ * - Atributos de la propiedad vista: categoría, tipo de transacción,
+ *   rango de precio, habitaciones, distancia y amenidades en común
+ * - Historial del usuario (favoritos y vistas): refuerza las categorías,
+ *   amenidades y precios que ya le interesaron
+ *
+ * Funciones puras: el repositorio carga los datos y ordena por score
+ */
+
+/**
+ * Peso de cada señal en el score (máximo de cada término)
+ */
+export const SIMILARITY_WEIGHTS = {
+  category: 3,
+  transactionType: 2,
+  priceBand: 2,
+  bedrooms: 1,
+  distance: 2,
+  amenities: 1.5,
+  preferredCategory: 1.5,
+  preferredAmenities: 1,
+  preferredPrice: 1,
+} as const;
+
+/**
+ * Diferencia relativa de precio a partir de la cual no suma (±50%)
+ */
+export const SIMILAR_PRICE_TOLERANCE = 0.5;
+
+/**
+ * Radio (km) a partir del cual la distancia no suma
+ */
+export const SIMILAR_DISTANCE_RADIUS_KM = 5;
+
+/**
+ * Un favorito pesa más que una vista al construir las preferencias
+ */
+const FAVORITE_WEIGHT = 2;
+const VIEW_WEIGHT = 1;
+
+export interface SimilarityAttributes {
+  category: string | null;
+  transactionType: string;
+  price: number;
+  bedrooms?: number | null;
+  amenities?: string[];
+}
+
+/**
+ * Preferencias derivadas del historial (favoritos + vistas)
+ * Las proporciones suman 1; null si no hay historial
+ */
+export interface SimilarityPreferences {
+  categoryShare: Record<string, number>;
+  amenityShare: Record<string, number>;
+  /** Precio mediano de lo que le interesó */
+  medianPrice: number | null;
+}
+
+/**
+ * 1 cuando los precios coinciden, 0 desde ±SIMILAR_PRICE_TOLERANCE
+ */
+function priceCloseness(price: number, reference: number): number {
+  if (reference <= 0) return 0;
+  const difference = Math.abs(price / reference - 1);
+  return Math.max(0, 1 - difference / SIMILAR_PRICE_TOLERANCE);
+}
+
+/**
+ * Jaccard de dos listas de amenidades (0 si ambas están vacías)
+ */
+function amenityOverlap(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 0;
+  const shared = a.filter((amenity) => b.includes(amenity)).length;
+  return shared / union.size;
+}
+
+/**
+ * Construye las preferencias de un usuario a partir de su historial
+ * Retorna null sin historial (visitantes y usuarios nuevos)
+ */
+export function buildSimilarityPreferences(history: {
+  favorites: SimilarityAttributes[];
+  views: SimilarityAttributes[];
+}): SimilarityPreferences | null {
+  const entries = [
+    ...history.favorites.map((item) => ({ item, weight: FAVORITE_WEIGHT })),
+    ...history.views.map((item) => ({ item, weight: VIEW_WEIGHT })),
+  ];
+  if (entries.length === 0) return null;
+
+  const categoryTotals: Record<string, number> = {};
+  const amenityTotals: Record<string, number> = {};
+  let totalWeight = 0;
+  let amenityWeight = 0;
+
+  for (const { item, weight } of entries) {
+    totalWeight += weight;
+    if (item.category) {
+      categoryTotals[item.category] =
+        (categoryTotals[item.category] ?? 0) + weight;
+    }
+    for (const amenity of item.amenities ?? []) {
+      amenityTotals[amenity] = (amenityTotals[amenity] ?? 0) + weight;
+      amenityWeight += weight;
+    }
+  }
+
+  const share = (totals: Record<string, number>, total: number) =>
+    Object.fromEntries(
+      Object.entries(totals).map(([key, value]) => [key, value / total]),
+    );
+
+  const prices = entries
+    .map(({ item }) => item.price)
+    .filter((price) => price > 0)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(prices.length / 2);
+  const medianPrice =
+    prices.length === 0
+      ? null
+      : prices.length % 2 === 1
+        ? (prices[middle] ?? null)
+        : ((prices[middle - 1] ?? 0) + (prices[middle] ?? 0)) / 2;
+
+  return {
+    categoryShare: share(categoryTotals, totalWeight),
+    amenityShare: amenityWeight > 0 ? share(amenityTotals, amenityWeight) : {},
+    medianPrice,
+  };
+}
+
+/**
+ * Score de similitud de un candidato respecto a la propiedad vista
+ *
+ * @param distanceKm - Distancia a la propiedad vista (null sin ubicación)
+ * @param preferences - Preferencias del usuario (null: visitante)
+ *
+ * @example
+ * scoreSimilarProperty(target, candidate, { distanceKm: 1.2, preferences: null })
+ */
+export function scoreSimilarProperty(
+  target: SimilarityAttributes,
+  candidate: SimilarityAttributes,
+  context: {
+    distanceKm: number | null;
+    preferences: SimilarityPreferences | null;
+  },
+): number {
+  const { distanceKm, preferences } = context;
+  const weights = SIMILARITY_WEIGHTS;
+  let score = 0;
+
+  if (target.category && candidate.category === target.category) {
+    score += weights.category;
+  }
+  if (candidate.transactionType === target.transactionType) {
+    score += weights.transactionType;
+  }
+
+  score += weights.priceBand * priceCloseness(candidate.price, target.price);
+
+  if (
+    typeof target.bedrooms === "number" &&
+    typeof candidate.bedrooms === "number"
+  ) {
+    const difference = Math.abs(candidate.bedrooms - target.bedrooms);
+    score +=
+      weights.bedrooms * (difference === 0 ? 1 : difference === 1 ? 0.5 : 0);
+  }
+
+  if (distanceKm !== null) {
+    score +=
+      weights.distance *
+      Math.max(0, 1 - distanceKm / SIMILAR_DISTANCE_RADIUS_KM);
+  }
+
+  score +=
+    weights.amenities *
+    amenityOverlap(target.amenities ?? [], candidate.amenities ?? []);
+
+  if (preferences) {
+    if (candidate.category) {
+      score +=
+        weights.preferredCategory *
+        (preferences.categoryShare[candidate.category] ?? 0);
+    }
+
+    const candidateAmenities = candidate.amenities ?? [];
+    if (candidateAmenities.length > 0) {
+      const preferredShare = candidateAmenities.reduce(
+        (sum, amenity) => sum + (preferences.amenityShare[amenity] ?? 0),
+        0,
+      );
+      score += weights.preferredAmenities * Math.min(1, preferredShare);
+    }
+
+    if (preferences.medianPrice !== null) {
+      score +=
+        weights.preferredPrice *
+        priceCloseness(candidate.price, preferences.medianPrice);
+    }
+  }
+
+  return score;
+}
@@ -245,6 +245,13 @@ const serverSchema = z.object({
     .min(1, "LEMONSQUEEZY_PRO_VARIANT_ID is required")
     .optional()
     .describe("Lemon Squeezy variant ID for PRO tier"),
+
+  // Scheduled jobs (appointment reminders)
+  CRON_SECRET: z
+    .string()
+    .min(16, "CRON_SECRET must be at least 16 characters")
+    .optional()
+    .describe("Bearer token required by /api/cron/* routes"),
 });
 
 /**
@@ -327,6 +334,7 @@ const parseEnv = (): Env => {
       LEMONSQUEEZY_PLUS_VARIANT_ID: process.env.LEMONSQUEEZY_PLUS_VARIANT_ID,
       LEMONSQUEEZY_BUSINESS_VARIANT_ID: process.env.LEMONSQUEEZY_BUSINESS_VARIANT_ID,
       LEMONSQUEEZY_PRO_VARIANT_ID: process.env.LEMONSQUEEZY_PRO_VARIANT_ID,
+      CRON_SECRET: process.env.CRON_SECRET,
       NODE_ENV: (process.env.NODE_ENV || "development") as
         | "development"
         | "production"
@@ -369,6 +377,7 @@ const parseEnv = (): Env => {
     LEMONSQUEEZY_PLUS_VARIANT_ID: process.env.LEMONSQUEEZY_PLUS_VARIANT_ID,
     LEMONSQUEEZY_BUSINESS_VARIANT_ID: process.env.LEMONSQUEEZY_BUSINESS_VARIANT_ID,
     LEMONSQUEEZY_PRO_VARIANT_ID: process.env.LEMONSQUEEZY_PRO_VARIANT_ID,
+    CRON_SECRET: process.env.CRON_SECRET,
     NODE_ENV: process.env.NODE_ENV,
   });
 
@@ -0,0 +1,40 @@
+#!/usr/bin/env bun
+/**
+ * Enforce Plan Downgrades
+ * Triggers the plan downgrade job of a running app
+ * (listings over the plan limits once the grace period ends)
+ *
+ * Run: bun run downgrades:enforce
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: every downgrade is claimed once
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/plan-downgrades`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Plan downgrade job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Plan downgrades finished", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the plan downgrade job:", error);
+  process.exit(1);
+});
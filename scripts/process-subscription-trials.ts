@@ -0,0 +1,40 @@
+#!/usr/bin/env bun
+/**
+ * Process Subscription Trials
+ * Triggers the free trial job of a running app
+ * (trial-ending reminders and fallback to FREE when a trial ends)
+ *
+ * Run: bun run trials:process
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: every reminder and expiry is claimed once
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/subscription-trials`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Subscription trial job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Subscription trials processed", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the subscription trial job:", error);
+  process.exit(1);
+});
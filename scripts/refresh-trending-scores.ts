@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+/**
+ * Refresh Trending Scores
+ * Triggers the trending job of a running app (property_trending_scores)
+ *
+ * Run: bun run trending:refresh
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: the view is refreshed concurrently
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/trending-scores`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Trending job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Trending scores refreshed", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the trending job:", error);
+  process.exit(1);
+});
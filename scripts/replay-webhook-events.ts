@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+/**
+ * Replay Webhook Events
+ * Retries failed payment webhooks stored in the ledger of a running app
+ *
+ * Run: bun run webhooks:replay
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: every event is claimed before it is applied
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/webhook-replay`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Webhook replay failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Webhook replay finished", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the webhook replay job:", error);
+  process.exit(1);
+});
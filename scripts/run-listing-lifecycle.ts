@@ -0,0 +1,40 @@
+#!/usr/bin/env bun
+/**
+ * Run Listing Lifecycle
+ * Triggers the listing lifecycle job of a running app
+ * (scheduled publishing, "¿sigue disponible?" emails, auto-archiving)
+ *
+ * Run: bun run listings:lifecycle
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: every transition is claimed once
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/listing-lifecycle`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Listing lifecycle job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Listing lifecycle finished", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the listing lifecycle job:", error);
+  process.exit(1);
+});
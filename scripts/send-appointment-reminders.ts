@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+/**
+ * Send Appointment Reminders
+ * Triggers the reminder job of a running app (24h and 1h notices)
+ *
+ * Run: bun run reminders:send
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: each reminder is only sent once
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/appointment-reminders`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Reminder job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Reminder job finished", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the reminder job:", error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+#!/usr/bin/env bun
+/**
+ * Send Saved Search Alerts
+ * Triggers the saved search digest job of a running app
+ * (one email per user with the new listings matching their searches)
+ *
+ * Run: bun run alerts:digest
+ *
+ * Requires CRON_SECRET (and NEXT_PUBLIC_SITE_URL outside of localhost)
+ * Safe to run as often as needed: each search gets at most one digest a day
+ */
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+const cronSecret = process.env.CRON_SECRET;
+
+async function main() {
+  if (!cronSecret) {
+    console.error("❌ CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  const response = await fetch(`${siteUrl}/api/cron/saved-search-alerts`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Saved search alerts job failed (${response.status})`, body);
+    process.exit(1);
+  }
+
+  console.log("✅ Saved search alerts sent", body);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not reach the saved search alerts job:", error);
+  process.exit(1);
+});